@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "babies" ADD COLUMN "gestational_age_weeks" INTEGER;
@@ -0,0 +1,34 @@
+-- AlterEnum
+ALTER TYPE "RoutineType" ADD VALUE 'CUSTOM';
+
+-- AlterTable
+ALTER TABLE "routine_logs" ADD COLUMN "custom_type_id" INTEGER;
+
+-- CreateTable
+CREATE TABLE "custom_routine_types" (
+    "id" SERIAL NOT NULL,
+    "baby_id" INTEGER NOT NULL,
+    "key" VARCHAR(50) NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "icon" VARCHAR(50),
+    "is_timed" BOOLEAN NOT NULL DEFAULT false,
+    "meta_fields" JSONB NOT NULL DEFAULT '[]',
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_by_user_id" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "custom_routine_types_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "custom_routine_types_baby_id_key_key" ON "custom_routine_types"("baby_id", "key");
+
+-- CreateIndex
+CREATE INDEX "routine_logs_custom_type_id_start_time_idx" ON "routine_logs"("custom_type_id", "start_time");
+
+-- AddForeignKey
+ALTER TABLE "routine_logs" ADD CONSTRAINT "routine_logs_custom_type_id_fkey" FOREIGN KEY ("custom_type_id") REFERENCES "custom_routine_types"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "custom_routine_types" ADD CONSTRAINT "custom_routine_types_baby_id_fkey" FOREIGN KEY ("baby_id") REFERENCES "babies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,60 @@
+-- CreateEnum
+CREATE TYPE "TemperatureMethod" AS ENUM ('AXILLARY', 'RECTAL', 'EAR', 'FOREHEAD', 'ORAL');
+
+-- CreateTable
+CREATE TABLE "medication_doses" (
+    "id" SERIAL NOT NULL,
+    "baby_id" INTEGER NOT NULL,
+    "medication_key" VARCHAR(30),
+    "medication_name" VARCHAR(150) NOT NULL,
+    "dose_mg" DECIMAL(8,2),
+    "dose_ml" DECIMAL(6,2),
+    "concentration_mg_per_ml" DECIMAL(8,2),
+    "route" VARCHAR(30),
+    "administered_at" TIMESTAMP(3) NOT NULL,
+    "prescription_id" INTEGER,
+    "prescription_item_index" INTEGER,
+    "weight_kg_used" DECIMAL(5,2),
+    "mg_per_kg" DECIMAL(6,2),
+    "min_interval_hours" INTEGER,
+    "warnings" JSONB NOT NULL DEFAULT '[]',
+    "interval_overridden" BOOLEAN NOT NULL DEFAULT false,
+    "notes" TEXT,
+    "recorded_by_user_id" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "medication_doses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "temperature_readings" (
+    "id" SERIAL NOT NULL,
+    "baby_id" INTEGER NOT NULL,
+    "temperature_c" DECIMAL(4,1) NOT NULL,
+    "method" "TemperatureMethod" NOT NULL DEFAULT 'AXILLARY',
+    "measured_at" TIMESTAMP(3) NOT NULL,
+    "is_fever" BOOLEAN NOT NULL DEFAULT false,
+    "notes" TEXT,
+    "recorded_by_user_id" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "temperature_readings_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "medication_doses_baby_id_administered_at_idx" ON "medication_doses"("baby_id", "administered_at");
+
+-- CreateIndex
+CREATE INDEX "medication_doses_baby_id_medication_key_administered_at_idx" ON "medication_doses"("baby_id", "medication_key", "administered_at");
+
+-- CreateIndex
+CREATE INDEX "temperature_readings_baby_id_measured_at_idx" ON "temperature_readings"("baby_id", "measured_at");
+
+-- AddForeignKey
+ALTER TABLE "medication_doses" ADD CONSTRAINT "medication_doses_baby_id_fkey" FOREIGN KEY ("baby_id") REFERENCES "babies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "medication_doses" ADD CONSTRAINT "medication_doses_prescription_id_fkey" FOREIGN KEY ("prescription_id") REFERENCES "prescriptions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "temperature_readings" ADD CONSTRAINT "temperature_readings_baby_id_fkey" FOREIGN KEY ("baby_id") REFERENCES "babies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
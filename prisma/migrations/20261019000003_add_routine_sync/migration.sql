@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "routine_logs" ADD COLUMN "client_id" VARCHAR(64);
+
+-- Backfill: registros antigos passam a ter updated_at para o pull incremental
+UPDATE "routine_logs" SET "updated_at" = "created_at" WHERE "updated_at" IS NULL;
+
+-- CreateTable
+CREATE TABLE "routine_log_tombstones" (
+    "id" SERIAL NOT NULL,
+    "baby_id" INTEGER NOT NULL,
+    "routine_log_id" INTEGER NOT NULL,
+    "client_id" VARCHAR(64),
+    "deleted_by_user_id" INTEGER,
+    "deleted_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "routine_log_tombstones_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "routine_logs_baby_id_client_id_key" ON "routine_logs"("baby_id", "client_id");
+
+-- CreateIndex
+CREATE INDEX "routine_logs_baby_id_updated_at_idx" ON "routine_logs"("baby_id", "updated_at");
+
+-- CreateIndex
+CREATE INDEX "routine_log_tombstones_baby_id_deleted_at_idx" ON "routine_log_tombstones"("baby_id", "deleted_at");
+
+-- AddForeignKey
+ALTER TABLE "routine_log_tombstones" ADD CONSTRAINT "routine_log_tombstones_baby_id_fkey" FOREIGN KEY ("baby_id") REFERENCES "babies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
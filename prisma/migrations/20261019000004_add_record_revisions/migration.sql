@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "RevisionEntityType" AS ENUM ('ROUTINE_LOG', 'GROWTH', 'MILESTONE');
+
+-- CreateEnum
+CREATE TYPE "RevisionAction" AS ENUM ('CREATE', 'UPDATE', 'DELETE', 'RESTORE');
+
+-- CreateEnum
+CREATE TYPE "RevisionSource" AS ENUM ('APP', 'AI_TOOL', 'IMPORT', 'SYNC', 'SYSTEM');
+
+-- CreateTable
+CREATE TABLE "record_revisions" (
+    "id" SERIAL NOT NULL,
+    "baby_id" INTEGER NOT NULL,
+    "entity_type" "RevisionEntityType" NOT NULL,
+    "entity_id" INTEGER NOT NULL,
+    "action" "RevisionAction" NOT NULL,
+    "source" "RevisionSource" NOT NULL DEFAULT 'APP',
+    "user_id" INTEGER,
+    "before" JSONB,
+    "after" JSONB,
+    "changes" JSONB,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "record_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "record_revisions_baby_id_created_at_idx" ON "record_revisions"("baby_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "record_revisions_entity_type_entity_id_created_at_idx" ON "record_revisions"("entity_type", "entity_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "record_revisions_baby_id_action_created_at_idx" ON "record_revisions"("baby_id", "action", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "record_revisions" ADD CONSTRAINT "record_revisions_baby_id_fkey" FOREIGN KEY ("baby_id") REFERENCES "babies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
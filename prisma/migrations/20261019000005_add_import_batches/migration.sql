@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "ImportBatchStatus" AS ENUM ('COMPLETED', 'ROLLED_BACK');
+
+-- AlterTable
+ALTER TABLE "routine_logs" ADD COLUMN "import_batch_id" INTEGER;
+
+-- AlterTable
+ALTER TABLE "growth_records" ADD COLUMN "import_batch_id" INTEGER;
+
+-- AlterTable
+ALTER TABLE "milestones" ADD COLUMN "import_batch_id" INTEGER;
+
+-- CreateTable
+CREATE TABLE "import_batches" (
+    "id" SERIAL NOT NULL,
+    "baby_id" INTEGER NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "format" VARCHAR(10) NOT NULL,
+    "preset" VARCHAR(50),
+    "file_name" VARCHAR(255),
+    "status" "ImportBatchStatus" NOT NULL DEFAULT 'COMPLETED',
+    "mapping" JSONB NOT NULL,
+    "summary" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "rolled_back_at" TIMESTAMP(3),
+
+    CONSTRAINT "import_batches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "import_batches_baby_id_created_at_idx" ON "import_batches"("baby_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "routine_logs_import_batch_id_idx" ON "routine_logs"("import_batch_id");
+
+-- CreateIndex
+CREATE INDEX "growth_records_import_batch_id_idx" ON "growth_records"("import_batch_id");
+
+-- CreateIndex
+CREATE INDEX "milestones_import_batch_id_idx" ON "milestones"("import_batch_id");
+
+-- AddForeignKey
+ALTER TABLE "routine_logs" ADD CONSTRAINT "routine_logs_import_batch_id_fkey" FOREIGN KEY ("import_batch_id") REFERENCES "import_batches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "growth_records" ADD CONSTRAINT "growth_records_import_batch_id_fkey" FOREIGN KEY ("import_batch_id") REFERENCES "import_batches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "milestones" ADD CONSTRAINT "milestones_import_batch_id_fkey" FOREIGN KEY ("import_batch_id") REFERENCES "import_batches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "import_batches" ADD CONSTRAINT "import_batches_baby_id_fkey" FOREIGN KEY ("baby_id") REFERENCES "babies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
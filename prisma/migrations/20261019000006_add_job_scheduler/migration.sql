@@ -0,0 +1,70 @@
+-- CreateEnum
+CREATE TYPE "JobRunStatus" AS ENUM ('PENDING', 'RUNNING', 'SUCCEEDED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "JobRunTrigger" AS ENUM ('SCHEDULE', 'MANUAL', 'RETRY');
+
+-- CreateTable
+CREATE TABLE "scheduled_jobs" (
+    "id" SERIAL NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "description" TEXT,
+    "cron" VARCHAR(100) NOT NULL,
+    "timezone" VARCHAR(50) NOT NULL DEFAULT 'America/Sao_Paulo',
+    "per_user_timezone" BOOLEAN NOT NULL DEFAULT false,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "max_attempts" INTEGER NOT NULL DEFAULT 3,
+    "backoff_seconds" INTEGER NOT NULL DEFAULT 60,
+    "last_scheduled_at" TIMESTAMP(3),
+    "next_run_at" TIMESTAMP(3),
+    "last_run_at" TIMESTAMP(3),
+    "last_status" "JobRunStatus",
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scheduled_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "job_runs" (
+    "id" SERIAL NOT NULL,
+    "job_id" INTEGER NOT NULL,
+    "status" "JobRunStatus" NOT NULL DEFAULT 'PENDING',
+    "trigger" "JobRunTrigger" NOT NULL DEFAULT 'SCHEDULE',
+    "attempt" INTEGER NOT NULL DEFAULT 1,
+    "payload" JSONB,
+    "scheduled_for" TIMESTAMP(3) NOT NULL,
+    "started_at" TIMESTAMP(3),
+    "finished_at" TIMESTAMP(3),
+    "duration_ms" INTEGER,
+    "result" JSONB,
+    "error" TEXT,
+    "worker_id" VARCHAR(100),
+    "triggered_by_user_id" INTEGER,
+    "retry_of_id" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "job_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "scheduler_leases" (
+    "name" VARCHAR(50) NOT NULL,
+    "holder_id" VARCHAR(100) NOT NULL,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "scheduler_leases_pkey" PRIMARY KEY ("name")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scheduled_jobs_name_key" ON "scheduled_jobs"("name");
+
+-- CreateIndex
+CREATE INDEX "job_runs_job_id_created_at_idx" ON "job_runs"("job_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "job_runs_status_scheduled_for_idx" ON "job_runs"("status", "scheduled_for");
+
+-- AddForeignKey
+ALTER TABLE "job_runs" ADD CONSTRAINT "job_runs_job_id_fkey" FOREIGN KEY ("job_id") REFERENCES "scheduled_jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "journeys" ADD COLUMN "trigger_event" VARCHAR(50);
+
+-- AlterTable
+ALTER TABLE "journey_steps" ADD COLUMN "metrics" JSONB NOT NULL DEFAULT '{}';
+
+-- AlterTable
+ALTER TABLE "journey_enrollments" ADD COLUMN "waiting_event" VARCHAR(50);
+
+-- CreateTable
+CREATE TABLE "journey_events" (
+    "id" SERIAL NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "event" VARCHAR(50) NOT NULL,
+    "properties" JSONB NOT NULL DEFAULT '{}',
+    "occurred_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "journey_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "journeys_trigger_event_idx" ON "journeys"("trigger_event");
+
+-- CreateIndex
+CREATE INDEX "journey_enrollments_waiting_event_user_id_idx" ON "journey_enrollments"("waiting_event", "user_id");
+
+-- CreateIndex
+CREATE INDEX "journey_events_user_id_event_occurred_at_idx" ON "journey_events"("user_id", "event", "occurred_at");
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "DeferredNotificationStatus" AS ENUM ('PENDING', 'SENT', 'CANCELED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "user_settings" ADD COLUMN "notification_categories" JSONB NOT NULL DEFAULT '{}';
+
+-- CreateTable
+CREATE TABLE "deferred_notifications" (
+    "id" SERIAL NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "channel" VARCHAR(10) NOT NULL,
+    "category" VARCHAR(30) NOT NULL,
+    "severity" "NotificationSeverity" NOT NULL DEFAULT 'info',
+    "payload" JSONB NOT NULL,
+    "deliver_after" TIMESTAMP(3) NOT NULL,
+    "status" "DeferredNotificationStatus" NOT NULL DEFAULT 'PENDING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "sent_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "deferred_notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "deferred_notifications_status_deliver_after_idx" ON "deferred_notifications"("status", "deliver_after");
+
+-- CreateIndex
+CREATE INDEX "deferred_notifications_user_id_status_idx" ON "deferred_notifications"("user_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "deferred_notifications" ADD CONSTRAINT "deferred_notifications_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
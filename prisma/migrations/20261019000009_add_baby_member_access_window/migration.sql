@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "baby_members" ADD COLUMN "access_starts_at" TIMESTAMP(3),
+ADD COLUMN "access_expires_at" TIMESTAMP(3);
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "vaccine_reminders" (
+    "id" SERIAL NOT NULL,
+    "record_id" INTEGER NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "stage" VARCHAR(20) NOT NULL,
+    "outcome" JSONB,
+    "sent_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "vaccine_reminders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "vaccine_reminders_user_id_idx" ON "vaccine_reminders"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vaccine_reminders_record_id_user_id_stage_key" ON "vaccine_reminders"("record_id", "user_id", "stage");
+
+-- AddForeignKey
+ALTER TABLE "vaccine_reminders" ADD CONSTRAINT "vaccine_reminders_record_id_fkey" FOREIGN KEY ("record_id") REFERENCES "baby_vaccine_records"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vaccine_reminders" ADD CONSTRAINT "vaccine_reminders_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "vaccine_definitions" ADD COLUMN     "max_age_days" INTEGER,
+ADD COLUMN     "min_age_days" INTEGER,
+ADD COLUMN     "min_interval_days" INTEGER;
+
+-- AlterTable
+ALTER TABLE "baby_vaccine_records" ADD COLUMN     "invalid_reason" VARCHAR(200),
+ADD COLUMN     "is_valid" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "valid_until" DATE;
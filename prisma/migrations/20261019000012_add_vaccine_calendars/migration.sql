@@ -0,0 +1,109 @@
+-- AlterEnum
+ALTER TYPE "VaccineCalendarSource" ADD VALUE 'CDC';
+ALTER TYPE "VaccineCalendarSource" ADD VALUE 'NHS';
+ALTER TYPE "VaccineCalendarSource" ADD VALUE 'PNV';
+ALTER TYPE "VaccineCalendarSource" ADD VALUE 'CUSTOM';
+
+-- CreateEnum
+CREATE TYPE "VaccineCalendarStatus" AS ENUM ('DRAFT', 'PUBLISHED', 'ARCHIVED');
+
+-- CreateTable
+CREATE TABLE "vaccine_calendars" (
+    "id" SERIAL NOT NULL,
+    "code" VARCHAR(50) NOT NULL,
+    "version" INTEGER NOT NULL DEFAULT 1,
+    "name" VARCHAR(150) NOT NULL,
+    "description" VARCHAR(500),
+    "country" CHAR(2) NOT NULL,
+    "source" "VaccineCalendarSource" NOT NULL,
+    "clinic_id" INTEGER,
+    "status" "VaccineCalendarStatus" NOT NULL DEFAULT 'DRAFT',
+    "is_default" BOOLEAN NOT NULL DEFAULT false,
+    "published_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "vaccine_calendars_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vaccine_calendars_code_version_key" ON "vaccine_calendars"("code", "version");
+
+-- CreateIndex
+CREATE INDEX "vaccine_calendars_country_status_idx" ON "vaccine_calendars"("country", "status");
+
+-- CreateIndex
+CREATE INDEX "vaccine_calendars_clinic_id_idx" ON "vaccine_calendars"("clinic_id");
+
+-- Data: calendários existentes viram a versão 1 publicada
+INSERT INTO "vaccine_calendars" ("code", "version", "name", "description", "country", "source", "status", "is_default", "published_at", "updated_at")
+VALUES ('PNI', 1, 'Programa Nacional de Imunização (PNI)', 'Calendário oficial do Ministério da Saúde do Brasil', 'BR', 'PNI', 'PUBLISHED', true, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP);
+
+INSERT INTO "vaccine_calendars" ("code", "version", "name", "description", "country", "source", "status", "is_default", "published_at", "updated_at")
+SELECT 'SBIM', 1, 'Sociedade Brasileira de Imunizações (SBIm)', 'Calendário para rede privada com vacinas adicionais', 'BR', 'SBIM', 'PUBLISHED', false, CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+WHERE EXISTS (SELECT 1 FROM "vaccine_definitions" WHERE "source" = 'SBIM');
+
+-- AlterTable
+ALTER TABLE "vaccine_definitions" ADD COLUMN "calendar_id" INTEGER;
+
+UPDATE "vaccine_definitions" d
+SET "calendar_id" = c."id"
+FROM "vaccine_calendars" c
+WHERE c."code" = d."source"::text AND c."version" = 1;
+
+ALTER TABLE "vaccine_definitions" ALTER COLUMN "calendar_id" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "vaccine_definitions_vaccine_key_dose_label_source_key";
+
+-- DropIndex
+DROP INDEX "vaccine_definitions_source_idx";
+
+-- AlterTable
+ALTER TABLE "vaccine_definitions" DROP COLUMN "source";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vaccine_definitions_calendar_id_vaccine_key_dose_label_key" ON "vaccine_definitions"("calendar_id", "vaccine_key", "dose_label");
+
+-- CreateIndex
+CREATE INDEX "vaccine_definitions_calendar_id_idx" ON "vaccine_definitions"("calendar_id");
+
+-- AlterTable
+ALTER TABLE "baby_vaccine_records" ADD COLUMN "calendar_id" INTEGER;
+
+-- Data: registros gerados a partir de uma definição apontam para o calendário dela
+UPDATE "baby_vaccine_records" r
+SET "calendar_id" = d."calendar_id"
+FROM "vaccine_definitions" d
+JOIN "vaccine_calendars" c ON c."id" = d."calendar_id"
+WHERE d."vaccine_key" = r."vaccine_key"
+  AND d."dose_label" = r."dose_label"
+  AND c."source" = r."source";
+
+-- CreateIndex
+CREATE INDEX "baby_vaccine_records_calendar_id_idx" ON "baby_vaccine_records"("calendar_id");
+
+-- AlterTable
+ALTER TABLE "babies" ADD COLUMN "vaccine_calendar_id" INTEGER;
+
+-- Data: bebês já sincronizados ficam no calendário que usaram
+UPDATE "babies" b
+SET "vaccine_calendar_id" = (
+    SELECT r."calendar_id"
+    FROM "baby_vaccine_records" r
+    WHERE r."baby_id" = b."id" AND r."calendar_id" IS NOT NULL
+    ORDER BY r."id"
+    LIMIT 1
+);
+
+-- AddForeignKey
+ALTER TABLE "vaccine_calendars" ADD CONSTRAINT "vaccine_calendars_clinic_id_fkey" FOREIGN KEY ("clinic_id") REFERENCES "clinics"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vaccine_definitions" ADD CONSTRAINT "vaccine_definitions_calendar_id_fkey" FOREIGN KEY ("calendar_id") REFERENCES "vaccine_calendars"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "baby_vaccine_records" ADD CONSTRAINT "baby_vaccine_records_calendar_id_fkey" FOREIGN KEY ("calendar_id") REFERENCES "vaccine_calendars"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "babies" ADD CONSTRAINT "babies_vaccine_calendar_id_fkey" FOREIGN KEY ("vaccine_calendar_id") REFERENCES "vaccine_calendars"("id") ON DELETE SET NULL ON UPDATE CASCADE;
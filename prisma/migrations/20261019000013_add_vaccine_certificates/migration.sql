@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "VaccineCertificateStatus" AS ENUM ('ACTIVE', 'REVOKED');
+
+-- CreateTable
+CREATE TABLE "vaccine_certificates" (
+    "id" SERIAL NOT NULL,
+    "baby_id" INTEGER NOT NULL,
+    "code" VARCHAR(32) NOT NULL,
+    "payload" JSONB NOT NULL,
+    "signature" VARCHAR(64) NOT NULL,
+    "status" "VaccineCertificateStatus" NOT NULL DEFAULT 'ACTIVE',
+    "issued_by_user_id" INTEGER,
+    "revoked_at" TIMESTAMP(3),
+    "revoked_by_user_id" INTEGER,
+    "revoke_reason" VARCHAR(200),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "vaccine_certificates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vaccine_certificates_code_key" ON "vaccine_certificates"("code");
+
+-- CreateIndex
+CREATE INDEX "vaccine_certificates_baby_id_status_idx" ON "vaccine_certificates"("baby_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "vaccine_certificates" ADD CONSTRAINT "vaccine_certificates_baby_id_fkey" FOREIGN KEY ("baby_id") REFERENCES "babies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vaccine_certificates" ADD CONSTRAINT "vaccine_certificates_issued_by_user_id_fkey" FOREIGN KEY ("issued_by_user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterEnum
+ALTER TYPE "AppointmentStatus" ADD VALUE 'REQUESTED' BEFORE 'SCHEDULED';
+
+-- AlterTable
+ALTER TABLE "professionals" ADD COLUMN     "booking_auto_confirm" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "booking_cancel_window_hours" INTEGER NOT NULL DEFAULT 24,
+ADD COLUMN     "booking_reschedule_window_hours" INTEGER NOT NULL DEFAULT 24;
@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "clinics" ADD COLUMN     "timezone" VARCHAR(50) NOT NULL DEFAULT 'America/Sao_Paulo';
+
+-- AlterTable
+ALTER TABLE "professional_schedules" ADD COLUMN     "buffer_minutes" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "professional_appointment_durations" (
+    "id" SERIAL NOT NULL,
+    "professional_id" INTEGER NOT NULL,
+    "type" "AppointmentType" NOT NULL,
+    "duration_minutes" INTEGER NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "professional_appointment_durations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "professional_appointment_durations_professional_id_type_key" ON "professional_appointment_durations"("professional_id", "type");
+
+-- AddForeignKey
+ALTER TABLE "professional_appointment_durations" ADD CONSTRAINT "professional_appointment_durations_professional_id_fkey" FOREIGN KEY ("professional_id") REFERENCES "professionals"("id") ON DELETE CASCADE ON UPDATE CASCADE;
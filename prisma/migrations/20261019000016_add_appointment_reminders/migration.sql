@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "appointment_reminders" (
+    "id" SERIAL NOT NULL,
+    "appointment_id" INTEGER NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "stage" VARCHAR(20) NOT NULL,
+    "outcome" JSONB,
+    "sent_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "appointment_reminders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "appointment_reminders_user_id_idx" ON "appointment_reminders"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "appointment_reminders_appointment_id_user_id_stage_key" ON "appointment_reminders"("appointment_id", "user_id", "stage");
+
+-- AddForeignKey
+ALTER TABLE "appointment_reminders" ADD CONSTRAINT "appointment_reminders_appointment_id_fkey" FOREIGN KEY ("appointment_id") REFERENCES "appointments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_reminders" ADD CONSTRAINT "appointment_reminders_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
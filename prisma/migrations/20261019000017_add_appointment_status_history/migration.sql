@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "ClinicalVisitStatus" AS ENUM ('DRAFT', 'FINALIZED');
+
+-- AlterTable
+ALTER TABLE "clinical_visits" ADD COLUMN     "status" "ClinicalVisitStatus" NOT NULL DEFAULT 'FINALIZED';
+
+-- CreateTable
+CREATE TABLE "appointment_status_changes" (
+    "id" SERIAL NOT NULL,
+    "appointment_id" INTEGER NOT NULL,
+    "from_status" "AppointmentStatus",
+    "to_status" "AppointmentStatus" NOT NULL,
+    "changed_by_user_id" INTEGER,
+    "source" VARCHAR(30) NOT NULL,
+    "reason" VARCHAR(255),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "appointment_status_changes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "appointment_status_changes_appointment_id_idx" ON "appointment_status_changes"("appointment_id");
+
+-- AddForeignKey
+ALTER TABLE "appointment_status_changes" ADD CONSTRAINT "appointment_status_changes_appointment_id_fkey" FOREIGN KEY ("appointment_id") REFERENCES "appointments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Histórico inicial: status atual dos agendamentos existentes
+INSERT INTO "appointment_status_changes" ("appointment_id", "from_status", "to_status", "changed_by_user_id", "source", "created_at")
+SELECT "id", NULL, "status", "booked_by_user_id", 'SYSTEM', "created_at" FROM "appointments";
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "CalendarFeedKind" AS ENUM ('PROFESSIONAL', 'FAMILY');
+
+-- AlterTable
+ALTER TABLE "appointments" ADD COLUMN     "sequence" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "calendar_feeds" (
+    "id" SERIAL NOT NULL,
+    "user_id" INTEGER NOT NULL,
+    "kind" "CalendarFeedKind" NOT NULL,
+    "token_hash" VARCHAR(64) NOT NULL,
+    "rotated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "last_accessed_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "calendar_feeds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "calendar_feeds_token_hash_key" ON "calendar_feeds"("token_hash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "calendar_feeds_user_id_kind_key" ON "calendar_feeds"("user_id", "kind");
+
+-- AddForeignKey
+ALTER TABLE "calendar_feeds" ADD CONSTRAINT "calendar_feeds_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
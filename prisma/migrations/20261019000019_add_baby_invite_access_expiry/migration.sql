@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "baby_invites" ADD COLUMN     "access_expires_at" TIMESTAMP(3);
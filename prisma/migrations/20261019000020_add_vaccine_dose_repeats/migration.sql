@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "baby_vaccine_records" ADD COLUMN     "repeat_of_id" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "baby_vaccine_records_repeat_of_id_key" ON "baby_vaccine_records"("repeat_of_id");
+
+-- AddForeignKey
+ALTER TABLE "baby_vaccine_records" ADD CONSTRAINT "baby_vaccine_records_repeat_of_id_fkey" FOREIGN KEY ("repeat_of_id") REFERENCES "baby_vaccine_records"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -12,6 +12,8 @@ import { apiEventsMiddleware } from './middlewares/apiEvents.middleware';
 import { correlationMiddleware } from './middlewares/correlation.middleware';
 import { logger } from './config/logger';
 import { monitoringService } from './services/monitoring.service';
+import { SchedulerService } from './services/scheduler.service';
+import { RealtimeService } from './services/realtime.service';
 import { ensureInitialAdmin } from './utils/ensureAdmin';
 import routes from './routes';
 
@@ -154,6 +156,11 @@ async function startServer(): Promise<void> {
     const { startHealthMonitoring } = require('./utils/monitoring');
     startHealthMonitoring(60000); // A cada 1 minuto
 
+    // Scheduler interno de jobs (push triggers, jornadas, lembretes)
+    if (env.SCHEDULER_ENABLED) {
+      SchedulerService.start();
+    }
+
     // Iniciar servidor
     app.listen(env.PORT, () => {
       logger.info('Server started', {
@@ -182,12 +189,16 @@ async function startServer(): Promise<void> {
 // Graceful shutdown
 process.on('SIGINT', async () => {
   console.log('\n👋 Shutting down gracefully...');
+  await SchedulerService.stop();
+  await RealtimeService.stop();
   await disconnectDatabase();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
   console.log('\n👋 Shutting down gracefully...');
+  await SchedulerService.stop();
+  await RealtimeService.stop();
   await disconnectDatabase();
   process.exit(0);
 });
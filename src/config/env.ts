@@ -22,6 +22,10 @@ const envSchema = z.object({
   JWT_ACCESS_EXPIRES_IN: z.string().default('1h'),
   JWT_REFRESH_EXPIRES_IN: z.string().default('7d'),
 
+  // Assinatura dos certificados de vacinação (sem ela, derivada do JWT_ACCESS_SECRET;
+  // trocar o segredo invalida os certificados já emitidos)
+  CERTIFICATE_SIGNING_SECRET: z.string().min(32).optional(),
+
   // SMTP (legacy fallback)
   SMTP_HOST: z.string().optional(),
   SMTP_PORT: z.string().optional().transform(val => val ? Number(val) : 587),
@@ -109,6 +113,11 @@ const envSchema = z.object({
   // n8n Integration (static Bearer token for /admin/n8n/* endpoints invoked by n8n cron workflows)
   N8N_API_TOKEN: z.string().min(32).optional(),
 
+  // Scheduler interno (push triggers, jornadas, lembretes). Com várias réplicas só o
+  // líder eleito dispara os jobs; use SCHEDULER_ENABLED=false para desligar numa réplica.
+  SCHEDULER_ENABLED: z.string().optional().transform(val => val !== 'false'),
+  SCHEDULER_TICK_MS: z.string().default('30000').transform(Number),
+
   // Social Media Publishing (Publora)
   PUBLORA_API_KEY: z.string().optional(),
   PUBLORA_API_URL: z.string().default('https://api.publora.com'),
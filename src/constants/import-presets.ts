@@ -0,0 +1,125 @@
+// Presets de importação para formatos de exportação conhecidos.
+// O mapeamento enviado na requisição é mesclado por cima do preset, então
+// colunas renomeadas em versões diferentes dos apps podem ser ajustadas sem
+// um preset novo.
+import { ImportPreset, ImportRecordKind } from '../types';
+
+// Valores de tipo reconhecidos em qualquer importação (comparados sem acento e caixa)
+export const IMPORT_TYPE_SYNONYMS: Record<string, ImportRecordKind> = {
+  feeding: 'FEEDING',
+  feed: 'FEEDING',
+  nursing: 'FEEDING',
+  breastfeeding: 'FEEDING',
+  bottle: 'FEEDING',
+  solids: 'FEEDING',
+  alimentacao: 'FEEDING',
+  mamada: 'FEEDING',
+  amamentacao: 'FEEDING',
+  mamadeira: 'FEEDING',
+  solidos: 'FEEDING',
+  sleep: 'SLEEP',
+  nap: 'SLEEP',
+  sono: 'SLEEP',
+  soneca: 'SLEEP',
+  diaper: 'DIAPER',
+  nappy: 'DIAPER',
+  fralda: 'DIAPER',
+  bath: 'BATH',
+  banho: 'BATH',
+  pump: 'MILK_EXTRACTION',
+  pumping: 'MILK_EXTRACTION',
+  extracao: 'MILK_EXTRACTION',
+  'extracao de leite': 'MILK_EXTRACTION',
+  ordenha: 'MILK_EXTRACTION',
+  growth: 'GROWTH',
+  measurement: 'GROWTH',
+  crescimento: 'GROWTH',
+  medida: 'GROWTH',
+  milestone: 'MILESTONE',
+  marco: 'MILESTONE',
+};
+
+export const IMPORT_PRESETS: ImportPreset[] = [
+  {
+    key: 'olive_baby_csv',
+    name: 'Olive Baby (CSV)',
+    format: 'csv',
+    description: 'Planilha gerada em Exportar > CSV do próprio Olive Baby',
+    mapping: {
+      columns: {
+        type: 'Tipo de Rotina',
+        date: 'Data',
+        startTimeOfDay: 'Hora Início',
+        endTimeOfDay: 'Hora Fim',
+        durationMinutes: 'Duração (min)',
+        details: 'Detalhes',
+        notes: 'Observações',
+      },
+      dateFormat: 'dd/MM/yyyy HH:mm',
+    },
+  },
+  {
+    key: 'olive_baby_json',
+    name: 'Olive Baby (JSON)',
+    format: 'json',
+    description: 'Lista de registros no formato da API (routineType, startTime, endTime, notes, meta)',
+    mapping: {
+      columns: {
+        type: 'routineType',
+        start: 'startTime',
+        end: 'endTime',
+        notes: 'notes',
+        weightKg: 'weightKg',
+        heightCm: 'heightCm',
+        headCircumferenceCm: 'headCircumferenceCm',
+        milestone: 'milestoneLabel',
+      },
+    },
+  },
+  {
+    key: 'huckleberry',
+    name: 'Huckleberry',
+    format: 'csv',
+    description: 'Exportação CSV do Huckleberry (Type, Start, End, Duration, Start Location, End Condition, Notes)',
+    mapping: {
+      columns: {
+        type: 'Type',
+        start: 'Start',
+        end: 'End',
+        durationMinutes: 'Duration',
+        feedingType: 'Start Location',
+        diaperType: 'End Condition',
+        notes: 'Notes',
+      },
+      typeValues: {
+        Feed: 'FEEDING',
+        Sleep: 'SLEEP',
+        Diaper: 'DIAPER',
+        Pump: 'MILK_EXTRACTION',
+        Growth: 'GROWTH',
+        Solids: 'FEEDING',
+        Bath: 'BATH',
+      },
+      dateFormat: 'yyyy-MM-dd HH:mm',
+      volumeUnit: 'ml',
+    },
+  },
+  {
+    key: 'generic_csv',
+    name: 'Planilha genérica',
+    format: 'csv',
+    description: 'Uma linha por registro com colunas de tipo, início, fim e observações; ajuste o mapeamento na prévia',
+    mapping: {
+      columns: {
+        type: 'type',
+        start: 'start',
+        end: 'end',
+        notes: 'notes',
+      },
+    },
+  },
+];
+
+export function getImportPreset(key: string): ImportPreset | undefined {
+  return IMPORT_PRESETS.find(preset => preset.key === key);
+}
@@ -0,0 +1,73 @@
+// Referências de dose pediátrica para antitérmicos/analgésicos de uso domiciliar.
+// Usadas apenas para alertas ao cuidador — nunca substituem a orientação do pediatra
+// ou a posologia de uma receita.
+
+export type KnownMedicationKey = 'paracetamol' | 'ibuprofen' | 'dipyrone';
+
+export interface MedicationDosingReference {
+  key: KnownMedicationKey;
+  label: string;
+  aliases: string[];
+  maxMgPerKgPerDose: number;
+  maxMgPerKgPerDay: number;
+  maxMgPerDose: number;
+  maxMgPerDay: number;
+  maxDosesPerDay: number;
+  minIntervalHours: number;
+  minAgeMonths?: number;
+  minWeightKg?: number;
+}
+
+export const MEDICATION_DOSING_REFERENCES: Record<KnownMedicationKey, MedicationDosingReference> = {
+  paracetamol: {
+    key: 'paracetamol',
+    label: 'Paracetamol',
+    aliases: ['paracetamol', 'acetaminofeno', 'acetaminophen', 'tylenol'],
+    maxMgPerKgPerDose: 15,
+    maxMgPerKgPerDay: 75,
+    maxMgPerDose: 1000,
+    maxMgPerDay: 4000,
+    maxDosesPerDay: 5,
+    minIntervalHours: 4,
+  },
+  ibuprofen: {
+    key: 'ibuprofen',
+    label: 'Ibuprofeno',
+    aliases: ['ibuprofeno', 'ibuprofen', 'alivium', 'advil'],
+    maxMgPerKgPerDose: 10,
+    maxMgPerKgPerDay: 40,
+    maxMgPerDose: 400,
+    maxMgPerDay: 1200,
+    maxDosesPerDay: 4,
+    minIntervalHours: 6,
+    minAgeMonths: 6,
+  },
+  dipyrone: {
+    key: 'dipyrone',
+    label: 'Dipirona',
+    aliases: ['dipirona', 'dipyrone', 'metamizol', 'metamizole', 'novalgina'],
+    maxMgPerKgPerDose: 25,
+    maxMgPerKgPerDay: 100,
+    maxMgPerDose: 1000,
+    maxMgPerDay: 4000,
+    maxDosesPerDay: 4,
+    minIntervalHours: 6,
+    minAgeMonths: 3,
+    minWeightKg: 5,
+  },
+};
+
+// Peso mais antigo que isso gera alerta de "peso desatualizado"
+export const WEIGHT_OUTDATED_AFTER_DAYS = 30;
+
+// Limiar de febre por local de medição (°C)
+export const FEVER_THRESHOLD_C: Record<'AXILLARY' | 'RECTAL' | 'EAR' | 'FOREHEAD' | 'ORAL', number> = {
+  AXILLARY: 37.8,
+  RECTAL: 38.0,
+  EAR: 38.0,
+  FOREHEAD: 37.8,
+  ORAL: 37.8,
+};
+
+// Febre em bebês com menos de 3 meses exige avaliação médica imediata
+export const FEVER_URGENT_AGE_MONTHS = 3;
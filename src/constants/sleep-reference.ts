@@ -0,0 +1,43 @@
+// Faixas de referência de sono por idade, usadas para comparar tendências.
+// Totais diários seguem a recomendação da AAP/AASM (a partir dos 4 meses) e da
+// National Sleep Foundation para recém-nascidos; janelas de vigília, número de
+// sonecas e maior bloco noturno são faixas práticas aproximadas — cada bebê tem
+// seu ritmo e os valores servem apenas como orientação.
+
+export interface SleepReferenceRange {
+  fromMonths: number;
+  totalSleepHours: { min: number; max: number };
+  napCount: { min: number; max: number };
+  wakeWindowMinutes: { min: number; max: number };
+  longestStretchHours: { min: number; max: number };
+}
+
+// Ordenado por idade; vale a última faixa com fromMonths <= idade do bebê
+export const SLEEP_REFERENCE_RANGES: SleepReferenceRange[] = [
+  { fromMonths: 0, totalSleepHours: { min: 14, max: 17 }, napCount: { min: 4, max: 6 }, wakeWindowMinutes: { min: 35, max: 60 }, longestStretchHours: { min: 2, max: 4 } },
+  { fromMonths: 1, totalSleepHours: { min: 14, max: 17 }, napCount: { min: 4, max: 5 }, wakeWindowMinutes: { min: 60, max: 90 }, longestStretchHours: { min: 3, max: 5 } },
+  { fromMonths: 3, totalSleepHours: { min: 12, max: 16 }, napCount: { min: 3, max: 4 }, wakeWindowMinutes: { min: 75, max: 120 }, longestStretchHours: { min: 4, max: 6 } },
+  { fromMonths: 5, totalSleepHours: { min: 12, max: 16 }, napCount: { min: 3, max: 3 }, wakeWindowMinutes: { min: 120, max: 180 }, longestStretchHours: { min: 5, max: 8 } },
+  { fromMonths: 7, totalSleepHours: { min: 12, max: 16 }, napCount: { min: 2, max: 3 }, wakeWindowMinutes: { min: 150, max: 210 }, longestStretchHours: { min: 6, max: 10 } },
+  { fromMonths: 9, totalSleepHours: { min: 12, max: 16 }, napCount: { min: 2, max: 2 }, wakeWindowMinutes: { min: 180, max: 240 }, longestStretchHours: { min: 6, max: 11 } },
+  { fromMonths: 12, totalSleepHours: { min: 11, max: 14 }, napCount: { min: 1, max: 2 }, wakeWindowMinutes: { min: 210, max: 300 }, longestStretchHours: { min: 8, max: 11 } },
+  { fromMonths: 18, totalSleepHours: { min: 11, max: 14 }, napCount: { min: 1, max: 1 }, wakeWindowMinutes: { min: 300, max: 360 }, longestStretchHours: { min: 9, max: 12 } },
+  { fromMonths: 24, totalSleepHours: { min: 11, max: 14 }, napCount: { min: 0, max: 1 }, wakeWindowMinutes: { min: 300, max: 420 }, longestStretchHours: { min: 9, max: 12 } },
+  { fromMonths: 36, totalSleepHours: { min: 10, max: 13 }, napCount: { min: 0, max: 1 }, wakeWindowMinutes: { min: 360, max: 720 }, longestStretchHours: { min: 9, max: 12 } },
+];
+
+// Janela considerada "noite" no fuso do usuário (início inclusivo, fim exclusivo)
+export const NIGHT_START_HOUR = 19;
+export const NIGHT_END_HOUR = 7;
+
+// Intervalos acordado maiores que isso indicam registro faltando e são ignorados
+export const MAX_WAKE_WINDOW_MINUTES = 8 * 60;
+
+// Despertares curtos (ex.: troca rápida de posição) não quebram um bloco de sono
+export const STRETCH_MERGE_GAP_MINUTES = 10;
+
+export function getSleepReferenceForAge(ageMonths: number): SleepReferenceRange {
+  return SLEEP_REFERENCE_RANGES
+    .filter(range => range.fromMonths <= ageMonths)
+    .pop() || SLEEP_REFERENCE_RANGES[0];
+}
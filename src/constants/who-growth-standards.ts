@@ -0,0 +1,417 @@
+// Olive Baby API - WHO Child Growth Standards (0-5 anos)
+// Tabelas LMS mensais (idade em meses completos) publicadas pela OMS em 2006.
+// Cada linha: [mês, L, M, S]. Valores intermediários são interpolados linearmente.
+
+export type WhoGrowthIndicator = 'weightForAge' | 'lengthForAge' | 'headCircumferenceForAge';
+
+export type WhoGrowthSex = 'MALE' | 'FEMALE';
+
+export type WhoLmsRow = [month: number, l: number, m: number, s: number];
+
+/** Idade máxima (em meses) coberta pelas tabelas */
+export const WHO_MAX_AGE_MONTHS = 60;
+
+// Peso para idade (kg) - meninos
+const WEIGHT_FOR_AGE_BOYS: WhoLmsRow[] = [
+  [0, 0.3487, 3.3464, 0.14602],
+  [1, 0.2297, 4.4709, 0.13395],
+  [2, 0.197, 5.5675, 0.12385],
+  [3, 0.1738, 6.3762, 0.11727],
+  [4, 0.1553, 7.0023, 0.11316],
+  [5, 0.1395, 7.5105, 0.1108],
+  [6, 0.1257, 7.934, 0.10958],
+  [7, 0.1134, 8.297, 0.10902],
+  [8, 0.1021, 8.6151, 0.10882],
+  [9, 0.0917, 8.9014, 0.10881],
+  [10, 0.082, 9.1649, 0.10891],
+  [11, 0.073, 9.4122, 0.10906],
+  [12, 0.0644, 9.6479, 0.10925],
+  [13, 0.0563, 9.8749, 0.10949],
+  [14, 0.0487, 10.0953, 0.10976],
+  [15, 0.0413, 10.3108, 0.11007],
+  [16, 0.0343, 10.5228, 0.11041],
+  [17, 0.0275, 10.7319, 0.11079],
+  [18, 0.0211, 10.9385, 0.11119],
+  [19, 0.0148, 11.143, 0.11164],
+  [20, 0.0087, 11.3462, 0.11211],
+  [21, 0.0029, 11.5486, 0.11261],
+  [22, -0.0028, 11.7504, 0.11314],
+  [23, -0.0083, 11.9514, 0.11369],
+  [24, -0.0137, 12.1515, 0.11426],
+  [25, -0.0189, 12.3502, 0.11485],
+  [26, -0.024, 12.5466, 0.11544],
+  [27, -0.0289, 12.7401, 0.11604],
+  [28, -0.0337, 12.9303, 0.11664],
+  [29, -0.0385, 13.1169, 0.11723],
+  [30, -0.0431, 13.3, 0.11781],
+  [31, -0.0476, 13.4798, 0.11839],
+  [32, -0.052, 13.6567, 0.11896],
+  [33, -0.0564, 13.8309, 0.11953],
+  [34, -0.0606, 14.0031, 0.12008],
+  [35, -0.0648, 14.1736, 0.12062],
+  [36, -0.0689, 14.3429, 0.12116],
+  [37, -0.0729, 14.5113, 0.12168],
+  [38, -0.0769, 14.6791, 0.1222],
+  [39, -0.0808, 14.8466, 0.12271],
+  [40, -0.0846, 15.014, 0.12322],
+  [41, -0.0883, 15.1813, 0.12373],
+  [42, -0.092, 15.3486, 0.12425],
+  [43, -0.0957, 15.5158, 0.12478],
+  [44, -0.0993, 15.6828, 0.12531],
+  [45, -0.1028, 15.8497, 0.12586],
+  [46, -0.1063, 16.0163, 0.12643],
+  [47, -0.1097, 16.1827, 0.127],
+  [48, -0.1131, 16.3489, 0.12759],
+  [49, -0.1165, 16.515, 0.12819],
+  [50, -0.1198, 16.6811, 0.1288],
+  [51, -0.123, 16.8471, 0.12943],
+  [52, -0.1262, 17.0132, 0.13005],
+  [53, -0.1294, 17.1792, 0.13069],
+  [54, -0.1325, 17.3452, 0.13133],
+  [55, -0.1356, 17.5111, 0.13197],
+  [56, -0.1387, 17.6768, 0.13261],
+  [57, -0.1417, 17.8422, 0.13325],
+  [58, -0.1447, 18.0073, 0.13389],
+  [59, -0.1477, 18.1722, 0.13453],
+  [60, -0.1506, 18.3366, 0.13517],
+];
+
+// Peso para idade (kg) - meninas
+const WEIGHT_FOR_AGE_GIRLS: WhoLmsRow[] = [
+  [0, 0.3809, 3.2322, 0.14171],
+  [1, 0.1714, 4.1873, 0.13724],
+  [2, 0.0962, 5.1282, 0.13],
+  [3, 0.0402, 5.8458, 0.12619],
+  [4, -0.005, 6.4237, 0.12402],
+  [5, -0.043, 6.8985, 0.12274],
+  [6, -0.0756, 7.297, 0.12204],
+  [7, -0.1039, 7.6422, 0.12178],
+  [8, -0.1288, 7.9487, 0.12181],
+  [9, -0.1507, 8.2254, 0.12199],
+  [10, -0.17, 8.48, 0.12223],
+  [11, -0.1872, 8.7192, 0.12247],
+  [12, -0.2024, 8.9481, 0.12268],
+  [13, -0.2158, 9.1699, 0.12283],
+  [14, -0.2278, 9.387, 0.12294],
+  [15, -0.2384, 9.6008, 0.12299],
+  [16, -0.2478, 9.8124, 0.12303],
+  [17, -0.2562, 10.0226, 0.12306],
+  [18, -0.2637, 10.2315, 0.12309],
+  [19, -0.2703, 10.4393, 0.12315],
+  [20, -0.2762, 10.6464, 0.12323],
+  [21, -0.2815, 10.8534, 0.12335],
+  [22, -0.2862, 11.0608, 0.1235],
+  [23, -0.2903, 11.2688, 0.12369],
+  [24, -0.2941, 11.4775, 0.1239],
+  [25, -0.2975, 11.6864, 0.12414],
+  [26, -0.3005, 11.8947, 0.12441],
+  [27, -0.3032, 12.1015, 0.12472],
+  [28, -0.3057, 12.3059, 0.12506],
+  [29, -0.308, 12.5073, 0.12545],
+  [30, -0.3101, 12.7055, 0.12587],
+  [31, -0.312, 12.9006, 0.12633],
+  [32, -0.3138, 13.093, 0.12683],
+  [33, -0.3155, 13.2837, 0.12737],
+  [34, -0.3171, 13.4731, 0.12794],
+  [35, -0.3186, 13.6618, 0.12855],
+  [36, -0.3201, 13.8503, 0.12919],
+  [37, -0.3216, 14.0385, 0.12988],
+  [38, -0.323, 14.2265, 0.13059],
+  [39, -0.3243, 14.414, 0.13135],
+  [40, -0.3257, 14.601, 0.13213],
+  [41, -0.327, 14.7873, 0.13293],
+  [42, -0.3283, 14.9727, 0.13376],
+  [43, -0.3296, 15.1573, 0.1346],
+  [44, -0.3309, 15.341, 0.13545],
+  [45, -0.3322, 15.524, 0.1363],
+  [46, -0.3335, 15.7064, 0.13716],
+  [47, -0.3348, 15.8882, 0.138],
+  [48, -0.3361, 16.0697, 0.13884],
+  [49, -0.3374, 16.2511, 0.13968],
+  [50, -0.3387, 16.4322, 0.14051],
+  [51, -0.34, 16.6133, 0.14132],
+  [52, -0.3414, 16.7942, 0.14213],
+  [53, -0.3427, 16.9748, 0.14293],
+  [54, -0.344, 17.1551, 0.14371],
+  [55, -0.3453, 17.3347, 0.14448],
+  [56, -0.3466, 17.5136, 0.14525],
+  [57, -0.3479, 17.6916, 0.146],
+  [58, -0.3492, 17.8686, 0.14675],
+  [59, -0.3505, 18.0445, 0.14748],
+  [60, -0.3518, 18.2193, 0.14821],
+];
+
+// Comprimento (0-23 meses, deitado) / estatura (24-60 meses, em pé) para idade (cm) - meninos
+const LENGTH_HEIGHT_FOR_AGE_BOYS: WhoLmsRow[] = [
+  [0, 1, 49.8842, 0.03795],
+  [1, 1, 54.7244, 0.03557],
+  [2, 1, 58.4249, 0.03424],
+  [3, 1, 61.4292, 0.03328],
+  [4, 1, 63.886, 0.03257],
+  [5, 1, 65.9026, 0.03204],
+  [6, 1, 67.6236, 0.03165],
+  [7, 1, 69.1645, 0.03139],
+  [8, 1, 70.5994, 0.03124],
+  [9, 1, 71.9687, 0.03117],
+  [10, 1, 73.2812, 0.03118],
+  [11, 1, 74.5388, 0.03125],
+  [12, 1, 75.7488, 0.03137],
+  [13, 1, 76.9186, 0.03154],
+  [14, 1, 78.0497, 0.03174],
+  [15, 1, 79.1458, 0.03197],
+  [16, 1, 80.2113, 0.03222],
+  [17, 1, 81.2487, 0.0325],
+  [18, 1, 82.2587, 0.03279],
+  [19, 1, 83.2418, 0.0331],
+  [20, 1, 84.1996, 0.03342],
+  [21, 1, 85.1348, 0.03376],
+  [22, 1, 86.0477, 0.0341],
+  [23, 1, 86.941, 0.03445],
+  [24, 1, 87.1161, 0.03507],
+  [25, 1, 87.972, 0.03542],
+  [26, 1, 88.8065, 0.03576],
+  [27, 1, 89.6197, 0.0361],
+  [28, 1, 90.412, 0.03642],
+  [29, 1, 91.1828, 0.03674],
+  [30, 1, 91.9327, 0.03704],
+  [31, 1, 92.6631, 0.03733],
+  [32, 1, 93.3753, 0.03761],
+  [33, 1, 94.0711, 0.03787],
+  [34, 1, 94.7532, 0.03812],
+  [35, 1, 95.4236, 0.03836],
+  [36, 1, 96.0835, 0.03858],
+  [37, 1, 96.7337, 0.03879],
+  [38, 1, 97.3749, 0.039],
+  [39, 1, 98.0073, 0.03919],
+  [40, 1, 98.631, 0.03937],
+  [41, 1, 99.2459, 0.03954],
+  [42, 1, 99.8515, 0.03971],
+  [43, 1, 100.4485, 0.03986],
+  [44, 1, 101.0374, 0.04002],
+  [45, 1, 101.6186, 0.04016],
+  [46, 1, 102.1933, 0.04031],
+  [47, 1, 102.7625, 0.04045],
+  [48, 1, 103.3273, 0.04059],
+  [49, 1, 103.8886, 0.04073],
+  [50, 1, 104.4473, 0.04086],
+  [51, 1, 105.0041, 0.041],
+  [52, 1, 105.5596, 0.04113],
+  [53, 1, 106.1138, 0.04126],
+  [54, 1, 106.6668, 0.04139],
+  [55, 1, 107.2188, 0.04152],
+  [56, 1, 107.7697, 0.04165],
+  [57, 1, 108.3198, 0.04177],
+  [58, 1, 108.8689, 0.0419],
+  [59, 1, 109.417, 0.04202],
+  [60, 1, 109.9638, 0.04214],
+];
+
+// Comprimento (0-23 meses, deitado) / estatura (24-60 meses, em pé) para idade (cm) - meninas
+const LENGTH_HEIGHT_FOR_AGE_GIRLS: WhoLmsRow[] = [
+  [0, 1, 49.1477, 0.0379],
+  [1, 1, 53.6872, 0.0364],
+  [2, 1, 57.0673, 0.03568],
+  [3, 1, 59.8029, 0.0352],
+  [4, 1, 62.0899, 0.03486],
+  [5, 1, 64.0301, 0.03463],
+  [6, 1, 65.7311, 0.03448],
+  [7, 1, 67.2873, 0.03441],
+  [8, 1, 68.7498, 0.0344],
+  [9, 1, 70.1435, 0.03444],
+  [10, 1, 71.4818, 0.03452],
+  [11, 1, 72.771, 0.03464],
+  [12, 1, 74.015, 0.03479],
+  [13, 1, 75.2176, 0.03496],
+  [14, 1, 76.3817, 0.03514],
+  [15, 1, 77.5099, 0.03534],
+  [16, 1, 78.6055, 0.03555],
+  [17, 1, 79.671, 0.03576],
+  [18, 1, 80.7079, 0.03598],
+  [19, 1, 81.7182, 0.0362],
+  [20, 1, 82.7036, 0.03643],
+  [21, 1, 83.6654, 0.03666],
+  [22, 1, 84.604, 0.03688],
+  [23, 1, 85.5202, 0.03711],
+  [24, 1, 85.7153, 0.03764],
+  [25, 1, 86.5904, 0.03786],
+  [26, 1, 87.4462, 0.03808],
+  [27, 1, 88.283, 0.0383],
+  [28, 1, 89.1004, 0.03851],
+  [29, 1, 89.8991, 0.03872],
+  [30, 1, 90.6797, 0.03893],
+  [31, 1, 91.443, 0.03913],
+  [32, 1, 92.1906, 0.03933],
+  [33, 1, 92.9239, 0.03952],
+  [34, 1, 93.6444, 0.03971],
+  [35, 1, 94.3533, 0.03989],
+  [36, 1, 95.0515, 0.04006],
+  [37, 1, 95.7399, 0.04024],
+  [38, 1, 96.4187, 0.04041],
+  [39, 1, 97.0885, 0.04057],
+  [40, 1, 97.7493, 0.04073],
+  [41, 1, 98.4015, 0.04089],
+  [42, 1, 99.0448, 0.04105],
+  [43, 1, 99.6795, 0.0412],
+  [44, 1, 100.3058, 0.04135],
+  [45, 1, 100.9238, 0.0415],
+  [46, 1, 101.5337, 0.04164],
+  [47, 1, 102.136, 0.04179],
+  [48, 1, 102.7312, 0.04193],
+  [49, 1, 103.3197, 0.04206],
+  [50, 1, 103.9021, 0.0422],
+  [51, 1, 104.4786, 0.04233],
+  [52, 1, 105.0494, 0.04246],
+  [53, 1, 105.6148, 0.04259],
+  [54, 1, 106.1748, 0.04272],
+  [55, 1, 106.7295, 0.04285],
+  [56, 1, 107.2788, 0.04298],
+  [57, 1, 107.8227, 0.0431],
+  [58, 1, 108.3613, 0.04322],
+  [59, 1, 108.8948, 0.04334],
+  [60, 1, 109.4233, 0.04347],
+];
+
+// Perímetro cefálico para idade (cm) - meninos
+const HEAD_CIRCUMFERENCE_FOR_AGE_BOYS: WhoLmsRow[] = [
+  [0, 1, 34.4618, 0.03686],
+  [1, 1, 37.2759, 0.03133],
+  [2, 1, 39.1285, 0.02997],
+  [3, 1, 40.5135, 0.02918],
+  [4, 1, 41.6317, 0.02868],
+  [5, 1, 42.5576, 0.02837],
+  [6, 1, 43.3306, 0.02817],
+  [7, 1, 43.9803, 0.02804],
+  [8, 1, 44.53, 0.02796],
+  [9, 1, 44.9998, 0.02792],
+  [10, 1, 45.4051, 0.0279],
+  [11, 1, 45.7573, 0.02789],
+  [12, 1, 46.0661, 0.02789],
+  [13, 1, 46.3395, 0.02789],
+  [14, 1, 46.5844, 0.02791],
+  [15, 1, 46.806, 0.02792],
+  [16, 1, 47.0088, 0.02795],
+  [17, 1, 47.1962, 0.02797],
+  [18, 1, 47.3711, 0.028],
+  [19, 1, 47.5357, 0.02803],
+  [20, 1, 47.6919, 0.02806],
+  [21, 1, 47.8408, 0.0281],
+  [22, 1, 47.9833, 0.02813],
+  [23, 1, 48.1201, 0.02817],
+  [24, 1, 48.2515, 0.02821],
+  [25, 1, 48.378, 0.02825],
+  [26, 1, 48.5, 0.0283],
+  [27, 1, 48.6178, 0.02834],
+  [28, 1, 48.7316, 0.02838],
+  [29, 1, 48.8416, 0.02842],
+  [30, 1, 48.9479, 0.02847],
+  [31, 1, 49.0507, 0.02851],
+  [32, 1, 49.15, 0.02855],
+  [33, 1, 49.2461, 0.02859],
+  [34, 1, 49.3392, 0.02863],
+  [35, 1, 49.4292, 0.02867],
+  [36, 1, 49.5165, 0.02871],
+  [37, 1, 49.6012, 0.02875],
+  [38, 1, 49.6834, 0.02878],
+  [39, 1, 49.7632, 0.02882],
+  [40, 1, 49.8408, 0.02886],
+  [41, 1, 49.9163, 0.02889],
+  [42, 1, 49.9896, 0.02893],
+  [43, 1, 50.0609, 0.02896],
+  [44, 1, 50.1303, 0.02899],
+  [45, 1, 50.1979, 0.02903],
+  [46, 1, 50.2639, 0.02906],
+  [47, 1, 50.3282, 0.02909],
+  [48, 1, 50.391, 0.02912],
+  [49, 1, 50.4523, 0.02915],
+  [50, 1, 50.5122, 0.02918],
+  [51, 1, 50.5708, 0.02921],
+  [52, 1, 50.628, 0.02924],
+  [53, 1, 50.684, 0.02927],
+  [54, 1, 50.7387, 0.02929],
+  [55, 1, 50.7923, 0.02932],
+  [56, 1, 50.8448, 0.02935],
+  [57, 1, 50.8962, 0.02938],
+  [58, 1, 50.9465, 0.0294],
+  [59, 1, 50.9958, 0.02943],
+  [60, 1, 51.0441, 0.02945],
+];
+
+// Perímetro cefálico para idade (cm) - meninas
+const HEAD_CIRCUMFERENCE_FOR_AGE_GIRLS: WhoLmsRow[] = [
+  [0, 1, 33.8787, 0.03496],
+  [1, 1, 36.5463, 0.0321],
+  [2, 1, 38.2521, 0.03168],
+  [3, 1, 39.5328, 0.0314],
+  [4, 1, 40.5817, 0.03119],
+  [5, 1, 41.459, 0.03102],
+  [6, 1, 42.1995, 0.03087],
+  [7, 1, 42.829, 0.03075],
+  [8, 1, 43.3671, 0.03063],
+  [9, 1, 43.83, 0.03053],
+  [10, 1, 44.2319, 0.03044],
+  [11, 1, 44.5844, 0.03035],
+  [12, 1, 44.8965, 0.03027],
+  [13, 1, 45.1752, 0.03019],
+  [14, 1, 45.4265, 0.03012],
+  [15, 1, 45.6551, 0.03006],
+  [16, 1, 45.865, 0.02999],
+  [17, 1, 46.0598, 0.02993],
+  [18, 1, 46.2424, 0.02987],
+  [19, 1, 46.4152, 0.02982],
+  [20, 1, 46.5801, 0.02977],
+  [21, 1, 46.7384, 0.02972],
+  [22, 1, 46.8913, 0.02967],
+  [23, 1, 47.0391, 0.02962],
+  [24, 1, 47.1822, 0.02957],
+  [25, 1, 47.3204, 0.02953],
+  [26, 1, 47.4536, 0.02949],
+  [27, 1, 47.5817, 0.02945],
+  [28, 1, 47.7045, 0.02941],
+  [29, 1, 47.8219, 0.02937],
+  [30, 1, 47.934, 0.02933],
+  [31, 1, 48.0409, 0.02929],
+  [32, 1, 48.1428, 0.02926],
+  [33, 1, 48.2399, 0.02922],
+  [34, 1, 48.3325, 0.02919],
+  [35, 1, 48.4208, 0.02915],
+  [36, 1, 48.505, 0.02912],
+  [37, 1, 48.5855, 0.02909],
+  [38, 1, 48.6624, 0.02906],
+  [39, 1, 48.7361, 0.02903],
+  [40, 1, 48.8067, 0.029],
+  [41, 1, 48.8744, 0.02897],
+  [42, 1, 48.9395, 0.02894],
+  [43, 1, 49.0021, 0.02891],
+  [44, 1, 49.0623, 0.02888],
+  [45, 1, 49.1204, 0.02886],
+  [46, 1, 49.1764, 0.02883],
+  [47, 1, 49.2305, 0.0288],
+  [48, 1, 49.2827, 0.02878],
+  [49, 1, 49.3332, 0.02875],
+  [50, 1, 49.3821, 0.02873],
+  [51, 1, 49.4294, 0.0287],
+  [52, 1, 49.4752, 0.02868],
+  [53, 1, 49.5196, 0.02865],
+  [54, 1, 49.5627, 0.02863],
+  [55, 1, 49.6045, 0.02861],
+  [56, 1, 49.6452, 0.02859],
+  [57, 1, 49.6847, 0.02856],
+  [58, 1, 49.7231, 0.02854],
+  [59, 1, 49.7604, 0.02852],
+  [60, 1, 49.7968, 0.0285],
+];
+
+export const WHO_GROWTH_STANDARDS: Record<WhoGrowthIndicator, Record<WhoGrowthSex, WhoLmsRow[]>> = {
+  weightForAge: {
+    MALE: WEIGHT_FOR_AGE_BOYS,
+    FEMALE: WEIGHT_FOR_AGE_GIRLS,
+  },
+  lengthForAge: {
+    MALE: LENGTH_HEIGHT_FOR_AGE_BOYS,
+    FEMALE: LENGTH_HEIGHT_FOR_AGE_GIRLS,
+  },
+  headCircumferenceForAge: {
+    MALE: HEAD_CIRCUMFERENCE_FOR_AGE_BOYS,
+    FEMALE: HEAD_CIRCUMFERENCE_FOR_AGE_GIRLS,
+  },
+};
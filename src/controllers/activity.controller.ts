@@ -0,0 +1,169 @@
+// Olive Baby API - Activity & Trash Controller
+import { Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { RevisionEntityType } from '@prisma/client';
+import { REVISION_PERMISSION_DOMAINS, RevisionService } from '../services/revision.service';
+import { CaregiverService } from '../services/caregiver.service';
+import { AuthenticatedRequest, ApiResponse } from '../types';
+import { AppError } from '../utils/errors/AppError';
+import {
+  getBabyPermissions,
+  hasPermission,
+  requireBabyOwner,
+  requireBabyAccess,
+  requireBabyAccessByCaregiverId,
+} from '../utils/helpers/baby-permission.helper';
+
+const entityTypeSchema = z.enum(['ROUTINE_LOG', 'GROWTH', 'MILESTONE']);
+
+// Schemas de validação
+export const listActivityQuerySchema = z.object({
+  entityType: entityTypeSchema.optional(),
+  action: z.enum(['CREATE', 'UPDATE', 'DELETE', 'RESTORE']).optional(),
+  page: z.string().optional().transform(val => val ? parseInt(val, 10) : 1),
+  limit: z.string().optional().transform(val => val ? Math.min(parseInt(val, 10), 100) : 50),
+});
+
+export const recordHistoryParamsSchema = z.object({
+  entityType: entityTypeSchema,
+  entityId: z.coerce.number().int().positive(),
+});
+
+export class ActivityController {
+  // ==========================================
+  // Feed de atividades (somente responsáveis)
+  // ==========================================
+
+  static async listActivity(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const babyId = parseInt(req.params.babyId, 10);
+      await requireBabyOwner(req.user.userId, babyId);
+
+      const query = req.query as any;
+      const result = await RevisionService.listActivityByBabyId(babyId, {
+        page: query.page,
+        limit: query.limit,
+        entityType: query.entityType,
+        action: query.action,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result.data,
+        pagination: result.pagination,
+      } as any);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  static async getRecordHistory(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const babyId = parseInt(req.params.babyId, 10);
+      await requireBabyOwner(req.user.userId, babyId);
+
+      const params = recordHistoryParamsSchema.safeParse(req.params);
+      if (!params.success) {
+        throw AppError.badRequest('Registro inválido', params.error.flatten().fieldErrors);
+      }
+
+      const history = await RevisionService.listHistoryByBabyId(
+        babyId,
+        params.data.entityType,
+        params.data.entityId
+      );
+
+      res.status(200).json({
+        success: true,
+        data: history,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // ==========================================
+  // Lixeira
+  // ==========================================
+
+  static async listTrash(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const babyId = parseInt(req.params.babyId, 10);
+      const caregiver = await CaregiverService.getByUserId(req.user.userId);
+      await requireBabyAccessByCaregiverId(caregiver.id, babyId);
+
+      // Cada item só aparece para quem pode ver a entidade (rotina ou crescimento/marcos)
+      const permissions = (await getBabyPermissions(req.user.userId, babyId))!;
+      const entityTypes = entityTypeSchema.options.filter((type: RevisionEntityType) =>
+        hasPermission(permissions, `${REVISION_PERMISSION_DOMAINS[type]}:read`)
+      );
+
+      const trash = await RevisionService.listTrashByBabyId(babyId, entityTypes);
+
+      res.status(200).json({
+        success: true,
+        data: trash,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  static async restore(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const babyId = parseInt(req.params.babyId, 10);
+      const revisionId = parseInt(req.params.revisionId, 10);
+      const caregiver = await CaregiverService.getByUserId(req.user.userId);
+      await requireBabyAccessByCaregiverId(caregiver.id, babyId);
+
+      // Restaurar recria o registro: exige escrita no domínio da entidade
+      const revision = await RevisionService.findDeletion(babyId, revisionId);
+      await requireBabyAccess(req.user.userId, babyId, `${REVISION_PERMISSION_DOMAINS[revision.entityType]}:write`);
+
+      const result = await RevisionService.restore(babyId, revisionId, {
+        userId: req.user.userId,
+        source: 'APP',
+      });
+
+      res.status(200).json({
+        success: true,
+        message: 'Registro restaurado com sucesso',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
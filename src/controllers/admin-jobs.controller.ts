@@ -0,0 +1,164 @@
+// Olive Baby API - Admin Jobs Controller
+import { Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { SchedulerService } from '../services/scheduler.service';
+import { AuthenticatedRequest, ApiResponse } from '../types';
+import { AppError } from '../utils/errors/AppError';
+import { isValidCronExpression } from '../utils/helpers/cron.helper';
+import { isValidTimezone } from '../utils/helpers/timezone.helper';
+
+// ==========================================
+// Validation Schemas
+// ==========================================
+
+const timezoneSchema = z.string().refine(isValidTimezone, 'Fuso horário inválido');
+
+export const updateJobSchema = z.object({
+  enabled: z.boolean().optional(),
+  cron: z.string().refine(isValidCronExpression, 'Expressão cron inválida').optional(),
+  timezone: timezoneSchema.optional(),
+  perUserTimezone: z.boolean().optional(),
+  maxAttempts: z.number().int().min(1).max(10).optional(),
+  backoffSeconds: z.number().int().min(1).max(86400).optional(),
+});
+
+export const runJobSchema = z.object({
+  timezones: z.array(timezoneSchema).max(50).optional(),
+});
+
+export const listJobRunsQuerySchema = z.object({
+  status: z.enum(['PENDING', 'RUNNING', 'SUCCEEDED', 'FAILED']).optional(),
+  page: z.string().optional().transform(val => val ? parseInt(val, 10) : 1),
+  limit: z.string().optional().transform(val => val ? Math.min(parseInt(val, 10), 100) : 50),
+});
+
+// ==========================================
+// Controller
+// ==========================================
+
+export class AdminJobsController {
+  /**
+   * GET /admin/jobs
+   * Scheduler status (leader, lease) and all jobs
+   */
+  static async listJobs(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const status = await SchedulerService.getStatus();
+      res.json({ success: true, data: status });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /admin/jobs/:name
+   * Job details with the latest runs
+   */
+  static async getJob(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const job = await SchedulerService.getJobByName(req.params.name);
+      res.json({ success: true, data: job });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /admin/jobs/:name/runs
+   * Paginated run history
+   */
+  static async listRuns(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const query = req.query as any;
+      const result = await SchedulerService.listRuns(req.params.name, {
+        page: query.page,
+        limit: query.limit,
+        status: query.status,
+      });
+
+      res.json({
+        success: true,
+        data: result.data,
+        pagination: result.pagination,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /admin/jobs/:name
+   * Enable/disable or reschedule a job
+   */
+  static async updateJob(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const job = await SchedulerService.updateJob(req.params.name, req.body);
+      res.json({ success: true, message: 'Job atualizado', data: job });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /admin/jobs/:name/run
+   * Run a job now and wait for the result
+   */
+  static async runJob(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const run = await SchedulerService.runNow(req.params.name, req.user.userId, req.body.timezones);
+      res.json({ success: true, data: run });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /admin/jobs/runs/:runId/rerun
+   * Re-run a finished run with the same payload
+   */
+  static async rerun(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const runId = parseInt(req.params.runId, 10);
+      if (isNaN(runId)) {
+        throw AppError.badRequest('ID de execução inválido');
+      }
+
+      const run = await SchedulerService.rerun(runId, req.user.userId);
+      res.json({ success: true, data: run });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,357 @@
+// Olive Baby API - Admin Vaccine Calendar Controller
+import { Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { VaccineCalendarSource, VaccineCalendarStatus } from '@prisma/client';
+import { VaccineCalendarService } from '../services/vaccine-calendar.service';
+import { AuthenticatedRequest, ApiResponse } from '../types';
+import { AppError } from '../utils/errors/AppError';
+import { parseVaccineDefinitionsCsv } from '../utils/helpers/csv.helper';
+
+// ==========================================
+// Validation Schemas
+// ==========================================
+
+const optionalDays = z.number().int().min(0).max(36500).nullable().optional();
+
+export const vaccineDefinitionSchema = z.object({
+  vaccineKey: z.string().min(1).max(50).regex(/^[A-Z0-9_]+$/, 'Use letras maiúsculas, números e _'),
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).nullable().optional(),
+  doseLabel: z.string().min(1).max(50),
+  doseNumber: z.number().int().min(1).max(20).optional(),
+  ageMonths: z.number().int().min(0).max(1200),
+  ageDays: z.number().int().min(0).max(365).nullable().optional(),
+  ageMaxMonths: z.number().int().min(0).max(1200).nullable().optional(),
+  minAgeDays: optionalDays,
+  maxAgeDays: optionalDays,
+  minIntervalDays: optionalDays,
+  notes: z.string().max(500).nullable().optional(),
+  isOptional: z.boolean().optional(),
+  sortOrder: z.number().int().min(0).optional(),
+});
+
+export const updateVaccineDefinitionSchema = vaccineDefinitionSchema.partial();
+
+const calendarMetaSchema = z.object({
+  code: z.string().min(2).max(50).regex(/^[A-Za-z0-9_-]+$/, 'Use letras, números, _ ou -'),
+  name: z.string().min(2).max(150),
+  description: z.string().max(500).nullable().optional(),
+  country: z.string().length(2),
+  source: z.nativeEnum(VaccineCalendarSource),
+  clinicId: z.number().int().positive().nullable().optional(),
+  isDefault: z.boolean().optional(),
+});
+
+export const createVaccineCalendarSchema = calendarMetaSchema.extend({
+  definitions: z.array(vaccineDefinitionSchema).max(500).optional(),
+});
+
+export const updateVaccineCalendarSchema = calendarMetaSchema.omit({ code: true, source: true }).partial();
+
+export const publishVaccineCalendarSchema = z.object({
+  migrateBabies: z.boolean().optional().default(true),
+});
+
+export const listVaccineCalendarsQuerySchema = z.object({
+  status: z.nativeEnum(VaccineCalendarStatus).optional(),
+  code: z.string().max(50).optional(),
+  country: z.string().length(2).optional(),
+  clinicId: z.string().optional().transform(val => (val ? parseInt(val, 10) : undefined)),
+});
+
+export const exportVaccineCalendarQuerySchema = z.object({
+  format: z.enum(['json', 'csv']).optional().default('json'),
+});
+
+/**
+ * Importação: `content` é o JSON exportado (ou só a lista de doses) ou um CSV
+ * com as colunas do export. Campos do corpo têm precedência sobre os do JSON.
+ */
+export const importVaccineCalendarSchema = calendarMetaSchema
+  .partial()
+  .extend({
+    format: z.enum(['json', 'csv']),
+    content: z.union([z.string().min(1).max(1_000_000), z.record(z.unknown()), z.array(z.record(z.unknown()))]),
+  })
+  .transform((data, ctx) => {
+    const { format, content, ...meta } = data;
+    let payload: Record<string, unknown> = {};
+    let rows: unknown;
+
+    try {
+      if (format === 'csv') {
+        if (typeof content !== 'string') throw new Error('CSV deve ser texto');
+        rows = parseVaccineDefinitionsCsv(content);
+      } else {
+        const json = typeof content === 'string' ? JSON.parse(content) : content;
+        if (Array.isArray(json)) {
+          rows = json;
+        } else {
+          payload = json as Record<string, unknown>;
+          rows = payload.definitions;
+        }
+      }
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['content'], message: `Conteúdo ${format.toUpperCase()} inválido` });
+      return z.NEVER;
+    }
+
+    const fromFile = calendarMetaSchema.partial().safeParse({
+      code: payload.code,
+      name: payload.name,
+      description: payload.description,
+      country: payload.country,
+      source: payload.source,
+    });
+    const definitions = z.array(vaccineDefinitionSchema).min(1).max(500).safeParse(rows);
+
+    for (const result of [fromFile, definitions]) {
+      if (result.success) continue;
+      for (const issue of result.error.issues) {
+        ctx.addIssue({ ...issue, path: ['content', ...issue.path] });
+      }
+    }
+    if (!fromFile.success || !definitions.success) return z.NEVER;
+
+    const overrides = Object.fromEntries(Object.entries(meta).filter(([, value]) => value !== undefined));
+    return { ...fromFile.data, ...overrides, definitions: definitions.data };
+  });
+
+// ==========================================
+// Controller
+// ==========================================
+
+function parseId(value: string, message: string): number {
+  const id = parseInt(value, 10);
+  if (isNaN(id)) {
+    throw AppError.badRequest(message);
+  }
+  return id;
+}
+
+export class AdminVaccineCalendarController {
+  /**
+   * GET /admin/vaccine-calendars
+   * All calendars and versions
+   */
+  static async list(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const calendars = await VaccineCalendarService.list(
+        req.query as unknown as z.infer<typeof listVaccineCalendarsQuerySchema>
+      );
+      res.json({ success: true, data: calendars });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /admin/vaccine-calendars/:id
+   * Calendar version with its definitions
+   */
+  static async getById(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const id = parseId(req.params.id, 'ID do calendário inválido');
+      const calendar = await VaccineCalendarService.getById(id);
+      res.json({ success: true, data: calendar });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /admin/vaccine-calendars
+   * Create a new calendar (version 1, draft)
+   */
+  static async create(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const calendar = await VaccineCalendarService.create(req.body);
+      res.status(201).json({ success: true, data: calendar });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /admin/vaccine-calendars/:id
+   * Update calendar metadata
+   */
+  static async update(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const id = parseId(req.params.id, 'ID do calendário inválido');
+      const calendar = await VaccineCalendarService.update(id, req.body);
+      res.json({ success: true, data: calendar });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /admin/vaccine-calendars/:id
+   * Delete a draft or archive a published version
+   */
+  static async remove(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const id = parseId(req.params.id, 'ID do calendário inválido');
+      const result = await VaccineCalendarService.remove(id);
+      res.json({
+        success: true,
+        message: result.deleted ? 'Rascunho removido' : 'Calendário arquivado',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /admin/vaccine-calendars/:id/versions
+   * Start a new draft version from this one
+   */
+  static async createVersion(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const id = parseId(req.params.id, 'ID do calendário inválido');
+      const calendar = await VaccineCalendarService.createVersion(id);
+      res.status(201).json({ success: true, data: calendar });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /admin/vaccine-calendars/:id/publish
+   * Publish a draft and migrate babies from previous versions
+   */
+  static async publish(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const id = parseId(req.params.id, 'ID do calendário inválido');
+      const result = await VaccineCalendarService.publish(id, req.body);
+      res.json({ success: true, data: result });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /admin/vaccine-calendars/:id/definitions
+   * Add a dose to a draft
+   */
+  static async addDefinition(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const id = parseId(req.params.id, 'ID do calendário inválido');
+      const definition = await VaccineCalendarService.addDefinition(id, req.body);
+      res.status(201).json({ success: true, data: definition });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PATCH /admin/vaccine-calendars/:id/definitions/:definitionId
+   * Update a dose of a draft
+   */
+  static async updateDefinition(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const id = parseId(req.params.id, 'ID do calendário inválido');
+      const definitionId = parseId(req.params.definitionId, 'ID da dose inválido');
+      const definition = await VaccineCalendarService.updateDefinition(id, definitionId, req.body);
+      res.json({ success: true, data: definition });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /admin/vaccine-calendars/:id/definitions/:definitionId
+   * Remove a dose from a draft
+   */
+  static async deleteDefinition(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const id = parseId(req.params.id, 'ID do calendário inválido');
+      const definitionId = parseId(req.params.definitionId, 'ID da dose inválido');
+      await VaccineCalendarService.deleteDefinition(id, definitionId);
+      res.json({ success: true, message: 'Dose removida' });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /admin/vaccine-calendars/:id/export?format=json|csv
+   * Download a calendar version
+   */
+  static async exportCalendar(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const id = parseId(req.params.id, 'ID do calendário inválido');
+      const { format } = req.query as unknown as z.infer<typeof exportVaccineCalendarQuerySchema>;
+      const file = await VaccineCalendarService.exportCalendar(id, format);
+
+      res.setHeader('Content-Type', file.contentType);
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      res.send(file.body);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /admin/vaccine-calendars/import
+   * Import doses (JSON/CSV) as a new draft version or a new calendar
+   */
+  static async importCalendar(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const calendar = await VaccineCalendarService.importCalendar(req.body);
+      res.status(201).json({ success: true, data: calendar });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
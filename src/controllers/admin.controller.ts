@@ -20,7 +20,7 @@ import {
 } from '../services/email.service';
 import { PushNotificationService, PUSH_TRIGGERS } from '../services/push-notification.service';
 import { DeviceTokenService } from '../services/device-token.service';
-import { JourneyService } from '../services/journey.service';
+import { JourneyService, JOURNEY_EVENTS, JourneyEventName } from '../services/journey.service';
 import { AlertService } from '../services/alert.service';
 import { AuthenticatedRequest, ApiResponse } from '../types';
 import { PlanType, UserStatus, JourneyStatus, AlertStatus, AlertSeverity } from '@prisma/client';
@@ -142,6 +142,9 @@ export const pushBroadcastSchema = z.object({
   body: z.string().min(1).max(300),
   clickAction: z.string().optional(),
   priority: z.enum(['default', 'high']).optional(),
+  // Categoria para opt-out do usuário; severity 'alert' ignora o horário de silêncio
+  category: z.enum(['marketing', 'engagement', 'system']).optional(),
+  severity: z.enum(['info', 'warning', 'alert']).optional(),
 });
 
 export const pushTriggerUpdateSchema = z.object({
@@ -149,20 +152,64 @@ export const pushTriggerUpdateSchema = z.object({
   config: z.record(z.unknown()).optional(),
 });
 
+const journeyEventSchema = z.enum(JOURNEY_EVENTS);
+// stepOrder de destino; null encerra a jornada, ausente segue para a próxima etapa
+const stepTargetSchema = z.number().int().min(0).nullable().optional();
+
+const journeyStepSchema = z.object({
+  type: z.enum(['email', 'push', 'delay', 'condition', 'wait_event', 'split']),
+  name: z.string().min(1).max(120),
+  stepOrder: z.number().int().min(0),
+  config: z.record(z.unknown()),
+  variables: z.array(z.record(z.unknown())).optional(),
+}).superRefine((step, ctx) => {
+  const checks: Array<[string, z.ZodTypeAny]> = [['nextStep', stepTargetSchema]];
+  if (step.type === 'condition') {
+    checks.push(['trueStep', stepTargetSchema], ['falseStep', stepTargetSchema]);
+  }
+  if (step.type === 'wait_event') {
+    checks.push(
+      ['event', journeyEventSchema],
+      ['timeoutHours', z.number().positive().max(24 * 90).optional()],
+      ['onEventStep', stepTargetSchema],
+      ['onTimeoutStep', stepTargetSchema]
+    );
+  }
+  if (step.type === 'split') {
+    checks.push(
+      ['variants', z.array(z.object({
+        key: z.string().min(1).max(20),
+        weight: z.number().int().min(0).max(100),
+        step: z.number().int().min(0).optional(),
+      })).min(2).max(5).refine(
+        variants => new Set(variants.map(v => v.key)).size === variants.length,
+        'Chaves de variante duplicadas'
+      )],
+      ['goalEvent', journeyEventSchema.optional()]
+    );
+  }
+
+  for (const [key, schema] of checks) {
+    const result = schema.safeParse(step.config[key]);
+    if (!result.success) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['config', key],
+        message: result.error.issues[0]?.message ?? 'Valor inválido',
+      });
+    }
+  }
+});
+
 export const journeyCreateSchema = z.object({
   name: z.string().min(1).max(120),
   description: z.string().max(500).optional(),
   category: z.enum(['engagement', 'onboarding', 'premium', 'invites', 'retention']),
   audience: z.enum(['all', 'b2c', 'b2b', 'premium', 'free']),
+  triggerEvent: journeyEventSchema.nullable().optional(),
   priority: z.number().int().optional(),
   tags: z.array(z.string()).optional(),
-  steps: z.array(z.object({
-    type: z.enum(['email', 'push', 'delay', 'condition']),
-    name: z.string().min(1).max(120),
-    stepOrder: z.number().int().min(0),
-    config: z.record(z.unknown()),
-    variables: z.array(z.record(z.unknown())).optional(),
-  })).optional(),
+  steps: z.array(journeyStepSchema).optional(),
 });
 
 export const journeyUpdateSchema = z.object({
@@ -170,19 +217,14 @@ export const journeyUpdateSchema = z.object({
   description: z.string().max(500).optional(),
   category: z.enum(['engagement', 'onboarding', 'premium', 'invites', 'retention']).optional(),
   audience: z.enum(['all', 'b2c', 'b2b', 'premium', 'free']).optional(),
+  triggerEvent: journeyEventSchema.nullable().optional(),
   priority: z.number().int().optional(),
   tags: z.array(z.string()).optional(),
   status: z.enum(['DRAFT', 'ACTIVE', 'PAUSED', 'COMPLETED']).optional(),
 });
 
 export const journeyStepsReplaceSchema = z.object({
-  steps: z.array(z.object({
-    type: z.enum(['email', 'push', 'delay', 'condition']),
-    name: z.string().min(1).max(120),
-    stepOrder: z.number().int().min(0),
-    config: z.record(z.unknown()),
-    variables: z.array(z.record(z.unknown())).optional(),
-  })),
+  steps: z.array(journeyStepSchema),
 });
 
 export const journeyListSchema = z.object({
@@ -1203,7 +1245,7 @@ export class AdminController {
     next: NextFunction
   ): Promise<void> {
     try {
-      const { segment, title, body, clickAction, priority } = pushBroadcastSchema.parse(req.body);
+      const { segment, title, body, clickAction, priority, category, severity } = pushBroadcastSchema.parse(req.body);
 
       const result = await PushNotificationService.sendToSegment(segment, {
         title,
@@ -1211,7 +1253,7 @@ export class AdminController {
         clickAction: clickAction || '/',
         priority: priority || 'default',
         icon: '/icon-192x192.png',
-      });
+      }, { category, severity });
 
       res.json({
         success: true,
@@ -1662,6 +1704,16 @@ export class AdminController {
     } catch (error) { next(error); }
   }
 
+  static async getJourneyStepMetrics(
+    req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction
+  ): Promise<void> {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const metrics = await JourneyService.getStepMetrics(id);
+      res.json({ success: true, data: metrics });
+    } catch (error) { next(error); }
+  }
+
   static async getJourneyTemplates(
     req: AuthenticatedRequest, res: Response<ApiResponse>, next: NextFunction
   ): Promise<void> {
@@ -1685,6 +1737,7 @@ export class AdminController {
         description: tmpl.description,
         category: tmpl.category,
         audience: tmpl.audience,
+        triggerEvent: tmpl.triggerEvent as JourneyEventName | undefined,
         steps: tmpl.steps,
       });
 
@@ -1,10 +1,96 @@
 // Olive Baby API - Appointment Controller
-import { Response, NextFunction } from 'express';
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { AppointmentStatus, AppointmentType } from '@prisma/client';
 import { prisma } from '../config/database';
-import { AppointmentService, ScheduleService } from '../services/appointment.service';
+import { AppointmentService, AvailabilityQuery, ScheduleService } from '../services/appointment.service';
+import { AppointmentBookingService } from '../services/appointment-booking.service';
+import { AppointmentReminderService } from '../services/appointment-reminder.service';
 import { AppError } from '../utils/errors/AppError';
+import { formatInUserTimezone, DEFAULT_TIMEZONE } from '../utils/helpers/timezone.helper';
 import { AuthenticatedRequest } from '../types';
 
+// Schemas de validação (agendamento pelos pais)
+const optionalIntQuery = z.string().regex(/^\d+$/).optional().transform(val => (val ? parseInt(val, 10) : undefined));
+
+const dateKeyQuery = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Data deve estar no formato YYYY-MM-DD');
+
+// `date` consulta um único dia; `from`/`to` um período (até 31 dias)
+export const availabilityQuerySchema = z.object({
+  date: dateKeyQuery.optional(),
+  from: dateKeyQuery.optional(),
+  to: dateKeyQuery.optional(),
+  duration: optionalIntQuery.refine(val => val === undefined || (val >= 10 && val <= 240), 'Duração inválida'),
+  clinicId: optionalIntQuery,
+  type: z.nativeEnum(AppointmentType).optional(),
+});
+
+export const availableSlotsQuerySchema = availabilityQuerySchema.extend({
+  professionalId: z.string().regex(/^\d+$/, 'Profissional inválido').transform(val => parseInt(val, 10)),
+});
+
+export const appointmentDurationSchema = z.object({
+  type: z.nativeEnum(AppointmentType),
+  durationMinutes: z.number().int().min(10).max(240).nullable(),
+});
+
+export const listBabyAppointmentsQuerySchema = z.object({
+  from: z.string().datetime({ offset: true }).optional(),
+  includeCancelled: z.enum(['true', 'false']).optional().transform(val => val === 'true'),
+});
+
+export const bookAppointmentSchema = z.object({
+  professionalId: z.number().int().positive(),
+  startAt: z.string().datetime({ offset: true }),
+  durationMinutes: z.number().int().min(10).max(240).optional(),
+  clinicId: z.number().int().positive().optional(),
+  type: z.nativeEnum(AppointmentType).optional(),
+  notes: z.string().max(1000).optional(),
+});
+
+export const rescheduleAppointmentSchema = z.object({
+  startAt: z.string().datetime({ offset: true }),
+});
+
+export const cancelBookingSchema = z.object({
+  reason: z.string().max(255).optional(),
+});
+
+export const updateAppointmentStatusSchema = z.object({
+  status: z.nativeEnum(AppointmentStatus),
+  visitId: z.number().int().positive().optional(),
+  reason: z.string().max(255).optional(),
+});
+
+export const bookingPolicySchema = z.object({
+  autoConfirm: z.boolean().optional(),
+  cancelWindowHours: z.number().int().min(0).max(720).optional(),
+  rescheduleWindowHours: z.number().int().min(0).max(720).optional(),
+});
+
+function toAvailabilityQuery(query: z.infer<typeof availabilityQuerySchema>): AvailabilityQuery {
+  const from = query.from ?? query.date ?? formatInUserTimezone(new Date(), DEFAULT_TIMEZONE, 'yyyy-MM-dd');
+  return {
+    from,
+    to: query.to ?? (query.from ? undefined : from),
+    clinicId: query.clinicId,
+    type: query.type,
+    durationMinutes: query.duration,
+  };
+}
+
+function parseBabyId(req: AuthenticatedRequest): number {
+  const babyId = parseInt(req.params.babyId, 10);
+  if (isNaN(babyId)) throw AppError.badRequest('ID do bebê inválido');
+  return babyId;
+}
+
+function parseAppointmentId(value: string): number {
+  const id = parseInt(value, 10);
+  if (isNaN(id)) throw AppError.badRequest('ID do agendamento inválido');
+  return id;
+}
+
 async function getProfessionalId(userId: number): Promise<number> {
   const prof = await prisma.professional.findUnique({ where: { userId } });
   if (!prof) throw new AppError('Profissional não encontrado', 404);
@@ -61,8 +147,11 @@ export async function updateAppointmentStatus(req: AuthenticatedRequest, res: Re
   try {
     const id = parseInt(req.params.id);
     const professionalId = await getProfessionalId(req.user!.userId);
-    const { status, visitId } = req.body;
-    const appointment = await AppointmentService.updateStatus(id, status, professionalId, visitId);
+    const { status, visitId, reason } = req.body;
+    const appointment = await AppointmentService.updateStatus(id, status, professionalId, req.user!.userId, {
+      visitId,
+      reason,
+    });
     res.json({ success: true, data: appointment });
   } catch (e) {
     next(e);
@@ -74,7 +163,7 @@ export async function cancelAppointment(req: AuthenticatedRequest, res: Response
     const id = parseInt(req.params.id);
     const professionalId = await getProfessionalId(req.user!.userId);
     const { reason } = req.body;
-    await AppointmentService.cancel(id, professionalId, reason);
+    await AppointmentService.cancel(id, professionalId, req.user!.userId, reason);
     res.json({ success: true, message: 'Agendamento cancelado' });
   } catch (e) {
     next(e);
@@ -84,16 +173,28 @@ export async function cancelAppointment(req: AuthenticatedRequest, res: Response
 export async function getAvailableSlots(req: AuthenticatedRequest, res: Response, next: NextFunction) {
   try {
     const professionalId = await getProfessionalId(req.user!.userId);
-    const date = req.query.date ? new Date(req.query.date as string) : new Date();
-    const duration = req.query.duration ? parseInt(req.query.duration as string) : 30;
-    const clinicId = req.query.clinicId ? parseInt(req.query.clinicId as string) : undefined;
-    const slots = await AppointmentService.getAvailableSlots(professionalId, date, duration, clinicId);
+    const query = req.query as unknown as z.infer<typeof availabilityQuerySchema>;
+    const slots = await AppointmentService.getAvailableSlots(professionalId, toAvailabilityQuery(query));
     res.json({ success: true, data: slots });
   } catch (e) {
     next(e);
   }
 }
 
+export async function getNoShowStats(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  try {
+    const professionalId = await getProfessionalId(req.user!.userId);
+    const endDate = req.query.endDate ? new Date(req.query.endDate as string) : new Date();
+    const startDate = req.query.startDate ? new Date(req.query.startDate as string) : new Date(endDate.getTime() - 90 * 24 * 60 * 60 * 1000);
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) throw AppError.badRequest('Período inválido');
+    const clinicId = req.query.clinicId ? parseInt(req.query.clinicId as string) : undefined;
+    const stats = await AppointmentService.getNoShowStats(professionalId, { startDate, endDate, clinicId });
+    res.json({ success: true, data: stats });
+  } catch (e) {
+    next(e);
+  }
+}
+
 export async function getSchedule(req: AuthenticatedRequest, res: Response, next: NextFunction) {
   try {
     const professionalId = await getProfessionalId(req.user!.userId);
@@ -108,7 +209,12 @@ export async function getSchedule(req: AuthenticatedRequest, res: Response, next
 export async function upsertSchedule(req: AuthenticatedRequest, res: Response, next: NextFunction) {
   try {
     const professionalId = await getProfessionalId(req.user!.userId);
-    const data = { ...req.body, professionalId };
+    const data = {
+      ...req.body,
+      professionalId,
+      validFrom: req.body.validFrom ? new Date(req.body.validFrom) : null,
+      validUntil: req.body.validUntil ? new Date(req.body.validUntil) : null,
+    };
     const schedule = await ScheduleService.upsertSchedule(professionalId, data);
     res.json({ success: true, data: schedule });
   } catch (e) {
@@ -116,6 +222,27 @@ export async function upsertSchedule(req: AuthenticatedRequest, res: Response, n
   }
 }
 
+export async function listAppointmentDurations(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  try {
+    const professionalId = await getProfessionalId(req.user!.userId);
+    const durations = await ScheduleService.listAppointmentDurations(professionalId);
+    res.json({ success: true, data: durations });
+  } catch (e) {
+    next(e);
+  }
+}
+
+export async function setAppointmentDuration(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  try {
+    const professionalId = await getProfessionalId(req.user!.userId);
+    const { type, durationMinutes } = req.body;
+    const duration = await ScheduleService.setAppointmentDuration(professionalId, type, durationMinutes);
+    res.json({ success: true, data: duration });
+  } catch (e) {
+    next(e);
+  }
+}
+
 export async function createException(req: AuthenticatedRequest, res: Response, next: NextFunction) {
   try {
     const professionalId = await getProfessionalId(req.user!.userId);
@@ -142,3 +269,163 @@ export async function listExceptions(req: AuthenticatedRequest, res: Response, n
     next(e);
   }
 }
+
+// ==========================================
+// Política de agendamento e aprovação (profissional)
+// ==========================================
+
+export async function getBookingPolicy(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  try {
+    const professionalId = await getProfessionalId(req.user!.userId);
+    const policy = await AppointmentBookingService.getPolicy(professionalId);
+    res.json({ success: true, data: policy });
+  } catch (e) {
+    next(e);
+  }
+}
+
+export async function updateBookingPolicy(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  try {
+    const professionalId = await getProfessionalId(req.user!.userId);
+    const policy = await AppointmentBookingService.updatePolicy(professionalId, req.body);
+    res.json({ success: true, data: policy });
+  } catch (e) {
+    next(e);
+  }
+}
+
+export async function approveAppointment(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  try {
+    const id = parseAppointmentId(req.params.id);
+    const professionalId = await getProfessionalId(req.user!.userId);
+    const appointment = await AppointmentBookingService.approve(professionalId, req.user!.userId, id);
+    res.json({ success: true, message: 'Consulta confirmada', data: appointment });
+  } catch (e) {
+    next(e);
+  }
+}
+
+export async function rejectAppointment(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  try {
+    const id = parseAppointmentId(req.params.id);
+    const professionalId = await getProfessionalId(req.user!.userId);
+    const appointment = await AppointmentBookingService.reject(professionalId, req.user!.userId, id, req.body.reason);
+    res.json({ success: true, message: 'Solicitação recusada', data: appointment });
+  } catch (e) {
+    next(e);
+  }
+}
+
+// ==========================================
+// Agendamento pelos pais (/babies/:babyId/appointments)
+// ==========================================
+
+export async function listBabyAppointments(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  try {
+    const babyId = parseBabyId(req);
+    const query = req.query as unknown as z.infer<typeof listBabyAppointmentsQuerySchema>;
+    const appointments = await AppointmentBookingService.listForBaby(req.user!.userId, babyId, {
+      from: query.from ? new Date(query.from) : undefined,
+      includeCancelled: query.includeCancelled,
+    });
+    res.json({ success: true, data: appointments });
+  } catch (e) {
+    next(e);
+  }
+}
+
+export async function listBookableProfessionals(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  try {
+    const babyId = parseBabyId(req);
+    const professionals = await AppointmentBookingService.listBookableProfessionals(req.user!.userId, babyId);
+    res.json({ success: true, data: professionals });
+  } catch (e) {
+    next(e);
+  }
+}
+
+export async function getBabyAvailableSlots(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  try {
+    const babyId = parseBabyId(req);
+    const query = req.query as unknown as z.infer<typeof availableSlotsQuerySchema>;
+    const slots = await AppointmentBookingService.getAvailableSlots(
+      req.user!.userId,
+      babyId,
+      query.professionalId,
+      toAvailabilityQuery(query)
+    );
+    res.json({ success: true, data: slots });
+  } catch (e) {
+    next(e);
+  }
+}
+
+export async function bookAppointment(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  try {
+    const babyId = parseBabyId(req);
+    const appointment = await AppointmentBookingService.book(req.user!.userId, babyId, {
+      ...req.body,
+      startAt: new Date(req.body.startAt),
+    });
+    res.status(201).json({
+      success: true,
+      message: appointment.status === 'CONFIRMED' ? 'Consulta agendada' : 'Solicitação enviada ao profissional',
+      data: appointment,
+    });
+  } catch (e) {
+    next(e);
+  }
+}
+
+export async function rescheduleBabyAppointment(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  try {
+    const babyId = parseBabyId(req);
+    const id = parseAppointmentId(req.params.appointmentId);
+    const appointment = await AppointmentBookingService.reschedule(
+      req.user!.userId,
+      babyId,
+      id,
+      new Date(req.body.startAt)
+    );
+    res.json({ success: true, message: 'Consulta remarcada', data: appointment });
+  } catch (e) {
+    next(e);
+  }
+}
+
+export async function cancelBabyAppointment(req: AuthenticatedRequest, res: Response, next: NextFunction) {
+  try {
+    const babyId = parseBabyId(req);
+    const id = parseAppointmentId(req.params.appointmentId);
+    await AppointmentBookingService.cancel(req.user!.userId, babyId, id, req.body.reason);
+    res.json({ success: true, message: 'Agendamento cancelado' });
+  } catch (e) {
+    next(e);
+  }
+}
+
+// ==========================================
+// Links dos lembretes (públicos, assinados)
+// ==========================================
+
+export async function previewAppointmentLink(req: Request, res: Response, next: NextFunction) {
+  try {
+    const preview = await AppointmentReminderService.previewLink(req.params.token);
+    res.json({ success: true, data: preview });
+  } catch (e) {
+    next(e);
+  }
+}
+
+export async function applyAppointmentLink(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await AppointmentReminderService.applyLink(req.params.token);
+    res.json({
+      success: true,
+      message: result.action === 'confirm' ? 'Presença confirmada' : 'Consulta cancelada',
+      data: result,
+    });
+  } catch (e) {
+    next(e);
+  }
+}
@@ -1,9 +1,40 @@
 // Olive Baby API - Baby Member Controller
 import { Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { BabyMemberRole } from '@prisma/client';
 import { AuthenticatedRequest, ApiResponse } from '../types';
 import * as babyMemberService from '../services/baby-member.service';
 import { AppError } from '../utils/errors/AppError';
 
+// ==========================================
+// Validation Schemas
+// ==========================================
+
+const domainAccessSchema = z.object({
+  read: z.boolean().optional(),
+  write: z.boolean().optional(),
+}).strict();
+
+const memberPermissionsSchema = z.object({
+  routines: domainAccessSchema.optional(),
+  growth: domainAccessSchema.optional(),
+  vaccines: domainAccessSchema.optional(),
+  clinical: domainAccessSchema.optional(),
+  exports: z.boolean().optional(),
+  aiChat: z.boolean().optional(),
+  invite: z.boolean().optional(),
+}).strict();
+
+const nullableDateSchema = z.string().datetime().nullable().optional()
+  .transform(val => val === undefined ? undefined : val === null ? null : new Date(val));
+
+export const updateBabyMemberSchema = z.object({
+  role: z.nativeEnum(BabyMemberRole).optional(),
+  permissions: memberPermissionsSchema.nullable().optional(),
+  accessStartsAt: nullableDateSchema,
+  accessExpiresAt: nullableDateSchema,
+});
+
 export class BabyMemberController {
   /**
    * GET /babies/:babyId/members
@@ -31,9 +62,39 @@ export class BabyMemberController {
     }
   }
 
+  /**
+   * GET /babies/:babyId/members/me/permissions
+   * Permissões efetivas do usuário atual sobre o bebê
+   */
+  static async getMyPermissions(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const babyId = parseInt(req.params.babyId, 10);
+      if (isNaN(babyId)) {
+        throw AppError.badRequest('ID do bebê inválido');
+      }
+
+      const result = await babyMemberService.getMyBabyPermissions(babyId, req.user.userId);
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * PATCH /babies/:babyId/members/:memberId
-   * Atualiza um vínculo de membro
+   * Atualiza papel, permissões e janela de acesso de um membro (apenas owners)
    */
   static async updateMember(
     req: AuthenticatedRequest,
@@ -45,8 +106,14 @@ export class BabyMemberController {
         throw AppError.unauthorized();
       }
 
+      const babyId = parseInt(req.params.babyId, 10);
       const memberId = parseInt(req.params.memberId, 10);
+      if (isNaN(babyId) || isNaN(memberId)) {
+        throw AppError.badRequest('ID inválido');
+      }
+
       const updated = await babyMemberService.updateBabyMember(
+        babyId,
         memberId,
         req.user.userId,
         req.body
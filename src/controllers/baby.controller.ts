@@ -1,7 +1,7 @@
 // Olive Baby API - Baby Controller
 import { Response, NextFunction } from 'express';
 import { z } from 'zod';
-import { Relationship } from '@prisma/client';
+import { Gender, Relationship } from '@prisma/client';
 import { BabyService } from '../services/baby.service';
 import { CaregiverService } from '../services/caregiver.service';
 import { AuthenticatedRequest, ApiResponse } from '../types';
@@ -16,6 +16,8 @@ export const createBabySchema = z.object({
   country: z.string().length(2, 'País deve ter 2 caracteres').default('BR'),
   birthWeightGrams: z.number().positive().optional(),
   birthLengthCm: z.number().positive().optional(),
+  gender: z.enum(['FEMALE', 'MALE', 'OTHER', 'NOT_INFORMED']).optional(),
+  gestationalAgeWeeks: z.number().int().min(22).max(44).optional(),
   relationship: z.enum([
     'MOTHER', 'FATHER', 'GRANDMOTHER', 'GRANDFATHER',
     'AUNT', 'UNCLE', 'NANNY', 'CAREGIVER', 'OTHER'
@@ -31,6 +33,8 @@ export const updateBabySchema = z.object({
   country: z.string().length(2, 'País deve ter 2 caracteres').optional(),
   birthWeightGrams: z.number().positive().optional(),
   birthLengthCm: z.number().positive().optional(),
+  gender: z.enum(['FEMALE', 'MALE', 'OTHER', 'NOT_INFORMED']).optional(),
+  gestationalAgeWeeks: z.number().int().min(22).max(44).nullable().optional(),
 });
 
 export const addCaregiverSchema = z.object({
@@ -68,6 +72,8 @@ export class BabyController {
         country?: string;
         birthWeightGrams?: number;
         birthLengthCm?: number;
+        gender?: Gender;
+        gestationalAgeWeeks?: number;
         relationship: Relationship;
         babyCpf?: string;
       };
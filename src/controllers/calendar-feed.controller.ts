@@ -0,0 +1,119 @@
+// Olive Baby API - Calendar Feed Controller
+import { Request, Response, NextFunction } from 'express';
+import { CalendarFeedKind } from '@prisma/client';
+import { CalendarFeedService } from '../services/calendar-feed.service';
+import { AuthenticatedRequest, ApiResponse } from '../types';
+import { AppError } from '../utils/errors/AppError';
+
+const FEED_KINDS: Record<string, CalendarFeedKind> = {
+  professional: 'PROFESSIONAL',
+  family: 'FAMILY',
+};
+
+function parseKind(req: AuthenticatedRequest): CalendarFeedKind {
+  const kind = FEED_KINDS[req.params.kind];
+  if (!kind) {
+    throw AppError.badRequest('Tipo de calendário inválido');
+  }
+  return kind;
+}
+
+export class CalendarFeedController {
+  /**
+   * GET /calendar-feeds/:kind
+   * Situação do feed (ativo, última rotação, último acesso do app de calendário)
+   */
+  static async getStatus(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const status = await CalendarFeedService.getStatus(req.user.userId, parseKind(req));
+
+      res.status(200).json({
+        success: true,
+        data: status,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /calendar-feeds/:kind/rotate
+   * Gera uma nova URL secreta; a anterior deixa de funcionar
+   */
+  static async rotate(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const feed = await CalendarFeedService.rotate(req.user.userId, parseKind(req));
+
+      res.status(200).json({
+        success: true,
+        message: 'Nova URL do calendário gerada. Atualize a assinatura no seu app de calendário.',
+        data: feed,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /calendar-feeds/:kind
+   * Desativa o feed
+   */
+  static async disable(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      await CalendarFeedService.disable(req.user.userId, parseKind(req));
+
+      res.status(200).json({
+        success: true,
+        message: 'Calendário desativado',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /calendar-feeds/:token.ics
+   * Feed iCal público pela URL secreta. O Express responde 304 quando o
+   * If-None-Match do app de calendário bate com o ETag do conteúdo.
+   */
+  static async download(
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const { ics, filename } = await CalendarFeedService.render(req.params.token);
+
+      res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+      res.setHeader('Content-Disposition', `inline; filename="${filename}"`);
+      res.setHeader('Cache-Control', 'private, max-age=300');
+      res.send(ics);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,171 @@
+// Olive Baby API - Custom Routine Type Controller
+import { Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { CustomRoutineTypeService } from '../services/custom-routine-type.service';
+import { CaregiverService } from '../services/caregiver.service';
+import { AuthenticatedRequest, ApiResponse } from '../types';
+import { AppError } from '../utils/errors/AppError';
+import { hasBabyAccess } from '../utils/helpers/baby-permission.helper';
+
+// Definição de um campo do meta (ex: { key: 'minutes', label: 'Duração', type: 'number', unit: 'min' })
+const metaFieldSchema = z.object({
+  key: z.string().regex(/^[a-zA-Z][a-zA-Z0-9_]{0,49}$/, 'Chave deve começar com letra e conter apenas letras, números e _'),
+  label: z.string().min(1).max(100),
+  type: z.enum(['number', 'text', 'boolean', 'enum', 'datetime']),
+  unit: z.string().max(20).optional(),
+  options: z.array(z.string().min(1).max(100)).min(1).max(50).optional(),
+  required: z.boolean().optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+}).superRefine((field, ctx) => {
+  if (field.type === 'enum' && !field.options) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Campo "${field.key}" do tipo enum precisa de options` });
+  }
+  if (field.type !== 'enum' && field.options) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'options só é permitido em campos do tipo enum' });
+  }
+  if (field.type !== 'number' && (field.min !== undefined || field.max !== undefined || field.unit !== undefined)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'min, max e unit só são permitidos em campos numéricos' });
+  }
+  if (field.min !== undefined && field.max !== undefined && field.min > field.max) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Campo "${field.key}": min maior que max` });
+  }
+});
+
+const metaFieldsSchema = z.array(metaFieldSchema).max(20).refine(
+  fields => new Set(fields.map(f => f.key)).size === fields.length,
+  { message: 'As chaves dos campos devem ser únicas' }
+);
+
+// Schemas de validação
+export const createCustomRoutineTypeSchema = z.object({
+  name: z.string().min(1).max(100),
+  key: z.string().max(50).optional(),
+  icon: z.string().max(50).optional(),
+  isTimed: z.boolean().optional(),
+  metaFields: metaFieldsSchema.optional(),
+});
+
+export const updateCustomRoutineTypeSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  icon: z.string().max(50).nullable().optional(),
+  isTimed: z.boolean().optional(),
+  metaFields: metaFieldsSchema.optional(),
+  isActive: z.boolean().optional(),
+});
+
+export class CustomRoutineTypeController {
+  private static async getCaregiverId(userId: number): Promise<number> {
+    const caregiver = await CaregiverService.getByUserId(userId);
+    return caregiver.id;
+  }
+
+  // Suporta tanto cuidadores quanto profissionais de saúde
+  static async list(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const babyId = parseInt(req.params.babyId, 10);
+
+      const hasAccess = await hasBabyAccess(req.user.userId, babyId, 'routines:read');
+      if (!hasAccess) {
+        throw AppError.forbidden('Você não tem acesso a este bebê');
+      }
+
+      const includeInactive = req.query.includeInactive === 'true';
+      const customTypes = await CustomRoutineTypeService.listByBabyId(babyId, includeInactive);
+
+      res.status(200).json({
+        success: true,
+        data: customTypes,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  static async create(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const babyId = parseInt(req.params.babyId, 10);
+      const caregiverId = await CustomRoutineTypeController.getCaregiverId(req.user.userId);
+      const customType = await CustomRoutineTypeService.create(
+        caregiverId,
+        req.user.userId,
+        babyId,
+        req.body
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Tipo de rotina criado com sucesso',
+        data: customType,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  static async update(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const babyId = parseInt(req.params.babyId, 10);
+      const id = parseInt(req.params.id, 10);
+      const caregiverId = await CustomRoutineTypeController.getCaregiverId(req.user.userId);
+      const customType = await CustomRoutineTypeService.update(caregiverId, babyId, id, req.body);
+
+      res.status(200).json({
+        success: true,
+        message: 'Tipo de rotina atualizado com sucesso',
+        data: customType,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  static async archive(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const babyId = parseInt(req.params.babyId, 10);
+      const id = parseInt(req.params.id, 10);
+      const caregiverId = await CustomRoutineTypeController.getCaregiverId(req.user.userId);
+      const customType = await CustomRoutineTypeService.archive(caregiverId, babyId, id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Tipo de rotina arquivado',
+        data: customType,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
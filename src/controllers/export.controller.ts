@@ -6,6 +6,8 @@ import { CaregiverService } from '../services/caregiver.service';
 import { AuthenticatedRequest, ApiResponse } from '../types';
 import { AppError } from '../utils/errors/AppError';
 import { prisma } from '../config/database';
+import { AuditService } from '../core/entitlements';
+import { hasBabyAccess } from '../utils/helpers/baby-permission.helper';
 
 // Schemas de validação
 export const exportRoutinesQuerySchema = z.object({
@@ -14,7 +16,7 @@ export const exportRoutinesQuerySchema = z.object({
   types: z.string().optional().transform(val => {
     if (!val) return undefined;
     const types = val.split(',').map(t => t.trim().toUpperCase());
-    const validTypes = ['FEEDING', 'SLEEP', 'DIAPER', 'BATH', 'MILK_EXTRACTION'];
+    const validTypes = ['FEEDING', 'SLEEP', 'DIAPER', 'BATH', 'MILK_EXTRACTION', 'CUSTOM'];
     return types.filter(t => validTypes.includes(t)) as any;
   }),
 });
@@ -24,6 +26,11 @@ export const exportGrowthQuerySchema = z.object({
   endDate: z.string().datetime().optional().transform(val => val ? new Date(val) : undefined),
 });
 
+export const exportPdfQuerySchema = z.object({
+  days: z.string().optional().transform(val => val ? parseInt(val, 10) : 30)
+    .pipe(z.number().int().min(7).max(90)),
+});
+
 export class ExportController {
   private static async getCaregiverId(userId: number): Promise<number> {
     const caregiver = await CaregiverService.getByUserId(userId);
@@ -174,4 +181,41 @@ export class ExportController {
       next(error);
     }
   }
+
+  static async exportFullReportPdf(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const babyId = parseInt(req.params.babyId, 10);
+      const hasAccess = await hasBabyAccess(req.user.userId, babyId, 'exports');
+      if (!hasAccess) {
+        throw AppError.forbidden('Você não tem acesso a este bebê');
+      }
+
+      const query = req.query as any;
+      const pdf = await ExportService.exportFullReportPdfByBabyId(babyId, query.days);
+
+      // O registro no audit log conta para o limite mensal de exportações
+      await AuditService.logFeatureUsage(req.user.userId, 'FEATURE_EXPORT_PDF', { babyId, days: query.days }, req);
+
+      const baby = await prisma.baby.findUnique({
+        where: { id: babyId },
+        select: { name: true },
+      });
+
+      const filename = `relatorio_${baby?.name?.toLowerCase().replace(/\s/g, '_') || 'bebe'}_${new Date().toISOString().split('T')[0]}.pdf`;
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(pdf);
+    } catch (error) {
+      next(error);
+    }
+  }
 }
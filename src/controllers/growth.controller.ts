@@ -126,7 +126,7 @@ export class GrowthController {
       const query = req.query as any;
 
       // Verificar acesso ao bebê (cuidador ou profissional)
-      const hasAccess = await hasBabyAccess(req.user.userId, babyId);
+      const hasAccess = await hasBabyAccess(req.user.userId, babyId, 'growth:read');
       if (!hasAccess) {
         throw AppError.forbidden('Você não tem acesso a este bebê');
       }
@@ -270,4 +270,33 @@ export class GrowthController {
       next(error);
     }
   }
+
+  static async getPercentiles(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const babyId = parseInt(req.params.babyId, 10);
+
+      // Verificar acesso ao bebê (cuidador ou profissional)
+      const hasAccess = await hasBabyAccess(req.user.userId, babyId, 'growth:read');
+      if (!hasAccess) {
+        throw AppError.forbidden('Você não tem acesso a este bebê');
+      }
+
+      const percentiles = await GrowthService.calculatePercentilesByBabyId(babyId);
+
+      res.status(200).json({
+        success: true,
+        data: percentiles,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
 }
@@ -0,0 +1,83 @@
+// Olive Baby API - Shift Handoff Controller
+import { Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { HandoffService } from '../services/handoff.service';
+import { SettingsService } from '../services/settings.service';
+import { AuthenticatedRequest, ApiResponse } from '../types';
+import { AppError } from '../utils/errors/AppError';
+import { hasBabyAccess, requireBabyAccess } from '../utils/helpers/baby-permission.helper';
+
+// Schemas de validação
+export const handoffQuerySchema = z.object({
+  since: z.string().datetime({ offset: true }).optional().transform(val => val ? new Date(val) : undefined),
+});
+
+export const sendHandoffSchema = z.object({
+  since: z.string().datetime({ offset: true }).optional().transform(val => val ? new Date(val) : undefined),
+  recipientUserIds: z.array(z.number().int().positive()).max(20).optional(),
+  channels: z.array(z.enum(['push', 'email'])).min(1).optional(),
+});
+
+export class HandoffController {
+  /**
+   * GET /babies/:babyId/handoff
+   * O que aconteceu desde `since` (ou desde o último registro de quem pede)
+   */
+  static async getSummary(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const babyId = parseInt(req.params.babyId, 10);
+      await requireBabyAccess(req.user.userId, babyId, 'routines:read');
+
+      const timezone = await SettingsService.getUserTimezone(req.user.userId);
+      const summary = await HandoffService.getSummaryByBabyId(babyId, req.user.userId, {
+        since: (req.query as any).since,
+        timezone,
+        includeMedications: await hasBabyAccess(req.user.userId, babyId, 'clinical:read'),
+      });
+
+      res.status(200).json({
+        success: true,
+        data: summary,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /babies/:babyId/handoff/send
+   * Envia o resumo por push/e-mail para os outros membros
+   */
+  static async sendDigest(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const babyId = parseInt(req.params.babyId, 10);
+      await requireBabyAccess(req.user.userId, babyId, 'routines:read');
+
+      const result = await HandoffService.sendDigest(babyId, req.user.userId, req.body);
+
+      res.status(200).json({
+        success: true,
+        message: 'Resumo da passagem de turno enviado',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,196 @@
+// Olive Baby API - Import Controller
+import { Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { ImportService } from '../services/import.service';
+import { CaregiverService } from '../services/caregiver.service';
+import { AuthenticatedRequest, ApiResponse } from '../types';
+import { AppError } from '../utils/errors/AppError';
+
+const recordKindSchema = z.enum(['FEEDING', 'SLEEP', 'DIAPER', 'BATH', 'MILK_EXTRACTION', 'GROWTH', 'MILESTONE']);
+const columnSchema = z.string().min(1).max(100).optional();
+
+const importMappingSchema = z.object({
+  columns: z.object({
+    type: columnSchema,
+    start: columnSchema,
+    end: columnSchema,
+    date: columnSchema,
+    startTimeOfDay: columnSchema,
+    endTimeOfDay: columnSchema,
+    durationMinutes: columnSchema,
+    notes: columnSchema,
+    details: columnSchema,
+    feedingType: columnSchema,
+    breastSide: columnSchema,
+    amountMl: columnSchema,
+    diaperType: columnSchema,
+    weightKg: columnSchema,
+    heightCm: columnSchema,
+    headCircumferenceCm: columnSchema,
+    milestone: columnSchema,
+  }).optional(),
+  typeValues: z.record(recordKindSchema).optional(),
+  defaultType: recordKindSchema.optional(),
+  dateFormat: z.string().min(1).max(50).optional(),
+  delimiter: z.enum([',', ';', '\t', '|']).optional(),
+  weightUnit: z.enum(['kg', 'g', 'lb']).optional(),
+  lengthUnit: z.enum(['cm', 'in']).optional(),
+  volumeUnit: z.enum(['ml', 'oz']).optional(),
+});
+
+// Schemas de validação
+export const importPreviewSchema = z.object({
+  format: z.enum(['csv', 'json']),
+  content: z.union([z.string().min(1), z.array(z.record(z.unknown())).min(1)]),
+  fileName: z.string().max(255).optional(),
+  preset: z.string().max(50).optional(),
+  mapping: importMappingSchema.optional(),
+  timezone: z.string().max(50).optional(),
+});
+
+export const importRunSchema = importPreviewSchema.extend({
+  dryRun: z.boolean().optional().default(false),
+});
+
+export class ImportController {
+  private static async getCaregiverId(userId: number): Promise<number> {
+    const caregiver = await CaregiverService.getByUserId(userId);
+    return caregiver.id;
+  }
+
+  static async listPresets(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      res.status(200).json({
+        success: true,
+        data: ImportService.getPresets(),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  static async preview(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const babyId = parseInt(req.params.babyId, 10);
+      const caregiverId = await ImportController.getCaregiverId(req.user.userId);
+      const preview = await ImportService.preview(caregiverId, req.user.userId, babyId, req.body);
+
+      res.status(200).json({
+        success: true,
+        data: preview,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  static async run(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const babyId = parseInt(req.params.babyId, 10);
+      const caregiverId = await ImportController.getCaregiverId(req.user.userId);
+      const report = await ImportService.run(caregiverId, req.user.userId, babyId, req.body);
+
+      res.status(report.batchId ? 201 : 200).json({
+        success: true,
+        message: report.dryRun
+          ? 'Simulação concluída; nada foi gravado'
+          : `${report.imported.total} registros importados`,
+        data: report,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  static async listBatches(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const babyId = parseInt(req.params.babyId, 10);
+      const caregiverId = await ImportController.getCaregiverId(req.user.userId);
+      const batches = await ImportService.listBatches(caregiverId, babyId);
+
+      res.status(200).json({
+        success: true,
+        data: batches,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  static async getBatch(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const babyId = parseInt(req.params.babyId, 10);
+      const batchId = parseInt(req.params.batchId, 10);
+      const caregiverId = await ImportController.getCaregiverId(req.user.userId);
+      const batch = await ImportService.getBatch(caregiverId, babyId, batchId);
+
+      res.status(200).json({
+        success: true,
+        data: batch,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  static async rollback(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const babyId = parseInt(req.params.babyId, 10);
+      const batchId = parseInt(req.params.batchId, 10);
+      const caregiverId = await ImportController.getCaregiverId(req.user.userId);
+      const result = await ImportService.rollback(caregiverId, req.user.userId, babyId, batchId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Importação desfeita; os registros foram para a lixeira',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,243 @@
+// Olive Baby API - Medication & Fever Log Controller
+import { Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { MedicationService } from '../services/medication.service';
+import { CaregiverService } from '../services/caregiver.service';
+import { AuthenticatedRequest, ApiResponse } from '../types';
+import { AppError } from '../utils/errors/AppError';
+import { hasBabyAccess } from '../utils/helpers/baby-permission.helper';
+
+// Schemas de validação
+export const recordDoseSchema = z.object({
+  medicationKey: z.enum(['paracetamol', 'ibuprofen', 'dipyrone']).optional(),
+  medicationName: z.string().min(1).max(150).optional(),
+  doseMg: z.number().positive().max(5000).optional(),
+  doseMl: z.number().positive().max(100).optional(),
+  concentrationMgPerMl: z.number().positive().max(1000).optional(),
+  route: z.string().max(30).optional(),
+  administeredAt: z.string().datetime().optional().transform(val => val ? new Date(val) : undefined),
+  prescriptionId: z.number().int().positive().optional(),
+  prescriptionItemIndex: z.number().int().min(0).optional(),
+  minIntervalHours: z.number().int().min(1).max(72).optional(),
+  overrideInterval: z.boolean().optional(),
+  notes: z.string().max(1000).optional(),
+}).refine(
+  data => data.medicationKey || data.medicationName || data.prescriptionId,
+  { message: 'Informe medicationKey, medicationName ou prescriptionId' }
+).refine(
+  data => data.doseMl === undefined || data.doseMg !== undefined || data.concentrationMgPerMl !== undefined,
+  { message: 'Informe concentrationMgPerMl para converter a dose em ml para mg' }
+);
+
+export const recordTemperatureSchema = z.object({
+  temperatureC: z.number().min(30).max(45),
+  method: z.enum(['AXILLARY', 'RECTAL', 'EAR', 'FOREHEAD', 'ORAL']).optional(),
+  measuredAt: z.string().datetime().optional().transform(val => val ? new Date(val) : undefined),
+  notes: z.string().max(1000).optional(),
+});
+
+export const listMedicationQuerySchema = z.object({
+  startDate: z.string().datetime().optional().transform(val => val ? new Date(val) : undefined),
+  endDate: z.string().datetime().optional().transform(val => val ? new Date(val) : undefined),
+});
+
+export class MedicationController {
+  private static async getCaregiverId(userId: number): Promise<number> {
+    const caregiver = await CaregiverService.getByUserId(userId);
+    return caregiver.id;
+  }
+
+  // Verifica acesso ao bebê (cuidador OU profissional)
+  private static async requireAccess(userId: number, babyId: number): Promise<void> {
+    const hasAccess = await hasBabyAccess(userId, babyId, 'clinical:read');
+    if (!hasAccess) {
+      throw AppError.forbidden('Você não tem acesso a este bebê');
+    }
+  }
+
+  // ==========================================
+  // Doses
+  // ==========================================
+
+  static async recordDose(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const babyId = parseInt(req.params.babyId, 10);
+      const caregiverId = await MedicationController.getCaregiverId(req.user.userId);
+      const result = await MedicationService.recordDose(caregiverId, req.user.userId, babyId, req.body);
+
+      res.status(201).json({
+        success: true,
+        message: result.warnings.some(w => w.severity === 'danger')
+          ? 'Dose registrada com alertas de segurança'
+          : 'Dose registrada com sucesso',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  static async listDoses(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const babyId = parseInt(req.params.babyId, 10);
+      await MedicationController.requireAccess(req.user.userId, babyId);
+
+      const query = req.query as any;
+      const doses = await MedicationService.listDosesByBabyId(babyId, {
+        startDate: query.startDate,
+        endDate: query.endDate,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: doses,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  static async getStatus(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const babyId = parseInt(req.params.babyId, 10);
+      await MedicationController.requireAccess(req.user.userId, babyId);
+
+      const status = await MedicationService.getStatusByBabyId(babyId);
+
+      res.status(200).json({
+        success: true,
+        data: status,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  static async deleteDose(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const babyId = parseInt(req.params.babyId, 10);
+      const id = parseInt(req.params.id, 10);
+      const caregiverId = await MedicationController.getCaregiverId(req.user.userId);
+      await MedicationService.deleteDose(caregiverId, babyId, id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Dose removida com sucesso',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // ==========================================
+  // Temperatura
+  // ==========================================
+
+  static async recordTemperature(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const babyId = parseInt(req.params.babyId, 10);
+      const caregiverId = await MedicationController.getCaregiverId(req.user.userId);
+      const result = await MedicationService.recordTemperature(caregiverId, req.user.userId, babyId, req.body);
+
+      res.status(201).json({
+        success: true,
+        message: result.message || 'Temperatura registrada com sucesso',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  static async listTemperatures(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const babyId = parseInt(req.params.babyId, 10);
+      await MedicationController.requireAccess(req.user.userId, babyId);
+
+      const query = req.query as any;
+      const readings = await MedicationService.listTemperaturesByBabyId(babyId, {
+        startDate: query.startDate,
+        endDate: query.endDate,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: readings,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  static async deleteTemperature(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const babyId = parseInt(req.params.babyId, 10);
+      const id = parseInt(req.params.id, 10);
+      const caregiverId = await MedicationController.getCaregiverId(req.user.userId);
+      await MedicationService.deleteTemperature(caregiverId, babyId, id);
+
+      res.status(200).json({
+        success: true,
+        message: 'Medição removida com sucesso',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
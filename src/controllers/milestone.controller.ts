@@ -139,7 +139,7 @@ export class MilestoneController {
       const babyId = parseInt(req.params.babyId, 10);
       
       // Verificar acesso ao bebê (cuidador ou profissional)
-      const hasAccess = await hasBabyAccess(req.user.userId, babyId);
+      const hasAccess = await hasBabyAccess(req.user.userId, babyId, 'growth:read');
       if (!hasAccess) {
         throw AppError.forbidden('Você não tem acesso a este bebê');
       }
@@ -309,7 +309,7 @@ export class MilestoneController {
       const babyId = parseInt(req.params.babyId, 10);
       
       // Verificar acesso ao bebê (cuidador OU profissional)
-      const hasAccess = await hasBabyAccess(req.user.userId, babyId);
+      const hasAccess = await hasBabyAccess(req.user.userId, babyId, 'growth:read');
       if (!hasAccess) {
         throw AppError.forbidden('Você não tem acesso a este bebê');
       }
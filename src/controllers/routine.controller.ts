@@ -2,15 +2,17 @@
 import { Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { RoutineService } from '../services/routine.service';
+import { RoutineSyncService } from '../services/routine-sync.service';
 import { CaregiverService } from '../services/caregiver.service';
-import { AuthenticatedRequest, ApiResponse } from '../types';
+import { AuthenticatedRequest, ApiResponse, ROLE_PERMISSIONS } from '../types';
 import { AppError } from '../utils/errors/AppError';
 import { hasBabyAccess } from '../utils/helpers/baby-permission.helper';
 
 // Schemas de validação
 export const createRoutineSchema = z.object({
   babyId: z.number().positive(),
-  routineType: z.enum(['FEEDING', 'SLEEP', 'DIAPER', 'BATH', 'MILK_EXTRACTION']),
+  routineType: z.enum(['FEEDING', 'SLEEP', 'DIAPER', 'BATH', 'MILK_EXTRACTION', 'CUSTOM']),
+  customTypeId: z.number().int().positive().optional(),
   startTime: z.string().datetime().transform(val => new Date(val)),
   endTime: z.string().datetime().optional().transform(val => val ? new Date(val) : undefined),
   notes: z.string().optional(),
@@ -44,13 +46,52 @@ export const instantRoutineSchema = z.object({
 
 export const listRoutinesQuerySchema = z.object({
   babyId: z.string().optional().transform(val => val ? parseInt(val, 10) : undefined),
-  routineType: z.enum(['FEEDING', 'SLEEP', 'DIAPER', 'BATH', 'MILK_EXTRACTION']).optional(),
+  routineType: z.enum(['FEEDING', 'SLEEP', 'DIAPER', 'BATH', 'MILK_EXTRACTION', 'CUSTOM']).optional(),
+  customTypeId: z.string().optional().transform(val => val ? parseInt(val, 10) : undefined),
   startDate: z.string().datetime().optional().transform(val => val ? new Date(val) : undefined),
   endDate: z.string().datetime().optional().transform(val => val ? new Date(val) : undefined),
   page: z.string().optional().transform(val => val ? parseInt(val, 10) : 1),
   limit: z.string().optional().transform(val => val ? parseInt(val, 10) : 50),
 });
 
+const syncOperationSchema = z.object({
+  op: z.enum(['create', 'update', 'delete']),
+  babyId: z.number().int().positive(),
+  clientId: z.string().min(8).max(64).optional(),
+  id: z.number().int().positive().optional(),
+  updatedAt: z.string().datetime().transform(val => new Date(val)),
+  baseUpdatedAt: z.string().datetime().optional().transform(val => val ? new Date(val) : undefined),
+  data: z.object({
+    routineType: z.enum(['FEEDING', 'SLEEP', 'DIAPER', 'BATH', 'MILK_EXTRACTION', 'CUSTOM']).optional(),
+    customTypeId: z.number().int().positive().optional(),
+    startTime: z.string().datetime().optional().transform(val => val ? new Date(val) : undefined),
+    endTime: z.string().datetime().nullable().optional().transform(val => val ? new Date(val) : val === null ? null : undefined),
+    notes: z.string().optional(),
+    meta: z.record(z.any()).optional(),
+  }).optional(),
+}).superRefine((operation, ctx) => {
+  if (operation.op === 'create') {
+    if (!operation.clientId) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['clientId'], message: 'clientId é obrigatório para create' });
+    }
+    if (!operation.data?.routineType || !operation.data?.startTime) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['data'], message: 'routineType e startTime são obrigatórios para create' });
+    }
+  } else if (!operation.clientId && !operation.id) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['id'], message: 'Informe id ou clientId' });
+  }
+});
+
+export const syncPushSchema = z.object({
+  operations: z.array(syncOperationSchema).min(1).max(500),
+});
+
+export const syncPullQuerySchema = z.object({
+  cursor: z.string().optional(),
+  babyId: z.string().optional().transform(val => val ? parseInt(val, 10) : undefined),
+  limit: z.string().optional().transform(val => val ? Math.min(parseInt(val, 10), 1000) : 500),
+});
+
 export class RoutineController {
   private static async getCaregiverId(userId: number): Promise<number> {
     const caregiver = await CaregiverService.getByUserId(userId);
@@ -103,6 +144,7 @@ export class RoutineController {
         {
           babyId: query.babyId,
           routineType: query.routineType,
+          customTypeId: query.customTypeId,
           startDate: query.startDate,
           endDate: query.endDate,
         },
@@ -136,7 +178,7 @@ export class RoutineController {
       const query = req.query as any;
 
       // Verificar acesso ao bebê (cuidador OU profissional)
-      const hasAccess = await hasBabyAccess(req.user.userId, babyId);
+      const hasAccess = await hasBabyAccess(req.user.userId, babyId, 'routines:read');
       if (!hasAccess) {
         throw AppError.forbidden('Você não tem acesso a este bebê');
       }
@@ -164,6 +206,7 @@ export class RoutineController {
         babyId,
         {
           routineType: routineType as any,
+          customTypeId: query.customTypeId ? parseInt(query.customTypeId, 10) : undefined,
           startDate,
           endDate,
         },
@@ -241,7 +284,7 @@ export class RoutineController {
 
       const id = parseInt(req.params.id, 10);
       const caregiverId = await RoutineController.getCaregiverId(req.user.userId);
-      await RoutineService.delete(id, caregiverId);
+      await RoutineService.delete(id, caregiverId, { userId: req.user.userId });
 
       res.status(200).json({
         success: true,
@@ -534,7 +577,7 @@ export class RoutineController {
       }
 
       // Verificar acesso ao bebê (cuidador ou profissional)
-      const hasAccess = await hasBabyAccess(req.user.userId, babyId);
+      const hasAccess = await hasBabyAccess(req.user.userId, babyId, 'routines:read');
       if (!hasAccess) {
         throw AppError.forbidden('Você não tem acesso a este bebê');
       }
@@ -682,6 +725,115 @@ export class RoutineController {
     }
   }
 
+  // ==========================================
+  // Rotinas Personalizadas (CUSTOM)
+  // ==========================================
+
+  static async startCustom(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const caregiverId = await RoutineController.getCaregiverId(req.user.userId);
+      const customTypeId = parseInt(req.params.customTypeId, 10);
+      const { babyId, meta, notes } = req.body;
+      const routine = await RoutineService.startRoutine(
+        caregiverId, babyId, 'CUSTOM', meta, notes, customTypeId
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Rotina iniciada',
+        data: routine,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  static async closeCustom(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const caregiverId = await RoutineController.getCaregiverId(req.user.userId);
+      const customTypeId = parseInt(req.params.customTypeId, 10);
+      const { babyId, meta, notes } = req.body;
+      const routine = await RoutineService.closeRoutine(
+        caregiverId, babyId, 'CUSTOM', meta, notes, customTypeId
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Rotina finalizada',
+        data: routine,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  static async getOpenCustom(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const caregiverId = await RoutineController.getCaregiverId(req.user.userId);
+      const customTypeId = parseInt(req.params.customTypeId, 10);
+      const babyId = parseInt(req.query.babyId as string, 10);
+      const routine = await RoutineService.getOpenRoutine(caregiverId, babyId, 'CUSTOM', customTypeId);
+
+      res.status(200).json({
+        success: true,
+        data: routine,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  static async registerCustom(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const caregiverId = await RoutineController.getCaregiverId(req.user.userId);
+      const customTypeId = parseInt(req.params.customTypeId, 10);
+      const { babyId, meta, notes } = req.body;
+      const routine = await RoutineService.registerInstantRoutine(
+        caregiverId, babyId, 'CUSTOM', meta, notes, customTypeId
+      );
+
+      res.status(201).json({
+        success: true,
+        message: 'Rotina registrada',
+        data: routine,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   // ==========================================
   // Rotas de Compatibilidade (Active/:babyId)
   // ==========================================
@@ -777,4 +929,69 @@ export class RoutineController {
       next(error);
     }
   }
+
+  // ==========================================
+  // Sincronização offline
+  // ==========================================
+
+  static async syncPush(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const caregiverId = await RoutineController.getCaregiverId(req.user.userId);
+      const permissions = ROLE_PERMISSIONS[req.user.role as keyof typeof ROLE_PERMISSIONS];
+      const result = await RoutineSyncService.push(
+        caregiverId,
+        req.user.userId,
+        permissions,
+        req.body.operations
+      );
+
+      const conflicts = result.results.filter(r => r.status === 'conflict').length;
+      const errors = result.results.filter(r => r.status === 'error').length;
+
+      res.status(200).json({
+        success: true,
+        message: conflicts > 0 || errors > 0
+          ? `Sincronização concluída com ${conflicts} conflito(s) e ${errors} erro(s)`
+          : 'Sincronização concluída',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  static async syncPull(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const caregiverId = await RoutineController.getCaregiverId(req.user.userId);
+      const query = req.query as any;
+      const result = await RoutineSyncService.pull(caregiverId, {
+        cursor: query.cursor,
+        babyId: query.babyId,
+        limit: query.limit,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
 }
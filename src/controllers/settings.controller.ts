@@ -20,6 +20,15 @@ export const notificationSettingsSchema = z.object({
     bath: z.boolean().optional(),
     extraction: z.boolean().optional(),
   }).optional(),
+  // Opt-out por categoria em todos os canais (avisos de sistema não podem ser desligados)
+  notificationCategories: z.object({
+    routine: z.boolean().optional(),
+    reminder: z.boolean().optional(),
+    engagement: z.boolean().optional(),
+    lifecycle: z.boolean().optional(),
+    clinical: z.boolean().optional(),
+    marketing: z.boolean().optional(),
+  }).optional(),
 });
 
 export const appearanceSettingsSchema = z.object({
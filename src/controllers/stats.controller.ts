@@ -2,6 +2,10 @@
 import { Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { StatsService } from '../services/stats.service';
+import { SleepAnalyticsService } from '../services/sleep-analytics.service';
+import { ForecastService } from '../services/forecast.service';
+import { LactationService } from '../services/lactation.service';
+import { SettingsService } from '../services/settings.service';
 import { CaregiverService } from '../services/caregiver.service';
 import { AuthenticatedRequest, ApiResponse } from '../types';
 import { AppError } from '../utils/errors/AppError';
@@ -12,6 +16,16 @@ export const statsQuerySchema = z.object({
   range: z.enum(['24h', '7d', '14d', '30d', '90d']).optional().default('7d'),
 });
 
+export const sleepAnalyticsQuerySchema = z.object({
+  days: z.string().optional().transform(val => val ? parseInt(val, 10) : 30)
+    .pipe(z.number().int().min(7).max(90)),
+});
+
+export const lactationReportQuerySchema = z.object({
+  days: z.string().optional().transform(val => val ? parseInt(val, 10) : 14)
+    .pipe(z.number().int().min(7).max(90)),
+});
+
 export class StatsController {
   private static async getCaregiverIdOrNull(userId: number): Promise<number | null> {
     try {
@@ -36,7 +50,7 @@ export class StatsController {
       const range = (req.query.range as string) || '7d';
       
       // Verificar acesso ao bebê (cuidador ou profissional)
-      const hasAccess = await hasBabyAccess(req.user.userId, babyId);
+      const hasAccess = await hasBabyAccess(req.user.userId, babyId, 'routines:read');
       if (!hasAccess) {
         throw AppError.forbidden('Você não tem acesso a este bebê');
       }
@@ -108,7 +122,7 @@ export class StatsController {
       const range = (req.query.range as string) || '7d';
       
       // Verificar acesso ao bebê (cuidador ou profissional)
-      const hasAccess = await hasBabyAccess(req.user.userId, babyId);
+      const hasAccess = await hasBabyAccess(req.user.userId, babyId, 'routines:read');
       if (!hasAccess) {
         throw AppError.forbidden('Você não tem acesso a este bebê');
       }
@@ -147,7 +161,7 @@ export class StatsController {
       const range = (req.query.range as string) || '7d';
       
       // Verificar acesso ao bebê (cuidador ou profissional)
-      const hasAccess = await hasBabyAccess(req.user.userId, babyId);
+      const hasAccess = await hasBabyAccess(req.user.userId, babyId, 'routines:read');
       if (!hasAccess) {
         throw AppError.forbidden('Você não tem acesso a este bebê');
       }
@@ -185,4 +199,99 @@ export class StatsController {
       next(error);
     }
   }
+
+  static async getSleepAnalytics(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const babyId = parseInt(req.params.babyId, 10);
+
+      const hasAccess = await hasBabyAccess(req.user.userId, babyId, 'routines:read');
+      if (!hasAccess) {
+        throw AppError.forbidden('Você não tem acesso a este bebê');
+      }
+
+      // Noite x soneca depende do fuso de quem está consultando
+      const timezone = await SettingsService.getUserTimezone(req.user.userId);
+      const analytics = await SleepAnalyticsService.getAnalyticsByBabyId(babyId, {
+        days: (req.query as any).days,
+        timezone,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: analytics,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // Relatório de amamentação (também para profissionais vinculados, ex.: consultora de lactação)
+  static async getLactationReport(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const babyId = parseInt(req.params.babyId, 10);
+
+      const hasAccess = await hasBabyAccess(req.user.userId, babyId, 'routines:read');
+      if (!hasAccess) {
+        throw AppError.forbidden('Você não tem acesso a este bebê');
+      }
+
+      const timezone = await SettingsService.getUserTimezone(req.user.userId);
+      const report = await LactationService.getReportByBabyId(babyId, {
+        days: (req.query as any).days,
+        timezone,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: report,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  static async getForecast(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const babyId = parseInt(req.params.babyId, 10);
+
+      const hasAccess = await hasBabyAccess(req.user.userId, babyId, 'routines:read');
+      if (!hasAccess) {
+        throw AppError.forbidden('Você não tem acesso a este bebê');
+      }
+
+      const timezone = await SettingsService.getUserTimezone(req.user.userId);
+      const forecast = await ForecastService.getForecastByBabyId(babyId, timezone);
+
+      res.status(200).json({
+        success: true,
+        data: forecast,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
 }
@@ -0,0 +1,50 @@
+// Olive Baby API - Realtime Stream Controller
+import { Response, NextFunction } from 'express';
+import { RealtimeService } from '../services/realtime.service';
+import * as babyMemberService from '../services/baby-member.service';
+import { AuthenticatedRequest, BABY_PERMISSION_DOMAINS } from '../types';
+import { AppError } from '../utils/errors/AppError';
+import { isActiveBabyMember } from '../utils/helpers/baby-permission.helper';
+
+export class StreamController {
+  /**
+   * GET /babies/:babyId/stream
+   * Server-Sent Events com as alterações do bebê feitas pelos outros membros
+   */
+  static async streamBaby(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const babyId = parseInt(req.params.babyId, 10);
+      if (isNaN(babyId)) {
+        throw AppError.badRequest('ID do bebê inválido');
+      }
+
+      const isMember = await isActiveBabyMember(req.user.userId, babyId);
+      if (!isMember) {
+        throw AppError.forbidden('Você não tem acesso a este bebê');
+      }
+
+      const access = await babyMemberService.getMyBabyPermissions(babyId, req.user.userId);
+      const readableDomains = BABY_PERMISSION_DOMAINS.filter(domain => access.permissions[domain].read);
+
+      // exp do JWT (segundos) ou fim do acesso temporário, o que vier antes
+      const exp = (req.user as { exp?: number }).exp;
+      const expiries = [exp ? new Date(exp * 1000) : null, access.accessExpiresAt]
+        .filter((date): date is Date => date !== null);
+      const expiresAt = expiries.length > 0
+        ? new Date(Math.min(...expiries.map(date => date.getTime())))
+        : undefined;
+
+      RealtimeService.subscribe(babyId, req.user.userId, res, { expiresAt, readableDomains });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
@@ -0,0 +1,188 @@
+// Olive Baby API - Vaccine Certificate Controller
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { VaccineCertificateService } from '../services/vaccine-certificate.service';
+import { AuthenticatedRequest, ApiResponse } from '../types';
+import { AppError } from '../utils/errors/AppError';
+
+// Schemas de validação
+export const revokeCertificateSchema = z.object({
+  reason: z.string().max(200).optional(),
+});
+
+function parseIds(req: AuthenticatedRequest): { babyId: number; certificateId: number } {
+  const babyId = parseInt(req.params.babyId, 10);
+  const certificateId = parseInt(req.params.certificateId, 10);
+  if (isNaN(babyId) || isNaN(certificateId)) {
+    throw AppError.badRequest('ID inválido');
+  }
+  return { babyId, certificateId };
+}
+
+export class VaccineCertificateController {
+  /**
+   * POST /babies/:babyId/vaccine-certificates
+   * Emite um certificado com as doses aplicadas
+   */
+  static async issue(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const babyId = parseInt(req.params.babyId, 10);
+      if (isNaN(babyId)) {
+        throw AppError.badRequest('ID do bebê inválido');
+      }
+
+      const certificate = await VaccineCertificateService.issue(req.user.userId, babyId);
+
+      res.status(201).json({
+        success: true,
+        message: 'Certificado de vacinação emitido',
+        data: certificate,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /babies/:babyId/vaccine-certificates
+   * Lista os certificados do bebê
+   */
+  static async list(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const babyId = parseInt(req.params.babyId, 10);
+      if (isNaN(babyId)) {
+        throw AppError.badRequest('ID do bebê inválido');
+      }
+
+      const certificates = await VaccineCertificateService.list(req.user.userId, babyId);
+
+      res.status(200).json({
+        success: true,
+        data: certificates,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /babies/:babyId/vaccine-certificates/:certificateId/pdf
+   * Download do certificado em PDF
+   */
+  static async downloadPdf(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const { babyId, certificateId } = parseIds(req);
+      const { pdf, filename } = await VaccineCertificateService.getPdf(req.user.userId, babyId, certificateId);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(pdf);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /babies/:babyId/vaccine-certificates/:certificateId/revoke
+   * Revoga o certificado (a verificação pública passa a indicar revogado)
+   */
+  static async revoke(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const { babyId, certificateId } = parseIds(req);
+      const certificate = await VaccineCertificateService.revoke(
+        req.user.userId,
+        babyId,
+        certificateId,
+        req.body.reason
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Certificado revogado',
+        data: certificate,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /babies/:babyId/vaccine-certificates/:certificateId/regenerate
+   * Revoga o certificado e emite outro com as doses atuais
+   */
+  static async regenerate(
+    req: AuthenticatedRequest,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      if (!req.user) {
+        throw AppError.unauthorized();
+      }
+
+      const { babyId, certificateId } = parseIds(req);
+      const certificate = await VaccineCertificateService.regenerate(req.user.userId, babyId, certificateId);
+
+      res.status(201).json({
+        success: true,
+        message: 'Novo certificado emitido',
+        data: certificate,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /vaccine-certificates/verify/:code
+   * Verificação pública (QR): autenticidade e status, sem outros dados do bebê
+   */
+  static async verify(
+    req: Request,
+    res: Response<ApiResponse>,
+    next: NextFunction
+  ): Promise<void> {
+    try {
+      const result = await VaccineCertificateService.verify(req.params.code);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
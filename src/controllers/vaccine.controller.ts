@@ -12,7 +12,11 @@ import { hasBabyAccess } from '../utils/helpers/baby-permission.helper';
 // ==========================================
 
 export const syncVaccinesSchema = z.object({
-  source: z.enum(['PNI', 'SBIM']).optional().default('PNI'),
+  calendarId: z.number().int().positive().optional(),
+});
+
+export const selectCalendarSchema = z.object({
+  calendarId: z.number().int().positive(),
 });
 
 export const createManualRecordSchema = z.object({
@@ -26,7 +30,7 @@ export const createManualRecordSchema = z.object({
   appliedAt: z.string().refine((date) => !isNaN(Date.parse(date)), {
     message: 'Data inválida',
   }).optional().nullable(),
-  source: z.enum(['PNI', 'SBIM']).optional().default('PNI'),
+  source: z.nativeEnum(VaccineCalendarSource).optional().default('PNI'),
   lotNumber: z.string().max(50).optional().nullable(),
   clinicName: z.string().max(200).optional().nullable(),
   professionalName: z.string().max(200).optional().nullable(),
@@ -73,7 +77,15 @@ export class VaccineController {
     next: NextFunction
   ) {
     try {
-      const calendars = await VaccineService.getAvailableCalendars();
+      const clinicId = req.query.clinicId ? parseInt(req.query.clinicId as string, 10) : undefined;
+      if (clinicId !== undefined && isNaN(clinicId)) {
+        throw AppError.badRequest('ID da clínica inválido');
+      }
+
+      const calendars = await VaccineService.getAvailableCalendars({
+        country: req.query.country as string | undefined,
+        clinicId,
+      });
       
       res.json({
         success: true,
@@ -94,8 +106,12 @@ export class VaccineController {
     next: NextFunction
   ) {
     try {
-      const source = (req.query.source as VaccineCalendarSource) || VaccineCalendarSource.PNI;
-      const definitions = await VaccineService.getVaccineDefinitions(source);
+      const calendarId = req.query.calendarId ? parseInt(req.query.calendarId as string, 10) : undefined;
+      if (calendarId !== undefined && isNaN(calendarId)) {
+        throw AppError.badRequest('ID do calendário inválido');
+      }
+
+      const definitions = await VaccineService.getVaccineDefinitions(calendarId);
       
       res.json({
         success: true,
@@ -136,11 +152,10 @@ export class VaccineController {
       }
 
       const parsed = syncVaccinesSchema.parse(req.body);
-      const source = parsed.source as VaccineCalendarSource;
 
       const result = await VaccineService.syncVaccinesForBaby(caregiver.id, {
         babyId,
-        source,
+        calendarId: parsed.calendarId,
       });
 
       res.json({
@@ -153,6 +168,51 @@ export class VaccineController {
     }
   }
 
+  /**
+   * PUT /babies/:babyId/vaccines/calendar
+   * Troca o calendário de vacinação do bebê (mantém o histórico já aplicado)
+   */
+  static async selectCalendar(
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ) {
+    try {
+      const userId = req.user!.userId;
+      const babyId = parseInt(req.params.babyId, 10);
+
+      if (isNaN(babyId)) {
+        throw AppError.badRequest('ID do bebê inválido');
+      }
+
+      const caregiver = await import('../config/database').then(m =>
+        m.prisma.caregiver.findUnique({
+          where: { userId },
+          select: { id: true },
+        })
+      );
+
+      if (!caregiver) {
+        throw AppError.forbidden('Usuário não é um cuidador');
+      }
+
+      const { calendarId } = req.body as z.infer<typeof selectCalendarSchema>;
+
+      const result = await VaccineService.syncVaccinesForBaby(caregiver.id, {
+        babyId,
+        calendarId,
+      });
+
+      res.json({
+        success: true,
+        message: 'Calendário de vacinação atualizado',
+        data: result,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * GET /babies/:babyId/vaccines/summary
    * Obtém resumo das vacinas do bebê
@@ -172,7 +232,7 @@ export class VaccineController {
       }
 
       // Verificar acesso ao bebê (cuidador OU profissional)
-      const hasAccess = await hasBabyAccess(userId, babyId);
+      const hasAccess = await hasBabyAccess(userId, babyId, 'vaccines:read');
       if (!hasAccess) {
         throw AppError.forbidden('Você não tem acesso a este bebê');
       }
@@ -208,7 +268,7 @@ export class VaccineController {
       }
 
       // Verificar acesso ao bebê (cuidador OU profissional)
-      const hasAccess = await hasBabyAccess(userId, babyId);
+      const hasAccess = await hasBabyAccess(userId, babyId, 'vaccines:read');
       if (!hasAccess) {
         throw AppError.forbidden('Você não tem acesso a este bebê');
       }
@@ -251,7 +311,7 @@ export class VaccineController {
       }
 
       // Verificar acesso ao bebê (cuidador OU profissional)
-      const hasAccess = await hasBabyAccess(userId, babyId);
+      const hasAccess = await hasBabyAccess(userId, babyId, 'vaccines:read');
       if (!hasAccess) {
         throw AppError.forbidden('Você não tem acesso a este bebê');
       }
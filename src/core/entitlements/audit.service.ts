@@ -2,6 +2,7 @@
 import { AuditAction } from '@prisma/client';
 import { Request } from 'express';
 import { prisma } from '../../config/database';
+import { JourneyService } from '../../services/journey.service';
 
 export interface AuditEventData {
   userId?: number;
@@ -58,6 +59,7 @@ export class AuditService {
       metadata: { feature, ...metadata },
       req,
     });
+    await JourneyService.emitEvent(userId, 'paywall_hit', { feature });
   }
 
   /**
@@ -150,6 +152,23 @@ export class AuditService {
     });
   }
 
+  /**
+   * Count audit events for user since a date (used for monthly quotas)
+   */
+  static async countByUser(
+    userId: number,
+    actions: AuditAction[],
+    since: Date
+  ): Promise<number> {
+    return prisma.auditEvent.count({
+      where: {
+        userId,
+        action: { in: actions },
+        createdAt: { gte: since },
+      },
+    });
+  }
+
   /**
    * Get all audit events (admin)
    */
@@ -22,8 +22,8 @@ export function apiEventsMiddleware(
   const startTime = Date.now();
   const authReq = req as AuthenticatedRequest;
 
-  // Skip certain routes
-  if (SKIP_ROUTES.some(r => req.path.startsWith(r))) {
+  // Skip certain routes and long-lived SSE streams (they would always look slow)
+  if (SKIP_ROUTES.some(r => req.path.startsWith(r)) || req.headers.accept?.includes('text/event-stream')) {
     return next();
   }
 
@@ -44,6 +44,21 @@ export function authMiddleware(
 // Alias for authMiddleware
 export const authenticate = authMiddleware;
 
+// Streams SSE: EventSource não envia headers, então aceita ?access_token= como fallback
+export function streamAuthMiddleware(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void {
+  const queryToken = req.query.access_token;
+  if (!req.headers.authorization && typeof queryToken === 'string' && queryToken) {
+    req.headers.authorization = `Bearer ${queryToken}`;
+    // Não deixar o token nos logs de acesso
+    req.originalUrl = req.originalUrl.replace(/access_token=[^&]*/, 'access_token=[REDACTED]');
+  }
+  authMiddleware(req, res, next);
+}
+
 // Require caregiver role (PARENT or CAREGIVER)
 export function requireCaregiver(
   req: AuthenticatedRequest,
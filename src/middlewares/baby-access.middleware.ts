@@ -1,14 +1,15 @@
 // Olive Baby API - Baby Access Middleware
 import { Response, NextFunction } from 'express';
-import { AuthenticatedRequest } from '../types';
+import { AuthenticatedRequest, BabyPermission } from '../types';
 import { requireBabyAccess, requireBabyOwner } from '../utils/helpers/baby-permission.helper';
 import { AppError } from '../utils/errors/AppError';
 
 /**
  * Middleware para verificar se o usuário tem acesso ao bebê
- * Usa o parâmetro :babyId da rota
+ * Usa o parâmetro :babyId da rota. Com `permission`, exige também a
+ * permissão do membro (ex.: 'routines:write')
  */
-export function requireBabyAccessMiddleware() {
+export function requireBabyAccessMiddleware(permission?: BabyPermission) {
   return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
     try {
       if (!req.user) {
@@ -20,7 +21,7 @@ export function requireBabyAccessMiddleware() {
         throw AppError.badRequest('ID do bebê inválido');
       }
 
-      await requireBabyAccess(req.user.userId, babyId);
+      await requireBabyAccess(req.user.userId, babyId, permission);
       next();
     } catch (error) {
       next(error);
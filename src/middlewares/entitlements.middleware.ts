@@ -231,3 +231,51 @@ export function requireExportAllowed() {
   };
 }
 
+
+/**
+ * Middleware to check PDF export permission and monthly quota.
+ * Cada relatório gerado é registrado como FEATURE_EXPORT_PDF no audit log,
+ * que serve de contador para maxExportsPerMonth.
+ */
+export function requirePdfExportAllowed() {
+  return async (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): Promise<void> => {
+    try {
+      if (!req.user?.userId) {
+        throw AppError.unauthorized('Não autenticado');
+      }
+
+      await EntitlementsService.assertCan(req.user.userId, 'exportPdf');
+
+      const now = new Date();
+      const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+      const exportsThisMonth = await AuditService.countByUser(
+        req.user.userId,
+        ['FEATURE_EXPORT_PDF'],
+        monthStart
+      );
+
+      await EntitlementsService.assertWithinLimit(
+        req.user.userId,
+        'maxExportsPerMonth',
+        exportsThisMonth
+      );
+
+      next();
+    } catch (error: any) {
+      const errorCode = error?.extra?.errorCode;
+      if (errorCode === 'PLAN_UPGRADE_REQUIRED' || errorCode === 'LIMIT_EXCEEDED') {
+        await AuditService.logPaywallHit(
+          req.user?.userId || 0,
+          errorCode === 'LIMIT_EXCEEDED' ? 'maxExportsPerMonth' : 'exportPdf',
+          { attemptedAt: new Date().toISOString() },
+          req
+        );
+      }
+      next(error);
+    }
+  };
+}
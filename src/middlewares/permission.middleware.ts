@@ -2,12 +2,27 @@
 import { Response, NextFunction } from 'express';
 import { UserRole } from '@prisma/client';
 import { AppError } from '../utils/errors/AppError';
-import { AuthenticatedRequest, ROLE_PERMISSIONS, RolePermissions } from '../types';
+import { AuthenticatedRequest, BabyPermission, ROLE_PERMISSIONS, RolePermissions } from '../types';
+import { requireBabyAccess } from '../utils/helpers/baby-permission.helper';
 
 type PermissionKey = keyof RolePermissions;
 
-export function requirePermission(permission: PermissionKey) {
-  return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+/**
+ * Bebê alvo da requisição (:babyId, body.babyId ou query.babyId).
+ * Rotas por id de registro não têm; nelas o service faz a checagem.
+ */
+function getRequestBabyId(req: AuthenticatedRequest): number | null {
+  const raw = req.params.babyId ?? req.body?.babyId ?? req.query.babyId;
+  const babyId = parseInt(String(raw), 10);
+  return isNaN(babyId) ? null : babyId;
+}
+
+/**
+ * Permissão do papel do usuário e, opcionalmente, a permissão do membro
+ * sobre o bebê da requisição (ex.: requirePermission('canRegisterRoutines', 'routines:write'))
+ */
+export function requirePermission(permission: PermissionKey, babyPermission?: BabyPermission) {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
     try {
       if (!req.user) {
         throw AppError.unauthorized('Usuário não autenticado');
@@ -20,6 +35,11 @@ export function requirePermission(permission: PermissionKey) {
         throw AppError.forbidden(`Permissão '${permission}' negada para role '${userRole}'`);
       }
 
+      const babyId = babyPermission ? getRequestBabyId(req) : null;
+      if (babyPermission && babyId !== null) {
+        await requireBabyAccess(req.user.userId, babyId, babyPermission);
+      }
+
       next();
     } catch (error) {
       next(error);
@@ -0,0 +1,49 @@
+// Olive Baby API - Activity Feed & Trash Routes (baby-scoped)
+import { Router } from 'express';
+import { ActivityController, listActivityQuerySchema } from '../controllers/activity.controller';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { validateQuery } from '../middlewares/validation.middleware';
+import { requirePermission } from '../middlewares/permission.middleware';
+
+// ========================================
+// Feed de atividades
+// For routes like /api/v1/babies/:babyId/activity
+// ========================================
+export const babyActivityRouter = Router({ mergeParams: true });
+
+babyActivityRouter.use(authMiddleware);
+
+// GET /api/v1/babies/:babyId/activity - Quem alterou o quê e quando (somente responsáveis)
+babyActivityRouter.get(
+  '/',
+  validateQuery(listActivityQuerySchema),
+  ActivityController.listActivity
+);
+
+// GET /api/v1/babies/:babyId/activity/:entityType/:entityId - Histórico de um registro
+babyActivityRouter.get(
+  '/:entityType/:entityId',
+  ActivityController.getRecordHistory
+);
+
+// ========================================
+// Lixeira
+// For routes like /api/v1/babies/:babyId/trash
+// ========================================
+export const babyTrashRouter = Router({ mergeParams: true });
+
+babyTrashRouter.use(authMiddleware);
+
+// GET /api/v1/babies/:babyId/trash - Registros excluídos nos últimos 30 dias
+babyTrashRouter.get(
+  '/',
+  requirePermission('canDeleteRoutines'),
+  ActivityController.listTrash
+);
+
+// POST /api/v1/babies/:babyId/trash/:revisionId/restore - Restaura registro excluído
+babyTrashRouter.post(
+  '/:revisionId/restore',
+  requirePermission('canDeleteRoutines'),
+  ActivityController.restore
+);
@@ -0,0 +1,48 @@
+// Olive Baby API - Admin Jobs Routes
+import { Router } from 'express';
+import { AdminJobsController } from '../controllers/admin-jobs.controller';
+import { authMiddleware, requireAdmin } from '../middlewares/auth.middleware';
+import { validateBody, validateQuery } from '../middlewares/validation.middleware';
+import {
+  updateJobSchema,
+  runJobSchema,
+  listJobRunsQuerySchema,
+} from '../controllers/admin-jobs.controller';
+
+const router = Router();
+
+// All routes require auth + admin role
+router.use(authMiddleware);
+router.use(requireAdmin);
+
+// GET /admin/jobs - Scheduler status and jobs
+router.get('/', AdminJobsController.listJobs);
+
+// POST /admin/jobs/runs/:runId/rerun - Re-run a finished run
+router.post('/runs/:runId/rerun', AdminJobsController.rerun);
+
+// GET /admin/jobs/:name - Job details with latest runs
+router.get('/:name', AdminJobsController.getJob);
+
+// GET /admin/jobs/:name/runs - Run history
+router.get(
+  '/:name/runs',
+  validateQuery(listJobRunsQuerySchema),
+  AdminJobsController.listRuns
+);
+
+// PATCH /admin/jobs/:name - Enable/disable or reschedule
+router.patch(
+  '/:name',
+  validateBody(updateJobSchema),
+  AdminJobsController.updateJob
+);
+
+// POST /admin/jobs/:name/run - Run now
+router.post(
+  '/:name/run',
+  validateBody(runJobSchema),
+  AdminJobsController.runJob
+);
+
+export default router;
@@ -0,0 +1,91 @@
+// Olive Baby API - Admin Vaccine Calendar Routes
+import { Router } from 'express';
+import {
+  AdminVaccineCalendarController,
+  createVaccineCalendarSchema,
+  updateVaccineCalendarSchema,
+  publishVaccineCalendarSchema,
+  vaccineDefinitionSchema,
+  updateVaccineDefinitionSchema,
+  listVaccineCalendarsQuerySchema,
+  exportVaccineCalendarQuerySchema,
+  importVaccineCalendarSchema,
+} from '../controllers/admin-vaccine-calendar.controller';
+import { authMiddleware, requireAdmin } from '../middlewares/auth.middleware';
+import { validateBody, validateQuery } from '../middlewares/validation.middleware';
+
+const router = Router();
+
+// All routes require auth + admin role
+router.use(authMiddleware);
+router.use(requireAdmin);
+
+// GET /admin/vaccine-calendars - All calendars and versions
+router.get(
+  '/',
+  validateQuery(listVaccineCalendarsQuerySchema),
+  AdminVaccineCalendarController.list
+);
+
+// POST /admin/vaccine-calendars - Create calendar (version 1, draft)
+router.post(
+  '/',
+  validateBody(createVaccineCalendarSchema),
+  AdminVaccineCalendarController.create
+);
+
+// POST /admin/vaccine-calendars/import - Import JSON/CSV as a draft version
+router.post(
+  '/import',
+  validateBody(importVaccineCalendarSchema),
+  AdminVaccineCalendarController.importCalendar
+);
+
+// GET /admin/vaccine-calendars/:id - Calendar version with definitions
+router.get('/:id', AdminVaccineCalendarController.getById);
+
+// PATCH /admin/vaccine-calendars/:id - Update metadata
+router.patch(
+  '/:id',
+  validateBody(updateVaccineCalendarSchema),
+  AdminVaccineCalendarController.update
+);
+
+// DELETE /admin/vaccine-calendars/:id - Delete draft / archive published version
+router.delete('/:id', AdminVaccineCalendarController.remove);
+
+// GET /admin/vaccine-calendars/:id/export - Download as JSON or CSV
+router.get(
+  '/:id/export',
+  validateQuery(exportVaccineCalendarQuerySchema),
+  AdminVaccineCalendarController.exportCalendar
+);
+
+// POST /admin/vaccine-calendars/:id/versions - New draft version from this one
+router.post('/:id/versions', AdminVaccineCalendarController.createVersion);
+
+// POST /admin/vaccine-calendars/:id/publish - Publish draft and migrate babies
+router.post(
+  '/:id/publish',
+  validateBody(publishVaccineCalendarSchema),
+  AdminVaccineCalendarController.publish
+);
+
+// POST /admin/vaccine-calendars/:id/definitions - Add dose to draft
+router.post(
+  '/:id/definitions',
+  validateBody(vaccineDefinitionSchema),
+  AdminVaccineCalendarController.addDefinition
+);
+
+// PATCH /admin/vaccine-calendars/:id/definitions/:definitionId - Update dose
+router.patch(
+  '/:id/definitions/:definitionId',
+  validateBody(updateVaccineDefinitionSchema),
+  AdminVaccineCalendarController.updateDefinition
+);
+
+// DELETE /admin/vaccine-calendars/:id/definitions/:definitionId - Remove dose
+router.delete('/:id/definitions/:definitionId', AdminVaccineCalendarController.deleteDefinition);
+
+export default router;
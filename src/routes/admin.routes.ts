@@ -287,6 +287,7 @@ router.get('/journeys/metrics', AdminController.getJourneyMetrics);
 router.get('/journeys/templates', AdminController.getJourneyTemplates);
 router.post('/journeys/from-template', AdminController.createJourneyFromTemplate);
 router.get('/journeys/:id', AdminController.getJourney);
+router.get('/journeys/:id/metrics', AdminController.getJourneyStepMetrics);
 router.post('/journeys', AdminController.createJourney);
 router.patch('/journeys/:id', AdminController.updateJourney);
 router.delete('/journeys/:id', AdminController.deleteJourney);
@@ -1,19 +1,128 @@
 // Olive Baby API - Appointment Routes
 import { Router } from 'express';
+import rateLimit from 'express-rate-limit';
 import * as appointmentController from '../controllers/appointment.controller';
+import {
+  availabilityQuerySchema,
+  appointmentDurationSchema,
+  availableSlotsQuerySchema,
+  listBabyAppointmentsQuerySchema,
+  bookAppointmentSchema,
+  rescheduleAppointmentSchema,
+  cancelBookingSchema,
+  bookingPolicySchema,
+  updateAppointmentStatusSchema,
+} from '../controllers/appointment.controller';
 import { authenticate, requireProfessional } from '../middlewares/auth.middleware';
+import { validateBody, validateQuery } from '../middlewares/validation.middleware';
 
 const router = Router();
 
+// Links dos lembretes: públicos, limita tentativas de adivinhar tokens
+const linkRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 20,
+  message: {
+    success: false,
+    error: 'Muitas tentativas. Aguarde um momento e tente novamente.',
+  },
+});
+
+// GET/POST /api/v1/appointments/respond/:token - Confirmar/cancelar pelo link do lembrete (sem autenticação)
+router.get('/respond/:token', linkRateLimiter, appointmentController.previewAppointmentLink);
+router.post('/respond/:token', linkRateLimiter, appointmentController.applyAppointmentLink);
+
 router.get('/', authenticate, requireProfessional, appointmentController.listAppointments);
-router.get('/available-slots', authenticate, requireProfessional, appointmentController.getAvailableSlots);
+router.get(
+  '/available-slots',
+  authenticate,
+  requireProfessional,
+  validateQuery(availabilityQuerySchema),
+  appointmentController.getAvailableSlots
+);
 router.post('/', authenticate, requireProfessional, appointmentController.createAppointment);
 router.get('/schedule', authenticate, requireProfessional, appointmentController.getSchedule);
 router.post('/schedule', authenticate, requireProfessional, appointmentController.upsertSchedule);
 router.get('/exceptions', authenticate, requireProfessional, appointmentController.listExceptions);
 router.post('/exceptions', authenticate, requireProfessional, appointmentController.createException);
+router.get('/stats/no-shows', authenticate, requireProfessional, appointmentController.getNoShowStats);
+router.get('/type-durations', authenticate, requireProfessional, appointmentController.listAppointmentDurations);
+router.put(
+  '/type-durations',
+  authenticate,
+  requireProfessional,
+  validateBody(appointmentDurationSchema),
+  appointmentController.setAppointmentDuration
+);
+router.get('/booking-policy', authenticate, requireProfessional, appointmentController.getBookingPolicy);
+router.put(
+  '/booking-policy',
+  authenticate,
+  requireProfessional,
+  validateBody(bookingPolicySchema),
+  appointmentController.updateBookingPolicy
+);
 router.get('/:id', authenticate, requireProfessional, appointmentController.getAppointment);
-router.patch('/:id/status', authenticate, requireProfessional, appointmentController.updateAppointmentStatus);
-router.post('/:id/cancel', authenticate, requireProfessional, appointmentController.cancelAppointment);
+router.patch(
+  '/:id/status',
+  authenticate,
+  requireProfessional,
+  validateBody(updateAppointmentStatusSchema),
+  appointmentController.updateAppointmentStatus
+);
+router.post(
+  '/:id/cancel',
+  authenticate,
+  requireProfessional,
+  validateBody(cancelBookingSchema),
+  appointmentController.cancelAppointment
+);
+router.post('/:id/approve', authenticate, requireProfessional, appointmentController.approveAppointment);
+router.post(
+  '/:id/reject',
+  authenticate,
+  requireProfessional,
+  validateBody(cancelBookingSchema),
+  appointmentController.rejectAppointment
+);
 
 export default router;
+
+// For routes like /api/v1/babies/:babyId/appointments (agendamento pelos pais)
+export const babyAppointmentRouter = Router({ mergeParams: true });
+
+babyAppointmentRouter.use(authenticate);
+
+// GET /api/v1/babies/:babyId/appointments - Próximas consultas do bebê
+babyAppointmentRouter.get(
+  '/',
+  validateQuery(listBabyAppointmentsQuerySchema),
+  appointmentController.listBabyAppointments
+);
+
+// GET /api/v1/babies/:babyId/appointments/professionals - Profissionais vinculados e política de agendamento
+babyAppointmentRouter.get('/professionals', appointmentController.listBookableProfessionals);
+
+// GET /api/v1/babies/:babyId/appointments/available-slots - Horários livres de um profissional
+babyAppointmentRouter.get(
+  '/available-slots',
+  validateQuery(availableSlotsQuerySchema),
+  appointmentController.getBabyAvailableSlots
+);
+
+// POST /api/v1/babies/:babyId/appointments - Agenda ou solicita um horário
+babyAppointmentRouter.post('/', validateBody(bookAppointmentSchema), appointmentController.bookAppointment);
+
+// POST /api/v1/babies/:babyId/appointments/:appointmentId/reschedule - Remarca
+babyAppointmentRouter.post(
+  '/:appointmentId/reschedule',
+  validateBody(rescheduleAppointmentSchema),
+  appointmentController.rescheduleBabyAppointment
+);
+
+// POST /api/v1/babies/:babyId/appointments/:appointmentId/cancel - Cancela
+babyAppointmentRouter.post(
+  '/:appointmentId/cancel',
+  validateBody(cancelBookingSchema),
+  appointmentController.cancelBabyAppointment
+);
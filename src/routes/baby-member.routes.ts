@@ -1,7 +1,8 @@
 // Olive Baby API - Baby Member Routes
 import { Router } from 'express';
-import { BabyMemberController } from '../controllers/baby-member.controller';
+import { BabyMemberController, updateBabyMemberSchema } from '../controllers/baby-member.controller';
 import { authMiddleware } from '../middlewares/auth.middleware';
+import { validateBody } from '../middlewares/validation.middleware';
 
 const router = Router();
 
@@ -11,8 +12,15 @@ router.use(authMiddleware);
 // GET /babies/:babyId/members - Lista membros
 router.get('/babies/:babyId/members', BabyMemberController.listMembers);
 
-// PATCH /babies/:babyId/members/:memberId - Atualiza vínculo
-router.patch('/babies/:babyId/members/:memberId', BabyMemberController.updateMember);
+// GET /babies/:babyId/members/me/permissions - Permissões efetivas do usuário atual
+router.get('/babies/:babyId/members/me/permissions', BabyMemberController.getMyPermissions);
+
+// PATCH /babies/:babyId/members/:memberId - Atualiza papel, permissões e janela de acesso
+router.patch(
+  '/babies/:babyId/members/:memberId',
+  validateBody(updateBabyMemberSchema),
+  BabyMemberController.updateMember
+);
 
 // DELETE /babies/:babyId/members/:memberId - Revoga acesso
 router.delete('/babies/:babyId/members/:memberId', BabyMemberController.revokeMember);
@@ -0,0 +1,31 @@
+// Olive Baby API - Calendar Feed Routes
+import { Router } from 'express';
+import rateLimit from 'express-rate-limit';
+import { CalendarFeedController } from '../controllers/calendar-feed.controller';
+import { authMiddleware } from '../middlewares/auth.middleware';
+
+const router = Router();
+
+// Feed público: apps de calendário atualizam periodicamente, mas limita adivinhação de tokens
+const feedRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 30,
+  message: {
+    success: false,
+    error: 'Muitas requisições. Aguarde um momento e tente novamente.',
+  },
+});
+
+// GET /api/v1/calendar-feeds/:token.ics - Feed iCal pela URL secreta (sem autenticação)
+router.get('/:token.ics', feedRateLimiter, CalendarFeedController.download);
+
+// GET /api/v1/calendar-feeds/:kind - Situação do feed (professional | family)
+router.get('/:kind(professional|family)', authMiddleware, CalendarFeedController.getStatus);
+
+// POST /api/v1/calendar-feeds/:kind/rotate - Gera nova URL secreta (invalida a anterior)
+router.post('/:kind(professional|family)/rotate', authMiddleware, CalendarFeedController.rotate);
+
+// DELETE /api/v1/calendar-feeds/:kind - Desativa o feed
+router.delete('/:kind(professional|family)', authMiddleware, CalendarFeedController.disable);
+
+export default router;
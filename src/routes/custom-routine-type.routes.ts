@@ -0,0 +1,41 @@
+// Olive Baby API - Custom Routine Type Routes (baby-scoped)
+import { Router } from 'express';
+import {
+  CustomRoutineTypeController,
+  createCustomRoutineTypeSchema,
+  updateCustomRoutineTypeSchema,
+} from '../controllers/custom-routine-type.controller';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { validateBody } from '../middlewares/validation.middleware';
+import { requirePermission } from '../middlewares/permission.middleware';
+
+// For routes like /api/v1/babies/:babyId/routine-types
+export const babyCustomRoutineTypeRouter = Router({ mergeParams: true });
+
+babyCustomRoutineTypeRouter.use(authMiddleware);
+
+// GET /api/v1/babies/:babyId/routine-types - Lista tipos personalizados (?includeInactive=true)
+babyCustomRoutineTypeRouter.get('/', CustomRoutineTypeController.list);
+
+// POST /api/v1/babies/:babyId/routine-types - Cria tipo personalizado
+babyCustomRoutineTypeRouter.post(
+  '/',
+  requirePermission('canEditRoutines', 'routines:write'),
+  validateBody(createCustomRoutineTypeSchema),
+  CustomRoutineTypeController.create
+);
+
+// PATCH /api/v1/babies/:babyId/routine-types/:id - Atualiza tipo personalizado
+babyCustomRoutineTypeRouter.patch(
+  '/:id',
+  requirePermission('canEditRoutines', 'routines:write'),
+  validateBody(updateCustomRoutineTypeSchema),
+  CustomRoutineTypeController.update
+);
+
+// DELETE /api/v1/babies/:babyId/routine-types/:id - Arquiva tipo (registros são mantidos)
+babyCustomRoutineTypeRouter.delete(
+  '/:id',
+  requirePermission('canEditRoutines', 'routines:write'),
+  CustomRoutineTypeController.archive
+);
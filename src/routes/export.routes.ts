@@ -3,12 +3,13 @@ import { Router } from 'express';
 import { 
   ExportController, 
   exportRoutinesQuerySchema,
-  exportGrowthQuerySchema
+  exportGrowthQuerySchema,
+  exportPdfQuerySchema
 } from '../controllers/export.controller';
 import { authMiddleware } from '../middlewares/auth.middleware';
 import { validateQuery } from '../middlewares/validation.middleware';
 import { requirePermission } from '../middlewares/permission.middleware';
-import { requireExportAllowed } from '../middlewares/entitlements.middleware';
+import { requireExportAllowed, requirePdfExportAllowed } from '../middlewares/entitlements.middleware';
 
 const router = Router();
 
@@ -19,7 +20,7 @@ router.use(authMiddleware);
 // Verifica: permissão de role E feature do plano (exportCsv/exportPdf)
 router.get(
   '/:babyId/routines',
-  requirePermission('canExportData'),
+  requirePermission('canExportData', 'exports'),
   requireExportAllowed(),
   validateQuery(exportRoutinesQuerySchema),
   ExportController.exportRoutines
@@ -28,7 +29,7 @@ router.get(
 // GET /api/v1/export/:babyId/growth - Exportar crescimento em CSV
 router.get(
   '/:babyId/growth',
-  requirePermission('canExportData'),
+  requirePermission('canExportData', 'exports'),
   requireExportAllowed(),
   validateQuery(exportGrowthQuerySchema),
   ExportController.exportGrowth
@@ -37,7 +38,7 @@ router.get(
 // GET /api/v1/export/:babyId/milestones - Exportar marcos em CSV
 router.get(
   '/:babyId/milestones',
-  requirePermission('canExportData'),
+  requirePermission('canExportData', 'exports'),
   requireExportAllowed(),
   ExportController.exportMilestones
 );
@@ -45,10 +46,20 @@ router.get(
 // GET /api/v1/export/:babyId/full - Exportar relatório completo em CSV
 router.get(
   '/:babyId/full',
-  requirePermission('canExportData'),
+  requirePermission('canExportData', 'exports'),
   requireExportAllowed(),
   validateQuery(exportGrowthQuerySchema),
   ExportController.exportFullReport
 );
 
+// GET /api/v1/export/:babyId/full/pdf - Relatório completo em PDF (para consulta pediátrica)
+// Verifica: feature exportPdf E limite mensal de exportações do plano
+router.get(
+  '/:babyId/full/pdf',
+  requirePermission('canExportData', 'exports'),
+  requirePdfExportAllowed(),
+  validateQuery(exportPdfQuerySchema),
+  ExportController.exportFullReportPdf
+);
+
 export default router;
@@ -19,7 +19,7 @@ router.use(authMiddleware);
 // POST /api/v1/growth - Adiciona medição
 router.post(
   '/', 
-  requirePermission('canRegisterRoutines'),
+  requirePermission('canRegisterRoutines', 'growth:write'),
   validateBody(createGrowthSchema), 
   GrowthController.create
 );
@@ -27,7 +27,7 @@ router.post(
 // GET /api/v1/growth/:babyId - Lista medições do bebê
 router.get(
   '/:babyId',
-  requirePermission('canViewStats'),
+  requirePermission('canViewStats', 'growth:read'),
   validateQuery(listGrowthQuerySchema),
   GrowthController.list
 );
@@ -35,17 +35,24 @@ router.get(
 // GET /api/v1/growth/:babyId/latest - Última medição do bebê
 router.get(
   '/:babyId/latest',
-  requirePermission('canViewStats'),
+  requirePermission('canViewStats', 'growth:read'),
   GrowthController.getLatest
 );
 
 // GET /api/v1/growth/:babyId/stats - Estatísticas de crescimento
 router.get(
   '/:babyId/stats',
-  requirePermission('canViewStats'),
+  requirePermission('canViewStats', 'growth:read'),
   GrowthController.getStats
 );
 
+// GET /api/v1/growth/:babyId/percentiles - Percentis e z-scores (OMS)
+router.get(
+  '/:babyId/percentiles',
+  requirePermission('canViewStats', 'growth:read'),
+  GrowthController.getPercentiles
+);
+
 // GET /api/v1/growth/record/:id - Detalhes de uma medição
 router.get(
   '/record/:id',
@@ -55,7 +62,7 @@ router.get(
 // PUT /api/v1/growth/:id - Atualiza medição
 router.put(
   '/:id', 
-  requirePermission('canEditRoutines'),
+  requirePermission('canEditRoutines', 'growth:write'),
   validateBody(updateGrowthSchema), 
   GrowthController.update
 );
@@ -63,7 +70,7 @@ router.put(
 // DELETE /api/v1/growth/:id - Remove medição
 router.delete(
   '/:id', 
-  requirePermission('canDeleteRoutines'),
+  requirePermission('canDeleteRoutines', 'growth:write'),
   GrowthController.delete
 );
 
@@ -80,7 +87,7 @@ babyGrowthRouter.use(authMiddleware);
 // GET /api/v1/babies/:babyId/growth - Lista medições do bebê
 babyGrowthRouter.get(
   '/',
-  requirePermission('canViewStats'),
+  requirePermission('canViewStats', 'growth:read'),
   validateQuery(listGrowthQuerySchema),
   GrowthController.list
 );
@@ -88,21 +95,28 @@ babyGrowthRouter.get(
 // GET /api/v1/babies/:babyId/growth/latest - Última medição
 babyGrowthRouter.get(
   '/latest',
-  requirePermission('canViewStats'),
+  requirePermission('canViewStats', 'growth:read'),
   GrowthController.getLatest
 );
 
 // GET /api/v1/babies/:babyId/growth/stats - Estatísticas
 babyGrowthRouter.get(
   '/stats',
-  requirePermission('canViewStats'),
+  requirePermission('canViewStats', 'growth:read'),
   GrowthController.getStats
 );
 
+// GET /api/v1/babies/:babyId/growth/percentiles - Percentis e z-scores (OMS)
+babyGrowthRouter.get(
+  '/percentiles',
+  requirePermission('canViewStats', 'growth:read'),
+  GrowthController.getPercentiles
+);
+
 // POST /api/v1/babies/:babyId/growth - Adiciona medição
 babyGrowthRouter.post(
   '/',
-  requirePermission('canRegisterRoutines'),
+  requirePermission('canRegisterRoutines', 'growth:write'),
   validateBody(createGrowthNestedSchema),
   GrowthController.create
 );
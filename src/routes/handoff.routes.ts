@@ -0,0 +1,28 @@
+// Olive Baby API - Shift Handoff Routes (baby-scoped)
+import { Router } from 'express';
+import {
+  HandoffController,
+  handoffQuerySchema,
+  sendHandoffSchema,
+} from '../controllers/handoff.controller';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { validateBody, validateQuery } from '../middlewares/validation.middleware';
+
+// For routes like /api/v1/babies/:babyId/handoff
+export const babyHandoffRouter = Router({ mergeParams: true });
+
+babyHandoffRouter.use(authMiddleware);
+
+// GET /api/v1/babies/:babyId/handoff - Resumo desde `since` ou desde o último registro de quem pede
+babyHandoffRouter.get(
+  '/',
+  validateQuery(handoffQuerySchema),
+  HandoffController.getSummary
+);
+
+// POST /api/v1/babies/:babyId/handoff/send - Envia o resumo por push/e-mail aos outros membros
+babyHandoffRouter.post(
+  '/send',
+  validateBody(sendHandoffSchema),
+  HandoffController.sendDigest
+);
@@ -0,0 +1,54 @@
+// Olive Baby API - Import Routes (baby-scoped)
+import { Router } from 'express';
+import { ImportController, importPreviewSchema, importRunSchema } from '../controllers/import.controller';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { validateBody } from '../middlewares/validation.middleware';
+import { requirePermission } from '../middlewares/permission.middleware';
+
+// ========================================
+// Importação de histórico (CSV/JSON)
+// For routes like /api/v1/babies/:babyId/imports
+// ========================================
+export const babyImportRouter = Router({ mergeParams: true });
+
+babyImportRouter.use(authMiddleware);
+
+// GET /api/v1/babies/:babyId/imports/presets - Formatos conhecidos de outros apps
+babyImportRouter.get('/presets', ImportController.listPresets);
+
+// POST /api/v1/babies/:babyId/imports/preview - Colunas, mapeamento e primeiras linhas
+babyImportRouter.post(
+  '/preview',
+  requirePermission('canRegisterRoutines', 'routines:write'),
+  validateBody(importPreviewSchema),
+  ImportController.preview
+);
+
+// GET /api/v1/babies/:babyId/imports - Lotes importados
+babyImportRouter.get(
+  '/',
+  requirePermission('canRegisterRoutines', 'routines:write'),
+  ImportController.listBatches
+);
+
+// POST /api/v1/babies/:babyId/imports - Importa (ou simula, com dryRun)
+babyImportRouter.post(
+  '/',
+  requirePermission('canRegisterRoutines', 'routines:write'),
+  validateBody(importRunSchema),
+  ImportController.run
+);
+
+// GET /api/v1/babies/:babyId/imports/:batchId - Relatório do lote
+babyImportRouter.get(
+  '/:batchId',
+  requirePermission('canRegisterRoutines', 'routines:write'),
+  ImportController.getBatch
+);
+
+// POST /api/v1/babies/:babyId/imports/:batchId/rollback - Desfaz o lote inteiro
+babyImportRouter.post(
+  '/:batchId/rollback',
+  requirePermission('canDeleteRoutines', 'routines:write'),
+  ImportController.rollback
+);
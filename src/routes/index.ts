@@ -22,19 +22,29 @@ import onboardingRoutes from './onboarding.routes';
 import notificationRoutes from './notification.routes';
 import deviceTokenRoutes from './device-token.routes';
 import clinicRoutes from './clinic.routes';
-import appointmentRoutes from './appointment.routes';
+import appointmentRoutes, { babyAppointmentRouter } from './appointment.routes';
 import {
   babyClinicalVisitRouter,
 } from './clinical-visit.routes';
 import { babyPrescriptionRouter } from './prescription.routes';
 import { babyMedicalCertificateRouter } from './medical-certificate.routes';
 import { babyClinicalInfoRouter } from './baby-clinical-info.routes';
+import { babyCustomRoutineTypeRouter } from './custom-routine-type.routes';
+import { babyMedicationRouter, babyTemperatureRouter } from './medication.routes';
+import { babyActivityRouter, babyTrashRouter } from './activity.routes';
+import { babyImportRouter } from './import.routes';
+import { babyHandoffRouter } from './handoff.routes';
+import { babyStreamRouter } from './stream.routes';
+import vaccineCertificateRoutes, { babyVaccineCertificateRouter } from './vaccine-certificate.routes';
 import patientInviteRoutes from './patient-invite.routes';
+import calendarFeedRoutes from './calendar-feed.routes';
 import emailDataRoutes from './email-data.routes';
 import blogRoutes from './blog.routes';
 import adminBlogRoutes from './admin-blog.routes';
 import adminSocialRoutes from './admin-social.routes';
 import adminImageAgentRoutes from './admin-image-agent.routes';
+import adminJobsRoutes from './admin-jobs.routes';
+import adminVaccineCalendarRoutes from './admin-vaccine-calendar.routes';
 
 const router = Router();
 
@@ -55,6 +65,7 @@ router.use('/stats', statsRoutes);
 router.use('/growth', growthRoutes);
 router.use('/milestones', milestoneRoutes);
 router.use('/vaccines', vaccineRoutes);
+router.use('/vaccine-certificates', vaccineCertificateRoutes);
 router.use('/export', exportRoutes);
 router.use('/professionals', professionalRoutes);
 router.use('/monitoring', monitoringRoutes);
@@ -68,12 +79,15 @@ router.use('/notifications', notificationRoutes);
 router.use('/device-tokens', deviceTokenRoutes);
 router.use('/clinics', clinicRoutes);
 router.use('/appointments', appointmentRoutes);
+router.use('/calendar-feeds', calendarFeedRoutes);
 router.use('/patient-invites', patientInviteRoutes);
 router.use('/email-data', emailDataRoutes);
 router.use('/blog', blogRoutes);
 router.use('/admin/blog', adminBlogRoutes);
 router.use('/admin/social', adminSocialRoutes);
 router.use('/admin/image-agent', adminImageAgentRoutes);
+router.use('/admin/jobs', adminJobsRoutes);
+router.use('/admin/vaccine-calendars', adminVaccineCalendarRoutes);
 
 // IMPORTANTE: Rotas públicas de convite DEVEM vir ANTES de rotas com authMiddleware global
 // Isso garante que /invites/verify-token seja acessível sem autenticação
@@ -89,6 +103,16 @@ router.use('/babies/:babyId/certificates', babyMedicalCertificateRouter);
 router.use('/babies/:babyId/growth', babyGrowthRouter);
 router.use('/babies/:babyId/milestones', babyMilestoneRouter);
 router.use('/babies/:babyId/vaccines', babyVaccineRouter);
+router.use('/babies/:babyId/routine-types', babyCustomRoutineTypeRouter);
+router.use('/babies/:babyId/medications', babyMedicationRouter);
+router.use('/babies/:babyId/temperatures', babyTemperatureRouter);
+router.use('/babies/:babyId/activity', babyActivityRouter);
+router.use('/babies/:babyId/trash', babyTrashRouter);
+router.use('/babies/:babyId/imports', babyImportRouter);
+router.use('/babies/:babyId/handoff', babyHandoffRouter);
+router.use('/babies/:babyId/stream', babyStreamRouter);
+router.use('/babies/:babyId/vaccine-certificates', babyVaccineCertificateRouter);
+router.use('/babies/:babyId/appointments', babyAppointmentRouter);
 router.use('/', babyMemberRoutes); // Rotas: /babies/:babyId/members
 
 // Rotas genéricas de babies (deve vir por último para não capturar rotas específicas)
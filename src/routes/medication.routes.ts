@@ -0,0 +1,80 @@
+// Olive Baby API - Medication & Fever Log Routes (baby-scoped)
+import { Router } from 'express';
+import {
+  MedicationController,
+  recordDoseSchema,
+  recordTemperatureSchema,
+  listMedicationQuerySchema,
+} from '../controllers/medication.controller';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { validateBody, validateQuery } from '../middlewares/validation.middleware';
+import { requirePermission } from '../middlewares/permission.middleware';
+
+// ========================================
+// Medicamentos
+// For routes like /api/v1/babies/:babyId/medications
+// ========================================
+export const babyMedicationRouter = Router({ mergeParams: true });
+
+babyMedicationRouter.use(authMiddleware);
+
+// GET /api/v1/babies/:babyId/medications - Lista doses registradas
+babyMedicationRouter.get(
+  '/',
+  requirePermission('canViewStats', 'clinical:read'),
+  validateQuery(listMedicationQuerySchema),
+  MedicationController.listDoses
+);
+
+// GET /api/v1/babies/:babyId/medications/status - Doses nas últimas 24h, próxima dose e febre
+babyMedicationRouter.get(
+  '/status',
+  requirePermission('canViewStats', 'clinical:read'),
+  MedicationController.getStatus
+);
+
+// POST /api/v1/babies/:babyId/medications - Registra dose
+babyMedicationRouter.post(
+  '/',
+  requirePermission('canRegisterRoutines', 'clinical:write'),
+  validateBody(recordDoseSchema),
+  MedicationController.recordDose
+);
+
+// DELETE /api/v1/babies/:babyId/medications/:id - Remove dose
+babyMedicationRouter.delete(
+  '/:id',
+  requirePermission('canDeleteRoutines', 'clinical:write'),
+  MedicationController.deleteDose
+);
+
+// ========================================
+// Temperatura
+// For routes like /api/v1/babies/:babyId/temperatures
+// ========================================
+export const babyTemperatureRouter = Router({ mergeParams: true });
+
+babyTemperatureRouter.use(authMiddleware);
+
+// GET /api/v1/babies/:babyId/temperatures - Lista medições
+babyTemperatureRouter.get(
+  '/',
+  requirePermission('canViewStats', 'clinical:read'),
+  validateQuery(listMedicationQuerySchema),
+  MedicationController.listTemperatures
+);
+
+// POST /api/v1/babies/:babyId/temperatures - Registra medição
+babyTemperatureRouter.post(
+  '/',
+  requirePermission('canRegisterRoutines', 'clinical:write'),
+  validateBody(recordTemperatureSchema),
+  MedicationController.recordTemperature
+);
+
+// DELETE /api/v1/babies/:babyId/temperatures/:id - Remove medição
+babyTemperatureRouter.delete(
+  '/:id',
+  requirePermission('canDeleteRoutines', 'clinical:write'),
+  MedicationController.deleteTemperature
+);
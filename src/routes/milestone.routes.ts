@@ -23,7 +23,7 @@ router.use(authMiddleware);
 // POST /api/v1/milestones - Adiciona marco
 router.post(
   '/', 
-  requirePermission('canRegisterRoutines'),
+  requirePermission('canRegisterRoutines', 'growth:write'),
   validateBody(createMilestoneSchema), 
   MilestoneController.create
 );
@@ -31,7 +31,7 @@ router.post(
 // POST /api/v1/milestones/mark - Marca marco como alcançado
 router.post(
   '/mark',
-  requirePermission('canRegisterRoutines'),
+  requirePermission('canRegisterRoutines', 'growth:write'),
   validateBody(markMilestoneSchema),
   MilestoneController.mark
 );
@@ -39,7 +39,7 @@ router.post(
 // POST /api/v1/milestones/unmark - Desmarca marco
 router.post(
   '/unmark',
-  requirePermission('canDeleteRoutines'),
+  requirePermission('canDeleteRoutines', 'growth:write'),
   validateBody(unmarkMilestoneSchema),
   MilestoneController.unmark
 );
@@ -47,14 +47,14 @@ router.post(
 // GET /api/v1/milestones/:babyId - Lista marcos do bebê
 router.get(
   '/:babyId',
-  requirePermission('canViewStats'),
+  requirePermission('canViewStats', 'growth:read'),
   MilestoneController.list
 );
 
 // GET /api/v1/milestones/:babyId/progress - Progresso de marcos
 router.get(
   '/:babyId/progress',
-  requirePermission('canViewStats'),
+  requirePermission('canViewStats', 'growth:read'),
   MilestoneController.getProgress
 );
 
@@ -67,7 +67,7 @@ router.get(
 // PUT /api/v1/milestones/:id - Atualiza marco
 router.put(
   '/:id', 
-  requirePermission('canEditRoutines'),
+  requirePermission('canEditRoutines', 'growth:write'),
   validateBody(updateMilestoneSchema), 
   MilestoneController.update
 );
@@ -75,7 +75,7 @@ router.put(
 // DELETE /api/v1/milestones/:id - Remove marco
 router.delete(
   '/:id', 
-  requirePermission('canDeleteRoutines'),
+  requirePermission('canDeleteRoutines', 'growth:write'),
   MilestoneController.delete
 );
 
@@ -92,21 +92,21 @@ babyMilestoneRouter.use(authMiddleware);
 // GET /api/v1/babies/:babyId/milestones - Lista marcos do bebê
 babyMilestoneRouter.get(
   '/',
-  requirePermission('canViewStats'),
+  requirePermission('canViewStats', 'growth:read'),
   MilestoneController.list
 );
 
 // GET /api/v1/babies/:babyId/milestones/progress - Progresso
 babyMilestoneRouter.get(
   '/progress',
-  requirePermission('canViewStats'),
+  requirePermission('canViewStats', 'growth:read'),
   MilestoneController.getProgress
 );
 
 // POST /api/v1/babies/:babyId/milestones - Adiciona marco
 babyMilestoneRouter.post(
   '/',
-  requirePermission('canRegisterRoutines'),
+  requirePermission('canRegisterRoutines', 'growth:write'),
   validateBody(createMilestoneNestedSchema),
   MilestoneController.create
 );
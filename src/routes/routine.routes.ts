@@ -7,7 +7,9 @@ import {
   startRoutineSchema,
   closeRoutineSchema,
   instantRoutineSchema,
-  listRoutinesQuerySchema 
+  listRoutinesQuerySchema,
+  syncPushSchema,
+  syncPullQuerySchema
 } from '../controllers/routine.controller';
 import { authMiddleware } from '../middlewares/auth.middleware';
 import { validateBody, validateQuery } from '../middlewares/validation.middleware';
@@ -31,17 +33,34 @@ router.get('/open', RoutineController.getOpenRoutine);
 // Otimização: 1 request ao invés de 4 paralelas
 router.get('/open-all', RoutineController.getAllOpenRoutines);
 
+// ==========================================
+// Sincronização Offline
+// ==========================================
+
+// POST /api/v1/routines/sync - Aplica lote de criações/edições/exclusões feitas offline
+// Idempotente por clientId; conflitos são retornados por operação
+router.post(
+  '/sync',
+  requirePermission('canRegisterRoutines', 'routines:write'),
+  validateBody(syncPushSchema),
+  RoutineController.syncPush
+);
+
+// GET /api/v1/routines/sync/changes - Tudo que mudou desde o cursor
+// Query params: cursor (opcional), babyId (opcional), limit
+router.get('/sync/changes', validateQuery(syncPullQuerySchema), RoutineController.syncPull);
+
 // ==========================================
 // CRUD Básico
 // ==========================================
 
-// GET /api/v1/routines - Lista rotinas (com query params)
+// GET /api/v1/routines - Lista rotinas dos bebês com routines:read (com query params)
 router.get('/', validateQuery(listRoutinesQuerySchema), RoutineController.list);
 
 // POST /api/v1/routines - Cria rotina
 router.post(
   '/', 
-  requirePermission('canRegisterRoutines'),
+  requirePermission('canRegisterRoutines', 'routines:write'),
   validateBody(createRoutineSchema), 
   RoutineController.create
 );
@@ -58,7 +77,7 @@ router.get('/:babyId', RoutineController.listByBaby);
 // PUT /api/v1/routines/log/:id - Atualiza rotina
 router.put(
   '/log/:id', 
-  requirePermission('canEditRoutines'),
+  requirePermission('canEditRoutines', 'routines:write'),
   validateBody(updateRoutineSchema), 
   RoutineController.update
 );
@@ -66,7 +85,7 @@ router.put(
 // PATCH /api/v1/routines/log/:id - Atualiza rotina (alias)
 router.patch(
   '/log/:id', 
-  requirePermission('canEditRoutines'),
+  requirePermission('canEditRoutines', 'routines:write'),
   validateBody(updateRoutineSchema), 
   RoutineController.update
 );
@@ -74,7 +93,7 @@ router.patch(
 // DELETE /api/v1/routines/log/:id - Remove rotina
 router.delete(
   '/log/:id', 
-  requirePermission('canDeleteRoutines'),
+  requirePermission('canDeleteRoutines', 'routines:write'),
   RoutineController.delete
 );
 
@@ -85,7 +104,7 @@ router.delete(
 // POST /api/v1/routines/sleep/start - Inicia sono
 router.post(
   '/sleep/start', 
-  requirePermission('canRegisterRoutines'),
+  requirePermission('canRegisterRoutines', 'routines:write'),
   validateBody(startRoutineSchema), 
   RoutineController.startSleep
 );
@@ -93,7 +112,7 @@ router.post(
 // POST /api/v1/routines/sleep/close - Finaliza sono
 router.post(
   '/sleep/close', 
-  requirePermission('canRegisterRoutines'),
+  requirePermission('canRegisterRoutines', 'routines:write'),
   validateBody(closeRoutineSchema), 
   RoutineController.closeSleep
 );
@@ -108,7 +127,7 @@ router.get('/sleep/open', RoutineController.getOpenSleep);
 // POST /api/v1/routines/feeding/start - Inicia alimentação
 router.post(
   '/feeding/start', 
-  requirePermission('canRegisterRoutines'),
+  requirePermission('canRegisterRoutines', 'routines:write'),
   validateBody(startRoutineSchema), 
   RoutineController.startFeeding
 );
@@ -116,7 +135,7 @@ router.post(
 // POST /api/v1/routines/feeding/close - Finaliza alimentação
 router.post(
   '/feeding/close', 
-  requirePermission('canRegisterRoutines'),
+  requirePermission('canRegisterRoutines', 'routines:write'),
   validateBody(closeRoutineSchema), 
   RoutineController.closeFeeding
 );
@@ -131,7 +150,7 @@ router.get('/feeding/open', RoutineController.getOpenFeeding);
 // POST /api/v1/routines/bath/start - Inicia banho
 router.post(
   '/bath/start', 
-  requirePermission('canRegisterRoutines'),
+  requirePermission('canRegisterRoutines', 'routines:write'),
   validateBody(startRoutineSchema), 
   RoutineController.startBath
 );
@@ -139,7 +158,7 @@ router.post(
 // POST /api/v1/routines/bath/close - Finaliza banho
 router.post(
   '/bath/close', 
-  requirePermission('canRegisterRoutines'),
+  requirePermission('canRegisterRoutines', 'routines:write'),
   validateBody(closeRoutineSchema), 
   RoutineController.closeBath
 );
@@ -154,7 +173,7 @@ router.get('/bath/open', RoutineController.getOpenBath);
 // POST /api/v1/routines/diaper - Registra fralda
 router.post(
   '/diaper', 
-  requirePermission('canRegisterRoutines'),
+  requirePermission('canRegisterRoutines', 'routines:write'),
   validateBody(instantRoutineSchema), 
   RoutineController.registerDiaper
 );
@@ -166,7 +185,7 @@ router.post(
 // POST /api/v1/routines/extraction/start - Inicia extração
 router.post(
   '/extraction/start', 
-  requirePermission('canRegisterRoutines'),
+  requirePermission('canRegisterRoutines', 'routines:write'),
   validateBody(startRoutineSchema), 
   RoutineController.startExtraction
 );
@@ -174,7 +193,7 @@ router.post(
 // POST /api/v1/routines/extraction/close - Finaliza extração
 router.post(
   '/extraction/close', 
-  requirePermission('canRegisterRoutines'),
+  requirePermission('canRegisterRoutines', 'routines:write'),
   validateBody(closeRoutineSchema), 
   RoutineController.closeExtraction
 );
@@ -185,11 +204,43 @@ router.get('/extraction/open', RoutineController.getOpenExtraction);
 // POST /api/v1/routines/extraction - Registra extração instantânea (compatibilidade)
 router.post(
   '/extraction', 
-  requirePermission('canRegisterRoutines'),
+  requirePermission('canRegisterRoutines', 'routines:write'),
   validateBody(instantRoutineSchema), 
   RoutineController.registerExtraction
 );
 
+// ==========================================
+// Rotinas Personalizadas (CUSTOM)
+// Tipos cadastrados em /api/v1/babies/:babyId/routine-types
+// ==========================================
+
+// POST /api/v1/routines/custom/:customTypeId/start - Inicia rotina personalizada com timer
+router.post(
+  '/custom/:customTypeId/start', 
+  requirePermission('canRegisterRoutines', 'routines:write'),
+  validateBody(startRoutineSchema), 
+  RoutineController.startCustom
+);
+
+// POST /api/v1/routines/custom/:customTypeId/close - Finaliza rotina personalizada com timer
+router.post(
+  '/custom/:customTypeId/close', 
+  requirePermission('canRegisterRoutines', 'routines:write'),
+  validateBody(closeRoutineSchema), 
+  RoutineController.closeCustom
+);
+
+// GET /api/v1/routines/custom/:customTypeId/open - Verifica rotina personalizada em aberto
+router.get('/custom/:customTypeId/open', RoutineController.getOpenCustom);
+
+// POST /api/v1/routines/custom/:customTypeId - Registra rotina personalizada instantânea
+router.post(
+  '/custom/:customTypeId', 
+  requirePermission('canRegisterRoutines', 'routines:write'),
+  validateBody(instantRoutineSchema), 
+  RoutineController.registerCustom
+);
+
 // ==========================================
 // Rotas de Compatibilidade (Active/:babyId)
 // ==========================================
@@ -1,6 +1,11 @@
 // Olive Baby API - Stats Routes
 import { Router } from 'express';
-import { StatsController, statsQuerySchema } from '../controllers/stats.controller';
+import {
+  StatsController,
+  statsQuerySchema,
+  sleepAnalyticsQuerySchema,
+  lactationReportQuerySchema,
+} from '../controllers/stats.controller';
 import { authMiddleware } from '../middlewares/auth.middleware';
 import { validateQuery } from '../middlewares/validation.middleware';
 import { requirePermission } from '../middlewares/permission.middleware';
@@ -13,7 +18,7 @@ router.use(authMiddleware);
 // GET /api/v1/stats/:babyId - Estatísticas do bebê
 router.get(
   '/:babyId', 
-  requirePermission('canViewStats'),
+  requirePermission('canViewStats', 'routines:read'),
   validateQuery(statsQuerySchema), 
   StatsController.getStats
 );
@@ -21,15 +26,38 @@ router.get(
 // GET /api/v1/stats/:babyId/history - Histórico para gráficos
 router.get(
   '/:babyId/history', 
-  requirePermission('canViewStats'),
+  requirePermission('canViewStats', 'routines:read'),
   StatsController.getHistory
 );
 
 // GET /api/v1/stats/:babyId/volume-by-type - Volumetria por tipo de leite
 router.get(
   '/:babyId/volume-by-type', 
-  requirePermission('canViewStats'),
+  requirePermission('canViewStats', 'routines:read'),
   StatsController.getVolumeByType
 );
 
+// GET /api/v1/stats/:babyId/sleep - Sonecas x noite, janelas de vigília e tendências
+router.get(
+  '/:babyId/sleep',
+  requirePermission('canViewStats', 'routines:read'),
+  validateQuery(sleepAnalyticsQuerySchema),
+  StatsController.getSleepAnalytics
+);
+
+// GET /api/v1/stats/:babyId/lactation - Lados, duração das mamadas, cluster feeding e produção de leite
+router.get(
+  '/:babyId/lactation',
+  requirePermission('canViewStats', 'routines:read'),
+  validateQuery(lactationReportQuerySchema),
+  StatsController.getLactationReport
+);
+
+// GET /api/v1/stats/:babyId/forecast - Previsão da próxima mamada e do próximo sono
+router.get(
+  '/:babyId/forecast',
+  requirePermission('canViewStats', 'routines:read'),
+  StatsController.getForecast
+);
+
 export default router;
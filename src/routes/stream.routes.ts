@@ -0,0 +1,12 @@
+// Olive Baby API - Realtime Stream Routes (baby-scoped)
+import { Router } from 'express';
+import { StreamController } from '../controllers/stream.controller';
+import { streamAuthMiddleware } from '../middlewares/auth.middleware';
+
+// For routes like /api/v1/babies/:babyId/stream
+export const babyStreamRouter = Router({ mergeParams: true });
+
+babyStreamRouter.use(streamAuthMiddleware);
+
+// GET /api/v1/babies/:babyId/stream - SSE com rotinas, crescimento, marcos e vacinas em tempo real
+babyStreamRouter.get('/', StreamController.streamBaby);
@@ -0,0 +1,52 @@
+// Olive Baby API - Vaccine Certificate Routes
+import { Router } from 'express';
+import rateLimit from 'express-rate-limit';
+import {
+  VaccineCertificateController,
+  revokeCertificateSchema,
+} from '../controllers/vaccine-certificate.controller';
+import { authMiddleware } from '../middlewares/auth.middleware';
+import { validateBody } from '../middlewares/validation.middleware';
+import { requireFeature } from '../middlewares/entitlements.middleware';
+
+const router = Router();
+
+// Verificação pública: limita tentativas de adivinhar códigos
+const verifyRateLimiter = rateLimit({
+  windowMs: 60 * 1000, // 1 minute
+  max: 30,
+  message: {
+    success: false,
+    error: 'Muitas verificações. Aguarde um momento e tente novamente.',
+  },
+});
+
+// GET /api/v1/vaccine-certificates/verify/:code - Verificação pública do QR (sem autenticação)
+router.get('/verify/:code', verifyRateLimiter, VaccineCertificateController.verify);
+
+export default router;
+
+// For routes like /api/v1/babies/:babyId/vaccine-certificates
+export const babyVaccineCertificateRouter = Router({ mergeParams: true });
+
+babyVaccineCertificateRouter.use(authMiddleware);
+babyVaccineCertificateRouter.use(requireFeature('vaccines'));
+
+// GET /api/v1/babies/:babyId/vaccine-certificates - Lista certificados
+babyVaccineCertificateRouter.get('/', VaccineCertificateController.list);
+
+// POST /api/v1/babies/:babyId/vaccine-certificates - Emite certificado
+babyVaccineCertificateRouter.post('/', VaccineCertificateController.issue);
+
+// GET /api/v1/babies/:babyId/vaccine-certificates/:certificateId/pdf - Download em PDF
+babyVaccineCertificateRouter.get('/:certificateId/pdf', VaccineCertificateController.downloadPdf);
+
+// POST /api/v1/babies/:babyId/vaccine-certificates/:certificateId/revoke - Revoga
+babyVaccineCertificateRouter.post(
+  '/:certificateId/revoke',
+  validateBody(revokeCertificateSchema),
+  VaccineCertificateController.revoke
+);
+
+// POST /api/v1/babies/:babyId/vaccine-certificates/:certificateId/regenerate - Revoga e emite outro
+babyVaccineCertificateRouter.post('/:certificateId/regenerate', VaccineCertificateController.regenerate);
@@ -7,6 +7,7 @@ import {
   updateRecordSchema,
   markAsAppliedSchema,
   markAsSkippedSchema,
+  selectCalendarSchema,
 } from '../controllers/vaccine.controller';
 import { authMiddleware } from '../middlewares/auth.middleware';
 import { validateBody } from '../middlewares/validation.middleware';
@@ -51,29 +52,37 @@ babyVaccineRouter.use(requireFeature('vaccines'));
 // GET /api/v1/babies/:babyId/vaccines/summary - Resumo das vacinas
 babyVaccineRouter.get(
   '/summary',
-  requirePermission('canViewStats'),
+  requirePermission('canViewStats', 'vaccines:read'),
   VaccineController.getSummary
 );
 
 // GET /api/v1/babies/:babyId/vaccines/timeline - Timeline completa
 babyVaccineRouter.get(
   '/timeline',
-  requirePermission('canViewStats'),
+  requirePermission('canViewStats', 'vaccines:read'),
   VaccineController.getTimeline
 );
 
 // POST /api/v1/babies/:babyId/vaccines/sync - Sincroniza vacinas do calendário
 babyVaccineRouter.post(
   '/sync',
-  requirePermission('canRegisterRoutines'),
+  requirePermission('canRegisterRoutines', 'vaccines:write'),
   validateBody(syncVaccinesSchema),
   VaccineController.syncVaccines
 );
 
+// PUT /api/v1/babies/:babyId/vaccines/calendar - Troca o calendário do bebê
+babyVaccineRouter.put(
+  '/calendar',
+  requirePermission('canRegisterRoutines', 'vaccines:write'),
+  validateBody(selectCalendarSchema),
+  VaccineController.selectCalendar
+);
+
 // POST /api/v1/babies/:babyId/vaccines/record - Cria registro manual
 babyVaccineRouter.post(
   '/record',
-  requirePermission('canRegisterRoutines'),
+  requirePermission('canRegisterRoutines', 'vaccines:write'),
   validateBody(createManualRecordSchema),
   VaccineController.createRecord
 );
@@ -81,14 +90,14 @@ babyVaccineRouter.post(
 // GET /api/v1/babies/:babyId/vaccines/record/:id - Detalhes de um registro
 babyVaccineRouter.get(
   '/record/:id',
-  requirePermission('canViewStats'),
+  requirePermission('canViewStats', 'vaccines:read'),
   VaccineController.getRecord
 );
 
 // PATCH /api/v1/babies/:babyId/vaccines/record/:id - Atualiza registro
 babyVaccineRouter.patch(
   '/record/:id',
-  requirePermission('canEditRoutines'),
+  requirePermission('canEditRoutines', 'vaccines:write'),
   validateBody(updateRecordSchema),
   VaccineController.updateRecord
 );
@@ -96,7 +105,7 @@ babyVaccineRouter.patch(
 // POST /api/v1/babies/:babyId/vaccines/record/:id/apply - Marca como aplicada
 babyVaccineRouter.post(
   '/record/:id/apply',
-  requirePermission('canRegisterRoutines'),
+  requirePermission('canRegisterRoutines', 'vaccines:write'),
   validateBody(markAsAppliedSchema),
   VaccineController.markAsApplied
 );
@@ -104,7 +113,7 @@ babyVaccineRouter.post(
 // POST /api/v1/babies/:babyId/vaccines/record/:id/skip - Marca como pulada
 babyVaccineRouter.post(
   '/record/:id/skip',
-  requirePermission('canEditRoutines'),
+  requirePermission('canEditRoutines', 'vaccines:write'),
   validateBody(markAsSkippedSchema),
   VaccineController.markAsSkipped
 );
@@ -112,13 +121,13 @@ babyVaccineRouter.post(
 // POST /api/v1/babies/:babyId/vaccines/record/:id/reset - Reseta para pendente
 babyVaccineRouter.post(
   '/record/:id/reset',
-  requirePermission('canEditRoutines'),
+  requirePermission('canEditRoutines', 'vaccines:write'),
   VaccineController.resetToPending
 );
 
 // DELETE /api/v1/babies/:babyId/vaccines/record/:id - Remove registro
 babyVaccineRouter.delete(
   '/record/:id',
-  requirePermission('canDeleteRoutines'),
+  requirePermission('canDeleteRoutines', 'vaccines:write'),
   VaccineController.deleteRecord
 );
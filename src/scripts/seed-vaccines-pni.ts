@@ -2,7 +2,7 @@
 // Referência: https://www.gov.br/saude/pt-br/vacinacao/calendario
 // Calendário Nacional de Vacinação - Criança (0 a 10 anos)
 
-import { PrismaClient, VaccineCalendarSource } from '@prisma/client';
+import { PrismaClient, VaccineCalendarSource, VaccineCalendarStatus } from '@prisma/client';
 
 const prisma = new PrismaClient();
 
@@ -15,6 +15,9 @@ interface VaccineDefinitionSeed {
   ageMonths: number;
   ageDays?: number;
   ageMaxMonths?: number;
+  minAgeDays?: number; // Idade mínima para a dose ser válida
+  maxAgeDays?: number; // Idade máxima para aplicar
+  minIntervalDays?: number; // Intervalo mínimo desde a dose anterior da mesma vacina
   notes?: string;
   isOptional: boolean;
   sortOrder: number;
@@ -31,6 +34,8 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseLabel: 'dose única',
     doseNumber: 1,
     ageMonths: 0,
+    minAgeDays: 0,
+    maxAgeDays: 1824,
     notes: 'Idealmente nas primeiras 12 horas de vida. Pode ser aplicada até 4 anos, 11 meses e 29 dias.',
     isOptional: false,
     sortOrder: 1,
@@ -42,6 +47,8 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseLabel: '1ª dose',
     doseNumber: 1,
     ageMonths: 0,
+    minAgeDays: 0,
+    maxAgeDays: 30,
     notes: 'Aplicar nas primeiras 24 horas de vida, preferencialmente nas primeiras 12 horas.',
     isOptional: false,
     sortOrder: 2,
@@ -55,6 +62,8 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseLabel: '1ª dose',
     doseNumber: 1,
     ageMonths: 2,
+    minAgeDays: 42,
+    maxAgeDays: 2554,
     notes: undefined,
     isOptional: false,
     sortOrder: 10,
@@ -66,6 +75,8 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseLabel: '1ª dose',
     doseNumber: 1,
     ageMonths: 2,
+    minAgeDays: 42,
+    maxAgeDays: 1824,
     notes: undefined,
     isOptional: false,
     sortOrder: 11,
@@ -77,6 +88,8 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseLabel: '1ª dose',
     doseNumber: 1,
     ageMonths: 2,
+    minAgeDays: 42,
+    maxAgeDays: 1824,
     notes: undefined,
     isOptional: false,
     sortOrder: 12,
@@ -88,6 +101,8 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseLabel: '1ª dose',
     doseNumber: 1,
     ageMonths: 2,
+    minAgeDays: 45,
+    maxAgeDays: 105,
     notes: 'Primeira dose: de 1 mês e 15 dias até 3 meses e 15 dias. Intervalo mínimo de 30 dias entre as doses.',
     isOptional: false,
     sortOrder: 13,
@@ -101,6 +116,8 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseLabel: '1ª dose',
     doseNumber: 1,
     ageMonths: 3,
+    minAgeDays: 42,
+    maxAgeDays: 1824,
     notes: undefined,
     isOptional: false,
     sortOrder: 20,
@@ -114,6 +131,8 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseLabel: '2ª dose',
     doseNumber: 2,
     ageMonths: 4,
+    maxAgeDays: 2554,
+    minIntervalDays: 30,
     notes: undefined,
     isOptional: false,
     sortOrder: 30,
@@ -125,6 +144,8 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseLabel: '2ª dose',
     doseNumber: 2,
     ageMonths: 4,
+    maxAgeDays: 1824,
+    minIntervalDays: 30,
     notes: undefined,
     isOptional: false,
     sortOrder: 31,
@@ -136,6 +157,8 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseLabel: '2ª dose',
     doseNumber: 2,
     ageMonths: 4,
+    maxAgeDays: 1824,
+    minIntervalDays: 30,
     notes: undefined,
     isOptional: false,
     sortOrder: 32,
@@ -147,6 +170,8 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseLabel: '2ª dose',
     doseNumber: 2,
     ageMonths: 4,
+    maxAgeDays: 239,
+    minIntervalDays: 30,
     notes: 'Segunda dose: de 3 meses e 15 dias até 7 meses e 29 dias. Não aplicar após essa idade.',
     isOptional: false,
     sortOrder: 33,
@@ -160,6 +185,8 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseLabel: '2ª dose',
     doseNumber: 2,
     ageMonths: 5,
+    maxAgeDays: 1824,
+    minIntervalDays: 30,
     notes: undefined,
     isOptional: false,
     sortOrder: 40,
@@ -173,6 +200,8 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseLabel: '3ª dose',
     doseNumber: 3,
     ageMonths: 6,
+    maxAgeDays: 2554,
+    minIntervalDays: 30,
     notes: undefined,
     isOptional: false,
     sortOrder: 50,
@@ -184,6 +213,8 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseLabel: '3ª dose',
     doseNumber: 3,
     ageMonths: 6,
+    maxAgeDays: 1824,
+    minIntervalDays: 30,
     notes: undefined,
     isOptional: false,
     sortOrder: 51,
@@ -195,6 +226,7 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseLabel: '1ª dose',
     doseNumber: 1,
     ageMonths: 6,
+    minAgeDays: 180,
     notes: 'Crianças de 6 meses a menores de 6 anos. Primovacinação: 2 doses com intervalo de 30 dias. Após: dose anual.',
     isOptional: false,
     sortOrder: 52,
@@ -206,6 +238,7 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseLabel: '1ª dose',
     doseNumber: 1,
     ageMonths: 6,
+    minAgeDays: 180,
     notes: 'A partir de 6 meses. Esquema pode variar conforme fabricante e disponibilidade.',
     isOptional: false,
     sortOrder: 53,
@@ -219,6 +252,7 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseLabel: '2ª dose',
     doseNumber: 2,
     ageMonths: 7,
+    minIntervalDays: 30,
     notes: 'Segunda dose para primovacinação. Intervalo mínimo de 30 dias da 1ª dose.',
     isOptional: false,
     sortOrder: 60,
@@ -230,6 +264,7 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseLabel: '2ª dose',
     doseNumber: 2,
     ageMonths: 7,
+    minIntervalDays: 28,
     notes: 'Intervalo conforme orientação do fabricante (geralmente 4-8 semanas).',
     isOptional: false,
     sortOrder: 61,
@@ -243,6 +278,7 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseLabel: '1ª dose',
     doseNumber: 1,
     ageMonths: 9,
+    minAgeDays: 180,
     notes: 'Uma dose aos 9 meses e uma dose de reforço aos 4 anos. Indicada para residentes ou viajantes para áreas com recomendação.',
     isOptional: false,
     sortOrder: 70,
@@ -254,6 +290,7 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseLabel: '3ª dose',
     doseNumber: 3,
     ageMonths: 9,
+    minIntervalDays: 56,
     notes: 'Dose de reforço conforme esquema do fabricante.',
     isOptional: true,
     sortOrder: 71,
@@ -267,6 +304,9 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseLabel: 'reforço',
     doseNumber: 3,
     ageMonths: 12,
+    minAgeDays: 365,
+    maxAgeDays: 1824,
+    minIntervalDays: 60,
     notes: undefined,
     isOptional: false,
     sortOrder: 80,
@@ -278,6 +318,7 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseLabel: '1ª dose',
     doseNumber: 1,
     ageMonths: 12,
+    minAgeDays: 365,
     notes: 'Substituiu a vacina Meningocócica C aos 12 meses.',
     isOptional: false,
     sortOrder: 81,
@@ -289,6 +330,7 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseLabel: '1ª dose',
     doseNumber: 1,
     ageMonths: 12,
+    minAgeDays: 365,
     notes: undefined,
     isOptional: false,
     sortOrder: 82,
@@ -302,6 +344,8 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseLabel: '1º reforço',
     doseNumber: 4,
     ageMonths: 15,
+    minAgeDays: 365,
+    maxAgeDays: 2554,
     notes: 'Primeiro reforço após esquema básico com Pentavalente.',
     isOptional: false,
     sortOrder: 90,
@@ -313,6 +357,9 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseLabel: '1º reforço',
     doseNumber: 4,
     ageMonths: 15,
+    minAgeDays: 365,
+    maxAgeDays: 1824,
+    minIntervalDays: 180,
     notes: undefined,
     isOptional: false,
     sortOrder: 91,
@@ -324,6 +371,8 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseLabel: 'dose única',
     doseNumber: 1,
     ageMonths: 15,
+    minAgeDays: 365,
+    maxAgeDays: 2554,
     notes: 'Corresponde à 2ª dose de Tríplice Viral + 1ª dose de Varicela.',
     isOptional: false,
     sortOrder: 92,
@@ -335,6 +384,8 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseLabel: 'dose única',
     doseNumber: 1,
     ageMonths: 15,
+    minAgeDays: 365,
+    maxAgeDays: 1824,
     notes: 'Dose única no calendário do PNI. Rede privada pode recomendar 2 doses.',
     isOptional: false,
     sortOrder: 93,
@@ -348,6 +399,9 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseLabel: '2º reforço',
     doseNumber: 5,
     ageMonths: 48,
+    minAgeDays: 1460,
+    maxAgeDays: 2554,
+    minIntervalDays: 180,
     notes: 'Segundo reforço. Pode usar dTpa (acelular) se disponível.',
     isOptional: false,
     sortOrder: 100,
@@ -359,6 +413,8 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseLabel: 'reforço',
     doseNumber: 2,
     ageMonths: 48,
+    minAgeDays: 1460,
+    minIntervalDays: 30,
     notes: 'Dose de reforço única aos 4 anos de idade.',
     isOptional: false,
     sortOrder: 101,
@@ -370,6 +426,8 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseLabel: '2ª dose',
     doseNumber: 2,
     ageMonths: 48,
+    minAgeDays: 1095,
+    maxAgeDays: 2554,
     notes: 'Segunda dose para crianças que não receberam Tetraviral aos 15 meses ou dose adicional.',
     isOptional: true,
     sortOrder: 102,
@@ -381,6 +439,8 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseLabel: '2º reforço',
     doseNumber: 5,
     ageMonths: 48,
+    minAgeDays: 1460,
+    maxAgeDays: 1824,
     notes: 'Pode ser usada nos reforços. Crianças com imunossupressão devem receber apenas VIP.',
     isOptional: true,
     sortOrder: 103,
@@ -395,6 +455,7 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseNumber: 1,
     ageMonths: 108, // 9 anos
     ageMaxMonths: 168, // até 14 anos
+    minAgeDays: 3285,
     notes: 'Meninas e meninos de 9 a 14 anos. Esquema de 2 doses com intervalo de 6 meses.',
     isOptional: false,
     sortOrder: 110,
@@ -407,6 +468,7 @@ const PNI_VACCINES: VaccineDefinitionSeed[] = [
     doseNumber: 2,
     ageMonths: 114, // 9 anos e 6 meses
     ageMaxMonths: 174, // até 14 anos e 6 meses
+    minIntervalDays: 180,
     notes: 'Segunda dose 6 meses após a primeira.',
     isOptional: false,
     sortOrder: 111,
@@ -446,14 +508,31 @@ async function seedVaccinesPNI() {
   let updated = 0;
   let skipped = 0;
 
+  // Calendário PNI versão 1 (novas versões são criadas pelo admin de calendários)
+  const calendar = await prisma.vaccineCalendar.upsert({
+    where: { code_version: { code: 'PNI', version: 1 } },
+    update: {},
+    create: {
+      code: 'PNI',
+      version: 1,
+      name: 'Programa Nacional de Imunização (PNI)',
+      description: 'Calendário oficial do Ministério da Saúde do Brasil',
+      country: 'BR',
+      source: VaccineCalendarSource.PNI,
+      status: VaccineCalendarStatus.PUBLISHED,
+      isDefault: true,
+      publishedAt: new Date(),
+    },
+  });
+
   for (const vaccine of PNI_VACCINES) {
     try {
       const existing = await prisma.vaccineDefinition.findUnique({
         where: {
-          vaccineKey_doseLabel_source: {
+          calendarId_vaccineKey_doseLabel: {
+            calendarId: calendar.id,
             vaccineKey: vaccine.vaccineKey,
             doseLabel: vaccine.doseLabel,
-            source: VaccineCalendarSource.PNI,
           },
         },
       });
@@ -469,6 +548,9 @@ async function seedVaccinesPNI() {
             ageMonths: vaccine.ageMonths,
             ageDays: vaccine.ageDays,
             ageMaxMonths: vaccine.ageMaxMonths,
+            minAgeDays: vaccine.minAgeDays,
+            maxAgeDays: vaccine.maxAgeDays,
+            minIntervalDays: vaccine.minIntervalDays,
             notes: vaccine.notes,
             isOptional: vaccine.isOptional,
             sortOrder: vaccine.sortOrder,
@@ -488,7 +570,10 @@ async function seedVaccinesPNI() {
             ageMonths: vaccine.ageMonths,
             ageDays: vaccine.ageDays,
             ageMaxMonths: vaccine.ageMaxMonths,
-            source: VaccineCalendarSource.PNI,
+            minAgeDays: vaccine.minAgeDays,
+            maxAgeDays: vaccine.maxAgeDays,
+            minIntervalDays: vaccine.minIntervalDays,
+            calendarId: calendar.id,
             notes: vaccine.notes,
             isOptional: vaccine.isOptional,
             sortOrder: vaccine.sortOrder,
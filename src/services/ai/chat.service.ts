@@ -48,7 +48,7 @@ export class AIChatService {
       throw AppError.forbidden('Usuário não é um cuidador');
     }
 
-    await requireBabyAccessByCaregiverId(caregiver.id, babyId);
+    await requireBabyAccessByCaregiverId(caregiver.id, babyId, 'aiChat');
 
     const session = await prisma.aiChatSession.create({
       data: {
@@ -132,6 +132,9 @@ export class AIChatService {
       throw AppError.notFound('Sessão não encontrada');
     }
 
+    // Access may have been revoked or restricted since the session was created
+    await requireBabyAccessByCaregiverId(caregiverId, session.babyId, 'aiChat');
+
     // Save user message
     const userMessage = await prisma.aiChatMessage.create({
       data: {
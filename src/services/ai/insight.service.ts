@@ -3,7 +3,9 @@ import { prisma } from '../../config/database';
 import { logger } from '../../config/logger';
 import { requireBabyAccessByCaregiverId } from '../../utils/helpers/baby-permission.helper';
 import { StatsService } from '../stats.service';
-import { AiInsight, AiInsightSeverity, AiInsightType } from '../../types';
+import { SleepAnalyticsService } from '../sleep-analytics.service';
+import { SettingsService } from '../settings.service';
+import { AiInsight, AiInsightSeverity, AiInsightType, SleepAnalytics } from '../../types';
 import { differenceInHours, differenceInMonths, subHours } from 'date-fns';
 
 interface InsightRule {
@@ -17,6 +19,7 @@ interface InsightData {
   stats7d: any;
   lastRoutines: any[];
   lastGrowth: any;
+  sleepAnalytics: SleepAnalytics | null;
 }
 
 interface InsightResult {
@@ -69,12 +72,16 @@ export class AIInsightService {
         orderBy: { measuredAt: 'desc' },
       });
 
+      // Sleep analytics (classificação noite x soneca no fuso do cuidador)
+      const sleepAnalytics = await this.getSleepAnalytics(caregiverId, babyId);
+
       const insightData: InsightData = {
         babyAgeMonths,
         stats24h,
         stats7d,
         lastRoutines,
         lastGrowth,
+        sleepAnalytics,
       };
 
       // Run all rules
@@ -139,7 +146,7 @@ export class AIInsightService {
     babyId: number,
     options?: { includeRead?: boolean; includeDismissed?: boolean }
   ): Promise<AiInsight[]> {
-    await requireBabyAccessByCaregiverId(caregiverId, babyId);
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'routines:read');
 
     const where: any = {
       babyId,
@@ -188,6 +195,20 @@ export class AIInsightService {
     });
   }
 
+  private async getSleepAnalytics(caregiverId: number, babyId: number): Promise<SleepAnalytics | null> {
+    try {
+      const caregiver = await prisma.caregiver.findUnique({
+        where: { id: caregiverId },
+        select: { userId: true },
+      });
+      const timezone = caregiver ? await SettingsService.getUserTimezone(caregiver.userId) : undefined;
+      return await SleepAnalyticsService.getAnalyticsByBabyId(babyId, { days: 7, timezone });
+    } catch (error) {
+      logger.error('Failed to load sleep analytics for insights:', error);
+      return null;
+    }
+  }
+
   // ==========================================
   // Insight Rules
   // ==========================================
@@ -233,6 +254,51 @@ export class AIInsightService {
       },
     });
 
+    // Rule: Wake windows longer than expected for age
+    this.rules.push({
+      type: 'sleep_pattern',
+      check: (data) => {
+        const week = data.sleepAnalytics?.trends.last7d;
+        if (!week || week.daysWithData < 3) return null;
+
+        const wakeWindow = week.comparison.wakeWindowMinutes;
+        if (wakeWindow.status !== 'above' || wakeWindow.value === null) return null;
+
+        return {
+          severity: 'info' as AiInsightSeverity,
+          title: 'Janelas de vigília longas',
+          explanation: `Nos últimos 7 dias o bebê ficou em média ${Math.round(wakeWindow.value)} min acordado entre um sono e outro. Para a idade, o comum é entre ${wakeWindow.min} e ${wakeWindow.max} min.`,
+          recommendation: 'Observe os sinais de sono (bocejos, olhar parado, esfregar os olhos) e tente oferecer a soneca um pouco mais cedo. Bebês muito cansados costumam ter mais dificuldade para dormir.',
+          data: { averageWakeWindowMinutes: wakeWindow.value, expectedMin: wakeWindow.min, expectedMax: wakeWindow.max },
+        };
+      },
+    });
+
+    // Rule: Night sleep becoming less consolidated
+    this.rules.push({
+      type: 'routine_anomaly',
+      check: (data) => {
+        const trends = data.sleepAnalytics?.trends;
+        if (!trends || trends.consolidation !== 'declining') return null;
+
+        const recent = trends.last7d.averageLongestStretchHours;
+        const baseline = trends.last30d.averageLongestStretchHours;
+        if (recent === null || baseline === null) return null;
+
+        return {
+          severity: 'info' as AiInsightSeverity,
+          title: 'Sono noturno mais fragmentado',
+          explanation: `O maior bloco de sono à noite caiu para ${recent.toFixed(1)}h em média nesta semana, contra ${baseline.toFixed(1)}h no último mês.`,
+          recommendation: 'Regressões de sono são comuns em saltos de desenvolvimento, dentição ou doenças. Manter a rotina da hora de dormir ajuda; se vier acompanhado de febre ou irritação intensa, converse com o pediatra.',
+          data: {
+            longestStretchHours7d: recent,
+            longestStretchHours30d: baseline,
+            nightWakings7d: trends.last7d.averageNightWakings,
+          },
+        };
+      },
+    });
+
     // Rule: Cluster feeding detection
     this.rules.push({
       type: 'cluster_feeding',
@@ -5,7 +5,14 @@ import { prisma } from '../../config/database';
 import { logger } from '../../config/logger';
 import { RoutineService } from '../routine.service';
 import { StatsService } from '../stats.service';
-import { AiToolResult } from '../../types';
+import { GrowthService } from '../growth.service';
+import { ForecastService } from '../forecast.service';
+import { SettingsService } from '../settings.service';
+import { HandoffService } from '../handoff.service';
+import { AiToolResult, CustomMetaFieldDefinition, RoutineForecast } from '../../types';
+import { formatCustomMetaDetails } from '../../utils/helpers/csv.helper';
+import { formatInUserTimezone } from '../../utils/helpers/timezone.helper';
+import { hasBabyAccess } from '../../utils/helpers/baby-permission.helper';
 import { differenceInDays, differenceInMonths, differenceInWeeks } from 'date-fns';
 
 interface ToolContext {
@@ -50,6 +57,12 @@ export class AIToolsService {
         case 'listMilestones':
           return await this.listMilestones(context);
 
+        case 'getRoutineForecast':
+          return await this.getRoutineForecast(context);
+
+        case 'getHandoffSummary':
+          return await this.getHandoffSummary(context, args.sinceHours as number | undefined);
+
         case 'createRoutine':
           return await this.createRoutine(context, {
             routineType: args.routineType as string,
@@ -217,13 +230,18 @@ export class AIToolsService {
     const result = await RoutineService.list(context.caregiverId, filter, 1, options.limit);
 
     const formattedRoutines = result.data.map(routine => ({
-      tipo: this.translateRoutineType(routine.routineType),
+      tipo: routine.customType?.name || this.translateRoutineType(routine.routineType),
       inicio: routine.startTime,
       fim: routine.endTime,
       duracao: routine.durationSeconds
         ? `${Math.round(routine.durationSeconds / 60)} minutos`
         : 'em andamento',
-      detalhes: this.formatRoutineMeta(routine.routineType, routine.meta),
+      detalhes: routine.routineType === 'CUSTOM' && routine.customType
+        ? formatCustomMetaDetails(
+          (routine.meta || {}) as Record<string, unknown>,
+          routine.customType.metaFields as unknown as CustomMetaFieldDefinition[]
+        ).join(', ') || null
+        : this.formatRoutineMeta(routine.routineType, routine.meta),
       observacoes: routine.notes,
     }));
 
@@ -254,6 +272,9 @@ export class AIToolsService {
       };
     }
 
+    const percentiles = await GrowthService.calculatePercentilesByBabyId(context.babyId);
+    const latestScores = percentiles.records.find(r => r.id === growth.id);
+
     return {
       name: 'getLatestGrowth',
       result: {
@@ -264,6 +285,14 @@ export class AIToolsService {
           ? `${growth.headCircumferenceCm}cm`
           : null,
         observacoes: growth.notes,
+        percentisOMS: latestScores
+          ? {
+              idadeCorrigida: percentiles.ageCorrectedForPrematurity,
+              peso: this.formatGrowthScore(latestScores.weight),
+              comprimento: this.formatGrowthScore(latestScores.length),
+              perimetroCefalico: this.formatGrowthScore(latestScores.headCircumference),
+            }
+          : percentiles.reason || null,
       },
     };
   }
@@ -292,6 +321,83 @@ export class AIToolsService {
     };
   }
 
+  /**
+   * Prevê a próxima mamada e o próximo sono
+   */
+  private async getRoutineForecast(context: ToolContext): Promise<AiToolResult> {
+    const timezone = await SettingsService.getUserTimezone(context.userId);
+    const forecast = await ForecastService.getForecastByBabyId(context.babyId, timezone);
+
+    const confidenceLabels: Record<string, string> = { low: 'baixa', medium: 'média', high: 'alta' };
+    const format = (date: Date | null) => date ? formatInUserTimezone(date, timezone, 'HH:mm') : null;
+    const describe = (item: RoutineForecast, inProgressLabel: string) => {
+      if (item.status === 'in_progress') {
+        return { situacao: inProgressLabel, desde: format(item.inProgressSince) };
+      }
+      if (item.status === 'insufficient_data') {
+        return { situacao: 'Histórico insuficiente para prever (são necessários alguns dias de registros)' };
+      }
+      return {
+        horarioPrevisto: format(item.predictedAt),
+        janela: `${format(item.windowStart)} - ${format(item.windowEnd)}`,
+        emMinutos: item.minutesUntil,
+        intervaloTipico: `${item.typicalIntervalMinutes} minutos`,
+        confianca: confidenceLabels[item.confidence!],
+        baseadoEm: `${item.sampleSize} intervalos dos últimos 7 dias`,
+      };
+    };
+
+    return {
+      name: 'getRoutineForecast',
+      result: {
+        fusoHorario: timezone,
+        proximaMamada: describe(forecast.feeding, 'Mamada em andamento'),
+        proximoSono: describe(forecast.sleep, 'Bebê dormindo'),
+        aviso: 'Previsão estatística baseada no histórico registrado; os sinais do bebê sempre têm prioridade.',
+      },
+    };
+  }
+
+  /**
+   * Resumo da passagem de turno (o que aconteceu desde que o usuário saiu)
+   */
+  private async getHandoffSummary(context: ToolContext, sinceHours?: number): Promise<AiToolResult> {
+    const timezone = await SettingsService.getUserTimezone(context.userId);
+    const hours = Number(sinceHours);
+    const since = Number.isFinite(hours) && hours > 0
+      ? new Date(Date.now() - Math.min(hours, 168) * 60 * 60 * 1000)
+      : undefined;
+
+    const summary = await HandoffService.getSummaryByBabyId(context.babyId, context.userId, {
+      since,
+      timezone,
+      includeMedications: await hasBabyAccess(context.userId, context.babyId, 'clinical:read'),
+    });
+    const format = (date: Date) => formatInUserTimezone(date, timezone, 'dd/MM HH:mm');
+
+    return {
+      name: 'getHandoffSummary',
+      result: {
+        fusoHorario: timezone,
+        desde: format(summary.since),
+        criterio: summary.sinceSource === 'last_activity'
+          ? 'Desde o último registro feito pelo usuário'
+          : summary.sinceSource === 'query' ? 'Período pedido' : 'Últimas 12 horas',
+        resumo: summary.highlights,
+        mamadas: summary.feeding.count,
+        minutosDormidos: summary.sleep.totalMinutes,
+        fraldas: summary.diapers.count,
+        medicamentos: summary.medications.map(m => ({
+          nome: m.medicationName,
+          horario: format(m.administeredAt),
+          registradoPor: m.recordedBy,
+        })),
+        emAndamento: summary.openRoutines.map(r => ({ rotina: r.name, desde: format(r.startTime) })),
+        observacoes: summary.notes.map(n => ({ autor: n.author, horario: format(n.at), texto: n.text })),
+      },
+    };
+  }
+
   /**
    * Cria uma nova rotina
    */
@@ -317,7 +423,9 @@ export class AIToolsService {
           context.babyId,
           type,
           meta as any,
-          notes
+          notes,
+          undefined,
+          { userId: context.userId, source: 'AI_TOOL' }
         );
       } else if (action === 'start') {
         // Start timer-based routine
@@ -326,7 +434,9 @@ export class AIToolsService {
           context.babyId,
           type,
           meta as any,
-          notes
+          notes,
+          undefined,
+          { userId: context.userId, source: 'AI_TOOL' }
         );
       } else if (action === 'close') {
         // Close timer-based routine
@@ -335,7 +445,9 @@ export class AIToolsService {
           context.babyId,
           type,
           meta as any,
-          notes
+          notes,
+          undefined,
+          { userId: context.userId, source: 'AI_TOOL' }
         );
       }
 
@@ -380,6 +492,7 @@ export class AIToolsService {
       DIAPER: 'Troca de fralda',
       BATH: 'Banho',
       MILK_EXTRACTION: 'Extração de leite',
+      CUSTOM: 'Rotina personalizada',
     };
     return translations[type] || type;
   }
@@ -418,6 +531,20 @@ export class AIToolsService {
     }
   }
 
+  private formatGrowthScore(
+    score: { zScore: number; percentile: number; curveCrossing: { crossed: boolean; direction: 'up' | 'down' | null } | null } | null
+  ): string | null {
+    if (!score) return null;
+
+    let text = `P${score.percentile} (z-score ${score.zScore})`;
+    if (score.curveCrossing?.crossed) {
+      text += score.curveCrossing.direction === 'up'
+        ? ' - cruzou linhas de percentil para cima desde a última medição'
+        : ' - cruzou linhas de percentil para baixo desde a última medição';
+    }
+    return text;
+  }
+
   private formatHourlyActivity(hourlyCounts: number[]): string {
     const periods = {
       madrugada: hourlyCounts.slice(0, 6).reduce((a, b) => a + b, 0),
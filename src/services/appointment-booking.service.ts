@@ -0,0 +1,515 @@
+// Olive Baby API - Appointment Booking Service
+// Agendamento pelos pais: horários livres dos profissionais vinculados ao bebê,
+// solicitação/confirmação conforme a política do profissional, remarcação e
+// cancelamento dentro da janela permitida.
+import { Appointment, AppointmentStatus, AppointmentType } from '@prisma/client';
+import { addDays, differenceInMinutes } from 'date-fns';
+import { prisma } from '../config/database';
+import { env } from '../config/env';
+import { logger } from '../config/logger';
+import { AppError } from '../utils/errors/AppError';
+import { requireBabyAccess } from '../utils/helpers/baby-permission.helper';
+import { toDateKey } from '../utils/helpers/availability.helper';
+import { formatDateTimeInTimezone, DEFAULT_TIMEZONE } from '../utils/helpers/timezone.helper';
+import { AppointmentService, AvailabilityQuery, PARENT_BOOKING_SOURCE } from './appointment.service';
+import { NotificationDispatcherService, NotificationMessage } from './notification-dispatcher.service';
+
+// Status em que os pais ainda podem remarcar ou cancelar
+const ACTIVE_STATUSES: AppointmentStatus[] = ['REQUESTED', 'SCHEDULED', 'CONFIRMED'];
+
+export interface BookingPolicy {
+  autoConfirm: boolean;
+  cancelWindowHours: number;
+  rescheduleWindowHours: number;
+}
+
+export interface BookAppointmentInput {
+  professionalId: number;
+  startAt: Date;
+  durationMinutes?: number;
+  clinicId?: number;
+  type?: AppointmentType;
+  notes?: string;
+}
+
+export type BookingEvent = 'requested' | 'confirmed' | 'rejected' | 'rescheduled' | 'cancelled';
+
+export type AppointmentWithNames = Appointment & {
+  baby: { id: number; name: string };
+  professional: { id: number; fullName: string; userId: number | null };
+};
+
+const appointmentInclude = {
+  baby: { select: { id: true, name: true } },
+  professional: { select: { id: true, fullName: true, userId: true } },
+} as const;
+
+// ==========================================
+// Helper Functions
+// ==========================================
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function toPolicy(professional: {
+  bookingAutoConfirm: boolean;
+  bookingCancelWindowHours: number;
+  bookingRescheduleWindowHours: number;
+}): BookingPolicy {
+  return {
+    autoConfirm: professional.bookingAutoConfirm,
+    cancelWindowHours: professional.bookingCancelWindowHours,
+    rescheduleWindowHours: professional.bookingRescheduleWindowHours,
+  };
+}
+
+/**
+ * Solicitações ainda não aprovadas podem ser alteradas a qualquer momento;
+ * consultas confirmadas só até `windowHours` antes do horário.
+ */
+function assertWithinWindow(apt: Appointment, windowHours: number, action: string) {
+  if (apt.status === 'REQUESTED') return;
+  if (differenceInMinutes(apt.startAt, new Date()) < windowHours * 60) {
+    throw AppError.badRequest(
+      `Não é possível ${action} pelo app com menos de ${windowHours}h de antecedência. Entre em contato com o consultório.`
+    );
+  }
+}
+
+async function getUserTimezone(userId: number): Promise<string> {
+  const settings = await prisma.userSettings.findUnique({
+    where: { userId },
+    select: { timezone: true },
+  });
+  return settings?.timezone ?? DEFAULT_TIMEZONE;
+}
+
+// ==========================================
+// Service Class
+// ==========================================
+
+export class AppointmentBookingService {
+  /**
+   * Profissionais ativos vinculados ao bebê, com a política de agendamento de cada um
+   */
+  static async listBookableProfessionals(userId: number, babyId: number) {
+    await requireBabyAccess(userId, babyId, 'clinical:read');
+
+    const links = await prisma.babyProfessional.findMany({
+      where: { babyId, professional: { status: 'ACTIVE' } },
+      include: {
+        professional: {
+          include: {
+            clinicProfessionals: { include: { clinic: { select: { id: true, name: true } } } },
+          },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    // O mesmo profissional pode estar vinculado com mais de um papel
+    const byId = new Map<number, (typeof links)[number]>();
+    for (const link of links) {
+      if (!byId.has(link.professionalId)) byId.set(link.professionalId, link);
+    }
+
+    return [...byId.values()].map(({ role, professional }) => ({
+      id: professional.id,
+      fullName: professional.fullName,
+      specialty: professional.specialty,
+      role,
+      clinics: professional.clinicProfessionals.map(cp => cp.clinic),
+      policy: toPolicy(professional),
+    }));
+  }
+
+  /**
+   * Horários livres de um profissional vinculado ao bebê
+   */
+  static async getAvailableSlots(
+    userId: number,
+    babyId: number,
+    professionalId: number,
+    query: AvailabilityQuery
+  ) {
+    await requireBabyAccess(userId, babyId, 'clinical:read');
+    await this.getLinkedProfessional(babyId, professionalId);
+
+    return AppointmentService.getAvailableSlots(professionalId, {
+      from: query.from,
+      to: query.to,
+      clinicId: query.clinicId,
+      type: query.type,
+      durationMinutes: query.durationMinutes,
+    });
+  }
+
+  /**
+   * Consultas do bebê (a partir de `from`, por padrão as futuras)
+   */
+  static async listForBaby(userId: number, babyId: number, opts: { from?: Date; includeCancelled?: boolean } = {}) {
+    await requireBabyAccess(userId, babyId, 'clinical:read');
+
+    return prisma.appointment.findMany({
+      where: {
+        babyId,
+        endAt: { gte: opts.from ?? new Date() },
+        ...(opts.includeCancelled ? {} : { status: { notIn: ['CANCELLED'] } }),
+      },
+      orderBy: { startAt: 'asc' },
+      include: {
+        professional: { select: { id: true, fullName: true, specialty: true } },
+        clinic: { select: { id: true, name: true } },
+      },
+    });
+  }
+
+  /**
+   * Agenda (confirmação automática) ou solicita (aprovação manual) um horário livre
+   */
+  static async book(userId: number, babyId: number, data: BookAppointmentInput) {
+    await requireBabyAccess(userId, babyId, 'clinical:write');
+    const professional = await this.getLinkedProfessional(babyId, data.professionalId);
+
+    const slot = await this.findAvailableSlot(data.professionalId, data.startAt, {
+      clinicId: data.clinicId,
+      type: data.type,
+      durationMinutes: data.durationMinutes,
+    });
+
+    const policy = toPolicy(professional);
+    const created = await AppointmentService.create({
+      babyId,
+      professionalId: data.professionalId,
+      clinicId: slot.clinicId ?? undefined,
+      startAt: slot.start,
+      endAt: slot.end,
+      durationMinutes: differenceInMinutes(slot.end, slot.start),
+      type: data.type,
+      notes: data.notes,
+      bookedByUserId: userId,
+      source: PARENT_BOOKING_SOURCE,
+      status: policy.autoConfirm ? 'CONFIRMED' : 'REQUESTED',
+    });
+
+    const apt = await this.getAppointment(babyId, created.id);
+    logger.info('[AppointmentBooking] Booked by parent', {
+      appointmentId: apt.id,
+      babyId,
+      userId,
+      status: apt.status,
+    });
+
+    // Quem agendou também recebe a confirmação (e-mail com data e horário)
+    await this.notify(apt, policy.autoConfirm ? 'confirmed' : 'requested', userId, true);
+    return apt;
+  }
+
+  /**
+   * Remarca para outro horário livre; volta a aguardar aprovação se o
+   * profissional não confirma automaticamente
+   */
+  static async reschedule(userId: number, babyId: number, appointmentId: number, startAt: Date) {
+    await requireBabyAccess(userId, babyId, 'clinical:write');
+    const apt = await this.getAppointment(babyId, appointmentId);
+    this.assertActive(apt);
+
+    const professional = await this.getLinkedProfessional(babyId, apt.professionalId);
+    const policy = toPolicy(professional);
+    assertWithinWindow(apt, policy.rescheduleWindowHours, 'remarcar');
+
+    const slot = await this.findAvailableSlot(apt.professionalId, startAt, {
+      clinicId: apt.clinicId ?? undefined,
+      durationMinutes: differenceInMinutes(apt.endAt, apt.startAt),
+      excludeAppointmentId: apt.id,
+    });
+
+    const status: AppointmentStatus = policy.autoConfirm ? 'CONFIRMED' : 'REQUESTED';
+    const updated = await prisma.$transaction(async (tx) => {
+      await AppointmentService.assertSlotFree(tx, {
+        professionalId: apt.professionalId,
+        clinicId: apt.clinicId,
+        startAt: slot.start,
+        endAt: slot.end,
+        excludeAppointmentId: apt.id,
+      });
+
+      return tx.appointment.update({
+        where: { id: apt.id },
+        data: {
+          startAt: slot.start,
+          endAt: slot.end,
+          status,
+          confirmedAt: status === 'CONFIRMED' ? new Date() : null,
+          reminderSentAt: null,
+          sequence: { increment: 1 },
+          // Novo horário: os lembretes voltam a ser enviados
+          reminders: { deleteMany: {} },
+        },
+        include: appointmentInclude,
+      });
+    });
+
+    await AppointmentService.recordStatusChange(apt.id, apt.status, status, {
+      userId,
+      source: 'PARENT',
+      reason: `Remarcada pelo responsável (antes: ${apt.startAt.toISOString()})`,
+    });
+
+    logger.info('[AppointmentBooking] Rescheduled by parent', { appointmentId: apt.id, babyId, userId });
+    await this.notify(updated, 'rescheduled', userId);
+    return updated;
+  }
+
+  /**
+   * Cancelamento pelos pais, dentro da janela da política do profissional
+   */
+  static async cancel(userId: number, babyId: number, appointmentId: number, reason?: string) {
+    await requireBabyAccess(userId, babyId, 'clinical:write');
+    const apt = await this.getAppointment(babyId, appointmentId);
+    this.assertActive(apt);
+
+    const professional = await prisma.professional.findUniqueOrThrow({ where: { id: apt.professionalId } });
+    assertWithinWindow(apt, professional.bookingCancelWindowHours, 'cancelar');
+
+    const updated = await AppointmentService.transition(apt.id, 'CANCELLED', {
+      userId,
+      source: 'PARENT',
+      reason: reason ?? 'Cancelado pelo responsável',
+    });
+
+    logger.info('[AppointmentBooking] Cancelled by parent', { appointmentId: apt.id, babyId, userId });
+    await this.notify(updated, 'cancelled', userId);
+    return updated;
+  }
+
+  // ==========================================
+  // Professional side
+  // ==========================================
+
+  static async getPolicy(professionalId: number): Promise<BookingPolicy> {
+    const professional = await prisma.professional.findUnique({ where: { id: professionalId } });
+    if (!professional) throw AppError.notFound('Profissional não encontrado');
+    return toPolicy(professional);
+  }
+
+  static async updatePolicy(professionalId: number, data: Partial<BookingPolicy>): Promise<BookingPolicy> {
+    const professional = await prisma.professional.update({
+      where: { id: professionalId },
+      data: {
+        bookingAutoConfirm: data.autoConfirm,
+        bookingCancelWindowHours: data.cancelWindowHours,
+        bookingRescheduleWindowHours: data.rescheduleWindowHours,
+      },
+    });
+    return toPolicy(professional);
+  }
+
+  /**
+   * Aprova uma solicitação dos pais
+   */
+  static async approve(professionalId: number, userId: number, appointmentId: number) {
+    const apt = await this.getRequested(professionalId, appointmentId);
+
+    const updated = await AppointmentService.transition(apt.id, 'CONFIRMED', { userId, source: 'PROFESSIONAL' });
+
+    await this.notify(updated, 'confirmed', userId);
+    return updated;
+  }
+
+  /**
+   * Recusa uma solicitação dos pais (o horário volta a ficar livre)
+   */
+  static async reject(professionalId: number, userId: number, appointmentId: number, reason?: string) {
+    const apt = await this.getRequested(professionalId, appointmentId);
+
+    const updated = await AppointmentService.transition(apt.id, 'CANCELLED', {
+      userId,
+      source: 'PROFESSIONAL',
+      reason: reason ?? 'Solicitação recusada pelo profissional',
+    });
+
+    await this.notify(updated, 'rejected', userId);
+    return updated;
+  }
+
+  // ==========================================
+  // Helpers
+  // ==========================================
+
+  private static async getLinkedProfessional(babyId: number, professionalId: number) {
+    const link = await prisma.babyProfessional.findFirst({
+      where: { babyId, professionalId, professional: { status: 'ACTIVE' } },
+      include: { professional: true },
+    });
+    if (!link) {
+      throw AppError.notFound('Profissional não vinculado a este bebê');
+    }
+    return link.professional;
+  }
+
+  private static async getAppointment(babyId: number, appointmentId: number): Promise<AppointmentWithNames> {
+    const apt = await prisma.appointment.findFirst({
+      where: { id: appointmentId, babyId },
+      include: appointmentInclude,
+    });
+    if (!apt) throw AppError.notFound('Agendamento não encontrado');
+    return apt;
+  }
+
+  private static async getRequested(professionalId: number, appointmentId: number) {
+    const apt = await prisma.appointment.findUnique({ where: { id: appointmentId } });
+    if (!apt) throw AppError.notFound('Agendamento não encontrado');
+    if (apt.professionalId !== professionalId) throw AppError.forbidden('Acesso negado');
+    if (apt.status !== 'REQUESTED') {
+      throw AppError.badRequest('Este agendamento não está aguardando aprovação');
+    }
+    return apt;
+  }
+
+  private static assertActive(apt: Appointment) {
+    if (!ACTIVE_STATUSES.includes(apt.status)) {
+      throw AppError.badRequest('Este agendamento não pode mais ser alterado');
+    }
+  }
+
+  /**
+   * O horário precisa ser um dos horários livres da agenda do profissional.
+   * Busca um dia antes e depois porque a data local depende do fuso da clínica.
+   */
+  private static async findAvailableSlot(
+    professionalId: number,
+    startAt: Date,
+    query: Omit<AvailabilityQuery, 'from' | 'to'>
+  ) {
+    const slots = await AppointmentService.getAvailableSlots(professionalId, {
+      ...query,
+      from: toDateKey(addDays(startAt, -1)),
+      to: toDateKey(addDays(startAt, 1)),
+    });
+
+    const slot = slots.find(s => s.start.getTime() === startAt.getTime());
+    if (!slot) {
+      throw AppError.conflict('Horário indisponível. Escolha outro horário livre.');
+    }
+    return slot;
+  }
+
+  /**
+   * Avisa a outra parte: o profissional quando os pais agem, e quem agendou
+   * quando o profissional aprova/recusa. Falhas de envio não desfazem a ação.
+   */
+  static async notify(
+    apt: AppointmentWithNames,
+    event: BookingEvent,
+    actorUserId: number | null,
+    includeActor = false
+  ) {
+    const recipients = new Set<number>();
+    if (apt.bookedByUserId) recipients.add(apt.bookedByUserId);
+    if (apt.professional.userId) recipients.add(apt.professional.userId);
+
+    for (const recipientId of recipients) {
+      if (recipientId === actorUserId && !includeActor) continue;
+
+      const isProfessional = recipientId === apt.professional.userId;
+      try {
+        const timezone = await getUserTimezone(recipientId);
+        const message = this.buildMessage(apt, event, isProfessional, timezone);
+        await NotificationDispatcherService.dispatch(recipientId, message);
+      } catch (error) {
+        logger.error('[AppointmentBooking] Notification failed', {
+          appointmentId: apt.id,
+          event,
+          recipientId,
+          error: error instanceof Error ? error.message : error,
+        });
+      }
+    }
+  }
+
+  private static buildMessage(
+    apt: AppointmentWithNames,
+    event: BookingEvent,
+    isProfessional: boolean,
+    timezone: string
+  ): NotificationMessage {
+    const when = formatDateTimeInTimezone(apt.startAt, timezone);
+    const babyName = apt.baby.name;
+    const professionalName = apt.professional.fullName;
+
+    let title: string;
+    let body: string;
+    if (isProfessional) {
+      const titles: Record<BookingEvent, string> = {
+        requested: 'Nova solicitação de consulta',
+        confirmed: 'Nova consulta agendada',
+        rejected: 'Solicitação recusada',
+        rescheduled: 'Consulta remarcada',
+        cancelled: 'Consulta cancelada',
+      };
+      title = titles[event];
+      body = event === 'requested'
+        ? `Os responsáveis por ${babyName} solicitaram uma consulta em ${when}. Aprove ou recuse na agenda.`
+        : event === 'rescheduled'
+          ? `A consulta de ${babyName} foi remarcada para ${when}.`
+          : event === 'cancelled'
+            ? `A consulta de ${babyName} em ${when} foi cancelada pelos responsáveis.`
+            : `Consulta de ${babyName} em ${when}.`;
+    } else {
+      const titles: Record<BookingEvent, string> = {
+        requested: 'Solicitação de consulta enviada',
+        confirmed: 'Consulta confirmada ✅',
+        rejected: 'Consulta não aprovada',
+        rescheduled: 'Consulta remarcada',
+        cancelled: 'Consulta cancelada',
+      };
+      title = titles[event];
+      body = event === 'requested'
+        ? `Pedido de consulta de ${babyName} com ${professionalName} em ${when} enviado. Avisaremos quando for aprovado.`
+        : event === 'rejected'
+          ? `${professionalName} não pôde confirmar a consulta de ${babyName} em ${when}. Escolha outro horário.`
+          : `Consulta de ${babyName} com ${professionalName} em ${when}.`;
+    }
+
+    const path = isProfessional
+      ? `/prof/appointments/${apt.id}`
+      : `/babies/${apt.babyId}/appointments/${apt.id}`;
+    const reason = event === 'rejected' && apt.cancellationReason ? apt.cancellationReason : null;
+
+    return {
+      category: 'clinical',
+      push: {
+        title,
+        body,
+        clickAction: path,
+        tag: `appointment-${apt.id}`,
+        data: { type: 'appointment_booking', event, appointmentId: String(apt.id), babyId: String(apt.babyId) },
+      },
+      email: {
+        templateType: 'appointment_booking',
+        subject: title,
+        customBody: [
+          `<p>${escapeHtml(body)}</p>`,
+          reason ? `<p>Motivo: ${escapeHtml(reason)}</p>` : '',
+          `<p><a href="${env.FRONTEND_URL}${path}">Ver consulta</a></p>`,
+        ].join(''),
+      },
+      inApp: {
+        title,
+        message: body,
+        type: 'REMINDER',
+        babyId: isProfessional ? undefined : apt.babyId,
+        ctaLabel: 'Ver consulta',
+        ctaUrl: path,
+      },
+    };
+  }
+}
+
+export default AppointmentBookingService;
@@ -0,0 +1,389 @@
+// Olive Baby API - Appointment Reminder Service
+// Lembretes de consulta para os pais (48h e 2h antes, por push e e-mail) com
+// links assinados de confirmação/cancelamento em um clique.
+// Disparado pelo trigger appointment_reminder.
+import crypto from 'crypto';
+import { Appointment, AppointmentStatus, BabyMemberType, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { env } from '../config/env';
+import { logger } from '../config/logger';
+import { AppError } from '../utils/errors/AppError';
+import { formatDateTimeInTimezone, DEFAULT_TIMEZONE } from '../utils/helpers/timezone.helper';
+import {
+  activeMemberWhere,
+  hasPermission,
+  resolveBabyMemberPermissions,
+} from '../utils/helpers/baby-permission.helper';
+import { AppointmentBookingService } from './appointment-booking.service';
+import { AppointmentService } from './appointment.service';
+import {
+  NotificationDispatcherService,
+  NotificationMessage,
+  DispatchResult,
+} from './notification-dispatcher.service';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Só consultas marcadas recebem lembrete (solicitações ainda não aprovadas não)
+const REMINDABLE_STATUSES: AppointmentStatus[] = ['SCHEDULED', 'CONFIRMED'];
+
+export type AppointmentLinkAction = 'confirm' | 'cancel';
+
+export interface AppointmentReminderOptions {
+  stagesHours: number[];   // antecedências em horas, ex.: [48, 2]
+  dryRun?: boolean;
+}
+
+export interface AppointmentReminderResult {
+  eligible: number;
+  sent: number;
+  failed: number;
+  noToken: number;
+  deferred: number;
+  suppressed: number;
+}
+
+interface LinkPayload {
+  appointmentId: number;
+  action: AppointmentLinkAction;
+  startAt: number;
+}
+
+type ReminderAppointment = Pick<Appointment, 'id' | 'babyId' | 'startAt' | 'status'> & {
+  baby: { name: string };
+  professional: { fullName: string };
+  clinic: { name: string; address: string | null } | null;
+};
+
+// ==========================================
+// Helper Functions
+// ==========================================
+
+function emptyResult(): AppointmentReminderResult {
+  return { eligible: 0, sent: 0, failed: 0, noToken: 0, deferred: 0, suppressed: 0 };
+}
+
+function countPush(result: AppointmentReminderResult, delivery: DispatchResult): void {
+  const outcome = delivery.push;
+  if (outcome === 'sent') result.sent++;
+  else if (outcome === 'failed') result.failed++;
+  else if (outcome === 'no_target') result.noToken++;
+  else if (outcome === 'deferred') result.deferred++;
+  else result.suppressed++;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * "48,2" → [48, 2] (ignora valores inválidos, ordena do maior para o menor)
+ */
+export function parseStagesHours(value: string | number | boolean | undefined, fallback: number[]): number[] {
+  const hours = String(value ?? '')
+    .split(',')
+    .map(v => parseInt(v.trim(), 10))
+    .filter(v => Number.isFinite(v) && v > 0);
+  return hours.length > 0 ? [...new Set(hours)].sort((a, b) => b - a) : fallback;
+}
+
+function getSigningKey(): string {
+  return crypto.createHmac('sha256', env.JWT_ACCESS_SECRET).update('appointment-link').digest('hex');
+}
+
+function signLink(encoded: string): string {
+  return crypto.createHmac('sha256', getSigningKey()).update(encoded).digest('base64url');
+}
+
+/**
+ * Token "<payload>.<assinatura>". Inclui o horário da consulta: remarcar invalida
+ * os links já enviados, e eles expiram no início da consulta.
+ */
+export function createAppointmentLinkToken(appointmentId: number, action: AppointmentLinkAction, startAt: Date): string {
+  const payload: LinkPayload = { appointmentId, action, startAt: startAt.getTime() };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${signLink(encoded)}`;
+}
+
+function parseLinkToken(token: string): LinkPayload {
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) throw AppError.badRequest('Link inválido');
+
+  const expected = Buffer.from(signLink(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    throw AppError.badRequest('Link inválido');
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as LinkPayload;
+    if (!Number.isInteger(payload.appointmentId) || !['confirm', 'cancel'].includes(payload.action)) {
+      throw new Error('payload');
+    }
+    return payload;
+  } catch {
+    throw AppError.badRequest('Link inválido');
+  }
+}
+
+export function appointmentLinkUrl(token: string): string {
+  return `${env.FRONTEND_URL}/consultas/responder?token=${encodeURIComponent(token)}`;
+}
+
+// ==========================================
+// Service Class
+// ==========================================
+
+export class AppointmentReminderService {
+  /**
+   * Envia os lembretes devidos: para cada consulta, só a etapa mais próxima já
+   * alcançada (uma consulta marcada com 10h de antecedência recebe só o de 2h).
+   * Cada consulta/destinatário/etapa é enviada uma única vez (appointment_reminders).
+   */
+  static async sendDueReminders(options: AppointmentReminderOptions): Promise<AppointmentReminderResult> {
+    const result = emptyResult();
+    const now = new Date();
+    const { stagesHours, dryRun = false } = options;
+    if (stagesHours.length === 0) return result;
+
+    const appointments = await prisma.appointment.findMany({
+      where: {
+        status: { in: REMINDABLE_STATUSES },
+        startAt: { gt: now, lte: new Date(now.getTime() + Math.max(...stagesHours) * HOUR_MS) },
+      },
+      select: {
+        id: true,
+        babyId: true,
+        startAt: true,
+        status: true,
+        baby: { select: { name: true } },
+        professional: { select: { fullName: true } },
+        clinic: { select: { name: true, address: true } },
+      },
+    });
+
+    if (appointments.length === 0) {
+      return result;
+    }
+
+    const recipientsByBaby = await this.getParentRecipients([...new Set(appointments.map(a => a.babyId))]);
+
+    const sentStages = await prisma.appointmentReminder.findMany({
+      where: { appointmentId: { in: appointments.map(a => a.id) } },
+      select: { appointmentId: true, userId: true, stage: true },
+    });
+    const sentKeys = new Set(sentStages.map(s => `${s.appointmentId}:${s.userId}:${s.stage}`));
+
+    for (const apt of appointments) {
+      const hoursUntil = (apt.startAt.getTime() - now.getTime()) / HOUR_MS;
+      const stageHours = Math.min(...stagesHours.filter(h => hoursUntil <= h));
+      const stage = `${stageHours}h`;
+      let reminded = false;
+
+      for (const recipient of recipientsByBaby.get(apt.babyId) ?? []) {
+        if (sentKeys.has(`${apt.id}:${recipient.userId}:${stage}`)) continue;
+
+        result.eligible++;
+        if (dryRun) continue;
+
+        // Reserva a etapa antes de enviar: uma retentativa do job não duplica o lembrete
+        try {
+          await prisma.appointmentReminder.create({
+            data: { appointmentId: apt.id, userId: recipient.userId, stage },
+          });
+        } catch (error) {
+          if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') continue;
+          throw error;
+        }
+
+        const delivery = await NotificationDispatcherService.dispatch(
+          recipient.userId,
+          this.buildReminderMessage(apt, stageHours, recipient.timezone)
+        );
+        countPush(result, delivery);
+        reminded = true;
+
+        await prisma.appointmentReminder.update({
+          where: {
+            appointmentId_userId_stage: { appointmentId: apt.id, userId: recipient.userId, stage },
+          },
+          data: { outcome: delivery as Prisma.InputJsonValue },
+        });
+      }
+
+      if (reminded) {
+        await prisma.appointment.update({ where: { id: apt.id }, data: { reminderSentAt: now } });
+      }
+    }
+
+    logger.info('[AppointmentReminder] Reminders processed', { ...result, dryRun });
+    return result;
+  }
+
+  /**
+   * Consulta e ação de um link (para a página de confirmação exibir antes de aplicar)
+   */
+  static async previewLink(token: string) {
+    const payload = parseLinkToken(token);
+    const apt = await this.getLinkAppointment(payload);
+
+    return {
+      action: payload.action,
+      appointment: {
+        id: apt.id,
+        startAt: apt.startAt,
+        status: apt.status,
+        babyName: apt.baby.name,
+        professionalName: apt.professional.fullName,
+        clinicName: apt.clinic?.name ?? null,
+      },
+    };
+  }
+
+  /**
+   * Aplica a ação do link: CONFIRMED ou CANCELLED. Repetir o clique não tem efeito.
+   */
+  static async applyLink(token: string) {
+    const payload = parseLinkToken(token);
+    const apt = await this.getLinkAppointment(payload);
+
+    if (payload.action === 'confirm') {
+      if (apt.status === 'CONFIRMED') return { action: payload.action, status: apt.status };
+      if (apt.status !== 'SCHEDULED') {
+        throw AppError.badRequest('Esta consulta não pode mais ser confirmada');
+      }
+
+      const confirmed = await AppointmentService.transition(apt.id, 'CONFIRMED', { userId: null, source: 'REMINDER_LINK' });
+      logger.info('[AppointmentReminder] Confirmed by link', { appointmentId: apt.id });
+      return { action: payload.action, status: confirmed.status };
+    }
+
+    if (apt.status === 'CANCELLED') return { action: payload.action, status: apt.status };
+    if (!REMINDABLE_STATUSES.includes(apt.status)) {
+      throw AppError.badRequest('Esta consulta não pode mais ser cancelada');
+    }
+
+    const cancelled = await AppointmentService.transition(apt.id, 'CANCELLED', {
+      userId: null,
+      source: 'REMINDER_LINK',
+      reason: 'Cancelado pelo link do lembrete',
+    });
+    logger.info('[AppointmentReminder] Cancelled by link', { appointmentId: apt.id });
+
+    await AppointmentBookingService.notify(cancelled, 'cancelled', null);
+    return { action: payload.action, status: cancelled.status };
+  }
+
+  // ==========================================
+  // Helpers
+  // ==========================================
+
+  private static async getLinkAppointment(payload: LinkPayload) {
+    const apt = await prisma.appointment.findUnique({
+      where: { id: payload.appointmentId },
+      include: {
+        baby: { select: { name: true } },
+        professional: { select: { fullName: true } },
+        clinic: { select: { name: true } },
+      },
+    });
+    if (!apt) throw AppError.notFound('Agendamento não encontrado');
+
+    // Remarcada depois do envio ou já começou: o link não vale mais
+    if (apt.startAt.getTime() !== payload.startAt || apt.startAt <= new Date()) {
+      throw AppError.badRequest('Link expirado. Confira a consulta no app.');
+    }
+    return apt;
+  }
+
+  private static buildReminderMessage(
+    apt: ReminderAppointment,
+    stageHours: number,
+    timezone: string
+  ): NotificationMessage {
+    const when = formatDateTimeInTimezone(apt.startAt, timezone);
+    const where = apt.clinic ? ` (${apt.clinic.name})` : '';
+    const title = stageHours <= 2 ? 'Consulta daqui a pouco 🩺' : 'Lembrete de consulta 🩺';
+    const body = `${apt.baby.name} tem consulta com ${apt.professional.fullName} em ${when}${where}.`;
+    const path = `/babies/${apt.babyId}/appointments/${apt.id}`;
+
+    const needsConfirmation = apt.status !== 'CONFIRMED';
+    const confirmUrl = appointmentLinkUrl(createAppointmentLinkToken(apt.id, 'confirm', apt.startAt));
+    const cancelUrl = appointmentLinkUrl(createAppointmentLinkToken(apt.id, 'cancel', apt.startAt));
+
+    return {
+      category: 'reminder',
+      // O de 48h pode esperar o fim do horário de silêncio; o de 2h perde o sentido
+      deferrable: stageHours > 2,
+      push: {
+        title,
+        body: needsConfirmation ? `${body} Toque para confirmar.` : body,
+        clickAction: needsConfirmation ? confirmUrl : path,
+        tag: `appointment-${apt.id}`,
+        data: {
+          type: 'appointment_reminder',
+          appointmentId: String(apt.id),
+          babyId: String(apt.babyId),
+          stage: `${stageHours}h`,
+          confirmUrl,
+          cancelUrl,
+        },
+      },
+      email: {
+        templateType: 'appointment_reminder',
+        subject: title,
+        customBody: [
+          `<p>${escapeHtml(body)}</p>`,
+          apt.clinic?.address ? `<p>Endereço: ${escapeHtml(apt.clinic.address)}</p>` : '',
+          needsConfirmation
+            ? `<p><a href="${confirmUrl}">Confirmar presença</a></p>`
+            : '<p>Presença confirmada ✅</p>',
+          `<p>Não vai conseguir ir? <a href="${cancelUrl}">Cancelar consulta</a></p>`,
+        ].join(''),
+      },
+    };
+  }
+
+  /**
+   * Pais com acesso às informações clínicas de cada bebê, com o fuso de cada um
+   */
+  private static async getParentRecipients(
+    babyIds: number[]
+  ): Promise<Map<number, Array<{ userId: number; timezone: string }>>> {
+    const members = await prisma.babyMember.findMany({
+      where: {
+        babyId: { in: babyIds },
+        memberType: BabyMemberType.PARENT,
+        ...activeMemberWhere(),
+        user: { status: 'ACTIVE', isActive: true },
+      },
+      select: {
+        babyId: true,
+        userId: true,
+        role: true,
+        permissions: true,
+        user: { select: { settings: { select: { timezone: true } } } },
+      },
+    });
+
+    const byBaby = new Map<number, Array<{ userId: number; timezone: string }>>();
+    for (const member of members) {
+      const permissions = resolveBabyMemberPermissions(member.role, member.permissions);
+      if (!hasPermission(permissions, 'clinical:read')) continue;
+
+      if (!byBaby.has(member.babyId)) byBaby.set(member.babyId, []);
+      byBaby.get(member.babyId)!.push({
+        userId: member.userId,
+        timezone: member.user.settings?.timezone || DEFAULT_TIMEZONE,
+      });
+    }
+
+    return byBaby;
+  }
+}
+
+export default AppointmentReminderService;
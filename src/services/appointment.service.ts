@@ -1,8 +1,71 @@
 // Olive Baby API - Appointment & Schedule Service
 import { prisma } from '../config/database';
 import { AppError } from '../utils/errors/AppError';
-import { AppointmentStatus, AppointmentType } from '@prisma/client';
-import { addMinutes, parse, format, startOfDay, endOfDay, addDays, isWithinInterval, setHours, setMinutes } from 'date-fns';
+import { Appointment, AppointmentStatus, AppointmentType, Prisma, VisitType } from '@prisma/client';
+import { addMinutes, addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import {
+  AvailableSlot,
+  computeAvailableSlots,
+  SCHEDULE_EXCEPTION_TYPES,
+  ScheduleExceptionType,
+} from '../utils/helpers/availability.helper';
+import { formatInUserTimezone, DEFAULT_TIMEZONE } from '../utils/helpers/timezone.helper';
+
+// Consulta de disponibilidade limitada a um mês por chamada
+const MAX_AVAILABILITY_DAYS = 31;
+
+export const PARENT_BOOKING_SOURCE = 'PARENT_APP';
+
+/**
+ * Transições permitidas: REQUESTED → SCHEDULED → CONFIRMED → CHECKED_IN → IN_PROGRESS
+ * → COMPLETED (solicitação aprovada pode ir direto a CONFIRMED). NO_SHOW só antes
+ * da recepção; CANCELLED até o atendimento começar.
+ * COMPLETED, NO_SHOW e CANCELLED são finais.
+ */
+export const APPOINTMENT_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+  REQUESTED: ['SCHEDULED', 'CONFIRMED', 'CANCELLED'],
+  SCHEDULED: ['CONFIRMED', 'NO_SHOW', 'CANCELLED'],
+  CONFIRMED: ['CHECKED_IN', 'NO_SHOW', 'CANCELLED'],
+  CHECKED_IN: ['IN_PROGRESS', 'CANCELLED'],
+  IN_PROGRESS: ['COMPLETED'],
+  COMPLETED: [],
+  NO_SHOW: [],
+  CANCELLED: [],
+};
+
+export const STATUS_LABELS: Record<AppointmentStatus, string> = {
+  REQUESTED: 'solicitado',
+  SCHEDULED: 'agendado',
+  CONFIRMED: 'confirmado',
+  CHECKED_IN: 'recepcionado',
+  IN_PROGRESS: 'em atendimento',
+  COMPLETED: 'concluído',
+  NO_SHOW: 'falta',
+  CANCELLED: 'cancelado',
+};
+
+const VISIT_TYPE_BY_APPOINTMENT: Record<AppointmentType, VisitType> = {
+  CONSULTA_ROTINA: 'CONSULTA_ROTINA',
+  RETORNO: 'RETORNO',
+  VACINA: 'VACINA',
+  URGENCIA: 'URGENCIA',
+  TELEMEDICINA: 'OUTRO',
+  OUTRO: 'OUTRO',
+};
+
+export type AppointmentChangeSource = 'PROFESSIONAL' | 'PARENT' | 'REMINDER_LINK' | 'SYSTEM';
+
+export interface StatusChangeContext {
+  userId: number | null;
+  source: AppointmentChangeSource;
+  reason?: string;
+}
+
+const transitionInclude = {
+  baby: { select: { id: true, name: true, birthDate: true } },
+  professional: { select: { id: true, fullName: true, userId: true } },
+  visit: true,
+} as const;
 
 export interface CreateAppointmentInput {
   babyId: number;
@@ -16,6 +79,24 @@ export interface CreateAppointmentInput {
   notes?: string;
   bookedByUserId?: number;
   source?: string;
+  status?: AppointmentStatus;
+}
+
+export interface SlotCheck {
+  professionalId: number;
+  clinicId?: number | null;
+  startAt: Date;
+  endAt: Date;
+  excludeAppointmentId?: number;
+}
+
+export interface AvailabilityQuery {
+  from: string;                 // YYYY-MM-DD
+  to?: string;                  // YYYY-MM-DD, inclusive (padrão: from)
+  clinicId?: number;
+  type?: AppointmentType;
+  durationMinutes?: number;
+  excludeAppointmentId?: number;
 }
 
 export interface CreateScheduleInput {
@@ -25,18 +106,79 @@ export interface CreateScheduleInput {
   startTime: string;
   endTime: string;
   slotDuration?: number;
+  bufferMinutes?: number;
+  validFrom?: Date | null;
+  validUntil?: Date | null;
 }
 
 export interface CreateExceptionInput {
   professionalId: number;
   clinicId?: number;
   exceptionDate: Date;
-  type: 'BLOCKED' | 'REDUCED_HOURS' | 'HOLIDAY';
+  type: ScheduleExceptionType;
   startTime?: string;
   endTime?: string;
   reason?: string;
 }
 
+export function canTransition(from: AppointmentStatus, to: AppointmentStatus): boolean {
+  return APPOINTMENT_TRANSITIONS[from].includes(to);
+}
+
+function formatDecimal(value: Prisma.Decimal | null, unit: string): string | null {
+  return value === null ? null : `${value.toString().replace('.', ',')} ${unit}`;
+}
+
+/**
+ * Rascunho do prontuário ao iniciar o atendimento: medidas da última aferição e
+ * resumo das informações clínicas (alergias, condições, medicações em uso)
+ */
+async function createVisitDraft(tx: Prisma.TransactionClient, apt: Appointment) {
+  const [growth, info] = await Promise.all([
+    tx.growth.findFirst({ where: { babyId: apt.babyId }, orderBy: { measuredAt: 'desc' } }),
+    tx.babyClinicalInfo.findUnique({ where: { babyId: apt.babyId } }),
+  ]);
+
+  const lines: string[] = [];
+  if (growth) {
+    const measures = [
+      formatDecimal(growth.weightKg, 'kg'),
+      formatDecimal(growth.heightCm, 'cm'),
+      growth.headCircumferenceCm ? `PC ${formatDecimal(growth.headCircumferenceCm, 'cm')}` : null,
+    ].filter(Boolean);
+    lines.push(`Última medição (${format(growth.measuredAt, 'dd/MM/yyyy')}): ${measures.join(', ')}`);
+  }
+  if (info) {
+    const allergies = (info.allergies as Array<{ substance: string; severity?: string }> | null) ?? [];
+    const conditions = (info.chronicConditions as string[] | null) ?? [];
+    const medications = (info.medications as Array<{ name: string; dose?: string }> | null) ?? [];
+    if (allergies.length) {
+      lines.push(`Alergias: ${allergies.map(a => (a.severity ? `${a.substance} (${a.severity})` : a.substance)).join(', ')}`);
+    }
+    if (conditions.length) lines.push(`Condições crônicas: ${conditions.join(', ')}`);
+    if (medications.length) {
+      lines.push(`Medicações em uso: ${medications.map(m => (m.dose ? `${m.name} ${m.dose}` : m.name)).join(', ')}`);
+    }
+    if (info.feedingNotes) lines.push(`Alimentação: ${info.feedingNotes}`);
+  }
+
+  return tx.clinicalVisit.create({
+    data: {
+      babyId: apt.babyId,
+      professionalId: apt.professionalId,
+      clinicId: apt.clinicId,
+      visitDate: new Date(),
+      visitType: VISIT_TYPE_BY_APPOINTMENT[apt.type],
+      status: 'DRAFT',
+      chiefComplaint: apt.notes,
+      history: lines.length ? lines.join('\n') : null,
+      weightKg: growth?.weightKg,
+      heightCm: growth?.heightCm,
+      headCircumferenceCm: growth?.headCircumferenceCm,
+    },
+  });
+}
+
 async function ensureProfessionalHasAccess(professionalId: number, babyId: number) {
   const link = await prisma.babyProfessional.findFirst({
     where: { babyId, professionalId },
@@ -48,45 +190,75 @@ export class AppointmentService {
   static async create(data: CreateAppointmentInput) {
     await ensureProfessionalHasAccess(data.professionalId, data.babyId);
 
-    const duration = data.durationMinutes ?? 30;
+    const duration = (await this.resolveDuration(data.professionalId, data.type, data.durationMinutes)) ?? 30;
     const endAt = data.endAt ?? addMinutes(data.startAt, duration);
 
-    const overlapping = await prisma.appointment.findFirst({
-      where: {
-        professionalId: data.professionalId,
-        status: { notIn: ['CANCELLED', 'NO_SHOW'] },
-        OR: [
-          {
-            startAt: { lt: endAt },
-            endAt: { gt: data.startAt },
-          },
-        ],
-      },
-    });
-    if (overlapping) throw AppError.conflict('Já existe um agendamento neste horário');
-
     const baby = await prisma.baby.findUnique({ where: { id: data.babyId } });
     const title = data.title ?? `${baby?.name ?? 'Paciente'} - Consulta`;
 
-    return prisma.appointment.create({
-      data: {
-        babyId: data.babyId,
+    return prisma.$transaction(async (tx) => {
+      await this.assertSlotFree(tx, {
         professionalId: data.professionalId,
         clinicId: data.clinicId,
         startAt: data.startAt,
         endAt,
-        durationMinutes: duration,
-        type: data.type ?? 'CONSULTA_ROTINA',
-        status: 'SCHEDULED',
-        title,
-        notes: data.notes,
-        bookedByUserId: data.bookedByUserId,
-        source: data.source ?? 'APP',
-      },
-      include: {
-        baby: { select: { id: true, name: true, birthDate: true } },
+      });
+
+      return tx.appointment.create({
+        data: {
+          babyId: data.babyId,
+          professionalId: data.professionalId,
+          clinicId: data.clinicId,
+          startAt: data.startAt,
+          endAt,
+          durationMinutes: duration,
+          type: data.type ?? 'CONSULTA_ROTINA',
+          status: data.status ?? 'SCHEDULED',
+          confirmedAt: data.status === 'CONFIRMED' ? new Date() : undefined,
+          title,
+          notes: data.notes,
+          bookedByUserId: data.bookedByUserId,
+          source: data.source ?? 'APP',
+          statusChanges: {
+            create: {
+              toStatus: data.status ?? 'SCHEDULED',
+              changedByUserId: data.bookedByUserId,
+              source: data.source === PARENT_BOOKING_SOURCE ? 'PARENT' : 'PROFESSIONAL',
+            },
+          },
+        },
+        include: {
+          baby: { select: { id: true, name: true, birthDate: true } },
+        },
+      });
+    });
+  }
+
+  /**
+   * Checagem de conflito para gravar na mesma transação: trava a agenda do
+   * profissional até o commit (duas marcações simultâneas no mesmo horário não
+   * passam juntas) e respeita o intervalo livre (bufferMinutes) da agenda.
+   */
+  static async assertSlotFree(tx: Prisma.TransactionClient, slot: SlotCheck): Promise<void> {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext('appointments'), ${slot.professionalId}::int)`;
+
+    // Vale o maior intervalo entre as agendas da clínica (a do dia depende do fuso)
+    const schedule = await tx.professionalSchedule.aggregate({
+      where: { professionalId: slot.professionalId, clinicId: slot.clinicId ?? null, isActive: true },
+      _max: { bufferMinutes: true },
+    });
+    const buffer = schedule._max.bufferMinutes ?? 0;
+
+    const overlapping = await tx.appointment.findFirst({
+      where: {
+        professionalId: slot.professionalId,
+        status: { notIn: ['CANCELLED', 'NO_SHOW'] },
+        startAt: { lt: addMinutes(slot.endAt, buffer) },
+        endAt: { gt: addMinutes(slot.startAt, -buffer) },
+        ...(slot.excludeAppointmentId ? { id: { not: slot.excludeAppointmentId } } : {}),
       },
     });
+    if (overlapping) throw AppError.conflict('Já existe um agendamento neste horário');
   }
 
   static async listForProfessional(
@@ -113,99 +285,264 @@ export class AppointmentService {
   static async getById(id: number, professionalId: number) {
     const apt = await prisma.appointment.findUnique({
       where: { id },
-      include: { baby: true, visit: true },
+      include: {
+        baby: true,
+        visit: true,
+        statusChanges: { orderBy: { createdAt: 'asc' } },
+      },
     });
     if (!apt) throw AppError.notFound('Agendamento não encontrado');
     if (apt.professionalId !== professionalId) throw AppError.forbidden('Acesso negado');
     return apt;
   }
 
-  static async updateStatus(id: number, status: AppointmentStatus, professionalId: number, visitId?: number) {
-    const apt = await this.getById(id, professionalId);
+  static async updateStatus(
+    id: number,
+    status: AppointmentStatus,
+    professionalId: number,
+    userId: number,
+    opts: { visitId?: number; reason?: string } = {}
+  ) {
+    await this.getById(id, professionalId);
+    return this.transition(id, status, { userId, source: 'PROFESSIONAL', reason: opts.reason }, opts.visitId);
+  }
 
-    return prisma.appointment.update({
-      where: { id },
-      data: {
-        status,
-        visitId: visitId ?? apt.visitId,
-        cancelledAt: status === 'CANCELLED' ? new Date() : undefined,
-      },
-      include: { baby: true },
+  static async cancel(id: number, professionalId: number, userId: number, reason?: string) {
+    await this.getById(id, professionalId);
+    return this.transition(id, 'CANCELLED', { userId, source: 'PROFESSIONAL', reason });
+  }
+
+  /**
+   * Muda o status seguindo APPOINTMENT_TRANSITIONS e registra quem/quando no
+   * histórico. IN_PROGRESS abre o rascunho do prontuário; COMPLETED o finaliza.
+   * Quem chama é responsável por verificar o acesso ao agendamento.
+   */
+  static async transition(id: number, to: AppointmentStatus, ctx: StatusChangeContext, visitId?: number) {
+    const apt = await prisma.appointment.findUnique({ where: { id } });
+    if (!apt) throw AppError.notFound('Agendamento não encontrado');
+
+    if (!canTransition(apt.status, to)) {
+      throw AppError.badRequest(
+        `Não é possível mudar o agendamento de ${STATUS_LABELS[apt.status]} para ${STATUS_LABELS[to]}`
+      );
+    }
+
+    if (visitId !== undefined) {
+      const visit = await prisma.clinicalVisit.findFirst({
+        where: { id: visitId, babyId: apt.babyId, professionalId: apt.professionalId },
+      });
+      if (!visit) throw AppError.notFound('Consulta não encontrada');
+    }
+
+    return prisma.$transaction(async (tx) => {
+      const now = new Date();
+      let linkedVisitId = visitId ?? apt.visitId;
+
+      if (to === 'IN_PROGRESS' && !linkedVisitId) {
+        const draft = await createVisitDraft(tx, apt);
+        linkedVisitId = draft.id;
+      }
+      if (to === 'COMPLETED' && linkedVisitId) {
+        await tx.clinicalVisit.updateMany({
+          where: { id: linkedVisitId, status: 'DRAFT' },
+          data: { status: 'FINALIZED' },
+        });
+      }
+
+      // Só aplica se o status não mudou desde a leitura (duas recepções ao mesmo tempo)
+      const { count } = await tx.appointment.updateMany({
+        where: { id, status: apt.status },
+        data: {
+          status: to,
+          visitId: linkedVisitId,
+          sequence: { increment: 1 },
+          confirmedAt: to === 'CONFIRMED' ? now : undefined,
+          cancelledAt: to === 'CANCELLED' ? now : undefined,
+          cancellationReason: to === 'CANCELLED' ? ctx.reason ?? null : undefined,
+        },
+      });
+      if (count === 0) {
+        throw AppError.conflict('O agendamento foi alterado por outra pessoa. Atualize e tente novamente.');
+      }
+
+      await tx.appointmentStatusChange.create({
+        data: {
+          appointmentId: id,
+          fromStatus: apt.status,
+          toStatus: to,
+          changedByUserId: ctx.userId,
+          source: ctx.source,
+          reason: ctx.reason,
+        },
+      });
+
+      return tx.appointment.findUniqueOrThrow({ where: { id }, include: transitionInclude });
     });
   }
 
-  static async cancel(id: number, professionalId: number, reason?: string) {
-    return prisma.appointment.update({
-      where: { id },
+  /**
+   * Registra no histórico uma mudança feita fora do fluxo normal (ex.: remarcação)
+   */
+  static async recordStatusChange(
+    appointmentId: number,
+    fromStatus: AppointmentStatus,
+    toStatus: AppointmentStatus,
+    ctx: StatusChangeContext
+  ) {
+    return prisma.appointmentStatusChange.create({
       data: {
-        status: 'CANCELLED',
-        cancellationReason: reason,
-        cancelledAt: new Date(),
+        appointmentId,
+        fromStatus,
+        toStatus,
+        changedByUserId: ctx.userId,
+        source: ctx.source,
+        reason: ctx.reason,
       },
     });
   }
 
-  static async getAvailableSlots(
-    professionalId: number,
-    date: Date,
-    durationMinutes: number = 30,
-    clinicId?: number
-  ) {
-    const dayOfWeek = date.getDay();
-    const dateStr = format(date, 'yyyy-MM-dd');
-
-    const schedules = await prisma.professionalSchedule.findMany({
+  /**
+   * Faltas (NO_SHOW) do profissional entre as consultas já ocorridas no período,
+   * separadas por consultas confirmadas ou não pelos pais e por mês
+   */
+  static async getNoShowStats(professionalId: number, opts: { startDate: Date; endDate: Date; clinicId?: number }) {
+    const now = new Date();
+    const appointments = await prisma.appointment.findMany({
       where: {
         professionalId,
-        clinicId: clinicId ?? null,
-        dayOfWeek,
-        isActive: true,
+        startAt: { gte: opts.startDate, lte: opts.endDate < now ? opts.endDate : now },
+        status: { notIn: ['REQUESTED', 'CANCELLED'] },
+        ...(opts.clinicId ? { clinicId: opts.clinicId } : {}),
       },
+      select: { startAt: true, status: true, confirmedAt: true },
     });
 
-    const exceptions = await prisma.scheduleException.findMany({
+    const rate = (noShows: number, total: number) => (total > 0 ? Math.round((noShows / total) * 1000) / 1000 : 0);
+    const summarize = (list: typeof appointments) => {
+      const noShows = list.filter(a => a.status === 'NO_SHOW').length;
+      return { total: list.length, noShows, noShowRate: rate(noShows, list.length) };
+    };
+
+    const byMonth = new Map<string, typeof appointments>();
+    for (const apt of appointments) {
+      const month = formatInUserTimezone(apt.startAt, DEFAULT_TIMEZONE, 'yyyy-MM');
+      if (!byMonth.has(month)) byMonth.set(month, []);
+      byMonth.get(month)!.push(apt);
+    }
+
+    return {
+      startDate: opts.startDate,
+      endDate: opts.endDate,
+      ...summarize(appointments),
+      completed: appointments.filter(a => a.status === 'COMPLETED').length,
+      confirmed: summarize(appointments.filter(a => a.confirmedAt !== null)),
+      unconfirmed: summarize(appointments.filter(a => a.confirmedAt === null)),
+      byMonth: [...byMonth.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([month, list]) => ({ month, ...summarize(list) })),
+    };
+  }
+
+  /**
+   * Horários livres do profissional de `from` a `to` (datas locais de cada
+   * clínica). Considera as consultas em todas as clínicas do profissional.
+   */
+  static async getAvailableSlots(professionalId: number, query: AvailabilityQuery): Promise<AvailableSlot[]> {
+    const to = query.to ?? query.from;
+    const days = differenceInCalendarDays(parseISO(to), parseISO(query.from));
+    if (days < 0) throw AppError.badRequest('Data final deve ser igual ou posterior à inicial');
+    if (days >= MAX_AVAILABILITY_DAYS) {
+      throw AppError.badRequest(`Período máximo de ${MAX_AVAILABILITY_DAYS} dias`);
+    }
+
+    const schedules = await prisma.professionalSchedule.findMany({
       where: {
         professionalId,
-        clinicId: clinicId ?? null,
-        exceptionDate: date,
+        isActive: true,
+        ...(query.clinicId !== undefined ? { clinicId: query.clinicId } : {}),
       },
     });
+    if (schedules.length === 0) return [];
+
+    const rangeStart = new Date(`${query.from}T00:00:00Z`);
+    const rangeEnd = new Date(`${to}T00:00:00Z`);
 
-    const blocked = exceptions.filter((e) => e.type === 'BLOCKED');
-    if (blocked.length) return [];
+    const [exceptions, timezones, durationMinutes] = await Promise.all([
+      prisma.scheduleException.findMany({
+        where: {
+          professionalId,
+          exceptionDate: { gte: rangeStart, lte: rangeEnd },
+          ...(query.clinicId !== undefined ? { OR: [{ clinicId: null }, { clinicId: query.clinicId }] } : {}),
+        },
+      }),
+      this.getScheduleTimezones(professionalId, schedules.map(s => s.clinicId)),
+      this.resolveDuration(professionalId, query.type, query.durationMinutes),
+    ]);
 
-    const existing = await prisma.appointment.findMany({
+    // Folga de um dia de cada lado cobre qualquer fuso
+    const appointments = await prisma.appointment.findMany({
       where: {
         professionalId,
-        startAt: { gte: startOfDay(date) },
-        endAt: { lte: endOfDay(date) },
         status: { notIn: ['CANCELLED', 'NO_SHOW'] },
+        startAt: { lt: addDays(rangeEnd, 2) },
+        endAt: { gt: addDays(rangeStart, -1) },
+        ...(query.excludeAppointmentId ? { id: { not: query.excludeAppointmentId } } : {}),
       },
+      select: { startAt: true, endAt: true },
     });
 
-    const slots: { start: Date; end: Date }[] = [];
-
-    for (const s of schedules) {
-      const start = parse(s.startTime, 'HH:mm', date);
-      const end = parse(s.endTime, 'HH:mm', date);
-
-      let current = start;
-      while (addMinutes(current, durationMinutes) <= end) {
-        const slotEnd = addMinutes(current, durationMinutes);
-        const overlaps = existing.some(
-          (e) =>
-            (current >= e.startAt && current < e.endAt) ||
-            (slotEnd > e.startAt && slotEnd <= e.endAt) ||
-            (current <= e.startAt && slotEnd >= e.endAt)
-        );
-        if (!overlaps && current >= new Date()) {
-          slots.push({ start: new Date(current), end: new Date(slotEnd) });
-        }
-        current = addMinutes(current, durationMinutes);
-      }
+    return computeAvailableSlots({
+      from: query.from,
+      to,
+      schedules,
+      exceptions,
+      appointments,
+      timezoneFor: clinicId => timezones.get(clinicId) ?? DEFAULT_TIMEZONE,
+      durationMinutes,
+    });
+  }
+
+  /**
+   * Duração da consulta: informada > padrão do tipo para o profissional > slotDuration da agenda
+   */
+  static async resolveDuration(
+    professionalId: number,
+    type?: AppointmentType,
+    durationMinutes?: number
+  ): Promise<number | undefined> {
+    if (durationMinutes) return durationMinutes;
+    if (!type) return undefined;
+
+    const byType = await prisma.professionalAppointmentDuration.findUnique({
+      where: { professionalId_type: { professionalId, type } },
+    });
+    return byType?.durationMinutes;
+  }
+
+  /**
+   * Fuso de cada agenda: o da clínica, ou o do profissional para a agenda sem clínica
+   */
+  private static async getScheduleTimezones(professionalId: number, clinicIds: (number | null)[]) {
+    const ids = [...new Set(clinicIds.filter((id): id is number => id !== null))];
+    const timezones = new Map<number | null, string>();
+
+    if (ids.length) {
+      const clinics = await prisma.clinic.findMany({
+        where: { id: { in: ids } },
+        select: { id: true, timezone: true },
+      });
+      for (const clinic of clinics) timezones.set(clinic.id, clinic.timezone);
+    }
+
+    if (clinicIds.includes(null)) {
+      const professional = await prisma.professional.findUnique({
+        where: { id: professionalId },
+        select: { user: { select: { settings: { select: { timezone: true } } } } },
+      });
+      timezones.set(null, professional?.user?.settings?.timezone ?? DEFAULT_TIMEZONE);
     }
 
-    return slots;
+    return timezones;
   }
 }
 
@@ -226,6 +563,9 @@ export class ScheduleService {
       startTime: data.startTime,
       endTime: data.endTime,
       slotDuration: data.slotDuration ?? 30,
+      bufferMinutes: data.bufferMinutes ?? 0,
+      validFrom: data.validFrom ?? null,
+      validUntil: data.validUntil ?? null,
       isActive: true,
     };
 
@@ -250,6 +590,13 @@ export class ScheduleService {
   }
 
   static async createException(professionalId: number, data: CreateExceptionInput) {
+    if (!SCHEDULE_EXCEPTION_TYPES.includes(data.type)) {
+      throw AppError.badRequest('Tipo de exceção inválido');
+    }
+    if (data.type === 'REDUCED_HOURS' && (!data.startTime || !data.endTime)) {
+      throw AppError.badRequest('Informe o horário de início e fim do expediente reduzido');
+    }
+
     return prisma.scheduleException.create({
       data: {
         professionalId,
@@ -271,4 +618,26 @@ export class ScheduleService {
       },
     });
   }
+
+  static async listAppointmentDurations(professionalId: number) {
+    return prisma.professionalAppointmentDuration.findMany({
+      where: { professionalId },
+      orderBy: { type: 'asc' },
+    });
+  }
+
+  /**
+   * Define (ou remove, com null) a duração padrão de um tipo de consulta
+   */
+  static async setAppointmentDuration(professionalId: number, type: AppointmentType, durationMinutes: number | null) {
+    if (durationMinutes === null) {
+      await prisma.professionalAppointmentDuration.deleteMany({ where: { professionalId, type } });
+      return null;
+    }
+    return prisma.professionalAppointmentDuration.upsert({
+      where: { professionalId_type: { professionalId, type } },
+      create: { professionalId, type, durationMinutes },
+      update: { durationMinutes },
+    });
+  }
 }
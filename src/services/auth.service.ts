@@ -9,6 +9,7 @@ import { JwtPayload } from '../types';
 import { UserRole, Relationship } from '@prisma/client';
 import { logger } from '../config/logger';
 import { AuditService } from '../core/entitlements';
+import { JourneyService } from './journey.service';
 
 /** Atualiza last_activity_at sem bloquear a resposta da requisição */
 function touchLastActivity(userId: number): void {
@@ -141,6 +142,8 @@ export class AuthService {
       return newUser;
     });
 
+    await JourneyService.emitEvent(user.id, 'user_registered', { role: user.role });
+
     // Gerar tokens
     const payload: JwtPayload = {
       userId: user.id,
@@ -1,10 +1,20 @@
 // Olive Baby API - Baby Invite Service
 import { prisma } from '../config/database';
 import { AppError } from '../utils/errors/AppError';
-import { BabyMemberType, BabyMemberRole, BabyInviteStatus } from '@prisma/client';
+import { BabyMemberType, BabyMemberRole, BabyInviteStatus, BabyMemberStatus, Prisma } from '@prisma/client';
 import crypto from 'crypto';
-import { requireBabyOwner, canAddOwner } from '../utils/helpers/baby-permission.helper';
+import {
+  requireBabyOwner,
+  requireBabyAccess,
+  canAddOwner,
+  isBabyOwner,
+  isOwnerRole,
+  getBabyPermissions,
+  isWithinPermissions,
+} from '../utils/helpers/baby-permission.helper';
+import { BABY_ROLE_PERMISSIONS } from '../types';
 import { logger } from '../config/logger';
+import { JourneyService } from './journey.service';
 
 export interface CreateBabyInviteData {
   babyId: number;
@@ -25,6 +35,7 @@ export interface VerifyInviteTokenResult {
     role: BabyMemberRole;
     invitedName?: string;
     message?: string;
+    accessExpiresAt: Date | null;
   };
   baby: {
     id: number;
@@ -34,6 +45,43 @@ export interface VerifyInviteTokenResult {
   userExists: boolean;
 }
 
+/**
+ * Owners gerenciam todos os convites; membros com permissão de convite,
+ * apenas os que eles mesmos criaram
+ */
+async function requireInviteManager(
+  userId: number,
+  invite: { babyId: number; createdByUserId: number }
+): Promise<void> {
+  if (await isBabyOwner(userId, invite.babyId)) return;
+
+  await requireBabyAccess(userId, invite.babyId, 'invite');
+  if (invite.createdByUserId !== userId) {
+    throw AppError.forbidden('Você só pode gerenciar os convites que criou');
+  }
+}
+
+/**
+ * Membro que não é owner só convida para papéis sem mais acesso do que o dele,
+ * e o convidado herda o fim do seu acesso temporário (retornado aqui)
+ */
+async function requireDelegableRole(
+  userId: number,
+  babyId: number,
+  role: BabyMemberRole
+): Promise<Date | null> {
+  const permissions = await getBabyPermissions(userId, babyId);
+  if (!permissions || !isWithinPermissions(BABY_ROLE_PERMISSIONS[role], permissions)) {
+    throw AppError.forbidden('Você não pode convidar alguém com mais acesso do que o seu');
+  }
+
+  const member = await prisma.babyMember.findFirst({
+    where: { babyId, userId, status: BabyMemberStatus.ACTIVE },
+    select: { accessExpiresAt: true },
+  });
+  return member?.accessExpiresAt ?? null;
+}
+
 /**
  * Cria um convite para um bebê
  */
@@ -41,8 +89,15 @@ export async function createBabyInvite(
   data: CreateBabyInviteData,
   createdByUserId: number
 ) {
-  // Verificar se o criador é owner
-  await requireBabyOwner(createdByUserId, data.babyId);
+  // Convidar responsável principal é exclusivo dos owners; os demais papéis
+  // exigem a permissão de convite do membro
+  let accessExpiresAt: Date | null = null;
+  if (isOwnerRole(data.role)) {
+    await requireBabyOwner(createdByUserId, data.babyId);
+  } else if (!(await isBabyOwner(createdByUserId, data.babyId))) {
+    await requireBabyAccess(createdByUserId, data.babyId, 'invite');
+    accessExpiresAt = await requireDelegableRole(createdByUserId, data.babyId, data.role);
+  }
 
   // Verificar limite de owners se for convite de parent
   if (
@@ -112,6 +167,7 @@ export async function createBabyInvite(
       role: data.role,
       tokenHash,
       expiresAt,
+      accessExpiresAt,
       invitedName: data.invitedName || undefined,
       message: data.message || undefined,
       createdByUserId,
@@ -213,7 +269,8 @@ export async function verifyInviteToken(token: string): Promise<VerifyInviteToke
       memberType: invite.memberType,
       role: invite.role,
       invitedName: invite.invitedName || undefined,
-      message: invite.message || undefined
+      message: invite.message || undefined,
+      accessExpiresAt: invite.accessExpiresAt
     },
     baby: invite.baby,
     userExists: !!existingUser
@@ -242,6 +299,11 @@ export async function acceptInvite(
     throw AppError.forbidden('Este convite foi enviado para outro email');
   }
 
+  const { accessExpiresAt } = verification.invite;
+  if (accessExpiresAt && accessExpiresAt <= new Date()) {
+    throw AppError.badRequest('O acesso de quem enviou este convite já terminou');
+  }
+
   // Verificar se já existe vínculo ativo
   const existingMember = await prisma.babyMember.findUnique({
     where: {
@@ -276,6 +338,10 @@ export async function acceptInvite(
           memberType: verification.invite.memberType,
           role: verification.invite.role,
           status: 'ACTIVE',
+          // Vale só o que o convite dá: sem permissões ou janela do vínculo antigo
+          permissions: Prisma.DbNull,
+          accessStartsAt: null,
+          accessExpiresAt,
           revokedAt: null,
           revokedByUserId: null
         }
@@ -287,7 +353,8 @@ export async function acceptInvite(
           userId,
           memberType: verification.invite.memberType,
           role: verification.invite.role,
-          status: 'ACTIVE'
+          status: 'ACTIVE',
+          accessExpiresAt
         }
       });
     }
@@ -315,6 +382,11 @@ export async function acceptInvite(
     return member;
   });
 
+  await JourneyService.emitEvent(userId, 'invite_accepted', {
+    babyId: verification.invite.babyId,
+    role: verification.invite.role,
+  });
+
   return member;
 }
 
@@ -334,8 +406,7 @@ export async function resendBabyInvite(
     throw AppError.notFound('Convite não encontrado');
   }
 
-  // Verificar se o criador é owner
-  await requireBabyOwner(requestingUserId, invite.babyId);
+  await requireInviteManager(requestingUserId, invite);
 
   if (invite.status === BabyInviteStatus.ACCEPTED) {
     throw AppError.badRequest('Este convite já foi aceito');
@@ -395,8 +466,7 @@ export async function revokeBabyInvite(
     throw AppError.notFound('Convite não encontrado');
   }
 
-  // Verificar se o criador é owner
-  await requireBabyOwner(requestingUserId, invite.babyId);
+  await requireInviteManager(requestingUserId, invite);
 
   if (invite.status === BabyInviteStatus.ACCEPTED) {
     throw AppError.badRequest('Não é possível revogar um convite já aceito');
@@ -426,11 +496,14 @@ export async function getBabyInvites(
   babyId: number,
   requestingUserId: number
 ) {
-  // Verificar acesso
-  await requireBabyOwner(requestingUserId, babyId);
+  // Owners veem todos; membros com permissão de convite, só os próprios
+  const isOwner = await isBabyOwner(requestingUserId, babyId);
+  if (!isOwner) {
+    await requireBabyAccess(requestingUserId, babyId, 'invite');
+  }
 
   const invites = await prisma.babyInvite.findMany({
-    where: { babyId },
+    where: isOwner ? { babyId } : { babyId, createdByUserId: requestingUserId },
     include: {
       createdBy: {
         select: {
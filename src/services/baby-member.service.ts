@@ -1,20 +1,54 @@
 // Olive Baby API - Baby Member Service
 import { prisma } from '../config/database';
 import { AppError } from '../utils/errors/AppError';
-import { BabyMemberType, BabyMemberRole, BabyMemberStatus } from '@prisma/client';
-import { requireBabyOwner, canAddOwner, countActiveOwners } from '../utils/helpers/baby-permission.helper';
+import { BabyMemberType, BabyMemberRole, BabyMemberStatus, Prisma } from '@prisma/client';
+import {
+  requireBabyOwner,
+  canAddOwner,
+  countActiveOwners,
+  activeMemberWhere,
+  getBabyPermissions,
+  isOwnerRole,
+  resolveBabyMemberPermissions,
+} from '../utils/helpers/baby-permission.helper';
+import { BABY_PERMISSION_DOMAINS, BabyMemberPermissionOverrides } from '../types';
+import { RealtimeService } from './realtime.service';
 
 export interface CreateBabyMemberData {
   babyId: number;
   userId: number;
   memberType: BabyMemberType;
   role: BabyMemberRole;
-  permissions?: Record<string, any>;
+  permissions?: BabyMemberPermissionOverrides;
 }
 
 export interface UpdateBabyMemberData {
   role?: BabyMemberRole;
-  permissions?: Record<string, any>;
+  permissions?: BabyMemberPermissionOverrides | null;   // null volta ao padrão do papel
+  accessStartsAt?: Date | null;
+  accessExpiresAt?: Date | null;
+}
+
+/**
+ * Aplica as alterações sobre as diferenças já salvas (por domínio)
+ */
+function mergePermissionOverrides(
+  current: Prisma.JsonValue | null,
+  changes: BabyMemberPermissionOverrides
+): BabyMemberPermissionOverrides {
+  const merged: BabyMemberPermissionOverrides =
+    current && typeof current === 'object' && !Array.isArray(current)
+      ? { ...(current as BabyMemberPermissionOverrides) }
+      : {};
+
+  for (const domain of BABY_PERMISSION_DOMAINS) {
+    if (changes[domain]) merged[domain] = { ...merged[domain], ...changes[domain] };
+  }
+  for (const flag of ['exports', 'aiChat', 'invite'] as const) {
+    if (changes[flag] !== undefined) merged[flag] = changes[flag];
+  }
+
+  return merged;
 }
 
 /**
@@ -26,7 +60,7 @@ export async function getBabyMembers(babyId: number, requestingUserId: number) {
     where: {
       babyId,
       userId: requestingUserId,
-      status: BabyMemberStatus.ACTIVE
+      ...activeMemberWhere()
     }
   });
 
@@ -58,7 +92,33 @@ export async function getBabyMembers(babyId: number, requestingUserId: number) {
     ]
   });
 
-  return members;
+  return members.map(member => ({
+    ...member,
+    effectivePermissions: resolveBabyMemberPermissions(member.role, member.permissions)
+  }));
+}
+
+/**
+ * Permissões efetivas do usuário atual sobre o bebê (para o app esconder ações)
+ */
+export async function getMyBabyPermissions(babyId: number, userId: number) {
+  const permissions = await getBabyPermissions(userId, babyId);
+  if (!permissions) {
+    throw AppError.forbidden('Você não tem acesso a este bebê');
+  }
+
+  const member = await prisma.babyMember.findUnique({
+    where: { babyId_userId: { babyId, userId } },
+    select: { role: true, accessStartsAt: true, accessExpiresAt: true }
+  });
+
+  return {
+    babyId,
+    role: member?.role ?? null,
+    accessStartsAt: member?.accessStartsAt ?? null,
+    accessExpiresAt: member?.accessExpiresAt ?? null,
+    permissions
+  };
 }
 
 /**
@@ -134,9 +194,10 @@ export async function createBabyMember(data: CreateBabyMemberData) {
 }
 
 /**
- * Atualiza um vínculo de membro
+ * Atualiza um vínculo de membro (papel, permissões e janela de acesso)
  */
 export async function updateBabyMember(
+  babyId: number,
   memberId: number,
   requestingUserId: number,
   data: UpdateBabyMemberData
@@ -146,13 +207,30 @@ export async function updateBabyMember(
     include: { baby: true }
   });
 
-  if (!member) {
+  if (!member || member.babyId !== babyId) {
     throw AppError.notFound('Vínculo não encontrado');
   }
 
   // Apenas owners podem atualizar vínculos
   await requireBabyOwner(requestingUserId, member.babyId);
 
+  const nextRole = data.role ?? member.role;
+  const restrictsAccess =
+    (data.permissions !== undefined && data.permissions !== null) ||
+    !!data.accessStartsAt ||
+    !!data.accessExpiresAt;
+
+  // Responsáveis principais têm sempre acesso total e permanente
+  if (isOwnerRole(nextRole) && restrictsAccess) {
+    throw AppError.badRequest('O acesso dos responsáveis principais não pode ser restringido');
+  }
+
+  const accessStartsAt = data.accessStartsAt !== undefined ? data.accessStartsAt : member.accessStartsAt;
+  const accessExpiresAt = data.accessExpiresAt !== undefined ? data.accessExpiresAt : member.accessExpiresAt;
+  if (accessStartsAt && accessExpiresAt && accessExpiresAt <= accessStartsAt) {
+    throw AppError.badRequest('O fim do acesso deve ser depois do início');
+  }
+
   // Se mudando para owner, verificar limite
   if (
     data.role &&
@@ -170,11 +248,22 @@ export async function updateBabyMember(
     }
   }
 
-  return prisma.babyMember.update({
+  let permissions: Prisma.InputJsonValue | typeof Prisma.DbNull | undefined;
+  if (data.permissions === null || (data.role && isOwnerRole(data.role))) {
+    permissions = Prisma.DbNull;
+  } else if (data.permissions) {
+    permissions = mergePermissionOverrides(member.permissions, data.permissions) as Prisma.InputJsonValue;
+  }
+
+  const updated = await prisma.babyMember.update({
     where: { id: memberId },
     data: {
       role: data.role,
-      permissions: data.permissions
+      permissions,
+      // Promovido a owner: acesso permanente
+      ...(isOwnerRole(nextRole)
+        ? { accessStartsAt: null, accessExpiresAt: null }
+        : { accessStartsAt: data.accessStartsAt, accessExpiresAt: data.accessExpiresAt })
     },
     include: {
       user: {
@@ -185,6 +274,14 @@ export async function updateBabyMember(
       }
     }
   });
+
+  // Streams abertos passam a seguir o novo acesso (ou são encerrados fora da janela)
+  RealtimeService.refreshAccess(updated.babyId, updated.userId);
+
+  return {
+    ...updated,
+    effectivePermissions: resolveBabyMemberPermissions(updated.role, updated.permissions)
+  };
 }
 
 /**
@@ -218,7 +315,7 @@ export async function revokeBabyMember(
     }
   }
 
-  return prisma.babyMember.update({
+  const revoked = await prisma.babyMember.update({
     where: { id: memberId },
     data: {
       status: BabyMemberStatus.REVOKED,
@@ -226,6 +323,11 @@ export async function revokeBabyMember(
       revokedByUserId: requestingUserId
     }
   });
+
+  // Derruba streams abertos do membro removido
+  RealtimeService.revokeAccess(member.babyId, member.userId);
+
+  return revoked;
 }
 
 /**
@@ -1,12 +1,14 @@
 // Olive Baby API - Baby Service
 import { prisma } from '../config/database';
 import { AppError } from '../utils/errors/AppError';
-import { Relationship } from '@prisma/client';
+import { Gender, Relationship } from '@prisma/client';
 import { isFutureDate } from '../utils/helpers/date.helper';
 import { hashCpf, validateCpfFormat, cleanCpf } from '../utils/helpers/cpf-hash.helper';
 import { BabyMemberType, BabyMemberRole } from '@prisma/client';
 import { hasBabyAccessByCaregiverId, isBabyOwner } from '../utils/helpers/baby-permission.helper';
 import { BabyMemberStatus } from '@prisma/client';
+import { JourneyService } from './journey.service';
+import { VaccineService } from './vaccine.service';
 
 interface CreateBabyInput {
   name: string;
@@ -16,6 +18,8 @@ interface CreateBabyInput {
   country?: string;
   birthWeightGrams?: number;
   birthLengthCm?: number;
+  gender?: Gender;
+  gestationalAgeWeeks?: number;
   relationship: Relationship;
   babyCpf?: string; // CPF do bebê (será hashado)
 }
@@ -28,6 +32,8 @@ interface UpdateBabyInput {
   country?: string;
   birthWeightGrams?: number;
   birthLengthCm?: number;
+  gender?: Gender;
+  gestationalAgeWeeks?: number | null;
 }
 
 interface AddCaregiverInput {
@@ -107,6 +113,8 @@ export class BabyService {
       return baby;
     });
 
+    await JourneyService.emitEvent(userId, 'baby_created', { babyId: result.id });
+
     return result;
   }
 
@@ -298,7 +306,7 @@ export class BabyService {
 
   static async update(babyId: number, caregiverId: number, input: UpdateBabyInput) {
     // Verificar acesso
-    await this.getById(babyId, caregiverId);
+    const current = await this.getById(babyId, caregiverId);
 
     // Validar data de nascimento se fornecida
     if (input.birthDate && isFutureDate(input.birthDate)) {
@@ -322,6 +330,11 @@ export class BabyService {
       },
     });
 
+    // Nova data de nascimento: reprograma o calendário de vacinas
+    if (input.birthDate && baby.birthDate.getTime() !== current.birthDate.getTime()) {
+      await VaccineService.recalculateRecommendedDates(babyId, baby.birthDate);
+    }
+
     return baby;
   }
 
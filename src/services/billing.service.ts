@@ -7,6 +7,7 @@ import { prisma } from '../config/database';
 import { env } from '../config/env';
 import { AppError } from '../utils/errors/AppError';
 import { logger } from '../config/logger';
+import { JourneyService } from './journey.service';
 
 // Initialize Stripe (only if key is configured)
 const stripe = env.STRIPE_SECRET_KEY 
@@ -349,6 +350,7 @@ export class BillingService {
         const subscription = await stripe.subscriptions.retrieve(session.subscription as string);
         await this.handleSubscriptionUpdated(subscription);
         logger.info(`Subscription ${subscription.id} processed from checkout for user ${userId}`);
+        await JourneyService.emitEvent(userId, 'subscription_started', { subscriptionId: subscription.id });
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
         logger.error(`Failed to process subscription from checkout: ${errorMessage}`);
@@ -486,6 +488,7 @@ export class BillingService {
     });
 
     logger.info(`Subscription ${subscription.id} canceled, user ${dbSubscription.userId} downgraded to FREE`);
+    await JourneyService.emitEvent(dbSubscription.userId, 'subscription_canceled', { subscriptionId: subscription.id });
   }
 
   /**
@@ -0,0 +1,251 @@
+// Olive Baby API - Calendar Feed Service
+// Feeds iCal (RFC 5545) por URL secreta: a agenda do profissional e, para a
+// família, as consultas e as próximas vacinas dos bebês. O app de calendário
+// reconhece alterações pelo UID + SEQUENCE de cada evento.
+import crypto from 'crypto';
+import { AppointmentStatus, BabyMemberType, CalendarFeed, CalendarFeedKind, Prisma } from '@prisma/client';
+import { addDays, differenceInHours, format, startOfDay, subDays } from 'date-fns';
+import { prisma } from '../config/database';
+import { env } from '../config/env';
+import { logger } from '../config/logger';
+import { AppError } from '../utils/errors/AppError';
+import { activeMemberWhere, getBabyPermissions, hasPermission } from '../utils/helpers/baby-permission.helper';
+import { buildIcalCalendar, IcalEvent, IcalEventStatus } from '../utils/helpers/ical.helper';
+import { STATUS_LABELS } from './appointment.service';
+
+const TOKEN_BYTES = 32;
+const UID_DOMAIN = 'oliecare.cloud';
+const PAST_DAYS = 30;           // Consultas passadas ainda no feed (inclusive canceladas)
+const VACCINE_AHEAD_DAYS = 365; // Vacinas pendentes previstas até 1 ano à frente
+const MAX_EVENTS = 2000;
+const ACCESS_TOUCH_HOURS = 1;   // Evita gravar a cada atualização do app de calendário
+
+export interface CalendarFeedStatus {
+  kind: CalendarFeedKind;
+  enabled: boolean;
+  createdAt: Date | null;
+  rotatedAt: Date | null;
+  lastAccessedAt: Date | null;
+}
+
+export interface RenderedCalendarFeed {
+  ics: string;
+  filename: string;
+}
+
+const feedAppointmentInclude = {
+  baby: { select: { id: true, name: true } },
+  professional: { select: { fullName: true } },
+  clinic: { select: { name: true, address: true, city: true, state: true } },
+} satisfies Prisma.AppointmentInclude;
+
+type FeedAppointment = Prisma.AppointmentGetPayload<{ include: typeof feedAppointmentInclude }>;
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function feedUrl(token: string): string {
+  return `${env.FRONTEND_URL}${env.API_PREFIX}/calendar-feeds/${token}.ics`;
+}
+
+function icalStatus(status: AppointmentStatus): IcalEventStatus {
+  if (status === 'CANCELLED') return 'CANCELLED';
+  if (status === 'REQUESTED') return 'TENTATIVE';
+  return 'CONFIRMED';
+}
+
+function clinicLocation(clinic: FeedAppointment['clinic']): string | null {
+  if (!clinic) return null;
+  const place = [clinic.city, clinic.state].filter(Boolean).join('/');
+  return [clinic.name, clinic.address, place].filter(Boolean).join(' - ');
+}
+
+function appointmentEvent(apt: FeedAppointment, summary: string): IcalEvent {
+  const description = [`Status: ${STATUS_LABELS[apt.status]}`];
+  if (apt.status === 'CANCELLED' && apt.cancellationReason) {
+    description.push(`Motivo: ${apt.cancellationReason}`);
+  }
+
+  return {
+    uid: `appointment-${apt.id}@${UID_DOMAIN}`,
+    sequence: apt.sequence,
+    lastModified: apt.updatedAt,
+    start: apt.startAt,
+    end: apt.endAt,
+    summary,
+    description: description.join('\n'),
+    location: clinicLocation(apt.clinic),
+    status: icalStatus(apt.status),
+  };
+}
+
+export class CalendarFeedService {
+  static async getStatus(userId: number, kind: CalendarFeedKind): Promise<CalendarFeedStatus> {
+    const feed = await prisma.calendarFeed.findUnique({ where: { userId_kind: { userId, kind } } });
+    return {
+      kind,
+      enabled: !!feed,
+      createdAt: feed?.createdAt ?? null,
+      rotatedAt: feed?.rotatedAt ?? null,
+      lastAccessedAt: feed?.lastAccessedAt ?? null,
+    };
+  }
+
+  /**
+   * Gera um novo token (ou o primeiro). A URL só é devolvida aqui: o banco guarda
+   * apenas o hash, então a URL anterior para de funcionar imediatamente.
+   */
+  static async rotate(userId: number, kind: CalendarFeedKind): Promise<CalendarFeedStatus & { url: string }> {
+    if (kind === 'PROFESSIONAL') {
+      const professional = await prisma.professional.findUnique({ where: { userId } });
+      if (!professional) throw AppError.forbidden('Apenas profissionais têm agenda');
+    }
+
+    const token = crypto.randomBytes(TOKEN_BYTES).toString('hex');
+    const tokenHash = hashToken(token);
+
+    const feed = await prisma.calendarFeed.upsert({
+      where: { userId_kind: { userId, kind } },
+      create: { userId, kind, tokenHash },
+      update: { tokenHash, rotatedAt: new Date(), lastAccessedAt: null },
+    });
+
+    logger.info('[CalendarFeed] Token rotated', { userId, kind });
+    return {
+      kind,
+      enabled: true,
+      createdAt: feed.createdAt,
+      rotatedAt: feed.rotatedAt,
+      lastAccessedAt: null,
+      url: feedUrl(token),
+    };
+  }
+
+  static async disable(userId: number, kind: CalendarFeedKind): Promise<void> {
+    await prisma.calendarFeed.deleteMany({ where: { userId, kind } });
+    logger.info('[CalendarFeed] Disabled', { userId, kind });
+  }
+
+  /**
+   * Conteúdo do feed pelo token da URL. Token desconhecido, usuário inativo ou
+   * profissional desativado respondem igual (404), sem revelar qual foi o caso.
+   */
+  static async render(token: string): Promise<RenderedCalendarFeed> {
+    const feed = await prisma.calendarFeed.findUnique({
+      where: { tokenHash: hashToken(token) },
+      include: { user: { select: { id: true, isActive: true, status: true } } },
+    });
+    if (!feed || !feed.user.isActive || feed.user.status !== 'ACTIVE') {
+      throw AppError.notFound('Calendário não encontrado');
+    }
+
+    const rendered = feed.kind === 'PROFESSIONAL'
+      ? await this.renderProfessional(feed.userId)
+      : await this.renderFamily(feed.userId);
+
+    await this.touch(feed);
+    return rendered;
+  }
+
+  private static async renderProfessional(userId: number): Promise<RenderedCalendarFeed> {
+    const professional = await prisma.professional.findUnique({ where: { userId } });
+    if (!professional || professional.status !== 'ACTIVE') {
+      throw AppError.notFound('Calendário não encontrado');
+    }
+
+    const appointments = await prisma.appointment.findMany({
+      where: { professionalId: professional.id, startAt: { gte: subDays(new Date(), PAST_DAYS) } },
+      include: feedAppointmentInclude,
+      orderBy: { startAt: 'asc' },
+      take: MAX_EVENTS,
+    });
+
+    const ics = buildIcalCalendar({
+      name: `OlieCare - Agenda de ${professional.fullName}`,
+      events: appointments.map(apt => appointmentEvent(apt, apt.title ?? `${apt.baby.name} - Consulta`)),
+    });
+    return { ics, filename: 'oliecare-agenda.ics' };
+  }
+
+  /**
+   * Bebês da família com o que o usuário pode ver de cada um: consultas exigem
+   * clinical:read e vacinas, vaccines:read (checado a cada atualização do feed)
+   */
+  private static async renderFamily(userId: number): Promise<RenderedCalendarFeed> {
+    const [members, legacyLinks] = await Promise.all([
+      prisma.babyMember.findMany({
+        where: { userId, memberType: { not: BabyMemberType.PROFESSIONAL }, ...activeMemberWhere() },
+        select: { babyId: true },
+      }),
+      prisma.caregiverBaby.findMany({
+        where: { caregiver: { userId } },
+        select: { babyId: true },
+      }),
+    ]);
+    const babyIds = [...new Set([...members, ...legacyLinks].map(link => link.babyId))];
+
+    const appointmentBabyIds: number[] = [];
+    const vaccineBabyIds: number[] = [];
+    for (const babyId of babyIds) {
+      const permissions = await getBabyPermissions(userId, babyId);
+      if (!permissions) continue;
+      if (hasPermission(permissions, 'clinical:read')) appointmentBabyIds.push(babyId);
+      if (hasPermission(permissions, 'vaccines:read')) vaccineBabyIds.push(babyId);
+    }
+
+    const today = startOfDay(new Date());
+    const [appointments, vaccines] = await Promise.all([
+      prisma.appointment.findMany({
+        where: { babyId: { in: appointmentBabyIds }, startAt: { gte: subDays(today, PAST_DAYS) } },
+        include: feedAppointmentInclude,
+        orderBy: { startAt: 'asc' },
+        take: MAX_EVENTS,
+      }),
+      prisma.babyVaccineRecord.findMany({
+        where: {
+          babyId: { in: vaccineBabyIds },
+          status: 'PENDING',
+          recommendedAt: { gte: today, lte: addDays(today, VACCINE_AHEAD_DAYS) },
+        },
+        include: { baby: { select: { name: true } } },
+        orderBy: { recommendedAt: 'asc' },
+        take: MAX_EVENTS,
+      }),
+    ]);
+
+    const events: IcalEvent[] = appointments.map(apt =>
+      appointmentEvent(apt, `Consulta de ${apt.baby.name} - ${apt.professional.fullName}`)
+    );
+
+    // Registros de vacina não têm versão própria: ao aplicar a dose o evento sai do
+    // feed, e uma nova data chega pelo LAST-MODIFIED
+    for (const record of vaccines) {
+      events.push({
+        uid: `vaccine-${record.id}@${UID_DOMAIN}`,
+        sequence: 0,
+        lastModified: record.updatedAt,
+        start: record.recommendedAt,
+        end: addDays(record.recommendedAt, 1),
+        allDay: true,
+        summary: `Vacina de ${record.baby.name}: ${record.vaccineName} (${record.doseLabel})`,
+        description: record.validUntil
+          ? `Aplicar até ${format(record.validUntil, 'dd/MM/yyyy')}`
+          : null,
+      });
+    }
+
+    const ics = buildIcalCalendar({
+      name: 'OlieCare - Família',
+      description: 'Consultas e próximas vacinas',
+      events,
+    });
+    return { ics, filename: 'oliecare-familia.ics' };
+  }
+
+  private static async touch(feed: CalendarFeed): Promise<void> {
+    const now = new Date();
+    if (feed.lastAccessedAt && differenceInHours(now, feed.lastAccessedAt) < ACCESS_TOUCH_HOURS) return;
+    await prisma.calendarFeed.update({ where: { id: feed.id }, data: { lastAccessedAt: now } });
+  }
+}
@@ -1,6 +1,7 @@
 // Olive Baby API - Clinic Service
 import { prisma } from '../config/database';
 import { AppError } from '../utils/errors/AppError';
+import { isValidTimezone } from '../utils/helpers/timezone.helper';
 import { VisitType } from '@prisma/client';
 
 export interface CreateClinicInput {
@@ -16,6 +17,7 @@ export interface CreateClinicInput {
   primaryColor?: string;
   faviconUrl?: string;
   supportEmail?: string;
+  timezone?: string;
 }
 
 export interface UpdateClinicInput {
@@ -31,11 +33,20 @@ export interface UpdateClinicInput {
   primaryColor?: string;
   faviconUrl?: string;
   supportEmail?: string;
+  timezone?: string;
   isActive?: boolean;
 }
 
+// A agenda da clínica é calculada neste fuso
+function assertValidTimezone(timezone?: string) {
+  if (timezone !== undefined && !isValidTimezone(timezone)) {
+    throw AppError.badRequest('Fuso horário inválido');
+  }
+}
+
 export class ClinicService {
   static async create(data: CreateClinicInput, professionalId: number) {
+    assertValidTimezone(data.timezone);
     const slug = data.slug.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
     const existing = await prisma.clinic.findUnique({ where: { slug } });
     if (existing) throw AppError.conflict('Este slug já está em uso');
@@ -87,6 +98,7 @@ export class ClinicService {
 
   static async update(id: number, data: UpdateClinicInput, professionalId: number) {
     await this.ensureProfessionalHasAccess(id, professionalId, ['OWNER', 'ADMIN']);
+    assertValidTimezone(data.timezone);
 
     if (data.slug) {
       data.slug = data.slug.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
@@ -1,7 +1,8 @@
 // Olive Baby API - Clinical Visit Service
 import { prisma } from '../config/database';
 import { AppError } from '../utils/errors/AppError';
-import { VisitType } from '@prisma/client';
+import { ClinicalVisitStatus, VisitType } from '@prisma/client';
+import { RevisionService } from './revision.service';
 
 export interface CreateVisitInput {
   babyId: number;
@@ -32,6 +33,7 @@ export interface UpdateVisitInput {
   heightCm?: number;
   headCircumferenceCm?: number;
   nextVisitDate?: Date;
+  status?: ClinicalVisitStatus;
 }
 
 export class ClinicalVisitService {
@@ -70,16 +72,32 @@ export class ClinicalVisitService {
     });
 
     if (data.weightKg || data.heightCm || data.headCircumferenceCm) {
-      await prisma.growth.create({
-        data: {
-          babyId: data.babyId,
-          measuredAt: data.visitDate,
-          weightKg: data.weightKg,
-          heightCm: data.heightCm,
-          headCircumferenceCm: data.headCircumferenceCm,
-          source: 'clinical_visit',
-          notes: `Consulta ${data.visitType}`,
-        },
+      const professional = await prisma.professional.findUnique({
+        where: { id: data.professionalId },
+        select: { userId: true },
+      });
+
+      await prisma.$transaction(async (tx) => {
+        const growth = await tx.growth.create({
+          data: {
+            babyId: data.babyId,
+            measuredAt: data.visitDate,
+            weightKg: data.weightKg,
+            heightCm: data.heightCm,
+            headCircumferenceCm: data.headCircumferenceCm,
+            source: 'clinical_visit',
+            notes: `Consulta ${data.visitType}`,
+          },
+        });
+
+        await RevisionService.record(tx, {
+          babyId: growth.babyId,
+          entityType: 'GROWTH',
+          entityId: growth.id,
+          action: 'CREATE',
+          after: growth,
+          context: { userId: professional?.userId ?? null, source: 'SYSTEM' },
+        });
       });
     }
 
@@ -120,6 +138,9 @@ export class ClinicalVisitService {
     const visit = await prisma.clinicalVisit.findUnique({ where: { id } });
     if (!visit) throw AppError.notFound('Consulta não encontrada');
     await this.ensureProfessionalHasAccessToBaby(professionalId, visit.babyId);
+    if (visit.status === 'FINALIZED' && data.status === 'DRAFT') {
+      throw AppError.badRequest('Consulta finalizada não pode voltar a rascunho');
+    }
 
     return prisma.clinicalVisit.update({
       where: { id },
@@ -0,0 +1,165 @@
+// Olive Baby API - Custom Routine Type Service
+// Registro de tipos de rotina personalizados por bebê
+import { CustomRoutineType } from '@prisma/client';
+import { prisma } from '../config/database';
+import { AppError } from '../utils/errors/AppError';
+import { CustomMetaFieldDefinition } from '../types';
+import { requireBabyAccessByCaregiverId } from '../utils/helpers/baby-permission.helper';
+
+interface CreateCustomRoutineTypeInput {
+  name: string;
+  key?: string;
+  icon?: string;
+  isTimed?: boolean;
+  metaFields?: CustomMetaFieldDefinition[];
+}
+
+interface UpdateCustomRoutineTypeInput {
+  name?: string;
+  icon?: string | null;
+  isTimed?: boolean;
+  metaFields?: CustomMetaFieldDefinition[];
+  isActive?: boolean;
+}
+
+// Gera uma chave estável a partir do nome (ex: "Tummy Time" -> "tummy_time")
+function slugifyKey(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 50);
+}
+
+export class CustomRoutineTypeService {
+  /**
+   * Lista os tipos personalizados de um bebê (sem verificação de acesso)
+   * Usado quando acesso já foi verificado no controller (ex: profissionais via hasBabyAccess)
+   */
+  static async listByBabyId(babyId: number, includeInactive = false) {
+    return prisma.customRoutineType.findMany({
+      where: {
+        babyId,
+        ...(includeInactive ? {} : { isActive: true }),
+      },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  static async create(
+    caregiverId: number,
+    userId: number,
+    babyId: number,
+    input: CreateCustomRoutineTypeInput
+  ) {
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'routines:write');
+
+    const key = slugifyKey(input.key || input.name);
+    if (!key) {
+      throw AppError.badRequest('Não foi possível gerar uma chave para o tipo de rotina');
+    }
+
+    const existing = await prisma.customRoutineType.findUnique({
+      where: { babyId_key: { babyId, key } },
+    });
+    if (existing) {
+      throw AppError.conflict(
+        `Já existe um tipo de rotina com a chave "${key}"`,
+        'CUSTOM_ROUTINE_TYPE_EXISTS',
+        { customType: existing }
+      );
+    }
+
+    return prisma.customRoutineType.create({
+      data: {
+        babyId,
+        key,
+        name: input.name,
+        icon: input.icon,
+        isTimed: input.isTimed ?? false,
+        metaFields: (input.metaFields || []) as object[],
+        createdByUserId: userId,
+      },
+    });
+  }
+
+  static async update(
+    caregiverId: number,
+    babyId: number,
+    id: number,
+    input: UpdateCustomRoutineTypeInput
+  ) {
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'routines:write');
+    await this.getByBabyId(babyId, id);
+
+    return prisma.customRoutineType.update({
+      where: { id },
+      data: {
+        name: input.name,
+        icon: input.icon,
+        isTimed: input.isTimed,
+        isActive: input.isActive,
+        metaFields: input.metaFields as object[] | undefined,
+      },
+    });
+  }
+
+  /**
+   * Arquiva o tipo (isActive = false). Os registros existentes são mantidos
+   * e continuam aparecendo em listagens, estatísticas e exportações.
+   */
+  static async archive(caregiverId: number, babyId: number, id: number) {
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'routines:write');
+    await this.getByBabyId(babyId, id);
+
+    return prisma.customRoutineType.update({
+      where: { id },
+      data: { isActive: false },
+    });
+  }
+
+  static async getByBabyId(babyId: number, id: number) {
+    const customType = await prisma.customRoutineType.findFirst({
+      where: { id, babyId },
+    });
+
+    if (!customType) {
+      throw AppError.notFound('Tipo de rotina personalizado não encontrado');
+    }
+
+    return customType;
+  }
+
+  /**
+   * Resolve o tipo usado ao registrar uma rotina CUSTOM.
+   * Tipos arquivados não aceitam novos registros.
+   */
+  static async getActiveForRoutine(babyId: number, customTypeId?: number | null) {
+    if (!customTypeId) {
+      throw AppError.badRequest('customTypeId é obrigatório para rotinas do tipo CUSTOM');
+    }
+
+    const customType = await prisma.customRoutineType.findFirst({
+      where: { id: customTypeId, babyId },
+    });
+
+    if (!customType) {
+      throw AppError.badRequest('Tipo de rotina personalizado não pertence a este bebê');
+    }
+
+    if (!customType.isActive) {
+      throw AppError.badRequest(`O tipo de rotina "${customType.name}" está arquivado`);
+    }
+
+    return customType;
+  }
+
+  static getMetaFields(customType: Pick<CustomRoutineType, 'metaFields'> | null | undefined): CustomMetaFieldDefinition[] {
+    if (!customType || !Array.isArray(customType.metaFields)) {
+      return [];
+    }
+    return customType.metaFields as unknown as CustomMetaFieldDefinition[];
+  }
+}
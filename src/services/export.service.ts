@@ -3,8 +3,14 @@ import { prisma } from '../config/database';
 import { AppError } from '../utils/errors/AppError';
 import { RoutineType } from '@prisma/client';
 import { requireBabyAccessByCaregiverId } from '../utils/helpers/baby-permission.helper';
-import { generateRoutinesCsv } from '../utils/helpers/csv.helper';
-import { formatDateBR, formatTimeBR, formatDuration } from '../utils/helpers/date.helper';
+import { generateRoutinesCsv, formatCustomMetaDetails, ROUTINE_TYPE_LABELS } from '../utils/helpers/csv.helper';
+import { generateBabyReportPdf, BabyReportPdfData } from '../utils/helpers/pdf.helper';
+import { CurveCrossing } from '../utils/helpers/growth-percentile.helper';
+import { CustomMetaFieldDefinition } from '../types';
+import { formatDateBR, formatTimeBR, getDateRange, get24hRange } from '../utils/helpers/date.helper';
+import { StatsService } from './stats.service';
+import { GrowthService } from './growth.service';
+import { VaccineService } from './vaccine.service';
 
 interface ExportOptions {
   babyId: number;
@@ -22,7 +28,7 @@ interface ExportGrowthOptions {
 export class ExportService {
   // Exportar rotinas em CSV
   static async exportRoutinesCsv(caregiverId: number, options: ExportOptions): Promise<string> {
-    await requireBabyAccessByCaregiverId(caregiverId, options.babyId);
+    await requireBabyAccessByCaregiverId(caregiverId, options.babyId, 'exports');
 
     // Construir filtros
     const where: any = {
@@ -46,6 +52,9 @@ export class ExportService {
     // Buscar rotinas
     const routines = await prisma.routineLog.findMany({
       where,
+      include: {
+        customType: { select: { name: true, metaFields: true } },
+      },
       orderBy: { startTime: 'asc' },
     });
 
@@ -61,7 +70,7 @@ export class ExportService {
 
   // Exportar crescimento em CSV
   static async exportGrowthCsv(caregiverId: number, options: ExportGrowthOptions): Promise<string> {
-    await requireBabyAccessByCaregiverId(caregiverId, options.babyId);
+    await requireBabyAccessByCaregiverId(caregiverId, options.babyId, 'exports');
 
     // Construir filtros
     const where: any = {
@@ -107,7 +116,7 @@ export class ExportService {
 
   // Exportar marcos em CSV
   static async exportMilestonesCsv(caregiverId: number, babyId: number): Promise<string> {
-    await requireBabyAccessByCaregiverId(caregiverId, babyId);
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'exports');
 
     // Buscar marcos
     const milestones = await prisma.milestone.findMany({
@@ -136,7 +145,7 @@ export class ExportService {
   // Exportar relatório completo do bebê em CSV
   static async exportFullReport(caregiverId: number, babyId: number, startDate?: Date, endDate?: Date): Promise<string> {
     // Verificar acesso ao bebê
-    await requireBabyAccessByCaregiverId(caregiverId, babyId);
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'exports');
 
     const baby = await prisma.baby.findUnique({ where: { id: babyId } });
 
@@ -164,7 +173,7 @@ export class ExportService {
     csv += '=== RESUMO DE ROTINAS ===\n';
     
     const routineCounts = await prisma.routineLog.groupBy({
-      by: ['routineType'],
+      by: ['routineType', 'customTypeId'],
       where: {
         babyId,
         ...(Object.keys(dateFilter).length > 0 && { startTime: dateFilter }),
@@ -178,10 +187,20 @@ export class ExportService {
       DIAPER: 'Fralda',
       BATH: 'Banho',
       MILK_EXTRACTION: 'Extracao de Leite',
+      CUSTOM: 'Personalizada',
     };
 
+    const customTypes = await prisma.customRoutineType.findMany({
+      where: { babyId },
+      select: { id: true, name: true },
+    });
+    const customTypeNames = new Map(customTypes.map(t => [t.id, t.name]));
+
     for (const count of routineCounts) {
-      csv += `${typeLabels[count.routineType]}: ${count._count} registros\n`;
+      const label = count.customTypeId
+        ? customTypeNames.get(count.customTypeId) || typeLabels.CUSTOM
+        : typeLabels[count.routineType];
+      csv += `${label}: ${count._count} registros\n`;
     }
     csv += '\n';
 
@@ -194,6 +213,9 @@ export class ExportService {
         babyId,
         ...(Object.keys(dateFilter).length > 0 && { startTime: dateFilter }),
       },
+      include: {
+        customType: { select: { name: true, metaFields: true } },
+      },
       orderBy: { startTime: 'asc' },
     });
 
@@ -209,13 +231,18 @@ export class ExportService {
         details = meta.diaperType;
       } else if (r.routineType === 'MILK_EXTRACTION' && meta.extractionMl) {
         details = `${meta.extractionMl}ml`;
+      } else if (r.routineType === 'CUSTOM' && r.customType) {
+        details = formatCustomMetaDetails(
+          meta,
+          r.customType.metaFields as unknown as CustomMetaFieldDefinition[]
+        ).join(' | ');
       }
 
       csv += [
         formatDateBR(r.startTime),
         formatTimeBR(r.startTime),
         r.endTime ? formatTimeBR(r.endTime) : '-',
-        typeLabels[r.routineType],
+        (r.customType?.name || typeLabels[r.routineType]).replace(/,/g, ';'),
         r.durationSeconds ? Math.round(r.durationSeconds / 60).toString() : '-',
         details.replace(/,/g, ';'),
         (r.notes || '').replace(/,/g, ';').replace(/\n/g, ' '),
@@ -266,4 +293,123 @@ export class ExportService {
 
     return csv;
   }
+
+  // Exportar relatório completo em PDF (acesso já validado pelo controller)
+  static async exportFullReportPdfByBabyId(babyId: number, days: number = 30): Promise<Buffer> {
+    const baby = await prisma.baby.findUnique({ where: { id: babyId } });
+
+    if (!baby) {
+      throw AppError.notFound('Bebê não encontrado');
+    }
+
+    const { start, end } = getDateRange(days);
+    const { start: start24h } = get24hRange();
+
+    const [stats, percentiles, vaccineSummary, milestones, routineCounts, routineCounts24h, customTypes] =
+      await Promise.all([
+        StatsService.getStatsByBaby(babyId, days),
+        GrowthService.calculatePercentilesByBabyId(babyId),
+        VaccineService.getVaccineSummaryByBabyId(babyId),
+        prisma.milestone.findMany({
+          where: { babyId },
+          orderBy: { occurredOn: 'asc' },
+        }),
+        prisma.routineLog.groupBy({
+          by: ['routineType', 'customTypeId'],
+          where: { babyId, startTime: { gte: start, lte: end } },
+          _count: true,
+        }),
+        prisma.routineLog.groupBy({
+          by: ['routineType', 'customTypeId'],
+          where: { babyId, startTime: { gte: start24h } },
+          _count: true,
+        }),
+        prisma.customRoutineType.findMany({
+          where: { babyId },
+          select: { id: true, name: true },
+        }),
+      ]);
+
+    const customTypeNames = new Map(customTypes.map(t => [t.id, t.name]));
+    const groupKey = (type: RoutineType, customTypeId: number | null) => `${type}:${customTypeId ?? ''}`;
+    const counts24h = new Map(routineCounts24h.map(c => [groupKey(c.routineType, c.customTypeId), c._count]));
+
+    const routineSummary = routineCounts
+      .map(count => ({
+        label: count.customTypeId
+          ? customTypeNames.get(count.customTypeId) || ROUTINE_TYPE_LABELS.CUSTOM
+          : ROUTINE_TYPE_LABELS[count.routineType],
+        total: count._count,
+        averagePerDay: count._count / days,
+        last24h: counts24h.get(groupKey(count.routineType, count.customTypeId)) || 0,
+      }))
+      .sort((a, b) => b.total - a.total);
+
+    const ageMonths = Math.floor((Date.now() - baby.birthDate.getTime()) / (1000 * 60 * 60 * 24 * 30.4375));
+    const ageLabel = ageMonths < 1
+      ? `${Math.floor((Date.now() - baby.birthDate.getTime()) / (1000 * 60 * 60 * 24))} dias`
+      : `${ageMonths} ${ageMonths === 1 ? 'mês' : 'meses'}`;
+
+    const crossingAlert = (label: string, score: { curveCrossing: CurveCrossing | null } | null) =>
+      score?.curveCrossing?.crossed
+        ? `${label} cruzou ${score.curveCrossing.linesCrossed} linha(s) de percentil para ${score.curveCrossing.direction === 'up' ? 'cima' : 'baixo'}`
+        : null;
+
+    const data: BabyReportPdfData = {
+      baby: {
+        name: baby.name,
+        birthDate: baby.birthDate,
+        gender: baby.gender,
+        gestationalAgeWeeks: baby.gestationalAgeWeeks,
+        ageLabel,
+      },
+      period: { start, end, days },
+      generatedAt: new Date(),
+      routineSummary,
+      charts: {
+        labels: stats.labels,
+        sleepHoursPerDay: stats.sleepHoursPerDay,
+        feedingCountsPerDay: stats.feedingCountsPerDay,
+      },
+      growth: {
+        available: percentiles.available,
+        reason: percentiles.reason,
+        rows: percentiles.records.map(r => ({
+          measuredAt: r.measuredAt,
+          ageMonths: r.correctedAgeMonths,
+          weightKg: r.weight?.value ?? null,
+          weightPercentile: r.weight?.percentile ?? null,
+          lengthCm: r.length?.value ?? null,
+          lengthPercentile: r.length?.percentile ?? null,
+          headCm: r.headCircumference?.value ?? null,
+          headPercentile: r.headCircumference?.percentile ?? null,
+          alerts: [
+            crossingAlert('Peso', r.weight),
+            crossingAlert('Comprimento', r.length),
+            crossingAlert('Perímetro cefálico', r.headCircumference),
+          ].filter((a): a is string => a !== null),
+        })),
+      },
+      vaccines: {
+        total: vaccineSummary.total,
+        applied: vaccineSummary.applied,
+        pending: vaccineSummary.pending,
+        overdue: vaccineSummary.overdue,
+        skipped: vaccineSummary.skipped,
+        next: vaccineSummary.nextVaccines.map(v => ({
+          vaccineName: v.vaccineName,
+          doseLabel: v.doseLabel,
+          recommendedAt: v.recommendedAt,
+          isOverdue: v.isOverdue,
+        })),
+      },
+      milestones: milestones.map(m => ({
+        label: m.milestoneLabel,
+        occurredOn: m.occurredOn,
+        notes: m.notes,
+      })),
+    };
+
+    return generateBabyReportPdf(data);
+  }
 }
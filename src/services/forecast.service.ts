@@ -0,0 +1,403 @@
+// Olive Baby API - Routine Forecast Service
+// Previsão da próxima mamada e do próximo sono a partir do histórico de rotinas
+import { BabyMemberType } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { AppError } from '../utils/errors/AppError';
+import { formatInUserTimezone, DEFAULT_TIMEZONE } from '../utils/helpers/timezone.helper';
+import {
+  activeMemberWhere,
+  hasPermission,
+  resolveBabyMemberPermissions,
+} from '../utils/helpers/baby-permission.helper';
+import { checkRateLimit } from './rate-limit.service';
+import { PushPayload } from './push-notification.service';
+import { NotificationDispatcherService } from './notification-dispatcher.service';
+import {
+  BabyRoutineForecast,
+  RoutineForecast,
+  RoutineForecastConfidence,
+} from '../types';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Histórico considerado e parâmetros de ponderação
+const HISTORY_DAYS = 7;
+const RECENCY_HALF_LIFE_DAYS = 3;   // intervalos de 3 dias atrás valem metade
+const HOUR_OF_DAY_SIGMA = 2;        // horas; intervalos em horários parecidos pesam mais
+const RECENT_TREND_SAMPLES = 3;     // últimos intervalos puxam a média (tendência)
+const RECENT_TREND_WEIGHT = 0.3;
+const MIN_SAMPLES = 3;
+const MIN_WINDOW_MINUTES = 10;
+const CONFIDENCE_Z = 1.28;          // ~80% de confiança
+
+// Mamadas iniciadas com menos de 30 min de diferença são a mesma (ex.: troca de seio)
+const FEEDING_SESSION_GAP_MINUTES = 30;
+// Intervalos maiores que isso indicam registro faltando
+const MAX_INTERVAL_MINUTES = 8 * 60;
+
+// Lembretes: um por bebê/usuário/tipo dentro desta janela
+const REMINDER_DEDUPE_WINDOW_MS = 90 * MINUTE_MS;
+
+interface IntervalSample {
+  at: Date;          // quando o intervalo começou
+  hour: number;      // hora local (fracionada) em que começou
+  minutes: number;
+}
+
+interface ReminderResult {
+  eligible: number;
+  sent: number;
+  failed: number;
+  noToken: number;
+  suppressed: number;
+}
+
+export class ForecastService {
+  /**
+   * Previsão da próxima mamada e do próximo sono (sem checagem de acesso — feita no controller)
+   */
+  static async getForecastByBabyId(babyId: number, timezone: string = DEFAULT_TIMEZONE): Promise<BabyRoutineForecast> {
+    const baby = await prisma.baby.findUnique({
+      where: { id: babyId },
+      select: { id: true },
+    });
+
+    if (!baby) {
+      throw AppError.notFound('Bebê não encontrado');
+    }
+
+    const now = new Date();
+    const routines = await prisma.routineLog.findMany({
+      where: {
+        babyId,
+        routineType: { in: ['FEEDING', 'SLEEP'] },
+        startTime: { gte: new Date(now.getTime() - HISTORY_DAYS * DAY_MS) },
+      },
+      select: { routineType: true, startTime: true, endTime: true },
+      orderBy: { startTime: 'asc' },
+    });
+
+    const feedings = routines.filter(r => r.routineType === 'FEEDING');
+    const sleeps = routines.filter(r => r.routineType === 'SLEEP');
+
+    return {
+      babyId,
+      timezone,
+      generatedAt: now,
+      feeding: this.forecastFeeding(feedings, timezone, now),
+      sleep: this.forecastSleep(sleeps, timezone, now),
+    };
+  }
+
+  /**
+   * Envia push um pouco antes do horário previsto para quem optou por
+   * notificações de mamada/sono nas configurações.
+   */
+  static async sendDueReminders(minutesBefore: number, dryRun = false): Promise<ReminderResult> {
+    const result: ReminderResult = { eligible: 0, sent: 0, failed: 0, noToken: 0, suppressed: 0 };
+    const now = new Date();
+
+    // Só bebês com registros recentes têm previsão útil
+    const activeBabies = await prisma.routineLog.findMany({
+      where: {
+        routineType: { in: ['FEEDING', 'SLEEP'] },
+        startTime: { gte: new Date(now.getTime() - DAY_MS / 2) },
+      },
+      select: { babyId: true },
+      distinct: ['babyId'],
+    });
+
+    if (activeBabies.length === 0) {
+      return result;
+    }
+
+    const links = await this.getReminderRecipients(activeBabies.map(b => b.babyId));
+
+    const settings = await prisma.userSettings.findMany({
+      where: { userId: { in: links.map(l => l.userId) } },
+      select: { userId: true, timezone: true },
+    });
+    const settingsByUser = new Map(settings.map(s => [s.userId, s]));
+
+    const forecastCache = new Map<string, BabyRoutineForecast>();
+
+    for (const link of links) {
+      const userId = link.userId;
+      const timezone = settingsByUser.get(userId)?.timezone || DEFAULT_TIMEZONE;
+
+      const cacheKey = `${link.babyId}:${timezone}`;
+      let forecast = forecastCache.get(cacheKey);
+      if (!forecast) {
+        try {
+          forecast = await this.getForecastByBabyId(link.babyId, timezone);
+          forecastCache.set(cacheKey, forecast);
+        } catch (error) {
+          logger.error(`[Forecast] Falha ao prever rotinas do bebê ${link.babyId}`, error);
+          continue;
+        }
+      }
+
+      for (const item of [forecast.feeding, forecast.sleep]) {
+        const key = item.routineType === 'FEEDING' ? 'feeding' : 'sleep';
+        if (item.status !== 'predicted' || item.minutesUntil === null) continue;
+        if (item.minutesUntil <= 0 || item.minutesUntil > minutesBefore) continue;
+
+        result.eligible++;
+        if (dryRun) continue;
+
+        const dedupe = await checkRateLimit(
+          `forecast_reminder:${key}:${link.babyId}:${userId}`,
+          REMINDER_DEDUPE_WINDOW_MS,
+          1
+        );
+        if (!dedupe.allowed) continue;
+
+        // Preferência de rotina e horário de silêncio ficam com o dispatcher;
+        // depois da janela a previsão já passou, então não adia
+        const { push } = await NotificationDispatcherService.dispatch(userId, {
+          category: 'routine',
+          routineType: key,
+          deferrable: false,
+          push: this.buildReminderPayload(link.babyId, link.babyName, item, timezone),
+        });
+
+        if (push === 'sent') result.sent++;
+        else if (push === 'failed') result.failed++;
+        else if (push === 'no_target') result.noToken++;
+        else result.suppressed++;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Pais com acesso à rotina de cada bebê: vínculos BabyMember PARENT ativos
+   * (respeitando as permissões) e os vínculos legados (CaregiverBaby)
+   */
+  private static async getReminderRecipients(
+    babyIds: number[]
+  ): Promise<Array<{ babyId: number; babyName: string; userId: number }>> {
+    const activeUser = { status: 'ACTIVE' as const, isActive: true };
+    const [members, legacyLinks] = await Promise.all([
+      prisma.babyMember.findMany({
+        where: {
+          babyId: { in: babyIds },
+          memberType: BabyMemberType.PARENT,
+          ...activeMemberWhere(),
+          user: activeUser,
+        },
+        select: { babyId: true, userId: true, role: true, permissions: true, baby: { select: { name: true } } },
+      }),
+      prisma.caregiverBaby.findMany({
+        where: { babyId: { in: babyIds }, caregiver: { user: activeUser } },
+        select: { babyId: true, baby: { select: { name: true } }, caregiver: { select: { userId: true } } },
+      }),
+    ]);
+
+    const recipients = new Map<string, { babyId: number; babyName: string; userId: number }>();
+    const memberKeys = new Set<string>();
+    for (const member of members) {
+      const key = `${member.babyId}:${member.userId}`;
+      memberKeys.add(key);
+      const permissions = resolveBabyMemberPermissions(member.role, member.permissions);
+      if (!hasPermission(permissions, 'routines:read')) continue;
+      recipients.set(key, { babyId: member.babyId, babyName: member.baby.name, userId: member.userId });
+    }
+    for (const link of legacyLinks) {
+      const key = `${link.babyId}:${link.caregiver.userId}`;
+      // Quem tem BabyMember segue as permissões dele, mesmo com vínculo legado
+      if (memberKeys.has(key)) continue;
+      recipients.set(key, { babyId: link.babyId, babyName: link.baby.name, userId: link.caregiver.userId });
+    }
+
+    return [...recipients.values()];
+  }
+
+  // ==========================================
+  // Previsões
+  // ==========================================
+
+  private static forecastFeeding(
+    feedings: { startTime: Date; endTime: Date | null }[],
+    timezone: string,
+    now: Date
+  ): RoutineForecast {
+    // Agrupa registros próximos em uma única mamada
+    const sessions: { startTime: Date; endTime: Date | null }[] = [];
+    for (const feeding of feedings) {
+      const last = sessions[sessions.length - 1];
+      if (last && (feeding.startTime.getTime() - last.startTime.getTime()) / MINUTE_MS < FEEDING_SESSION_GAP_MINUTES) {
+        last.endTime = feeding.endTime;
+      } else {
+        sessions.push({ ...feeding });
+      }
+    }
+
+    const lastSession = sessions[sessions.length - 1];
+    if (lastSession && !lastSession.endTime) {
+      return this.buildEmpty('FEEDING', 'in_progress', lastSession.startTime, lastSession.startTime, sessions.length - 1);
+    }
+
+    // Intervalo entre inícios de mamadas consecutivas
+    const samples: IntervalSample[] = [];
+    for (let i = 1; i < sessions.length; i++) {
+      const minutes = (sessions[i].startTime.getTime() - sessions[i - 1].startTime.getTime()) / MINUTE_MS;
+      if (minutes > 0 && minutes <= MAX_INTERVAL_MINUTES) {
+        samples.push({ at: sessions[i - 1].startTime, hour: this.localHour(sessions[i - 1].startTime, timezone), minutes });
+      }
+    }
+
+    return this.predict('FEEDING', samples, lastSession?.startTime || null, timezone, now);
+  }
+
+  private static forecastSleep(
+    sleeps: { startTime: Date; endTime: Date | null }[],
+    timezone: string,
+    now: Date
+  ): RoutineForecast {
+    const open = sleeps.filter(s => !s.endTime).pop();
+    const closed = sleeps.filter(s => s.endTime && s.endTime > s.startTime);
+    const lastClosed = closed[closed.length - 1];
+
+    if (open && (!lastClosed || open.startTime >= lastClosed.endTime!)) {
+      return this.buildEmpty('SLEEP', 'in_progress', lastClosed?.endTime || null, open.startTime, closed.length - 1);
+    }
+
+    // Janela de vigília: fim de um sono até o início do próximo
+    const samples: IntervalSample[] = [];
+    for (let i = 1; i < closed.length; i++) {
+      const end = closed[i - 1].endTime!;
+      const minutes = (closed[i].startTime.getTime() - end.getTime()) / MINUTE_MS;
+      if (minutes > 0 && minutes <= MAX_INTERVAL_MINUTES) {
+        samples.push({ at: end, hour: this.localHour(end, timezone), minutes });
+      }
+    }
+
+    return this.predict('SLEEP', samples, lastClosed?.endTime || null, timezone, now);
+  }
+
+  /**
+   * Média ponderada por recência e por proximidade do horário do dia,
+   * ajustada pela tendência dos últimos intervalos.
+   */
+  private static predict(
+    routineType: 'FEEDING' | 'SLEEP',
+    samples: IntervalSample[],
+    referenceAt: Date | null,
+    timezone: string,
+    now: Date
+  ): RoutineForecast {
+    if (!referenceAt || samples.length < MIN_SAMPLES) {
+      return this.buildEmpty(routineType, 'insufficient_data', referenceAt, null, samples.length);
+    }
+
+    const referenceHour = this.localHour(referenceAt, timezone);
+    const recencyWeight = (sample: IntervalSample) =>
+      Math.pow(0.5, (now.getTime() - sample.at.getTime()) / DAY_MS / RECENCY_HALF_LIFE_DAYS);
+    const hourWeight = (sample: IntervalSample) => {
+      const diff = Math.abs(sample.hour - referenceHour);
+      const distance = Math.min(diff, 24 - diff);
+      return Math.exp(-(distance * distance) / (2 * HOUR_OF_DAY_SIGMA * HOUR_OF_DAY_SIGMA));
+    };
+
+    let weights = samples.map(s => recencyWeight(s) * hourWeight(s));
+    // Nenhum intervalo perto deste horário: usa só a recência
+    if (weights.reduce((sum, w) => sum + w, 0) < 0.5) {
+      weights = samples.map(recencyWeight);
+    }
+
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    const weightedMean = samples.reduce((sum, s, i) => sum + s.minutes * weights[i], 0) / totalWeight;
+    const variance = samples.reduce((sum, s, i) => sum + weights[i] * Math.pow(s.minutes - weightedMean, 2), 0) / totalWeight;
+    const std = Math.sqrt(variance);
+    const effectiveSamples = Math.pow(totalWeight, 2) / weights.reduce((sum, w) => sum + w * w, 0);
+
+    const recent = samples.slice(-RECENT_TREND_SAMPLES);
+    const recentMean = recent.reduce((sum, s) => sum + s.minutes, 0) / recent.length;
+    const intervalMinutes = weightedMean * (1 - RECENT_TREND_WEIGHT) + recentMean * RECENT_TREND_WEIGHT;
+
+    const halfWindow = Math.max(MIN_WINDOW_MINUTES, CONFIDENCE_Z * std);
+    const predictedAt = new Date(referenceAt.getTime() + intervalMinutes * MINUTE_MS);
+
+    const variation = std / intervalMinutes;
+    let confidence: RoutineForecastConfidence = 'low';
+    if (effectiveSamples >= 8 && variation < 0.25) {
+      confidence = 'high';
+    } else if (effectiveSamples >= 4 && variation < 0.45) {
+      confidence = 'medium';
+    }
+
+    return {
+      routineType,
+      status: 'predicted',
+      referenceAt,
+      inProgressSince: null,
+      predictedAt,
+      windowStart: new Date(predictedAt.getTime() - halfWindow * MINUTE_MS),
+      windowEnd: new Date(predictedAt.getTime() + halfWindow * MINUTE_MS),
+      typicalIntervalMinutes: Math.round(intervalMinutes),
+      minutesUntil: Math.round((predictedAt.getTime() - now.getTime()) / MINUTE_MS),
+      confidence,
+      sampleSize: samples.length,
+    };
+  }
+
+  private static buildEmpty(
+    routineType: 'FEEDING' | 'SLEEP',
+    status: 'in_progress' | 'insufficient_data',
+    referenceAt: Date | null,
+    inProgressSince: Date | null,
+    sampleSize: number
+  ): RoutineForecast {
+    return {
+      routineType,
+      status,
+      referenceAt,
+      inProgressSince,
+      predictedAt: null,
+      windowStart: null,
+      windowEnd: null,
+      typicalIntervalMinutes: null,
+      minutesUntil: null,
+      confidence: null,
+      sampleSize: Math.max(sampleSize, 0),
+    };
+  }
+
+  private static localHour(date: Date, timezone: string): number {
+    const [hours, minutes] = formatInUserTimezone(date, timezone, 'HH:mm').split(':').map(Number);
+    return hours + minutes / 60;
+  }
+
+  private static buildReminderPayload(
+    babyId: number,
+    babyName: string,
+    forecast: RoutineForecast,
+    timezone: string
+  ): PushPayload {
+    const time = formatInUserTimezone(forecast.predictedAt!, timezone, 'HH:mm');
+    const windowStart = formatInUserTimezone(forecast.windowStart!, timezone, 'HH:mm');
+    const windowEnd = formatInUserTimezone(forecast.windowEnd!, timezone, 'HH:mm');
+
+    if (forecast.routineType === 'FEEDING') {
+      return {
+        title: 'Mamada prevista em breve 🍼',
+        body: `${babyName} deve sentir fome por volta das ${time} (entre ${windowStart} e ${windowEnd}).`,
+        clickAction: '/dashboard',
+        tag: `forecast-feeding-${babyId}`,
+        data: { type: 'routine_forecast', babyId: String(babyId), routineType: 'FEEDING' },
+      };
+    }
+
+    return {
+      title: 'Hora de preparar o sono 💤',
+      body: `${babyName} costuma ficar com sono por volta das ${time} (entre ${windowStart} e ${windowEnd}).`,
+      clickAction: '/dashboard',
+      tag: `forecast-sleep-${babyId}`,
+      data: { type: 'routine_forecast', babyId: String(babyId), routineType: 'SLEEP' },
+    };
+  }
+}
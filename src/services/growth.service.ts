@@ -3,6 +3,20 @@ import { prisma } from '../config/database';
 import { AppError } from '../utils/errors/AppError';
 import { Decimal } from '@prisma/client/runtime/library';
 import { requireBabyAccessByCaregiverId, hasBabyAccessByCaregiverId } from '../utils/helpers/baby-permission.helper';
+import { BabyPermission } from '../types';
+import { RevisionService, RevisionContext } from './revision.service';
+import { RealtimeService } from './realtime.service';
+import {
+  CurveCrossing,
+  calculateLmsZScore,
+  detectCurveCrossing,
+  getAgeInMonths,
+  getCorrectedAgeInMonths,
+  getLmsForAge,
+  shouldCorrectForPrematurity,
+  zScoreToPercentile,
+} from '../utils/helpers/growth-percentile.helper';
+import { WhoGrowthIndicator, WhoGrowthSex } from '../constants/who-growth-standards';
 
 interface CreateGrowthInput {
   babyId: number;
@@ -28,39 +42,88 @@ interface ListGrowthFilter {
   endDate?: Date;
 }
 
+interface GrowthScore {
+  value: number;
+  zScore: number;
+  percentile: number;
+  curveCrossing: CurveCrossing | null;
+}
+
+interface GrowthPercentileRecord {
+  id: number;
+  measuredAt: Date;
+  ageMonths: number;
+  correctedAgeMonths: number;
+  weight: GrowthScore | null;
+  length: GrowthScore | null;
+  headCircumference: GrowthScore | null;
+}
+
+const PERCENTILE_MEASURES: { key: 'weight' | 'length' | 'headCircumference'; field: 'weightKg' | 'heightCm' | 'headCircumferenceCm'; indicator: WhoGrowthIndicator }[] = [
+  { key: 'weight', field: 'weightKg', indicator: 'weightForAge' },
+  { key: 'length', field: 'heightCm', indicator: 'lengthForAge' },
+  { key: 'headCircumference', field: 'headCircumferenceCm', indicator: 'headCircumferenceForAge' },
+];
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
 export class GrowthService {
-  static async create(caregiverId: number, input: CreateGrowthInput) {
-    await requireBabyAccessByCaregiverId(caregiverId, input.babyId);
+  static async create(caregiverId: number, input: CreateGrowthInput, context: RevisionContext = {}) {
+    await requireBabyAccessByCaregiverId(caregiverId, input.babyId, 'growth:write');
 
     // Verificar se tem pelo menos uma medição
     if (!input.weightKg && !input.heightCm && !input.headCircumferenceCm) {
       throw AppError.badRequest('Informe pelo menos uma medição (peso, altura ou perímetro cefálico)');
     }
 
-    const growth = await prisma.growth.create({
-      data: {
-        babyId: input.babyId,
-        measuredAt: input.measuredAt,
-        weightKg: input.weightKg,
-        heightCm: input.heightCm,
-        headCircumferenceCm: input.headCircumferenceCm,
-        source: input.source,
-        notes: input.notes,
-      },
-      include: {
-        baby: {
-          select: {
-            id: true,
-            name: true,
+    const revisionContext = await RevisionService.resolveContext(caregiverId, context);
+
+    const growth = await prisma.$transaction(async (tx) => {
+      const created = await tx.growth.create({
+        data: {
+          babyId: input.babyId,
+          measuredAt: input.measuredAt,
+          weightKg: input.weightKg,
+          heightCm: input.heightCm,
+          headCircumferenceCm: input.headCircumferenceCm,
+          source: input.source,
+          notes: input.notes,
+        },
+        include: {
+          baby: {
+            select: {
+              id: true,
+              name: true,
+            },
           },
         },
-      },
+      });
+
+      await RevisionService.record(tx, {
+        babyId: created.babyId,
+        entityType: 'GROWTH',
+        entityId: created.id,
+        action: 'CREATE',
+        after: created,
+        context: revisionContext,
+      });
+
+      return created;
+    });
+
+    RealtimeService.publish(growth.babyId, 'growth.created', {
+      entityId: growth.id,
+      actorUserId: revisionContext.userId,
+      data: growth,
     });
 
     return growth;
   }
 
-  static async getById(id: number, caregiverId: number) {
+  static async getById(id: number, caregiverId: number, permission: BabyPermission = 'growth:read') {
     const growth = await prisma.growth.findUnique({
       where: { id },
       include: {
@@ -73,7 +136,7 @@ export class GrowthService {
     }
 
     // Verificar acesso
-    const hasAccess = await hasBabyAccessByCaregiverId(caregiverId, growth.babyId);
+    const hasAccess = await hasBabyAccessByCaregiverId(caregiverId, growth.babyId, permission);
     if (!hasAccess) {
       throw AppError.forbidden('Você não tem acesso a este registro');
     }
@@ -88,7 +151,7 @@ export class GrowthService {
     page = 1,
     limit = 50
   ) {
-    await requireBabyAccessByCaregiverId(caregiverId, babyId);
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'growth:read');
 
     const where: any = { babyId };
 
@@ -166,28 +229,67 @@ export class GrowthService {
     };
   }
 
-  static async update(id: number, caregiverId: number, input: UpdateGrowthInput) {
+  static async update(id: number, caregiverId: number, input: UpdateGrowthInput, context: RevisionContext = {}) {
     // Verificar acesso
-    await this.getById(id, caregiverId);
+    const existing = await this.getById(id, caregiverId, 'growth:write');
+    const revisionContext = await RevisionService.resolveContext(caregiverId, context);
+
+    const growth = await prisma.$transaction(async (tx) => {
+      const updated = await tx.growth.update({
+        where: { id },
+        data: input,
+      });
+
+      await RevisionService.record(tx, {
+        babyId: updated.babyId,
+        entityType: 'GROWTH',
+        entityId: id,
+        action: 'UPDATE',
+        before: existing,
+        after: updated,
+        context: revisionContext,
+      });
+
+      return updated;
+    });
 
-    const growth = await prisma.growth.update({
-      where: { id },
-      data: input,
+    RealtimeService.publish(growth.babyId, 'growth.updated', {
+      entityId: id,
+      actorUserId: revisionContext.userId,
+      data: growth,
     });
 
     return growth;
   }
 
-  static async delete(id: number, caregiverId: number) {
+  static async delete(id: number, caregiverId: number, context: RevisionContext = {}) {
     // Verificar acesso
-    await this.getById(id, caregiverId);
+    const existing = await this.getById(id, caregiverId, 'growth:write');
+    const revisionContext = await RevisionService.resolveContext(caregiverId, context);
+
+    // O snapshot da revisão mantém o registro na lixeira por 30 dias
+    await prisma.$transaction(async (tx) => {
+      await tx.growth.delete({ where: { id } });
+      await RevisionService.record(tx, {
+        babyId: existing.babyId,
+        entityType: 'GROWTH',
+        entityId: id,
+        action: 'DELETE',
+        before: existing,
+        context: revisionContext,
+      });
+    });
 
-    await prisma.growth.delete({ where: { id } });
+    RealtimeService.publish(existing.babyId, 'growth.deleted', {
+      entityId: id,
+      actorUserId: revisionContext.userId,
+      data: existing,
+    });
   }
 
   // Buscar última medição do bebê
   static async getLatest(caregiverId: number, babyId: number) {
-    await requireBabyAccessByCaregiverId(caregiverId, babyId);
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'growth:read');
 
     const latest = await prisma.growth.findFirst({
       where: { babyId },
@@ -199,7 +301,7 @@ export class GrowthService {
 
   // Calcular estatísticas de crescimento
   static async getGrowthStats(caregiverId: number, babyId: number) {
-    await requireBabyAccessByCaregiverId(caregiverId, babyId);
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'growth:read');
 
     // Buscar todas as medições ordenadas por data
     const records = await prisma.growth.findMany({
@@ -253,4 +355,102 @@ export class GrowthService {
       headGain: headGain ? Math.round(headGain * 100) / 100 : null,
     };
   }
+
+  // Percentis e z-scores (padrão OMS) de todas as medições do bebê
+  static async getGrowthPercentiles(caregiverId: number, babyId: number) {
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'growth:read');
+    return this.calculatePercentilesByBabyId(babyId);
+  }
+
+  /**
+   * Calcula percentis por babyId (sem verificação de acesso)
+   * Usado quando acesso já foi verificado no controller ou pelas ferramentas da IA
+   */
+  static async calculatePercentilesByBabyId(babyId: number) {
+    const baby = await prisma.baby.findUnique({
+      where: { id: babyId },
+      select: { id: true, birthDate: true, gender: true, gestationalAgeWeeks: true },
+    });
+
+    if (!baby) {
+      throw AppError.notFound('Bebê não encontrado');
+    }
+
+    const sex: WhoGrowthSex | null = baby.gender === 'MALE' || baby.gender === 'FEMALE' ? baby.gender : null;
+
+    const records = await prisma.growth.findMany({
+      where: { babyId },
+      orderBy: { measuredAt: 'asc' },
+    });
+
+    const base = {
+      babyId,
+      standard: 'WHO_2006',
+      sex,
+      gestationalAgeWeeks: baby.gestationalAgeWeeks,
+    };
+
+    if (!sex) {
+      return {
+        ...base,
+        available: false,
+        reason: 'Informe o sexo do bebê para calcular os percentis',
+        ageCorrectedForPrematurity: false,
+        records: [] as GrowthPercentileRecord[],
+        latest: null,
+      };
+    }
+
+    const previousZ: Partial<Record<WhoGrowthIndicator, number>> = {};
+
+    const scored: GrowthPercentileRecord[] = records.map(record => {
+      const ageMonths = getAgeInMonths(baby.birthDate, record.measuredAt);
+      const correctedAgeMonths = getCorrectedAgeInMonths(baby.birthDate, record.measuredAt, baby.gestationalAgeWeeks);
+
+      const result: GrowthPercentileRecord = {
+        id: record.id,
+        measuredAt: record.measuredAt,
+        ageMonths: round(ageMonths, 2),
+        correctedAgeMonths: round(correctedAgeMonths, 2),
+        weight: null,
+        length: null,
+        headCircumference: null,
+      };
+
+      for (const measure of PERCENTILE_MEASURES) {
+        const raw = record[measure.field];
+        if (!raw) continue;
+
+        const lms = getLmsForAge(measure.indicator, sex, correctedAgeMonths);
+        if (!lms) continue;
+
+        const value = Number(raw);
+        const zScore = calculateLmsZScore(value, lms);
+        const previous = previousZ[measure.indicator];
+
+        result[measure.key] = {
+          value,
+          zScore: round(zScore, 2),
+          percentile: round(zScoreToPercentile(zScore), 1),
+          curveCrossing: previous !== undefined ? detectCurveCrossing(previous, zScore) : null,
+        };
+        previousZ[measure.indicator] = zScore;
+      }
+
+      return result;
+    });
+
+    const latest = scored.length > 0 ? scored[scored.length - 1] : null;
+
+    return {
+      ...base,
+      available: true,
+      reason: null,
+      ageCorrectedForPrematurity: latest
+        ? shouldCorrectForPrematurity(latest.ageMonths, baby.gestationalAgeWeeks)
+        : false,
+      records: scored,
+      latest,
+    };
+  }
 }
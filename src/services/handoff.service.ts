@@ -0,0 +1,482 @@
+// Olive Baby API - Shift Handoff Service
+// Passagem de turno: o que aconteceu com o bebê desde que o cuidador saiu
+// (mamadas, sono, fraldas, medicamentos, rotinas em andamento e observações
+// deixadas pelos outros membros). Usado pelo endpoint JSON, pelo resumo por
+// push/e-mail e pela ferramenta do assistente.
+import { RoutineType } from '@prisma/client';
+import { prisma } from '../config/database';
+import { AppError } from '../utils/errors/AppError';
+import { formatInUserTimezone, DEFAULT_TIMEZONE } from '../utils/helpers/timezone.helper';
+import { activeMemberWhere, getBabyPermissions, hasPermission } from '../utils/helpers/baby-permission.helper';
+import { RoutineService } from './routine.service';
+import { SettingsService } from './settings.service';
+import { NotificationDispatcherService, DispatchResult } from './notification-dispatcher.service';
+import {
+  BabyMemberPermissions,
+  DiaperMeta,
+  FeedingMeta,
+  HandoffMedication,
+  HandoffNote,
+  HandoffOpenRoutine,
+  HandoffSinceSource,
+  HandoffSummary,
+} from '../types';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// Sem `since`: desde o último registro de quem pede, se foi nas últimas 48h; senão 12h
+const LAST_ACTIVITY_MAX_LOOKBACK_MS = 48 * HOUR_MS;
+const DEFAULT_LOOKBACK_MS = 12 * HOUR_MS;
+const MAX_LOOKBACK_MS = 7 * 24 * HOUR_MS;
+
+const DIGEST_MAX_NOTES = 5;
+
+const ROUTINE_LABELS: Record<RoutineType, string> = {
+  FEEDING: 'Mamada',
+  SLEEP: 'Soneca',
+  DIAPER: 'Troca de fralda',
+  BATH: 'Banho',
+  MILK_EXTRACTION: 'Extração de leite',
+  CUSTOM: 'Rotina personalizada',
+};
+
+const BREAST_SIDE_LABELS: Record<string, string> = {
+  left: 'seio esquerdo',
+  right: 'seio direito',
+  both: 'ambos os seios',
+};
+
+export type HandoffChannel = 'push' | 'email';
+
+interface HandoffOptions {
+  since?: Date;
+  timezone?: string;
+  includeMedications?: boolean; // Doses e notas de medicamento: só para quem tem clinical:read
+}
+
+interface HandoffDigestOptions {
+  since?: Date;
+  recipientUserIds?: number[];
+  channels?: HandoffChannel[];
+}
+
+export interface HandoffDigestRecipient {
+  userId: number;
+  name: string;
+  delivery: DispatchResult;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours}h${String(rest).padStart(2, '0')}` : `${hours}h`;
+}
+
+export class HandoffService {
+  /**
+   * Resumo da passagem de turno (sem checagem de acesso — feita no controller).
+   * `userId` é quem pede: define o "desde que saí" padrão e quais observações
+   * são de outros membros. Medicamentos só entram com `includeMedications`.
+   */
+  static async getSummaryByBabyId(
+    babyId: number,
+    userId: number,
+    options: HandoffOptions = {}
+  ): Promise<HandoffSummary> {
+    const baby = await prisma.baby.findUnique({ where: { id: babyId }, select: { id: true, name: true } });
+    if (!baby) {
+      throw AppError.notFound('Bebê não encontrado');
+    }
+
+    const timezone = options.timezone || DEFAULT_TIMEZONE;
+    const until = new Date();
+    const { since, sinceSource } = await HandoffService.resolveSince(babyId, userId, until, options.since);
+
+    const [routines, doses, openRoutines] = await Promise.all([
+      prisma.routineLog.findMany({
+        where: {
+          babyId,
+          OR: [
+            { startTime: { gte: since, lte: until } },
+            // Sono que começou antes e terminou (ou continua) dentro do período
+            { routineType: 'SLEEP', startTime: { lt: since }, OR: [{ endTime: null }, { endTime: { gt: since } }] },
+          ],
+        },
+        orderBy: { startTime: 'asc' },
+      }),
+      options.includeMedications
+        ? prisma.medicationDose.findMany({
+          where: { babyId, administeredAt: { gte: since, lte: until } },
+          orderBy: { administeredAt: 'asc' },
+        })
+        : [],
+      RoutineService.getAllOpenRoutinesByBaby(babyId),
+    ]);
+
+    // Autor de cada registro de rotina (revisão de criação)
+    const notedRoutines = routines.filter(r => r.notes?.trim() && r.startTime >= since);
+    const creations = notedRoutines.length > 0
+      ? await prisma.recordRevision.findMany({
+        where: {
+          babyId,
+          entityType: 'ROUTINE_LOG',
+          action: 'CREATE',
+          entityId: { in: notedRoutines.map(r => r.id) },
+        },
+        select: { entityId: true, userId: true },
+      })
+      : [];
+    const routineAuthors = new Map(creations.map(c => [c.entityId, c.userId]));
+
+    const authorIds = new Set<number>();
+    for (const id of routineAuthors.values()) if (id) authorIds.add(id);
+    for (const dose of doses) if (dose.recordedByUserId) authorIds.add(dose.recordedByUserId);
+    const names = await HandoffService.getUserNames([...authorIds]);
+
+    // Mamadas
+    const feedings = routines.filter(r => r.routineType === 'FEEDING' && r.startTime >= since);
+    const feeding: HandoffSummary['feeding'] = {
+      count: feedings.length,
+      breast: 0,
+      bottle: 0,
+      solid: 0,
+      bottleMl: 0,
+      totalMinutes: 0,
+      lastAt: feedings.length > 0 ? feedings[feedings.length - 1].startTime : null,
+      lastBreastSide: null,
+    };
+    for (const log of feedings) {
+      const meta = (log.meta || {}) as FeedingMeta;
+      if (meta.feedingType === 'breast') {
+        feeding.breast++;
+        if (meta.breastSide) feeding.lastBreastSide = meta.breastSide;
+      } else if (meta.feedingType === 'bottle') {
+        feeding.bottle++;
+      } else if (meta.feedingType === 'solid') {
+        feeding.solid++;
+      }
+      feeding.bottleMl += (Number(meta.bottleMl) || 0) + (Number(meta.complementMl) || 0);
+      if (log.durationSeconds) feeding.totalMinutes += Math.round(log.durationSeconds / 60);
+    }
+
+    // Sono: só o trecho dentro do período conta
+    const sleeps = routines.filter(r => r.routineType === 'SLEEP');
+    let sleepMs = 0;
+    let lastWokeAt: Date | null = null;
+    for (const log of sleeps) {
+      const start = Math.max(log.startTime.getTime(), since.getTime());
+      const end = Math.min((log.endTime ?? until).getTime(), until.getTime());
+      if (end > start) sleepMs += end - start;
+      if (log.endTime && log.endTime >= since && (!lastWokeAt || log.endTime > lastWokeAt)) {
+        lastWokeAt = log.endTime;
+      }
+    }
+    const sleep: HandoffSummary['sleep'] = {
+      count: sleeps.filter(r => r.startTime >= since).length,
+      totalMinutes: Math.round(sleepMs / MINUTE_MS),
+      lastWokeAt,
+    };
+
+    // Fraldas
+    const diaperLogs = routines.filter(r => r.routineType === 'DIAPER' && r.startTime >= since);
+    const diapers: HandoffSummary['diapers'] = {
+      count: diaperLogs.length,
+      pee: 0,
+      poop: 0,
+      lastAt: diaperLogs.length > 0 ? diaperLogs[diaperLogs.length - 1].startTime : null,
+    };
+    for (const log of diaperLogs) {
+      const type = ((log.meta || {}) as DiaperMeta).diaperType;
+      if (type === 'pee' || type === 'both') diapers.pee++;
+      if (type === 'poop' || type === 'both') diapers.poop++;
+    }
+
+    const medications: HandoffMedication[] = doses.map(dose => ({
+      id: dose.id,
+      medicationName: dose.medicationName,
+      doseMg: dose.doseMg !== null ? Number(dose.doseMg) : null,
+      doseMl: dose.doseMl !== null ? Number(dose.doseMl) : null,
+      administeredAt: dose.administeredAt,
+      recordedBy: dose.recordedByUserId ? names.get(dose.recordedByUserId) ?? null : null,
+      warnings: dose.warnings,
+    }));
+
+    const open: HandoffOpenRoutine[] = [
+      openRoutines.feeding,
+      openRoutines.sleep,
+      openRoutines.bath,
+      openRoutines.extraction,
+      ...openRoutines.custom,
+    ]
+      .filter((r): r is NonNullable<typeof r> => r !== null)
+      .map(r => ({
+        id: r.id,
+        routineType: r.routineType,
+        name: r.customType?.name ?? ROUTINE_LABELS[r.routineType],
+        startTime: r.startTime,
+        minutesElapsed: Math.max(0, Math.round((until.getTime() - r.startTime.getTime()) / MINUTE_MS)),
+      }));
+
+    // Observações de outros membros (quem pede já sabe o que escreveu)
+    const notes: HandoffNote[] = [];
+    for (const log of notedRoutines) {
+      const authorId = routineAuthors.get(log.id) ?? null;
+      if (authorId === userId) continue;
+      notes.push({
+        source: 'routine',
+        entityId: log.id,
+        routineType: log.routineType,
+        at: log.startTime,
+        text: log.notes!.trim(),
+        author: authorId ? names.get(authorId) ?? null : null,
+      });
+    }
+    for (const dose of doses) {
+      if (!dose.notes?.trim() || dose.recordedByUserId === userId) continue;
+      notes.push({
+        source: 'medication',
+        entityId: dose.id,
+        routineType: null,
+        at: dose.administeredAt,
+        text: dose.notes.trim(),
+        author: dose.recordedByUserId ? names.get(dose.recordedByUserId) ?? null : null,
+      });
+    }
+    notes.sort((a, b) => a.at.getTime() - b.at.getTime());
+
+    const summary: HandoffSummary = {
+      babyId,
+      babyName: baby.name,
+      since,
+      until,
+      sinceSource,
+      timezone,
+      feeding,
+      sleep,
+      diapers,
+      medications,
+      openRoutines: open,
+      notes,
+      highlights: [],
+    };
+    summary.highlights = HandoffService.describe(summary, timezone);
+    return summary;
+  }
+
+  /**
+   * Envia o resumo por push/e-mail para outros membros do bebê (padrão: todos os
+   * membros ativos com routines:read exceto quem envia). Passa pelo dispatcher:
+   * preferências e horário de silêncio de cada destinatário são respeitados.
+   * Medicamentos só vão para quem tem clinical:read (o retorno segue o mesmo
+   * critério para quem envia).
+   */
+  static async sendDigest(
+    babyId: number,
+    senderUserId: number,
+    options: HandoffDigestOptions = {}
+  ): Promise<{ summary: HandoffSummary; recipients: HandoffDigestRecipient[] }> {
+    const channels = options.channels?.length ? options.channels : ['push' as const];
+    const members = await HandoffService.getRecipientPermissions(babyId);
+
+    let recipientIds: number[];
+    if (options.recipientUserIds?.length) {
+      const invalid = options.recipientUserIds.filter(id => !members.has(id));
+      if (invalid.length > 0) {
+        throw AppError.badRequest('Destinatário não é membro deste bebê', {
+          recipientUserIds: invalid.map(id => `Usuário ${id} não é membro deste bebê`),
+        });
+      }
+      recipientIds = [...new Set(options.recipientUserIds)];
+    } else {
+      recipientIds = [...members.keys()].filter(id => id !== senderUserId);
+    }
+
+    if (recipientIds.length === 0) {
+      throw AppError.badRequest('Nenhum outro membro para receber o resumo');
+    }
+
+    const senderTimezone = await SettingsService.getUserTimezone(senderUserId);
+    const fullSummary = await HandoffService.getSummaryByBabyId(babyId, senderUserId, {
+      since: options.since,
+      timezone: senderTimezone,
+      includeMedications: true,
+    });
+    const clinicalSummary = (permissions: BabyMemberPermissions | null) =>
+      permissions && hasPermission(permissions, 'clinical:read')
+        ? fullSummary
+        : HandoffService.withoutMedications(fullSummary, senderTimezone);
+
+    const summary = clinicalSummary(await getBabyPermissions(senderUserId, babyId));
+    const names = await HandoffService.getUserNames([senderUserId, ...recipientIds]);
+    const senderName = names.get(senderUserId) ?? 'Um cuidador';
+
+    const recipients: HandoffDigestRecipient[] = [];
+    for (const userId of recipientIds) {
+      // Horários no fuso de quem recebe
+      const timezone = await SettingsService.getUserTimezone(userId);
+      const recipientSummary = clinicalSummary(members.get(userId)!);
+      const highlights = HandoffService.describe(recipientSummary, timezone);
+      const sinceLabel = formatInUserTimezone(summary.since, timezone, 'dd/MM HH:mm');
+      const title = `Passagem de turno: ${summary.babyName}`;
+
+      const delivery = await NotificationDispatcherService.dispatch(userId, {
+        category: 'routine',
+        push: channels.includes('push')
+          ? {
+            title,
+            body: highlights.slice(0, 3).join(' · '),
+            clickAction: '/dashboard',
+            tag: `handoff-${babyId}`,
+          }
+          : undefined,
+        email: channels.includes('email')
+          ? {
+            templateType: 'handoff_digest',
+            subject: title,
+            customBody: [
+              `<p>${escapeHtml(senderName)} enviou o resumo do que aconteceu com ${escapeHtml(summary.babyName)} desde ${sinceLabel}:</p>`,
+              `<ul>${highlights.map(line => `<li>${escapeHtml(line)}</li>`).join('')}</ul>`,
+            ].join(''),
+          }
+          : undefined,
+      });
+
+      recipients.push({ userId, name: names.get(userId) ?? 'Usuário', delivery });
+    }
+
+    return { summary, recipients };
+  }
+
+  /**
+   * Frases curtas do resumo, com horários no fuso informado
+   */
+  static describe(summary: HandoffSummary, timezone: string): string[] {
+    const time = (date: Date) => formatInUserTimezone(date, timezone, 'HH:mm');
+    const lines: string[] = [];
+
+    const { feeding, sleep, diapers } = summary;
+    if (feeding.count > 0) {
+      const details = [`última às ${time(feeding.lastAt!)}`];
+      if (feeding.lastBreastSide) details.push(BREAST_SIDE_LABELS[feeding.lastBreastSide]);
+      if (feeding.bottleMl > 0) details.push(`${Math.round(feeding.bottleMl)} ml na mamadeira`);
+      lines.push(`Mamadas: ${feeding.count} (${details.join(', ')})`);
+    } else {
+      lines.push('Nenhuma mamada registrada');
+    }
+
+    if (sleep.totalMinutes > 0) {
+      const details = sleep.count > 0 ? ` em ${sleep.count} ${sleep.count === 1 ? 'soneca' : 'sonecas'}` : '';
+      const woke = sleep.lastWokeAt ? `, acordou às ${time(sleep.lastWokeAt)}` : '';
+      lines.push(`Sono: ${formatMinutes(sleep.totalMinutes)}${details}${woke}`);
+    } else {
+      lines.push('Nenhum sono registrado');
+    }
+
+    if (diapers.count > 0) {
+      lines.push(`Fraldas: ${diapers.count} (${diapers.pee} xixi, ${diapers.poop} cocô)`);
+    } else {
+      lines.push('Nenhuma troca de fralda registrada');
+    }
+
+    for (const dose of summary.medications) {
+      const amount = dose.doseMl !== null ? ` (${dose.doseMl} ml)` : dose.doseMg !== null ? ` (${dose.doseMg} mg)` : '';
+      lines.push(`Medicamento: ${dose.medicationName}${amount} às ${time(dose.administeredAt)}`);
+    }
+
+    for (const routine of summary.openRoutines) {
+      lines.push(`Em andamento: ${routine.name} desde ${time(routine.startTime)} (${formatMinutes(routine.minutesElapsed)})`);
+    }
+
+    for (const note of summary.notes.slice(-DIGEST_MAX_NOTES)) {
+      lines.push(`Nota${note.author ? ` de ${note.author}` : ''} (${time(note.at)}): ${note.text}`);
+    }
+
+    return lines;
+  }
+
+  private static async resolveSince(
+    babyId: number,
+    userId: number,
+    until: Date,
+    since?: Date
+  ): Promise<{ since: Date; sinceSource: HandoffSinceSource }> {
+    if (since) {
+      if (since >= until || until.getTime() - since.getTime() > MAX_LOOKBACK_MS) {
+        throw AppError.badRequest('O início do resumo deve estar entre agora e 7 dias atrás');
+      }
+      return { since, sinceSource: 'query' };
+    }
+
+    const lastActivity = await prisma.recordRevision.findFirst({
+      where: { babyId, userId },
+      orderBy: { createdAt: 'desc' },
+      select: { createdAt: true },
+    });
+    if (lastActivity && until.getTime() - lastActivity.createdAt.getTime() <= LAST_ACTIVITY_MAX_LOOKBACK_MS) {
+      return { since: lastActivity.createdAt, sinceSource: 'last_activity' };
+    }
+
+    return { since: new Date(until.getTime() - DEFAULT_LOOKBACK_MS), sinceSource: 'default' };
+  }
+
+  /**
+   * Mesmo resumo sem doses e notas de medicamento (para quem não tem clinical:read)
+   */
+  private static withoutMedications(summary: HandoffSummary, timezone: string): HandoffSummary {
+    const stripped: HandoffSummary = {
+      ...summary,
+      medications: [],
+      notes: summary.notes.filter(note => note.source !== 'medication'),
+    };
+    stripped.highlights = HandoffService.describe(stripped, timezone);
+    return stripped;
+  }
+
+  /**
+   * Usuários que podem receber o resumo (membros ativos e vínculos legados com
+   * routines:read), com as permissões de cada um
+   */
+  private static async getRecipientPermissions(babyId: number): Promise<Map<number, BabyMemberPermissions>> {
+    const [members, legacy] = await Promise.all([
+      prisma.babyMember.findMany({
+        where: { babyId, ...activeMemberWhere() },
+        select: { userId: true },
+      }),
+      prisma.caregiverBaby.findMany({
+        where: { babyId },
+        select: { caregiver: { select: { userId: true } } },
+      }),
+    ]);
+
+    const userIds = new Set([...members.map(m => m.userId), ...legacy.map(l => l.caregiver.userId)]);
+    const recipients = new Map<number, BabyMemberPermissions>();
+    for (const userId of userIds) {
+      const permissions = await getBabyPermissions(userId, babyId);
+      if (permissions && hasPermission(permissions, 'routines:read')) recipients.set(userId, permissions);
+    }
+    return recipients;
+  }
+
+  private static async getUserNames(userIds: number[]): Promise<Map<number, string>> {
+    if (userIds.length === 0) return new Map();
+    const users = await prisma.user.findMany({
+      where: { id: { in: userIds } },
+      select: {
+        id: true,
+        caregiver: { select: { fullName: true } },
+        professional: { select: { fullName: true } },
+      },
+    });
+    return new Map(users.map(u => [u.id, u.caregiver?.fullName ?? u.professional?.fullName ?? 'Usuário']));
+  }
+}
@@ -0,0 +1,527 @@
+// Olive Baby API - Import Service
+// Importação de histórico de outros apps e planilhas (CSV/JSON) com prévia, dry-run e rollback
+import { Prisma, RoutineType } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { AppError } from '../utils/errors/AppError';
+import { ImportFormat, ImportMapping, ImportRowIssue } from '../types';
+import { IMPORT_PRESETS, getImportPreset } from '../constants/import-presets';
+import {
+  ImportSourceRow,
+  ParsedGrowthImport,
+  ParsedImportRecord,
+  ParsedMilestoneImport,
+  ParsedRoutineImport,
+  findMissingColumns,
+  mapImportRow,
+  mergeImportMapping,
+  readImportRows,
+} from '../utils/helpers/import-mapping.helper';
+import { formatInUserTimezone, isValidTimezone } from '../utils/helpers/timezone.helper';
+import { requireBabyAccessByCaregiverId } from '../utils/helpers/baby-permission.helper';
+import { SettingsService } from './settings.service';
+import { RecordRevisionInput, RevisionService } from './revision.service';
+
+export interface ImportRequest {
+  format: ImportFormat;
+  content: string | Record<string, unknown>[];
+  fileName?: string;
+  preset?: string;
+  mapping?: Partial<ImportMapping>;
+  timezone?: string;
+  dryRun?: boolean;
+}
+
+type DuplicateReason = 'EXISTING' | 'IN_FILE';
+
+interface ImportDuplicate {
+  row: number;
+  kind: ParsedImportRecord['kind'];
+  reason: DuplicateReason;
+}
+
+interface PreparedImport {
+  preset: string | null;
+  mapping: ImportMapping;
+  timezone: string;
+  totalRows: number;
+  records: ParsedImportRecord[];
+  duplicates: ImportDuplicate[];
+  errors: ImportRowIssue[];
+}
+
+// Limite por arquivo; históricos maiores podem ser divididos em mais de um lote
+export const MAX_IMPORT_ROWS = 10000;
+
+const PREVIEW_ROWS = 20;
+
+// Máximo de linhas listadas no relatório (os totais sempre vêm completos)
+const REPORT_ROW_LIMIT = 100;
+
+const MINUTE_MS = 60 * 1000;
+
+export class ImportService {
+  static getPresets() {
+    return IMPORT_PRESETS;
+  }
+
+  /**
+   * Prévia: colunas do arquivo, mapeamento efetivo e como as primeiras linhas seriam importadas
+   */
+  static async preview(caregiverId: number, userId: number, babyId: number, request: ImportRequest) {
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'routines:write');
+
+    const { columns, rows } = this.readRows(request);
+    const suggestedPreset = this.suggestPreset(request.format, columns);
+    const presetKey = request.preset || suggestedPreset;
+    const mapping = this.resolveMapping(presetKey, request.mapping);
+    const timezone = await this.resolveTimezone(userId, request.timezone);
+
+    return {
+      columns,
+      totalRows: rows.length,
+      suggestedPreset,
+      preset: presetKey,
+      timezone,
+      mapping,
+      missingColumns: findMissingColumns(mapping, columns),
+      sample: rows.slice(0, PREVIEW_ROWS).map(source => {
+        const result = mapImportRow(source, mapping, timezone);
+        return {
+          row: source.row,
+          values: source.values,
+          record: result.record || null,
+          issue: result.issue || null,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Importa o arquivo (ou só gera o relatório, com dryRun)
+   */
+  static async run(caregiverId: number, userId: number, babyId: number, request: ImportRequest) {
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'routines:write');
+
+    const prepared = await this.prepare(userId, babyId, request);
+    const summary = this.buildSummary(prepared);
+
+    if (request.dryRun || prepared.records.length === 0) {
+      return { dryRun: !!request.dryRun, batchId: null, preset: prepared.preset, timezone: prepared.timezone, ...summary };
+    }
+
+    const context = { userId, source: 'IMPORT' as const };
+    const routines = prepared.records.filter((r): r is ParsedRoutineImport => r.kind === 'ROUTINE');
+    const growth = prepared.records.filter((r): r is ParsedGrowthImport => r.kind === 'GROWTH');
+    const milestones = prepared.records.filter((r): r is ParsedMilestoneImport => r.kind === 'MILESTONE');
+
+    // Crescimento e marcos têm permissão própria
+    if (growth.length > 0 || milestones.length > 0) {
+      await requireBabyAccessByCaregiverId(caregiverId, babyId, 'growth:write');
+    }
+
+    const batch = await prisma.$transaction(async (tx) => {
+      const batch = await tx.importBatch.create({
+        data: {
+          babyId,
+          userId,
+          format: request.format,
+          preset: prepared.preset,
+          fileName: request.fileName,
+          mapping: prepared.mapping as unknown as Prisma.InputJsonValue,
+          summary: summary as unknown as Prisma.InputJsonValue,
+        },
+      });
+
+      const createdRoutines = routines.length > 0
+        ? await tx.routineLog.createManyAndReturn({
+          data: routines.map(r => ({
+            babyId,
+            routineType: r.routineType,
+            startTime: r.startTime,
+            endTime: r.endTime,
+            durationSeconds: r.durationSeconds,
+            notes: r.notes,
+            meta: r.meta as object,
+            importBatchId: batch.id,
+          })),
+        })
+        : [];
+
+      const createdGrowth = growth.length > 0
+        ? await tx.growth.createManyAndReturn({
+          data: growth.map(g => ({
+            babyId,
+            measuredAt: g.measuredAt,
+            weightKg: g.weightKg,
+            heightCm: g.heightCm,
+            headCircumferenceCm: g.headCircumferenceCm,
+            source: 'import',
+            notes: g.notes,
+            importBatchId: batch.id,
+          })),
+        })
+        : [];
+
+      const createdMilestones = milestones.length > 0
+        ? await tx.milestone.createManyAndReturn({
+          data: milestones.map(m => ({
+            babyId,
+            milestoneKey: m.milestoneKey,
+            milestoneLabel: m.milestoneLabel,
+            occurredOn: m.occurredOn,
+            notes: m.notes,
+            importBatchId: batch.id,
+          })),
+        })
+        : [];
+
+      const revisions: RecordRevisionInput[] = [
+        ...createdRoutines.map(row => ({ entityType: 'ROUTINE_LOG' as const, entityId: row.id, after: row })),
+        ...createdGrowth.map(row => ({ entityType: 'GROWTH' as const, entityId: row.id, after: row })),
+        ...createdMilestones.map(row => ({ entityType: 'MILESTONE' as const, entityId: row.id, after: row })),
+      ].map(item => ({ ...item, babyId, action: 'CREATE' as const, context }));
+
+      await RevisionService.recordMany(tx, revisions);
+
+      return batch;
+    }, { timeout: 60000 });
+
+    logger.info('[Import] Lote importado', {
+      batchId: batch.id,
+      babyId,
+      userId,
+      records: prepared.records.length,
+      duplicates: prepared.duplicates.length,
+      errors: prepared.errors.length,
+    });
+
+    return { dryRun: false, batchId: batch.id, preset: prepared.preset, timezone: prepared.timezone, ...summary };
+  }
+
+  static async listBatches(caregiverId: number, babyId: number) {
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'routines:read');
+
+    return prisma.importBatch.findMany({
+      where: { babyId },
+      select: {
+        id: true,
+        userId: true,
+        format: true,
+        preset: true,
+        fileName: true,
+        status: true,
+        summary: true,
+        createdAt: true,
+        rolledBackAt: true,
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  static async getBatch(caregiverId: number, babyId: number, batchId: number) {
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'routines:read');
+
+    const batch = await prisma.importBatch.findFirst({
+      where: { id: batchId, babyId },
+      include: {
+        _count: { select: { routineLogs: true, growthRecords: true, milestones: true } },
+      },
+    });
+
+    if (!batch) {
+      throw AppError.notFound('Importação não encontrada');
+    }
+
+    const { _count, ...rest } = batch;
+    return {
+      ...rest,
+      remaining: {
+        routines: _count.routineLogs,
+        growth: _count.growthRecords,
+        milestones: _count.milestones,
+      },
+    };
+  }
+
+  /**
+   * Desfaz o lote inteiro: remove os registros ainda vinculados a ele (ficam na lixeira)
+   */
+  static async rollback(caregiverId: number, userId: number, babyId: number, batchId: number) {
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'routines:write');
+
+    const batch = await prisma.importBatch.findFirst({
+      where: { id: batchId, babyId },
+      include: { _count: { select: { growthRecords: true, milestones: true } } },
+    });
+    if (!batch) {
+      throw AppError.notFound('Importação não encontrada');
+    }
+    if (batch.status === 'ROLLED_BACK') {
+      throw AppError.conflict('Esta importação já foi desfeita', 'IMPORT_ALREADY_ROLLED_BACK');
+    }
+    if (batch._count.growthRecords > 0 || batch._count.milestones > 0) {
+      await requireBabyAccessByCaregiverId(caregiverId, babyId, 'growth:write');
+    }
+
+    const context = { userId, source: 'IMPORT' as const };
+
+    const removed = await prisma.$transaction(async (tx) => {
+      const [routines, growth, milestones] = await Promise.all([
+        tx.routineLog.findMany({ where: { importBatchId: batchId } }),
+        tx.growth.findMany({ where: { importBatchId: batchId } }),
+        tx.milestone.findMany({ where: { importBatchId: batchId } }),
+      ]);
+
+      await tx.routineLog.deleteMany({ where: { importBatchId: batchId } });
+      await tx.growth.deleteMany({ where: { importBatchId: batchId } });
+      await tx.milestone.deleteMany({ where: { importBatchId: batchId } });
+
+      // Apps offline removem as rotinas no próximo pull
+      if (routines.length > 0) {
+        await tx.routineLogTombstone.createMany({
+          data: routines.map(r => ({
+            babyId,
+            routineLogId: r.id,
+            clientId: r.clientId,
+            deletedByUserId: userId,
+          })),
+        });
+      }
+
+      const revisions: RecordRevisionInput[] = [
+        ...routines.map(row => ({ entityType: 'ROUTINE_LOG' as const, entityId: row.id, before: row })),
+        ...growth.map(row => ({ entityType: 'GROWTH' as const, entityId: row.id, before: row })),
+        ...milestones.map(row => ({ entityType: 'MILESTONE' as const, entityId: row.id, before: row })),
+      ].map(item => ({ ...item, babyId, action: 'DELETE' as const, context }));
+
+      await RevisionService.recordMany(tx, revisions);
+
+      await tx.importBatch.update({
+        where: { id: batchId },
+        data: { status: 'ROLLED_BACK', rolledBackAt: new Date() },
+      });
+
+      return { routines: routines.length, growth: growth.length, milestones: milestones.length };
+    }, { timeout: 60000 });
+
+    logger.info('[Import] Lote desfeito', { batchId, babyId, userId, removed });
+
+    return { batchId, removed };
+  }
+
+  // ==========================================
+  // Helpers
+  // ==========================================
+
+  private static readRows(request: ImportRequest) {
+    let parsed: { columns: string[]; rows: ImportSourceRow[] };
+    try {
+      parsed = readImportRows(request.format, request.content, request.mapping?.delimiter);
+    } catch (error) {
+      throw AppError.badRequest(error instanceof Error ? error.message : 'Arquivo inválido');
+    }
+
+    if (parsed.rows.length === 0) {
+      throw AppError.badRequest('O arquivo não tem registros');
+    }
+    if (parsed.rows.length > MAX_IMPORT_ROWS) {
+      throw AppError.badRequest(`O arquivo tem ${parsed.rows.length} registros; o máximo por importação é ${MAX_IMPORT_ROWS}`);
+    }
+
+    return parsed;
+  }
+
+  private static resolveMapping(presetKey: string | null | undefined, override?: Partial<ImportMapping>) {
+    const preset = presetKey ? getImportPreset(presetKey) : undefined;
+    if (presetKey && !preset) {
+      throw AppError.badRequest(`Preset de importação desconhecido: ${presetKey}`);
+    }
+    if (!preset && !override?.columns) {
+      throw AppError.badRequest('Informe um preset ou o mapeamento das colunas');
+    }
+    return mergeImportMapping(preset?.mapping, override);
+  }
+
+  private static async resolveTimezone(userId: number, timezone?: string) {
+    if (timezone) {
+      if (!isValidTimezone(timezone)) {
+        throw AppError.badRequest('Fuso horário inválido');
+      }
+      return timezone;
+    }
+    return SettingsService.getUserTimezone(userId);
+  }
+
+  /**
+   * Preset cujas colunas mapeadas existem todas no arquivo
+   */
+  private static suggestPreset(format: ImportFormat, columns: string[]): string | null {
+    const match = IMPORT_PRESETS
+      .filter(preset => preset.format === format)
+      .map(preset => {
+        const mapped = Object.values(preset.mapping.columns).filter(Boolean).length;
+        const missing = findMissingColumns(preset.mapping, columns).length;
+        return { key: preset.key, mapped, missing };
+      })
+      .filter(candidate => candidate.missing === 0)
+      .sort((a, b) => b.mapped - a.mapped)[0];
+
+    return match?.key || null;
+  }
+
+  private static async prepare(userId: number, babyId: number, request: ImportRequest): Promise<PreparedImport> {
+    const { columns, rows } = this.readRows(request);
+    const preset = request.preset || this.suggestPreset(request.format, columns);
+    const mapping = this.resolveMapping(preset, request.mapping);
+    const timezone = await this.resolveTimezone(userId, request.timezone);
+
+    const now = new Date();
+    const parsed: ParsedImportRecord[] = [];
+    const errors: ImportRowIssue[] = [];
+
+    for (const source of rows) {
+      const result = mapImportRow(source, mapping, timezone, now);
+      if (result.record) {
+        parsed.push(result.record);
+      } else {
+        errors.push(result.issue);
+      }
+    }
+
+    const duplicates = await this.findDuplicates(babyId, parsed, timezone);
+    const duplicateRows = new Set(duplicates.map(d => d.row));
+
+    return {
+      preset: preset || null,
+      mapping,
+      timezone,
+      totalRows: rows.length,
+      records: parsed.filter(record => !duplicateRows.has(record.row)),
+      duplicates,
+      errors,
+    };
+  }
+
+  /**
+   * Duplicados já existentes no bebê ou repetidos no próprio arquivo.
+   * Rotinas: mesmo tipo com início no mesmo minuto (±1 min, arredondamentos entre apps);
+   * crescimento: mesmas medidas no mesmo dia; marcos: mesma chave.
+   */
+  private static async findDuplicates(
+    babyId: number,
+    records: ParsedImportRecord[],
+    timezone: string
+  ): Promise<ImportDuplicate[]> {
+    const duplicates: ImportDuplicate[] = [];
+
+    const routines = records.filter((r): r is ParsedRoutineImport => r.kind === 'ROUTINE');
+    if (routines.length > 0) {
+      const times = routines.map(r => r.startTime.getTime());
+      const existing = await prisma.routineLog.findMany({
+        where: {
+          babyId,
+          startTime: {
+            gte: new Date(Math.min(...times) - MINUTE_MS),
+            lte: new Date(Math.max(...times) + MINUTE_MS),
+          },
+        },
+        select: { routineType: true, startTime: true },
+      });
+
+      const routineKey = (type: RoutineType, minute: number) => `${type}|${minute}`;
+      const existingKeys = new Set(existing.map(r => routineKey(r.routineType, Math.floor(r.startTime.getTime() / MINUTE_MS))));
+      const seen = new Set<string>();
+
+      for (const routine of routines) {
+        const minute = Math.floor(routine.startTime.getTime() / MINUTE_MS);
+        const key = routineKey(routine.routineType, minute);
+        if ([minute - 1, minute, minute + 1].some(m => existingKeys.has(routineKey(routine.routineType, m)))) {
+          duplicates.push({ row: routine.row, kind: 'ROUTINE', reason: 'EXISTING' });
+        } else if (seen.has(key)) {
+          duplicates.push({ row: routine.row, kind: 'ROUTINE', reason: 'IN_FILE' });
+        }
+        seen.add(key);
+      }
+    }
+
+    const growth = records.filter((r): r is ParsedGrowthImport => r.kind === 'GROWTH');
+    if (growth.length > 0) {
+      const growthKey = (measuredAt: Date, values: (unknown)[]) =>
+        `${formatInUserTimezone(measuredAt, timezone, 'yyyy-MM-dd')}|${values.map(v => (v === null ? '' : Number(v))).join('|')}`;
+
+      const existing = await prisma.growth.findMany({ where: { babyId } });
+      const existingKeys = new Set(existing.map(g => growthKey(g.measuredAt, [g.weightKg, g.heightCm, g.headCircumferenceCm])));
+      const seen = new Set<string>();
+
+      for (const record of growth) {
+        const key = growthKey(record.measuredAt, [record.weightKg, record.heightCm, record.headCircumferenceCm]);
+        if (existingKeys.has(key)) {
+          duplicates.push({ row: record.row, kind: 'GROWTH', reason: 'EXISTING' });
+        } else if (seen.has(key)) {
+          duplicates.push({ row: record.row, kind: 'GROWTH', reason: 'IN_FILE' });
+        }
+        seen.add(key);
+      }
+    }
+
+    const milestones = records.filter((r): r is ParsedMilestoneImport => r.kind === 'MILESTONE');
+    if (milestones.length > 0) {
+      const existing = await prisma.milestone.findMany({ where: { babyId }, select: { milestoneKey: true } });
+      const existingKeys = new Set(existing.map(m => m.milestoneKey));
+      const seen = new Set<string>();
+
+      for (const record of milestones) {
+        if (existingKeys.has(record.milestoneKey)) {
+          duplicates.push({ row: record.row, kind: 'MILESTONE', reason: 'EXISTING' });
+        } else if (seen.has(record.milestoneKey)) {
+          duplicates.push({ row: record.row, kind: 'MILESTONE', reason: 'IN_FILE' });
+        }
+        seen.add(record.milestoneKey);
+      }
+    }
+
+    return duplicates.sort((a, b) => a.row - b.row);
+  }
+
+  private static buildSummary(prepared: PreparedImport) {
+    const routinesByType: Partial<Record<RoutineType, number>> = {};
+    let growth = 0;
+    let milestones = 0;
+    const dates: number[] = [];
+
+    for (const record of prepared.records) {
+      if (record.kind === 'ROUTINE') {
+        routinesByType[record.routineType] = (routinesByType[record.routineType] || 0) + 1;
+        dates.push(record.startTime.getTime());
+      } else if (record.kind === 'GROWTH') {
+        growth++;
+        dates.push(record.measuredAt.getTime());
+      } else {
+        milestones++;
+        if (record.occurredOn) dates.push(record.occurredOn.getTime());
+      }
+    }
+
+    return {
+      totalRows: prepared.totalRows,
+      imported: {
+        total: prepared.records.length,
+        routines: routinesByType,
+        growth,
+        milestones,
+      },
+      period: dates.length > 0
+        ? { from: new Date(Math.min(...dates)), to: new Date(Math.max(...dates)) }
+        : null,
+      duplicates: {
+        total: prepared.duplicates.length,
+        rows: prepared.duplicates.slice(0, REPORT_ROW_LIMIT),
+      },
+      errors: {
+        total: prepared.errors.length,
+        rows: prepared.errors.slice(0, REPORT_ROW_LIMIT),
+      },
+    };
+  }
+}
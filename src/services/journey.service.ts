@@ -1,15 +1,45 @@
 // OlieCare API - Journey Service
-// Enrollment-based journey execution with per-user tracking, condition evaluation, and deduplication
+// Enrollment-based journey execution with per-user tracking, condition evaluation, and deduplication.
+// Journeys can be triggered by domain events, branch (yes/no), wait for events and run A/B splits.
+import crypto from 'crypto';
 import { JourneyStatus, EnrollmentStatus, Prisma } from '@prisma/client';
 import { prisma } from '../config/database';
 import { logger } from '../config/logger';
 import { env } from '../config/env';
 
+// Eventos de domínio emitidos pela aplicação (JourneyService.emitEvent)
+export const JOURNEY_EVENTS = [
+  'user_registered',
+  'baby_created',
+  'first_routine_logged',
+  'paywall_hit',
+  'subscription_started',
+  'subscription_canceled',
+  'invite_accepted',
+] as const;
+
+export type JourneyEventName = typeof JOURNEY_EVENTS[number];
+
+export interface SplitVariant {
+  key: string;
+  weight: number;
+  step?: number;      // stepOrder do caminho da variante (padrão: próxima etapa)
+}
+
+interface EnrollmentMetadata {
+  variants?: Record<string, string>;      // stepId do split -> variante sorteada
+  conversions?: Record<string, string>;   // stepId do split -> data da conversão
+  [key: string]: unknown;
+}
+
+const ACTION_STEP_TYPES = new Set(['email', 'push', 'whatsapp', 'delay']);
+
 export interface CreateJourneyInput {
   name: string;
   description?: string;
   category: string;
   audience: string;
+  triggerEvent?: JourneyEventName | null;
   priority?: number;
   tags?: string[];
   steps?: CreateStepInput[];
@@ -28,6 +58,7 @@ export interface UpdateJourneyInput {
   description?: string;
   category?: string;
   audience?: string;
+  triggerEvent?: JourneyEventName | null;
   priority?: number;
   tags?: string[];
   status?: JourneyStatus;
@@ -105,6 +136,7 @@ export class JourneyService {
     if (input.description !== undefined) data.description = input.description;
     if (input.category !== undefined) data.category = input.category;
     if (input.audience !== undefined) data.audience = input.audience;
+    if (input.triggerEvent !== undefined) data.triggerEvent = input.triggerEvent;
     if (input.priority !== undefined) data.priority = input.priority;
     if (input.tags !== undefined) data.tags = input.tags;
     if (input.status !== undefined) {
@@ -249,6 +281,8 @@ export class JourneyService {
       include: { steps: { orderBy: { stepOrder: 'asc' } } },
     });
     if (!journey) throw new Error('Journey not found');
+    // Jornadas por evento só inscrevem quando o evento acontece
+    if (journey.triggerEvent) return 0;
 
     const users = await JourneyService.getAudienceUsers(journey.audience);
     let enrolled = 0;
@@ -297,13 +331,26 @@ export class JourneyService {
 
   static async evaluateCondition(
     userId: number,
-    config: Record<string, unknown>
+    config: Record<string, unknown>,
+    enrolledAt?: Date
   ): Promise<boolean> {
     const field = config.field as string;
     const operator = config.operator as string;
     const value = config.value;
 
     switch (field) {
+      // { field: 'event', event: 'paywall_hit', operator: 'equals', value: true } — desde a inscrição
+      case 'event': {
+        const eventCount = await prisma.journeyEvent.count({
+          where: {
+            userId,
+            event: config.event as string,
+            ...(enrolledAt && { occurredAt: { gte: enrolledAt } }),
+          },
+        });
+        return JourneyService.compareValues(eventCount > 0, operator, value);
+      }
+
       case 'hasBaby': {
         const babyCount = await prisma.babyMember.count({
           where: { userId, status: 'ACTIVE' },
@@ -414,40 +461,46 @@ export class JourneyService {
   // ==========================================
 
   static async executeStepForUser(
-    step: { id: number; type: string; config: unknown; journey: { id: number } },
+    step: { id: number; type: string; config: unknown; journey: { id: number; category?: string } },
     user: { id: number; email: string; name: string },
     enrollmentId: number
-  ): Promise<'sent' | 'delivered' | 'failed' | 'skipped'> {
+  ): Promise<'sent' | 'delivered' | 'failed' | 'suppressed' | 'skipped'> {
     const alreadyExecuted = await prisma.journeyStepExecution.findFirst({
       where: { enrollmentId, stepId: step.id },
     });
     if (alreadyExecuted) return 'skipped';
 
     const config = step.config as Record<string, unknown>;
-    let status: 'sent' | 'delivered' | 'failed' = 'sent';
+    let status: 'sent' | 'delivered' | 'failed' | 'suppressed' = 'sent';
 
     try {
-      if (step.type === 'email') {
-        const { sendEmailByTemplate } = await import('./email.service');
-        await sendEmailByTemplate(
-          (config.templateType as string) || 'welcome',
-          user.email,
-          {
-            userName: user.name,
-            subject: (config.subject as string) || 'OlieCare',
-            customBody: config.customBody as string | undefined,
-          }
-        );
-        status = 'delivered';
-      } else if (step.type === 'push') {
-        const { PushNotificationService } = await import('./push-notification.service');
-        const results = await PushNotificationService.sendToUser(user.id, {
-          title: (config.title as string) || 'OlieCare',
-          body: (config.body as string) || '',
-          clickAction: config.clickAction as string | undefined,
-          priority: (config.priority as 'default' | 'high') || 'default',
+      if (step.type === 'email' || step.type === 'push') {
+        // Opt-out de categoria e horário de silêncio do usuário (adiado conta como enviado)
+        const { NotificationDispatcherService } = await import('./notification-dispatcher.service');
+        const result = await NotificationDispatcherService.dispatch(user.id, {
+          category: step.journey.category === 'premium' ? 'marketing' : 'engagement',
+          ...(step.type === 'email'
+            ? {
+              email: {
+                templateType: (config.templateType as string) || 'welcome',
+                subject: (config.subject as string) || 'OlieCare',
+                customBody: config.customBody as string | undefined,
+              },
+            }
+            : {
+              push: {
+                title: (config.title as string) || 'OlieCare',
+                body: (config.body as string) || '',
+                clickAction: config.clickAction as string | undefined,
+                priority: (config.priority as 'default' | 'high') || 'default',
+              },
+            }),
         });
-        status = results.some(r => r.success) ? 'delivered' : (results.length === 0 ? 'sent' : 'failed');
+        const outcome = step.type === 'email' ? result.email : result.push;
+        status = outcome === 'sent' ? 'delivered'
+          : outcome === 'failed' ? 'failed'
+          : outcome === 'suppressed' ? 'suppressed'
+          : 'sent';
       } else if (step.type === 'whatsapp') {
         status = await JourneyService.executeWhatsAppStep(config, user);
       }
@@ -462,7 +515,9 @@ export class JourneyService {
         stepId: step.id,
         channel: step.type,
         status,
-        errorMessage: status === 'failed' ? 'Delivery failed' : undefined,
+        errorMessage: status === 'failed'
+          ? 'Delivery failed'
+          : status === 'suppressed' ? 'Blocked by notification preferences' : undefined,
       },
     });
 
@@ -547,12 +602,12 @@ export class JourneyService {
       };
 
       const result = await JourneyService.executeStepForUser(
-        { id: step.id, type: step.type, config: step.config, journey: { id: journeyId } },
+        { id: step.id, type: step.type, config: step.config, journey: { id: journeyId, category: step.journey.category } },
         user,
         enrollment.id
       );
 
-      if (result === 'skipped') continue;
+      if (result === 'skipped' || result === 'suppressed') continue;
       sent++;
       if (result === 'delivered') delivered++;
       else if (result === 'failed') failed++;
@@ -581,7 +636,7 @@ export class JourneyService {
   }
 
   // ==========================================
-  // Enrollment-based Journey Execution (called by n8n)
+  // Enrollment-based Journey Execution (scheduler job journeys.execute / n8n)
   // ==========================================
 
   static async executeJourney(journeyId: number): Promise<{
@@ -635,6 +690,11 @@ export class JourneyService {
 
     let processed = 0, advanced = 0, completedCount = 0;
 
+    const track = (outcome: 'advanced' | 'completed' | 'waiting') => {
+      if (outcome === 'advanced') advanced++;
+      else if (outcome === 'completed') completedCount++;
+    };
+
     for (const enrollment of activeEnrollments) {
       processed++;
       const step = journey.steps.find(s => s.stepOrder === enrollment.currentStep);
@@ -642,7 +702,7 @@ export class JourneyService {
       if (!step) {
         await prisma.journeyEnrollment.update({
           where: { id: enrollment.id },
-          data: { status: 'COMPLETED', completedAt: now },
+          data: { status: 'COMPLETED', completedAt: now, nextStepAt: null, waitingEvent: null },
         });
         completedCount++;
         continue;
@@ -656,7 +716,7 @@ export class JourneyService {
       };
 
       if (step.type === 'delay') {
-        const delayHours = (config.hours as number) ?? 24;
+        const delayHours = (config.hours as number) ?? ((config.days as number) ?? 1) * 24;
         const waitUntil = new Date(
           (enrollment.lastStepAt ?? enrollment.enrolledAt).getTime() + delayHours * 3600 * 1000
         );
@@ -669,20 +729,14 @@ export class JourneyService {
           continue;
         }
 
-        await prisma.journeyEnrollment.update({
-          where: { id: enrollment.id },
-          data: {
-            currentStep: enrollment.currentStep + 1,
-            lastStepAt: now,
-            nextStepAt: null,
-          },
-        });
-        advanced++;
+        track(await JourneyService.moveEnrollment(
+          journey.steps, enrollment.id, JourneyService.resolveTarget(config, 'nextStep', step.stepOrder + 1), now
+        ));
         continue;
       }
 
       if (step.type === 'condition') {
-        const conditionMet = await JourneyService.evaluateCondition(user.id, config);
+        const conditionMet = await JourneyService.evaluateCondition(user.id, config, enrollment.enrolledAt);
 
         await prisma.journeyStepExecution.create({
           data: {
@@ -692,42 +746,104 @@ export class JourneyService {
             status: conditionMet ? 'passed' : 'skipped',
           },
         });
+        await JourneyService.incrementStepMetric(step.id, conditionMet ? 'true' : 'false');
 
+        let target: number | null;
         if (conditionMet) {
-          await prisma.journeyEnrollment.update({
-            where: { id: enrollment.id },
-            data: {
-              currentStep: enrollment.currentStep + 1,
-              lastStepAt: now,
-            },
-          });
-          advanced++;
+          target = JourneyService.resolveTarget(config, 'trueStep', step.stepOrder + 1);
+        } else if ('falseStep' in config) {
+          target = JourneyService.resolveTarget(config, 'falseStep', null);
         } else {
+          // Sem caminho "não" explícito: pula para a próxima ação depois da condição
           const nextActionStep = journey.steps.find(
-            s => s.stepOrder > step.stepOrder && (s.type === 'email' || s.type === 'push' || s.type === 'whatsapp' || s.type === 'delay')
+            s => s.stepOrder > step.stepOrder && ACTION_STEP_TYPES.has(s.type)
           );
-          if (nextActionStep) {
-            await prisma.journeyEnrollment.update({
-              where: { id: enrollment.id },
-              data: {
-                currentStep: nextActionStep.stepOrder,
-                lastStepAt: now,
-              },
-            });
-          } else {
-            await prisma.journeyEnrollment.update({
-              where: { id: enrollment.id },
-              data: { status: 'COMPLETED', completedAt: now },
-            });
-            completedCount++;
-          }
+          target = nextActionStep?.stepOrder ?? null;
         }
+
+        track(await JourneyService.moveEnrollment(journey.steps, enrollment.id, target, now));
+        continue;
+      }
+
+      if (step.type === 'wait_event') {
+        const event = config.event as string;
+        const onEvent = JourneyService.resolveTarget(config, 'onEventStep', step.stepOrder + 1);
+
+        // Já estava esperando e o prazo venceu: segue pelo caminho de timeout
+        if (enrollment.waitingEvent === event) {
+          await prisma.journeyStepExecution.create({
+            data: { enrollmentId: enrollment.id, stepId: step.id, channel: 'wait_event', status: 'timeout' },
+          });
+          await JourneyService.incrementStepMetric(step.id, 'timeout');
+          track(await JourneyService.moveEnrollment(
+            journey.steps,
+            enrollment.id,
+            JourneyService.resolveTarget(config, 'onTimeoutStep', step.stepOrder + 1),
+            now
+          ));
+          continue;
+        }
+
+        // O evento pode ter acontecido entre a etapa anterior e esta execução
+        const alreadyHappened = await prisma.journeyEvent.findFirst({
+          where: { userId: user.id, event, occurredAt: { gte: enrollment.lastStepAt ?? enrollment.enrolledAt } },
+          select: { id: true },
+        });
+        if (alreadyHappened) {
+          await prisma.journeyStepExecution.create({
+            data: { enrollmentId: enrollment.id, stepId: step.id, channel: 'wait_event', status: 'event' },
+          });
+          await JourneyService.incrementStepMetric(step.id, 'event');
+          track(await JourneyService.moveEnrollment(journey.steps, enrollment.id, onEvent, now));
+          continue;
+        }
+
+        const timeoutHours = Number(config.timeoutHours) > 0 ? Number(config.timeoutHours) : 72;
+        await prisma.journeyEnrollment.update({
+          where: { id: enrollment.id },
+          data: {
+            waitingEvent: event,
+            nextStepAt: new Date(now.getTime() + timeoutHours * 3600 * 1000),
+          },
+        });
+        continue;
+      }
+
+      if (step.type === 'split') {
+        const variants = (config.variants as SplitVariant[] | undefined) ?? [];
+        const variant = JourneyService.pickVariant(variants, `${enrollment.id}:${step.id}`);
+        if (!variant) {
+          track(await JourneyService.moveEnrollment(journey.steps, enrollment.id, step.stepOrder + 1, now));
+          continue;
+        }
+
+        const metadata = (enrollment.metadata as EnrollmentMetadata | null) ?? {};
+        await prisma.journeyEnrollment.update({
+          where: { id: enrollment.id },
+          data: {
+            metadata: {
+              ...metadata,
+              variants: { ...(metadata.variants ?? {}), [step.id]: variant.key },
+            } as Prisma.InputJsonValue,
+          },
+        });
+        await prisma.journeyStepExecution.create({
+          data: { enrollmentId: enrollment.id, stepId: step.id, channel: 'split', status: `variant:${variant.key}` },
+        });
+        await JourneyService.incrementStepMetric(step.id, `variant:${variant.key}:entered`);
+
+        track(await JourneyService.moveEnrollment(
+          journey.steps,
+          enrollment.id,
+          variant.step === undefined ? step.stepOrder + 1 : variant.step,
+          now
+        ));
         continue;
       }
 
       // email / push / whatsapp
       const result = await JourneyService.executeStepForUser(
-        { id: step.id, type: step.type, config: step.config, journey: { id: journeyId } },
+        { id: step.id, type: step.type, config: step.config, journey: { id: journeyId, category: journey.category } },
         user,
         enrollment.id
       );
@@ -751,21 +867,9 @@ export class JourneyService {
         });
       }
 
-      const nextStepOrder = enrollment.currentStep + 1;
-      const hasMore = journey.steps.some(s => s.stepOrder === nextStepOrder);
-
-      await prisma.journeyEnrollment.update({
-        where: { id: enrollment.id },
-        data: {
-          currentStep: nextStepOrder,
-          lastStepAt: now,
-          nextStepAt: null,
-          ...(hasMore ? {} : { status: 'COMPLETED', completedAt: now }),
-        },
-      });
-
-      if (hasMore) advanced++;
-      else completedCount++;
+      track(await JourneyService.moveEnrollment(
+        journey.steps, enrollment.id, JourneyService.resolveTarget(config, 'nextStep', step.stepOrder + 1), now
+      ));
     }
 
     const totalSent = stepsExecuted.filter(s => s.result.status === 'sent' || s.result.status === 'delivered').length;
@@ -794,11 +898,237 @@ export class JourneyService {
     };
   }
 
+  /**
+   * Destino configurado em `key` (stepOrder). `null` explícito encerra a jornada;
+   * chave ausente usa o fallback.
+   */
+  private static resolveTarget(
+    config: Record<string, unknown>,
+    key: string,
+    fallback: number | null
+  ): number | null {
+    if (!(key in config)) return fallback;
+    const value = config[key];
+    return typeof value === 'number' ? value : null;
+  }
+
+  /**
+   * Leva a inscrição para a etapa `target` (ou conclui, se não existir) e limpa esperas
+   */
+  private static async moveEnrollment(
+    steps: Array<{ stepOrder: number }>,
+    enrollmentId: number,
+    target: number | null,
+    now: Date
+  ): Promise<'advanced' | 'completed'> {
+    const hasTarget = target !== null && steps.some(s => s.stepOrder === target);
+
+    await prisma.journeyEnrollment.update({
+      where: { id: enrollmentId },
+      data: {
+        ...(target !== null && { currentStep: target }),
+        lastStepAt: now,
+        nextStepAt: null,
+        waitingEvent: null,
+        ...(hasTarget ? {} : { status: 'COMPLETED', completedAt: now }),
+      },
+    });
+
+    return hasTarget ? 'advanced' : 'completed';
+  }
+
+  /**
+   * Sorteio ponderado e estável: a mesma inscrição cai sempre na mesma variante
+   */
+  private static pickVariant(variants: SplitVariant[], seed: string): SplitVariant | null {
+    const totalWeight = variants.reduce((sum, v) => sum + Math.max(0, v.weight ?? 0), 0);
+    if (totalWeight <= 0) return null;
+
+    const hash = crypto.createHash('md5').update(seed).digest().readUInt32BE(0);
+    let point = hash % totalWeight;
+    for (const variant of variants) {
+      const weight = Math.max(0, variant.weight ?? 0);
+      if (point < weight) return variant;
+      point -= weight;
+    }
+    return variants[variants.length - 1];
+  }
+
+  private static async incrementStepMetric(stepId: number, key: string): Promise<void> {
+    await prisma.$executeRaw`
+      UPDATE journey_steps
+      SET metrics = COALESCE(metrics, '{}'::jsonb)
+        || jsonb_build_object(${key}::text, COALESCE((metrics->>${key})::int, 0) + 1)
+      WHERE id = ${stepId}
+    `;
+  }
+
+  /**
+   * Métricas por etapa: caminhos de condição/espera e conversão por variante do A/B
+   */
+  static async getStepMetrics(journeyId: number) {
+    const steps = await prisma.journeyStep.findMany({
+      where: { journeyId },
+      orderBy: { stepOrder: 'asc' },
+    });
+
+    return steps.map((step) => {
+      const counters = (step.metrics as Record<string, number> | null) ?? {};
+      const config = step.config as Record<string, unknown>;
+      const base = {
+        stepId: step.id,
+        stepOrder: step.stepOrder,
+        type: step.type,
+        name: step.name,
+        sent: step.sent,
+        delivered: step.delivered,
+        failed: step.failed,
+        counters,
+      };
+
+      if (step.type !== 'split') return base;
+
+      const variants = ((config.variants as SplitVariant[] | undefined) ?? []).map((variant) => {
+        const entered = counters[`variant:${variant.key}:entered`] ?? 0;
+        const converted = counters[`variant:${variant.key}:converted`] ?? 0;
+        return {
+          key: variant.key,
+          weight: variant.weight,
+          entered,
+          converted,
+          conversionRate: entered > 0 ? Math.round((converted / entered) * 1000) / 10 : null,
+        };
+      });
+
+      return { ...base, goalEvent: (config.goalEvent as string | undefined) ?? null, variants };
+    });
+  }
+
+  // ==========================================
+  // Domain Events
+  // ==========================================
+
+  /**
+   * Registra um evento de domínio do usuário e, a partir dele:
+   * inscreve em jornadas disparadas pelo evento, libera etapas wait_event
+   * e conta conversões de variantes de A/B cujo objetivo é este evento.
+   * Nunca lança: falhas de jornada não podem quebrar o fluxo que emitiu o evento.
+   */
+  static async emitEvent(
+    userId: number,
+    event: JourneyEventName,
+    properties: Record<string, unknown> = {}
+  ): Promise<void> {
+    try {
+      const now = new Date();
+      await prisma.journeyEvent.create({
+        data: { userId, event, properties: properties as Prisma.InputJsonValue, occurredAt: now },
+      });
+
+      await JourneyService.enrollByEvent(userId, event);
+      await JourneyService.resumeWaitingEnrollments(userId, event, now);
+      await JourneyService.recordConversions(userId, event, now);
+    } catch (error) {
+      logger.warn(`[Journey] Failed to process event ${event} for user ${userId}`, {
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  private static async enrollByEvent(userId: number, event: string): Promise<void> {
+    const journeys = await prisma.journey.findMany({
+      where: { status: 'ACTIVE', triggerEvent: event },
+      select: { id: true, audience: true },
+    });
+
+    for (const journey of journeys) {
+      const matches = await prisma.user.count({
+        where: { id: userId, ...JourneyService.audienceWhere(journey.audience) },
+      });
+      if (matches === 0) continue;
+
+      // Sem reentrada: quem já passou pela jornada não é inscrito de novo
+      await prisma.journeyEnrollment.upsert({
+        where: { journeyId_userId: { journeyId: journey.id, userId } },
+        create: { journeyId: journey.id, userId, currentStep: 0, status: 'ACTIVE' },
+        update: {},
+      });
+      logger.info(`[Journey] User ${userId} enrolled in journey ${journey.id} by event ${event}`);
+    }
+  }
+
+  private static async resumeWaitingEnrollments(userId: number, event: string, now: Date): Promise<void> {
+    const waiting = await prisma.journeyEnrollment.findMany({
+      where: { userId, status: 'ACTIVE', waitingEvent: event },
+      include: { journey: { include: { steps: { orderBy: { stepOrder: 'asc' } } } } },
+    });
+
+    for (const enrollment of waiting) {
+      const step = enrollment.journey.steps.find(s => s.stepOrder === enrollment.currentStep);
+      if (!step || step.type !== 'wait_event') continue;
+
+      const config = step.config as Record<string, unknown>;
+      await prisma.journeyStepExecution.create({
+        data: { enrollmentId: enrollment.id, stepId: step.id, channel: 'wait_event', status: 'event' },
+      });
+      await JourneyService.incrementStepMetric(step.id, 'event');
+      await JourneyService.moveEnrollment(
+        enrollment.journey.steps,
+        enrollment.id,
+        JourneyService.resolveTarget(config, 'onEventStep', step.stepOrder + 1),
+        now
+      );
+    }
+  }
+
+  private static async recordConversions(userId: number, event: string, now: Date): Promise<void> {
+    const enrollments = await prisma.journeyEnrollment.findMany({
+      where: { userId, status: { in: ['ACTIVE', 'COMPLETED'] } },
+      select: { id: true, journeyId: true, metadata: true },
+    });
+
+    for (const enrollment of enrollments) {
+      const metadata = (enrollment.metadata as EnrollmentMetadata | null) ?? {};
+      const assigned = Object.entries(metadata.variants ?? {});
+      if (assigned.length === 0) continue;
+
+      const splitSteps = await prisma.journeyStep.findMany({
+        where: { id: { in: assigned.map(([stepId]) => Number(stepId)) } },
+        select: { id: true, config: true },
+      });
+
+      const conversions = { ...(metadata.conversions ?? {}) };
+      let converted = false;
+      for (const step of splitSteps) {
+        const goalEvent = (step.config as Record<string, unknown>).goalEvent;
+        if (goalEvent !== event || conversions[step.id]) continue;
+
+        await JourneyService.incrementStepMetric(step.id, `variant:${metadata.variants![step.id]}:converted`);
+        conversions[step.id] = now.toISOString();
+        converted = true;
+      }
+
+      if (!converted) continue;
+
+      const alreadyConverted = Object.keys(metadata.conversions ?? {}).length > 0;
+      await prisma.journeyEnrollment.update({
+        where: { id: enrollment.id },
+        data: { metadata: { ...metadata, conversions } as Prisma.InputJsonValue },
+      });
+      if (!alreadyConverted) {
+        await prisma.journey.update({
+          where: { id: enrollment.journeyId },
+          data: { totalConverted: { increment: 1 } },
+        });
+      }
+    }
+  }
+
   // ==========================================
   // Audience
   // ==========================================
 
-  static async getAudienceUsers(audience: string): Promise<Array<{ id: number; email: string; name: string }>> {
+  private static audienceWhere(audience: string): Prisma.UserWhereInput {
     const where: Prisma.UserWhereInput = { isActive: true };
 
     if (audience === 'b2c') {
@@ -811,8 +1141,12 @@ export class JourneyService {
       where.OR = [{ planId: null }, { plan: { type: 'FREE' } }];
     }
 
+    return where;
+  }
+
+  static async getAudienceUsers(audience: string): Promise<Array<{ id: number; email: string; name: string }>> {
     const users = await prisma.user.findMany({
-      where,
+      where: JourneyService.audienceWhere(audience),
       select: {
         id: true,
         email: true,
@@ -991,4 +1325,19 @@ const JOURNEY_TEMPLATES = [
       { type: 'push', name: 'Push: Oferta de renovação', stepOrder: 4, config: { title: 'Renove com desconto! 💎', body: 'Renove agora e ganhe 15% de desconto no próximo período.', clickAction: '/settings', priority: 'high' } },
     ],
   },
+  {
+    id: 'paywall_upsell_ab',
+    name: 'Upsell após Paywall (A/B)',
+    description: 'Disparada ao bater no paywall; testa push x e-mail e mede assinaturas por variante',
+    category: 'premium',
+    audience: 'free',
+    triggerEvent: 'paywall_hit',
+    steps: [
+      { type: 'split', name: 'A/B: push x e-mail', stepOrder: 0, config: { goalEvent: 'subscription_started', variants: [{ key: 'A', weight: 50, step: 1 }, { key: 'B', weight: 50, step: 2 }] } },
+      { type: 'push', name: 'A: Push com benefícios', stepOrder: 1, config: { title: 'Desbloqueie tudo no Premium 💎', body: 'Relatórios completos, assistente ilimitado e mais cuidadores.', clickAction: '/settings/billing', nextStep: 3 } },
+      { type: 'email', name: 'B: E-mail com benefícios', stepOrder: 2, config: { templateType: 'custom', subject: 'O que você ganha com o Premium 💎', customBody: 'Relatórios completos, assistente ilimitado e mais cuidadores para acompanhar o bebê.' } },
+      { type: 'wait_event', name: 'Aguardar assinatura (3 dias)', stepOrder: 3, config: { event: 'subscription_started', timeoutHours: 72, onEventStep: null, onTimeoutStep: 4 } },
+      { type: 'push', name: 'Push: Último lembrete', stepOrder: 4, config: { title: 'Ainda pensando no Premium? 🌿', body: 'Assine hoje e acompanhe cada detalhe da rotina do bebê.', clickAction: '/settings/billing' } },
+    ],
+  },
 ];
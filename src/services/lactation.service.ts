@@ -0,0 +1,416 @@
+// Olive Baby API - Lactation Service
+// Relatório de amamentação: lados, duração das mamadas, cluster feeding, proporções e produção de leite
+import { RoutineLog } from '@prisma/client';
+import { prisma } from '../config/database';
+import { AppError } from '../utils/errors/AppError';
+import { formatInUserTimezone, DEFAULT_TIMEZONE } from '../utils/helpers/timezone.helper';
+import {
+  ClusterFeedingEpisode,
+  FeedingMeta,
+  LactationDaily,
+  LactationRatios,
+  LactationReport,
+  LactationSessionStats,
+  LactationSideSummary,
+  LactationSupplySummary,
+  LactationNextSide,
+} from '../types';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Cluster feeding: 4 ou mais mamadas começando dentro de 3 horas (mesma regra dos insights)
+const CLUSTER_MIN_FEEDINGS = 4;
+const CLUSTER_WINDOW_MS = 3 * HOUR_MS;
+
+const SHORT_SESSION_MINUTES = 5;
+const LONG_SESSION_MINUTES = 45;
+
+// Produção: últimos dias comparados com o restante do período
+const SUPPLY_RECENT_DAYS = 3;
+const SUPPLY_MIN_SESSIONS = 3;
+const SUPPLY_CHANGE_THRESHOLD = 0.2;
+
+const RECENT_CLUSTERS_LIMIT = 10;
+
+interface LactationReportOptions {
+  days?: number;
+  timezone?: string;
+}
+
+interface ExtractionMeta {
+  quantityMl?: number;
+  extractionMl?: number;
+}
+
+export class LactationService {
+  /**
+   * Relatório de amamentação do bebê (sem checagem de acesso — feita no controller)
+   */
+  static async getReportByBabyId(babyId: number, options: LactationReportOptions = {}): Promise<LactationReport> {
+    const baby = await prisma.baby.findUnique({ where: { id: babyId }, select: { id: true } });
+    if (!baby) {
+      throw AppError.notFound('Bebê não encontrado');
+    }
+
+    const timezone = options.timezone || DEFAULT_TIMEZONE;
+    const days = options.days || 14;
+    const now = new Date();
+    const start = new Date(now.getTime() - days * DAY_MS);
+
+    const routines = await prisma.routineLog.findMany({
+      where: {
+        babyId,
+        routineType: { in: ['FEEDING', 'MILK_EXTRACTION'] },
+        startTime: { gte: start, lte: now },
+      },
+      orderBy: { startTime: 'asc' },
+    });
+
+    const feedings = routines.filter(r => r.routineType === 'FEEDING');
+    const breastFeedings = feedings.filter(r => this.feedingMeta(r).feedingType === 'breast');
+    const extractions = routines.filter(r => r.routineType === 'MILK_EXTRACTION');
+
+    const clusters = this.detectClusters(feedings);
+    const daily = this.buildDaily(this.buildDateKeys(now, days, timezone), feedings, extractions, clusters, timezone);
+
+    const last24h = breastFeedings.filter(r => r.startTime.getTime() >= now.getTime() - DAY_MS);
+    const last24hMinutes = this.sideMinutes(last24h);
+    const leftSummary = this.sideSummary(breastFeedings, 'left');
+    const rightSummary = this.sideSummary(breastFeedings, 'right');
+    const bothFeedings = breastFeedings.filter(r => this.feedingMeta(r).breastSide === 'both');
+    const totalSideMinutes = leftSummary.minutes + rightSummary.minutes;
+
+    const last7dStart = now.getTime() - 7 * DAY_MS;
+    const previous7dStart = now.getTime() - 14 * DAY_MS;
+
+    return {
+      babyId,
+      timezone,
+      generatedAt: now,
+      period: { days, start, end: now },
+      sides: {
+        left: leftSummary,
+        right: rightSummary,
+        both: {
+          sessions: bothFeedings.length,
+          minutes: Math.round(bothFeedings.reduce((sum, r) => sum + this.minutes(r), 0)),
+        },
+        last24h: {
+          leftMinutes: Math.round(last24hMinutes.left),
+          rightMinutes: Math.round(last24hMinutes.right),
+        },
+        balancePct: totalSideMinutes > 0 ? Math.round((leftSummary.minutes / totalSideMinutes) * 100) : null,
+      },
+      nextSide: this.suggestNextSide(breastFeedings, last24hMinutes),
+      sessions: this.sessionStats(breastFeedings.filter(r => r.endTime)),
+      clusterFeeding: {
+        episodes: clusters.length,
+        daysWithClusters: daily.filter(d => d.clusterEpisodes > 0).length,
+        recent: clusters.slice(-RECENT_CLUSTERS_LIMIT).reverse(),
+        typicalStartHour: this.typicalHour(clusters.map(c => c.start), timezone),
+      },
+      ratios: {
+        period: this.ratios(feedings),
+        last7d: this.ratios(feedings.filter(r => r.startTime.getTime() >= last7dStart)),
+        previous7d: days >= 14
+          ? this.ratios(feedings.filter(r => r.startTime.getTime() >= previous7dStart && r.startTime.getTime() < last7dStart))
+          : null,
+      },
+      supply: this.supplySummary(daily),
+      daily,
+    };
+  }
+
+  // ==========================================
+  // Lados
+  // ==========================================
+
+  private static feedingMeta(routine: RoutineLog): FeedingMeta {
+    return (routine.meta || {}) as FeedingMeta;
+  }
+
+  private static minutes(routine: RoutineLog): number {
+    return (routine.durationSeconds || 0) / 60;
+  }
+
+  /**
+   * Minutos por lado; o app não registra o tempo de cada lado em mamadas "ambos", então dividimos ao meio
+   */
+  private static sideMinutes(routines: RoutineLog[]): { left: number; right: number } {
+    const totals = { left: 0, right: 0 };
+    for (const routine of routines) {
+      const side = this.feedingMeta(routine).breastSide;
+      const minutes = this.minutes(routine);
+      if (side === 'left') totals.left += minutes;
+      else if (side === 'right') totals.right += minutes;
+      else if (side === 'both') {
+        totals.left += minutes / 2;
+        totals.right += minutes / 2;
+      }
+    }
+    return totals;
+  }
+
+  private static sideSummary(breastFeedings: RoutineLog[], side: 'left' | 'right'): LactationSideSummary {
+    const own = breastFeedings.filter(r => this.feedingMeta(r).breastSide === side);
+    const used = breastFeedings.filter(r => {
+      const breastSide = this.feedingMeta(r).breastSide;
+      return breastSide === side || breastSide === 'both';
+    });
+    const minutes = this.sideMinutes(breastFeedings)[side];
+    const completed = own.filter(r => r.endTime);
+
+    return {
+      sessions: own.length,
+      minutes: Math.round(minutes),
+      averageSessionMinutes: completed.length > 0
+        ? Math.round(completed.reduce((sum, r) => sum + this.minutes(r), 0) / completed.length)
+        : null,
+      lastUsedAt: used.length > 0 ? used[used.length - 1].startTime : null,
+    };
+  }
+
+  /**
+   * Oferecer o lado oposto ao da última mamada; depois de "ambos", o lado menos usado nas últimas 24h
+   */
+  private static suggestNextSide(
+    breastFeedings: RoutineLog[],
+    last24hMinutes: { left: number; right: number }
+  ): LactationNextSide {
+    const last = [...breastFeedings].reverse().find(r => this.feedingMeta(r).breastSide);
+    if (!last) {
+      return { side: null, reason: 'Nenhuma mamada no peito com lado registrado no período', lastSide: null, lastFeedingAt: null };
+    }
+
+    const lastSide = this.feedingMeta(last).breastSide!;
+    const base = { lastSide, lastFeedingAt: last.startTime };
+
+    if (lastSide === 'left') {
+      return { ...base, side: 'right', reason: 'A última mamada foi no lado esquerdo' };
+    }
+    if (lastSide === 'right') {
+      return { ...base, side: 'left', reason: 'A última mamada foi no lado direito' };
+    }
+
+    const side = last24hMinutes.left <= last24hMinutes.right ? 'left' : 'right';
+    return {
+      ...base,
+      side,
+      reason: `A última mamada foi nos dois lados; o ${side === 'left' ? 'esquerdo' : 'direito'} teve menos tempo nas últimas 24h`,
+    };
+  }
+
+  // ==========================================
+  // Sessões e cluster feeding
+  // ==========================================
+
+  private static sessionStats(completed: RoutineLog[]): LactationSessionStats {
+    const durations = completed.map(r => this.minutes(r)).sort((a, b) => a - b);
+    const percentile = (p: number) =>
+      durations.length > 0 ? Math.round(durations[Math.min(durations.length - 1, Math.floor(p * durations.length))]) : null;
+
+    return {
+      count: durations.length,
+      averageMinutes: durations.length > 0
+        ? Math.round(durations.reduce((sum, d) => sum + d, 0) / durations.length)
+        : null,
+      medianMinutes: percentile(0.5),
+      p90Minutes: percentile(0.9),
+      shortSessions: durations.filter(d => d < SHORT_SESSION_MINUTES).length,
+      longSessions: durations.filter(d => d > LONG_SESSION_MINUTES).length,
+    };
+  }
+
+  /**
+   * Episódios com 4+ mamadas em janelas de 3h; janelas que se sobrepõem viram um episódio só
+   */
+  private static detectClusters(feedings: RoutineLog[]): ClusterFeedingEpisode[] {
+    const starts = feedings.map(f => f.startTime.getTime());
+    const episodes: { start: number; end: number; indexes: Set<number> }[] = [];
+
+    for (let i = 0; i < starts.length; i++) {
+      let j = i;
+      while (j + 1 < starts.length && starts[j + 1] - starts[i] <= CLUSTER_WINDOW_MS) j++;
+      if (j - i + 1 < CLUSTER_MIN_FEEDINGS) continue;
+
+      const current = episodes[episodes.length - 1];
+      if (current && starts[i] <= current.end) {
+        current.end = Math.max(current.end, starts[j]);
+        for (let k = i; k <= j; k++) current.indexes.add(k);
+      } else {
+        const indexes = new Set<number>();
+        for (let k = i; k <= j; k++) indexes.add(k);
+        episodes.push({ start: starts[i], end: starts[j], indexes });
+      }
+    }
+
+    return episodes.map(episode => ({
+      start: new Date(episode.start),
+      end: new Date(episode.end),
+      feedings: episode.indexes.size,
+    }));
+  }
+
+  private static typicalHour(dates: Date[], timezone: string): number | null {
+    if (dates.length === 0) return null;
+    const counts = new Map<number, number>();
+    for (const date of dates) {
+      const hour = parseInt(formatInUserTimezone(date, timezone, 'H'), 10);
+      counts.set(hour, (counts.get(hour) || 0) + 1);
+    }
+    return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0] - b[0])[0][0];
+  }
+
+  // ==========================================
+  // Proporções e produção
+  // ==========================================
+
+  private static ratios(feedings: RoutineLog[]): LactationRatios {
+    const total = feedings.length;
+    const count = (predicate: (meta: FeedingMeta) => boolean) =>
+      feedings.filter(r => predicate(this.feedingMeta(r))).length;
+    const pct = (value: number) => (total > 0 ? Math.round((value / total) * 100) : null);
+
+    const bottleMl = (milkType: 'breast_milk' | 'formula') => feedings.reduce((sum, r) => {
+      const meta = this.feedingMeta(r);
+      const type = meta.bottleMilkType || meta.bottleContent;
+      return meta.feedingType === 'bottle' && type === milkType ? sum + (meta.bottleMl || 0) : sum;
+    }, 0);
+
+    return {
+      breastPct: pct(count(m => m.feedingType === 'breast')),
+      bottlePct: pct(count(m => m.feedingType === 'bottle')),
+      solidPct: pct(count(m => m.feedingType === 'solid')),
+      complementPct: pct(count(m => m.complement === 'yes' || (m.complementMl || 0) > 0)),
+      breastMilkBottleMl: Math.round(bottleMl('breast_milk')),
+      formulaBottleMl: Math.round(bottleMl('formula')),
+    };
+  }
+
+  private static extractionMl(routine: RoutineLog): number {
+    const meta = (routine.meta || {}) as ExtractionMeta;
+    return Number(meta.quantityMl ?? meta.extractionMl ?? 0) || 0;
+  }
+
+  /**
+   * Compara ml por extração dos últimos dias com o restante do período e
+   * correlaciona a produção diária com o número de mamadas no peito
+   */
+  private static supplySummary(daily: LactationDaily[]): LactationSupplySummary {
+    const recent = daily.slice(-SUPPLY_RECENT_DAYS);
+    const baseline = daily.slice(0, -SUPPLY_RECENT_DAYS);
+
+    const perSession = (items: LactationDaily[]) => {
+      const sessions = items.reduce((sum, d) => sum + d.extractionSessions, 0);
+      const ml = items.reduce((sum, d) => sum + d.extractionMl, 0);
+      return sessions >= SUPPLY_MIN_SESSIONS && ml > 0 ? { value: ml / sessions, sessions } : null;
+    };
+
+    const recentValue = perSession(recent);
+    const baselineValue = perSession(baseline);
+    const withExtraction = daily.filter(d => d.extractionMl > 0);
+    const correlation = this.pearson(
+      withExtraction.map(d => d.breastFeedings),
+      withExtraction.map(d => d.extractionMl)
+    );
+
+    if (!recentValue || !baselineValue) {
+      return {
+        trend: 'insufficient_data',
+        recentMlPerSession: recentValue ? Math.round(recentValue.value) : null,
+        baselineMlPerSession: baselineValue ? Math.round(baselineValue.value) : null,
+        changePct: null,
+        feedingExtractionCorrelation: correlation,
+        alert: null,
+      };
+    }
+
+    const change = (recentValue.value - baselineValue.value) / baselineValue.value;
+    const trend = change <= -SUPPLY_CHANGE_THRESHOLD
+      ? 'declining'
+      : change >= SUPPLY_CHANGE_THRESHOLD ? 'increasing' : 'stable';
+
+    return {
+      trend,
+      recentMlPerSession: Math.round(recentValue.value),
+      baselineMlPerSession: Math.round(baselineValue.value),
+      changePct: Math.round(change * 100),
+      feedingExtractionCorrelation: correlation,
+      alert: trend === 'declining'
+        ? `Volume por extração caiu ${Math.abs(Math.round(change * 100))}% nos últimos ${SUPPLY_RECENT_DAYS} dias`
+        : null,
+    };
+  }
+
+  private static pearson(x: number[], y: number[]): number | null {
+    if (x.length < 5) return null;
+    const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+    const mx = mean(x);
+    const my = mean(y);
+    let covariance = 0;
+    let varianceX = 0;
+    let varianceY = 0;
+    for (let i = 0; i < x.length; i++) {
+      covariance += (x[i] - mx) * (y[i] - my);
+      varianceX += (x[i] - mx) ** 2;
+      varianceY += (y[i] - my) ** 2;
+    }
+    if (varianceX === 0 || varianceY === 0) return null;
+    return Math.round((covariance / Math.sqrt(varianceX * varianceY)) * 100) / 100;
+  }
+
+  // ==========================================
+  // Série diária
+  // ==========================================
+
+  private static buildDateKeys(now: Date, days: number, timezone: string): string[] {
+    const keys: string[] = [];
+    for (let i = days - 1; i >= 0; i--) {
+      const key = formatInUserTimezone(new Date(now.getTime() - i * DAY_MS), timezone, 'yyyy-MM-dd');
+      if (!keys.includes(key)) keys.push(key);
+    }
+    return keys;
+  }
+
+  private static buildDaily(
+    dateKeys: string[],
+    feedings: RoutineLog[],
+    extractions: RoutineLog[],
+    clusters: ClusterFeedingEpisode[],
+    timezone: string
+  ): LactationDaily[] {
+    const dayOf = (date: Date) => formatInUserTimezone(date, timezone, 'yyyy-MM-dd');
+
+    return dateKeys.map(date => {
+      const dayFeedings = feedings.filter(r => dayOf(r.startTime) === date);
+      const dayBreast = dayFeedings.filter(r => this.feedingMeta(r).feedingType === 'breast');
+      const dayExtractions = extractions.filter(r => dayOf(r.startTime) === date);
+      const sides = this.sideMinutes(dayBreast);
+
+      return {
+        date,
+        feedings: dayFeedings.length,
+        breastFeedings: dayBreast.length,
+        bottleFeedings: dayFeedings.filter(r => this.feedingMeta(r).feedingType === 'bottle').length,
+        solidFeedings: dayFeedings.filter(r => this.feedingMeta(r).feedingType === 'solid').length,
+        complementFeedings: dayFeedings.filter(r => {
+          const meta = this.feedingMeta(r);
+          return meta.complement === 'yes' || (meta.complementMl || 0) > 0;
+        }).length,
+        breastMinutes: Math.round(dayBreast.reduce((sum, r) => sum + this.minutes(r), 0)),
+        leftMinutes: Math.round(sides.left),
+        rightMinutes: Math.round(sides.right),
+        bottleMl: Math.round(dayFeedings.reduce((sum, r) => {
+          const meta = this.feedingMeta(r);
+          return meta.feedingType === 'bottle' ? sum + (meta.bottleMl || 0) : sum;
+        }, 0)),
+        complementMl: Math.round(dayFeedings.reduce((sum, r) => sum + (this.feedingMeta(r).complementMl || 0), 0)),
+        extractionSessions: dayExtractions.length,
+        extractionMl: Math.round(dayExtractions.reduce((sum, r) => sum + this.extractionMl(r), 0)),
+        clusterEpisodes: clusters.filter(c => dayOf(c.start) === date).length,
+      };
+    });
+  }
+}
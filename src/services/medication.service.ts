@@ -0,0 +1,558 @@
+// Olive Baby API - Medication & Fever Log Service
+// Registro domiciliar de doses de medicamento e medições de temperatura
+import { TemperatureMethod } from '@prisma/client';
+import { prisma } from '../config/database';
+import { AppError } from '../utils/errors/AppError';
+import { requireBabyAccessByCaregiverId } from '../utils/helpers/baby-permission.helper';
+import { getAgeInMonths } from '../utils/helpers/growth-percentile.helper';
+import { PrescriptionItem } from './prescription.service';
+import {
+  MEDICATION_DOSING_REFERENCES,
+  MedicationDosingReference,
+  KnownMedicationKey,
+  WEIGHT_OUTDATED_AFTER_DAYS,
+  FEVER_THRESHOLD_C,
+  FEVER_URGENT_AGE_MONTHS,
+} from '../constants/medication-dosing';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface RecordDoseInput {
+  medicationKey?: KnownMedicationKey;
+  medicationName?: string;
+  doseMg?: number;
+  doseMl?: number;
+  concentrationMgPerMl?: number;
+  route?: string;
+  administeredAt?: Date;
+  prescriptionId?: number;
+  prescriptionItemIndex?: number;
+  minIntervalHours?: number;
+  overrideInterval?: boolean;
+  notes?: string;
+}
+
+export interface RecordTemperatureInput {
+  temperatureC: number;
+  method?: TemperatureMethod;
+  measuredAt?: Date;
+  notes?: string;
+}
+
+export interface DoseWarning {
+  code:
+    | 'NO_WEIGHT'
+    | 'WEIGHT_OUTDATED'
+    | 'DOSE_ABOVE_MAX_PER_KG'
+    | 'DOSE_ABOVE_MAX_ABSOLUTE'
+    | 'DAILY_MAX_EXCEEDED'
+    | 'MAX_DOSES_PER_DAY_EXCEEDED'
+    | 'BELOW_MIN_AGE'
+    | 'BELOW_MIN_WEIGHT'
+    | 'INTERVAL_OVERRIDDEN'
+    | 'UNKNOWN_DOSE';
+  severity: 'warning' | 'danger';
+  message: string;
+}
+
+interface ListFilter {
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export class MedicationService {
+  // ==========================================
+  // Doses
+  // ==========================================
+
+  static async recordDose(
+    caregiverId: number,
+    userId: number,
+    babyId: number,
+    input: RecordDoseInput
+  ) {
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'clinical:write');
+
+    const baby = await prisma.baby.findUnique({
+      where: { id: babyId },
+      select: { birthDate: true },
+    });
+    if (!baby) {
+      throw AppError.notFound('Bebê não encontrado');
+    }
+
+    const administeredAt = input.administeredAt || new Date();
+    if (administeredAt.getTime() > Date.now() + 5 * 60 * 1000) {
+      throw AppError.badRequest('Não é possível registrar uma dose no futuro');
+    }
+
+    // Item de receita (opcional) define nome e intervalo quando não informados
+    let prescriptionItem: PrescriptionItem | null = null;
+    if (input.prescriptionId !== undefined) {
+      prescriptionItem = await this.getPrescriptionItem(
+        babyId,
+        input.prescriptionId,
+        input.prescriptionItemIndex ?? 0
+      );
+    }
+
+    const medicationName = input.medicationName || prescriptionItem?.medication;
+    if (!medicationName && !input.medicationKey) {
+      throw AppError.badRequest('Informe o medicamento ou o item da receita');
+    }
+
+    const reference = input.medicationKey
+      ? MEDICATION_DOSING_REFERENCES[input.medicationKey]
+      : this.findReference(medicationName!);
+
+    const doseMg = input.doseMg
+      ?? (input.doseMl !== undefined && input.concentrationMgPerMl !== undefined
+        ? input.doseMl * input.concentrationMgPerMl
+        : undefined);
+
+    // O intervalo informado só pode aumentar o da referência; encurtar exige overrideInterval
+    const minIntervalHours = Math.max(input.minIntervalHours ?? 0, reference?.minIntervalHours ?? 0)
+      || this.parseIntervalHours(prescriptionItem?.posology);
+
+    const previousDoses = await this.findRecentDoses(
+      babyId,
+      reference?.key ?? null,
+      medicationName!,
+      administeredAt
+    );
+    const lastDose = previousDoses[0] || null;
+
+    // Intervalo mínimo entre doses
+    let intervalOverridden = false;
+    if (lastDose && minIntervalHours) {
+      const nextAllowedAt = new Date(lastDose.administeredAt.getTime() + minIntervalHours * HOUR_MS);
+      if (administeredAt < nextAllowedAt) {
+        if (!input.overrideInterval) {
+          throw AppError.conflict(
+            `Intervalo mínimo de ${minIntervalHours}h ainda não foi atingido`,
+            'DOSE_INTERVAL_NOT_REACHED',
+            { lastDose, nextDoseAllowedAt: nextAllowedAt, minIntervalHours }
+          );
+        }
+        intervalOverridden = true;
+      }
+    }
+
+    const weight = await this.getWeightAt(babyId, administeredAt);
+    const warnings = this.evaluateDose({
+      reference,
+      doseMg,
+      weight,
+      administeredAt,
+      ageMonths: getAgeInMonths(baby.birthDate, administeredAt),
+      previousDoses24h: previousDoses,
+    });
+
+    if (intervalOverridden) {
+      warnings.push({
+        code: 'INTERVAL_OVERRIDDEN',
+        severity: 'danger',
+        message: `Dose registrada antes do intervalo mínimo de ${minIntervalHours}h`,
+      });
+    }
+
+    const mgPerKg = doseMg !== undefined && weight ? doseMg / weight.weightKg : null;
+
+    const dose = await prisma.medicationDose.create({
+      data: {
+        babyId,
+        medicationKey: reference?.key ?? null,
+        medicationName: medicationName || reference!.label,
+        doseMg,
+        doseMl: input.doseMl,
+        concentrationMgPerMl: input.concentrationMgPerMl,
+        route: input.route ?? prescriptionItem?.route,
+        administeredAt,
+        prescriptionId: input.prescriptionId,
+        prescriptionItemIndex: input.prescriptionId !== undefined ? (input.prescriptionItemIndex ?? 0) : null,
+        weightKgUsed: weight?.weightKg ?? null,
+        mgPerKg: mgPerKg !== null ? Math.round(mgPerKg * 100) / 100 : null,
+        minIntervalHours: minIntervalHours ?? null,
+        warnings: warnings as object[],
+        intervalOverridden,
+        notes: input.notes,
+        recordedByUserId: userId,
+      },
+    });
+
+    return {
+      dose,
+      warnings,
+      nextDoseAllowedAt: minIntervalHours
+        ? new Date(administeredAt.getTime() + minIntervalHours * HOUR_MS)
+        : null,
+    };
+  }
+
+  /**
+   * Lista doses por babyId sem verificação de cuidador.
+   * Usado quando acesso já foi verificado no controller (ex: profissionais via hasBabyAccess).
+   */
+  static async listDosesByBabyId(babyId: number, filter: ListFilter = {}) {
+    return prisma.medicationDose.findMany({
+      where: {
+        babyId,
+        ...this.buildDateFilter('administeredAt', filter),
+      },
+      orderBy: { administeredAt: 'desc' },
+      take: 200,
+    });
+  }
+
+  static async deleteDose(caregiverId: number, babyId: number, id: number) {
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'clinical:write');
+
+    const dose = await prisma.medicationDose.findFirst({ where: { id, babyId } });
+    if (!dose) {
+      throw AppError.notFound('Dose não encontrada');
+    }
+
+    await prisma.medicationDose.delete({ where: { id } });
+  }
+
+  /**
+   * Situação atual: medicamentos dados nas últimas 24h, próxima dose permitida
+   * e última temperatura. Pensado para a troca de turno entre cuidadores.
+   */
+  static async getStatusByBabyId(babyId: number) {
+    const now = new Date();
+    const since = new Date(now.getTime() - DAY_MS);
+
+    const [baby, doses24h, temperatures24h, weight] = await Promise.all([
+      prisma.baby.findUnique({ where: { id: babyId }, select: { birthDate: true } }),
+      prisma.medicationDose.findMany({
+        where: { babyId, administeredAt: { gte: since, lte: now } },
+        orderBy: { administeredAt: 'desc' },
+      }),
+      prisma.temperatureReading.findMany({
+        where: { babyId, measuredAt: { gte: since, lte: now } },
+        orderBy: { measuredAt: 'desc' },
+      }),
+      this.getWeightAt(babyId, now),
+    ]);
+
+    if (!baby) {
+      throw AppError.notFound('Bebê não encontrado');
+    }
+
+    // Agrupar por medicamento (chave conhecida ou nome)
+    const groups = new Map<string, typeof doses24h>();
+    for (const dose of doses24h) {
+      const groupKey = dose.medicationKey || dose.medicationName.trim().toLowerCase();
+      groups.set(groupKey, [...(groups.get(groupKey) || []), dose]);
+    }
+
+    const medications = Array.from(groups.values()).map(doses => {
+      const last = doses[0];
+      const reference = last.medicationKey
+        ? MEDICATION_DOSING_REFERENCES[last.medicationKey as KnownMedicationKey]
+        : null;
+      const totalMg24h = doses.reduce((sum, d) => sum + (d.doseMg ? Number(d.doseMg) : 0), 0);
+      const minIntervalHours = last.minIntervalHours ?? reference?.minIntervalHours ?? null;
+      const nextDoseAllowedAt = minIntervalHours
+        ? new Date(last.administeredAt.getTime() + minIntervalHours * HOUR_MS)
+        : null;
+
+      return {
+        medicationKey: last.medicationKey,
+        medicationName: last.medicationName,
+        lastDoseAt: last.administeredAt,
+        lastDoseMg: last.doseMg ? Number(last.doseMg) : null,
+        doses24h: doses.length,
+        totalMg24h: Math.round(totalMg24h * 100) / 100,
+        maxMgPerDay: reference ? this.getDailyMaxMg(reference, weight?.weightKg) : null,
+        maxDosesPerDay: reference?.maxDosesPerDay ?? null,
+        minIntervalHours,
+        nextDoseAllowedAt,
+        canGiveNow: nextDoseAllowedAt ? nextDoseAllowedAt <= now : null,
+      };
+    });
+
+    const latestTemperature = temperatures24h[0] || null;
+    const ageMonths = getAgeInMonths(baby.birthDate, now);
+
+    return {
+      babyId,
+      generatedAt: now,
+      weightKg: weight?.weightKg ?? null,
+      weightMeasuredAt: weight?.measuredAt ?? null,
+      medications,
+      temperature: {
+        latest: latestTemperature,
+        readings24h: temperatures24h.length,
+        maxTemperature24h: temperatures24h.length > 0
+          ? Math.max(...temperatures24h.map(t => Number(t.temperatureC)))
+          : null,
+        feverEpisodes24h: temperatures24h.filter(t => t.isFever).length,
+        urgent: !!latestTemperature?.isFever && ageMonths < FEVER_URGENT_AGE_MONTHS,
+      },
+    };
+  }
+
+  // ==========================================
+  // Temperatura
+  // ==========================================
+
+  static async recordTemperature(
+    caregiverId: number,
+    userId: number,
+    babyId: number,
+    input: RecordTemperatureInput
+  ) {
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'clinical:write');
+
+    const baby = await prisma.baby.findUnique({
+      where: { id: babyId },
+      select: { birthDate: true },
+    });
+    if (!baby) {
+      throw AppError.notFound('Bebê não encontrado');
+    }
+
+    const method = input.method || 'AXILLARY';
+    const measuredAt = input.measuredAt || new Date();
+    const isFever = input.temperatureC >= FEVER_THRESHOLD_C[method];
+
+    const reading = await prisma.temperatureReading.create({
+      data: {
+        babyId,
+        temperatureC: input.temperatureC,
+        method,
+        measuredAt,
+        isFever,
+        notes: input.notes,
+        recordedByUserId: userId,
+      },
+    });
+
+    // Febre abaixo de 3 meses: orientar avaliação médica imediata
+    const urgent = isFever && getAgeInMonths(baby.birthDate, measuredAt) < FEVER_URGENT_AGE_MONTHS;
+
+    return {
+      reading,
+      isFever,
+      urgent,
+      message: urgent
+        ? 'Febre em bebê com menos de 3 meses: procure atendimento médico imediatamente.'
+        : null,
+    };
+  }
+
+  /**
+   * Lista temperaturas por babyId sem verificação de cuidador.
+   * Usado quando acesso já foi verificado no controller.
+   */
+  static async listTemperaturesByBabyId(babyId: number, filter: ListFilter = {}) {
+    return prisma.temperatureReading.findMany({
+      where: {
+        babyId,
+        ...this.buildDateFilter('measuredAt', filter),
+      },
+      orderBy: { measuredAt: 'desc' },
+      take: 200,
+    });
+  }
+
+  static async deleteTemperature(caregiverId: number, babyId: number, id: number) {
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'clinical:write');
+
+    const reading = await prisma.temperatureReading.findFirst({ where: { id, babyId } });
+    if (!reading) {
+      throw AppError.notFound('Medição não encontrada');
+    }
+
+    await prisma.temperatureReading.delete({ where: { id } });
+  }
+
+  // ==========================================
+  // Helpers
+  // ==========================================
+
+  /**
+   * Alertas de dose (peso, idade, limites por dose/kg e em 24h) para a referência do medicamento
+   */
+  static evaluateDose(params: {
+    reference: MedicationDosingReference | null;
+    doseMg?: number;
+    weight: { weightKg: number; measuredAt: Date } | null;
+    administeredAt: Date;
+    ageMonths: number;
+    previousDoses24h: Array<{ doseMg: unknown }>;
+  }): DoseWarning[] {
+    const { reference, doseMg, weight, administeredAt, ageMonths, previousDoses24h } = params;
+    const warnings: DoseWarning[] = [];
+
+    if (!weight) {
+      warnings.push({
+        code: 'NO_WEIGHT',
+        severity: 'warning',
+        message: 'Nenhum peso registrado: não foi possível conferir a dose por kg',
+      });
+    } else if (administeredAt.getTime() - weight.measuredAt.getTime() > WEIGHT_OUTDATED_AFTER_DAYS * DAY_MS) {
+      warnings.push({
+        code: 'WEIGHT_OUTDATED',
+        severity: 'warning',
+        message: `Último peso registrado há mais de ${WEIGHT_OUTDATED_AFTER_DAYS} dias`,
+      });
+    }
+
+    if (!reference) {
+      return warnings;
+    }
+
+    if (reference.minAgeMonths !== undefined && ageMonths < reference.minAgeMonths) {
+      warnings.push({
+        code: 'BELOW_MIN_AGE',
+        severity: 'danger',
+        message: `${reference.label} não é indicado para menores de ${reference.minAgeMonths} meses sem orientação médica`,
+      });
+    }
+
+    if (reference.minWeightKg !== undefined && weight && weight.weightKg < reference.minWeightKg) {
+      warnings.push({
+        code: 'BELOW_MIN_WEIGHT',
+        severity: 'danger',
+        message: `${reference.label} não é indicado para bebês com menos de ${reference.minWeightKg} kg sem orientação médica`,
+      });
+    }
+
+    if (previousDoses24h.length + 1 > reference.maxDosesPerDay) {
+      warnings.push({
+        code: 'MAX_DOSES_PER_DAY_EXCEEDED',
+        severity: 'danger',
+        message: `Mais de ${reference.maxDosesPerDay} doses de ${reference.label} em 24h`,
+      });
+    }
+
+    if (doseMg === undefined) {
+      warnings.push({
+        code: 'UNKNOWN_DOSE',
+        severity: 'warning',
+        message: 'Dose em mg não informada: não foi possível conferir os limites',
+      });
+      return warnings;
+    }
+
+    if (doseMg > reference.maxMgPerDose) {
+      warnings.push({
+        code: 'DOSE_ABOVE_MAX_ABSOLUTE',
+        severity: 'danger',
+        message: `Dose acima do máximo de ${reference.maxMgPerDose} mg por dose`,
+      });
+    }
+
+    if (weight) {
+      const mgPerKg = doseMg / weight.weightKg;
+      if (mgPerKg > reference.maxMgPerKgPerDose) {
+        warnings.push({
+          code: 'DOSE_ABOVE_MAX_PER_KG',
+          severity: 'danger',
+          message: `Dose de ${mgPerKg.toFixed(1)} mg/kg acima do máximo de ${reference.maxMgPerKgPerDose} mg/kg (${(reference.maxMgPerKgPerDose * weight.weightKg).toFixed(0)} mg para ${weight.weightKg} kg)`,
+        });
+      }
+    }
+
+    const totalMg24h = previousDoses24h.reduce((sum, d) => sum + (d.doseMg ? Number(d.doseMg) : 0), 0) + doseMg;
+    const dailyMaxMg = this.getDailyMaxMg(reference, weight?.weightKg);
+    if (totalMg24h > dailyMaxMg) {
+      warnings.push({
+        code: 'DAILY_MAX_EXCEEDED',
+        severity: 'danger',
+        message: `Total de ${Math.round(totalMg24h)} mg em 24h acima do máximo diário de ${Math.round(dailyMaxMg)} mg`,
+      });
+    }
+
+    return warnings;
+  }
+
+  private static getDailyMaxMg(reference: MedicationDosingReference, weightKg?: number): number {
+    return weightKg
+      ? Math.min(reference.maxMgPerKgPerDay * weightKg, reference.maxMgPerDay)
+      : reference.maxMgPerDay;
+  }
+
+  private static findReference(medicationName: string): MedicationDosingReference | null {
+    const normalized = medicationName
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase();
+
+    return Object.values(MEDICATION_DOSING_REFERENCES).find(ref =>
+      ref.aliases.some(alias => normalized.includes(alias))
+    ) || null;
+  }
+
+  // Extrai o intervalo de posologias como "de 6/6h", "a cada 8 horas", "8 em 8 horas"
+  private static parseIntervalHours(posology?: string): number | undefined {
+    if (!posology) return undefined;
+
+    const match = posology.match(/(\d{1,2})\s*(?:\/|em)\s*\1\s*h/i)
+      || posology.match(/a cada\s*(\d{1,2})\s*h/i);
+
+    return match ? parseInt(match[1], 10) : undefined;
+  }
+
+  private static async getPrescriptionItem(babyId: number, prescriptionId: number, itemIndex: number) {
+    const prescription = await prisma.prescription.findFirst({
+      where: { id: prescriptionId, babyId },
+    });
+    if (!prescription) {
+      throw AppError.badRequest('Receita não encontrada para este bebê');
+    }
+
+    const items = (prescription.items || []) as unknown as PrescriptionItem[];
+    const item = items[itemIndex];
+    if (!item) {
+      throw AppError.badRequest('Item da receita não encontrado');
+    }
+
+    return item;
+  }
+
+  // Doses do mesmo medicamento nas 24h anteriores, mais recente primeiro
+  private static async findRecentDoses(
+    babyId: number,
+    medicationKey: string | null,
+    medicationName: string,
+    at: Date
+  ) {
+    return prisma.medicationDose.findMany({
+      where: {
+        babyId,
+        administeredAt: { gte: new Date(at.getTime() - DAY_MS), lte: at },
+        ...(medicationKey
+          ? { medicationKey }
+          : { medicationName: { equals: medicationName.trim(), mode: 'insensitive' as const } }),
+      },
+      orderBy: { administeredAt: 'desc' },
+    });
+  }
+
+  // Último peso registrado até a data (Growth.weightKg)
+  private static async getWeightAt(babyId: number, at: Date) {
+    const growth = await prisma.growth.findFirst({
+      where: { babyId, weightKg: { not: null }, measuredAt: { lte: at } },
+      orderBy: { measuredAt: 'desc' },
+    });
+
+    return growth?.weightKg
+      ? { weightKg: Number(growth.weightKg), measuredAt: growth.measuredAt }
+      : null;
+  }
+
+  private static buildDateFilter(field: 'administeredAt' | 'measuredAt', filter: ListFilter) {
+    if (!filter.startDate && !filter.endDate) return {};
+    return {
+      [field]: {
+        ...(filter.startDate && { gte: filter.startDate }),
+        ...(filter.endDate && { lte: filter.endDate }),
+      },
+    };
+  }
+}
@@ -1,8 +1,11 @@
 // Olive Baby API - Milestone Service
+import { Milestone } from '@prisma/client';
 import { prisma } from '../config/database';
 import { AppError } from '../utils/errors/AppError';
-import { PREDEFINED_MILESTONES } from '../types';
+import { BabyPermission, PREDEFINED_MILESTONES } from '../types';
 import { requireBabyAccessByCaregiverId, hasBabyAccessByCaregiverId } from '../utils/helpers/baby-permission.helper';
+import { RevisionService, RevisionContext } from './revision.service';
+import { RealtimeService } from './realtime.service';
 
 interface CreateMilestoneInput {
   babyId: number;
@@ -24,9 +27,9 @@ export class MilestoneService {
     return PREDEFINED_MILESTONES;
   }
 
-  static async create(caregiverId: number, input: CreateMilestoneInput) {
+  static async create(caregiverId: number, input: CreateMilestoneInput, context: RevisionContext = {}) {
     // Verificar acesso ao bebê
-    await requireBabyAccessByCaregiverId(caregiverId, input.babyId);
+    await requireBabyAccessByCaregiverId(caregiverId, input.babyId, 'growth:write');
 
     // Verificar se o marco já foi registrado para este bebê
     const existingMilestone = await prisma.milestone.findFirst({
@@ -47,28 +50,49 @@ export class MilestoneService {
       milestoneLabel = predefined?.label || input.milestoneKey;
     }
 
-    const milestone = await prisma.milestone.create({
-      data: {
-        babyId: input.babyId,
-        milestoneKey: input.milestoneKey,
-        milestoneLabel,
-        occurredOn: input.occurredOn,
-        notes: input.notes,
-      },
-      include: {
-        baby: {
-          select: {
-            id: true,
-            name: true,
+    const revisionContext = await RevisionService.resolveContext(caregiverId, context);
+
+    const milestone = await prisma.$transaction(async (tx) => {
+      const created = await tx.milestone.create({
+        data: {
+          babyId: input.babyId,
+          milestoneKey: input.milestoneKey,
+          milestoneLabel,
+          occurredOn: input.occurredOn,
+          notes: input.notes,
+        },
+        include: {
+          baby: {
+            select: {
+              id: true,
+              name: true,
+            },
           },
         },
-      },
+      });
+
+      await RevisionService.record(tx, {
+        babyId: created.babyId,
+        entityType: 'MILESTONE',
+        entityId: created.id,
+        action: 'CREATE',
+        after: created,
+        context: revisionContext,
+      });
+
+      return created;
+    });
+
+    RealtimeService.publish(milestone.babyId, 'milestone.created', {
+      entityId: milestone.id,
+      actorUserId: revisionContext.userId,
+      data: milestone,
     });
 
     return milestone;
   }
 
-  static async getById(id: number, caregiverId: number) {
+  static async getById(id: number, caregiverId: number, permission: BabyPermission = 'growth:read') {
     const milestone = await prisma.milestone.findUnique({
       where: { id },
       include: {
@@ -85,7 +109,7 @@ export class MilestoneService {
     }
 
     // Verificar acesso
-    const hasAccess = await hasBabyAccessByCaregiverId(caregiverId, milestone.babyId);
+    const hasAccess = await hasBabyAccessByCaregiverId(caregiverId, milestone.babyId, permission);
     if (!hasAccess) {
       throw AppError.forbidden('Você não tem acesso a este registro');
     }
@@ -95,7 +119,7 @@ export class MilestoneService {
 
   static async listByBaby(caregiverId: number, babyId: number) {
     // Verificar acesso ao bebê
-    await requireBabyAccessByCaregiverId(caregiverId, babyId);
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'growth:read');
 
     // Buscar marcos registrados
     const registeredMilestones = await prisma.milestone.findMany({
@@ -168,23 +192,16 @@ export class MilestoneService {
     };
   }
 
-  static async update(id: number, caregiverId: number, input: UpdateMilestoneInput) {
+  static async update(id: number, caregiverId: number, input: UpdateMilestoneInput, context: RevisionContext = {}) {
     // Verificar acesso
-    await this.getById(id, caregiverId);
-
-    const milestone = await prisma.milestone.update({
-      where: { id },
-      data: input,
-    });
-
-    return milestone;
+    const existing = await this.getById(id, caregiverId, 'growth:write');
+    return this.updateWithRevision(caregiverId, existing, input, context);
   }
 
-  static async delete(id: number, caregiverId: number) {
+  static async delete(id: number, caregiverId: number, context: RevisionContext = {}) {
     // Verificar acesso
-    await this.getById(id, caregiverId);
-
-    await prisma.milestone.delete({ where: { id } });
+    const existing = await this.getById(id, caregiverId, 'growth:write');
+    await this.deleteWithRevision(caregiverId, existing, context);
   }
 
   // Marcar marco como alcançado
@@ -193,8 +210,11 @@ export class MilestoneService {
     babyId: number,
     milestoneKey: string,
     occurredOn: Date,
-    notes?: string
+    notes?: string,
+    context: RevisionContext = {}
   ) {
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'growth:write');
+
     // Verificar se já existe
     const existing = await prisma.milestone.findFirst({
       where: { babyId, milestoneKey },
@@ -202,10 +222,7 @@ export class MilestoneService {
 
     if (existing) {
       // Atualizar data se já existe
-      return prisma.milestone.update({
-        where: { id: existing.id },
-        data: { occurredOn, notes },
-      });
+      return this.updateWithRevision(caregiverId, existing, { occurredOn, notes }, context);
     }
 
     // Criar novo
@@ -214,13 +231,13 @@ export class MilestoneService {
       milestoneKey,
       occurredOn,
       notes,
-    });
+    }, context);
   }
 
   // Desmarcar marco (remove registro)
-  static async unmark(caregiverId: number, babyId: number, milestoneKey: string) {
+  static async unmark(caregiverId: number, babyId: number, milestoneKey: string, context: RevisionContext = {}) {
     // Verificar acesso ao bebê
-    await requireBabyAccessByCaregiverId(caregiverId, babyId);
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'growth:write');
 
     const milestone = await prisma.milestone.findFirst({
       where: { babyId, milestoneKey },
@@ -230,13 +247,13 @@ export class MilestoneService {
       throw AppError.notFound('Marco não encontrado');
     }
 
-    await prisma.milestone.delete({ where: { id: milestone.id } });
+    await this.deleteWithRevision(caregiverId, milestone, context);
   }
 
   // Progresso geral de marcos
   static async getProgress(caregiverId: number, babyId: number) {
     // Verificar acesso ao bebê
-    await requireBabyAccessByCaregiverId(caregiverId, babyId);
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'growth:read');
 
     return this.getProgressByBabyId(babyId);
   }
@@ -266,4 +283,67 @@ export class MilestoneService {
       totalCompleted: completed,
     };
   }
+
+  // ==========================================
+  // Histórico de alterações
+  // ==========================================
+
+  private static async updateWithRevision(
+    caregiverId: number,
+    existing: Milestone,
+    input: UpdateMilestoneInput,
+    context: RevisionContext
+  ) {
+    const revisionContext = await RevisionService.resolveContext(caregiverId, context);
+
+    const milestone = await prisma.$transaction(async (tx) => {
+      const updated = await tx.milestone.update({
+        where: { id: existing.id },
+        data: input,
+      });
+
+      await RevisionService.record(tx, {
+        babyId: updated.babyId,
+        entityType: 'MILESTONE',
+        entityId: updated.id,
+        action: 'UPDATE',
+        before: existing,
+        after: updated,
+        context: revisionContext,
+      });
+
+      return updated;
+    });
+
+    RealtimeService.publish(milestone.babyId, 'milestone.updated', {
+      entityId: milestone.id,
+      actorUserId: revisionContext.userId,
+      data: milestone,
+    });
+
+    return milestone;
+  }
+
+  // O snapshot da revisão mantém o registro na lixeira por 30 dias
+  private static async deleteWithRevision(caregiverId: number, existing: Milestone, context: RevisionContext) {
+    const revisionContext = await RevisionService.resolveContext(caregiverId, context);
+
+    await prisma.$transaction(async (tx) => {
+      await tx.milestone.delete({ where: { id: existing.id } });
+      await RevisionService.record(tx, {
+        babyId: existing.babyId,
+        entityType: 'MILESTONE',
+        entityId: existing.id,
+        action: 'DELETE',
+        before: existing,
+        context: revisionContext,
+      });
+    });
+
+    RealtimeService.publish(existing.babyId, 'milestone.deleted', {
+      entityId: existing.id,
+      actorUserId: revisionContext.userId,
+      data: existing,
+    });
+  }
 }
@@ -0,0 +1,469 @@
+// OlieCare API - Notification Dispatcher
+// Ponto único de saída de push, e-mail e notificações in-app para usuários.
+// Aplica as preferências do destinatário (interruptores de canal, opt-out por
+// categoria e por tipo de rotina) e o horário de silêncio no fuso dele. Fora de
+// alertas, push/e-mail que caem na janela são adiados para o fim dela.
+import { NotificationSeverity, NotificationType, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { DEFAULT_TIMEZONE, getQuietHoursEnd } from '../utils/helpers/timezone.helper';
+import { PushNotificationService, type PushPayload } from './push-notification.service';
+import { sendEmailByTemplate } from './email.service';
+
+// ==========================================
+// Types
+// ==========================================
+
+export const NOTIFICATION_CATEGORIES = [
+  'routine',      // lembretes/previsões de mamada, sono etc.
+  'reminder',     // vacinas, consultas e outros compromissos
+  'engagement',   // nudges, resumos, jornadas
+  'lifecycle',    // onboarding, assinatura
+  'clinical',     // avisos para profissionais sobre pacientes
+  'marketing',    // broadcasts e ofertas
+  'system',       // avisos operacionais (não podem ser desligados)
+] as const;
+
+export type NotificationCategory = typeof NOTIFICATION_CATEGORIES[number];
+export type NotificationChannel = 'push' | 'email' | 'in_app';
+export type RoutineNotificationKey = 'feeding' | 'sleep' | 'diaper' | 'bath' | 'extraction';
+
+export interface EmailContent {
+  templateType: string;
+  subject?: string;
+  customBody?: string;
+  variables?: Record<string, unknown>;
+}
+
+export interface InAppContent {
+  title: string;
+  message: string;
+  type?: NotificationType;
+  babyId?: number;
+  ctaLabel?: string;
+  ctaUrl?: string;
+  sourceKey?: string;             // deduplicação por usuário
+  meta?: Record<string, unknown>;
+}
+
+/** Mensagem a entregar; os canais usados são os conteúdos informados */
+export interface NotificationMessage {
+  category: NotificationCategory;
+  severity?: NotificationSeverity;   // 'alert' ignora o horário de silêncio
+  routineType?: RoutineNotificationKey;
+  deferrable?: boolean;              // false = descarta em vez de adiar (lembretes que perdem o sentido)
+  push?: PushPayload;
+  email?: EmailContent;
+  inApp?: InAppContent;
+}
+
+export type DispatchOutcome = 'sent' | 'failed' | 'no_target' | 'deferred' | 'suppressed';
+
+export type DispatchResult = Partial<Record<NotificationChannel, DispatchOutcome>>;
+
+export interface DispatchSummary {
+  recipients: number;
+  sent: number;
+  failed: number;
+  noTarget: number;
+  deferred: number;
+  suppressed: number;
+}
+
+interface RecipientPreferences {
+  userId: number;
+  email: string;
+  name: string;
+  pushEnabled: boolean;
+  emailEnabled: boolean;
+  quietHoursEnabled: boolean;
+  quietHoursStart: string;
+  quietHoursEnd: string;
+  timezone: string;
+  routineNotifications: Record<string, boolean>;
+  notificationCategories: Record<string, boolean>;
+}
+
+type ChannelDecision =
+  | { action: 'send' }
+  | { action: 'suppress'; reason: string }
+  | { action: 'defer'; until: Date };
+
+// Conteúdo guardado em deferred_notifications.payload
+interface DeferredPayload {
+  routineType?: RoutineNotificationKey;
+  push?: PushPayload;
+  email?: EmailContent;
+}
+
+// Categorias que o usuário não consegue desligar
+const MANDATORY_CATEGORIES = new Set<NotificationCategory>(['system']);
+// O interruptor geral de e-mail das configurações vale para estas categorias;
+// e-mails de jornada e marketing dependem só do opt-out da categoria
+const EMAIL_SWITCH_CATEGORIES = new Set<NotificationCategory>(['routine', 'reminder']);
+
+const CATEGORY_NOTIFICATION_TYPE: Record<NotificationCategory, NotificationType> = {
+  routine: 'REMINDER',
+  reminder: 'REMINDER',
+  engagement: 'INSIGHT',
+  lifecycle: 'SYSTEM',
+  clinical: 'INSIGHT',
+  marketing: 'SYSTEM',
+  system: 'SYSTEM',
+};
+
+const FLUSH_BATCH_SIZE = 500;
+const FLUSH_MAX_ATTEMPTS = 3;
+const FLUSH_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+function emptySummary(recipients = 0): DispatchSummary {
+  return { recipients, sent: 0, failed: 0, noTarget: 0, deferred: 0, suppressed: 0 };
+}
+
+function countOutcome(summary: DispatchSummary, outcome: DispatchOutcome): void {
+  if (outcome === 'sent') summary.sent++;
+  else if (outcome === 'failed') summary.failed++;
+  else if (outcome === 'no_target') summary.noTarget++;
+  else if (outcome === 'deferred') summary.deferred++;
+  else summary.suppressed++;
+}
+
+// ==========================================
+// Service
+// ==========================================
+
+export class NotificationDispatcherService {
+  /**
+   * Entrega uma mensagem a um usuário respeitando preferências e horário de silêncio.
+   * Nunca lança: falhas de entrega voltam como 'failed' no canal.
+   */
+  static async dispatch(userId: number, message: NotificationMessage): Promise<DispatchResult> {
+    const results = await NotificationDispatcherService.deliver([userId], message);
+    return results.get(userId) ?? {};
+  }
+
+  /**
+   * Entrega a mesma mensagem a vários usuários (triggers, broadcasts).
+   * Contagens por usuário e canal.
+   */
+  static async dispatchToUsers(userIds: number[], message: NotificationMessage): Promise<DispatchSummary> {
+    const summary = emptySummary(userIds.length);
+    if (userIds.length === 0) return summary;
+
+    const results = await NotificationDispatcherService.deliver(userIds, message);
+    for (const result of results.values()) {
+      for (const outcome of Object.values(result)) {
+        countOutcome(summary, outcome);
+      }
+    }
+
+    logger.info(
+      `[Notify] ${message.category}: ${userIds.length} destinatários, ${summary.sent} enviados, ` +
+      `${summary.deferred} adiados, ${summary.suppressed} bloqueados por preferência, ` +
+      `${summary.failed} falhas, ${summary.noTarget} sem destino`
+    );
+    return summary;
+  }
+
+  /**
+   * Entrega os push/e-mails adiados cuja janela de silêncio terminou
+   * (job notifications.flush_deferred). As preferências são reavaliadas no
+   * envio: quem desligou a categoria nesse meio tempo não recebe, e quem
+   * mudou o horário de silêncio tem a entrega remarcada.
+   */
+  static async flushDeferred(now: Date = new Date()): Promise<DispatchSummary & { processed: number }> {
+    const pending = await prisma.deferredNotification.findMany({
+      where: { status: 'PENDING', deliverAfter: { lte: now } },
+      orderBy: { deliverAfter: 'asc' },
+      take: FLUSH_BATCH_SIZE,
+    });
+
+    const summary = emptySummary(new Set(pending.map(p => p.userId)).size);
+    if (pending.length === 0) return { ...summary, processed: 0 };
+
+    const preferences = await NotificationDispatcherService.loadPreferences(pending.map(p => p.userId));
+
+    for (const item of pending) {
+      const channel = item.channel as NotificationChannel;
+      const payload = item.payload as DeferredPayload;
+      const message: NotificationMessage = {
+        category: item.category as NotificationCategory,
+        severity: item.severity,
+        routineType: payload.routineType,
+        push: payload.push,
+        email: payload.email,
+      };
+
+      const prefs = preferences.get(item.userId);
+      const decision: ChannelDecision = prefs
+        ? NotificationDispatcherService.evaluate(prefs, channel, message, now)
+        : { action: 'suppress', reason: 'Usuário não encontrado' };
+
+      if (decision.action === 'defer') {
+        await prisma.deferredNotification.update({
+          where: { id: item.id },
+          data: { deliverAfter: decision.until },
+        });
+        countOutcome(summary, 'deferred');
+        continue;
+      }
+
+      if (decision.action === 'suppress') {
+        await prisma.deferredNotification.update({
+          where: { id: item.id },
+          data: { status: 'CANCELED', error: decision.reason },
+        });
+        countOutcome(summary, 'suppressed');
+        continue;
+      }
+
+      const outcome = await NotificationDispatcherService.sendNow(prefs!, channel, message);
+      countOutcome(summary, outcome);
+
+      if (outcome === 'sent') {
+        await prisma.deferredNotification.update({
+          where: { id: item.id },
+          data: { status: 'SENT', sentAt: new Date(), attempts: { increment: 1 } },
+        });
+      } else if (outcome === 'no_target') {
+        await prisma.deferredNotification.update({
+          where: { id: item.id },
+          data: { status: 'CANCELED', error: 'Sem dispositivo ou e-mail para entrega', attempts: { increment: 1 } },
+        });
+      } else {
+        const attempts = item.attempts + 1;
+        await prisma.deferredNotification.update({
+          where: { id: item.id },
+          data: attempts >= FLUSH_MAX_ATTEMPTS
+            ? { status: 'FAILED', error: 'Falha na entrega', attempts }
+            : { deliverAfter: new Date(now.getTime() + FLUSH_RETRY_DELAY_MS), attempts },
+        });
+      }
+    }
+
+    logger.info(`[Notify] Adiadas: ${pending.length} processadas, ${summary.sent} enviadas, ${summary.deferred} remarcadas`);
+    return { ...summary, processed: pending.length };
+  }
+
+  /**
+   * Remove adiamentos já resolvidos (enviados, cancelados ou com falha) antigos
+   */
+  static async cleanupDeferred(olderThanDays: number): Promise<number> {
+    const cutoff = new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000);
+    const { count } = await prisma.deferredNotification.deleteMany({
+      where: { status: { not: 'PENDING' }, updatedAt: { lt: cutoff } },
+    });
+    return count;
+  }
+
+  // ==========================================
+  // Internals
+  // ==========================================
+
+  private static async deliver(
+    userIds: number[],
+    message: NotificationMessage
+  ): Promise<Map<number, DispatchResult>> {
+    const now = new Date();
+    const results = new Map<number, DispatchResult>();
+    const preferences = await NotificationDispatcherService.loadPreferences(userIds);
+
+    const channels: NotificationChannel[] = [];
+    if (message.push) channels.push('push');
+    if (message.email) channels.push('email');
+    if (message.inApp) channels.push('in_app');
+
+    const sendNowByChannel: Record<NotificationChannel, RecipientPreferences[]> = { push: [], email: [], in_app: [] };
+    const deferrals: Prisma.DeferredNotificationCreateManyInput[] = [];
+
+    for (const userId of new Set(userIds)) {
+      const result: DispatchResult = {};
+      results.set(userId, result);
+
+      const prefs = preferences.get(userId);
+      if (!prefs) {
+        for (const channel of channels) result[channel] = 'no_target';
+        continue;
+      }
+
+      for (const channel of channels) {
+        const decision = NotificationDispatcherService.evaluate(prefs, channel, message, now);
+        if (decision.action === 'send') {
+          sendNowByChannel[channel].push(prefs);
+        } else if (decision.action === 'suppress') {
+          result[channel] = 'suppressed';
+        } else {
+          result[channel] = 'deferred';
+          deferrals.push({
+            userId,
+            channel,
+            category: message.category,
+            severity: message.severity ?? 'info',
+            payload: {
+              routineType: message.routineType,
+              [channel]: channel === 'push' ? message.push : message.email,
+            } as Prisma.InputJsonValue,
+            deliverAfter: decision.until,
+          });
+        }
+      }
+    }
+
+    if (deferrals.length > 0) {
+      await prisma.deferredNotification.createMany({ data: deferrals });
+    }
+
+    // Push: um único lote de tokens para todos os destinatários
+    if (sendNowByChannel.push.length > 0) {
+      const pushUserIds = sendNowByChannel.push.map(p => p.userId);
+      try {
+        const pushResults = await PushNotificationService.sendToUsers(pushUserIds, message.push!);
+        for (const userId of pushUserIds) {
+          const userResults = pushResults.get(userId) ?? [];
+          results.get(userId)!.push = userResults.length === 0
+            ? 'no_target'
+            : userResults.some(r => r.success) ? 'sent' : 'failed';
+        }
+      } catch (error) {
+        logger.error('[Notify] Push batch failed', { category: message.category, error: (error as Error).message });
+        for (const userId of pushUserIds) results.get(userId)!.push = 'failed';
+      }
+    }
+
+    for (const prefs of sendNowByChannel.email) {
+      results.get(prefs.userId)!.email = await NotificationDispatcherService.sendNow(prefs, 'email', message);
+    }
+
+    if (sendNowByChannel.in_app.length > 0) {
+      const inApp = message.inApp!;
+      try {
+        await prisma.notification.createMany({
+          data: sendNowByChannel.in_app.map(prefs => ({
+            userId: prefs.userId,
+            babyId: inApp.babyId,
+            type: inApp.type ?? CATEGORY_NOTIFICATION_TYPE[message.category],
+            severity: message.severity ?? 'info',
+            title: inApp.title,
+            message: inApp.message,
+            ctaLabel: inApp.ctaLabel,
+            ctaUrl: inApp.ctaUrl,
+            sourceKey: inApp.sourceKey,
+            meta: (inApp.meta ?? {}) as Prisma.InputJsonValue,
+          })),
+          skipDuplicates: true,
+        });
+        for (const prefs of sendNowByChannel.in_app) results.get(prefs.userId)!.in_app = 'sent';
+      } catch (error) {
+        logger.error('[Notify] In-app notification failed', { category: message.category, error: (error as Error).message });
+        for (const prefs of sendNowByChannel.in_app) results.get(prefs.userId)!.in_app = 'failed';
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Decide o que fazer com um canal para um destinatário agora:
+   * preferências primeiro, depois horário de silêncio (in-app é silencioso e não espera).
+   */
+  private static evaluate(
+    prefs: RecipientPreferences,
+    channel: NotificationChannel,
+    message: NotificationMessage,
+    now: Date
+  ): ChannelDecision {
+    if (!MANDATORY_CATEGORIES.has(message.category) && prefs.notificationCategories[message.category] === false) {
+      return { action: 'suppress', reason: `Categoria ${message.category} desativada` };
+    }
+    if (message.routineType && prefs.routineNotifications[message.routineType] === false) {
+      return { action: 'suppress', reason: `Notificações de ${message.routineType} desativadas` };
+    }
+    if (channel === 'push' && !prefs.pushEnabled) {
+      return { action: 'suppress', reason: 'Push desativado' };
+    }
+    if (channel === 'email' && EMAIL_SWITCH_CATEGORIES.has(message.category) && !prefs.emailEnabled) {
+      return { action: 'suppress', reason: 'E-mail desativado' };
+    }
+
+    if (channel === 'in_app' || message.severity === 'alert' || !prefs.quietHoursEnabled) {
+      return { action: 'send' };
+    }
+
+    const quietEnd = getQuietHoursEnd(now, prefs.quietHoursStart, prefs.quietHoursEnd, prefs.timezone);
+    if (!quietEnd) return { action: 'send' };
+
+    return message.deferrable === false
+      ? { action: 'suppress', reason: 'Horário de silêncio' }
+      : { action: 'defer', until: quietEnd };
+  }
+
+  private static async sendNow(
+    prefs: RecipientPreferences,
+    channel: NotificationChannel,
+    message: NotificationMessage
+  ): Promise<DispatchOutcome> {
+    try {
+      if (channel === 'push' && message.push) {
+        const pushResults = await PushNotificationService.sendToUser(prefs.userId, message.push);
+        if (pushResults.length === 0) return 'no_target';
+        return pushResults.some(r => r.success) ? 'sent' : 'failed';
+      }
+
+      if (channel === 'email' && message.email) {
+        if (!prefs.email) return 'no_target';
+        await sendEmailByTemplate(message.email.templateType, prefs.email, {
+          userName: prefs.name,
+          subject: message.email.subject,
+          customBody: message.email.customBody,
+          ...message.email.variables,
+        });
+        return 'sent';
+      }
+    } catch (error) {
+      logger.error(`[Notify] ${channel} failed for user ${prefs.userId}`, { error: (error as Error).message });
+      return 'failed';
+    }
+    return 'no_target';
+  }
+
+  /**
+   * Preferências de entrega; sem user_settings valem os padrões do schema
+   */
+  private static async loadPreferences(userIds: number[]): Promise<Map<number, RecipientPreferences>> {
+    const users = await prisma.user.findMany({
+      where: { id: { in: [...new Set(userIds)] } },
+      select: {
+        id: true,
+        email: true,
+        caregiver: { select: { fullName: true } },
+        professional: { select: { fullName: true } },
+        settings: {
+          select: {
+            pushEnabled: true,
+            emailEnabled: true,
+            quietHoursEnabled: true,
+            quietHoursStart: true,
+            quietHoursEnd: true,
+            timezone: true,
+            routineNotifications: true,
+            notificationCategories: true,
+          },
+        },
+      },
+    });
+
+    return new Map(users.map(user => [user.id, {
+      userId: user.id,
+      email: user.email,
+      name: user.caregiver?.fullName ?? user.professional?.fullName ?? 'Usuário',
+      pushEnabled: user.settings?.pushEnabled ?? true,
+      emailEnabled: user.settings?.emailEnabled ?? false,
+      quietHoursEnabled: user.settings?.quietHoursEnabled ?? false,
+      quietHoursStart: user.settings?.quietHoursStart ?? '22:00',
+      quietHoursEnd: user.settings?.quietHoursEnd ?? '07:00',
+      timezone: user.settings?.timezone || DEFAULT_TIMEZONE,
+      routineNotifications: (user.settings?.routineNotifications ?? {}) as Record<string, boolean>,
+      notificationCategories: (user.settings?.notificationCategories ?? {}) as Record<string, boolean>,
+    }]));
+  }
+}
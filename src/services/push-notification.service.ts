@@ -1,11 +1,12 @@
 // OlieCare API - Push Notification Service
 // Envio real de push notifications via Web Push (VAPID), FCM (Firebase) e Expo
-import { DevicePlatform } from '@prisma/client';
+import { DevicePlatform, NotificationSeverity } from '@prisma/client';
 import { DeviceTokenService } from './device-token.service';
 import { sendWebPushNotification, isWebPushConfigured } from '../config/webpush';
 import { getFirebaseMessaging, isFirebaseConfigured } from '../config/firebase';
 import { logger } from '../config/logger';
 import { prisma } from '../config/database';
+import type { NotificationCategory } from './notification-dispatcher.service';
 
 // ==========================================
 // Types
@@ -386,12 +387,15 @@ export class PushNotificationService {
   }
 
   /**
-   * Send push to a segment of users (admin broadcast)
+   * Send push to a segment of users (admin broadcast).
+   * Goes through the notification dispatcher, so category opt-outs and each
+   * user's quiet hours apply (severity 'alert' bypasses quiet hours).
    */
   static async sendToSegment(
     segment: 'all' | 'b2c' | 'b2b' | 'premium' | 'free',
-    payload: PushPayload
-  ): Promise<{ sent: number; failed: number; noToken: number }> {
+    payload: PushPayload,
+    options: { category?: NotificationCategory; severity?: NotificationSeverity } = {}
+  ): Promise<{ sent: number; failed: number; noToken: number; deferred: number; suppressed: number }> {
     let whereClause: any = { status: 'ACTIVE', isActive: true };
 
     switch (segment) {
@@ -415,29 +419,16 @@ export class PushNotificationService {
     });
 
     if (users.length === 0) {
-      return { sent: 0, failed: 0, noToken: 0 };
+      return { sent: 0, failed: 0, noToken: 0, deferred: 0, suppressed: 0 };
     }
 
-    const results = await PushNotificationService.sendToUsers(
+    // Import dinâmico: o dispatcher depende deste serviço para o envio
+    const { NotificationDispatcherService } = await import('./notification-dispatcher.service');
+    const summary = await NotificationDispatcherService.dispatchToUsers(
       users.map(u => u.id),
-      payload
+      { category: options.category ?? 'marketing', severity: options.severity, push: payload }
     );
-
-    let sent = 0;
-    let failed = 0;
-    let noToken = 0;
-
-    for (const [userId, pushResults] of results) {
-      if (pushResults.length === 0) {
-        noToken++;
-      } else {
-        sent += pushResults.filter(r => r.success).length;
-        failed += pushResults.filter(r => !r.success).length;
-      }
-    }
-
-    const usersWithNoResults = users.length - results.size;
-    noToken += usersWithNoResults;
+    const { sent, failed, noTarget: noToken, deferred, suppressed } = summary;
 
     const channel = segment === 'b2b' ? 'B2B' : segment === 'all' ? 'INTERNAL' : 'B2C';
     const segmentLabel = { all: 'todos', b2c: 'B2C', b2b: 'B2B', premium: 'Premium', free: 'Free' }[segment] || segment;
@@ -452,9 +443,12 @@ export class PushNotificationService {
             segment,
             title: payload.title,
             body: payload.body,
+            category: options.category ?? 'marketing',
             sent,
             failed,
             noToken,
+            deferred,
+            suppressed,
             totalUsers: users.length,
           } as any,
         },
@@ -463,7 +457,7 @@ export class PushNotificationService {
       logger.warn('[Push] Broadcast log failed', { error: (err as Error).message });
     }
 
-    return { sent, failed, noToken };
+    return { sent, failed, noToken, deferred, suppressed };
   }
 }
 
@@ -476,7 +470,7 @@ export interface PushTriggerDefinition {
   name: string;
   description: string;
   channel: 'B2C' | 'B2B' | 'INTERNAL';
-  category: 'engagement' | 'lifecycle' | 'clinical' | 'system';
+  category: 'engagement' | 'lifecycle' | 'reminder' | 'clinical' | 'system';
   defaultEnabled: boolean;
   defaultPayload: PushPayload;
   configSchema: {
@@ -539,6 +533,57 @@ export const PUSH_TRIGGERS: PushTriggerDefinition[] = [
       { key: 'dayOfWeek', label: 'Dia da semana (0=Dom, 6=Sáb)', type: 'number', default: 1 },
     ],
   },
+  {
+    id: 'routine_forecast',
+    name: 'Previsão de Mamada/Sono',
+    description: 'Avisa alguns minutos antes da próxima mamada ou soneca prevista pelo histórico do bebê (respeita as preferências de notificação de rotina)',
+    channel: 'B2C',
+    category: 'engagement',
+    defaultEnabled: false,
+    defaultPayload: {
+      title: 'Mamada prevista em breve 🍼',
+      body: 'Pelo histórico, seu bebê deve sentir fome em alguns minutos.',
+      clickAction: '/dashboard',
+    },
+    configSchema: [
+      { key: 'minutesBefore', label: 'Minutos de antecedência', type: 'number', default: 15 },
+    ],
+  },
+  // B2C - Reminders
+  {
+    id: 'vaccine_reminder',
+    name: 'Lembrete de Vacina',
+    description: 'Avisa os pais N dias antes e no dia da vacina e escalona as doses atrasadas (push, depois e-mail), com link para marcar como aplicada',
+    channel: 'B2C',
+    category: 'reminder',
+    defaultEnabled: true,
+    defaultPayload: {
+      title: 'Vacina chegando 💉',
+      body: 'Uma vacina do seu bebê está próxima. Confira a carteira de vacinação.',
+      clickAction: '/dashboard',
+    },
+    configSchema: [
+      { key: 'daysBefore', label: 'Dias de antecedência', type: 'number', default: 3 },
+      { key: 'escalationDays', label: 'Dias de atraso para escalonar (ex.: 3,10,30)', type: 'string', default: '3,10,30' },
+      { key: 'maxOverdueDays', label: 'Ignorar doses atrasadas há mais de (dias)', type: 'number', default: 90 },
+    ],
+  },
+  {
+    id: 'appointment_reminder',
+    name: 'Lembrete de Consulta',
+    description: 'Avisa os pais antes das consultas marcadas (48h e 2h), com links para confirmar presença ou cancelar',
+    channel: 'B2C',
+    category: 'reminder',
+    defaultEnabled: true,
+    defaultPayload: {
+      title: 'Lembrete de consulta 🩺',
+      body: 'Seu bebê tem uma consulta marcada. Confirme sua presença.',
+      clickAction: '/dashboard',
+    },
+    configSchema: [
+      { key: 'stagesHours', label: 'Horas de antecedência (ex.: 48,2)', type: 'string', default: '48,2' },
+    ],
+  },
   // B2C - Lifecycle
   {
     id: 'subscription_expiring',
@@ -619,6 +664,22 @@ export const PUSH_TRIGGERS: PushTriggerDefinition[] = [
     },
     configSchema: [],
   },
+  {
+    id: 'prof_vaccine_digest',
+    name: 'Vacinas Atrasadas dos Pacientes',
+    description: 'Resumo semanal para o pediatra com os pacientes que têm doses de vacina atrasadas',
+    channel: 'B2B',
+    category: 'clinical',
+    defaultEnabled: true,
+    defaultPayload: {
+      title: 'Vacinas atrasadas dos pacientes 💉',
+      body: 'Alguns pacientes têm doses de vacina atrasadas. Confira no painel.',
+      clickAction: '/prof/dashboard',
+    },
+    configSchema: [
+      { key: 'dayOfWeek', label: 'Dia da semana (0=Dom, 6=Sáb)', type: 'number', default: 1 },
+    ],
+  },
   // B2B - Engagement
   {
     id: 'prof_weekly_summary',
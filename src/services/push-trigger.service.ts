@@ -1,6 +1,7 @@
 // OlieCare API - Push Trigger Execution
 // Resolve a audiência elegível de cada trigger agendado e dispara os pushes.
 // Sem isso, o cron enviaria todos os triggers para todos os usuários (spam).
+import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database';
 import { logger } from '../config/logger';
 import {
@@ -8,6 +9,11 @@ import {
   PUSH_TRIGGERS,
   type PushPayload,
 } from './push-notification.service';
+import { ForecastService } from './forecast.service';
+import { VaccineReminderService, parseEscalationDays } from './vaccine-reminder.service';
+import { AppointmentReminderService, parseStagesHours } from './appointment-reminder.service';
+import { NotificationDispatcherService } from './notification-dispatcher.service';
+import { DEFAULT_TIMEZONE } from '../utils/helpers/timezone.helper';
 
 export interface TriggerExecutionResult {
   triggerId: string;
@@ -15,6 +21,8 @@ export interface TriggerExecutionResult {
   sent: number;
   failed: number;
   noToken: number;
+  deferred: number;       // adiados pelo horário de silêncio do usuário
+  suppressed: number;     // bloqueados pelas preferências de notificação
   skipped: boolean;
   reason?: string;
   dryRun: boolean;
@@ -27,13 +35,15 @@ function numberConfig(config: TriggerConfigValues, key: string, fallback: number
   return Number.isFinite(value) && value > 0 ? value : fallback;
 }
 
-/** Dia da semana atual em São Paulo (0=Dom ... 6=Sáb) */
-function currentDayOfWeekSaoPaulo(): number {
-  const weekday = new Intl.DateTimeFormat('en-US', {
-    timeZone: 'America/Sao_Paulo',
-    weekday: 'short',
-  }).format(new Date());
-  return ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(weekday);
+/** Fuso do usuário (user_settings), com o padrão do app para quem nunca alterou */
+function userTimezoneSql(userIdColumn: string): Prisma.Sql {
+  return Prisma.sql`COALESCE((SELECT us.timezone FROM user_settings us WHERE us.user_id = ${Prisma.raw(userIdColumn)}), ${DEFAULT_TIMEZONE})`;
+}
+
+/** Restringe a audiência aos usuários nos fusos informados (sem fusos = todos) */
+function timezoneFilter(userIdColumn: string, timezones?: string[]): Prisma.Sql {
+  if (!timezones || timezones.length === 0) return Prisma.empty;
+  return Prisma.sql`AND ${userTimezoneSql(userIdColumn)} IN (${Prisma.join(timezones)})`;
 }
 
 // Triggers que são disparados por eventos da aplicação (não por cron)
@@ -44,11 +54,13 @@ const MANUAL_TRIGGERS = new Set(['system_maintenance']);
 export class PushTriggerService {
   /**
    * Resolve os usuários elegíveis para um trigger agendado.
-   * Retorna null quando o trigger não deve rodar agora (ex: dia da semana errado).
+   * `timezones` limita aos usuários cujo fuso está na lista (agendamento por fuso do usuário).
+   * Dia da semana configurado é comparado no fuso de cada usuário.
    */
   static async resolveAudience(
     triggerId: string,
-    config: TriggerConfigValues
+    config: TriggerConfigValues,
+    timezones?: string[]
   ): Promise<{ userIds: number[] } | { skipped: true; reason: string }> {
     switch (triggerId) {
       case 'routine_reminder': {
@@ -65,6 +77,7 @@ export class PushTriggerService {
               WHERE cb2.caregiver_id = c.id
                 AND rl.start_time > NOW() - ${hours} * INTERVAL '1 hour'
             )
+            ${timezoneFilter('u.id', timezones)}
         `;
         return { userIds: rows.map(r => r.id) };
       }
@@ -77,15 +90,13 @@ export class PushTriggerService {
             AND u.role IN ('PARENT', 'CAREGIVER')
             AND u.last_activity_at IS NOT NULL
             AND u.last_activity_at < NOW() - ${days} * INTERVAL '1 day'
+            ${timezoneFilter('u.id', timezones)}
         `;
         return { userIds: rows.map(r => r.id) };
       }
 
       case 'weekly_summary': {
         const dayOfWeek = numberConfig(config, 'dayOfWeek', 1);
-        if (currentDayOfWeekSaoPaulo() !== dayOfWeek) {
-          return { skipped: true, reason: `Agendado para dia ${dayOfWeek} da semana` };
-        }
         const rows = await prisma.$queryRaw<Array<{ id: number }>>`
           SELECT DISTINCT u.id FROM users u
           JOIN caregivers c ON c.user_id = u.id
@@ -93,6 +104,8 @@ export class PushTriggerService {
           JOIN routine_logs rl ON rl.baby_id = cb.baby_id
             AND rl.start_time > NOW() - INTERVAL '7 days'
           WHERE u.status = 'ACTIVE' AND u.is_active = true
+            AND EXTRACT(DOW FROM NOW() AT TIME ZONE ${userTimezoneSql('u.id')}) = ${dayOfWeek}
+            ${timezoneFilter('u.id', timezones)}
         `;
         return { userIds: rows.map(r => r.id) };
       }
@@ -104,6 +117,7 @@ export class PushTriggerService {
           WHERE s.status = 'ACTIVE'
             AND s.current_period_end IS NOT NULL
             AND s.current_period_end BETWEEN NOW() AND NOW() + ${days} * INTERVAL '1 day'
+            ${timezoneFilter('s.user_id', timezones)}
         `;
         return { userIds: rows.map(r => r.user_id) };
       }
@@ -117,6 +131,7 @@ export class PushTriggerService {
             AND u.onboarding_completed_at IS NULL
             AND u.created_at <= NOW() - ${hours} * INTERVAL '1 hour'
             AND u.created_at >= NOW() - INTERVAL '7 days'
+            ${timezoneFilter('u.id', timezones)}
         `;
         return { userIds: rows.map(r => r.id) };
       }
@@ -132,19 +147,19 @@ export class PushTriggerService {
               WHERE rl.baby_id = bp.baby_id
                 AND rl.start_time > NOW() - ${days} * INTERVAL '1 day'
             )
+            ${timezoneFilter('p.user_id', timezones)}
         `;
         return { userIds: rows.map(r => r.user_id) };
       }
 
       case 'prof_weekly_summary': {
         const dayOfWeek = numberConfig(config, 'dayOfWeek', 1);
-        if (currentDayOfWeekSaoPaulo() !== dayOfWeek) {
-          return { skipped: true, reason: `Agendado para dia ${dayOfWeek} da semana` };
-        }
         const rows = await prisma.$queryRaw<Array<{ user_id: number }>>`
           SELECT DISTINCT p.user_id FROM professionals p
           JOIN baby_professionals bp ON bp.professional_id = p.id
           WHERE p.user_id IS NOT NULL
+            AND EXTRACT(DOW FROM NOW() AT TIME ZONE ${userTimezoneSql('p.user_id')}) = ${dayOfWeek}
+            ${timezoneFilter('p.user_id', timezones)}
         `;
         return { userIds: rows.map(r => r.user_id) };
       }
@@ -162,7 +177,8 @@ export class PushTriggerService {
     triggerId: string,
     payload: PushPayload,
     config: TriggerConfigValues = {},
-    dryRun = false
+    dryRun = false,
+    timezones?: string[]
   ): Promise<TriggerExecutionResult> {
     const base: TriggerExecutionResult = {
       triggerId,
@@ -170,6 +186,8 @@ export class PushTriggerService {
       sent: 0,
       failed: 0,
       noToken: 0,
+      deferred: 0,
+      suppressed: 0,
       skipped: false,
       dryRun,
     };
@@ -181,7 +199,54 @@ export class PushTriggerService {
       return { ...base, skipped: true, reason: 'Trigger de envio manual (use o broadcast do admin)' };
     }
 
-    const audience = await PushTriggerService.resolveAudience(triggerId, config);
+    // Payload personalizado por bebê (horário previsto), sem audiência fixa
+    if (triggerId === 'routine_forecast') {
+      const minutesBefore = numberConfig(config, 'minutesBefore', 15);
+      const result = await ForecastService.sendDueReminders(minutesBefore, dryRun);
+      if (!dryRun && result.eligible > 0) {
+        await PushNotificationService.logPushCommunication(triggerId, 'B2C', undefined, { ...result });
+      }
+      logger.info(`[PushTrigger] ${triggerId}: ${result.eligible} elegíveis, ${result.sent} enviados${dryRun ? ' (dry run)' : ''}`);
+      return { ...base, ...result };
+    }
+
+    // Lembretes por dose e resumo por pediatra: conteúdo personalizado, sem audiência fixa
+    if (triggerId === 'vaccine_reminder' || triggerId === 'prof_vaccine_digest') {
+      const result = triggerId === 'vaccine_reminder'
+        ? await VaccineReminderService.sendDueReminders({
+            daysBefore: numberConfig(config, 'daysBefore', 3),
+            escalationDays: parseEscalationDays(config.escalationDays, [3, 10, 30]),
+            maxOverdueDays: numberConfig(config, 'maxOverdueDays', 90),
+            timezones,
+            dryRun,
+          })
+        : await VaccineReminderService.sendPediatricianDigest({
+            dayOfWeek: numberConfig(config, 'dayOfWeek', 1),
+            timezones,
+            dryRun,
+          });
+      if (!dryRun && result.eligible > 0) {
+        const triggerDef = PUSH_TRIGGERS.find(t => t.id === triggerId);
+        await PushNotificationService.logPushCommunication(triggerId, triggerDef?.channel ?? 'B2C', undefined, { ...result });
+      }
+      logger.info(`[PushTrigger] ${triggerId}: ${result.eligible} elegíveis, ${result.sent} enviados${dryRun ? ' (dry run)' : ''}`);
+      return { ...base, ...result };
+    }
+
+    // Lembretes por consulta (48h/2h) com links de confirmação: sem audiência fixa
+    if (triggerId === 'appointment_reminder') {
+      const result = await AppointmentReminderService.sendDueReminders({
+        stagesHours: parseStagesHours(config.stagesHours, [48, 2]),
+        dryRun,
+      });
+      if (!dryRun && result.eligible > 0) {
+        await PushNotificationService.logPushCommunication(triggerId, 'B2C', undefined, { ...result });
+      }
+      logger.info(`[PushTrigger] ${triggerId}: ${result.eligible} elegíveis, ${result.sent} enviados${dryRun ? ' (dry run)' : ''}`);
+      return { ...base, ...result };
+    }
+
+    const audience = await PushTriggerService.resolveAudience(triggerId, config, timezones);
     if ('skipped' in audience) {
       return { ...base, skipped: true, reason: audience.reason };
     }
@@ -192,30 +257,65 @@ export class PushTriggerService {
       return { ...base, eligible };
     }
 
-    const results = await PushNotificationService.sendToUsers(audience.userIds, payload);
-
-    let sent = 0;
-    let failed = 0;
-    let noToken = 0;
-    for (const [, pushResults] of results) {
-      if (pushResults.length === 0) noToken++;
-      else {
-        sent += pushResults.filter(r => r.success).length;
-        failed += pushResults.filter(r => !r.success).length;
-      }
-    }
-    noToken += eligible - results.size;
-
+    // Preferências e horário de silêncio de cada usuário são aplicados pelo dispatcher
     const triggerDef = PUSH_TRIGGERS.find(t => t.id === triggerId);
+    const summary = await NotificationDispatcherService.dispatchToUsers(audience.userIds, {
+      category: triggerDef?.category ?? 'engagement',
+      push: payload,
+    });
+    const { sent, failed, noTarget: noToken, deferred, suppressed } = summary;
+
     await PushNotificationService.logPushCommunication(
       triggerId,
       triggerDef?.channel ?? 'INTERNAL',
       undefined,
-      { eligible, sent, failed, noToken, title: payload.title }
+      { eligible, sent, failed, noToken, deferred, suppressed, title: payload.title }
     );
 
-    logger.info(`[PushTrigger] ${triggerId}: ${eligible} elegíveis, ${sent} enviados, ${failed} falhas, ${noToken} sem token`);
+    logger.info(`[PushTrigger] ${triggerId}: ${eligible} elegíveis, ${sent} enviados, ${deferred} adiados, ${suppressed} bloqueados, ${failed} falhas, ${noToken} sem token`);
+
+    return { ...base, eligible, sent, failed, noToken, deferred, suppressed };
+  }
 
-    return { ...base, eligible, sent, failed, noToken };
+  /**
+   * Execução pelo scheduler interno: usa a configuração salva pelo admin
+   * (habilitado, config e payload padrão) como o endpoint de n8n faz.
+   */
+  static async runScheduled(
+    triggerId: string,
+    timezones?: string[]
+  ): Promise<TriggerExecutionResult> {
+    const triggerDef = PUSH_TRIGGERS.find(t => t.id === triggerId);
+    if (!triggerDef) {
+      throw new Error(`Trigger desconhecido: ${triggerId}`);
+    }
+
+    const triggerConfig = await prisma.triggerConfig.findUnique({ where: { triggerId } });
+    const enabled = triggerConfig ? triggerConfig.enabled : triggerDef.defaultEnabled;
+    if (!enabled) {
+      return {
+        triggerId,
+        eligible: 0,
+        sent: 0,
+        failed: 0,
+        noToken: 0,
+        deferred: 0,
+        suppressed: 0,
+        skipped: true,
+        reason: 'Trigger desabilitado',
+        dryRun: false,
+      };
+    }
+
+    const configDefaults = Object.fromEntries(triggerDef.configSchema.map(c => [c.key, c.default]));
+    const mergedConfig = { ...configDefaults, ...((triggerConfig?.config as object) ?? {}) };
+
+    return PushTriggerService.executeTrigger(
+      triggerId,
+      triggerDef.defaultPayload,
+      mergedConfig as TriggerConfigValues,
+      false,
+      timezones
+    );
   }
 }
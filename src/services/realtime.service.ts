@@ -0,0 +1,312 @@
+// OlieCare API - Realtime Service
+// Stream de atividades por bebê via Server-Sent Events. Cada réplica mantém as
+// conexões dos seus clientes; os eventos passam pelo Redis pub/sub para chegar
+// aos membros conectados em qualquer réplica (sem Redis, entrega só local).
+import crypto from 'crypto';
+import { Response } from 'express';
+import { Redis } from 'ioredis';
+import { env } from '../config/env';
+import { logger } from '../config/logger';
+import { BABY_PERMISSION_DOMAINS, BabyPermissionDomain, BabyStreamEvent, BabyStreamEventType } from '../types';
+import { getBabyPermissions } from '../utils/helpers/baby-permission.helper';
+
+const CHANNEL = 'oliecare:baby-stream';
+// Proxies costumam derrubar conexões ociosas em ~60s
+const HEARTBEAT_INTERVAL_MS = 25_000;
+const CLIENT_RETRY_MS = 5_000;
+// Rechecagem periódica das permissões (fim do acesso temporário, mudanças perdidas)
+const REVALIDATE_INTERVAL_MS = 60_000;
+
+// Domínio de permissão de cada tipo de evento (prefixo antes do ponto)
+const EVENT_DOMAINS: Record<string, BabyPermissionDomain> = {
+  routine: 'routines',
+  growth: 'growth',
+  milestone: 'growth',
+  vaccine: 'vaccines',
+};
+
+interface StreamClient {
+  id: string;
+  babyId: number;
+  userId: number;
+  res: Response;
+  readableDomains: Set<BabyPermissionDomain>;
+  expiryTimer?: NodeJS.Timeout;
+}
+
+interface SubscribeOptions {
+  expiresAt?: Date;
+  readableDomains: BabyPermissionDomain[];
+}
+
+// Mensagens trocadas entre réplicas
+type StreamMessage =
+  | { kind: 'event'; event: BabyStreamEvent }
+  | { kind: 'revoke'; babyId: number; userId: number }
+  | { kind: 'refresh'; babyId: number; userId: number };
+
+interface PublishInput {
+  entityId?: number | null;
+  actorUserId?: number | null;
+  data?: unknown;
+}
+
+const clientsByBaby = new Map<number, Set<StreamClient>>();
+let publisher: Redis | null = null;
+let subscriber: Redis | null = null;
+let heartbeat: NodeJS.Timeout | null = null;
+let revalidation: NodeJS.Timeout | null = null;
+
+function createRedis(): Redis {
+  const client = new Redis(env.REDIS_URL!, {
+    maxRetriesPerRequest: 3,
+    retryStrategy: (times) => Math.min(times * 200, 5000),
+  });
+  client.on('error', (error) => {
+    logger.error('[Realtime] Redis error', { error: error.message });
+  });
+  return client;
+}
+
+function write(client: StreamClient, event: string, data: unknown, id?: string): void {
+  try {
+    client.res.write(`${id ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  } catch (error) {
+    logger.warn('[Realtime] Write failed', { clientId: client.id, error: (error as Error).message });
+  }
+}
+
+function removeClient(client: StreamClient): void {
+  if (client.expiryTimer) clearTimeout(client.expiryTimer);
+  const clients = clientsByBaby.get(client.babyId);
+  if (!clients) return;
+  clients.delete(client);
+  if (clients.size === 0) clientsByBaby.delete(client.babyId);
+}
+
+function closeClient(client: StreamClient, event: string): void {
+  write(client, event, { babyId: client.babyId });
+  client.res.end();
+  removeClient(client);
+}
+
+/**
+ * Recalcula o acesso das conexões locais do usuário ao bebê: sem acesso (revogado,
+ * fora da janela) encerra; senão atualiza os domínios que ele pode ler
+ */
+async function revalidateClients(babyId: number, userId: number): Promise<void> {
+  const clients = [...(clientsByBaby.get(babyId) ?? [])].filter(client => client.userId === userId);
+  if (clients.length === 0) return;
+
+  const permissions = await getBabyPermissions(userId, babyId);
+  for (const client of clients) {
+    if (!permissions) {
+      closeClient(client, 'access_revoked');
+      continue;
+    }
+
+    const readableDomains = BABY_PERMISSION_DOMAINS.filter(domain => permissions[domain].read);
+    const changed =
+      readableDomains.length !== client.readableDomains.size ||
+      readableDomains.some(domain => !client.readableDomains.has(domain));
+    if (!changed) continue;
+
+    client.readableDomains = new Set(readableDomains);
+    // O app recarrega o que passou (ou deixou) de poder ver
+    write(client, 'permissions_changed', { babyId, readableDomains });
+  }
+}
+
+function revalidateAll(): void {
+  const pairs = new Map<string, { babyId: number; userId: number }>();
+  for (const clients of clientsByBaby.values()) {
+    for (const client of clients) {
+      pairs.set(`${client.babyId}:${client.userId}`, { babyId: client.babyId, userId: client.userId });
+    }
+  }
+  for (const { babyId, userId } of pairs.values()) {
+    revalidateClients(babyId, userId).catch((error: Error) => {
+      logger.warn('[Realtime] Revalidation failed', { babyId, userId, error: error.message });
+    });
+  }
+}
+
+function handleMessage(message: StreamMessage): void {
+  if (message.kind === 'event') {
+    const clients = clientsByBaby.get(message.event.babyId);
+    if (!clients) return;
+    const domain = EVENT_DOMAINS[message.event.type.split('.')[0]];
+    for (const client of clients) {
+      if (!client.readableDomains.has(domain)) continue;
+      write(client, message.event.type, message.event, message.event.id);
+    }
+    return;
+  }
+
+  if (message.kind === 'refresh') {
+    revalidateClients(message.babyId, message.userId).catch((error: Error) => {
+      logger.warn('[Realtime] Revalidation failed', { ...message, error: error.message });
+    });
+    return;
+  }
+
+  // Acesso revogado: encerra as conexões desse usuário com o bebê
+  const clients = clientsByBaby.get(message.babyId);
+  if (!clients) return;
+  for (const client of [...clients]) {
+    if (client.userId !== message.userId) continue;
+    closeClient(client, 'access_revoked');
+  }
+}
+
+export class RealtimeService {
+  /**
+   * Abre o stream SSE de um bebê para a requisição atual (acesso já verificado).
+   * `expiresAt` (expiração do JWT ou do acesso temporário) encerra a conexão;
+   * o app reconecta com token novo. Só recebe eventos dos domínios que pode ler.
+   */
+  static subscribe(babyId: number, userId: number, res: Response, options: SubscribeOptions): void {
+    const { expiresAt } = options;
+    RealtimeService.ensureStarted();
+
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // nginx: não bufferizar
+    res.flushHeaders();
+
+    const client: StreamClient = {
+      id: crypto.randomUUID(),
+      babyId,
+      userId,
+      res,
+      readableDomains: new Set(options.readableDomains),
+    };
+    if (!clientsByBaby.has(babyId)) clientsByBaby.set(babyId, new Set());
+    clientsByBaby.get(babyId)!.add(client);
+
+    if (expiresAt) {
+      const ms = expiresAt.getTime() - Date.now();
+      client.expiryTimer = setTimeout(() => closeClient(client, 'token_expired'), Math.max(ms, 0));
+    }
+
+    res.write(`retry: ${CLIENT_RETRY_MS}\n\n`);
+    // Ao (re)conectar o app recarrega os dados: eventos perdidos não são reenviados
+    write(client, 'ready', { babyId, connectionId: client.id });
+
+    res.on('close', () => removeClient(client));
+  }
+
+  /**
+   * Publica uma alteração para todos os membros conectados ao bebê.
+   * Nunca lança: falha no stream não pode quebrar a escrita que o originou.
+   */
+  static publish(babyId: number, type: BabyStreamEventType, input: PublishInput = {}): void {
+    const event: BabyStreamEvent = {
+      id: crypto.randomUUID(),
+      type,
+      babyId,
+      entityId: input.entityId ?? null,
+      actorUserId: input.actorUserId ?? null,
+      data: input.data ?? null,
+      at: new Date().toISOString(),
+    };
+    RealtimeService.broadcast({ kind: 'event', event });
+  }
+
+  /**
+   * Encerra os streams de um membro que perdeu o acesso ao bebê (em todas as réplicas)
+   */
+  static revokeAccess(babyId: number, userId: number): void {
+    RealtimeService.broadcast({ kind: 'revoke', babyId, userId });
+  }
+
+  /**
+   * Rechecagem das permissões de um membro alterado (papel, permissões ou janela
+   * de acesso): atualiza ou encerra os streams abertos em todas as réplicas
+   */
+  static refreshAccess(babyId: number, userId: number): void {
+    RealtimeService.broadcast({ kind: 'refresh', babyId, userId });
+  }
+
+  static getStats(): { babies: number; connections: number; redis: boolean } {
+    let connections = 0;
+    for (const clients of clientsByBaby.values()) connections += clients.size;
+    return { babies: clientsByBaby.size, connections, redis: publisher !== null };
+  }
+
+  /**
+   * Fecha todas as conexões e o Redis (shutdown)
+   */
+  static async stop(): Promise<void> {
+    if (heartbeat) {
+      clearInterval(heartbeat);
+      heartbeat = null;
+    }
+    if (revalidation) {
+      clearInterval(revalidation);
+      revalidation = null;
+    }
+    for (const clients of clientsByBaby.values()) {
+      for (const client of clients) {
+        if (client.expiryTimer) clearTimeout(client.expiryTimer);
+        client.res.end();
+      }
+    }
+    clientsByBaby.clear();
+
+    await Promise.all([publisher?.quit(), subscriber?.quit()].map(p => p?.catch(() => undefined)));
+    publisher = null;
+    subscriber = null;
+  }
+
+  private static broadcast(message: StreamMessage): void {
+    try {
+      RealtimeService.ensureStarted();
+      if (!publisher) {
+        handleMessage(message);
+        return;
+      }
+      // A própria réplica recebe de volta pela assinatura
+      publisher.publish(CHANNEL, JSON.stringify(message)).catch((error: Error) => {
+        logger.warn('[Realtime] Publish failed, delivering locally', { error: error.message });
+        handleMessage(message);
+      });
+    } catch (error) {
+      logger.error('[Realtime] Broadcast failed', { error: (error as Error).message });
+    }
+  }
+
+  private static ensureStarted(): void {
+    if (!heartbeat) {
+      heartbeat = setInterval(() => {
+        for (const clients of clientsByBaby.values()) {
+          for (const client of clients) client.res.write(': ping\n\n');
+        }
+      }, HEARTBEAT_INTERVAL_MS);
+      heartbeat.unref();
+    }
+    if (!revalidation) {
+      // Cada réplica recheca só as próprias conexões
+      revalidation = setInterval(revalidateAll, REVALIDATE_INTERVAL_MS);
+      revalidation.unref();
+    }
+
+    if (!env.REDIS_URL || publisher) return;
+
+    publisher = createRedis();
+    subscriber = createRedis();
+    subscriber.subscribe(CHANNEL).catch((error: Error) => {
+      logger.error('[Realtime] Subscribe failed', { error: error.message });
+    });
+    subscriber.on('message', (_channel: string, raw: string) => {
+      try {
+        handleMessage(JSON.parse(raw) as StreamMessage);
+      } catch (error) {
+        logger.warn('[Realtime] Invalid stream message', { error: (error as Error).message });
+      }
+    });
+    logger.info('[Realtime] Redis pub/sub enabled');
+  }
+}
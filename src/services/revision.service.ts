@@ -0,0 +1,455 @@
+// Olive Baby API - Revision Service
+// Histórico de alterações (append-only) e lixeira de rotinas, crescimento e marcos
+import {
+  Prisma,
+  PrismaClient,
+  RevisionAction,
+  RevisionEntityType,
+  RevisionSource,
+} from '@prisma/client';
+import { Decimal } from '@prisma/client/runtime/library';
+import { prisma } from '../config/database';
+import { AppError } from '../utils/errors/AppError';
+import { BabyPermissionDomain, BabyStreamEventType } from '../types';
+import { RealtimeService } from './realtime.service';
+
+// Quem fez a alteração e por qual canal (app, ferramenta da IA, importação...)
+export interface RevisionContext {
+  userId?: number;
+  source?: RevisionSource;
+}
+
+export interface ResolvedRevisionContext {
+  userId: number | null;
+  source: RevisionSource;
+}
+
+type RevisionClient = PrismaClient | Prisma.TransactionClient;
+type RevisionSnapshot = Record<string, unknown>;
+type RevisionChanges = Record<string, { from: unknown; to: unknown }>;
+
+export interface RecordRevisionInput {
+  babyId: number;
+  entityType: RevisionEntityType;
+  entityId: number;
+  action: RevisionAction;
+  before?: object | null;
+  after?: object | null;
+  context: ResolvedRevisionContext;
+}
+
+interface ListActivityOptions {
+  page: number;
+  limit: number;
+  entityType?: RevisionEntityType;
+  action?: RevisionAction;
+}
+
+// Registros excluídos podem ser restaurados por este período
+export const TRASH_RETENTION_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Campos gravados no snapshot de cada entidade (relações ficam de fora)
+const SNAPSHOT_FIELDS: Record<RevisionEntityType, string[]> = {
+  ROUTINE_LOG: Object.values(Prisma.RoutineLogScalarFieldEnum),
+  GROWTH: Object.values(Prisma.GrowthScalarFieldEnum),
+  MILESTONE: Object.values(Prisma.MilestoneScalarFieldEnum),
+};
+
+// Campos de data que precisam voltar a ser Date ao restaurar
+const DATE_FIELDS: Record<RevisionEntityType, string[]> = {
+  ROUTINE_LOG: ['startTime', 'endTime', 'createdAt', 'updatedAt'],
+  GROWTH: ['measuredAt', 'createdAt'],
+  MILESTONE: ['occurredOn', 'createdAt'],
+};
+
+// Não entram no diff (mudam a cada escrita)
+const DIFF_IGNORED_FIELDS = ['createdAt', 'updatedAt'];
+
+const ENTITY_LABELS: Record<RevisionEntityType, string> = {
+  ROUTINE_LOG: 'Rotina',
+  GROWTH: 'Crescimento',
+  MILESTONE: 'Marco',
+};
+
+// Domínio de permissão do membro que cobre cada entidade (marcos ficam com crescimento)
+export const REVISION_PERMISSION_DOMAINS: Record<RevisionEntityType, BabyPermissionDomain> = {
+  ROUTINE_LOG: 'routines',
+  GROWTH: 'growth',
+  MILESTONE: 'growth',
+};
+
+const STREAM_CREATED_EVENTS: Record<RevisionEntityType, BabyStreamEventType> = {
+  ROUTINE_LOG: 'routine.created',
+  GROWTH: 'growth.created',
+  MILESTONE: 'milestone.created',
+};
+
+export class RevisionService {
+  /**
+   * Resolve o autor da alteração: usa o userId informado ou o dono do perfil de cuidador
+   */
+  static async resolveContext(
+    caregiverId: number,
+    context: RevisionContext = {}
+  ): Promise<ResolvedRevisionContext> {
+    let userId = context.userId ?? null;
+    if (userId === null) {
+      const caregiver = await prisma.caregiver.findUnique({
+        where: { id: caregiverId },
+        select: { userId: true },
+      });
+      userId = caregiver?.userId ?? null;
+    }
+    return { userId, source: context.source || 'APP' };
+  }
+
+  /**
+   * Grava uma revisão. Recebe o client da transação para ficar atômico com a escrita.
+   */
+  static async record(client: RevisionClient, input: RecordRevisionInput) {
+    const data = this.buildRevisionData(input);
+    return data ? client.recordRevision.create({ data }) : null;
+  }
+
+  /**
+   * Grava várias revisões de uma vez (ex.: importação ou rollback de um lote)
+   */
+  static async recordMany(client: RevisionClient, inputs: RecordRevisionInput[]) {
+    const data = inputs
+      .map(input => this.buildRevisionData(input))
+      .filter((item): item is Prisma.RecordRevisionCreateManyInput => item !== null);
+    return data.length > 0 ? client.recordRevision.createMany({ data }) : { count: 0 };
+  }
+
+  // ==========================================
+  // Consultas
+  // ==========================================
+
+  /**
+   * Feed de atividades do bebê (sem checagem de acesso — feita no controller)
+   */
+  static async listActivityByBabyId(babyId: number, options: ListActivityOptions) {
+    const where: Prisma.RecordRevisionWhereInput = {
+      babyId,
+      ...(options.entityType && { entityType: options.entityType }),
+      ...(options.action && { action: options.action }),
+    };
+
+    const [revisions, total] = await Promise.all([
+      prisma.recordRevision.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: (options.page - 1) * options.limit,
+        take: options.limit,
+      }),
+      prisma.recordRevision.count({ where }),
+    ]);
+
+    const users = await this.getUserNames(revisions.map(r => r.userId));
+
+    return {
+      data: revisions.map(revision => ({
+        ...revision,
+        entityLabel: ENTITY_LABELS[revision.entityType],
+        user: revision.userId ? users.get(revision.userId) || null : null,
+      })),
+      pagination: {
+        page: options.page,
+        limit: options.limit,
+        total,
+        totalPages: Math.ceil(total / options.limit),
+      },
+    };
+  }
+
+  /**
+   * Histórico completo de um registro, do mais antigo ao mais recente
+   */
+  static async listHistoryByBabyId(babyId: number, entityType: RevisionEntityType, entityId: number) {
+    const revisions = await prisma.recordRevision.findMany({
+      where: { babyId, entityType, entityId },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+
+    if (revisions.length === 0) {
+      throw AppError.notFound('Histórico não encontrado');
+    }
+
+    const users = await this.getUserNames(revisions.map(r => r.userId));
+    return revisions.map(revision => ({
+      ...revision,
+      user: revision.userId ? users.get(revision.userId) || null : null,
+    }));
+  }
+
+  /**
+   * Lixeira: registros excluídos nos últimos 30 dias que ainda não foram restaurados
+   */
+  static async listTrashByBabyId(babyId: number, entityTypes?: RevisionEntityType[]) {
+    const since = new Date(Date.now() - TRASH_RETENTION_DAYS * DAY_MS);
+
+    const deletions = await prisma.recordRevision.findMany({
+      where: {
+        babyId,
+        action: 'DELETE',
+        createdAt: { gte: since },
+        ...(entityTypes && { entityType: { in: entityTypes } }),
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    });
+
+    // Mesmo registro excluído, restaurado e excluído de novo: vale a exclusão mais recente
+    const latest = new Map<string, typeof deletions[number]>();
+    for (const deletion of deletions) {
+      const key = `${deletion.entityType}:${deletion.entityId}`;
+      if (!latest.has(key)) latest.set(key, deletion);
+    }
+
+    const candidates = [...latest.values()];
+    const existing = await this.findExistingIds(candidates);
+    const trashed = candidates.filter(d => !existing.has(`${d.entityType}:${d.entityId}`));
+
+    const users = await this.getUserNames(trashed.map(r => r.userId));
+
+    return trashed.map(deletion => ({
+      revisionId: deletion.id,
+      entityType: deletion.entityType,
+      entityLabel: ENTITY_LABELS[deletion.entityType],
+      entityId: deletion.entityId,
+      record: deletion.before,
+      deletedAt: deletion.createdAt,
+      deletedBy: deletion.userId ? users.get(deletion.userId) || null : null,
+      source: deletion.source,
+      restorableUntil: new Date(deletion.createdAt.getTime() + TRASH_RETENTION_DAYS * DAY_MS),
+    }));
+  }
+
+  // ==========================================
+  // Restauração
+  // ==========================================
+
+  /**
+   * Exclusão registrada na lixeira do bebê (o controller usa o entityType para checar a permissão)
+   */
+  static async findDeletion(babyId: number, revisionId: number) {
+    const revision = await prisma.recordRevision.findFirst({
+      where: { id: revisionId, babyId },
+    });
+
+    if (!revision || revision.action !== 'DELETE' || !revision.before) {
+      throw AppError.notFound('Registro não encontrado na lixeira');
+    }
+
+    return revision;
+  }
+
+  /**
+   * Restaura um registro da lixeira com o mesmo id (sem checagem de acesso — feita no controller)
+   */
+  static async restore(babyId: number, revisionId: number, context: ResolvedRevisionContext) {
+    const revision = await this.findDeletion(babyId, revisionId);
+
+    if (revision.createdAt.getTime() < Date.now() - TRASH_RETENTION_DAYS * DAY_MS) {
+      throw AppError.unprocessable(`Registros só podem ser restaurados até ${TRASH_RETENTION_DAYS} dias após a exclusão`);
+    }
+
+    const existing = await this.findExistingIds([revision]);
+    if (existing.has(`${revision.entityType}:${revision.entityId}`)) {
+      throw AppError.conflict('Este registro já foi restaurado', 'ALREADY_RESTORED');
+    }
+
+    const data = this.fromSnapshot(revision.entityType, revision.before as RevisionSnapshot);
+    await this.assertRestorable(revision.entityType, babyId, data);
+
+    const result = await prisma.$transaction(async (tx) => {
+      const restored = await this.recreate(tx, revision.entityType, data);
+
+      await this.record(tx, {
+        babyId,
+        entityType: revision.entityType,
+        entityId: revision.entityId,
+        action: 'RESTORE',
+        after: restored,
+        context,
+      });
+
+      return { entityType: revision.entityType, record: restored };
+    });
+
+    // Para os outros membros, restaurar é o registro voltando a existir
+    RealtimeService.publish(babyId, STREAM_CREATED_EVENTS[revision.entityType], {
+      entityId: revision.entityId,
+      actorUserId: context.userId,
+      data: result.record,
+    });
+
+    return result;
+  }
+
+  // ==========================================
+  // Helpers
+  // ==========================================
+
+  private static buildRevisionData(input: RecordRevisionInput): Prisma.RecordRevisionCreateManyInput | null {
+    const before = input.before ? this.snapshot(input.entityType, input.before) : null;
+    const after = input.after ? this.snapshot(input.entityType, input.after) : null;
+    const changes = before && after ? this.diff(before, after) : null;
+
+    // Edição sem nenhuma mudança real não gera revisão
+    if (input.action === 'UPDATE' && changes && Object.keys(changes).length === 0) {
+      return null;
+    }
+
+    return {
+      babyId: input.babyId,
+      entityType: input.entityType,
+      entityId: input.entityId,
+      action: input.action,
+      source: input.context.source,
+      userId: input.context.userId,
+      before: (before ?? Prisma.DbNull) as Prisma.InputJsonValue,
+      after: (after ?? Prisma.DbNull) as Prisma.InputJsonValue,
+      changes: (changes ?? Prisma.DbNull) as Prisma.InputJsonValue,
+    };
+  }
+
+  private static snapshot(entityType: RevisionEntityType, record: object): RevisionSnapshot {
+    const source = record as Record<string, unknown>;
+    const snapshot: RevisionSnapshot = {};
+
+    for (const field of SNAPSHOT_FIELDS[entityType]) {
+      if (!(field in source)) continue;
+      const value = source[field];
+      if (value instanceof Date) {
+        snapshot[field] = value.toISOString();
+      } else if (value instanceof Decimal) {
+        snapshot[field] = value.toNumber();
+      } else {
+        snapshot[field] = value ?? null;
+      }
+    }
+
+    return snapshot;
+  }
+
+  private static diff(before: RevisionSnapshot, after: RevisionSnapshot): RevisionChanges {
+    const changes: RevisionChanges = {};
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+    for (const field of fields) {
+      if (DIFF_IGNORED_FIELDS.includes(field)) continue;
+      const from = before[field] ?? null;
+      const to = after[field] ?? null;
+      if (JSON.stringify(from) !== JSON.stringify(to)) {
+        changes[field] = { from, to };
+      }
+    }
+
+    return changes;
+  }
+
+  private static fromSnapshot(entityType: RevisionEntityType, snapshot: RevisionSnapshot): RevisionSnapshot {
+    const data: RevisionSnapshot = { ...snapshot };
+    for (const field of DATE_FIELDS[entityType]) {
+      if (typeof data[field] === 'string') {
+        data[field] = new Date(data[field] as string);
+      }
+    }
+    // Colunas JSON nulas precisam do marcador explícito do Prisma
+    if (entityType === 'ROUTINE_LOG' && data.meta === null) {
+      data.meta = Prisma.DbNull;
+    }
+    return data;
+  }
+
+  private static async assertRestorable(entityType: RevisionEntityType, babyId: number, data: RevisionSnapshot) {
+    if (entityType === 'MILESTONE') {
+      const duplicate = await prisma.milestone.findFirst({
+        where: { babyId, milestoneKey: data.milestoneKey as string },
+      });
+      if (duplicate) {
+        throw AppError.conflict('Este marco já foi registrado novamente para este bebê', 'MILESTONE_ALREADY_EXISTS');
+      }
+    }
+
+    if (entityType === 'ROUTINE_LOG') {
+      if (data.customTypeId) {
+        const customType = await prisma.customRoutineType.findFirst({
+          where: { id: data.customTypeId as number, babyId },
+        });
+        if (!customType) {
+          throw AppError.unprocessable('O tipo de rotina personalizado deste registro não existe mais');
+        }
+      }
+      if (data.clientId) {
+        const duplicate = await prisma.routineLog.findUnique({
+          where: { babyId_clientId: { babyId, clientId: data.clientId as string } },
+        });
+        if (duplicate) {
+          throw AppError.conflict('Já existe um registro com o mesmo identificador do aplicativo', 'CLIENT_ID_CONFLICT');
+        }
+      }
+    }
+  }
+
+  private static async recreate(tx: Prisma.TransactionClient, entityType: RevisionEntityType, data: RevisionSnapshot) {
+    switch (entityType) {
+      case 'ROUTINE_LOG': {
+        // updatedAt novo para que os apps offline recebam o registro no próximo pull
+        const routine = await tx.routineLog.create({
+          data: { ...data, updatedAt: new Date() } as Prisma.RoutineLogUncheckedCreateInput,
+        });
+        await tx.routineLogTombstone.deleteMany({
+          where: { babyId: routine.babyId, routineLogId: routine.id },
+        });
+        return routine;
+      }
+      case 'GROWTH':
+        return tx.growth.create({ data: data as Prisma.GrowthUncheckedCreateInput });
+      case 'MILESTONE':
+        return tx.milestone.create({ data: data as Prisma.MilestoneUncheckedCreateInput });
+    }
+  }
+
+  private static async findExistingIds(revisions: { entityType: RevisionEntityType; entityId: number }[]) {
+    const idsOf = (type: RevisionEntityType) =>
+      revisions.filter(r => r.entityType === type).map(r => r.entityId);
+
+    const [routines, growths, milestones] = await Promise.all([
+      prisma.routineLog.findMany({ where: { id: { in: idsOf('ROUTINE_LOG') } }, select: { id: true } }),
+      prisma.growth.findMany({ where: { id: { in: idsOf('GROWTH') } }, select: { id: true } }),
+      prisma.milestone.findMany({ where: { id: { in: idsOf('MILESTONE') } }, select: { id: true } }),
+    ]);
+
+    return new Set([
+      ...routines.map(r => `ROUTINE_LOG:${r.id}`),
+      ...growths.map(g => `GROWTH:${g.id}`),
+      ...milestones.map(m => `MILESTONE:${m.id}`),
+    ]);
+  }
+
+  private static async getUserNames(userIds: (number | null)[]) {
+    const ids = [...new Set(userIds.filter((id): id is number => id !== null))];
+    const users = ids.length > 0
+      ? await prisma.user.findMany({
+        where: { id: { in: ids } },
+        select: {
+          id: true,
+          email: true,
+          caregiver: { select: { fullName: true } },
+          professional: { select: { fullName: true } },
+        },
+      })
+      : [];
+
+    return new Map(users.map(user => [
+      user.id,
+      {
+        id: user.id,
+        name: user.caregiver?.fullName || user.professional?.fullName || user.email,
+      },
+    ]));
+  }
+}
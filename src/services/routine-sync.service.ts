@@ -0,0 +1,373 @@
+// Olive Baby API - Routine Sync Service
+// Sincronização offline: lote de alterações feitas sem sinal (push) e pull incremental
+import { RoutineLog, RoutineType } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { AppError } from '../utils/errors/AppError';
+import { RoutineMeta, RolePermissions } from '../types';
+import { RoutineService, TIMED_ROUTINES } from './routine.service';
+import {
+  hasBabyAccessByCaregiverId,
+  getBabyIdsByCaregiverId,
+} from '../utils/helpers/baby-permission.helper';
+
+export type SyncOperationType = 'create' | 'update' | 'delete';
+
+export interface SyncRoutineData {
+  routineType?: RoutineType;
+  customTypeId?: number;
+  startTime?: Date;
+  endTime?: Date | null;
+  notes?: string;
+  meta?: RoutineMeta;
+}
+
+export interface SyncOperation {
+  op: SyncOperationType;
+  babyId: number;
+  clientId?: string;
+  id?: number;
+  updatedAt: Date;             // quando a alteração foi feita no aparelho
+  baseUpdatedAt?: Date;        // updatedAt do servidor que o app conhecia
+  data?: SyncRoutineData;
+}
+
+export type SyncOperationStatus = 'applied' | 'duplicate' | 'conflict' | 'error';
+
+export interface SyncOperationResult {
+  op: SyncOperationType;
+  clientId: string | null;
+  id: number | null;
+  status: SyncOperationStatus;
+  code?: string;
+  message?: string;
+  routine?: RoutineLog | null;   // estado final no servidor
+}
+
+interface SyncPullOptions {
+  cursor?: string;
+  babyId?: number;
+  limit: number;
+}
+
+interface SyncCursor {
+  updatedAt: Date;
+  id: number;
+}
+
+export class RoutineSyncService {
+  /**
+   * Aplica um lote de operações na ordem em que aconteceram no aparelho.
+   * Cada operação é independente: uma falha não impede as demais.
+   */
+  static async push(
+    caregiverId: number,
+    userId: number,
+    permissions: RolePermissions,
+    operations: SyncOperation[]
+  ): Promise<{ results: SyncOperationResult[]; serverTime: Date }> {
+    const accessCache = new Map<number, boolean>();
+    const results: SyncOperationResult[] = [];
+
+    const ordered = [...operations].sort((a, b) => a.updatedAt.getTime() - b.updatedAt.getTime());
+
+    for (const operation of ordered) {
+      const base: SyncOperationResult = {
+        op: operation.op,
+        clientId: operation.clientId ?? null,
+        id: operation.id ?? null,
+        status: 'error',
+      };
+
+      try {
+        if (!accessCache.has(operation.babyId)) {
+          accessCache.set(operation.babyId, await hasBabyAccessByCaregiverId(caregiverId, operation.babyId, 'routines:write'));
+        }
+        if (!accessCache.get(operation.babyId)) {
+          results.push({ ...base, code: 'FORBIDDEN', message: 'Você não tem acesso a este bebê' });
+          continue;
+        }
+
+        const permissionError = this.checkPermission(operation.op, permissions);
+        if (permissionError) {
+          results.push({ ...base, code: 'FORBIDDEN', message: permissionError });
+          continue;
+        }
+
+        switch (operation.op) {
+          case 'create':
+            results.push(await this.applyCreate(caregiverId, userId, operation, base));
+            break;
+          case 'update':
+            results.push(await this.applyUpdate(caregiverId, userId, operation, base));
+            break;
+          case 'delete':
+            results.push(await this.applyDelete(caregiverId, userId, operation, base));
+            break;
+        }
+      } catch (error) {
+        if (error instanceof AppError) {
+          results.push({ ...base, code: error.code || this.codeForStatus(error.statusCode), message: error.message });
+        } else {
+          logger.error('[Sync] Falha ao aplicar operação', { operation, error });
+          results.push({ ...base, code: 'INTERNAL_ERROR', message: 'Erro ao aplicar operação' });
+        }
+      }
+    }
+
+    return { results, serverTime: new Date() };
+  }
+
+  /**
+   * Tudo que mudou desde o cursor (criações/edições e exclusões) nos bebês do cuidador
+   */
+  static async pull(caregiverId: number, options: SyncPullOptions) {
+    let babyIds = await getBabyIdsByCaregiverId(caregiverId, 'routines:read');
+    if (options.babyId !== undefined) {
+      if (!babyIds.includes(options.babyId)) {
+        throw AppError.forbidden('Você não tem acesso a este bebê');
+      }
+      babyIds = [options.babyId];
+    }
+
+    const cursor = options.cursor ? this.decodeCursor(options.cursor) : null;
+    const serverTime = new Date();
+
+    const changes = await prisma.routineLog.findMany({
+      where: {
+        babyId: { in: babyIds },
+        updatedAt: { lte: serverTime },
+        ...(cursor && {
+          OR: [
+            { updatedAt: { gt: cursor.updatedAt } },
+            { updatedAt: cursor.updatedAt, id: { gt: cursor.id } },
+          ],
+        }),
+      },
+      orderBy: [{ updatedAt: 'asc' }, { id: 'asc' }],
+      take: options.limit + 1,
+    });
+
+    const hasMore = changes.length > options.limit;
+    const page = hasMore ? changes.slice(0, options.limit) : changes;
+    const last = page[page.length - 1];
+
+    // Exclusões no mesmo intervalo de tempo coberto por esta página
+    const upperBound = hasMore && last ? last.updatedAt! : serverTime;
+    const deletions = await prisma.routineLogTombstone.findMany({
+      where: {
+        babyId: { in: babyIds },
+        deletedAt: {
+          ...(cursor && { gt: cursor.updatedAt }),
+          lte: upperBound,
+        },
+      },
+      select: { routineLogId: true, clientId: true, babyId: true, deletedAt: true },
+      orderBy: { deletedAt: 'asc' },
+    });
+
+    const nextCursor = this.encodeCursor(
+      hasMore && last
+        ? { updatedAt: last.updatedAt!, id: last.id }
+        : { updatedAt: serverTime, id: 0 }
+    );
+
+    return {
+      changes: page,
+      deletions: deletions.map(d => ({
+        id: d.routineLogId,
+        clientId: d.clientId,
+        babyId: d.babyId,
+        deletedAt: d.deletedAt,
+      })),
+      cursor: nextCursor,
+      hasMore,
+      serverTime,
+    };
+  }
+
+  // ==========================================
+  // Operações
+  // ==========================================
+
+  private static async applyCreate(
+    caregiverId: number,
+    userId: number,
+    operation: SyncOperation,
+    base: SyncOperationResult
+  ): Promise<SyncOperationResult> {
+    const data = operation.data!;
+
+    // Idempotência: o mesmo clientId reenviado devolve o registro já criado
+    const existing = await prisma.routineLog.findUnique({
+      where: { babyId_clientId: { babyId: operation.babyId, clientId: operation.clientId! } },
+    });
+    if (existing) {
+      return { ...base, id: existing.id, status: 'duplicate', routine: existing };
+    }
+
+    // Dois aparelhos iniciando o mesmo timer offline
+    if (!data.endTime && (TIMED_ROUTINES.includes(data.routineType!) || data.routineType === 'CUSTOM')) {
+      const open = await RoutineService.hasOpenRoutine(operation.babyId, data.routineType!, data.customTypeId);
+      if (open) {
+        return {
+          ...base,
+          status: 'conflict',
+          code: `${data.routineType}_ALREADY_OPEN`,
+          message: 'Já existe um registro deste tipo em aberto',
+          routine: open,
+        };
+      }
+    }
+
+    const routine = await RoutineService.create(caregiverId, {
+      babyId: operation.babyId,
+      routineType: data.routineType!,
+      customTypeId: data.customTypeId,
+      startTime: data.startTime!,
+      endTime: data.endTime ?? undefined,
+      notes: data.notes,
+      meta: data.meta,
+      clientId: operation.clientId,
+    }, { userId, source: 'SYNC' });
+
+    return { ...base, id: routine.id, status: 'applied', routine };
+  }
+
+  private static async applyUpdate(
+    caregiverId: number,
+    userId: number,
+    operation: SyncOperation,
+    base: SyncOperationResult
+  ): Promise<SyncOperationResult> {
+    const data = operation.data || {};
+    const existing = await this.findTarget(operation);
+
+    if (!existing) {
+      const deleted = await this.findTombstone(operation);
+      return deleted
+        ? { ...base, status: 'conflict', code: 'DELETED_ON_SERVER', message: 'Registro removido por outro cuidador', routine: null }
+        : { ...base, code: 'NOT_FOUND', message: 'Registro não encontrado' };
+    }
+
+    const serverUpdatedAt = existing.updatedAt || existing.createdAt;
+    const changedSinceSeen = operation.baseUpdatedAt
+      ? serverUpdatedAt > operation.baseUpdatedAt
+      : serverUpdatedAt > operation.updatedAt;
+
+    // Ex.: dois cuidadores finalizando o mesmo sono em aberto
+    if (data.endTime && existing.endTime && changedSinceSeen) {
+      return {
+        ...base,
+        id: existing.id,
+        status: 'conflict',
+        code: 'ALREADY_CLOSED',
+        message: 'Registro já foi finalizado em outro aparelho',
+        routine: existing,
+      };
+    }
+
+    // Última escrita vence: alteração do servidor mais recente que a do aparelho
+    if (serverUpdatedAt > operation.updatedAt) {
+      return {
+        ...base,
+        id: existing.id,
+        status: 'conflict',
+        code: 'SERVER_NEWER',
+        message: 'O registro foi alterado depois desta edição',
+        routine: existing,
+      };
+    }
+
+    const routine = await RoutineService.update(existing.id, caregiverId, {
+      startTime: data.startTime,
+      endTime: data.endTime ?? undefined,
+      notes: data.notes,
+      meta: data.meta,
+    }, { userId, source: 'SYNC' });
+
+    return { ...base, id: routine.id, clientId: routine.clientId, status: 'applied', routine };
+  }
+
+  private static async applyDelete(
+    caregiverId: number,
+    userId: number,
+    operation: SyncOperation,
+    base: SyncOperationResult
+  ): Promise<SyncOperationResult> {
+    const existing = await this.findTarget(operation);
+
+    // Já removido (reenvio ou exclusão em outro aparelho): nada a fazer
+    if (!existing) {
+      return { ...base, status: 'duplicate', routine: null };
+    }
+
+    const serverUpdatedAt = existing.updatedAt || existing.createdAt;
+    if (serverUpdatedAt > operation.updatedAt) {
+      return {
+        ...base,
+        id: existing.id,
+        status: 'conflict',
+        code: 'SERVER_NEWER',
+        message: 'O registro foi alterado depois da exclusão',
+        routine: existing,
+      };
+    }
+
+    await RoutineService.delete(existing.id, caregiverId, { userId, source: 'SYNC' });
+    return { ...base, id: existing.id, clientId: existing.clientId, status: 'applied', routine: null };
+  }
+
+  // ==========================================
+  // Helpers
+  // ==========================================
+
+  private static checkPermission(op: SyncOperationType, permissions: RolePermissions): string | null {
+    const required: Record<SyncOperationType, keyof RolePermissions> = {
+      create: 'canRegisterRoutines',
+      update: 'canEditRoutines',
+      delete: 'canDeleteRoutines',
+    };
+    return permissions[required[op]] ? null : `Permissão '${required[op]}' negada`;
+  }
+
+  private static codeForStatus(statusCode: number): string {
+    if (statusCode === 404) return 'NOT_FOUND';
+    if (statusCode === 403) return 'FORBIDDEN';
+    if (statusCode === 400 || statusCode === 422) return 'VALIDATION_ERROR';
+    return 'ERROR';
+  }
+
+  private static async findTarget(operation: SyncOperation) {
+    if (operation.id !== undefined) {
+      return prisma.routineLog.findFirst({ where: { id: operation.id, babyId: operation.babyId } });
+    }
+    return prisma.routineLog.findUnique({
+      where: { babyId_clientId: { babyId: operation.babyId, clientId: operation.clientId! } },
+    });
+  }
+
+  private static async findTombstone(operation: SyncOperation) {
+    return prisma.routineLogTombstone.findFirst({
+      where: {
+        babyId: operation.babyId,
+        ...(operation.id !== undefined
+          ? { routineLogId: operation.id }
+          : { clientId: operation.clientId }),
+      },
+    });
+  }
+
+  private static encodeCursor(cursor: SyncCursor): string {
+    return Buffer.from(`${cursor.updatedAt.toISOString()}|${cursor.id}`).toString('base64url');
+  }
+
+  private static decodeCursor(value: string): SyncCursor {
+    const [timestamp, id] = Buffer.from(value, 'base64url').toString('utf8').split('|');
+    const updatedAt = new Date(timestamp);
+    if (isNaN(updatedAt.getTime()) || isNaN(Number(id))) {
+      throw AppError.badRequest('Cursor de sincronização inválido');
+    }
+    return { updatedAt, id: Number(id) };
+  }
+}
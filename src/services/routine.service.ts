@@ -1,14 +1,19 @@
 // Olive Baby API - Routine Service
 import { prisma } from '../config/database';
 import { AppError } from '../utils/errors/AppError';
-import { RoutineType } from '@prisma/client';
-import { RoutineMeta } from '../types';
+import { Prisma, RoutineLog, RoutineType } from '@prisma/client';
+import { BabyPermission, RoutineMeta, CustomMetaFieldDefinition } from '../types';
 import { calculateDurationSeconds } from '../utils/helpers/date.helper';
 import { 
   normalizeAndSanitizeMeta, 
   mergeRoutineMeta,
-  sanitizeRoutineMeta 
+  sanitizeRoutineMeta,
+  validateRoutineMeta
 } from '../utils/routineMeta.utils';
+import { CustomRoutineTypeService } from './custom-routine-type.service';
+import { RevisionService, RevisionContext } from './revision.service';
+import { JourneyService } from './journey.service';
+import { RealtimeService } from './realtime.service';
 import {
   requireBabyAccessByCaregiverId,
   hasBabyAccessByCaregiverId,
@@ -22,6 +27,8 @@ interface CreateRoutineInput {
   endTime?: Date;
   notes?: string;
   meta?: RoutineMeta;
+  customTypeId?: number;
+  clientId?: string;
 }
 
 interface UpdateRoutineInput {
@@ -34,20 +41,31 @@ interface UpdateRoutineInput {
 interface ListRoutinesFilter {
   babyId?: number;
   routineType?: RoutineType;
+  customTypeId?: number;
   startDate?: Date;
   endDate?: Date;
 }
 
 // Rotinas que têm início e fim (timer)
-const TIMED_ROUTINES: RoutineType[] = ['FEEDING', 'SLEEP', 'BATH', 'MILK_EXTRACTION'];
+export const TIMED_ROUTINES: RoutineType[] = ['FEEDING', 'SLEEP', 'BATH', 'MILK_EXTRACTION'];
+
+// Dados do tipo personalizado incluídos nas listagens
+const CUSTOM_TYPE_SELECT = {
+  id: true,
+  key: true,
+  name: true,
+  icon: true,
+  isTimed: true,
+  metaFields: true,
+} as const;
 
 export class RoutineService {
   // ==========================================
   // CRUD Básico
   // ==========================================
 
-  static async create(caregiverId: number, input: CreateRoutineInput) {
-    await requireBabyAccessByCaregiverId(caregiverId, input.babyId);
+  static async create(caregiverId: number, input: CreateRoutineInput, context: RevisionContext = {}) {
+    await requireBabyAccessByCaregiverId(caregiverId, input.babyId, 'routines:write');
 
     // Calcular duração se tiver endTime
     let durationSeconds: number | null = null;
@@ -56,27 +74,29 @@ export class RoutineService {
     }
 
     // Sanitizar meta baseado no routineType
-    const sanitizedMeta = normalizeAndSanitizeMeta(
+    const { sanitizedMeta, customTypeId } = await this.prepareMeta(
+      input.babyId,
       input.routineType,
-      input.meta as Record<string, unknown>
+      input.meta as Record<string, unknown>,
+      input.customTypeId
     );
 
-    const routine = await prisma.routineLog.create({
-      data: {
-        babyId: input.babyId,
-        routineType: input.routineType,
-        startTime: input.startTime,
-        endTime: input.endTime,
-        durationSeconds,
-        notes: input.notes,
-        meta: sanitizedMeta as object,
-      },
-    });
+    const data = {
+      babyId: input.babyId,
+      routineType: input.routineType,
+      customTypeId,
+      startTime: input.startTime,
+      endTime: input.endTime,
+      durationSeconds,
+      notes: input.notes,
+      meta: sanitizedMeta as object,
+      clientId: input.clientId,
+    };
 
-    return routine;
+    return this.createWithRevision(caregiverId, data, context);
   }
 
-  static async getById(id: number, caregiverId: number) {
+  static async getById(id: number, caregiverId: number, permission: BabyPermission = 'routines:read') {
     const routine = await prisma.routineLog.findUnique({
       where: { id },
       include: {
@@ -92,7 +112,7 @@ export class RoutineService {
       throw AppError.notFound('Registro não encontrado');
     }
 
-    const hasAccess = await hasBabyAccessByCaregiverId(caregiverId, routine.babyId);
+    const hasAccess = await hasBabyAccessByCaregiverId(caregiverId, routine.babyId, permission);
     if (!hasAccess) {
       throw AppError.forbidden('Você não tem acesso a este registro');
     }
@@ -101,12 +121,15 @@ export class RoutineService {
   }
 
   static async list(caregiverId: number, filter: ListRoutinesFilter, page = 1, limit = 50) {
-    const allowedBabyIds = await getBabyIdsByCaregiverId(caregiverId);
+    const allowedBabyIds = await getBabyIdsByCaregiverId(caregiverId, 'routines:read');
     const where: any = {
       babyId: { in: allowedBabyIds },
     };
 
     if (filter.babyId) {
+      if (!allowedBabyIds.includes(filter.babyId)) {
+        throw AppError.forbidden('Você não tem acesso a este bebê');
+      }
       where.babyId = filter.babyId;
     }
 
@@ -114,6 +137,10 @@ export class RoutineService {
       where.routineType = filter.routineType;
     }
 
+    if (filter.customTypeId) {
+      where.customTypeId = filter.customTypeId;
+    }
+
     if (filter.startDate || filter.endDate) {
       where.startTime = {};
       if (filter.startDate) {
@@ -134,6 +161,9 @@ export class RoutineService {
               name: true,
             },
           },
+          customType: {
+            select: CUSTOM_TYPE_SELECT,
+          },
         },
         orderBy: { startTime: 'desc' },
         skip: (page - 1) * limit,
@@ -169,6 +199,10 @@ export class RoutineService {
       where.routineType = filter.routineType;
     }
 
+    if (filter.customTypeId) {
+      where.customTypeId = filter.customTypeId;
+    }
+
     if (filter.startDate || filter.endDate) {
       where.startTime = {};
       if (filter.startDate) {
@@ -189,6 +223,9 @@ export class RoutineService {
               name: true,
             },
           },
+          customType: {
+            select: CUSTOM_TYPE_SELECT,
+          },
         },
         orderBy: { startTime: 'desc' },
         skip: (page - 1) * limit,
@@ -208,9 +245,9 @@ export class RoutineService {
     };
   }
 
-  static async update(id: number, caregiverId: number, input: UpdateRoutineInput) {
+  static async update(id: number, caregiverId: number, input: UpdateRoutineInput, context: RevisionContext = {}) {
     // Verificar acesso e obter rotina existente
-    const existingRoutine = await this.getById(id, caregiverId);
+    const existingRoutine = await this.getById(id, caregiverId, 'routines:write');
 
     // Determinar startTime e endTime finais
     const finalStartTime = input.startTime || existingRoutine.startTime;
@@ -228,11 +265,22 @@ export class RoutineService {
     let sanitizedMeta: Record<string, unknown> | undefined;
     if (input.meta !== undefined) {
       // Fazer merge do meta existente com o novo e sanitizar
+      const customFields = existingRoutine.routineType === 'CUSTOM'
+        ? CustomRoutineTypeService.getMetaFields(
+          await CustomRoutineTypeService.getByBabyId(existingRoutine.babyId, existingRoutine.customTypeId!)
+        )
+        : undefined;
+
       sanitizedMeta = mergeRoutineMeta(
         existingRoutine.routineType,
         existingRoutine.meta as Record<string, unknown> | null,
-        input.meta as Record<string, unknown>
+        input.meta as Record<string, unknown>,
+        customFields
       );
+
+      if (customFields) {
+        this.assertValidMeta(existingRoutine.routineType, sanitizedMeta, customFields);
+      }
     }
 
     // Preparar dados para atualização
@@ -260,30 +308,53 @@ export class RoutineService {
       updateData.meta = sanitizedMeta;
     }
 
-    const routine = await prisma.routineLog.update({
-      where: { id },
-      data: updateData,
-    });
-
-    return routine;
+    return this.updateWithRevision(caregiverId, existingRoutine, updateData, context);
   }
 
-  static async delete(id: number, caregiverId: number) {
+  static async delete(id: number, caregiverId: number, context: RevisionContext = {}) {
     // Verificar acesso
-    await this.getById(id, caregiverId);
+    const routine = await this.getById(id, caregiverId, 'routines:write');
+    const revisionContext = await RevisionService.resolveContext(caregiverId, context);
+
+    // Tombstone para que os apps offline removam o registro no próximo pull;
+    // o snapshot da revisão mantém o registro na lixeira por 30 dias
+    await prisma.$transaction(async (tx) => {
+      await tx.routineLog.delete({ where: { id } });
+      await tx.routineLogTombstone.create({
+        data: {
+          babyId: routine.babyId,
+          routineLogId: id,
+          clientId: routine.clientId,
+          deletedByUserId: revisionContext.userId,
+        },
+      });
+      await RevisionService.record(tx, {
+        babyId: routine.babyId,
+        entityType: 'ROUTINE_LOG',
+        entityId: id,
+        action: 'DELETE',
+        before: routine,
+        context: revisionContext,
+      });
+    });
 
-    await prisma.routineLog.delete({ where: { id } });
+    RealtimeService.publish(routine.babyId, 'routine.deleted', {
+      entityId: id,
+      actorUserId: revisionContext.userId,
+      data: routine,
+    });
   }
 
   // ==========================================
   // Rotinas com Timer (Início/Fim)
   // ==========================================
 
-  static async hasOpenRoutine(babyId: number, routineType: RoutineType) {
+  static async hasOpenRoutine(babyId: number, routineType: RoutineType, customTypeId?: number) {
     const openRoutine = await prisma.routineLog.findFirst({
       where: {
         babyId,
         routineType,
+        ...(routineType === 'CUSTOM' ? { customTypeId } : {}),
         endTime: null,
       },
     });
@@ -296,40 +367,49 @@ export class RoutineService {
     babyId: number,
     routineType: RoutineType,
     meta?: RoutineMeta,
-    notes?: string
+    notes?: string,
+    customTypeId?: number,
+    context: RevisionContext = {}
   ) {
-    await requireBabyAccessByCaregiverId(caregiverId, babyId);
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'routines:write');
+
+    // Tipos personalizados definem se têm timer
+    const customType = routineType === 'CUSTOM'
+      ? await CustomRoutineTypeService.getActiveForRoutine(babyId, customTypeId)
+      : null;
+    const label = customType ? customType.name : routineType;
 
     // Verificar se é rotina com timer
-    if (!TIMED_ROUTINES.includes(routineType)) {
-      throw AppError.badRequest(`${routineType} não é uma rotina com timer`);
+    if (customType ? !customType.isTimed : !TIMED_ROUTINES.includes(routineType)) {
+      throw AppError.badRequest(`${label} não é uma rotina com timer`);
     }
 
     // Verificar se já existe rotina em aberto
-    const openRoutine = await this.hasOpenRoutine(babyId, routineType);
+    const openRoutine = await this.hasOpenRoutine(babyId, routineType, customType?.id);
     if (openRoutine) {
       // Retorna código específico e a rotina aberta para o frontend
       throw AppError.conflict(
-        `Já existe um registro de ${routineType} em aberto`,
+        `Já existe um registro de ${label} em aberto`,
         `${routineType}_ALREADY_OPEN`,
         { openRoutine }
       );
     }
 
     // Sanitizar meta baseado no routineType
-    const sanitizedMeta = sanitizeRoutineMeta(routineType, meta as Record<string, unknown>);
-
-    const routine = await prisma.routineLog.create({
-      data: {
-        babyId,
-        routineType,
-        startTime: new Date(),
-        meta: sanitizedMeta as object,
-        notes,
-      },
-    });
+    const sanitizedMeta = sanitizeRoutineMeta(
+      routineType,
+      meta as Record<string, unknown>,
+      CustomRoutineTypeService.getMetaFields(customType)
+    );
 
-    return routine;
+    return this.createWithRevision(caregiverId, {
+      babyId,
+      routineType,
+      customTypeId: customType?.id,
+      startTime: new Date(),
+      meta: sanitizedMeta as object,
+      notes,
+    }, context);
   }
 
   static async closeRoutine(
@@ -337,43 +417,56 @@ export class RoutineService {
     babyId: number,
     routineType: RoutineType,
     meta?: RoutineMeta,
-    notes?: string
+    notes?: string,
+    customTypeId?: number,
+    context: RevisionContext = {}
   ) {
-    await requireBabyAccessByCaregiverId(caregiverId, babyId);
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'routines:write');
+
+    // Tipos arquivados ainda podem ter o registro em aberto finalizado
+    const customType = routineType === 'CUSTOM'
+      ? await CustomRoutineTypeService.getByBabyId(babyId, customTypeId!)
+      : null;
 
     // Buscar rotina em aberto
-    const openRoutine = await this.hasOpenRoutine(babyId, routineType);
+    const openRoutine = await this.hasOpenRoutine(babyId, routineType, customType?.id);
     if (!openRoutine) {
-      throw AppError.notFound(`Nenhum registro de ${routineType} em aberto`);
+      throw AppError.notFound(`Nenhum registro de ${customType ? customType.name : routineType} em aberto`);
     }
 
     const endTime = new Date();
     const durationSeconds = calculateDurationSeconds(openRoutine.startTime, endTime);
 
     // Merge e sanitização dos metadados
+    const customFields = customType ? CustomRoutineTypeService.getMetaFields(customType) : undefined;
     const sanitizedMeta = mergeRoutineMeta(
       routineType,
       openRoutine.meta as Record<string, unknown>,
-      meta as Record<string, unknown>
+      meta as Record<string, unknown>,
+      customFields
     );
 
-    const routine = await prisma.routineLog.update({
-      where: { id: openRoutine.id },
-      data: {
-        endTime,
-        durationSeconds,
-        meta: sanitizedMeta as object,
-        notes: notes || openRoutine.notes,
-      },
-    });
+    if (customFields) {
+      this.assertValidMeta(routineType, sanitizedMeta, customFields);
+    }
 
-    return routine;
+    return this.updateWithRevision(caregiverId, openRoutine, {
+      endTime,
+      durationSeconds,
+      meta: sanitizedMeta as object,
+      notes: notes || openRoutine.notes,
+    }, context);
   }
 
-  static async getOpenRoutine(caregiverId: number, babyId: number, routineType: RoutineType) {
-    await requireBabyAccessByCaregiverId(caregiverId, babyId);
+  static async getOpenRoutine(
+    caregiverId: number,
+    babyId: number,
+    routineType: RoutineType,
+    customTypeId?: number
+  ) {
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'routines:read');
 
-    const openRoutine = await this.hasOpenRoutine(babyId, routineType);
+    const openRoutine = await this.hasOpenRoutine(babyId, routineType, customTypeId);
     return openRoutine;
   }
 
@@ -382,7 +475,7 @@ export class RoutineService {
    * Otimização: 1 query ao invés de 4 queries paralelas
    */
   static async getAllOpenRoutines(caregiverId: number, babyId: number) {
-    await requireBabyAccessByCaregiverId(caregiverId, babyId);
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'routines:read');
 
     return this.getAllOpenRoutinesByBaby(babyId);
   }
@@ -397,7 +490,12 @@ export class RoutineService {
       where: {
         babyId,
         endTime: null, // Rotinas sem fim = abertas
-        routineType: { in: TIMED_ROUTINES }
+        routineType: { in: [...TIMED_ROUTINES, 'CUSTOM'] }
+      },
+      include: {
+        customType: {
+          select: CUSTOM_TYPE_SELECT,
+        },
       },
       orderBy: { startTime: 'desc' }
     });
@@ -408,6 +506,7 @@ export class RoutineService {
       sleep: openRoutines.find(r => r.routineType === 'SLEEP') || null,
       bath: openRoutines.find(r => r.routineType === 'BATH') || null,
       extraction: openRoutines.find(r => r.routineType === 'MILK_EXTRACTION') || null,
+      custom: openRoutines.filter(r => r.routineType === 'CUSTOM'),
     };
   }
 
@@ -420,28 +519,142 @@ export class RoutineService {
     babyId: number,
     routineType: RoutineType,
     meta?: RoutineMeta,
-    notes?: string
+    notes?: string,
+    customTypeId?: number,
+    context: RevisionContext = {}
   ) {
-    await requireBabyAccessByCaregiverId(caregiverId, babyId);
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'routines:write');
 
     // Sanitizar meta baseado no routineType
-    const sanitizedMeta = normalizeAndSanitizeMeta(
+    const prepared = await this.prepareMeta(
+      babyId,
       routineType,
-      meta as Record<string, unknown>
+      meta as Record<string, unknown>,
+      customTypeId
     );
 
-    const routine = await prisma.routineLog.create({
-      data: {
-        babyId,
-        routineType,
-        startTime: new Date(),
-        endTime: new Date(),
-        durationSeconds: 0,
-        meta: sanitizedMeta as object,
-        notes,
-      },
+    return this.createWithRevision(caregiverId, {
+      babyId,
+      routineType,
+      customTypeId: prepared.customTypeId,
+      startTime: new Date(),
+      endTime: new Date(),
+      durationSeconds: 0,
+      meta: prepared.sanitizedMeta as object,
+      notes,
+    }, context);
+  }
+
+  // ==========================================
+  // Histórico de alterações
+  // ==========================================
+
+  private static async createWithRevision(
+    caregiverId: number,
+    data: Prisma.RoutineLogUncheckedCreateInput,
+    context: RevisionContext
+  ) {
+    const revisionContext = await RevisionService.resolveContext(caregiverId, context);
+
+    const routine = await prisma.$transaction(async (tx) => {
+      const created = await tx.routineLog.create({ data });
+      await RevisionService.record(tx, {
+        babyId: created.babyId,
+        entityType: 'ROUTINE_LOG',
+        entityId: created.id,
+        action: 'CREATE',
+        after: created,
+        context: revisionContext,
+      });
+      return created;
+    });
+
+    RealtimeService.publish(routine.babyId, routine.endTime ? 'routine.created' : 'routine.started', {
+      entityId: routine.id,
+      actorUserId: revisionContext.userId,
+      data: routine,
+    });
+
+    if (revisionContext.userId) {
+      const routineCount = await prisma.routineLog.count({ where: { babyId: routine.babyId } });
+      if (routineCount === 1) {
+        await JourneyService.emitEvent(revisionContext.userId, 'first_routine_logged', {
+          babyId: routine.babyId,
+          routineType: routine.routineType,
+        });
+      }
+    }
+
+    return routine;
+  }
+
+  private static async updateWithRevision(
+    caregiverId: number,
+    existing: RoutineLog,
+    data: Prisma.RoutineLogUncheckedUpdateInput,
+    context: RevisionContext
+  ) {
+    const revisionContext = await RevisionService.resolveContext(caregiverId, context);
+
+    const routine = await prisma.$transaction(async (tx) => {
+      const updated = await tx.routineLog.update({ where: { id: existing.id }, data });
+      await RevisionService.record(tx, {
+        babyId: updated.babyId,
+        entityType: 'ROUTINE_LOG',
+        entityId: updated.id,
+        action: 'UPDATE',
+        before: existing,
+        after: updated,
+        context: revisionContext,
+      });
+      return updated;
+    });
+
+    RealtimeService.publish(routine.babyId, !existing.endTime && routine.endTime ? 'routine.closed' : 'routine.updated', {
+      entityId: routine.id,
+      actorUserId: revisionContext.userId,
+      data: routine,
     });
 
     return routine;
   }
+
+  // ==========================================
+  // Rotinas Personalizadas (CUSTOM)
+  // ==========================================
+
+  /**
+   * Sanitiza o meta e, para rotinas CUSTOM, valida contra os campos do tipo do bebê
+   */
+  private static async prepareMeta(
+    babyId: number,
+    routineType: RoutineType,
+    meta: Record<string, unknown> | undefined,
+    customTypeId?: number
+  ): Promise<{ sanitizedMeta: Record<string, unknown>; customTypeId: number | null }> {
+    if (routineType !== 'CUSTOM') {
+      return {
+        sanitizedMeta: normalizeAndSanitizeMeta(routineType, meta),
+        customTypeId: null,
+      };
+    }
+
+    const customType = await CustomRoutineTypeService.getActiveForRoutine(babyId, customTypeId);
+    const customFields = CustomRoutineTypeService.getMetaFields(customType);
+    const sanitizedMeta = normalizeAndSanitizeMeta(routineType, meta, customFields);
+    this.assertValidMeta(routineType, sanitizedMeta, customFields);
+
+    return { sanitizedMeta, customTypeId: customType.id };
+  }
+
+  private static assertValidMeta(
+    routineType: RoutineType,
+    meta: Record<string, unknown>,
+    customFields: CustomMetaFieldDefinition[]
+  ) {
+    const errors = validateRoutineMeta(routineType, meta, customFields);
+    if (errors.length > 0) {
+      throw AppError.badRequest(errors.join('; '), { meta: errors });
+    }
+  }
 }
@@ -0,0 +1,118 @@
+// OlieCare API - Scheduled Job Definitions
+// Jobs executados pelo scheduler interno (SchedulerService). O cron e o fuso
+// definidos aqui são os padrões ao criar o job no banco; depois disso o admin
+// pode alterá-los em /admin/jobs sem deploy.
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { ScheduledJobDefinition } from '../types';
+import { PushTriggerService } from './push-trigger.service';
+import { JourneyService } from './journey.service';
+import { NotificationDispatcherService } from './notification-dispatcher.service';
+
+// Histórico de execuções mantido por este período
+const JOB_RUN_RETENTION_DAYS = 30;
+// Notificações adiadas já resolvidas mantidas por este período
+const DEFERRED_NOTIFICATION_RETENTION_DAYS = 30;
+
+function pushTriggerJob(
+  triggerId: string,
+  cron: string,
+  description: string,
+  perUserTimezone = true
+): ScheduledJobDefinition {
+  return {
+    name: `push_trigger.${triggerId}`,
+    description,
+    cron,
+    perUserTimezone,
+    handler: async ({ timezones }) => {
+      const result = await PushTriggerService.runScheduled(triggerId, timezones);
+      return { ...result, timezones };
+    },
+  };
+}
+
+export const SCHEDULED_JOBS: ScheduledJobDefinition[] = [
+  // Push triggers (antes disparados via /admin/n8n/trigger-push)
+  pushTriggerJob('routine_reminder', '0 10,16 * * *', 'Lembrete de rotina às 10h e 16h no fuso do usuário'),
+  pushTriggerJob('inactivity_nudge', '0 18 * * *', 'Nudge de inatividade às 18h no fuso do usuário'),
+  pushTriggerJob('weekly_summary', '0 9 * * *', 'Resumo semanal às 9h no dia da semana configurado, no fuso do usuário'),
+  pushTriggerJob('routine_forecast', '*/5 * * * *', 'Lembretes da próxima mamada/soneca prevista', false),
+  pushTriggerJob('vaccine_reminder', '0 9 * * *', 'Lembretes de vacina e escalonamento de doses atrasadas às 9h no fuso do usuário'),
+  pushTriggerJob('prof_vaccine_digest', '0 8 * * *', 'Vacinas atrasadas dos pacientes (pediatras) às 8h no dia configurado, no fuso do usuário'),
+  pushTriggerJob('appointment_reminder', '*/15 * * * *', 'Lembretes de consulta 48h e 2h antes, com links de confirmação', false),
+  pushTriggerJob('subscription_expiring', '0 10 * * *', 'Aviso de assinatura expirando às 10h no fuso do usuário'),
+  pushTriggerJob('welcome_onboarding', '0 11 * * *', 'Lembrete de onboarding às 11h no fuso do usuário'),
+  pushTriggerJob('patient_inactivity', '0 9 * * *', 'Pacientes sem registros (profissionais) às 9h no fuso do usuário'),
+  pushTriggerJob('prof_weekly_summary', '0 8 * * *', 'Resumo semanal do profissional às 8h no dia configurado, no fuso do usuário'),
+
+  {
+    name: 'journeys.execute',
+    description: 'Avança as jornadas ativas (antes disparado via /admin/n8n/execute-journey)',
+    cron: '*/15 * * * *',
+    handler: async () => {
+      const journeys = await prisma.journey.findMany({
+        where: { status: 'ACTIVE' },
+        select: { id: true, name: true },
+        orderBy: { priority: 'desc' },
+      });
+
+      const executed: Array<Record<string, unknown>> = [];
+      const failures: string[] = [];
+      for (const journey of journeys) {
+        try {
+          const result = await JourneyService.executeJourney(journey.id);
+          executed.push({
+            journeyId: journey.id,
+            processed: result.processed,
+            advanced: result.advanced,
+            completed: result.completed,
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          logger.error('[Scheduler] Journey execution failed', { journeyId: journey.id, error: message });
+          failures.push(`${journey.name} (#${journey.id}): ${message}`);
+        }
+      }
+
+      // Retentativa é segura: a execução é por inscrição e só avança quem está vencido
+      if (failures.length > 0) {
+        throw new Error(`Falha em ${failures.length} jornada(s): ${failures.join('; ')}`);
+      }
+      return { journeys: executed.length, executed };
+    },
+  },
+
+  {
+    name: 'notifications.flush_deferred',
+    description: 'Entrega push/e-mails adiados pelo horário de silêncio dos usuários',
+    cron: '* * * * *',
+    handler: async () => {
+      const result = await NotificationDispatcherService.flushDeferred();
+      return { ...result };
+    },
+  },
+
+  {
+    name: 'notifications.cleanup_deferred',
+    description: `Remove notificações adiadas já resolvidas com mais de ${DEFERRED_NOTIFICATION_RETENTION_DAYS} dias`,
+    cron: '45 3 * * *',
+    handler: async () => {
+      const deleted = await NotificationDispatcherService.cleanupDeferred(DEFERRED_NOTIFICATION_RETENTION_DAYS);
+      return { deleted };
+    },
+  },
+
+  {
+    name: 'scheduler.cleanup_runs',
+    description: `Remove execuções de jobs com mais de ${JOB_RUN_RETENTION_DAYS} dias`,
+    cron: '30 3 * * *',
+    handler: async () => {
+      const cutoff = new Date(Date.now() - JOB_RUN_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+      const { count } = await prisma.jobRun.deleteMany({
+        where: { createdAt: { lt: cutoff }, status: { in: ['SUCCEEDED', 'FAILED'] } },
+      });
+      return { deleted: count };
+    },
+  },
+];
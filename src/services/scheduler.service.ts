@@ -0,0 +1,524 @@
+// OlieCare API - Job Scheduler
+// Scheduler interno durável: os jobs e cada execução ficam no Postgres, então
+// um restart não perde disparos e o admin consegue inspecionar e reexecutar.
+// Em várias réplicas, só quem detém o lease (scheduler_leases) agenda e executa.
+import crypto from 'crypto';
+import os from 'os';
+import { JobRun, JobRunStatus, Prisma, ScheduledJob } from '@prisma/client';
+import { prisma } from '../config/database';
+import { env } from '../config/env';
+import { logger } from '../config/logger';
+import { ScheduledJobDefinition } from '../types';
+import { AppError } from '../utils/errors/AppError';
+import { getNextCronOccurrence } from '../utils/helpers/cron.helper';
+import { DEFAULT_TIMEZONE, isValidTimezone } from '../utils/helpers/timezone.helper';
+import { SCHEDULED_JOBS } from './scheduled-jobs';
+
+const LEASE_NAME = 'scheduler';
+const LEASE_TTL_MS = 90_000;
+// RUNNING há mais tempo que isso = réplica caiu no meio da execução
+const STALE_RUN_MS = 30 * 60 * 1000;
+// Após indisponibilidade longa, só a ocorrência mais recente dentro desta janela é recuperada
+const MAX_CATCH_UP_MS = 24 * 60 * 60 * 1000;
+const MAX_RUNS_PER_TICK = 20;
+
+const WORKER_ID = `${os.hostname()}:${process.pid}:${crypto.randomBytes(3).toString('hex')}`;
+
+const definitions = new Map<string, ScheduledJobDefinition>(
+  SCHEDULED_JOBS.map(definition => [definition.name, definition])
+);
+
+let timer: NodeJS.Timeout | null = null;
+let ticking = false;
+let isLeader = false;
+let jobsSynced = false;
+
+export interface UpdateScheduledJobInput {
+  enabled?: boolean;
+  cron?: string;
+  timezone?: string;
+  perUserTimezone?: boolean;
+  maxAttempts?: number;
+  backoffSeconds?: number;
+}
+
+export interface ListJobRunsOptions {
+  page: number;
+  limit: number;
+  status?: JobRunStatus;
+}
+
+function toJson(value: unknown): Prisma.InputJsonValue {
+  return JSON.parse(JSON.stringify(value ?? {}));
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export class SchedulerService {
+  /**
+   * Registra um job além dos padrões de scheduled-jobs.ts (módulos que agendam
+   * o próprio trabalho). Deve ser chamado antes de start().
+   */
+  static register(definition: ScheduledJobDefinition): void {
+    definitions.set(definition.name, definition);
+  }
+
+  static start(): void {
+    if (timer) return;
+
+    timer = setInterval(() => {
+      void this.tick();
+    }, env.SCHEDULER_TICK_MS);
+    void this.tick();
+
+    logger.info('[Scheduler] Started', { workerId: WORKER_ID, tickMs: env.SCHEDULER_TICK_MS });
+  }
+
+  /**
+   * Para o loop e libera o lease para outra réplica assumir sem esperar o TTL
+   */
+  static async stop(): Promise<void> {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+    if (isLeader) {
+      await prisma.schedulerLease.deleteMany({ where: { name: LEASE_NAME, holderId: WORKER_ID } });
+      isLeader = false;
+    }
+  }
+
+  /**
+   * Um ciclo do scheduler: renova a liderança, agenda as execuções vencidas e
+   * executa as pendentes (inclusive retentativas). Ciclos não se sobrepõem.
+   */
+  static async tick(): Promise<void> {
+    if (ticking) return;
+    ticking = true;
+
+    try {
+      const leader = await this.acquireLease();
+      if (leader !== isLeader) {
+        logger.info(`[Scheduler] ${leader ? 'Acquired' : 'Lost'} leadership`, { workerId: WORKER_ID });
+      }
+      isLeader = leader;
+      if (!leader) return;
+
+      if (!jobsSynced) {
+        await this.syncJobs();
+        jobsSynced = true;
+      }
+
+      const now = new Date();
+      await this.recoverStaleRuns(now);
+      await this.scheduleDueRuns(now);
+      await this.executePendingRuns(now);
+    } catch (error) {
+      logger.error('[Scheduler] Tick failed', { error: errorMessage(error) });
+    } finally {
+      ticking = false;
+    }
+  }
+
+  // ==========================================
+  // Liderança
+  // ==========================================
+
+  private static async acquireLease(): Promise<boolean> {
+    const rows = await prisma.$queryRaw<Array<{ holder_id: string }>>`
+      INSERT INTO scheduler_leases (name, holder_id, expires_at, updated_at)
+      VALUES (${LEASE_NAME}, ${WORKER_ID}, NOW() + ${LEASE_TTL_MS} * INTERVAL '1 millisecond', NOW())
+      ON CONFLICT (name) DO UPDATE
+        SET holder_id = EXCLUDED.holder_id,
+            expires_at = EXCLUDED.expires_at,
+            updated_at = EXCLUDED.updated_at
+        WHERE scheduler_leases.holder_id = EXCLUDED.holder_id
+           OR scheduler_leases.expires_at < NOW()
+      RETURNING holder_id
+    `;
+    return rows.length > 0;
+  }
+
+  // ==========================================
+  // Agendamento
+  // ==========================================
+
+  /**
+   * Cria no banco os jobs definidos em código que ainda não existem.
+   * Cron/fuso/habilitado já salvos não são sobrescritos (podem ter sido editados pelo admin).
+   */
+  private static async syncJobs(): Promise<void> {
+    const now = new Date();
+    for (const definition of definitions.values()) {
+      const timezone = definition.timezone ?? DEFAULT_TIMEZONE;
+      await prisma.scheduledJob.upsert({
+        where: { name: definition.name },
+        update: { description: definition.description },
+        create: {
+          name: definition.name,
+          description: definition.description,
+          cron: definition.cron,
+          timezone,
+          perUserTimezone: definition.perUserTimezone ?? false,
+          maxAttempts: definition.maxAttempts ?? 3,
+          backoffSeconds: definition.backoffSeconds ?? 60,
+          lastScheduledAt: now,
+          nextRunAt: definition.perUserTimezone ? null : getNextCronOccurrence(definition.cron, now, timezone),
+        },
+      });
+    }
+  }
+
+  /**
+   * Fusos distintos dos usuários; quem não tem configuração usa o padrão do app
+   */
+  private static async getUserTimezones(): Promise<string[]> {
+    const rows = await prisma.userSettings.findMany({
+      distinct: ['timezone'],
+      select: { timezone: true },
+    });
+    const timezones = new Set([DEFAULT_TIMEZONE, ...rows.map(row => row.timezone)]);
+    return [...timezones].filter(isValidTimezone);
+  }
+
+  private static async scheduleDueRuns(now: Date): Promise<void> {
+    const jobs = await prisma.scheduledJob.findMany({ where: { enabled: true } });
+    let userTimezones: string[] | null = null;
+
+    for (const job of jobs) {
+      if (!definitions.has(job.name)) continue;
+
+      try {
+        const lastScheduledAt = job.lastScheduledAt ?? now;
+        const from = new Date(Math.max(lastScheduledAt.getTime(), now.getTime() - MAX_CATCH_UP_MS));
+
+        let dueAt: Date | null = null;
+        let dueTimezones: string[] = [];
+        let nextRunAt: Date | null;
+
+        if (job.perUserTimezone) {
+          userTimezones = userTimezones ?? (await this.getUserTimezones());
+          const upcoming: Date[] = [];
+          for (const timezone of userTimezones) {
+            const occurrence = getNextCronOccurrence(job.cron, from, timezone);
+            if (occurrence && occurrence <= now) {
+              dueTimezones.push(timezone);
+              if (!dueAt || occurrence > dueAt) dueAt = occurrence;
+            }
+            const next = getNextCronOccurrence(job.cron, now, timezone);
+            if (next) upcoming.push(next);
+          }
+          nextRunAt = upcoming.length > 0 ? new Date(Math.min(...upcoming.map(d => d.getTime()))) : null;
+        } else {
+          const occurrence = getNextCronOccurrence(job.cron, from, job.timezone);
+          if (occurrence && occurrence <= now) dueAt = occurrence;
+          nextRunAt = getNextCronOccurrence(job.cron, now, job.timezone);
+          dueTimezones = [];
+        }
+
+        await prisma.$transaction(async (tx) => {
+          if (dueAt) {
+            await tx.jobRun.create({
+              data: {
+                jobId: job.id,
+                trigger: 'SCHEDULE',
+                scheduledFor: dueAt,
+                payload: { timezones: dueTimezones },
+              },
+            });
+          }
+          await tx.scheduledJob.update({
+            where: { id: job.id },
+            data: { lastScheduledAt: now, nextRunAt },
+          });
+        });
+      } catch (error) {
+        logger.error('[Scheduler] Failed to schedule job', { job: job.name, error: errorMessage(error) });
+      }
+    }
+  }
+
+  // ==========================================
+  // Execução
+  // ==========================================
+
+  private static async recoverStaleRuns(now: Date): Promise<void> {
+    const staleRuns = await prisma.jobRun.findMany({
+      where: { status: 'RUNNING', startedAt: { lt: new Date(now.getTime() - STALE_RUN_MS) } },
+      include: { job: true },
+    });
+
+    for (const run of staleRuns) {
+      await this.failRun(run, run.job, 'Execução interrompida (réplica encerrada ou travada)', now);
+    }
+  }
+
+  private static async executePendingRuns(now: Date): Promise<void> {
+    const pending = await prisma.jobRun.findMany({
+      where: { status: 'PENDING', scheduledFor: { lte: now } },
+      orderBy: { scheduledFor: 'asc' },
+      take: MAX_RUNS_PER_TICK,
+      select: { id: true },
+    });
+
+    for (const { id } of pending) {
+      // Se outra réplica assumiu a liderança no meio do ciclo, paramos por aqui
+      if (!(await this.acquireLease())) {
+        isLeader = false;
+        return;
+      }
+      await this.executeRun(id);
+    }
+  }
+
+  /**
+   * Executa uma execução pendente. O claim (PENDING -> RUNNING) é atômico, então
+   * a mesma execução nunca roda duas vezes mesmo com chamadas concorrentes.
+   */
+  private static async executeRun(runId: number): Promise<JobRun | null> {
+    const startedAt = new Date();
+    const claimed = await prisma.jobRun.updateMany({
+      where: { id: runId, status: 'PENDING' },
+      data: { status: 'RUNNING', startedAt, workerId: WORKER_ID },
+    });
+    if (claimed.count === 0) return null;
+
+    const run = await prisma.jobRun.findUniqueOrThrow({ where: { id: runId }, include: { job: true } });
+    const definition = definitions.get(run.job.name);
+    if (!definition) {
+      return this.failRun(run, run.job, 'Job sem handler registrado nesta versão da API', new Date());
+    }
+
+    const payload = (run.payload as Record<string, unknown> | null) ?? {};
+    const timezones = Array.isArray(payload.timezones) ? (payload.timezones as string[]) : [];
+
+    try {
+      const result = await definition.handler({
+        runId: run.id,
+        attempt: run.attempt,
+        trigger: run.trigger,
+        scheduledFor: run.scheduledFor,
+        timezones,
+        payload,
+      });
+
+      const finishedAt = new Date();
+      const [finished] = await prisma.$transaction([
+        prisma.jobRun.update({
+          where: { id: run.id },
+          data: {
+            status: 'SUCCEEDED',
+            finishedAt,
+            durationMs: finishedAt.getTime() - startedAt.getTime(),
+            result: toJson(result),
+          },
+        }),
+        prisma.scheduledJob.update({
+          where: { id: run.jobId },
+          data: { lastRunAt: finishedAt, lastStatus: 'SUCCEEDED' },
+        }),
+      ]);
+
+      logger.info(`[Scheduler] ${run.job.name} succeeded`, {
+        runId: run.id,
+        attempt: run.attempt,
+        durationMs: finished.durationMs,
+      });
+      return finished;
+    } catch (error) {
+      return this.failRun(run, run.job, errorMessage(error), new Date());
+    }
+  }
+
+  /**
+   * Marca a execução como falha e agenda a retentativa com backoff exponencial
+   * (backoffSeconds, 2x, 4x...) enquanto houver tentativas.
+   */
+  private static async failRun(run: JobRun, job: ScheduledJob, error: string, finishedAt: Date): Promise<JobRun> {
+    const canRetry = run.attempt < job.maxAttempts;
+    const retryAt = new Date(finishedAt.getTime() + job.backoffSeconds * 1000 * 2 ** (run.attempt - 1));
+
+    const failed = await prisma.$transaction(async (tx) => {
+      const updated = await tx.jobRun.update({
+        where: { id: run.id },
+        data: {
+          status: 'FAILED',
+          finishedAt,
+          durationMs: run.startedAt ? finishedAt.getTime() - run.startedAt.getTime() : null,
+          error,
+        },
+      });
+      await tx.scheduledJob.update({
+        where: { id: job.id },
+        data: { lastRunAt: finishedAt, lastStatus: 'FAILED' },
+      });
+      if (canRetry) {
+        await tx.jobRun.create({
+          data: {
+            jobId: job.id,
+            trigger: 'RETRY',
+            attempt: run.attempt + 1,
+            payload: run.payload ?? Prisma.JsonNull,
+            scheduledFor: retryAt,
+            retryOfId: run.id,
+            triggeredByUserId: run.triggeredByUserId,
+          },
+        });
+      }
+      return updated;
+    });
+
+    logger.error(`[Scheduler] ${job.name} failed`, {
+      runId: run.id,
+      attempt: run.attempt,
+      maxAttempts: job.maxAttempts,
+      retryAt: canRetry ? retryAt : null,
+      error,
+    });
+    return failed;
+  }
+
+  // ==========================================
+  // Admin
+  // ==========================================
+
+  static async getStatus() {
+    const [lease, jobs] = await Promise.all([
+      prisma.schedulerLease.findUnique({ where: { name: LEASE_NAME } }),
+      prisma.scheduledJob.findMany({ orderBy: { name: 'asc' } }),
+    ]);
+
+    return {
+      scheduler: {
+        enabled: env.SCHEDULER_ENABLED,
+        workerId: WORKER_ID,
+        isLeader,
+        leader: lease && lease.expiresAt > new Date() ? lease.holderId : null,
+        leaseExpiresAt: lease?.expiresAt ?? null,
+      },
+      jobs: jobs.map(job => ({ ...job, registered: definitions.has(job.name) })),
+    };
+  }
+
+  static async getJobByName(name: string) {
+    const job = await prisma.scheduledJob.findUnique({
+      where: { name },
+      include: { runs: { orderBy: { createdAt: 'desc' }, take: 10 } },
+    });
+    if (!job) {
+      throw AppError.notFound('Job não encontrado');
+    }
+    return { ...job, registered: definitions.has(job.name) };
+  }
+
+  static async listRuns(name: string, options: ListJobRunsOptions) {
+    const job = await prisma.scheduledJob.findUnique({ where: { name } });
+    if (!job) {
+      throw AppError.notFound('Job não encontrado');
+    }
+
+    const where: Prisma.JobRunWhereInput = {
+      jobId: job.id,
+      ...(options.status && { status: options.status }),
+    };
+    const [runs, total] = await Promise.all([
+      prisma.jobRun.findMany({
+        where,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip: (options.page - 1) * options.limit,
+        take: options.limit,
+      }),
+      prisma.jobRun.count({ where }),
+    ]);
+
+    return {
+      data: runs,
+      pagination: {
+        page: options.page,
+        limit: options.limit,
+        total,
+        totalPages: Math.ceil(total / options.limit),
+      },
+    };
+  }
+
+  static async updateJob(name: string, input: UpdateScheduledJobInput) {
+    const job = await prisma.scheduledJob.findUnique({ where: { name } });
+    if (!job) {
+      throw AppError.notFound('Job não encontrado');
+    }
+
+    const now = new Date();
+    const cron = input.cron ?? job.cron;
+    const timezone = input.timezone ?? job.timezone;
+    const perUserTimezone = input.perUserTimezone ?? job.perUserTimezone;
+    // Reabilitar não deve disparar de uma vez tudo o que venceu enquanto estava desligado
+    const reenabled = input.enabled === true && !job.enabled;
+
+    return prisma.scheduledJob.update({
+      where: { id: job.id },
+      data: {
+        ...input,
+        ...(reenabled && { lastScheduledAt: now }),
+        nextRunAt: perUserTimezone ? null : getNextCronOccurrence(cron, now, timezone),
+      },
+    });
+  }
+
+  /**
+   * Dispara o job imediatamente (fora do cron) e aguarda o resultado.
+   * Sem `timezones`, jobs por fuso do usuário rodam para todos os usuários.
+   */
+  static async runNow(name: string, userId: number, timezones: string[] = []): Promise<JobRun> {
+    const job = await prisma.scheduledJob.findUnique({ where: { name } });
+    if (!job) {
+      throw AppError.notFound('Job não encontrado');
+    }
+    if (!definitions.has(job.name)) {
+      throw AppError.unprocessable('Job sem handler registrado nesta versão da API');
+    }
+
+    const run = await prisma.jobRun.create({
+      data: {
+        jobId: job.id,
+        trigger: 'MANUAL',
+        scheduledFor: new Date(),
+        payload: { timezones },
+        triggeredByUserId: userId,
+      },
+    });
+
+    return (await this.executeRun(run.id)) ?? run;
+  }
+
+  /**
+   * Reexecuta uma execução que falhou, com o mesmo payload
+   */
+  static async rerun(runId: number, userId: number): Promise<JobRun> {
+    const previous = await prisma.jobRun.findUnique({ where: { id: runId }, include: { job: true } });
+    if (!previous) {
+      throw AppError.notFound('Execução não encontrada');
+    }
+    if (previous.status === 'PENDING' || previous.status === 'RUNNING') {
+      throw AppError.conflict('Execução ainda não terminou', 'JOB_RUN_IN_PROGRESS');
+    }
+    if (!definitions.has(previous.job.name)) {
+      throw AppError.unprocessable('Job sem handler registrado nesta versão da API');
+    }
+
+    const run = await prisma.jobRun.create({
+      data: {
+        jobId: previous.jobId,
+        trigger: 'MANUAL',
+        scheduledFor: new Date(),
+        payload: previous.payload ?? Prisma.JsonNull,
+        retryOfId: previous.id,
+        triggeredByUserId: userId,
+      },
+    });
+
+    return (await this.executeRun(run.id)) ?? run;
+  }
+}
@@ -2,6 +2,7 @@
 import { prisma } from '../config/database';
 import { AppError } from '../utils/errors/AppError';
 import { isValidTimezone, DEFAULT_TIMEZONE, SUPPORTED_TIMEZONES } from '../utils/helpers/timezone.helper';
+import type { NotificationCategory } from './notification-dispatcher.service';
 
 interface NotificationSettings {
   pushEnabled: boolean;
@@ -17,6 +18,8 @@ interface NotificationSettings {
     bath: boolean;
     extraction: boolean;
   };
+  // Categoria ausente = habilitada
+  notificationCategories: Partial<Record<NotificationCategory, boolean>>;
 }
 
 interface AppearanceSettings {
@@ -75,6 +78,7 @@ export class SettingsService {
         quietHoursStart: settings.quietHoursStart,
         quietHoursEnd: settings.quietHoursEnd,
         routineNotifications: settings.routineNotifications as NotificationSettings['routineNotifications'],
+        notificationCategories: settings.notificationCategories as NotificationSettings['notificationCategories'],
       },
       appearance: {
         theme: settings.theme as 'light' | 'dark' | 'system',
@@ -138,6 +142,7 @@ export class SettingsService {
           userId,
           ...data,
           routineNotifications: data.routineNotifications || DEFAULT_SETTINGS.routineNotifications,
+          notificationCategories: data.notificationCategories || {},
         },
       });
     } else {
@@ -145,6 +150,9 @@ export class SettingsService {
       const routineNotifications = data.routineNotifications
         ? { ...(settings.routineNotifications as object), ...data.routineNotifications }
         : (settings.routineNotifications as object);
+      const notificationCategories = data.notificationCategories
+        ? { ...(settings.notificationCategories as object), ...data.notificationCategories }
+        : (settings.notificationCategories as object);
 
       settings = await prisma.userSettings.update({
         where: { userId },
@@ -156,6 +164,7 @@ export class SettingsService {
           quietHoursStart: data.quietHoursStart ?? settings.quietHoursStart,
           quietHoursEnd: data.quietHoursEnd ?? settings.quietHoursEnd,
           routineNotifications: routineNotifications as any,
+          notificationCategories: notificationCategories as any,
         },
       });
     }
@@ -168,6 +177,7 @@ export class SettingsService {
       quietHoursStart: settings.quietHoursStart,
       quietHoursEnd: settings.quietHoursEnd,
       routineNotifications: settings.routineNotifications as NotificationSettings['routineNotifications'],
+      notificationCategories: settings.notificationCategories as NotificationSettings['notificationCategories'],
     };
   }
 
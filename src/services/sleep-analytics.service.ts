@@ -0,0 +1,258 @@
+// Olive Baby API - Sleep Analytics Service
+// Classifica sonecas x sono noturno, janelas de vigília e consolidação do sono
+import { differenceInMonths } from 'date-fns';
+import { prisma } from '../config/database';
+import { AppError } from '../utils/errors/AppError';
+import { formatInUserTimezone, DEFAULT_TIMEZONE } from '../utils/helpers/timezone.helper';
+import {
+  getSleepReferenceForAge,
+  SleepReferenceRange,
+  NIGHT_START_HOUR,
+  NIGHT_END_HOUR,
+  MAX_WAKE_WINDOW_MINUTES,
+  STRETCH_MERGE_GAP_MINUTES,
+} from '../constants/sleep-reference';
+import {
+  SleepAnalytics,
+  SleepConsolidationTrend,
+  SleepDailyAnalytics,
+  SleepPeriodSummary,
+  SleepRangeComparison,
+} from '../types';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Sempre buscamos pelo menos 30 dias para calcular as tendências
+const TREND_DAYS = 30;
+
+interface SleepSession {
+  start: Date;
+  end: Date;
+  minutes: number;
+  isNight: boolean;
+  dateKey: string;  // data da soneca ou data em que a noite começou
+}
+
+interface SleepAnalyticsOptions {
+  days?: number;
+  timezone?: string;
+}
+
+export class SleepAnalyticsService {
+  /**
+   * Análise de sono do bebê (sem checagem de acesso — feita no controller)
+   */
+  static async getAnalyticsByBabyId(
+    babyId: number,
+    options: SleepAnalyticsOptions = {}
+  ): Promise<SleepAnalytics> {
+    const baby = await prisma.baby.findUnique({
+      where: { id: babyId },
+      select: { id: true, birthDate: true },
+    });
+
+    if (!baby) {
+      throw AppError.notFound('Bebê não encontrado');
+    }
+
+    const timezone = options.timezone || DEFAULT_TIMEZONE;
+    const days = options.days || TREND_DAYS;
+    const now = new Date();
+    const ageMonths = differenceInMonths(now, baby.birthDate);
+    const reference = getSleepReferenceForAge(ageMonths);
+
+    // Um dia extra para pegar a noite que começou antes do período
+    const fetchDays = Math.max(days, TREND_DAYS) + 1;
+    const sleeps = await prisma.routineLog.findMany({
+      where: {
+        babyId,
+        routineType: 'SLEEP',
+        startTime: { gte: new Date(now.getTime() - fetchDays * DAY_MS) },
+      },
+      select: { startTime: true, endTime: true },
+      orderBy: { startTime: 'asc' },
+    });
+
+    const openSleep = sleeps.filter(s => !s.endTime).pop() || null;
+    const sessions = sleeps
+      .filter(s => s.endTime && s.endTime > s.startTime)
+      .map(s => this.toSession(s.startTime, s.endTime!, timezone));
+
+    const dateKeys = this.buildDateKeys(now, Math.max(days, TREND_DAYS), timezone);
+    const dailyAll = dateKeys.map(date => this.buildDaily(date, sessions));
+
+    const lastSession = sessions.length > 0 ? sessions[sessions.length - 1] : null;
+    const isSleeping = !!openSleep && (!lastSession || openSleep.startTime >= lastSession.end);
+
+    const last7d = this.summarize(dailyAll.slice(-7), reference);
+    const last30d = this.summarize(dailyAll.slice(-TREND_DAYS), reference);
+
+    return {
+      babyId,
+      timezone,
+      ageMonths,
+      generatedAt: now,
+      nightWindow: { startHour: NIGHT_START_HOUR, endHour: NIGHT_END_HOUR },
+      current: {
+        isSleeping,
+        sleepingSince: isSleeping ? openSleep!.startTime : null,
+        lastSleepEndedAt: lastSession?.end || null,
+        awakeMinutes: !isSleeping && lastSession
+          ? Math.round((now.getTime() - lastSession.end.getTime()) / MINUTE_MS)
+          : null,
+      },
+      daily: dailyAll.slice(-days),
+      trends: {
+        last7d,
+        last30d,
+        consolidation: this.getConsolidationTrend(last7d, last30d),
+      },
+    };
+  }
+
+  /**
+   * Classifica uma sessão pelo horário do seu ponto médio no fuso do usuário
+   */
+  private static toSession(start: Date, end: Date, timezone: string): SleepSession {
+    const midpoint = new Date((start.getTime() + end.getTime()) / 2);
+    const hour = parseInt(formatInUserTimezone(midpoint, timezone, 'H'), 10);
+    const isNight = hour >= NIGHT_START_HOUR || hour < NIGHT_END_HOUR;
+
+    // A noite pertence ao dia em que começou: 02h do dia 10 conta na noite do dia 9
+    const dateKey = isNight && hour < NIGHT_END_HOUR
+      ? formatInUserTimezone(new Date(midpoint.getTime() - DAY_MS / 2), timezone, 'yyyy-MM-dd')
+      : formatInUserTimezone(midpoint, timezone, 'yyyy-MM-dd');
+
+    return {
+      start,
+      end,
+      minutes: (end.getTime() - start.getTime()) / MINUTE_MS,
+      isNight,
+      dateKey,
+    };
+  }
+
+  private static buildDateKeys(now: Date, days: number, timezone: string): string[] {
+    const keys: string[] = [];
+    for (let i = days - 1; i >= 0; i--) {
+      const key = formatInUserTimezone(new Date(now.getTime() - i * DAY_MS), timezone, 'yyyy-MM-dd');
+      if (!keys.includes(key)) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  }
+
+  private static buildDaily(date: string, sessions: SleepSession[]): SleepDailyAnalytics {
+    const naps = sessions.filter(s => !s.isNight && s.dateKey === date);
+    const nights = sessions.filter(s => s.isNight && s.dateKey === date);
+
+    // Blocos consolidados da noite (despertares muito curtos são unidos)
+    const stretches: number[] = [];
+    let nightWakings = 0;
+    for (let i = 0; i < nights.length; i++) {
+      const gapMinutes = i > 0 ? (nights[i].start.getTime() - nights[i - 1].end.getTime()) / MINUTE_MS : null;
+      if (gapMinutes !== null && gapMinutes <= STRETCH_MERGE_GAP_MINUTES) {
+        stretches[stretches.length - 1] += gapMinutes + nights[i].minutes;
+      } else {
+        if (gapMinutes !== null) nightWakings++;
+        stretches.push(nights[i].minutes);
+      }
+    }
+
+    // Janelas de vigília: do fim de um sono até o início do próximo, exceto despertares noturnos
+    const wakeWindows: number[] = [];
+    sessions.forEach((session, index) => {
+      const previous = sessions[index - 1];
+      if (session.dateKey !== date || !previous || (previous.isNight && session.isNight)) return;
+
+      const gapMinutes = (session.start.getTime() - previous.end.getTime()) / MINUTE_MS;
+      if (gapMinutes > 0 && gapMinutes <= MAX_WAKE_WINDOW_MINUTES) {
+        wakeWindows.push(gapMinutes);
+      }
+    });
+
+    const napMinutes = naps.reduce((sum, s) => sum + s.minutes, 0);
+    const nightMinutes = nights.reduce((sum, s) => sum + s.minutes, 0);
+
+    return {
+      date,
+      napCount: naps.length,
+      napMinutes: Math.round(napMinutes),
+      nightMinutes: Math.round(nightMinutes),
+      totalMinutes: Math.round(napMinutes + nightMinutes),
+      longestStretchMinutes: stretches.length > 0 ? Math.round(Math.max(...stretches)) : null,
+      nightWakings,
+      averageWakeWindowMinutes: wakeWindows.length > 0
+        ? Math.round(wakeWindows.reduce((sum, w) => sum + w, 0) / wakeWindows.length)
+        : null,
+      wakeWindows: wakeWindows.length,
+    };
+  }
+
+  /**
+   * Médias do período considerando apenas dias com sono registrado
+   */
+  private static summarize(daily: SleepDailyAnalytics[], reference: SleepReferenceRange): SleepPeriodSummary {
+    const withData = daily.filter(d => d.totalMinutes > 0);
+    const withNight = withData.filter(d => d.longestStretchMinutes !== null);
+    const withWake = withData.filter(d => d.averageWakeWindowMinutes !== null);
+
+    const average = (items: SleepDailyAnalytics[], pick: (d: SleepDailyAnalytics) => number, divisor = 1) =>
+      items.length > 0
+        ? Math.round((items.reduce((sum, d) => sum + pick(d), 0) / items.length / divisor) * 10) / 10
+        : null;
+
+    const averageTotalSleepHours = average(withData, d => d.totalMinutes, 60);
+    const averageNapCount = average(withData, d => d.napCount);
+    const averageWakeWindowMinutes = average(withWake, d => d.averageWakeWindowMinutes!);
+    const averageLongestStretchHours = average(withNight, d => d.longestStretchMinutes!, 60);
+
+    return {
+      days: daily.length,
+      daysWithData: withData.length,
+      averageTotalSleepHours,
+      averageNightSleepHours: average(withData, d => d.nightMinutes, 60),
+      averageNapHours: average(withData, d => d.napMinutes, 60),
+      averageNapCount,
+      averageWakeWindowMinutes,
+      averageLongestStretchHours,
+      averageNightWakings: average(withNight, d => d.nightWakings),
+      comparison: {
+        totalSleepHours: this.compare(averageTotalSleepHours, reference.totalSleepHours),
+        napCount: this.compare(averageNapCount, reference.napCount),
+        wakeWindowMinutes: this.compare(averageWakeWindowMinutes, reference.wakeWindowMinutes),
+        longestStretchHours: this.compare(averageLongestStretchHours, reference.longestStretchHours),
+      },
+    };
+  }
+
+  private static compare(value: number | null, range: { min: number; max: number }): SleepRangeComparison {
+    let status: SleepRangeComparison['status'] = 'unknown';
+    if (value !== null) {
+      status = value < range.min ? 'below' : value > range.max ? 'above' : 'within';
+    }
+    return { value, min: range.min, max: range.max, status };
+  }
+
+  /**
+   * Compara o maior bloco noturno da última semana com a média do mês
+   */
+  private static getConsolidationTrend(
+    last7d: SleepPeriodSummary,
+    last30d: SleepPeriodSummary
+  ): SleepConsolidationTrend {
+    const recent = last7d.averageLongestStretchHours;
+    const baseline = last30d.averageLongestStretchHours;
+
+    if (recent === null || baseline === null || last7d.daysWithData < 3 || last30d.daysWithData < 10) {
+      return 'insufficient_data';
+    }
+
+    const change = (recent - baseline) / baseline;
+    if (change >= 0.1) return 'improving';
+    if (change <= -0.1) return 'declining';
+    return 'stable';
+  }
+}
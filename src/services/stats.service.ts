@@ -2,12 +2,12 @@
 import { prisma } from '../config/database';
 import { RoutineType } from '@prisma/client';
 import { requireBabyAccessByCaregiverId } from '../utils/helpers/baby-permission.helper';
-import { BabyStats, FeedingMeta, DiaperMeta, MilkExtractionMeta, BathMeta } from '../types';
+import { BabyStats, CustomRoutineStats, FeedingMeta, DiaperMeta, MilkExtractionMeta } from '../types';
 import { getDateRange, get24hRange } from '../utils/helpers/date.helper';
 
 export class StatsService {
   static async getStats(caregiverId: number, babyId: number, days: number = 7): Promise<BabyStats> {
-    await requireBabyAccessByCaregiverId(caregiverId, babyId);
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'routines:read');
 
     const { start, end } = getDateRange(days);
     const { start: start24h, end: end24h } = get24hRange();
@@ -44,6 +44,8 @@ export class StatsService {
       return (meta.complementMl || 0) > 0;
     }).length;
 
+    const customRoutines = await this.calculateCustomRoutines(babyId, routines, routines24h, start, days);
+
     // Calcular estatísticas
     const stats: BabyStats = {
       period: { start, end },
@@ -91,6 +93,9 @@ export class StatsService {
       bathCount24h: routines24h.filter(r => r.routineType === 'BATH').length,
       bathCountsPerDay: this.calculateCountsPerDay(routines, 'BATH', start, days),
 
+      // Rotinas personalizadas
+      customRoutines,
+
       // Atividade por hora
       hourlyCounts: this.calculateHourlyCounts(routines24h),
     };
@@ -209,6 +214,67 @@ export class StatsService {
     return result;
   }
 
+  /**
+   * Resumo por tipo personalizado do bebê.
+   * Tipos arquivados só aparecem se tiverem registros no período.
+   */
+  private static async calculateCustomRoutines(
+    babyId: number,
+    routines: any[],
+    routines24h: any[],
+    startDate: Date,
+    days: number
+  ): Promise<CustomRoutineStats[]> {
+    const customTypeIdsInPeriod = new Set(
+      routines.filter(r => r.routineType === 'CUSTOM').map(r => r.customTypeId)
+    );
+
+    const customTypes = await prisma.customRoutineType.findMany({
+      where: {
+        babyId,
+        OR: [{ isActive: true }, { id: { in: Array.from(customTypeIdsInPeriod) } }],
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return customTypes.map(customType => {
+      const ofType = routines.filter(r => r.routineType === 'CUSTOM' && r.customTypeId === customType.id);
+      const ofType24h = routines24h.filter(r => r.routineType === 'CUSTOM' && r.customTypeId === customType.id);
+      const countsPerDay: number[] = [];
+      const minutesPerDay: number[] = [];
+
+      for (let i = 0; i < days; i++) {
+        const dayStart = new Date(startDate);
+        dayStart.setDate(dayStart.getDate() + i);
+        dayStart.setHours(0, 0, 0, 0);
+
+        const dayEnd = new Date(dayStart);
+        dayEnd.setHours(23, 59, 59, 999);
+
+        const dayRoutines = ofType.filter(r => r.startTime >= dayStart && r.startTime <= dayEnd);
+        countsPerDay.push(dayRoutines.length);
+        minutesPerDay.push(
+          Math.round(dayRoutines.reduce((sum, r) => sum + (r.durationSeconds || 0), 0) / 60)
+        );
+      }
+
+      const last = ofType.length > 0 ? ofType[ofType.length - 1] : null;
+
+      return {
+        customTypeId: customType.id,
+        key: customType.key,
+        name: customType.name,
+        icon: customType.icon,
+        isTimed: customType.isTimed,
+        count24h: ofType24h.length,
+        countsPerDay,
+        totalMinutes24h: Math.round(ofType24h.reduce((sum, r) => sum + (r.durationSeconds || 0), 0) / 60),
+        minutesPerDay,
+        lastTime: last ? last.startTime.toISOString() : null,
+      };
+    });
+  }
+
   private static calculateBreastSideDistribution(routines: any[]): { left: number; right: number; both: number } {
     const feedingRoutines = routines.filter(r => r.routineType === 'FEEDING' && r.meta);
     const distribution = { left: 0, right: 0, both: 0 };
@@ -394,7 +460,7 @@ export class StatsService {
    * Inclui mamadeira + complemento da amamentação
    */
   static async getVolumeByType(caregiverId: number, babyId: number, days: number = 7) {
-    await requireBabyAccessByCaregiverId(caregiverId, babyId);
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'routines:read');
 
     const { start, end } = getDateRange(days);
 
@@ -528,6 +594,8 @@ export class StatsService {
       return (meta.complementMl || 0) > 0;
     }).length;
 
+    const customRoutines = await this.calculateCustomRoutines(babyId, routines, routines24h, start, days);
+
     // Calcular estatísticas
     const stats: BabyStats = {
       period: { start, end },
@@ -575,6 +643,9 @@ export class StatsService {
       bathCount24h: routines24h.filter(r => r.routineType === 'BATH').length,
       bathCountsPerDay: this.calculateCountsPerDay(routines, 'BATH', start, days),
 
+      // Rotinas personalizadas
+      customRoutines,
+
       // Atividade por hora
       hourlyCounts: this.calculateHourlyCounts(routines24h),
     };
@@ -0,0 +1,515 @@
+// Olive Baby API - Vaccine Calendar Service
+// Calendários de vacinação versionados (nacionais e de clínicas): CRUD de admin,
+// novas versões, publicação com migração dos bebês e import/export JSON/CSV.
+import { Prisma, VaccineCalendarSource, VaccineCalendarStatus } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../config/logger';
+import { AppError } from '../utils/errors/AppError';
+import { generateVaccineDefinitionsCsv } from '../utils/helpers/csv.helper';
+import { RealtimeService } from './realtime.service';
+import { VaccineService } from './vaccine.service';
+
+// ==========================================
+// Types
+// ==========================================
+
+export interface VaccineDefinitionInput {
+  vaccineKey: string;
+  name: string;
+  description?: string | null;
+  doseLabel: string;
+  doseNumber?: number;
+  ageMonths: number;
+  ageDays?: number | null;
+  ageMaxMonths?: number | null;
+  minAgeDays?: number | null;
+  maxAgeDays?: number | null;
+  minIntervalDays?: number | null;
+  notes?: string | null;
+  isOptional?: boolean;
+  sortOrder?: number;
+}
+
+export interface VaccineCalendarInput {
+  code: string;
+  name: string;
+  description?: string | null;
+  country: string;
+  source: VaccineCalendarSource;
+  clinicId?: number | null;
+  isDefault?: boolean;
+}
+
+export type UpdateVaccineCalendarInput = Partial<Omit<VaccineCalendarInput, 'code' | 'source'>>;
+
+export interface ImportVaccineCalendarInput extends Partial<VaccineCalendarInput> {
+  definitions: VaccineDefinitionInput[];
+}
+
+interface CalendarListFilters {
+  status?: VaccineCalendarStatus;
+  code?: string;
+  country?: string;
+  clinicId?: number;
+}
+
+export type CalendarExportFormat = 'json' | 'csv';
+
+// Campos de definição exportados (sem ids nem datas, para reimportar em outra versão)
+const DEFINITION_EXPORT_SELECT = {
+  vaccineKey: true,
+  name: true,
+  description: true,
+  doseLabel: true,
+  doseNumber: true,
+  ageMonths: true,
+  ageDays: true,
+  ageMaxMonths: true,
+  minAgeDays: true,
+  maxAgeDays: true,
+  minIntervalDays: true,
+  notes: true,
+  isOptional: true,
+  sortOrder: true,
+} as const;
+
+// ==========================================
+// Service Class
+// ==========================================
+
+export class VaccineCalendarService {
+  /**
+   * Lista calendários (todas as versões)
+   */
+  static async list(filters: CalendarListFilters = {}) {
+    return prisma.vaccineCalendar.findMany({
+      where: {
+        ...(filters.status && { status: filters.status }),
+        ...(filters.code && { code: filters.code.toUpperCase() }),
+        ...(filters.country && { country: filters.country.toUpperCase() }),
+        ...(filters.clinicId && { clinicId: filters.clinicId }),
+      },
+      include: {
+        clinic: { select: { id: true, name: true } },
+        _count: { select: { definitions: true, babies: true } },
+      },
+      orderBy: [{ code: 'asc' }, { version: 'desc' }],
+    });
+  }
+
+  /**
+   * Detalhes de uma versão com as definições
+   */
+  static async getById(id: number) {
+    const calendar = await prisma.vaccineCalendar.findUnique({
+      where: { id },
+      include: {
+        clinic: { select: { id: true, name: true } },
+        definitions: { orderBy: [{ ageMonths: 'asc' }, { sortOrder: 'asc' }] },
+        _count: { select: { babies: true, records: true } },
+      },
+    });
+
+    if (!calendar) {
+      throw AppError.notFound('Calendário de vacinação não encontrado');
+    }
+
+    return calendar;
+  }
+
+  /**
+   * Cria um calendário novo (versão 1, em rascunho)
+   */
+  static async create(input: VaccineCalendarInput & { definitions?: VaccineDefinitionInput[] }) {
+    const code = input.code.toUpperCase();
+
+    const existing = await prisma.vaccineCalendar.findFirst({ where: { code } });
+    if (existing) {
+      throw AppError.conflict('Já existe um calendário com este código. Crie uma nova versão.');
+    }
+
+    await this.assertClinicExists(input.clinicId);
+    const definitions = input.definitions ?? [];
+    this.assertUniqueDoses(definitions);
+
+    const calendar = await prisma.vaccineCalendar.create({
+      data: {
+        code,
+        version: 1,
+        name: input.name,
+        description: input.description,
+        country: input.country.toUpperCase(),
+        source: input.source,
+        clinicId: input.clinicId,
+        definitions: { create: definitions },
+      },
+    });
+
+    if (input.isDefault) {
+      await this.setDefault(calendar.code, calendar.country);
+    }
+
+    return this.getById(calendar.id);
+  }
+
+  /**
+   * Atualiza os dados do calendário (as definições só mudam em rascunho)
+   */
+  static async update(id: number, input: UpdateVaccineCalendarInput) {
+    const calendar = await this.getById(id);
+    await this.assertClinicExists(input.clinicId);
+
+    const { isDefault, ...data } = input;
+    const country = data.country?.toUpperCase() ?? calendar.country;
+
+    await prisma.vaccineCalendar.update({
+      where: { id },
+      data: { ...data, country },
+    });
+
+    if (isDefault === true) {
+      await this.setDefault(calendar.code, country);
+    } else if (isDefault === false) {
+      await prisma.vaccineCalendar.updateMany({ where: { code: calendar.code }, data: { isDefault: false } });
+    }
+
+    return this.getById(id);
+  }
+
+  /**
+   * Rascunho é removido; versão publicada é arquivada (registros dos bebês continuam)
+   */
+  static async remove(id: number) {
+    const calendar = await this.getById(id);
+
+    if (calendar.status === VaccineCalendarStatus.DRAFT) {
+      await prisma.vaccineCalendar.delete({ where: { id } });
+      return { deleted: true, archived: false };
+    }
+
+    await prisma.vaccineCalendar.update({
+      where: { id },
+      data: { status: VaccineCalendarStatus.ARCHIVED, isDefault: false },
+    });
+    return { deleted: false, archived: true };
+  }
+
+  /**
+   * Adiciona uma dose ao rascunho
+   */
+  static async addDefinition(calendarId: number, input: VaccineDefinitionInput) {
+    await this.requireDraft(calendarId);
+
+    try {
+      return await prisma.vaccineDefinition.create({ data: { ...input, calendarId } });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw AppError.conflict('Esta dose já existe no calendário');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Atualiza uma dose do rascunho
+   */
+  static async updateDefinition(calendarId: number, definitionId: number, input: Partial<VaccineDefinitionInput>) {
+    await this.requireDraft(calendarId);
+    await this.getDefinition(calendarId, definitionId);
+
+    try {
+      return await prisma.vaccineDefinition.update({ where: { id: definitionId }, data: input });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw AppError.conflict('Esta dose já existe no calendário');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Remove uma dose do rascunho
+   */
+  static async deleteDefinition(calendarId: number, definitionId: number) {
+    await this.requireDraft(calendarId);
+    await this.getDefinition(calendarId, definitionId);
+
+    await prisma.vaccineDefinition.delete({ where: { id: definitionId } });
+  }
+
+  /**
+   * Cria uma nova versão (rascunho) copiando as definições da versão informada
+   */
+  static async createVersion(id: number) {
+    const base = await this.getById(id);
+    await this.assertNoDraft(base.code);
+
+    const latest = await prisma.vaccineCalendar.findFirst({
+      where: { code: base.code },
+      orderBy: { version: 'desc' },
+    });
+
+    const calendar = await prisma.vaccineCalendar.create({
+      data: {
+        code: base.code,
+        version: latest!.version + 1,
+        name: base.name,
+        description: base.description,
+        country: base.country,
+        source: base.source,
+        clinicId: base.clinicId,
+        isDefault: base.isDefault,
+        definitions: {
+          create: base.definitions.map(def => ({
+            vaccineKey: def.vaccineKey,
+            name: def.name,
+            description: def.description,
+            doseLabel: def.doseLabel,
+            doseNumber: def.doseNumber,
+            ageMonths: def.ageMonths,
+            ageDays: def.ageDays,
+            ageMaxMonths: def.ageMaxMonths,
+            minAgeDays: def.minAgeDays,
+            maxAgeDays: def.maxAgeDays,
+            minIntervalDays: def.minIntervalDays,
+            notes: def.notes,
+            isOptional: def.isOptional,
+            sortOrder: def.sortOrder,
+          })),
+        },
+      },
+    });
+
+    return this.getById(calendar.id);
+  }
+
+  /**
+   * Publica o rascunho: a versão publicada anterior é arquivada e, por padrão,
+   * os bebês que usavam versões anteriores migram para a nova (doses aplicadas
+   * são mantidas, pendentes são recalculadas).
+   */
+  static async publish(id: number, options: { migrateBabies?: boolean } = {}) {
+    const { migrateBabies = true } = options;
+    const calendar = await this.requireDraft(id);
+
+    const definitions = await prisma.vaccineDefinition.count({ where: { calendarId: id } });
+    if (definitions === 0) {
+      throw AppError.badRequest('O calendário precisa de ao menos uma dose para ser publicado');
+    }
+
+    const previousVersions = await prisma.vaccineCalendar.findMany({
+      where: { code: calendar.code, id: { not: id } },
+      select: { id: true },
+    });
+
+    await prisma.$transaction([
+      prisma.vaccineCalendar.updateMany({
+        where: { code: calendar.code, status: VaccineCalendarStatus.PUBLISHED },
+        data: { status: VaccineCalendarStatus.ARCHIVED },
+      }),
+      prisma.vaccineCalendar.update({
+        where: { id },
+        data: { status: VaccineCalendarStatus.PUBLISHED, publishedAt: new Date() },
+      }),
+    ]);
+
+    if (calendar.isDefault) {
+      await this.setDefault(calendar.code, calendar.country);
+    }
+
+    let migrated = 0;
+    let failed = 0;
+
+    if (migrateBabies && previousVersions.length > 0) {
+      const babies = await prisma.baby.findMany({
+        where: { vaccineCalendarId: { in: previousVersions.map(v => v.id) } },
+        select: { id: true },
+      });
+
+      for (const baby of babies) {
+        try {
+          const result = await VaccineService.applyCalendarToBaby(baby.id, id);
+          RealtimeService.publish(baby.id, 'vaccine.synced', {
+            data: { calendarId: id, synced: result.synced, removed: result.removed },
+          });
+          migrated++;
+        } catch (error) {
+          failed++;
+          logger.error('[VaccineCalendar] Baby migration failed', {
+            babyId: baby.id,
+            calendarId: id,
+            error: (error as Error).message,
+          });
+        }
+      }
+    }
+
+    logger.info('[VaccineCalendar] Calendar published', {
+      calendarId: id,
+      code: calendar.code,
+      version: calendar.version,
+      migrated,
+      failed,
+    });
+
+    return { calendar: await this.getById(id), migratedBabies: migrated, failedBabies: failed };
+  }
+
+  /**
+   * Exporta uma versão em JSON (calendário + doses) ou CSV (só doses)
+   */
+  static async exportCalendar(id: number, format: CalendarExportFormat) {
+    const calendar = await this.getById(id);
+    const definitions = await prisma.vaccineDefinition.findMany({
+      where: { calendarId: id },
+      select: DEFINITION_EXPORT_SELECT,
+      orderBy: [{ ageMonths: 'asc' }, { sortOrder: 'asc' }],
+    });
+
+    const baseName = `calendario-${calendar.code.toLowerCase()}-v${calendar.version}`;
+
+    if (format === 'csv') {
+      return {
+        filename: `${baseName}.csv`,
+        contentType: 'text/csv; charset=utf-8',
+        body: generateVaccineDefinitionsCsv(definitions),
+      };
+    }
+
+    return {
+      filename: `${baseName}.json`,
+      contentType: 'application/json; charset=utf-8',
+      body: JSON.stringify(
+        {
+          code: calendar.code,
+          version: calendar.version,
+          name: calendar.name,
+          description: calendar.description,
+          country: calendar.country,
+          source: calendar.source,
+          definitions,
+        },
+        null,
+        2
+      ),
+    };
+  }
+
+  /**
+   * Importa doses como rascunho: nova versão de um código existente (dados
+   * herdados da última versão) ou versão 1 de um calendário novo.
+   */
+  static async importCalendar(input: ImportVaccineCalendarInput) {
+    this.assertUniqueDoses(input.definitions);
+
+    const code = input.code?.toUpperCase();
+    const latest = code
+      ? await prisma.vaccineCalendar.findFirst({ where: { code }, orderBy: { version: 'desc' } })
+      : null;
+
+    if (!latest) {
+      if (!code || !input.name || !input.country || !input.source) {
+        throw AppError.badRequest('Para um calendário novo informe code, name, country e source');
+      }
+      return this.create({
+        code,
+        name: input.name,
+        description: input.description,
+        country: input.country,
+        source: input.source,
+        clinicId: input.clinicId,
+        isDefault: input.isDefault,
+        definitions: input.definitions,
+      });
+    }
+
+    await this.assertNoDraft(latest.code);
+    await this.assertClinicExists(input.clinicId);
+
+    const calendar = await prisma.vaccineCalendar.create({
+      data: {
+        code: latest.code,
+        version: latest.version + 1,
+        name: input.name ?? latest.name,
+        description: input.description !== undefined ? input.description : latest.description,
+        country: input.country?.toUpperCase() ?? latest.country,
+        source: input.source ?? latest.source,
+        clinicId: input.clinicId !== undefined ? input.clinicId : latest.clinicId,
+        isDefault: input.isDefault ?? latest.isDefault,
+        definitions: { create: input.definitions },
+      },
+    });
+
+    return this.getById(calendar.id);
+  }
+
+  // ==========================================
+  // Helpers
+  // ==========================================
+
+  private static async requireDraft(id: number) {
+    const calendar = await prisma.vaccineCalendar.findUnique({ where: { id } });
+    if (!calendar) {
+      throw AppError.notFound('Calendário de vacinação não encontrado');
+    }
+    if (calendar.status !== VaccineCalendarStatus.DRAFT) {
+      throw AppError.badRequest('Só é possível alterar doses de um rascunho. Crie uma nova versão.');
+    }
+    return calendar;
+  }
+
+  private static async getDefinition(calendarId: number, definitionId: number) {
+    const definition = await prisma.vaccineDefinition.findFirst({ where: { id: definitionId, calendarId } });
+    if (!definition) {
+      throw AppError.notFound('Dose não encontrada neste calendário');
+    }
+    return definition;
+  }
+
+  private static async assertNoDraft(code: string) {
+    const draft = await prisma.vaccineCalendar.findFirst({
+      where: { code, status: VaccineCalendarStatus.DRAFT },
+      select: { version: true },
+    });
+    if (draft) {
+      throw AppError.conflict(`Já existe um rascunho (versão ${draft.version}) para este calendário`);
+    }
+  }
+
+  private static async assertClinicExists(clinicId?: number | null) {
+    if (!clinicId) return;
+    const clinic = await prisma.clinic.findUnique({ where: { id: clinicId }, select: { id: true } });
+    if (!clinic) {
+      throw AppError.notFound('Clínica não encontrada');
+    }
+  }
+
+  private static assertUniqueDoses(definitions: VaccineDefinitionInput[]) {
+    const seen = new Set<string>();
+    for (const def of definitions) {
+      const key = `${def.vaccineKey}:${def.doseLabel}`;
+      if (seen.has(key)) {
+        throw AppError.badRequest(`Dose duplicada no calendário: ${def.vaccineKey} - ${def.doseLabel}`);
+      }
+      seen.add(key);
+    }
+  }
+
+  /**
+   * Marca o calendário como padrão do país (todas as versões do código)
+   */
+  private static async setDefault(code: string, country: string) {
+    await prisma.$transaction([
+      prisma.vaccineCalendar.updateMany({
+        where: { country, clinicId: null, code: { not: code } },
+        data: { isDefault: false },
+      }),
+      prisma.vaccineCalendar.updateMany({
+        where: { code, status: { not: VaccineCalendarStatus.ARCHIVED } },
+        data: { isDefault: true },
+      }),
+    ]);
+  }
+}
+
+export default VaccineCalendarService;
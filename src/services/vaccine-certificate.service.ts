@@ -0,0 +1,321 @@
+// Olive Baby API - Vaccine Certificate Service
+// Certificado de vacinação gerado a partir das doses aplicadas, assinado pelo
+// servidor (HMAC-SHA256) e verificável publicamente pelo código do QR.
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import { Prisma, VaccineCertificate, VaccineCertificateStatus, VaccineStatus } from '@prisma/client';
+import { format } from 'date-fns';
+import { prisma } from '../config/database';
+import { env } from '../config/env';
+import { logger } from '../config/logger';
+import { AppError } from '../utils/errors/AppError';
+import { isBabyOwner, requireBabyAccess } from '../utils/helpers/baby-permission.helper';
+import { generateVaccineCertificatePdf } from '../utils/helpers/pdf.helper';
+
+const PAYLOAD_VERSION = 1;
+const CODE_BYTES = 16;
+const FINGERPRINT_LENGTH = 12;
+
+// Conteúdo assinado: só o que aparece no certificado
+export interface VaccineCertificatePayload {
+  version: number;
+  code: string;
+  issuedAt: string;
+  baby: { name: string; birthDate: string };
+  doses: {
+    vaccineName: string;
+    doseLabel: string;
+    appliedAt: string;
+    lotNumber: string | null;
+    clinicName: string | null;
+    professionalName: string | null;
+  }[];
+}
+
+export type VaccineCertificateVerification =
+  | { status: 'INVALID' }
+  | {
+      status: 'VALID' | 'REVOKED';
+      issuedAt: string;
+      revokedAt: Date | null;
+      fingerprint: string;
+      baby: { name: string; birthDate: string };
+      doses: { vaccineName: string; doseLabel: string; appliedAt: string }[];
+    };
+
+// ==========================================
+// Helper Functions
+// ==========================================
+
+function getSigningKey(): string {
+  return env.CERTIFICATE_SIGNING_SECRET
+    ?? crypto.createHmac('sha256', env.JWT_ACCESS_SECRET).update('vaccine-certificate').digest('hex');
+}
+
+/**
+ * JSON com chaves ordenadas: o JSONB do Postgres não preserva a ordem original
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function sign(payload: VaccineCertificatePayload): string {
+  return crypto.createHmac('sha256', getSigningKey()).update(canonicalJson(payload)).digest('hex');
+}
+
+function isSignatureValid(certificate: VaccineCertificate): boolean {
+  const expected = Buffer.from(sign(certificate.payload as unknown as VaccineCertificatePayload), 'hex');
+  const actual = Buffer.from(certificate.signature, 'hex');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+function fingerprintOf(signature: string): string {
+  return signature.slice(0, FINGERPRINT_LENGTH).toUpperCase();
+}
+
+function verifyUrlOf(code: string): string {
+  return `${env.FRONTEND_URL}/verificar-certificado/${code}`;
+}
+
+/**
+ * "Maria Souza Lima" → "Maria L." (a verificação pública não expõe o nome completo)
+ */
+function maskName(name: string): string {
+  const parts = name.trim().split(/\s+/);
+  if (parts.length === 1) return parts[0];
+  return `${parts[0]} ${parts[parts.length - 1][0]}.`;
+}
+
+function toDateOnly(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function toSummary(certificate: VaccineCertificate) {
+  const payload = certificate.payload as unknown as VaccineCertificatePayload;
+  return {
+    id: certificate.id,
+    code: certificate.code,
+    status: certificate.status,
+    fingerprint: fingerprintOf(certificate.signature),
+    verifyUrl: verifyUrlOf(certificate.code),
+    doses: payload.doses.length,
+    issuedAt: certificate.createdAt,
+    issuedByUserId: certificate.issuedByUserId,
+    revokedAt: certificate.revokedAt,
+    revokeReason: certificate.revokeReason,
+  };
+}
+
+// ==========================================
+// Service Class
+// ==========================================
+
+export class VaccineCertificateService {
+  /**
+   * Emite um certificado com as doses aplicadas (válidas) do bebê
+   */
+  static async issue(userId: number, babyId: number) {
+    await this.requireIssueAccess(userId, babyId);
+    const certificate = await this.createCertificate(userId, babyId);
+    return toSummary(certificate);
+  }
+
+  /**
+   * Lista os certificados do bebê (ativos e revogados)
+   */
+  static async list(userId: number, babyId: number) {
+    await requireBabyAccess(userId, babyId, 'vaccines:read');
+
+    const certificates = await prisma.vaccineCertificate.findMany({
+      where: { babyId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return certificates.map(toSummary);
+  }
+
+  /**
+   * PDF do certificado ativo (com QR de verificação)
+   */
+  static async getPdf(userId: number, babyId: number, certificateId: number) {
+    await this.requireIssueAccess(userId, babyId);
+    const certificate = await this.getCertificate(babyId, certificateId);
+
+    if (certificate.status === VaccineCertificateStatus.REVOKED) {
+      throw AppError.badRequest('Certificado revogado. Gere um novo certificado.');
+    }
+
+    const payload = certificate.payload as unknown as VaccineCertificatePayload;
+    const verifyUrl = verifyUrlOf(certificate.code);
+    const qrPng = await QRCode.toBuffer(verifyUrl, { errorCorrectionLevel: 'M', margin: 1, width: 300 });
+
+    const pdf = await generateVaccineCertificatePdf({
+      baby: payload.baby,
+      doses: payload.doses,
+      issuedAt: new Date(payload.issuedAt),
+      code: certificate.code,
+      fingerprint: fingerprintOf(certificate.signature),
+      verifyUrl,
+      qrPng,
+    });
+
+    const safeName = payload.baby.name.toLowerCase().replace(/\s+/g, '_');
+    return { pdf, filename: `certificado_vacinacao_${safeName}_${certificate.code.slice(0, 8)}.pdf` };
+  }
+
+  /**
+   * Revoga um certificado (responsáveis ou quem emitiu)
+   */
+  static async revoke(userId: number, babyId: number, certificateId: number, reason?: string) {
+    const certificate = await this.getCertificate(babyId, certificateId);
+    await this.requireRevokeAccess(userId, babyId, certificate);
+
+    if (certificate.status === VaccineCertificateStatus.REVOKED) {
+      throw AppError.badRequest('Certificado já está revogado');
+    }
+
+    const revoked = await prisma.vaccineCertificate.update({
+      where: { id: certificateId },
+      data: {
+        status: VaccineCertificateStatus.REVOKED,
+        revokedAt: new Date(),
+        revokedByUserId: userId,
+        revokeReason: reason ?? null,
+      },
+    });
+
+    logger.info('[VaccineCertificate] Revoked', { certificateId, babyId, userId });
+    return toSummary(revoked);
+  }
+
+  /**
+   * Revoga o certificado informado e emite outro com as doses atuais
+   */
+  static async regenerate(userId: number, babyId: number, certificateId: number) {
+    const certificate = await this.getCertificate(babyId, certificateId);
+    await this.requireRevokeAccess(userId, babyId, certificate);
+    await this.requireIssueAccess(userId, babyId);
+
+    const issued = await this.createCertificate(userId, babyId);
+
+    if (certificate.status === VaccineCertificateStatus.ACTIVE) {
+      await prisma.vaccineCertificate.update({
+        where: { id: certificateId },
+        data: {
+          status: VaccineCertificateStatus.REVOKED,
+          revokedAt: new Date(),
+          revokedByUserId: userId,
+          revokeReason: `Substituído pelo certificado ${issued.code}`,
+        },
+      });
+    }
+
+    return toSummary(issued);
+  }
+
+  /**
+   * Verificação pública pelo código do QR: confirma a assinatura e devolve só
+   * o que está impresso no certificado (nome abreviado, sem lote/local/profissional)
+   */
+  static async verify(code: string): Promise<VaccineCertificateVerification> {
+    const certificate = await prisma.vaccineCertificate.findUnique({ where: { code } });
+    if (!certificate) {
+      throw AppError.notFound('Certificado não encontrado');
+    }
+
+    if (!isSignatureValid(certificate)) {
+      logger.warn('[VaccineCertificate] Signature mismatch', { certificateId: certificate.id });
+      return { status: 'INVALID' };
+    }
+
+    const payload = certificate.payload as unknown as VaccineCertificatePayload;
+    return {
+      status: certificate.status === VaccineCertificateStatus.ACTIVE ? 'VALID' : 'REVOKED',
+      issuedAt: payload.issuedAt,
+      revokedAt: certificate.revokedAt,
+      fingerprint: fingerprintOf(certificate.signature),
+      baby: { name: maskName(payload.baby.name), birthDate: payload.baby.birthDate },
+      doses: payload.doses.map(d => ({ vaccineName: d.vaccineName, doseLabel: d.doseLabel, appliedAt: d.appliedAt })),
+    };
+  }
+
+  // ==========================================
+  // Helpers
+  // ==========================================
+
+  private static async createCertificate(userId: number, babyId: number) {
+    const baby = await prisma.baby.findUnique({
+      where: { id: babyId },
+      select: { name: true, birthDate: true },
+    });
+    if (!baby) throw AppError.notFound('Bebê não encontrado');
+
+    // Doses aplicadas antes da idade/intervalo mínimo não entram no certificado
+    const records = await prisma.babyVaccineRecord.findMany({
+      where: { babyId, status: VaccineStatus.APPLIED, appliedAt: { not: null }, isValid: true },
+      orderBy: [{ appliedAt: 'asc' }, { vaccineName: 'asc' }],
+    });
+    if (records.length === 0) {
+      throw AppError.badRequest('Nenhuma vacina aplicada registrada para o certificado');
+    }
+
+    const code = crypto.randomBytes(CODE_BYTES).toString('base64url');
+    const payload: VaccineCertificatePayload = {
+      version: PAYLOAD_VERSION,
+      code,
+      issuedAt: new Date().toISOString(),
+      baby: { name: baby.name, birthDate: format(baby.birthDate, 'yyyy-MM-dd') },
+      doses: records.map(r => ({
+        vaccineName: r.vaccineName,
+        doseLabel: r.doseLabel,
+        appliedAt: toDateOnly(r.appliedAt!),
+        lotNumber: r.lotNumber,
+        clinicName: r.clinicName,
+        professionalName: r.professionalName,
+      })),
+    };
+
+    const certificate = await prisma.vaccineCertificate.create({
+      data: {
+        babyId,
+        code,
+        payload: payload as unknown as Prisma.InputJsonValue,
+        signature: sign(payload),
+        issuedByUserId: userId,
+      },
+    });
+
+    logger.info('[VaccineCertificate] Issued', { certificateId: certificate.id, babyId, userId, doses: records.length });
+    return certificate;
+  }
+
+  private static async getCertificate(babyId: number, certificateId: number) {
+    const certificate = await prisma.vaccineCertificate.findFirst({ where: { id: certificateId, babyId } });
+    if (!certificate) {
+      throw AppError.notFound('Certificado não encontrado');
+    }
+    return certificate;
+  }
+
+  private static async requireIssueAccess(userId: number, babyId: number) {
+    await requireBabyAccess(userId, babyId, 'vaccines:read');
+    await requireBabyAccess(userId, babyId, 'exports');
+  }
+
+  private static async requireRevokeAccess(userId: number, babyId: number, certificate: VaccineCertificate) {
+    await requireBabyAccess(userId, babyId, 'vaccines:read');
+    if (certificate.issuedByUserId === userId) return;
+    if (!(await isBabyOwner(userId, babyId))) {
+      throw AppError.forbidden('Apenas os responsáveis ou quem emitiu podem revogar o certificado');
+    }
+  }
+}
+
+export default VaccineCertificateService;
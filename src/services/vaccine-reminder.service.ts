@@ -0,0 +1,461 @@
+// Olive Baby API - Vaccine Reminder Service
+// Lembretes de vacina para os pais (N dias antes e no dia), escalonamento das
+// doses atrasadas (push → + e-mail) e resumo semanal para os pediatras.
+// Disparado pelos triggers vaccine_reminder e prof_vaccine_digest.
+import { BabyMemberType, Prisma, VaccineStatus } from '@prisma/client';
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { prisma } from '../config/database';
+import { env } from '../config/env';
+import { logger } from '../config/logger';
+import { formatInUserTimezone, DEFAULT_TIMEZONE } from '../utils/helpers/timezone.helper';
+import {
+  activeMemberWhere,
+  hasPermission,
+  resolveBabyMemberPermissions,
+} from '../utils/helpers/baby-permission.helper';
+import { checkRateLimit } from './rate-limit.service';
+import {
+  NotificationDispatcherService,
+  NotificationMessage,
+  DispatchResult,
+} from './notification-dispatcher.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Resumo do pediatra: um por semana mesmo se o job rodar de novo no dia
+const DIGEST_DEDUPE_WINDOW_MS = 6 * DAY_MS;
+const DIGEST_MAX_PATIENTS = 20;
+
+// A partir desta etapa de atraso o lembrete também vai por e-mail
+const EMAIL_FROM_OVERDUE_STAGE = 2;
+
+export type VaccineReminderStage = 'upcoming' | 'due' | `overdue_${number}`;
+
+export interface VaccineReminderOptions {
+  daysBefore: number;
+  escalationDays: number[];   // dias de atraso de cada etapa, em ordem crescente
+  maxOverdueDays: number;     // doses mais antigas são consideradas histórico
+  timezones?: string[];
+  dryRun?: boolean;
+}
+
+export interface VaccineDigestOptions {
+  dayOfWeek: number;
+  timezones?: string[];
+  dryRun?: boolean;
+}
+
+export interface VaccineReminderResult {
+  eligible: number;
+  sent: number;
+  failed: number;
+  noToken: number;
+  deferred: number;
+  suppressed: number;
+}
+
+interface ReminderRecord {
+  id: number;
+  babyId: number;
+  vaccineName: string;
+  doseLabel: string;
+  recommendedAt: Date;
+  baby: { name: string };
+}
+
+function emptyResult(): VaccineReminderResult {
+  return { eligible: 0, sent: 0, failed: 0, noToken: 0, deferred: 0, suppressed: 0 };
+}
+
+function countPush(result: VaccineReminderResult, delivery: DispatchResult): void {
+  const outcome = delivery.push;
+  if (outcome === 'sent') result.sent++;
+  else if (outcome === 'failed') result.failed++;
+  else if (outcome === 'no_target') result.noToken++;
+  else if (outcome === 'deferred') result.deferred++;
+  else result.suppressed++;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * "3,10,30" → [3, 10, 30] (ignora valores inválidos, ordena e remove repetidos)
+ */
+export function parseEscalationDays(value: string | number | boolean | undefined, fallback: number[]): number[] {
+  const days = String(value ?? '')
+    .split(',')
+    .map(v => parseInt(v.trim(), 10))
+    .filter(v => Number.isFinite(v) && v > 0);
+  return days.length > 0 ? [...new Set(days)].sort((a, b) => a - b) : fallback;
+}
+
+/**
+ * Data (yyyy-MM-dd) de hoje no fuso do usuário
+ */
+function localToday(now: Date, timezone: string): string {
+  return formatInUserTimezone(now, timezone, 'yyyy-MM-dd');
+}
+
+/**
+ * recommendedAt é @db.Date (meia-noite UTC): a parte de data vale em qualquer fuso
+ */
+function recordDate(record: { recommendedAt: Date }): string {
+  return record.recommendedAt.toISOString().slice(0, 10);
+}
+
+export class VaccineReminderService {
+  /**
+   * Envia os lembretes devidos para os pais (membros PARENT com acesso às vacinas).
+   * Cada dose/destinatário/etapa é enviada uma única vez (vaccine_reminders).
+   */
+  static async sendDueReminders(options: VaccineReminderOptions): Promise<VaccineReminderResult> {
+    const result = emptyResult();
+    const now = new Date();
+    const { daysBefore, escalationDays, maxOverdueDays, timezones, dryRun = false } = options;
+
+    // Margem de 1 dia para cobrir todos os fusos
+    const records = await prisma.babyVaccineRecord.findMany({
+      where: {
+        status: VaccineStatus.PENDING,
+        recommendedAt: {
+          gte: new Date(now.getTime() - (maxOverdueDays + 1) * DAY_MS),
+          lte: new Date(now.getTime() + (daysBefore + 1) * DAY_MS),
+        },
+        // Passou da idade máxima: a dose não é mais recomendada
+        OR: [{ validUntil: null }, { validUntil: { gte: new Date(now.getTime() - DAY_MS) } }],
+      },
+      select: {
+        id: true,
+        babyId: true,
+        vaccineName: true,
+        doseLabel: true,
+        recommendedAt: true,
+        baby: { select: { name: true } },
+      },
+    });
+
+    if (records.length === 0) {
+      return result;
+    }
+
+    const recipientsByBaby = await this.getParentRecipients(
+      [...new Set(records.map(r => r.babyId))],
+      timezones
+    );
+
+    const sentStages = await prisma.vaccineReminder.findMany({
+      where: { recordId: { in: records.map(r => r.id) } },
+      select: { recordId: true, userId: true, stage: true },
+    });
+    const sentKeys = new Set(sentStages.map(s => `${s.recordId}:${s.userId}:${s.stage}`));
+
+    for (const record of records) {
+      for (const recipient of recipientsByBaby.get(record.babyId) ?? []) {
+        const daysUntil = differenceInCalendarDays(
+          parseISO(recordDate(record)),
+          parseISO(localToday(now, recipient.timezone))
+        );
+        const stage = this.resolveStage(daysUntil, daysBefore, escalationDays, maxOverdueDays);
+        if (!stage || sentKeys.has(`${record.id}:${recipient.userId}:${stage}`)) continue;
+
+        result.eligible++;
+        if (dryRun) continue;
+
+        // Reserva a etapa antes de enviar: uma retentativa do job não duplica o lembrete
+        try {
+          await prisma.vaccineReminder.create({
+            data: { recordId: record.id, userId: recipient.userId, stage },
+          });
+        } catch (error) {
+          if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') continue;
+          throw error;
+        }
+
+        const delivery = await NotificationDispatcherService.dispatch(
+          recipient.userId,
+          this.buildReminderMessage(record, stage, daysUntil)
+        );
+        countPush(result, delivery);
+
+        await prisma.vaccineReminder.update({
+          where: {
+            recordId_userId_stage: { recordId: record.id, userId: recipient.userId, stage },
+          },
+          data: { outcome: delivery as Prisma.InputJsonValue },
+        });
+      }
+    }
+
+    logger.info('[VaccineReminder] Reminders processed', { ...result, dryRun });
+    return result;
+  }
+
+  /**
+   * Resumo semanal para os pediatras vinculados: pacientes com doses atrasadas.
+   * Enviado no dia da semana configurado, no fuso de cada pediatra.
+   */
+  static async sendPediatricianDigest(options: VaccineDigestOptions): Promise<VaccineReminderResult> {
+    const result = emptyResult();
+    const now = new Date();
+    const { dayOfWeek, timezones, dryRun = false } = options;
+
+    const links = await prisma.babyProfessional.findMany({
+      where: {
+        role: 'PEDIATRICIAN',
+        professional: { status: 'ACTIVE', userId: { not: null } },
+      },
+      select: {
+        babyId: true,
+        professional: { select: { userId: true } },
+      },
+    });
+
+    const babyIdsByUser = new Map<number, Set<number>>();
+    for (const link of links) {
+      const userId = link.professional.userId!;
+      if (!babyIdsByUser.has(userId)) babyIdsByUser.set(userId, new Set());
+      babyIdsByUser.get(userId)!.add(link.babyId);
+    }
+    if (babyIdsByUser.size === 0) {
+      return result;
+    }
+
+    const timezoneByUser = await this.getTimezones([...babyIdsByUser.keys()]);
+
+    const overdue = await prisma.babyVaccineRecord.findMany({
+      where: {
+        babyId: { in: [...new Set(links.map(l => l.babyId))] },
+        status: VaccineStatus.PENDING,
+        recommendedAt: { lt: now },
+      },
+      select: {
+        id: true,
+        babyId: true,
+        vaccineName: true,
+        doseLabel: true,
+        recommendedAt: true,
+        baby: { select: { name: true } },
+      },
+      orderBy: { recommendedAt: 'asc' },
+    });
+
+    for (const [userId, babyIds] of babyIdsByUser) {
+      const timezone = timezoneByUser.get(userId) ?? DEFAULT_TIMEZONE;
+      if (timezones && timezones.length > 0 && !timezones.includes(timezone)) continue;
+      if (Number(formatInUserTimezone(now, timezone, 'i')) % 7 !== dayOfWeek) continue;
+
+      // Atrasada = recomendada antes de hoje no fuso do pediatra
+      const today = localToday(now, timezone);
+      const patients = new Map<number, { babyName: string; doses: ReminderRecord[] }>();
+      for (const record of overdue) {
+        if (!babyIds.has(record.babyId) || recordDate(record) >= today) continue;
+        if (!patients.has(record.babyId)) patients.set(record.babyId, { babyName: record.baby.name, doses: [] });
+        patients.get(record.babyId)!.doses.push(record);
+      }
+      if (patients.size === 0) continue;
+
+      result.eligible++;
+      if (dryRun) continue;
+
+      const dedupe = await checkRateLimit(`vaccine_digest:${userId}`, DIGEST_DEDUPE_WINDOW_MS, 1);
+      if (!dedupe.allowed) continue;
+
+      const delivery = await NotificationDispatcherService.dispatch(
+        userId,
+        this.buildDigestMessage([...patients.values()], today)
+      );
+      countPush(result, delivery);
+    }
+
+    logger.info('[VaccineReminder] Pediatrician digest processed', { ...result, dryRun });
+    return result;
+  }
+
+  /**
+   * Link do app para marcar a dose como aplicada
+   */
+  static markAsAppliedPath(babyId: number, recordId: number): string {
+    return `/babies/${babyId}/vaccines/${recordId}?action=apply`;
+  }
+
+  /**
+   * Etapa do lembrete para uma dose a `daysUntil` dias (negativo = atrasada)
+   */
+  private static resolveStage(
+    daysUntil: number,
+    daysBefore: number,
+    escalationDays: number[],
+    maxOverdueDays: number
+  ): VaccineReminderStage | null {
+    if (daysUntil > 0) return daysUntil <= daysBefore ? 'upcoming' : null;
+    if (daysUntil === 0) return 'due';
+
+    const daysOverdue = -daysUntil;
+    if (daysOverdue > maxOverdueDays) return null;
+
+    // Só a etapa mais alta já alcançada (sem disparar as anteriores de uma vez)
+    let level = 0;
+    escalationDays.forEach((threshold, index) => {
+      if (daysOverdue >= threshold) level = index + 1;
+    });
+    return level > 0 ? `overdue_${level}` : null;
+  }
+
+  private static buildReminderMessage(
+    record: ReminderRecord,
+    stage: VaccineReminderStage,
+    daysUntil: number
+  ): NotificationMessage {
+    const dose = `${record.vaccineName} (${record.doseLabel})`;
+    const babyName = record.baby.name;
+    const path = this.markAsAppliedPath(record.babyId, record.id);
+    const overdueLevel = stage.startsWith('overdue_') ? parseInt(stage.slice('overdue_'.length), 10) : 0;
+
+    let title: string;
+    let body: string;
+    if (stage === 'upcoming') {
+      title = 'Vacina chegando 💉';
+      body = daysUntil === 1
+        ? `Amanhã é o dia da ${dose} de ${babyName}.`
+        : `A ${dose} de ${babyName} está prevista para daqui a ${daysUntil} dias.`;
+    } else if (stage === 'due') {
+      title = 'Dia de vacina 💉';
+      body = `Hoje é o dia recomendado da ${dose} de ${babyName}.`;
+    } else {
+      title = 'Vacina atrasada ⚠️';
+      body = `A ${dose} de ${babyName} está atrasada há ${-daysUntil} dias. Já aplicou? Marque no app.`;
+    }
+
+    const data = {
+      type: 'vaccine_reminder',
+      babyId: String(record.babyId),
+      recordId: String(record.id),
+      stage,
+      action: 'mark_applied',
+    };
+
+    return {
+      category: 'reminder',
+      severity: overdueLevel > 0 ? 'warning' : 'info',
+      push: {
+        title,
+        body,
+        clickAction: path,
+        tag: `vaccine-${record.id}`,
+        data,
+      },
+      inApp: {
+        title,
+        message: body,
+        type: 'REMINDER',
+        babyId: record.babyId,
+        ctaLabel: 'Marcar como aplicada',
+        ctaUrl: path,
+        sourceKey: `vaccine:${record.id}:${stage}`,
+        meta: data,
+      },
+      email: overdueLevel >= EMAIL_FROM_OVERDUE_STAGE
+        ? {
+            templateType: 'vaccine_overdue',
+            subject: `Vacina atrasada: ${dose}`,
+            customBody: [
+              `<p>${escapeHtml(body)}</p>`,
+              '<p>Se a dose já foi aplicada, registre a data para manter a carteira de vacinação em dia. ',
+              'Se ainda não, procure a unidade de saúde ou o pediatra.</p>',
+              `<p><a href="${env.FRONTEND_URL}${path}">Marcar como aplicada</a></p>`,
+            ].join(''),
+          }
+        : undefined,
+    };
+  }
+
+  private static buildDigestMessage(
+    patients: Array<{ babyName: string; doses: ReminderRecord[] }>,
+    today: string
+  ): NotificationMessage {
+    const totalDoses = patients.reduce((sum, p) => sum + p.doses.length, 0);
+    const title = 'Vacinas atrasadas dos pacientes 💉';
+    const body = patients.length === 1
+      ? `${patients[0].babyName} tem ${totalDoses} dose(s) de vacina atrasada(s).`
+      : `${patients.length} pacientes têm ${totalDoses} doses de vacina atrasadas.`;
+    const path = '/prof/patients?filter=vaccines_overdue';
+
+    const rows = patients.slice(0, DIGEST_MAX_PATIENTS).map(patient => {
+      const doses = patient.doses.map(d => {
+        const days = differenceInCalendarDays(parseISO(today), parseISO(recordDate(d)));
+        return `${escapeHtml(d.vaccineName)} (${escapeHtml(d.doseLabel)}) — ${days} dias`;
+      });
+      return `<li><strong>${escapeHtml(patient.babyName)}</strong>: ${doses.join('; ')}</li>`;
+    });
+    const remaining = patients.length - DIGEST_MAX_PATIENTS;
+
+    return {
+      category: 'clinical',
+      push: {
+        title,
+        body,
+        clickAction: path,
+        tag: 'prof-vaccine-digest',
+        data: { type: 'prof_vaccine_digest', patients: String(patients.length) },
+      },
+      email: {
+        templateType: 'prof_vaccine_digest',
+        subject: title,
+        customBody: [
+          `<p>${escapeHtml(body)}</p>`,
+          `<ul>${rows.join('')}</ul>`,
+          remaining > 0 ? `<p>E mais ${remaining} paciente(s).</p>` : '',
+          `<p><a href="${env.FRONTEND_URL}${path}">Ver pacientes</a></p>`,
+        ].join(''),
+      },
+    };
+  }
+
+  /**
+   * Pais com acesso às vacinas de cada bebê, com o fuso de cada um
+   */
+  private static async getParentRecipients(
+    babyIds: number[],
+    timezones?: string[]
+  ): Promise<Map<number, Array<{ userId: number; timezone: string }>>> {
+    const members = await prisma.babyMember.findMany({
+      where: {
+        babyId: { in: babyIds },
+        memberType: BabyMemberType.PARENT,
+        ...activeMemberWhere(),
+        user: { status: 'ACTIVE', isActive: true },
+      },
+      select: { babyId: true, userId: true, role: true, permissions: true },
+    });
+
+    const timezoneByUser = await this.getTimezones(members.map(m => m.userId));
+    const byBaby = new Map<number, Array<{ userId: number; timezone: string }>>();
+
+    for (const member of members) {
+      const permissions = resolveBabyMemberPermissions(member.role, member.permissions);
+      if (!hasPermission(permissions, 'vaccines:read')) continue;
+
+      const timezone = timezoneByUser.get(member.userId) ?? DEFAULT_TIMEZONE;
+      if (timezones && timezones.length > 0 && !timezones.includes(timezone)) continue;
+
+      if (!byBaby.has(member.babyId)) byBaby.set(member.babyId, []);
+      byBaby.get(member.babyId)!.push({ userId: member.userId, timezone });
+    }
+
+    return byBaby;
+  }
+
+  private static async getTimezones(userIds: number[]): Promise<Map<number, string>> {
+    const settings = await prisma.userSettings.findMany({
+      where: { userId: { in: [...new Set(userIds)] } },
+      select: { userId: true, timezone: true },
+    });
+    return new Map(settings.map(s => [s.userId, s.timezone || DEFAULT_TIMEZONE]));
+  }
+}
@@ -2,8 +2,16 @@
 import { prisma } from '../config/database';
 import { AppError } from '../utils/errors/AppError';
 import { requireBabyAccessByCaregiverId } from '../utils/helpers/baby-permission.helper';
-import { VaccineStatus, VaccineCalendarSource } from '@prisma/client';
-import { addMonths, addDays, isBefore, startOfDay, differenceInDays } from 'date-fns';
+import {
+  BabyVaccineRecord,
+  VaccineCalendarSource,
+  VaccineCalendarStatus,
+  VaccineStatus,
+} from '@prisma/client';
+import { BabyPermission } from '../types';
+import { RealtimeService } from './realtime.service';
+import { computeCatchUpSchedule } from '../utils/helpers/vaccine-schedule.helper';
+import { addDays, isBefore, startOfDay, differenceInDays } from 'date-fns';
 
 // ==========================================
 // Types
@@ -11,7 +19,12 @@ import { addMonths, addDays, isBefore, startOfDay, differenceInDays } from 'date
 
 interface SyncVaccinesInput {
   babyId: number;
-  source?: VaccineCalendarSource;
+  calendarId?: number;
+}
+
+interface CalendarFilters {
+  country?: string;
+  clinicId?: number;
 }
 
 interface CreateVaccineRecordInput {
@@ -45,6 +58,7 @@ interface VaccineSummary {
   pending: number;
   overdue: number;
   skipped: number;
+  invalid: number;
   nextVaccines: {
     id: number;
     vaccineName: string;
@@ -55,23 +69,13 @@ interface VaccineSummary {
   }[];
 }
 
+// Calendário usado quando o país do bebê não tem um padrão publicado
+const DEFAULT_CALENDAR_COUNTRY = 'BR';
+
 // ==========================================
 // Helper Functions
 // ==========================================
 
-/**
- * Calcula a data recomendada baseada na data de nascimento e idade em meses
- */
-function calculateRecommendedDate(birthDate: Date, ageMonths: number, ageDays?: number | null): Date {
-  let recommendedDate = addMonths(new Date(birthDate), ageMonths);
-  
-  if (ageDays) {
-    recommendedDate = addDays(recommendedDate, ageDays);
-  }
-  
-  return startOfDay(recommendedDate);
-}
-
 /**
  * Determina se uma vacina está atrasada
  */
@@ -90,33 +94,44 @@ function isVaccineOverdue(recommendedAt: Date, status: VaccineStatus): boolean {
 
 export class VaccineService {
   /**
-   * Lista calendários disponíveis
+   * Lista calendários publicados (nacionais e, se pedido, os de uma clínica)
    */
-  static async getAvailableCalendars() {
-    // Por enquanto só PNI, mas arquitetura permite expandir
-    return [
-      {
-        code: 'PNI',
-        name: 'Programa Nacional de Imunização (PNI)',
-        description: 'Calendário oficial do Ministério da Saúde do Brasil',
-        isDefault: true,
+  static async getAvailableCalendars(filters: CalendarFilters = {}) {
+    const calendars = await prisma.vaccineCalendar.findMany({
+      where: {
+        status: VaccineCalendarStatus.PUBLISHED,
+        clinicId: filters.clinicId ?? null,
+        ...(filters.country && { country: filters.country.toUpperCase() }),
       },
-      // Futuro: SBIm
-      // {
-      //   code: 'SBIM',
-      //   name: 'Sociedade Brasileira de Imunizações (SBIm)',
-      //   description: 'Calendário para rede privada com vacinas adicionais',
-      //   isDefault: false,
-      // },
-    ];
+      include: { _count: { select: { definitions: true } } },
+      orderBy: [{ country: 'asc' }, { isDefault: 'desc' }, { name: 'asc' }],
+    });
+
+    return calendars.map(({ _count, ...calendar }) => ({
+      id: calendar.id,
+      code: calendar.code,
+      version: calendar.version,
+      name: calendar.name,
+      description: calendar.description,
+      country: calendar.country,
+      source: calendar.source,
+      clinicId: calendar.clinicId,
+      isDefault: calendar.isDefault,
+      publishedAt: calendar.publishedAt,
+      definitions: _count.definitions,
+    }));
   }
 
   /**
-   * Lista definições de vacinas do calendário
+   * Lista definições de vacinas do calendário (padrão do país se não informado)
    */
-  static async getVaccineDefinitions(source: VaccineCalendarSource = VaccineCalendarSource.PNI) {
+  static async getVaccineDefinitions(calendarId?: number) {
+    const calendar = calendarId
+      ? await this.getPublishedCalendar(calendarId)
+      : await this.getDefaultCalendar(DEFAULT_CALENDAR_COUNTRY);
+
     const definitions = await prisma.vaccineDefinition.findMany({
-      where: { source },
+      where: { calendarId: calendar.id },
       orderBy: [
         { ageMonths: 'asc' },
         { sortOrder: 'asc' },
@@ -126,74 +141,137 @@ export class VaccineService {
     return definitions;
   }
 
+  /**
+   * Calendário padrão (publicado) do país, com o padrão brasileiro como fallback
+   */
+  static async getDefaultCalendar(country: string) {
+    const calendars = await prisma.vaccineCalendar.findMany({
+      where: { status: VaccineCalendarStatus.PUBLISHED, isDefault: true, clinicId: null },
+      orderBy: { version: 'desc' },
+    });
+
+    const calendar = calendars.find(c => c.country === country)
+      ?? calendars.find(c => c.country === DEFAULT_CALENDAR_COUNTRY)
+      ?? calendars[0];
+    if (!calendar) throw AppError.notFound('Nenhum calendário de vacinação disponível');
+
+    return calendar;
+  }
+
   /**
    * Sincroniza vacinas do calendário para o bebê (idempotente)
-   * Cria registros PENDING para vacinas que ainda não existem
+   * Usa o calendário escolhido para o bebê (ou o padrão do país); informar
+   * `calendarId` troca o calendário do bebê.
    */
   static async syncVaccinesForBaby(caregiverId: number, input: SyncVaccinesInput) {
-    const { babyId, source = VaccineCalendarSource.PNI } = input;
+    const { babyId } = input;
 
     // Verificar acesso ao bebê
-    await requireBabyAccessByCaregiverId(caregiverId, babyId);
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'vaccines:write');
     const baby = await prisma.baby.findUnique({ where: { id: babyId } });
     if (!baby) throw AppError.notFound('Bebê não encontrado');
 
-    // Buscar definições do calendário
-    const definitions = await prisma.vaccineDefinition.findMany({
-      where: { source },
-      orderBy: [
-        { ageMonths: 'asc' },
-        { sortOrder: 'asc' },
-      ],
-    });
+    let calendarId = input.calendarId ?? baby.vaccineCalendarId;
+    if (input.calendarId) {
+      await this.getPublishedCalendar(input.calendarId);
+    } else if (!calendarId) {
+      calendarId = (await this.getDefaultCalendar(baby.country)).id;
+    }
 
-    // Buscar registros existentes
-    const existingRecords = await prisma.babyVaccineRecord.findMany({
-      where: { babyId, source },
-    });
+    const result = await this.applyCalendarToBaby(babyId, calendarId!);
 
-    const existingKeys = new Set(
-      existingRecords.map(r => `${r.vaccineKey}:${r.doseLabel}`)
-    );
+    if (result.synced > 0 || result.relinked > 0 || result.removed > 0) {
+      RealtimeService.publish(babyId, 'vaccine.synced', {
+        actorUserId: await this.getActorUserId(caregiverId),
+        data: { calendarId: result.calendarId, synced: result.synced, removed: result.removed },
+      });
+    }
 
-    // Criar registros para vacinas que não existem
-    const recordsToCreate: CreateVaccineRecordInput[] = [];
+    return result;
+  }
 
-    for (const def of definitions) {
-      const key = `${def.vaccineKey}:${def.doseLabel}`;
-      
-      if (!existingKeys.has(key)) {
-        const recommendedAt = calculateRecommendedDate(
-          baby.birthDate,
-          def.ageMonths,
-          def.ageDays
-        );
+  /**
+   * Aplica um calendário (ou uma nova versão dele) ao bebê, sem verificação de acesso:
+   * - doses do calendário que o bebê já tem (mesma vacina/dose) passam a apontar para ele;
+   * - doses novas são criadas como PENDING;
+   * - pendentes de calendários anteriores que não existem no novo são removidas;
+   * - aplicadas/puladas fora do novo calendário ficam como histórico.
+   * Em seguida recalcula o calendário de recuperação.
+   */
+  static async applyCalendarToBaby(babyId: number, calendarId: number) {
+    const baby = await prisma.baby.findUnique({ where: { id: babyId }, select: { birthDate: true } });
+    if (!baby) throw AppError.notFound('Bebê não encontrado');
+
+    const calendar = await prisma.vaccineCalendar.findUnique({
+      where: { id: calendarId },
+      include: { definitions: { orderBy: [{ ageMonths: 'asc' }, { sortOrder: 'asc' }] } },
+    });
+    if (!calendar) throw AppError.notFound('Calendário de vacinação não encontrado');
+
+    const records = await prisma.babyVaccineRecord.findMany({ where: { babyId } });
+    const definitionKeys = new Set(calendar.definitions.map(d => `${d.vaccineKey}:${d.doseLabel}`));
+
+    // Registro existente de cada dose do calendário (prefere o de mesma origem)
+    const matches = new Map<string, BabyVaccineRecord>();
+    for (const record of records) {
+      const key = `${record.vaccineKey}:${record.doseLabel}`;
+      if (!definitionKeys.has(key)) continue;
+      const current = matches.get(key);
+      if (!current || (current.source !== calendar.source && record.source === calendar.source)) {
+        matches.set(key, record);
+      }
+    }
 
-        recordsToCreate.push({
+    const matchedIds = new Set([...matches.values()].map(r => r.id));
+    const toRemove = records.filter(r =>
+      r.status === VaccineStatus.PENDING && r.calendarId !== null && !matchedIds.has(r.id)
+    );
+    const toRelink = calendar.definitions.filter(def => {
+      const record = matches.get(`${def.vaccineKey}:${def.doseLabel}`);
+      return record && (record.calendarId !== calendar.id || record.source !== calendar.source);
+    });
+    const toCreate = calendar.definitions.filter(def => !matches.has(`${def.vaccineKey}:${def.doseLabel}`));
+
+    await prisma.$transaction([
+      prisma.babyVaccineRecord.deleteMany({ where: { id: { in: toRemove.map(r => r.id) } } }),
+      ...toRelink.map(def =>
+        prisma.babyVaccineRecord.update({
+          where: { id: matches.get(`${def.vaccineKey}:${def.doseLabel}`)!.id },
+          data: {
+            calendarId: calendar.id,
+            source: calendar.source,
+            vaccineName: def.name,
+            doseNumber: def.doseNumber,
+          },
+        })
+      ),
+      prisma.babyVaccineRecord.createMany({
+        data: toCreate.map(def => ({
           babyId,
+          calendarId: calendar.id,
           vaccineKey: def.vaccineKey,
           vaccineName: def.name,
           doseLabel: def.doseLabel,
           doseNumber: def.doseNumber,
-          recommendedAt,
+          // Provisória: o calendário de recuperação define a data real
+          recommendedAt: baby.birthDate,
           status: VaccineStatus.PENDING,
-          source,
-        });
-      }
-    }
-
-    // Criar registros em batch
-    if (recordsToCreate.length > 0) {
-      await prisma.babyVaccineRecord.createMany({
-        data: recordsToCreate,
+          source: calendar.source,
+        })),
         skipDuplicates: true,
-      });
-    }
+      }),
+      prisma.baby.update({ where: { id: babyId }, data: { vaccineCalendarId: calendar.id } }),
+    ]);
+
+    await this.applyCatchUpSchedule(babyId, baby.birthDate);
 
     return {
-      synced: recordsToCreate.length,
-      existing: existingRecords.length,
-      total: definitions.length,
+      calendarId: calendar.id,
+      synced: toCreate.length,
+      relinked: toRelink.length,
+      removed: toRemove.length,
+      existing: matches.size,
+      total: calendar.definitions.length,
     };
   }
 
@@ -202,7 +280,7 @@ export class VaccineService {
    */
   static async getVaccineSummary(caregiverId: number, babyId: number): Promise<VaccineSummary> {
     // Verificar acesso ao bebê
-    await requireBabyAccessByCaregiverId(caregiverId, babyId);
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'vaccines:read');
 
     // Buscar todos os registros
     const records = await prisma.babyVaccineRecord.findMany({
@@ -217,6 +295,7 @@ export class VaccineService {
     let pending = 0;
     let overdue = 0;
     let skipped = 0;
+    let invalid = 0;
 
     const nextVaccines: VaccineSummary['nextVaccines'] = [];
 
@@ -226,6 +305,7 @@ export class VaccineService {
       switch (record.status) {
         case VaccineStatus.APPLIED:
           applied++;
+          if (!record.isValid) invalid++;
           break;
         case VaccineStatus.SKIPPED:
           skipped++;
@@ -259,6 +339,7 @@ export class VaccineService {
       pending,
       overdue,
       skipped,
+      invalid,
       nextVaccines,
     };
   }
@@ -275,7 +356,7 @@ export class VaccineService {
     }
   ) {
     // Verificar acesso ao bebê
-    await requireBabyAccessByCaregiverId(caregiverId, babyId);
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, 'vaccines:read');
 
     const where: any = { babyId };
     
@@ -320,6 +401,7 @@ export class VaccineService {
     let pending = 0;
     let overdue = 0;
     let skipped = 0;
+    let invalid = 0;
 
     const nextVaccines: VaccineSummary['nextVaccines'] = [];
 
@@ -329,6 +411,7 @@ export class VaccineService {
       switch (record.status) {
         case VaccineStatus.APPLIED:
           applied++;
+          if (!record.isValid) invalid++;
           break;
         case VaccineStatus.SKIPPED:
           skipped++;
@@ -361,6 +444,7 @@ export class VaccineService {
       pending,
       overdue,
       skipped,
+      invalid,
       nextVaccines,
     };
   }
@@ -432,9 +516,14 @@ export class VaccineService {
   /**
    * Obtém um registro específico
    */
-  static async getVaccineRecordById(caregiverId: number, babyId: number, recordId: number) {
+  static async getVaccineRecordById(
+    caregiverId: number,
+    babyId: number,
+    recordId: number,
+    permission: BabyPermission = 'vaccines:read'
+  ) {
     // Verificar acesso ao bebê
-    await requireBabyAccessByCaregiverId(caregiverId, babyId);
+    await requireBabyAccessByCaregiverId(caregiverId, babyId, permission);
     
     const record = await prisma.babyVaccineRecord.findFirst({
       where: {
@@ -463,7 +552,7 @@ export class VaccineService {
    */
   static async createManualRecord(caregiverId: number, input: CreateVaccineRecordInput) {
     // Verificar acesso ao bebê
-    await requireBabyAccessByCaregiverId(caregiverId, input.babyId);
+    await requireBabyAccessByCaregiverId(caregiverId, input.babyId, 'vaccines:write');
 
     // Verificar duplicidade
     const existing = await prisma.babyVaccineRecord.findFirst({
@@ -497,6 +586,14 @@ export class VaccineService {
       },
     });
 
+    await this.applyCatchUpSchedule(input.babyId);
+
+    RealtimeService.publish(input.babyId, 'vaccine.created', {
+      entityId: record.id,
+      actorUserId: await this.getActorUserId(caregiverId),
+      data: record,
+    });
+
     return record;
   }
 
@@ -510,7 +607,7 @@ export class VaccineService {
     input: UpdateVaccineRecordInput
   ) {
     // Verificar acesso
-    const record = await this.getVaccineRecordById(caregiverId, babyId, recordId);
+    const record = await this.getVaccineRecordById(caregiverId, babyId, recordId, 'vaccines:write');
 
     // Construir dados de atualização
     const updateData: any = {};
@@ -543,11 +640,36 @@ export class VaccineService {
       updateData.notes = input.notes;
     }
 
-    const updated = await prisma.babyVaccineRecord.update({
+    let updated = await prisma.babyVaccineRecord.update({
       where: { id: recordId },
       data: updateData,
     });
 
+    // Voltou a pendente: os lembretes recomeçam do zero
+    if (updated.status === VaccineStatus.PENDING && record.status !== VaccineStatus.PENDING) {
+      await prisma.vaccineReminder.deleteMany({ where: { recordId } });
+    }
+
+    // Aplicação registrada ou desfeita: revalida a dose e reprograma o restante da série
+    if (input.appliedAt !== undefined || input.status !== undefined) {
+      const changed = await this.applyCatchUpSchedule(babyId);
+      if (changed.includes(recordId)) {
+        updated = await prisma.babyVaccineRecord.findUniqueOrThrow({ where: { id: recordId } });
+      }
+      if (changed.some(id => id !== recordId)) {
+        RealtimeService.publish(babyId, 'vaccine.synced', {
+          actorUserId: await this.getActorUserId(caregiverId),
+          data: { rescheduled: changed.filter(id => id !== recordId).length },
+        });
+      }
+    }
+
+    RealtimeService.publish(babyId, 'vaccine.updated', {
+      entityId: recordId,
+      actorUserId: await this.getActorUserId(caregiverId),
+      data: updated,
+    });
+
     return {
       ...updated,
       isOverdue: isVaccineOverdue(updated.recommendedAt, updated.status),
@@ -629,55 +751,33 @@ export class VaccineService {
     recordId: number
   ) {
     // Verificar acesso
-    await this.getVaccineRecordById(caregiverId, babyId, recordId);
+    await this.getVaccineRecordById(caregiverId, babyId, recordId, 'vaccines:write');
 
     await prisma.babyVaccineRecord.delete({
       where: { id: recordId },
     });
+    await this.applyCatchUpSchedule(babyId);
+
+    RealtimeService.publish(babyId, 'vaccine.deleted', {
+      entityId: recordId,
+      actorUserId: await this.getActorUserId(caregiverId),
+    });
   }
 
   /**
    * Recalcula datas recomendadas se a data de nascimento do bebê mudar
-   * Mantém registros já aplicados, apenas ajusta datas de PENDING
+   * Mantém registros já aplicados (revalidando-os), ajusta datas de PENDING
    */
   static async recalculateRecommendedDates(babyId: number, newBirthDate: Date) {
-    // Buscar todos os registros pendentes
-    const pendingRecords = await prisma.babyVaccineRecord.findMany({
-      where: {
-        babyId,
-        status: VaccineStatus.PENDING,
-      },
-    });
-
-    // Buscar definições para recalcular
-    const definitions = await prisma.vaccineDefinition.findMany({
-      where: {
-        vaccineKey: { in: pendingRecords.map(r => r.vaccineKey) },
-      },
-    });
+    const changed = await this.applyCatchUpSchedule(babyId, newBirthDate);
 
-    const defMap = new Map(
-      definitions.map(d => [`${d.vaccineKey}:${d.doseLabel}`, d])
-    );
-
-    // Atualizar datas
-    for (const record of pendingRecords) {
-      const def = defMap.get(`${record.vaccineKey}:${record.doseLabel}`);
-      if (def) {
-        const newRecommendedAt = calculateRecommendedDate(
-          newBirthDate,
-          def.ageMonths,
-          def.ageDays
-        );
-
-        await prisma.babyVaccineRecord.update({
-          where: { id: record.id },
-          data: { recommendedAt: newRecommendedAt },
-        });
-      }
+    if (changed.length > 0) {
+      RealtimeService.publish(babyId, 'vaccine.synced', {
+        data: { updated: changed.length },
+      });
     }
 
-    return { updated: pendingRecords.length };
+    return { updated: changed.length };
   }
 
   /**
@@ -727,6 +827,117 @@ export class VaccineService {
       daysOverdue: differenceInDays(today, record.recommendedAt),
     }));
   }
+
+  /**
+   * Recalcula o calendário de recuperação do bebê (intervalos mínimos, idade
+   * mínima/máxima) e grava só as doses que mudaram. Doses inválidas ganham um
+   * registro pendente de repetição (lembretes e resumo passam a vê-lo) e
+   * repetições que deixaram de ser necessárias são removidas. Lembretes já
+   * enviados de doses que mudaram de data deixam de valer. Retorna os ids
+   * alterados, criados e removidos.
+   */
+  private static async applyCatchUpSchedule(babyId: number, birthDate?: Date): Promise<number[]> {
+    if (!birthDate) {
+      const baby = await prisma.baby.findUnique({ where: { id: babyId }, select: { birthDate: true } });
+      if (!baby) return [];
+      birthDate = baby.birthDate;
+    }
+
+    const records = await prisma.babyVaccineRecord.findMany({ where: { babyId } });
+    if (records.length === 0) return [];
+
+    const calendarIds = [...new Set(records.map(r => r.calendarId).filter((id): id is number => id !== null))];
+    const definitions = await prisma.vaccineDefinition.findMany({
+      where: { calendarId: { in: calendarIds } },
+    });
+
+    const recordsById = new Map(records.map(r => [r.id, r]));
+    const sameDate = (a: Date | null, b: Date | null) => (a?.getTime() ?? null) === (b?.getTime() ?? null);
+
+    const schedule = computeCatchUpSchedule(birthDate, definitions, records);
+    const changed = schedule.filter(dose => {
+      const record = recordsById.get(dose.recordId)!;
+      return !dose.obsolete && (
+        !sameDate(record.recommendedAt, dose.recommendedAt)
+        || !sameDate(record.validUntil, dose.validUntil)
+        || record.isValid !== dose.isValid
+        || record.invalidReason !== dose.invalidReason
+      );
+    });
+    const obsoleteIds = schedule.filter(dose => dose.obsolete).map(dose => dose.recordId);
+    const repeats = schedule.filter(dose => dose.repeat !== null);
+    if (changed.length === 0 && obsoleteIds.length === 0 && repeats.length === 0) return [];
+
+    const created = await prisma.$transaction(async (tx) => {
+      for (const dose of changed) {
+        await tx.babyVaccineRecord.update({
+          where: { id: dose.recordId },
+          data: {
+            recommendedAt: dose.recommendedAt,
+            validUntil: dose.validUntil,
+            isValid: dose.isValid,
+            invalidReason: dose.invalidReason,
+          },
+        });
+      }
+
+      if (obsoleteIds.length > 0) {
+        await tx.babyVaccineRecord.deleteMany({ where: { id: { in: obsoleteIds } } });
+      }
+
+      if (repeats.length === 0) return [];
+      return tx.babyVaccineRecord.createManyAndReturn({
+        data: repeats.map(dose => {
+          const original = recordsById.get(dose.recordId)!;
+          return {
+            babyId,
+            calendarId: original.calendarId,
+            vaccineKey: original.vaccineKey,
+            vaccineName: original.vaccineName,
+            doseLabel: dose.repeat!.doseLabel,
+            doseNumber: original.doseNumber,
+            recommendedAt: dose.repeat!.recommendedAt,
+            validUntil: dose.validUntil,
+            status: VaccineStatus.PENDING,
+            source: original.source,
+            repeatOfId: original.id,
+          };
+        }),
+        skipDuplicates: true,
+      });
+    });
+
+    const rescheduled = changed
+      .filter(dose => !sameDate(recordsById.get(dose.recordId)!.recommendedAt, dose.recommendedAt))
+      .map(dose => dose.recordId);
+    if (rescheduled.length > 0) {
+      await prisma.vaccineReminder.deleteMany({ where: { recordId: { in: rescheduled } } });
+    }
+
+    return [...changed.map(dose => dose.recordId), ...obsoleteIds, ...created.map(record => record.id)];
+  }
+
+  /**
+   * Calendário publicado (os usuários não veem rascunhos nem versões arquivadas)
+   */
+  private static async getPublishedCalendar(calendarId: number) {
+    const calendar = await prisma.vaccineCalendar.findUnique({ where: { id: calendarId } });
+    if (!calendar || calendar.status !== VaccineCalendarStatus.PUBLISHED) {
+      throw AppError.notFound('Calendário de vacinação não encontrado');
+    }
+    return calendar;
+  }
+
+  /**
+   * Usuário responsável pela alteração (para o stream do bebê)
+   */
+  private static async getActorUserId(caregiverId: number): Promise<number | null> {
+    const caregiver = await prisma.caregiver.findUnique({
+      where: { id: caregiverId },
+      select: { userId: true },
+    });
+    return caregiver?.userId ?? null;
+  }
 }
 
 export default VaccineService;
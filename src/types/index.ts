@@ -1,6 +1,6 @@
 // Olive Baby API - Type Definitions
 import { Request } from 'express';
-import { UserRole } from '@prisma/client';
+import { BabyMemberRole, JobRunTrigger, RoutineType, UserRole } from '@prisma/client';
 
 // ==========================================
 // Auth Types
@@ -78,7 +78,39 @@ export interface SleepMeta {
   wokeUpCount?: number;
 }
 
-export type RoutineMeta = FeedingMeta | DiaperMeta | MilkExtractionMeta | BathMeta | SleepMeta;
+export type CustomRoutineMeta = Record<string, string | number | boolean>;
+
+export type RoutineMeta = FeedingMeta | DiaperMeta | MilkExtractionMeta | BathMeta | SleepMeta | CustomRoutineMeta;
+
+// ==========================================
+// Custom Routine Types
+// ==========================================
+
+export type CustomMetaFieldType = 'number' | 'text' | 'boolean' | 'enum' | 'datetime';
+
+export interface CustomMetaFieldDefinition {
+  key: string;
+  label: string;
+  type: CustomMetaFieldType;
+  unit?: string;
+  options?: string[];   // obrigatório para type = enum
+  required?: boolean;
+  min?: number;         // apenas para type = number
+  max?: number;         // apenas para type = number
+}
+
+export interface CustomRoutineStats {
+  customTypeId: number;
+  key: string;
+  name: string;
+  icon: string | null;
+  isTimed: boolean;
+  count24h: number;
+  countsPerDay: number[];
+  totalMinutes24h: number;
+  minutesPerDay: number[];
+  lastTime: string | null;
+}
 
 // ==========================================
 // Stats Types
@@ -130,10 +162,280 @@ export interface BabyStats {
   bathCount24h: number;
   bathCountsPerDay: number[];
   
+  // Rotinas personalizadas (uma entrada por tipo ativo do bebê)
+  customRoutines: CustomRoutineStats[];
+
   // Atividade por hora (0-23)
   hourlyCounts: number[];
 }
 
+// ==========================================
+// Sleep Analytics
+// ==========================================
+
+export type SleepRangeStatus = 'below' | 'within' | 'above' | 'unknown';
+
+export interface SleepRangeComparison {
+  value: number | null;
+  min: number;
+  max: number;
+  status: SleepRangeStatus;
+}
+
+export interface SleepDailyAnalytics {
+  date: string;                  // yyyy-MM-dd no fuso do usuário
+  napCount: number;
+  napMinutes: number;
+  nightMinutes: number;          // noite que começa na data (ex.: 19h do dia até 7h do seguinte)
+  totalMinutes: number;
+  longestStretchMinutes: number | null;
+  nightWakings: number;
+  averageWakeWindowMinutes: number | null;
+  wakeWindows: number;
+}
+
+export interface SleepPeriodSummary {
+  days: number;
+  daysWithData: number;
+  averageTotalSleepHours: number | null;
+  averageNightSleepHours: number | null;
+  averageNapHours: number | null;
+  averageNapCount: number | null;
+  averageWakeWindowMinutes: number | null;
+  averageLongestStretchHours: number | null;
+  averageNightWakings: number | null;
+  comparison: {
+    totalSleepHours: SleepRangeComparison;
+    napCount: SleepRangeComparison;
+    wakeWindowMinutes: SleepRangeComparison;
+    longestStretchHours: SleepRangeComparison;
+  };
+}
+
+export type SleepConsolidationTrend = 'improving' | 'stable' | 'declining' | 'insufficient_data';
+
+export interface SleepAnalytics {
+  babyId: number;
+  timezone: string;
+  ageMonths: number;
+  generatedAt: Date;
+  nightWindow: { startHour: number; endHour: number };
+  current: {
+    isSleeping: boolean;
+    sleepingSince: Date | null;
+    lastSleepEndedAt: Date | null;
+    awakeMinutes: number | null;
+  };
+  daily: SleepDailyAnalytics[];
+  trends: {
+    last7d: SleepPeriodSummary;
+    last30d: SleepPeriodSummary;
+    consolidation: SleepConsolidationTrend;
+  };
+}
+
+// ==========================================
+// Lactation Report
+// ==========================================
+
+export type BreastSide = 'left' | 'right';
+export type SupplyTrend = 'increasing' | 'stable' | 'declining' | 'insufficient_data';
+
+export interface LactationSideSummary {
+  sessions: number;
+  minutes: number;                  // mamadas "ambos" contam metade para cada lado
+  averageSessionMinutes: number | null;
+  lastUsedAt: Date | null;
+}
+
+export interface LactationNextSide {
+  side: BreastSide | null;
+  reason: string;
+  lastSide: 'left' | 'right' | 'both' | null;
+  lastFeedingAt: Date | null;
+}
+
+export interface LactationSessionStats {
+  count: number;
+  averageMinutes: number | null;
+  medianMinutes: number | null;
+  p90Minutes: number | null;
+  shortSessions: number;            // < 5 min
+  longSessions: number;             // > 45 min
+}
+
+export interface ClusterFeedingEpisode {
+  start: Date;
+  end: Date;
+  feedings: number;
+}
+
+export interface LactationDaily {
+  date: string;
+  feedings: number;
+  breastFeedings: number;
+  bottleFeedings: number;
+  solidFeedings: number;
+  complementFeedings: number;
+  breastMinutes: number;
+  leftMinutes: number;
+  rightMinutes: number;
+  bottleMl: number;
+  complementMl: number;
+  extractionSessions: number;
+  extractionMl: number;
+  clusterEpisodes: number;
+}
+
+export interface LactationRatios {
+  breastPct: number | null;
+  bottlePct: number | null;
+  solidPct: number | null;
+  complementPct: number | null;     // mamadas com complemento
+  breastMilkBottleMl: number;
+  formulaBottleMl: number;
+}
+
+export interface LactationSupplySummary {
+  trend: SupplyTrend;
+  recentMlPerSession: number | null;     // últimos 3 dias
+  baselineMlPerSession: number | null;   // dias anteriores do período
+  changePct: number | null;
+  feedingExtractionCorrelation: number | null;  // Pearson entre mamadas no peito e ml extraídos por dia
+  alert: string | null;
+}
+
+export interface LactationReport {
+  babyId: number;
+  timezone: string;
+  generatedAt: Date;
+  period: { days: number; start: Date; end: Date };
+  sides: {
+    left: LactationSideSummary;
+    right: LactationSideSummary;
+    both: { sessions: number; minutes: number };
+    last24h: { leftMinutes: number; rightMinutes: number };
+    balancePct: number | null;      // % do tempo no lado esquerdo
+  };
+  nextSide: LactationNextSide;
+  sessions: LactationSessionStats;
+  clusterFeeding: {
+    episodes: number;
+    daysWithClusters: number;
+    recent: ClusterFeedingEpisode[];
+    typicalStartHour: number | null;
+  };
+  ratios: {
+    period: LactationRatios;
+    last7d: LactationRatios;
+    previous7d: LactationRatios | null;
+  };
+  supply: LactationSupplySummary;
+  daily: LactationDaily[];
+}
+
+// ==========================================
+// Routine Forecast
+// ==========================================
+
+export type RoutineForecastStatus = 'predicted' | 'in_progress' | 'insufficient_data';
+export type RoutineForecastConfidence = 'low' | 'medium' | 'high';
+
+export interface RoutineForecast {
+  routineType: 'FEEDING' | 'SLEEP';
+  status: RoutineForecastStatus;
+  referenceAt: Date | null;         // início da última mamada / fim do último sono
+  inProgressSince: Date | null;
+  predictedAt: Date | null;
+  windowStart: Date | null;         // intervalo de confiança (~80%)
+  windowEnd: Date | null;
+  typicalIntervalMinutes: number | null;
+  minutesUntil: number | null;      // negativo quando já passou do previsto
+  confidence: RoutineForecastConfidence | null;
+  sampleSize: number;
+}
+
+export interface BabyRoutineForecast {
+  babyId: number;
+  timezone: string;
+  generatedAt: Date;
+  feeding: RoutineForecast;
+  sleep: RoutineForecast;
+}
+
+// ==========================================
+// Shift Handoff
+// ==========================================
+
+export type HandoffSinceSource = 'query' | 'last_activity' | 'default';
+
+export interface HandoffFeedingSummary {
+  count: number;
+  breast: number;
+  bottle: number;
+  solid: number;
+  bottleMl: number;
+  totalMinutes: number;
+  lastAt: Date | null;
+  lastBreastSide: 'left' | 'right' | 'both' | null;
+}
+
+export interface HandoffSleepSummary {
+  count: number;                    // sonecas que começaram no período
+  totalMinutes: number;             // tempo dormido dentro do período (inclui sono em andamento)
+  lastWokeAt: Date | null;
+}
+
+export interface HandoffDiaperSummary {
+  count: number;
+  pee: number;                      // fraldas "ambos" contam nos dois
+  poop: number;
+  lastAt: Date | null;
+}
+
+export interface HandoffMedication {
+  id: number;
+  medicationName: string;
+  doseMg: number | null;
+  doseMl: number | null;
+  administeredAt: Date;
+  recordedBy: string | null;
+  warnings: unknown;
+}
+
+export interface HandoffOpenRoutine {
+  id: number;
+  routineType: RoutineType;
+  name: string;                     // rótulo amigável (nome do tipo personalizado para CUSTOM)
+  startTime: Date;
+  minutesElapsed: number;
+}
+
+export interface HandoffNote {
+  source: 'routine' | 'medication';
+  entityId: number;
+  routineType: RoutineType | null;
+  at: Date;
+  text: string;
+  author: string | null;
+}
+
+export interface HandoffSummary {
+  babyId: number;
+  babyName: string;
+  since: Date;
+  until: Date;
+  sinceSource: HandoffSinceSource;
+  timezone: string;
+  feeding: HandoffFeedingSummary;
+  sleep: HandoffSleepSummary;
+  diapers: HandoffDiaperSummary;
+  medications: HandoffMedication[];
+  openRoutines: HandoffOpenRoutine[];
+  notes: HandoffNote[];             // observações de outros membros (não de quem pediu)
+  highlights: string[];             // frases prontas para push/e-mail/assistente
+}
+
 // ==========================================
 // Export Options
 // ==========================================
@@ -142,7 +444,119 @@ export interface ExportOptions {
   babyId: number;
   startDate: Date;
   endDate: Date;
-  routineTypes?: ('FEEDING' | 'SLEEP' | 'DIAPER' | 'BATH' | 'MILK_EXTRACTION')[];
+  routineTypes?: ('FEEDING' | 'SLEEP' | 'DIAPER' | 'BATH' | 'MILK_EXTRACTION' | 'CUSTOM')[];
+}
+
+// ==========================================
+// Import
+// ==========================================
+
+export type ImportFormat = 'csv' | 'json';
+export type ImportRecordKind = 'FEEDING' | 'SLEEP' | 'DIAPER' | 'BATH' | 'MILK_EXTRACTION' | 'GROWTH' | 'MILESTONE';
+export type ImportWeightUnit = 'kg' | 'g' | 'lb';
+export type ImportLengthUnit = 'cm' | 'in';
+export type ImportVolumeUnit = 'ml' | 'oz';
+
+// Campo do Olive Baby -> nome da coluna (CSV) ou chave (JSON) no arquivo
+export interface ImportColumnMapping {
+  type?: string;
+  start?: string;               // data e hora de início
+  end?: string;                 // data e hora de fim
+  date?: string;                // data separada da hora (ex.: exportação em planilha)
+  startTimeOfDay?: string;
+  endTimeOfDay?: string;
+  durationMinutes?: string;     // minutos ou "h:mm"
+  notes?: string;
+  details?: string;             // texto livre com lado, ml, tipo de fralda etc.
+  feedingType?: string;
+  breastSide?: string;
+  amountMl?: string;
+  diaperType?: string;
+  weightKg?: string;
+  heightCm?: string;
+  headCircumferenceCm?: string;
+  milestone?: string;
+}
+
+export interface ImportMapping {
+  columns: ImportColumnMapping;
+  typeValues?: Record<string, ImportRecordKind>;  // valor da coluna de tipo -> registro
+  defaultType?: ImportRecordKind;                  // quando o arquivo não tem coluna de tipo
+  dateFormat?: string;                             // formato date-fns; sem ele tenta ISO e dd/MM/yyyy
+  delimiter?: string;
+  weightUnit?: ImportWeightUnit;
+  lengthUnit?: ImportLengthUnit;
+  volumeUnit?: ImportVolumeUnit;
+}
+
+export interface ImportPreset {
+  key: string;
+  name: string;
+  format: ImportFormat;
+  description: string;
+  mapping: ImportMapping;
+}
+
+export interface ImportRowIssue {
+  row: number;                  // linha no arquivo (CSV conta o cabeçalho como linha 1)
+  code: string;
+  message: string;
+}
+
+// ==========================================
+// Scheduler
+// ==========================================
+
+export interface ScheduledJobContext {
+  runId: number;
+  attempt: number;
+  trigger: JobRunTrigger;
+  scheduledFor: Date;
+  // Fusos em que o cron venceu neste disparo (jobs perUserTimezone); vazio = todos
+  timezones: string[];
+  payload: Record<string, unknown>;
+}
+
+export interface ScheduledJobDefinition {
+  name: string;
+  description: string;
+  cron: string;                 // 5 campos, avaliado em `timezone` ou no fuso de cada usuário
+  timezone?: string;
+  perUserTimezone?: boolean;
+  maxAttempts?: number;
+  backoffSeconds?: number;      // espera da 1ª retentativa; dobra a cada falha
+  handler: (context: ScheduledJobContext) => Promise<Record<string, unknown> | void>;
+}
+
+// ==========================================
+// Realtime (stream por bebê)
+// ==========================================
+
+export type BabyStreamEventType =
+  | 'routine.started'
+  | 'routine.closed'
+  | 'routine.created'
+  | 'routine.updated'
+  | 'routine.deleted'
+  | 'growth.created'
+  | 'growth.updated'
+  | 'growth.deleted'
+  | 'milestone.created'
+  | 'milestone.updated'
+  | 'milestone.deleted'
+  | 'vaccine.created'
+  | 'vaccine.updated'
+  | 'vaccine.deleted'
+  | 'vaccine.synced';
+
+export interface BabyStreamEvent {
+  id: string;
+  type: BabyStreamEventType;
+  babyId: number;
+  entityId: number | null;
+  actorUserId: number | null;   // quem fez a alteração (o app ignora os próprios eventos)
+  data: unknown;                // registro após a alteração (antes, em exclusões)
+  at: string;
 }
 
 // ==========================================
@@ -213,6 +627,81 @@ export const ROLE_PERMISSIONS: Record<UserRole, RolePermissions> = {
   },
 };
 
+// ==========================================
+// Permissões por membro do bebê
+// ==========================================
+
+export const BABY_PERMISSION_DOMAINS = ['routines', 'growth', 'vaccines', 'clinical'] as const;
+export type BabyPermissionDomain = typeof BABY_PERMISSION_DOMAINS[number];
+
+export interface BabyDomainAccess {
+  read: boolean;
+  write: boolean;
+}
+
+export interface BabyMemberPermissions {
+  routines: BabyDomainAccess;
+  growth: BabyDomainAccess;     // inclui marcos do desenvolvimento
+  vaccines: BabyDomainAccess;
+  clinical: BabyDomainAccess;   // medicamentos, temperatura, dados clínicos
+  exports: boolean;
+  aiChat: boolean;
+  invite: boolean;              // convidar outros membros (exceto responsáveis principais)
+}
+
+// Formato salvo em BabyMember.permissions: apenas as diferenças do padrão do papel
+export type BabyMemberPermissionOverrides = Partial<{
+  [K in keyof BabyMemberPermissions]: BabyMemberPermissions[K] extends BabyDomainAccess
+    ? Partial<BabyDomainAccess>
+    : boolean;
+}>;
+
+export type BabyPermission =
+  | `${BabyPermissionDomain}:${keyof BabyDomainAccess}`
+  | 'exports'
+  | 'aiChat'
+  | 'invite';
+
+const FULL_ACCESS: BabyDomainAccess = { read: true, write: true };
+const READ_ONLY: BabyDomainAccess = { read: true, write: false };
+const NO_ACCESS: BabyDomainAccess = { read: false, write: false };
+
+export const BABY_ROLE_PERMISSIONS: Record<BabyMemberRole, BabyMemberPermissions> = {
+  OWNER_PARENT_1: {
+    routines: FULL_ACCESS, growth: FULL_ACCESS, vaccines: FULL_ACCESS, clinical: FULL_ACCESS,
+    exports: true, aiChat: true, invite: true,
+  },
+  OWNER_PARENT_2: {
+    routines: FULL_ACCESS, growth: FULL_ACCESS, vaccines: FULL_ACCESS, clinical: FULL_ACCESS,
+    exports: true, aiChat: true, invite: true,
+  },
+  FAMILY_EDITOR: {
+    routines: FULL_ACCESS, growth: FULL_ACCESS, vaccines: FULL_ACCESS, clinical: READ_ONLY,
+    exports: false, aiChat: true, invite: false,
+  },
+  FAMILY_VIEWER: {
+    routines: READ_ONLY, growth: READ_ONLY, vaccines: READ_ONLY, clinical: NO_ACCESS,
+    exports: false, aiChat: false, invite: false,
+  },
+  PEDIATRICIAN: {
+    routines: READ_ONLY, growth: FULL_ACCESS, vaccines: FULL_ACCESS, clinical: FULL_ACCESS,
+    exports: true, aiChat: false, invite: false,
+  },
+  OBGYN: {
+    routines: READ_ONLY, growth: READ_ONLY, vaccines: READ_ONLY, clinical: FULL_ACCESS,
+    exports: true, aiChat: false, invite: false,
+  },
+  LACTATION_CONSULTANT: {
+    routines: READ_ONLY, growth: FULL_ACCESS, vaccines: READ_ONLY, clinical: READ_ONLY,
+    exports: true, aiChat: false, invite: false,
+  },
+  // Babás e outros cuidadores: registram a rotina, sem dados clínicos
+  OTHER: {
+    routines: FULL_ACCESS, growth: READ_ONLY, vaccines: READ_ONLY, clinical: NO_ACCESS,
+    exports: false, aiChat: false, invite: false,
+  },
+};
+
 // ==========================================
 // Predefined Milestones
 // ==========================================
@@ -350,7 +839,7 @@ export const AI_TOOL_DEFINITIONS = [
         type: 'object',
         properties: {
           babyId: { type: 'number', description: 'ID do bebê' },
-          routineType: { type: 'string', enum: ['FEEDING', 'SLEEP', 'DIAPER', 'BATH', 'MILK_EXTRACTION'], description: 'Tipo de rotina (opcional)' },
+          routineType: { type: 'string', enum: ['FEEDING', 'SLEEP', 'DIAPER', 'BATH', 'MILK_EXTRACTION', 'CUSTOM'], description: 'Tipo de rotina (opcional). CUSTOM retorna as rotinas personalizadas do bebê' },
           startDate: { type: 'string', format: 'date', description: 'Data inicial (opcional)' },
           endDate: { type: 'string', format: 'date', description: 'Data final (opcional)' },
           limit: { type: 'number', description: 'Limite de resultados (default 20)' },
@@ -363,7 +852,7 @@ export const AI_TOOL_DEFINITIONS = [
     type: 'function' as const,
     function: {
       name: 'getLatestGrowth',
-      description: 'Obtém as últimas medidas de crescimento do bebê (peso, altura, perímetro cefálico)',
+      description: 'Obtém as últimas medidas de crescimento do bebê (peso, altura, perímetro cefálico) com percentis e z-scores das curvas da OMS',
       parameters: {
         type: 'object',
         properties: {
@@ -387,6 +876,35 @@ export const AI_TOOL_DEFINITIONS = [
       },
     },
   },
+  {
+    type: 'function' as const,
+    function: {
+      name: 'getRoutineForecast',
+      description: 'Prevê o horário da próxima mamada e do próximo sono do bebê com base no histórico recente (com janela de confiança)',
+      parameters: {
+        type: 'object',
+        properties: {
+          babyId: { type: 'number', description: 'ID do bebê' },
+        },
+        required: ['babyId'],
+      },
+    },
+  },
+  {
+    type: 'function' as const,
+    function: {
+      name: 'getHandoffSummary',
+      description: 'Resumo da passagem de turno: mamadas, sono, fraldas, medicamentos, rotinas em andamento e observações de outros cuidadores desde um momento (padrão: desde o último registro do usuário)',
+      parameters: {
+        type: 'object',
+        properties: {
+          babyId: { type: 'number', description: 'ID do bebê' },
+          sinceHours: { type: 'number', description: 'Quantas horas para trás resumir (opcional, máximo 168)' },
+        },
+        required: ['babyId'],
+      },
+    },
+  },
   {
     type: 'function' as const,
     function: {
@@ -441,6 +959,7 @@ export const AI_SYSTEM_PROMPT = `Você é a Olive, assistente virtual especializ
 Você tem acesso às ferramentas para consultar e registrar dados do bebê. Use-as quando:
 - O usuário perguntar sobre padrões de sono/alimentação do bebê
 - O usuário quiser registrar uma mamada, fralda, sono ou banho
+- O usuário perguntar o que aconteceu enquanto estava fora (passagem de turno)
 - Precisar de dados reais para personalizar uma resposta`;
 
 // Safety disclaimers
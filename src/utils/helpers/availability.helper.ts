@@ -0,0 +1,154 @@
+// Olive Baby API - Availability Helpers
+// Motor de horários livres: expande a agenda semanal do profissional em horários
+// concretos no fuso de cada clínica, aplicando vigência da agenda, exceções
+// (bloqueio, feriado, horário reduzido), consultas já marcadas em qualquer
+// clínica e o intervalo livre entre consultas.
+
+import { addDays, addMinutes, differenceInCalendarDays, parseISO } from 'date-fns';
+import { ProfessionalSchedule, ScheduleException } from '@prisma/client';
+import { fromWallClock } from './timezone.helper';
+
+export const SCHEDULE_EXCEPTION_TYPES = ['BLOCKED', 'REDUCED_HOURS', 'HOLIDAY'] as const;
+export type ScheduleExceptionType = (typeof SCHEDULE_EXCEPTION_TYPES)[number];
+
+export type AvailabilitySchedule = Pick<
+  ProfessionalSchedule,
+  'clinicId' | 'dayOfWeek' | 'startTime' | 'endTime' | 'slotDuration' | 'bufferMinutes' | 'validFrom' | 'validUntil'
+>;
+
+export type AvailabilityException = Pick<
+  ScheduleException,
+  'clinicId' | 'exceptionDate' | 'type' | 'startTime' | 'endTime'
+>;
+
+export interface BusyInterval {
+  startAt: Date;
+  endAt: Date;
+}
+
+export interface AvailableSlot {
+  date: string;            // data local (YYYY-MM-DD) no fuso da clínica
+  start: Date;
+  end: Date;
+  clinicId: number | null;
+  timezone: string;
+}
+
+export interface AvailabilityInput {
+  from: string;            // YYYY-MM-DD, inclusive
+  to: string;              // YYYY-MM-DD, inclusive
+  schedules: AvailabilitySchedule[];
+  exceptions: AvailabilityException[];
+  appointments: BusyInterval[];
+  timezoneFor: (clinicId: number | null) => string;
+  durationMinutes?: number; // sem valor, usa o slotDuration de cada agenda
+  now?: Date;
+}
+
+/**
+ * Data (YYYY-MM-DD) de uma coluna @db.Date: o Prisma devolve meia-noite UTC
+ */
+export function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Datas locais de `from` a `to` (inclusive), sem depender do fuso do servidor
+ */
+export function eachDateKey(from: string, to: string): string[] {
+  const start = parseISO(`${from}T00:00:00Z`);
+  const days = differenceInCalendarDays(parseISO(`${to}T00:00:00Z`), start);
+  return Array.from({ length: Math.max(days + 1, 0) }, (_, i) => toDateKey(addDays(start, i)));
+}
+
+/**
+ * Instante UTC de um horário de parede ("HH:mm") em uma data local do fuso.
+ * Horários que não existem (início do horário de verão) avançam pelo salto:
+ * 02:30 num salto de 02:00 para 03:00 vira 03:30.
+ */
+export function zonedDateTime(dateKey: string, time: string, timezone: string): Date {
+  return fromWallClock(`${dateKey}T${time}:00`, timezone);
+}
+
+function dayOfWeekOf(dateKey: string): number {
+  return parseISO(`${dateKey}T00:00:00Z`).getUTCDay();
+}
+
+function isScheduleValidOn(schedule: AvailabilitySchedule, dateKey: string): boolean {
+  if (schedule.validFrom && dateKey < toDateKey(schedule.validFrom)) return false;
+  if (schedule.validUntil && dateKey > toDateKey(schedule.validUntil)) return false;
+  return true;
+}
+
+function overlaps(start: Date, end: Date, busy: BusyInterval): boolean {
+  return start < busy.endAt && end > busy.startAt;
+}
+
+/**
+ * Horários livres no período, ordenados pelo início.
+ *
+ * - Exceções sem clínica valem para todas as agendas do profissional.
+ * - HOLIDAY e BLOCKED sem horário fecham o dia; BLOCKED com horário bloqueia só o trecho.
+ * - REDUCED_HOURS restringe o expediente ao horário informado.
+ * - O intervalo livre (bufferMinutes) é respeitado antes e depois das consultas marcadas.
+ * - Os horários avançam em tempo real a partir do início do expediente, então um
+ *   expediente que atravessa a troca do horário de verão fica 1h mais curto/longo.
+ */
+export function computeAvailableSlots(input: AvailabilityInput): AvailableSlot[] {
+  const now = input.now ?? new Date();
+  const slots: AvailableSlot[] = [];
+  const seen = new Set<string>();
+
+  for (const dateKey of eachDateKey(input.from, input.to)) {
+    const dayOfWeek = dayOfWeekOf(dateKey);
+    const dayExceptions = input.exceptions.filter(e => toDateKey(e.exceptionDate) === dateKey);
+
+    for (const schedule of input.schedules) {
+      if (schedule.dayOfWeek !== dayOfWeek || !isScheduleValidOn(schedule, dateKey)) continue;
+
+      const timezone = input.timezoneFor(schedule.clinicId);
+      const exceptions = dayExceptions.filter(e => e.clinicId === null || e.clinicId === schedule.clinicId);
+
+      const closed = exceptions.some(
+        e => e.type === 'HOLIDAY' || (e.type === 'BLOCKED' && (!e.startTime || !e.endTime))
+      );
+      if (closed) continue;
+
+      let windowStart = zonedDateTime(dateKey, schedule.startTime, timezone);
+      let windowEnd = zonedDateTime(dateKey, schedule.endTime, timezone);
+      const blocked: BusyInterval[] = [];
+
+      for (const e of exceptions) {
+        if (!e.startTime || !e.endTime) continue;
+        const start = zonedDateTime(dateKey, e.startTime, timezone);
+        const end = zonedDateTime(dateKey, e.endTime, timezone);
+        if (e.type === 'REDUCED_HOURS') {
+          if (start > windowStart) windowStart = start;
+          if (end < windowEnd) windowEnd = end;
+        } else if (e.type === 'BLOCKED') {
+          blocked.push({ startAt: start, endAt: end });
+        }
+      }
+
+      const step = schedule.slotDuration;
+      const duration = input.durationMinutes ?? schedule.slotDuration;
+      const buffer = schedule.bufferMinutes;
+      if (step <= 0 || duration <= 0) continue;
+
+      for (let start = windowStart; addMinutes(start, duration) <= windowEnd; start = addMinutes(start, step)) {
+        const end = addMinutes(start, duration);
+        if (start < now) continue;
+        if (blocked.some(b => overlaps(start, end, b))) continue;
+        if (input.appointments.some(a => overlaps(addMinutes(start, -buffer), addMinutes(end, buffer), a))) continue;
+
+        const key = `${schedule.clinicId ?? 0}:${start.getTime()}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        slots.push({ date: dateKey, start, end, clinicId: schedule.clinicId, timezone });
+      }
+    }
+  }
+
+  return slots.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
@@ -1,8 +1,162 @@
 // Olive Baby API - Baby Permission Helper
 import { prisma } from '../../config/database';
 import { AppError } from '../errors/AppError';
-import { BabyMemberRole, BabyMemberStatus, BabyMemberType } from '@prisma/client';
+import { BabyMember, BabyMemberRole, BabyMemberStatus, BabyMemberType, Prisma } from '@prisma/client';
 import { logger } from '../../config/logger';
+import {
+  BABY_PERMISSION_DOMAINS,
+  BABY_ROLE_PERMISSIONS,
+  BabyMemberPermissionOverrides,
+  BabyMemberPermissions,
+  BabyPermission,
+} from '../../types';
+
+const OWNER_ROLES: BabyMemberRole[] = [BabyMemberRole.OWNER_PARENT_1, BabyMemberRole.OWNER_PARENT_2];
+
+const PERMISSION_LABELS: Record<BabyPermission, string> = {
+  'routines:read': 'ver a rotina',
+  'routines:write': 'registrar ou editar a rotina',
+  'growth:read': 'ver crescimento e marcos',
+  'growth:write': 'registrar crescimento e marcos',
+  'vaccines:read': 'ver as vacinas',
+  'vaccines:write': 'alterar as vacinas',
+  'clinical:read': 'ver as informações clínicas',
+  'clinical:write': 'alterar as informações clínicas',
+  exports: 'exportar dados',
+  aiChat: 'usar o assistente',
+  invite: 'convidar outros membros',
+};
+
+/**
+ * Filtro de vínculo BabyMember ativo, respeitando a janela de acesso temporário
+ */
+export function activeMemberWhere(now: Date = new Date()): Prisma.BabyMemberWhereInput {
+  return {
+    status: BabyMemberStatus.ACTIVE,
+    AND: [
+      { OR: [{ accessStartsAt: null }, { accessStartsAt: { lte: now } }] },
+      { OR: [{ accessExpiresAt: null }, { accessExpiresAt: { gt: now } }] },
+    ],
+  };
+}
+
+export function isOwnerRole(role: BabyMemberRole): boolean {
+  return OWNER_ROLES.includes(role);
+}
+
+/**
+ * Combina o padrão do papel com as diferenças salvas no vínculo.
+ * Responsáveis principais têm sempre acesso total; escrita implica leitura.
+ */
+export function resolveBabyMemberPermissions(
+  role: BabyMemberRole,
+  overrides?: Prisma.JsonValue | BabyMemberPermissionOverrides | null
+): BabyMemberPermissions {
+  const defaults = BABY_ROLE_PERMISSIONS[role];
+  if (isOwnerRole(role) || !overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+    return { ...defaults };
+  }
+
+  const stored = overrides as BabyMemberPermissionOverrides;
+  const resolved: BabyMemberPermissions = { ...defaults };
+
+  for (const domain of BABY_PERMISSION_DOMAINS) {
+    const access = { ...defaults[domain], ...(stored[domain] ?? {}) };
+    resolved[domain] = { read: access.read || access.write, write: access.write };
+  }
+  for (const flag of ['exports', 'aiChat', 'invite'] as const) {
+    if (typeof stored[flag] === 'boolean') resolved[flag] = stored[flag] as boolean;
+  }
+
+  return resolved;
+}
+
+export function hasPermission(permissions: BabyMemberPermissions, permission: BabyPermission): boolean {
+  const [domain, action] = permission.split(':') as [keyof BabyMemberPermissions, 'read' | 'write' | undefined];
+  const value = permissions[domain];
+  return typeof value === 'boolean' ? value : !!action && value[action];
+}
+
+/**
+ * true se `permissions` não dá nada além de `limit` (usado para impedir que um
+ * membro convide alguém com mais acesso do que o próprio)
+ */
+export function isWithinPermissions(permissions: BabyMemberPermissions, limit: BabyMemberPermissions): boolean {
+  for (const domain of BABY_PERMISSION_DOMAINS) {
+    if (permissions[domain].read && !limit[domain].read) return false;
+    if (permissions[domain].write && !limit[domain].write) return false;
+  }
+  return (['exports', 'aiChat', 'invite'] as const).every(flag => !permissions[flag] || limit[flag]);
+}
+
+/**
+ * Permissões efetivas do usuário sobre o bebê, ou null se não tiver acesso.
+ * Um vínculo BabyMember ativo é a fonte de verdade; sem ele valem o vínculo legado
+ * (acesso total) e o vínculo de profissional (padrão do papel de cada vínculo).
+ */
+export async function getBabyPermissions(userId: number, babyId: number): Promise<BabyMemberPermissions | null> {
+  const now = new Date();
+  const member = await prisma.babyMember.findFirst({
+    where: { babyId, userId, status: BabyMemberStatus.ACTIVE }
+  });
+  if (member) {
+    return isWithinAccessWindow(member, now)
+      ? resolveBabyMemberPermissions(member.role, member.permissions)
+      : null;
+  }
+
+  // Sistema legado (CaregiverBaby)
+  const legacyLink = await prisma.caregiverBaby.findFirst({
+    where: { babyId, caregiver: { userId } }
+  });
+  if (legacyLink) return resolveBabyMemberPermissions(BabyMemberRole.OWNER_PARENT_1);
+
+  // Acesso via Professional
+  const professional = await prisma.professional.findUnique({
+    where: { userId },
+    select: { id: true, status: true }
+  });
+
+  if (professional && professional.status === 'ACTIVE') {
+    const links = await prisma.babyProfessional.findMany({
+      where: { babyId, professionalId: professional.id },
+      select: { role: true }
+    });
+    if (links.length > 0) {
+      // ProfessionalRole tem os mesmos valores dos papéis de profissional em BabyMemberRole
+      return mergePermissions(links.map(link => resolveBabyMemberPermissions(link.role as BabyMemberRole)));
+    }
+  }
+
+  return null;
+}
+
+/**
+ * União das permissões (profissional com mais de um papel no mesmo bebê)
+ */
+function mergePermissions(list: BabyMemberPermissions[]): BabyMemberPermissions {
+  return list.reduce((merged, permissions) => {
+    for (const domain of BABY_PERMISSION_DOMAINS) {
+      merged[domain] = {
+        read: merged[domain].read || permissions[domain].read,
+        write: merged[domain].write || permissions[domain].write,
+      };
+    }
+    for (const flag of ['exports', 'aiChat', 'invite'] as const) {
+      merged[flag] = merged[flag] || permissions[flag];
+    }
+    return merged;
+  });
+}
+
+function isWithinAccessWindow(
+  member: Pick<BabyMember, 'accessStartsAt' | 'accessExpiresAt'>,
+  now: Date
+): boolean {
+  if (member.accessStartsAt && member.accessStartsAt > now) return false;
+  if (member.accessExpiresAt && member.accessExpiresAt <= now) return false;
+  return true;
+}
 
 /**
  * Verifica se o usuário é owner do bebê.
@@ -14,7 +168,7 @@ export async function isBabyOwner(userId: number, babyId: number): Promise<boole
     where: {
       babyId,
       userId,
-      role: { in: [BabyMemberRole.OWNER_PARENT_1, BabyMemberRole.OWNER_PARENT_2] },
+      role: { in: OWNER_ROLES },
       status: BabyMemberStatus.ACTIVE
     }
   });
@@ -74,34 +228,33 @@ export async function isBabyOwner(userId: number, babyId: number): Promise<boole
 
 /**
  * Verifica se o usuário tem acesso ao bebê (qualquer role ativa)
- * Inclui acesso via BabyMember, CaregiverBaby (legado) e Professional
+ * Inclui acesso via BabyMember, CaregiverBaby (legado) e Professional.
+ * Com `permission`, exige também a permissão do membro.
  */
-export async function hasBabyAccess(userId: number, babyId: number): Promise<boolean> {
+export async function hasBabyAccess(
+  userId: number,
+  babyId: number,
+  permission?: BabyPermission
+): Promise<boolean> {
+  const permissions = await getBabyPermissions(userId, babyId);
+  if (!permissions) return false;
+  return !permission || hasPermission(permissions, permission);
+}
+
+/**
+ * Verifica se o usuário é membro ativo do bebê (BabyMember ou CaregiverBaby legado).
+ * Diferente de hasBabyAccess, não considera o vínculo de profissional.
+ */
+export async function isActiveBabyMember(userId: number, babyId: number): Promise<boolean> {
   const member = await prisma.babyMember.findFirst({
     where: { babyId, userId, status: BabyMemberStatus.ACTIVE }
   });
-  if (member) return true;
+  if (member) return isWithinAccessWindow(member, new Date());
 
-  // Verificar sistema legado (CaregiverBaby)
   const legacyLink = await prisma.caregiverBaby.findFirst({
     where: { babyId, caregiver: { userId } }
   });
-  if (legacyLink) return true;
-
-  // Verificar acesso via Professional
-  const professional = await prisma.professional.findUnique({
-    where: { userId },
-    select: { id: true, status: true }
-  });
-
-  if (professional && professional.status === 'ACTIVE') {
-    const babyProfessional = await prisma.babyProfessional.findFirst({
-      where: { babyId, professionalId: professional.id }
-    });
-    if (babyProfessional) return true;
-  }
-
-  return false;
+  return !!legacyLink;
 }
 
 /**
@@ -116,14 +269,22 @@ export async function requireBabyOwner(userId: number, babyId: number): Promise<
 }
 
 /**
- * Garante que o usuário tem acesso ao bebê, lança erro caso contrário
+ * Garante que o usuário tem acesso ao bebê (e a permissão, se informada),
+ * lança erro caso contrário
  */
-export async function requireBabyAccess(userId: number, babyId: number): Promise<void> {
-  const hasAccess = await hasBabyAccess(userId, babyId);
-  
-  if (!hasAccess) {
+export async function requireBabyAccess(
+  userId: number,
+  babyId: number,
+  permission?: BabyPermission
+): Promise<void> {
+  const permissions = await getBabyPermissions(userId, babyId);
+
+  if (!permissions) {
     throw AppError.forbidden('Você não tem acesso a este bebê');
   }
+  if (permission && !hasPermission(permissions, permission)) {
+    throw AppError.forbidden(`Você não tem permissão para ${PERMISSION_LABELS[permission]}`);
+  }
 }
 
 /**
@@ -133,9 +294,7 @@ export async function countActiveOwners(babyId: number): Promise<number> {
   return prisma.babyMember.count({
     where: {
       babyId,
-      role: {
-        in: [BabyMemberRole.OWNER_PARENT_1, BabyMemberRole.OWNER_PARENT_2]
-      },
+      role: { in: OWNER_ROLES },
       status: BabyMemberStatus.ACTIVE
     }
   });
@@ -153,36 +312,48 @@ export async function canAddOwner(babyId: number): Promise<boolean> {
  * Verifica acesso ao bebê usando caregiverId (usado pelos services legados).
  * Checa CaregiverBaby (legado) + BabyMember (novo) via userId do caregiver.
  */
-export async function hasBabyAccessByCaregiverId(caregiverId: number, babyId: number): Promise<boolean> {
-  const legacyLink = await prisma.caregiverBaby.findFirst({
-    where: { babyId, caregiverId }
-  });
-  if (legacyLink) return true;
-
+export async function hasBabyAccessByCaregiverId(
+  caregiverId: number,
+  babyId: number,
+  permission?: BabyPermission
+): Promise<boolean> {
   const caregiver = await prisma.caregiver.findUnique({
     where: { id: caregiverId },
     select: { userId: true }
   });
   if (!caregiver) return false;
 
-  return hasBabyAccess(caregiver.userId, babyId);
+  return hasBabyAccess(caregiver.userId, babyId, permission);
 }
 
 /**
  * Garante acesso ao bebê usando caregiverId, lança erro caso contrário.
  * Drop-in replacement para os checks inline de caregiverBaby.findFirst nos services.
  */
-export async function requireBabyAccessByCaregiverId(caregiverId: number, babyId: number): Promise<void> {
-  const hasAccess = await hasBabyAccessByCaregiverId(caregiverId, babyId);
-  if (!hasAccess) {
+export async function requireBabyAccessByCaregiverId(
+  caregiverId: number,
+  babyId: number,
+  permission?: BabyPermission
+): Promise<void> {
+  const caregiver = await prisma.caregiver.findUnique({
+    where: { id: caregiverId },
+    select: { userId: true }
+  });
+  if (!caregiver) {
     throw AppError.forbidden('Você não tem acesso a este bebê');
   }
+
+  await requireBabyAccess(caregiver.userId, babyId, permission);
 }
 
 /**
  * Retorna os IDs dos bebês acessíveis por um caregiver (legado + novo sistema).
+ * Com `permission`, só os bebês em que o membro tem essa permissão.
  */
-export async function getBabyIdsByCaregiverId(caregiverId: number): Promise<number[]> {
+export async function getBabyIdsByCaregiverId(
+  caregiverId: number,
+  permission?: BabyPermission
+): Promise<number[]> {
   const caregiver = await prisma.caregiver.findUnique({
     where: { id: caregiverId },
     select: { userId: true }
@@ -195,7 +366,7 @@ export async function getBabyIdsByCaregiverId(caregiverId: number): Promise<numb
   });
 
   const memberBabies = await prisma.babyMember.findMany({
-    where: { userId: caregiver.userId, status: BabyMemberStatus.ACTIVE },
+    where: { userId: caregiver.userId, ...activeMemberWhere() },
     select: { babyId: true }
   });
 
@@ -204,5 +375,11 @@ export async function getBabyIdsByCaregiverId(caregiverId: number): Promise<numb
     ...memberBabies.map(b => b.babyId)
   ]);
 
-  return Array.from(allIds);
+  if (!permission) return Array.from(allIds);
+
+  const allowed: number[] = [];
+  for (const babyId of allIds) {
+    if (await hasBabyAccess(caregiver.userId, babyId, permission)) allowed.push(babyId);
+  }
+  return allowed;
 }
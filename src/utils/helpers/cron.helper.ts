@@ -0,0 +1,161 @@
+// Olive Baby API - Cron Helpers
+// Parser de expressões cron de 5 campos (minuto hora dia mês dia-da-semana),
+// avaliadas no relógio local de um fuso IANA.
+
+import { formatInTimeZone } from 'date-fns-tz';
+import { DEFAULT_TIMEZONE, fromWallClock } from './timezone.helper';
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Quando dia do mês e dia da semana são restritos, basta um deles casar (semântica do cron)
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const FIELD_RANGES: Array<[number, number]> = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7],
+];
+
+// Limite de iterações na busca da próxima ocorrência (cobre expressões como "0 0 29 2 *")
+const MAX_SEARCH_STEPS = 5000;
+
+function parseField(field: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Passo inválido: ${part}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = min;
+      end = max;
+    } else if (rangePart.includes('-')) {
+      const [from, to] = rangePart.split('-').map(Number);
+      start = from;
+      end = to;
+    } else {
+      start = Number(rangePart);
+      end = stepPart === undefined ? start : max;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Valor fora do intervalo ${min}-${max}: ${part}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Converte uma expressão cron em conjuntos de valores aceitos por campo.
+ * Suporta *, listas (1,15), intervalos (1-5) e passos (*\/15, 0-30/10).
+ * Dia da semana aceita 0 ou 7 para domingo.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error('A expressão cron deve ter 5 campos (minuto hora dia mês dia-da-semana)');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, FIELD_RANGES[index][0], FIELD_RANGES[index][1])
+  );
+
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7);
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: fields[2] !== '*',
+    dayOfWeekRestricted: fields[4] !== '*',
+  };
+}
+
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(schedule: CronSchedule, wallClock: Date): boolean {
+  const domMatch = schedule.daysOfMonth.has(wallClock.getUTCDate());
+  const dowMatch = schedule.daysOfWeek.has(wallClock.getUTCDay());
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * Próxima ocorrência estritamente depois de `after`, no relógio local do fuso.
+ * A busca é feita sobre o horário de parede (representado em UTC) e convertida
+ * de volta ao final, então horários inexistentes no início do horário de verão
+ * avançam pelo salto (02:30 num salto de 02:00 para 03:00 vira 03:30).
+ */
+export function getNextCronOccurrence(
+  expression: string | CronSchedule,
+  after: Date,
+  timezone: string = DEFAULT_TIMEZONE
+): Date | null {
+  const schedule = typeof expression === 'string' ? parseCronExpression(expression) : expression;
+
+  const wallClock = new Date(`${formatInTimeZone(after, timezone, "yyyy-MM-dd'T'HH:mm")}:00Z`);
+  wallClock.setUTCMinutes(wallClock.getUTCMinutes() + 1);
+
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    if (!schedule.months.has(wallClock.getUTCMonth() + 1)) {
+      wallClock.setUTCMonth(wallClock.getUTCMonth() + 1, 1);
+      wallClock.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, wallClock)) {
+      wallClock.setUTCDate(wallClock.getUTCDate() + 1);
+      wallClock.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(wallClock.getUTCHours())) {
+      wallClock.setUTCHours(wallClock.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(wallClock.getUTCMinutes())) {
+      wallClock.setUTCMinutes(wallClock.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+
+    const occurrence = fromWallClock(wallClock.toISOString().slice(0, 19), timezone);
+    // Na volta do horário de verão a mesma hora local se repete; nunca retornar algo <= after
+    if (occurrence.getTime() > after.getTime()) {
+      return occurrence;
+    }
+    wallClock.setUTCMinutes(wallClock.getUTCMinutes() + 1, 0, 0);
+  }
+
+  return null;
+}
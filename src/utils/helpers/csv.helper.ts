@@ -1,18 +1,21 @@
-// Olive Baby API - CSV Export Helper
+// Olive Baby API - CSV Helper
 import { createObjectCsvStringifier } from 'csv-writer';
 import { RoutineLog, RoutineType } from '@prisma/client';
 import { formatDateBR, formatTimeBR, formatDuration } from './date.helper';
+import { CustomMetaFieldDefinition } from '../../types';
 
 interface RoutineLogWithMeta extends Omit<RoutineLog, 'meta'> {
   meta: Record<string, unknown> | null;
+  customType?: { name: string; metaFields: unknown } | null;
 }
 
-const ROUTINE_TYPE_LABELS: Record<RoutineType, string> = {
+export const ROUTINE_TYPE_LABELS: Record<RoutineType, string> = {
   FEEDING: 'Alimentação',
   SLEEP: 'Sono',
   DIAPER: 'Fralda',
   BATH: 'Banho',
   MILK_EXTRACTION: 'Extração de Leite',
+  CUSTOM: 'Personalizada',
 };
 
 export function generateRoutinesCsv(routines: RoutineLogWithMeta[]): string {
@@ -32,7 +35,7 @@ export function generateRoutinesCsv(routines: RoutineLogWithMeta[]): string {
     data: formatDateBR(routine.startTime),
     hora_inicio: formatTimeBR(routine.startTime),
     hora_fim: routine.endTime ? formatTimeBR(routine.endTime) : '-',
-    tipo_rotina: ROUTINE_TYPE_LABELS[routine.routineType],
+    tipo_rotina: routine.customType?.name || ROUTINE_TYPE_LABELS[routine.routineType],
     duracao_minutos: routine.durationSeconds 
       ? Math.round(routine.durationSeconds / 60).toString() 
       : '-',
@@ -118,7 +121,180 @@ function formatRoutineDetails(routine: RoutineLogWithMeta): string {
         details.push(`Qualidade: ${qualityLabels[meta.sleepQuality as string] || meta.sleepQuality}`);
       }
       break;
+
+    case 'CUSTOM':
+      details.push(...formatCustomMetaDetails(
+        meta,
+        (routine.customType?.metaFields || []) as CustomMetaFieldDefinition[]
+      ));
+      break;
   }
 
   return details.join(' | ');
 }
+
+/**
+ * Formata o meta de uma rotina CUSTOM usando os rótulos e unidades do tipo
+ * Ex: ["Duração: 15 min", "Chorou: Sim"]
+ */
+export function formatCustomMetaDetails(
+  meta: Record<string, unknown>,
+  fields: CustomMetaFieldDefinition[]
+): string[] {
+  const details: string[] = [];
+
+  for (const field of fields) {
+    const value = meta[field.key];
+    if (value === undefined || value === null || value === '') continue;
+
+    let formatted: string;
+    if (field.type === 'boolean') {
+      formatted = value ? 'Sim' : 'Não';
+    } else if (field.type === 'datetime') {
+      const date = new Date(value as string);
+      formatted = `${formatDateBR(date)} ${formatTimeBR(date)}`;
+    } else {
+      formatted = field.unit ? `${value} ${field.unit}` : String(value);
+    }
+
+    details.push(`${field.label}: ${formatted}`);
+  }
+
+  return details;
+}
+
+/**
+ * Detecta o separador pela primeira linha (vírgula, ponto e vírgula ou tab)
+ */
+export function detectCsvDelimiter(content: string): string {
+  const firstLine = content.split(/\r?\n/, 1)[0] || '';
+  const candidates = [',', ';', '\t'];
+  return candidates
+    .map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length - 1 }))
+    .sort((a, b) => b.count - a.count)[0].delimiter;
+}
+
+/**
+ * Lê um CSV (RFC 4180: campos entre aspas, aspas duplicadas e quebras de linha dentro de aspas)
+ * @returns Linhas com as células já sem aspas; linhas totalmente vazias são descartadas
+ */
+export function parseCsv(content: string, delimiter = detectCsvDelimiter(content)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  // Remove BOM de arquivos salvos pelo Excel
+  const text = content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows
+    .map(cells => cells.map(c => c.trim()))
+    .filter(cells => cells.some(c => c !== ''));
+}
+
+// Colunas do CSV de definições de calendário de vacinação (import/export)
+export const VACCINE_DEFINITION_CSV_COLUMNS = [
+  'vaccineKey',
+  'name',
+  'description',
+  'doseLabel',
+  'doseNumber',
+  'ageMonths',
+  'ageDays',
+  'ageMaxMonths',
+  'minAgeDays',
+  'maxAgeDays',
+  'minIntervalDays',
+  'isOptional',
+  'sortOrder',
+  'notes',
+] as const;
+
+const VACCINE_DEFINITION_NUMERIC_COLUMNS = new Set([
+  'doseNumber',
+  'ageMonths',
+  'ageDays',
+  'ageMaxMonths',
+  'minAgeDays',
+  'maxAgeDays',
+  'minIntervalDays',
+  'sortOrder',
+]);
+
+type VaccineDefinitionCsvRow = Partial<
+  Record<(typeof VACCINE_DEFINITION_CSV_COLUMNS)[number], string | number | boolean | null>
+>;
+
+export function generateVaccineDefinitionsCsv(definitions: VaccineDefinitionCsvRow[]): string {
+  const csvStringifier = createObjectCsvStringifier({
+    header: VACCINE_DEFINITION_CSV_COLUMNS.map(id => ({ id, title: id })),
+  });
+
+  const records = definitions.map(def =>
+    Object.fromEntries(VACCINE_DEFINITION_CSV_COLUMNS.map(col => [col, def[col] ?? '']))
+  );
+
+  return csvStringifier.getHeaderString() + csvStringifier.stringifyRecords(records);
+}
+
+/**
+ * Lê o CSV de definições (cabeçalho com os nomes das colunas de export).
+ * Células vazias viram undefined; números e booleanos são convertidos, a
+ * validação fica com o schema de quem chama.
+ */
+export function parseVaccineDefinitionsCsv(content: string): Record<string, unknown>[] {
+  const [header, ...lines] = parseCsv(content);
+  if (!header) return [];
+
+  return lines.map(cells => {
+    const row: Record<string, unknown> = {};
+    header.forEach((column, index) => {
+      const value = cells[index];
+      if (value === undefined || value === '') return;
+      if (VACCINE_DEFINITION_NUMERIC_COLUMNS.has(column)) {
+        row[column] = Number(value);
+      } else if (column === 'isOptional') {
+        row[column] = ['true', '1', 'sim', 'yes'].includes(value.toLowerCase());
+      } else {
+        row[column] = value;
+      }
+    });
+    return row;
+  });
+}
@@ -0,0 +1,157 @@
+// Olive Baby API - Growth Percentile Helpers
+// Cálculo de z-score e percentil pelo método LMS (padrões de crescimento OMS 0-5 anos)
+
+import {
+  WHO_GROWTH_STANDARDS,
+  WHO_MAX_AGE_MONTHS,
+  WhoGrowthIndicator,
+  WhoGrowthSex,
+} from '../../constants/who-growth-standards';
+
+const DAYS_PER_MONTH = 30.4375;
+const FULL_TERM_WEEKS = 40;
+const PRETERM_THRESHOLD_WEEKS = 37;
+const PREMATURITY_CORRECTION_LIMIT_MONTHS = 24;
+
+// Linhas de percentil principais das curvas da OMS (P3, P15, P50, P85, P97) em z-score
+const WHO_MAJOR_PERCENTILE_LINES = [-1.881, -1.036, 0, 1.036, 1.881];
+
+// Cruzar duas ou mais linhas principais entre medições consecutivas merece atenção
+const CURVE_CROSSING_MIN_LINES = 2;
+
+export interface LmsValues {
+  l: number;
+  m: number;
+  s: number;
+}
+
+export interface CurveCrossing {
+  crossed: boolean;
+  direction: 'up' | 'down' | null;
+  linesCrossed: number;
+  zScoreChange: number;
+}
+
+/**
+ * Idade em meses (fracionada) entre o nascimento e a data da medição
+ */
+export function getAgeInMonths(birthDate: Date, at: Date): number {
+  const days = (at.getTime() - birthDate.getTime()) / (1000 * 60 * 60 * 24);
+  return days / DAYS_PER_MONTH;
+}
+
+/**
+ * Idade corrigida para prematuridade.
+ * Aplica-se a nascidos com menos de 37 semanas, até os 24 meses de idade cronológica.
+ */
+export function getCorrectedAgeInMonths(
+  birthDate: Date,
+  at: Date,
+  gestationalAgeWeeks?: number | null
+): number {
+  const chronologicalAge = getAgeInMonths(birthDate, at);
+
+  if (!shouldCorrectForPrematurity(chronologicalAge, gestationalAgeWeeks)) {
+    return chronologicalAge;
+  }
+
+  const correctionMonths = ((FULL_TERM_WEEKS - gestationalAgeWeeks!) * 7) / DAYS_PER_MONTH;
+  return Math.max(0, chronologicalAge - correctionMonths);
+}
+
+export function shouldCorrectForPrematurity(
+  chronologicalAgeMonths: number,
+  gestationalAgeWeeks?: number | null
+): boolean {
+  return !!gestationalAgeWeeks
+    && gestationalAgeWeeks < PRETERM_THRESHOLD_WEEKS
+    && chronologicalAgeMonths < PREMATURITY_CORRECTION_LIMIT_MONTHS;
+}
+
+/**
+ * Retorna os valores LMS para a idade, interpolando linearmente entre os meses da tabela.
+ * Retorna null fora da faixa coberta (0-60 meses).
+ */
+export function getLmsForAge(
+  indicator: WhoGrowthIndicator,
+  sex: WhoGrowthSex,
+  ageMonths: number
+): LmsValues | null {
+  if (ageMonths < 0 || ageMonths > WHO_MAX_AGE_MONTHS) {
+    return null;
+  }
+
+  const table = WHO_GROWTH_STANDARDS[indicator][sex];
+  const lower = Math.floor(ageMonths);
+  const upper = Math.min(lower + 1, WHO_MAX_AGE_MONTHS);
+  const fraction = ageMonths - lower;
+
+  const [, l0, m0, s0] = table[lower];
+  const [, l1, m1, s1] = table[upper];
+
+  return {
+    l: l0 + (l1 - l0) * fraction,
+    m: m0 + (m1 - m0) * fraction,
+    s: s0 + (s1 - s0) * fraction,
+  };
+}
+
+/**
+ * Calcula o z-score de uma medida pelo método LMS.
+ * Para |z| > 3 aplica a correção "restrita" da OMS, que evita distorções
+ * nas caudas quando L ≠ 1 (peso para idade).
+ */
+export function calculateLmsZScore(value: number, { l, m, s }: LmsValues): number {
+  const zAt = (sd: number) => m * Math.pow(1 + l * s * sd, 1 / l);
+
+  const z = l === 0
+    ? Math.log(value / m) / s
+    : (Math.pow(value / m, l) - 1) / (l * s);
+
+  if (l === 1 || Math.abs(z) <= 3) {
+    return z;
+  }
+
+  if (z > 3) {
+    const sd3 = zAt(3);
+    const sd23 = sd3 - zAt(2);
+    return 3 + (value - sd3) / sd23;
+  }
+
+  const sdNeg3 = zAt(-3);
+  const sd23Neg = zAt(-2) - sdNeg3;
+  return -3 + (value - sdNeg3) / sd23Neg;
+}
+
+/**
+ * Converte z-score em percentil (0-100) pela distribuição normal acumulada
+ */
+export function zScoreToPercentile(z: number): number {
+  return normalCdf(z) * 100;
+}
+
+/**
+ * Detecta cruzamento de linhas de percentil principais entre duas medições
+ */
+export function detectCurveCrossing(previousZ: number, currentZ: number): CurveCrossing {
+  const low = Math.min(previousZ, currentZ);
+  const high = Math.max(previousZ, currentZ);
+  const linesCrossed = WHO_MAJOR_PERCENTILE_LINES.filter(line => line > low && line <= high).length;
+  const zScoreChange = currentZ - previousZ;
+
+  return {
+    crossed: linesCrossed >= CURVE_CROSSING_MIN_LINES,
+    direction: linesCrossed === 0 ? null : zScoreChange > 0 ? 'up' : 'down',
+    linesCrossed,
+    zScoreChange: Math.round(zScoreChange * 100) / 100,
+  };
+}
+
+// Aproximação de Abramowitz & Stegun (7.1.26) para a função erro
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
@@ -0,0 +1,132 @@
+// Olive Baby API - iCalendar Helpers
+// Serializa eventos no formato iCalendar (RFC 5545) para os feeds assináveis
+// em apps de calendário. Horários vão sempre em UTC, sem VTIMEZONE.
+
+export type IcalEventStatus = 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
+
+export interface IcalEvent {
+  uid: string;
+  sequence: number;        // Sobe a cada alteração para o app substituir a versão anterior
+  lastModified: Date;      // Também vai no DTSTAMP: o feed só muda quando os dados mudam (ETag estável)
+  start: Date;
+  end: Date;
+  allDay?: boolean;        // start/end são colunas @db.Date; DTEND é exclusivo
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  status?: IcalEventStatus;
+}
+
+export interface IcalCalendar {
+  name: string;
+  description?: string;
+  refreshMinutes?: number;
+  events: IcalEvent[];
+}
+
+const CRLF = '\r\n';
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Escapa valores TEXT: barra invertida, ponto e vírgula, vírgula e quebras de linha
+ */
+export function escapeIcalText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Quebra linhas com mais de 75 octetos (continuação começa com espaço),
+ * sem partir caracteres UTF-8 no meio
+ */
+export function foldIcalLine(line: string): string {
+  if (Buffer.byteLength(line, 'utf8') <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    // Linhas de continuação perdem 1 octeto para o espaço inicial
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join(`${CRLF} `);
+}
+
+/**
+ * 2026-10-19T13:00:00.000Z -> 20261019T130000Z
+ */
+export function formatIcalDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Data (VALUE=DATE) de uma coluna @db.Date: 20261019
+ */
+export function formatIcalDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function eventLines(event: IcalEvent): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatIcalDateTime(event.lastModified)}`,
+    `LAST-MODIFIED:${formatIcalDateTime(event.lastModified)}`,
+  ];
+
+  if (event.allDay) {
+    lines.push(`DTSTART;VALUE=DATE:${formatIcalDate(event.start)}`);
+    lines.push(`DTEND;VALUE=DATE:${formatIcalDate(event.end)}`);
+    lines.push('TRANSP:TRANSPARENT');
+  } else {
+    lines.push(`DTSTART:${formatIcalDateTime(event.start)}`);
+    lines.push(`DTEND:${formatIcalDateTime(event.end)}`);
+  }
+
+  lines.push(`SUMMARY:${escapeIcalText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeIcalText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeIcalText(event.location)}`);
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  lines.push('END:VEVENT');
+
+  return lines;
+}
+
+/**
+ * Monta o VCALENDAR completo (linhas terminadas em CRLF, como pede a RFC)
+ */
+export function buildIcalCalendar(calendar: IcalCalendar): string {
+  const refresh = `PT${calendar.refreshMinutes ?? 30}M`;
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//OlieCare//Agenda//PT-BR',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcalText(calendar.name)}`,
+    `NAME:${escapeIcalText(calendar.name)}`,
+    `REFRESH-INTERVAL;VALUE=DURATION:${refresh}`,
+    `X-PUBLISHED-TTL:${refresh}`,
+  ];
+  if (calendar.description) lines.push(`X-WR-CALDESC:${escapeIcalText(calendar.description)}`);
+
+  for (const event of calendar.events) {
+    lines.push(...eventLines(event));
+  }
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldIcalLine).join(CRLF) + CRLF;
+}
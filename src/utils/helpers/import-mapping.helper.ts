@@ -0,0 +1,532 @@
+// Olive Baby API - Import Mapping Helper
+// Converte linhas de CSV/JSON de outros apps em rotinas, medições e marcos
+import { isValid, parse } from 'date-fns';
+import { fromZonedTime } from 'date-fns-tz';
+import { RoutineType } from '@prisma/client';
+import {
+  ImportColumnMapping,
+  ImportFormat,
+  ImportMapping,
+  ImportRecordKind,
+  ImportRowIssue,
+  PREDEFINED_MILESTONES,
+} from '../../types';
+import { IMPORT_TYPE_SYNONYMS } from '../../constants/import-presets';
+import { normalizeAndSanitizeMeta } from '../routineMeta.utils';
+import { calculateDurationSeconds } from './date.helper';
+import { parseCsv } from './csv.helper';
+
+export interface ImportSourceRow {
+  row: number;
+  values: Record<string, unknown>;
+}
+
+export interface ParsedRoutineImport {
+  kind: 'ROUTINE';
+  row: number;
+  routineType: RoutineType;
+  startTime: Date;
+  endTime: Date;
+  durationSeconds: number;
+  notes: string | null;
+  meta: Record<string, unknown>;
+}
+
+export interface ParsedGrowthImport {
+  kind: 'GROWTH';
+  row: number;
+  measuredAt: Date;
+  weightKg: number | null;
+  heightCm: number | null;
+  headCircumferenceCm: number | null;
+  notes: string | null;
+}
+
+export interface ParsedMilestoneImport {
+  kind: 'MILESTONE';
+  row: number;
+  milestoneKey: string;
+  milestoneLabel: string;
+  occurredOn: Date | null;
+  notes: string | null;
+}
+
+export type ParsedImportRecord = ParsedRoutineImport | ParsedGrowthImport | ParsedMilestoneImport;
+
+export type ImportRowResult =
+  | { record: ParsedImportRecord; issue?: undefined }
+  | { record?: undefined; issue: ImportRowIssue };
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Registros com mais de 24h de duração quase sempre são erro de mapeamento
+const MAX_ROUTINE_DURATION_MS = DAY_MS;
+
+// Formatos tentados quando o mapeamento não informa dateFormat
+const FALLBACK_DATE_FORMATS = [
+  "yyyy-MM-dd'T'HH:mm:ss",
+  "yyyy-MM-dd'T'HH:mm",
+  'yyyy-MM-dd HH:mm:ss',
+  'yyyy-MM-dd HH:mm',
+  'dd/MM/yyyy HH:mm:ss',
+  'dd/MM/yyyy HH:mm',
+  'yyyy-MM-dd',
+  'dd/MM/yyyy',
+];
+
+// Faixas plausíveis para pegar unidade errada no mapeamento (ex.: gramas como kg)
+const GROWTH_LIMITS = {
+  weightKg: { min: 0.3, max: 40 },
+  heightCm: { min: 20, max: 130 },
+  headCircumferenceCm: { min: 20, max: 60 },
+};
+
+const EMPTY_VALUES = ['', '-', '—', 'null', 'n/a'];
+
+const TIMED_KINDS: ImportRecordKind[] = ['FEEDING', 'SLEEP', 'BATH', 'MILK_EXTRACTION'];
+
+// Valores de tipo que já dizem como foi a mamada
+const FEEDING_TYPE_HINTS: Record<string, string> = {
+  bottle: 'bottle',
+  mamadeira: 'bottle',
+  nursing: 'breast',
+  breastfeeding: 'breast',
+  amamentacao: 'breast',
+  mamada: 'breast',
+  solids: 'solid',
+  solidos: 'solid',
+};
+
+/**
+ * Minúsculas e sem acento, para comparar valores vindos de apps em idiomas diferentes
+ */
+export function normalizeImportToken(value: unknown): string {
+  return String(value ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+}
+
+/**
+ * Lê o conteúdo do arquivo em linhas chaveadas pelo nome da coluna
+ */
+export function readImportRows(
+  format: ImportFormat,
+  content: string | Record<string, unknown>[],
+  delimiter?: string
+): { columns: string[]; rows: ImportSourceRow[] } {
+  if (format === 'json') {
+    let parsed: unknown = content;
+    if (typeof content === 'string') {
+      try {
+        parsed = JSON.parse(content);
+      } catch {
+        throw new Error('JSON inválido');
+      }
+    }
+
+    const list = Array.isArray(parsed)
+      ? parsed
+      : (parsed as { records?: unknown })?.records;
+    if (!Array.isArray(list)) {
+      throw new Error('O JSON deve ser uma lista de registros ou um objeto com "records"');
+    }
+
+    const rows = list
+      .filter(item => item && typeof item === 'object' && !Array.isArray(item))
+      .map((item, index) => ({ row: index + 1, values: item as Record<string, unknown> }));
+    const columns = [...new Set(rows.flatMap(r => Object.keys(r.values)))];
+    return { columns, rows };
+  }
+
+  if (typeof content !== 'string') {
+    throw new Error('Envie o conteúdo do CSV como texto');
+  }
+
+  const [header, ...lines] = parseCsv(content, delimiter);
+  if (!header) {
+    return { columns: [], rows: [] };
+  }
+
+  return {
+    columns: header,
+    rows: lines.map((cells, index) => ({
+      row: index + 2,
+      values: Object.fromEntries(header.map((column, i) => [column, cells[i] ?? ''])),
+    })),
+  };
+}
+
+/**
+ * Mapeamento enviado pelo usuário sobrescreve o do preset campo a campo
+ */
+export function mergeImportMapping(base?: ImportMapping, override?: Partial<ImportMapping>): ImportMapping {
+  return {
+    ...base,
+    ...override,
+    columns: { ...base?.columns, ...override?.columns },
+    typeValues: { ...base?.typeValues, ...override?.typeValues },
+  };
+}
+
+/**
+ * Colunas do mapeamento que não existem no arquivo
+ */
+export function findMissingColumns(mapping: ImportMapping, columns: string[]): string[] {
+  const available = columns.map(normalizeImportToken);
+  return Object.values(mapping.columns)
+    .filter((column): column is string => !!column)
+    .filter(column => !available.includes(normalizeImportToken(column.split('.')[0])));
+}
+
+/**
+ * Converte uma linha do arquivo em registro do Olive Baby ou em um problema apontando a linha
+ */
+export function mapImportRow(
+  source: ImportSourceRow,
+  mapping: ImportMapping,
+  timezone: string,
+  now: Date = new Date()
+): ImportRowResult {
+  const get = (field: keyof ImportColumnMapping) => readValue(source.values, mapping.columns[field]);
+  const issue = (code: string, message: string): ImportRowResult => ({
+    issue: { row: source.row, code, message },
+  });
+
+  const rawType = get('type');
+  const kind = resolveKind(rawType, mapping);
+  if (!kind) {
+    return rawType === null
+      ? issue('MISSING_TYPE', 'Tipo do registro não informado')
+      : issue('UNKNOWN_TYPE', `Tipo "${rawType}" não reconhecido; informe em typeValues`);
+  }
+
+  const date = get('date');
+  const startRaw = get('start') ?? joinDateTime(date, get('startTimeOfDay'));
+  const start = startRaw !== null ? parseImportDate(startRaw, mapping.dateFormat, timezone) : null;
+
+  if (!start) {
+    return startRaw === null
+      ? issue('MISSING_DATE', 'Data/hora de início não informada')
+      : issue('INVALID_DATE', `Data "${String(startRaw)}" não reconhecida`);
+  }
+  if (start.getTime() > now.getTime() + 5 * MINUTE_MS) {
+    return issue('FUTURE_DATE', 'Registro com data no futuro');
+  }
+
+  const notes = toText(get('notes'));
+
+  if (kind === 'GROWTH') {
+    const weightKg = toWeightKg(get('weightKg'), mapping);
+    const heightCm = toLengthCm(get('heightCm'), mapping);
+    const headCircumferenceCm = toLengthCm(get('headCircumferenceCm'), mapping);
+
+    if (weightKg === null && heightCm === null && headCircumferenceCm === null) {
+      return issue('MISSING_MEASUREMENT', 'Informe peso, comprimento ou perímetro cefálico');
+    }
+
+    const measures = { weightKg, heightCm, headCircumferenceCm };
+    for (const [field, value] of Object.entries(measures)) {
+      const limits = GROWTH_LIMITS[field as keyof typeof GROWTH_LIMITS];
+      if (value !== null && (value < limits.min || value > limits.max)) {
+        return issue('OUT_OF_RANGE', `${field} fora da faixa esperada (${value}); confira a unidade`);
+      }
+    }
+
+    return { record: { kind: 'GROWTH', row: source.row, measuredAt: start, ...measures, notes } };
+  }
+
+  if (kind === 'MILESTONE') {
+    const label = toText(get('milestone'));
+    if (!label) {
+      return issue('MISSING_MILESTONE', 'Nome do marco não informado');
+    }
+    const predefined = PREDEFINED_MILESTONES.find(m =>
+      m.key === label || normalizeImportToken(m.label) === normalizeImportToken(label)
+    );
+    return {
+      record: {
+        kind: 'MILESTONE',
+        row: source.row,
+        milestoneKey: predefined?.key || label,
+        milestoneLabel: predefined?.label || label,
+        occurredOn: start,
+        notes,
+      },
+    };
+  }
+
+  // Rotinas
+  const routineType = kind as RoutineType;
+  let end: Date | null = null;
+  const endTimeOfDay = get('endTimeOfDay');
+  const endRaw = get('end') ?? (endTimeOfDay !== null ? joinDateTime(date, endTimeOfDay) : null);
+  if (endRaw !== null) {
+    end = parseImportDate(endRaw, mapping.dateFormat, timezone);
+    if (!end) {
+      return issue('INVALID_DATE', `Data de fim "${String(endRaw)}" não reconhecida`);
+    }
+    // Só a hora de fim: passou da meia-noite
+    if (mapping.columns.end === undefined && end < start) {
+      end = new Date(end.getTime() + DAY_MS);
+    }
+  } else {
+    const durationMinutes = parseDurationMinutes(get('durationMinutes'));
+    if (durationMinutes !== null) {
+      end = new Date(start.getTime() + durationMinutes * MINUTE_MS);
+    }
+  }
+
+  const meta = buildMeta(routineType, source.values, rawType, mapping);
+
+  if (!TIMED_KINDS.includes(kind)) {
+    end = start;
+  } else if (!end) {
+    // Mamadeira e sólidos costumam ser registrados como evento pontual em outros apps
+    if (routineType === 'FEEDING' && meta.feedingType && meta.feedingType !== 'breast') {
+      end = start;
+    } else {
+      return issue('MISSING_END', 'Informe o fim ou a duração do registro');
+    }
+  }
+
+  if (end < start) {
+    return issue('INVALID_RANGE', 'Fim anterior ao início');
+  }
+  if (end.getTime() - start.getTime() > MAX_ROUTINE_DURATION_MS) {
+    return issue('INVALID_RANGE', 'Duração maior que 24 horas');
+  }
+
+  return {
+    record: {
+      kind: 'ROUTINE',
+      row: source.row,
+      routineType,
+      startTime: start,
+      endTime: end,
+      durationSeconds: calculateDurationSeconds(start, end),
+      notes,
+      meta: normalizeAndSanitizeMeta(routineType, meta),
+    },
+  };
+}
+
+// ==========================================
+// Helpers
+// ==========================================
+
+function readValue(values: Record<string, unknown>, column?: string): unknown {
+  if (!column) return null;
+
+  let value: unknown = values;
+  for (const part of column.split('.')) {
+    if (!value || typeof value !== 'object') return null;
+    const record = value as Record<string, unknown>;
+    const key = part in record
+      ? part
+      : Object.keys(record).find(k => normalizeImportToken(k) === normalizeImportToken(part));
+    value = key !== undefined ? record[key] : null;
+  }
+
+  if (value === undefined || value === null) return null;
+  if (typeof value === 'string' && EMPTY_VALUES.includes(value.trim().toLowerCase())) return null;
+  return value;
+}
+
+function resolveKind(rawType: unknown, mapping: ImportMapping): ImportRecordKind | null {
+  if (rawType === null) {
+    return mapping.defaultType || null;
+  }
+
+  const token = normalizeImportToken(rawType);
+  const custom = Object.entries(mapping.typeValues || {})
+    .find(([value]) => normalizeImportToken(value) === token);
+  if (custom) return custom[1];
+
+  const direct = token.toUpperCase() as ImportRecordKind;
+  if (['FEEDING', 'SLEEP', 'DIAPER', 'BATH', 'MILK_EXTRACTION', 'GROWTH', 'MILESTONE'].includes(direct)) {
+    return direct;
+  }
+
+  return IMPORT_TYPE_SYNONYMS[token] || null;
+}
+
+function joinDateTime(date: unknown, time: unknown): string | null {
+  if (date === null) return null;
+  return time === null ? String(date) : `${String(date)} ${String(time)}`;
+}
+
+/**
+ * Datas com fuso explícito são usadas como estão; as demais são interpretadas no fuso do usuário
+ */
+export function parseImportDate(value: unknown, dateFormat: string | undefined, timezone: string): Date | null {
+  if (value instanceof Date) {
+    return isValid(value) ? value : null;
+  }
+  if (typeof value === 'number') {
+    // Epoch em segundos ou milissegundos
+    return new Date(value < 1e11 ? value * 1000 : value);
+  }
+
+  const text = String(value).trim();
+  if (/^\d{4}-\d{2}-\d{2}T.*(Z|[+-]\d{2}:?\d{2})$/.test(text)) {
+    const date = new Date(text);
+    return isValid(date) ? date : null;
+  }
+
+  const formats = dateFormat ? [dateFormat, ...FALLBACK_DATE_FORMATS] : FALLBACK_DATE_FORMATS;
+  for (const format of formats) {
+    const local = parse(text, format, new Date(0));
+    if (isValid(local)) {
+      return fromZonedTime(local, timezone);
+    }
+  }
+  return null;
+}
+
+function parseDurationMinutes(value: unknown): number | null {
+  if (value === null) return null;
+  if (typeof value === 'number') return value;
+
+  const text = String(value).trim();
+  const clock = text.match(/^(\d+):(\d{2})(?::(\d{2}))?$/);
+  if (clock) {
+    return Number(clock[1]) * 60 + Number(clock[2]) + Number(clock[3] || 0) / 60;
+  }
+
+  const hours = text.match(/(\d+)\s*h/i);
+  const minutes = text.match(/(\d+)\s*m(?!l)/i);
+  if (hours || minutes) {
+    return Number(hours?.[1] || 0) * 60 + Number(minutes?.[1] || 0);
+  }
+
+  return parseNumber(text);
+}
+
+function parseNumber(value: unknown): number | null {
+  if (value === null) return null;
+  if (typeof value === 'number') return isFinite(value) ? value : null;
+  const match = String(value).replace(',', '.').match(/-?\d+(\.\d+)?/);
+  return match ? Number(match[0]) : null;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+function toText(value: unknown): string | null {
+  if (value === null) return null;
+  const text = String(value).trim();
+  return text || null;
+}
+
+function toWeightKg(value: unknown, mapping: ImportMapping): number | null {
+  const amount = parseNumber(value);
+  if (amount === null) return null;
+  const token = normalizeImportToken(value);
+  const unit = /kg/.test(token) ? 'kg' : /lb/.test(token) ? 'lb' : /\dg|\sg$/.test(token) ? 'g' : mapping.weightUnit || 'kg';
+  if (unit === 'g') return round(amount / 1000, 2);
+  if (unit === 'lb') return round(amount * 0.453592, 2);
+  return round(amount, 2);
+}
+
+function toLengthCm(value: unknown, mapping: ImportMapping): number | null {
+  const amount = parseNumber(value);
+  if (amount === null) return null;
+  const token = normalizeImportToken(value);
+  const unit = /cm/.test(token) ? 'cm' : /in|"/.test(token) ? 'in' : mapping.lengthUnit || 'cm';
+  return round(unit === 'in' ? amount * 2.54 : amount, 1);
+}
+
+function toMl(value: unknown, mapping: ImportMapping): number | null {
+  const amount = parseNumber(value);
+  if (amount === null) return null;
+  const token = normalizeImportToken(value);
+  const unit = /oz/.test(token) ? 'oz' : /ml/.test(token) ? 'ml' : mapping.volumeUnit || 'ml';
+  return Math.round(unit === 'oz' ? amount * 29.5735 : amount);
+}
+
+function detectFeedingType(text: string): string | undefined {
+  if (/mamadeira|bottle|formula/.test(text)) return 'bottle';
+  if (/solido|solid|papinha|puree/.test(text)) return 'solid';
+  if (/amamentacao|peito|seio|breast|nursing/.test(text)) return 'breast';
+  return undefined;
+}
+
+function detectBreastSide(text: string): string | undefined {
+  if (/ambos|both|left and right|esquerdo e direito|\bl\s*\/\s*r\b/.test(text)) return 'both';
+  if (/esquerd|\bleft\b|\bl\b/.test(text)) return 'left';
+  if (/direit|\bright\b|\br\b/.test(text)) return 'right';
+  return undefined;
+}
+
+function detectDiaperType(text: string): string | undefined {
+  const pee = /xixi|\bpee\b|\bwet\b|urina/.test(text);
+  const poop = /coco|\bpoo|\bdirty\b|\bbm\b|fezes/.test(text);
+  if (/both|mixed|ambos/.test(text) || (pee && poop)) return 'both';
+  if (poop) return 'poop';
+  if (pee) return 'pee';
+  return undefined;
+}
+
+/**
+ * Monta o meta a partir das colunas dedicadas, do texto de detalhes e do meta do JSON
+ */
+function buildMeta(
+  routineType: RoutineType,
+  values: Record<string, unknown>,
+  rawType: unknown,
+  mapping: ImportMapping
+): Record<string, unknown> {
+  const passthrough = values.meta && typeof values.meta === 'object' && !Array.isArray(values.meta)
+    ? { ...(values.meta as Record<string, unknown>) }
+    : {};
+
+  const get = (field: keyof ImportColumnMapping) => readValue(values, mapping.columns[field]);
+  const details = normalizeImportToken(get('details'));
+  const amountMl = toMl(get('amountMl'), mapping)
+    ?? (/\d\s*(ml|oz)/.test(details) ? toMl(details.match(/[\d.,]+\s*(ml|oz)/)?.[0] ?? null, mapping) : null);
+
+  const scan = (field: keyof ImportColumnMapping) => {
+    const value = get(field);
+    return value !== null ? normalizeImportToken(value) : details;
+  };
+
+  switch (routineType) {
+    case 'FEEDING': {
+      const feedingType = detectFeedingType(scan('feedingType'))
+        || FEEDING_TYPE_HINTS[normalizeImportToken(rawType)]
+        || (passthrough.feedingType as string | undefined)
+        || (amountMl !== null ? 'bottle' : undefined);
+      const meta: Record<string, unknown> = { ...passthrough, feedingType };
+      if (feedingType === 'breast') {
+        meta.breastSide = detectBreastSide(scan('breastSide')) || passthrough.breastSide;
+      }
+      if (feedingType === 'bottle' && amountMl !== null) {
+        meta.bottleMl = amountMl;
+      }
+      return meta;
+    }
+    case 'MILK_EXTRACTION': {
+      const method = /eletric|electric/.test(details) ? 'electric' : /manual/.test(details) ? 'manual' : undefined;
+      return {
+        ...passthrough,
+        extractionType: method || passthrough.extractionType,
+        breastSide: detectBreastSide(scan('breastSide')) || passthrough.breastSide,
+        quantityMl: amountMl ?? passthrough.quantityMl,
+      };
+    }
+    case 'DIAPER':
+      return {
+        ...passthrough,
+        diaperType: detectDiaperType(scan('diaperType'))
+          || detectDiaperType(normalizeImportToken(rawType))
+          || passthrough.diaperType,
+      };
+    default:
+      return passthrough;
+  }
+}
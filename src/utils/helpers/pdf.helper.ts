@@ -0,0 +1,507 @@
+// Olive Baby API - PDF Report Helper
+// Renderização do relatório completo do bebê (resumo para consulta pediátrica)
+import PDFDocument from 'pdfkit';
+import { formatDateBR, formatTimeBR } from './date.helper';
+
+const COLORS = {
+  primary: '#738251',
+  text: '#2f2f2f',
+  muted: '#7a7a7a',
+  border: '#d9d3c7',
+  sleep: '#6b7fb3',
+  feeding: '#c98b4f',
+  danger: '#b4443c',
+};
+
+const PAGE_MARGIN = 50;
+
+export interface BabyReportPdfData {
+  baby: {
+    name: string;
+    birthDate: Date;
+    gender: string | null;
+    gestationalAgeWeeks: number | null;
+    ageLabel: string;
+  };
+  period: { start: Date; end: Date; days: number };
+  generatedAt: Date;
+  routineSummary: { label: string; total: number; averagePerDay: number; last24h: number }[];
+  charts: {
+    labels: string[];
+    sleepHoursPerDay: number[];
+    feedingCountsPerDay: number[];
+  };
+  growth: {
+    available: boolean;
+    reason: string | null;
+    rows: {
+      measuredAt: Date;
+      ageMonths: number;
+      weightKg: number | null;
+      weightPercentile: number | null;
+      lengthCm: number | null;
+      lengthPercentile: number | null;
+      headCm: number | null;
+      headPercentile: number | null;
+      alerts: string[];
+    }[];
+  };
+  vaccines: {
+    total: number;
+    applied: number;
+    pending: number;
+    overdue: number;
+    skipped: number;
+    next: { vaccineName: string; doseLabel: string; recommendedAt: Date; isOverdue: boolean }[];
+  };
+  milestones: { label: string; occurredOn: Date | null; notes: string | null }[];
+}
+
+/**
+ * Gera o PDF do relatório completo e retorna o conteúdo em memória
+ */
+export function generateBabyReportPdf(data: BabyReportPdfData): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: PAGE_MARGIN, bufferPages: true });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    drawHeader(doc, data);
+    drawRoutineSummary(doc, data);
+    drawCharts(doc, data);
+    drawGrowthTable(doc, data);
+    drawVaccines(doc, data);
+    drawMilestones(doc, data);
+    drawFooters(doc, data);
+
+    doc.end();
+  });
+}
+
+export interface VaccineCertificatePdfData {
+  baby: { name: string; birthDate: string };
+  doses: {
+    vaccineName: string;
+    doseLabel: string;
+    appliedAt: string;
+    lotNumber: string | null;
+    clinicName: string | null;
+    professionalName: string | null;
+  }[];
+  issuedAt: Date;
+  code: string;
+  fingerprint: string;
+  verifyUrl: string;
+  qrPng: Buffer;
+}
+
+/**
+ * Gera o PDF do certificado de vacinação (doses aplicadas + QR de verificação)
+ */
+export function generateVaccineCertificatePdf(data: VaccineCertificatePdfData): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: PAGE_MARGIN, bufferPages: true });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const qrSize = 110;
+    const qrX = doc.page.width - PAGE_MARGIN - qrSize;
+    doc.image(data.qrPng, qrX, PAGE_MARGIN, { width: qrSize });
+
+    const textWidth = qrX - PAGE_MARGIN - 15;
+    doc.fillColor(COLORS.primary).fontSize(20).font('Helvetica-Bold')
+      .text('Certificado de Vacinação', PAGE_MARGIN, PAGE_MARGIN, { width: textWidth });
+    doc.fillColor(COLORS.muted).fontSize(10).font('Helvetica')
+      .text('Doses aplicadas registradas no Olive Baby', { width: textWidth });
+    doc.moveDown(0.8);
+
+    doc.fillColor(COLORS.text).fontSize(11);
+    const details = [
+      ['Criança', data.baby.name],
+      ['Nascimento', formatDateBR(new Date(`${data.baby.birthDate}T12:00:00`))],
+      ['Emitido em', `${formatDateBR(data.issuedAt)} às ${formatTimeBR(data.issuedAt)}`],
+      ['Código', data.code],
+    ];
+    for (const [label, value] of details) {
+      doc.font('Helvetica-Bold').text(`${label}: `, { continued: true, width: textWidth })
+        .font('Helvetica').text(value, { width: textWidth });
+    }
+
+    doc.y = Math.max(doc.y, PAGE_MARGIN + qrSize) + 10;
+    doc.x = PAGE_MARGIN;
+    drawDivider(doc);
+
+    drawSectionTitle(doc, `Doses aplicadas (${data.doses.length})`);
+    drawTable(doc, {
+      columns: [
+        { title: 'Vacina', width: 135 },
+        { title: 'Dose', width: 60 },
+        { title: 'Data', width: 60 },
+        { title: 'Lote', width: 60 },
+        { title: 'Local', width: 90 },
+        { title: 'Profissional', width: 90 },
+      ],
+      rows: data.doses.map(d => [
+        d.vaccineName,
+        d.doseLabel,
+        formatDateBR(new Date(`${d.appliedAt}T12:00:00`)),
+        d.lotNumber || '-',
+        d.clinicName || '-',
+        d.professionalName || '-',
+      ]),
+    });
+
+    const range = doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      doc.page.margins.bottom = 0;
+      const y = doc.page.height - PAGE_MARGIN;
+      doc.fillColor(COLORS.muted).fontSize(8).font('Helvetica').text(
+        `Documento assinado digitalmente (impressão ${data.fingerprint}). Verifique a autenticidade em ${data.verifyUrl} — Página ${i + 1} de ${range.count}`,
+        PAGE_MARGIN,
+        y,
+        { width: doc.page.width - PAGE_MARGIN * 2, align: 'center' }
+      );
+    }
+
+    doc.end();
+  });
+}
+
+// ==========================================
+// Seções
+// ==========================================
+
+function drawHeader(doc: PDFKit.PDFDocument, data: BabyReportPdfData) {
+  const { baby, period } = data;
+
+  doc.fillColor(COLORS.primary).fontSize(20).font('Helvetica-Bold').text('Relatório Olive Baby');
+  doc.fillColor(COLORS.muted).fontSize(10).font('Helvetica')
+    .text(`Resumo para consulta pediátrica — ${formatDateBR(period.start)} a ${formatDateBR(period.end)}`);
+  doc.moveDown(0.8);
+
+  const genderLabels: Record<string, string> = { MALE: 'Masculino', FEMALE: 'Feminino' };
+  const details = [
+    ['Bebê', baby.name],
+    ['Nascimento', `${formatDateBR(baby.birthDate)} (${baby.ageLabel})`],
+    ['Sexo', baby.gender ? genderLabels[baby.gender] || 'Não informado' : 'Não informado'],
+    ['Idade gestacional', baby.gestationalAgeWeeks ? `${baby.gestationalAgeWeeks} semanas` : 'Não informada'],
+  ];
+
+  doc.fillColor(COLORS.text).fontSize(11);
+  for (const [label, value] of details) {
+    doc.font('Helvetica-Bold').text(`${label}: `, { continued: true }).font('Helvetica').text(value);
+  }
+
+  doc.moveDown(0.5);
+  drawDivider(doc);
+}
+
+function drawRoutineSummary(doc: PDFKit.PDFDocument, data: BabyReportPdfData) {
+  drawSectionTitle(doc, `Rotinas (últimos ${data.period.days} dias)`);
+
+  if (data.routineSummary.length === 0) {
+    drawEmpty(doc, 'Nenhuma rotina registrada no período.');
+    return;
+  }
+
+  drawTable(doc, {
+    columns: [
+      { title: 'Rotina', width: 200 },
+      { title: 'Registros', width: 90, align: 'right' },
+      { title: 'Média/dia', width: 90, align: 'right' },
+      { title: 'Últimas 24h', width: 100, align: 'right' },
+    ],
+    rows: data.routineSummary.map(r => [
+      r.label,
+      String(r.total),
+      r.averagePerDay.toFixed(1),
+      String(r.last24h),
+    ]),
+  });
+}
+
+function drawCharts(doc: PDFKit.PDFDocument, data: BabyReportPdfData) {
+  drawSectionTitle(doc, 'Sono e alimentação por dia');
+
+  const chartHeight = 120;
+  ensureSpace(doc, chartHeight * 2 + 80);
+
+  drawBarChart(doc, {
+    title: 'Horas de sono',
+    labels: data.charts.labels,
+    values: data.charts.sleepHoursPerDay,
+    color: COLORS.sleep,
+    height: chartHeight,
+    formatValue: v => v.toFixed(1),
+  });
+
+  doc.moveDown(1);
+
+  drawBarChart(doc, {
+    title: 'Mamadas / refeições',
+    labels: data.charts.labels,
+    values: data.charts.feedingCountsPerDay,
+    color: COLORS.feeding,
+    height: chartHeight,
+    formatValue: v => String(Math.round(v)),
+  });
+}
+
+function drawGrowthTable(doc: PDFKit.PDFDocument, data: BabyReportPdfData) {
+  drawSectionTitle(doc, 'Crescimento (percentis OMS)');
+
+  if (data.growth.rows.length === 0) {
+    drawEmpty(doc, 'Nenhuma medição registrada.');
+    return;
+  }
+
+  if (!data.growth.available && data.growth.reason) {
+    doc.fillColor(COLORS.muted).fontSize(9).font('Helvetica').text(data.growth.reason);
+    doc.moveDown(0.3);
+  }
+
+  const withPercentile = (value: number | null, unit: string, percentile: number | null) => {
+    if (value === null) return '-';
+    return percentile !== null ? `${value} ${unit} (P${percentile.toFixed(0)})` : `${value} ${unit}`;
+  };
+
+  drawTable(doc, {
+    columns: [
+      { title: 'Data', width: 70 },
+      { title: 'Idade', width: 55, align: 'right' },
+      { title: 'Peso', width: 105, align: 'right' },
+      { title: 'Comprimento', width: 110, align: 'right' },
+      { title: 'Perímetro cefálico', width: 155, align: 'right' },
+    ],
+    rows: data.growth.rows.map(r => [
+      formatDateBR(r.measuredAt),
+      `${r.ageMonths.toFixed(1)} m`,
+      withPercentile(r.weightKg, 'kg', r.weightPercentile),
+      withPercentile(r.lengthCm, 'cm', r.lengthPercentile),
+      withPercentile(r.headCm, 'cm', r.headPercentile),
+    ]),
+  });
+
+  const alerts = data.growth.rows.flatMap(r => r.alerts.map(a => `${formatDateBR(r.measuredAt)}: ${a}`));
+  if (alerts.length > 0) {
+    doc.fillColor(COLORS.danger).fontSize(9).font('Helvetica');
+    for (const alert of alerts) {
+      doc.text(`• ${alert}`);
+    }
+    doc.fillColor(COLORS.text);
+  }
+}
+
+function drawVaccines(doc: PDFKit.PDFDocument, data: BabyReportPdfData) {
+  drawSectionTitle(doc, 'Vacinas');
+
+  const { vaccines } = data;
+  if (vaccines.total === 0) {
+    drawEmpty(doc, 'Calendário vacinal não sincronizado.');
+    return;
+  }
+
+  doc.fillColor(COLORS.text).fontSize(10).font('Helvetica')
+    .text(`Aplicadas: ${vaccines.applied}   Pendentes: ${vaccines.pending}   Atrasadas: ${vaccines.overdue}   Não aplicadas: ${vaccines.skipped}`);
+  doc.moveDown(0.4);
+
+  if (vaccines.next.length > 0) {
+    drawTable(doc, {
+      columns: [
+        { title: 'Próximas vacinas', width: 220 },
+        { title: 'Dose', width: 110 },
+        { title: 'Data recomendada', width: 110, align: 'right' },
+        { title: 'Situação', width: 55, align: 'right' },
+      ],
+      rows: vaccines.next.map(v => [
+        v.vaccineName,
+        v.doseLabel,
+        formatDateBR(v.recommendedAt),
+        v.isOverdue ? 'Atrasada' : 'Pendente',
+      ]),
+    });
+  }
+}
+
+function drawMilestones(doc: PDFKit.PDFDocument, data: BabyReportPdfData) {
+  drawSectionTitle(doc, 'Marcos do desenvolvimento');
+
+  if (data.milestones.length === 0) {
+    drawEmpty(doc, 'Nenhum marco registrado.');
+    return;
+  }
+
+  drawTable(doc, {
+    columns: [
+      { title: 'Marco', width: 230 },
+      { title: 'Data', width: 80 },
+      { title: 'Observações', width: 185 },
+    ],
+    rows: data.milestones.map(m => [
+      m.label,
+      m.occurredOn ? formatDateBR(m.occurredOn) : '-',
+      m.notes || '',
+    ]),
+  });
+}
+
+function drawFooters(doc: PDFKit.PDFDocument, data: BabyReportPdfData) {
+  const range = doc.bufferedPageRange();
+
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    // Sem zerar a margem inferior o pdfkit criaria uma página nova para o rodapé
+    doc.page.margins.bottom = 0;
+    const y = doc.page.height - PAGE_MARGIN + 15;
+    doc.fillColor(COLORS.muted).fontSize(8).font('Helvetica').text(
+      `Gerado em ${formatDateBR(data.generatedAt)} às ${formatTimeBR(data.generatedAt)} — dados informados pelos cuidadores no Olive Baby. Página ${i + 1} de ${range.count}`,
+      PAGE_MARGIN,
+      y,
+      { width: doc.page.width - PAGE_MARGIN * 2, align: 'center', lineBreak: false }
+    );
+  }
+}
+
+// ==========================================
+// Primitivas de desenho
+// ==========================================
+
+function drawSectionTitle(doc: PDFKit.PDFDocument, title: string) {
+  ensureSpace(doc, 60);
+  doc.moveDown(0.8);
+  doc.x = PAGE_MARGIN;
+  doc.fillColor(COLORS.primary).fontSize(14).font('Helvetica-Bold').text(title);
+  doc.moveDown(0.4);
+  doc.fillColor(COLORS.text).font('Helvetica');
+}
+
+function drawEmpty(doc: PDFKit.PDFDocument, message: string) {
+  doc.fillColor(COLORS.muted).fontSize(10).font('Helvetica-Oblique').text(message);
+  doc.fillColor(COLORS.text).font('Helvetica');
+}
+
+function drawDivider(doc: PDFKit.PDFDocument) {
+  const y = doc.y;
+  doc.strokeColor(COLORS.border).lineWidth(1)
+    .moveTo(PAGE_MARGIN, y)
+    .lineTo(doc.page.width - PAGE_MARGIN, y)
+    .stroke();
+  doc.moveDown(0.5);
+}
+
+// Quebra a página se não houver espaço suficiente para o próximo bloco
+function ensureSpace(doc: PDFKit.PDFDocument, height: number) {
+  if (doc.y + height > doc.page.height - PAGE_MARGIN) {
+    doc.addPage();
+  }
+}
+
+interface TableColumn {
+  title: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+function drawTable(doc: PDFKit.PDFDocument, table: { columns: TableColumn[]; rows: string[][] }) {
+  const rowHeight = 18;
+  const padding = 4;
+
+  const drawRow = (cells: string[], bold: boolean) => {
+    ensureSpace(doc, rowHeight);
+    const y = doc.y;
+    let x = PAGE_MARGIN;
+
+    doc.fontSize(9).font(bold ? 'Helvetica-Bold' : 'Helvetica').fillColor(COLORS.text);
+    table.columns.forEach((column, index) => {
+      doc.text(cells[index] ?? '', x + padding, y + padding, {
+        width: column.width - padding * 2,
+        align: column.align || 'left',
+        lineBreak: false,
+        ellipsis: true,
+      });
+      x += column.width;
+    });
+
+    doc.strokeColor(COLORS.border).lineWidth(0.5)
+      .moveTo(PAGE_MARGIN, y + rowHeight)
+      .lineTo(x, y + rowHeight)
+      .stroke();
+
+    doc.x = PAGE_MARGIN;
+    doc.y = y + rowHeight;
+  };
+
+  drawRow(table.columns.map(c => c.title), true);
+  for (const row of table.rows) {
+    drawRow(row, false);
+  }
+  doc.moveDown(0.5);
+}
+
+function drawBarChart(
+  doc: PDFKit.PDFDocument,
+  chart: {
+    title: string;
+    labels: string[];
+    values: number[];
+    color: string;
+    height: number;
+    formatValue: (value: number) => string;
+  }
+) {
+  const width = doc.page.width - PAGE_MARGIN * 2;
+  const labelArea = 14;
+
+  doc.fillColor(COLORS.text).fontSize(10).font('Helvetica-Bold').text(chart.title, PAGE_MARGIN, doc.y);
+  doc.moveDown(0.3);
+
+  const top = doc.y;
+  const plotHeight = chart.height - labelArea * 2;
+  const baseline = top + labelArea + plotHeight;
+  const maxValue = Math.max(...chart.values, 1);
+  const slot = width / Math.max(chart.values.length, 1);
+  const barWidth = Math.min(slot * 0.6, 40);
+
+  doc.strokeColor(COLORS.border).lineWidth(0.5)
+    .moveTo(PAGE_MARGIN, baseline)
+    .lineTo(PAGE_MARGIN + width, baseline)
+    .stroke();
+
+  // Com muitos dias os rótulos são espaçados para não sobrepor
+  const labelStep = Math.ceil(chart.labels.length / 15);
+
+  chart.values.forEach((value, index) => {
+    const barHeight = (value / maxValue) * plotHeight;
+    const x = PAGE_MARGIN + slot * index + (slot - barWidth) / 2;
+
+    if (barHeight > 0) {
+      doc.rect(x, baseline - barHeight, barWidth, barHeight).fill(chart.color);
+      doc.fillColor(COLORS.muted).fontSize(7).font('Helvetica')
+        .text(chart.formatValue(value), x - 5, baseline - barHeight - 9, {
+          width: barWidth + 10,
+          align: 'center',
+          lineBreak: false,
+        });
+    }
+
+    if (index % labelStep === 0) {
+      doc.fillColor(COLORS.muted).fontSize(6).font('Helvetica')
+        .text(chart.labels[index] || '', PAGE_MARGIN + slot * index, baseline + 3, {
+          width: slot * labelStep,
+          align: labelStep > 1 ? 'left' : 'center',
+          lineBreak: false,
+        });
+    }
+  });
+
+  doc.x = PAGE_MARGIN;
+  doc.y = baseline + labelArea + 4;
+  doc.fillColor(COLORS.text);
+}
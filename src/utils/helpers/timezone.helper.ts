@@ -1,7 +1,7 @@
 // Olive Baby API - Timezone Helpers
 // Handles timezone conversions for consistent date/time handling across the app
 
-import { formatInTimeZone, toZonedTime, fromZonedTime } from 'date-fns-tz';
+import { formatInTimeZone, toZonedTime, fromZonedTime, getTimezoneOffset as getZoneOffsetMs } from 'date-fns-tz';
 import { parseISO } from 'date-fns';
 import { ptBR } from 'date-fns/locale';
 
@@ -63,6 +63,22 @@ export function fromUserTimezone(date: Date | string, timezone: string = DEFAULT
   return fromZonedTime(d, timezone);
 }
 
+/**
+ * Converts a wall-clock time ("yyyy-MM-ddTHH:mm:ss") in a timezone to UTC.
+ * Times inside the spring-forward gap don't exist: they move forward by the
+ * offset change (02:30 in a 02:00 -> 03:00 jump becomes 03:30).
+ */
+export function fromWallClock(wallClock: string, timezone: string = DEFAULT_TIMEZONE): Date {
+  const instant = fromZonedTime(wallClock, timezone);
+  if (formatInTimeZone(instant, timezone, "yyyy-MM-dd'T'HH:mm:ss") === wallClock) {
+    return instant;
+  }
+
+  // Apply the pre-gap offset, as if the wall clock kept running on the old offset
+  const offsetBefore = getZoneOffsetMs(timezone, new Date(instant.getTime() - 24 * 60 * 60 * 1000));
+  return new Date(Date.parse(`${wallClock}Z`) - offsetBefore);
+}
+
 /**
  * Formats a UTC date to a string in the user's timezone
  * @param date - UTC Date or ISO string
@@ -224,6 +240,44 @@ export function formatDateTimeLocalFromUTC(
   return formatInTimeZone(d, timezone, "yyyy-MM-dd'T'HH:mm");
 }
 
+/**
+ * Checks whether `now` falls inside a daily quiet-hours window ("HH:mm" in the user's timezone).
+ * Windows crossing midnight (e.g. 22:00-07:00) are supported.
+ * @returns UTC instant when the current window ends, or null when outside the window
+ */
+export function getQuietHoursEnd(
+  now: Date,
+  start: string,
+  end: string,
+  timezone: string = DEFAULT_TIMEZONE
+): Date | null {
+  const toMinutes = (value: string) => {
+    const [h, m] = value.split(':').map(Number);
+    return h * 60 + m;
+  };
+  const startMinutes = toMinutes(start);
+  const endMinutes = toMinutes(end);
+  if (!Number.isFinite(startMinutes) || !Number.isFinite(endMinutes) || startMinutes === endMinutes) {
+    return null;
+  }
+
+  const [hours, minutes] = formatInTimeZone(now, timezone, 'HH:mm').split(':').map(Number);
+  const current = hours * 60 + minutes;
+  const overnight = startMinutes > endMinutes;
+  const inside = overnight
+    ? current >= startMinutes || current < endMinutes
+    : current >= startMinutes && current < endMinutes;
+  if (!inside) return null;
+
+  // Overnight window entered before midnight ends on the next local day
+  let endDate = formatInTimeZone(now, timezone, 'yyyy-MM-dd');
+  if (overnight && current >= startMinutes) {
+    const [y, mo, d] = endDate.split('-').map(Number);
+    endDate = new Date(Date.UTC(y, mo - 1, d + 1)).toISOString().slice(0, 10);
+  }
+  return fromZonedTime(`${endDate}T${end}:00`, timezone);
+}
+
 export default {
   DEFAULT_TIMEZONE,
   BRAZILIAN_TIMEZONES,
@@ -242,4 +296,5 @@ export default {
   formatRelativeTime,
   parseDateTimeLocalToUTC,
   formatDateTimeLocalFromUTC,
+  getQuietHoursEnd,
 };
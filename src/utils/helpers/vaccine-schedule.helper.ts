@@ -0,0 +1,206 @@
+// Olive Baby API - Vaccine Schedule Helpers
+// Calendário de recuperação (catch-up): uma dose atrasada empurra as doses
+// seguintes da mesma série pelo intervalo mínimo entre doses, e doses aplicadas
+// antes da idade mínima ou do intervalo mínimo não contam para o esquema: a
+// repetição vira um registro pendente próprio (repeatOfId).
+
+import { addDays, addMonths, isAfter, isBefore, startOfDay } from 'date-fns';
+import { BabyVaccineRecord, VaccineDefinition, VaccineStatus } from '@prisma/client';
+
+// Sem intervalo definido, uma dose inválida é repetida após 4 semanas
+const DEFAULT_REPEAT_INTERVAL_DAYS = 28;
+
+export type ScheduleDefinition = Pick<
+  VaccineDefinition,
+  | 'vaccineKey'
+  | 'doseLabel'
+  | 'doseNumber'
+  | 'ageMonths'
+  | 'ageDays'
+  | 'ageMaxMonths'
+  | 'minAgeDays'
+  | 'maxAgeDays'
+  | 'minIntervalDays'
+  | 'sortOrder'
+  | 'calendarId'
+>;
+
+export type ScheduleRecord = Pick<
+  BabyVaccineRecord,
+  'id' | 'vaccineKey' | 'doseLabel' | 'calendarId' | 'status' | 'appliedAt' | 'recommendedAt' | 'repeatOfId'
+>;
+
+export interface ScheduledDose {
+  recordId: number;
+  recommendedAt: Date;
+  validUntil: Date | null;
+  isValid: boolean;
+  invalidReason: string | null;
+  repeat: { doseLabel: string; recommendedAt: Date } | null; // Dose inválida ainda sem registro de repetição
+  obsolete: boolean;                                          // Repetição pendente que deixou de ser necessária
+}
+
+/**
+ * Calcula a data recomendada baseada na data de nascimento e idade em meses
+ */
+export function calculateRecommendedDate(birthDate: Date, ageMonths: number, ageDays?: number | null): Date {
+  let recommendedDate = addMonths(new Date(birthDate), ageMonths);
+
+  if (ageDays) {
+    recommendedDate = addDays(recommendedDate, ageDays);
+  }
+
+  return startOfDay(recommendedDate);
+}
+
+/**
+ * Último dia em que a dose ainda pode ser aplicada (idade máxima), se houver
+ */
+export function calculateValidUntil(birthDate: Date, def: ScheduleDefinition): Date | null {
+  if (def.maxAgeDays != null) return startOfDay(addDays(new Date(birthDate), def.maxAgeDays));
+  if (def.ageMaxMonths != null) return startOfDay(addMonths(new Date(birthDate), def.ageMaxMonths));
+  return null;
+}
+
+function maxDate(...dates: (Date | null)[]): Date | null {
+  return dates.reduce<Date | null>((max, date) => (date && (!max || isAfter(date, max)) ? date : max), null);
+}
+
+export function scheduleKey(calendarId: number | null, vaccineKey: string, doseLabel: string): string {
+  return `${calendarId}:${vaccineKey}:${doseLabel}`;
+}
+
+/**
+ * Rótulo do registro de repetição (a n-ésima tentativa depois da dose original)
+ */
+export function repeatDoseLabel(doseLabel: string, repeatNumber: number): string {
+  return repeatNumber > 1 ? `${doseLabel} (repetição ${repeatNumber})` : `${doseLabel} (repetição)`;
+}
+
+/**
+ * Recalcula o esquema de cada série (mesma vacina e calendário) a partir do
+ * histórico do bebê. Para cada dose:
+ * - aplicada: válida se respeitou idade mínima e intervalo mínimo da dose
+ *   anterior; inválida pede uma repetição (registro com repeatOfId), que segue
+ *   as mesmas regras e vira referência para o restante da série;
+ * - pendente: data = maior entre a idade recomendada, a idade mínima e a dose
+ *   anterior (aplicada ou prevista) + intervalo mínimo;
+ * - pulada: não conta, a série segue da última dose.
+ * Registros fora do calendário (manuais, sem calendarId) ficam de fora.
+ */
+export function computeCatchUpSchedule(
+  birthDate: Date,
+  definitions: ScheduleDefinition[],
+  records: ScheduleRecord[]
+): ScheduledDose[] {
+  const recordsByKey = new Map(records.map(r => [scheduleKey(r.calendarId, r.vaccineKey, r.doseLabel), r]));
+  const repeatsByRecordId = new Map(
+    records.filter(r => r.repeatOfId !== null).map(r => [r.repeatOfId!, r])
+  );
+
+  const series = new Map<string, ScheduleDefinition[]>();
+  for (const def of definitions) {
+    const key = `${def.calendarId}:${def.vaccineKey}`;
+    if (!series.has(key)) series.set(key, []);
+    series.get(key)!.push(def);
+  }
+
+  const scheduled: ScheduledDose[] = [];
+
+  for (const doses of series.values()) {
+    doses.sort((a, b) => a.doseNumber - b.doseNumber || a.ageMonths - b.ageMonths || a.sortOrder - b.sortOrder);
+
+    // Data (real ou prevista) da dose anterior da série
+    let previousDate: Date | null = null;
+
+    for (const def of doses) {
+      const record = recordsByKey.get(scheduleKey(def.calendarId, def.vaccineKey, def.doseLabel));
+      const standardDate = calculateRecommendedDate(birthDate, def.ageMonths, def.ageDays);
+      const minAgeDate = def.minAgeDays != null ? startOfDay(addDays(new Date(birthDate), def.minAgeDays)) : null;
+      const intervalDate = previousDate && def.minIntervalDays != null
+        ? startOfDay(addDays(previousDate, def.minIntervalDays))
+        : null;
+      const earliest = maxDate(minAgeDate, intervalDate);
+      const validUntil = calculateValidUntil(birthDate, def);
+      const repeatIntervalDays = def.minIntervalDays ?? DEFAULT_REPEAT_INTERVAL_DAYS;
+
+      const dose = (recordId: number, recommendedAt: Date, extra: Partial<ScheduledDose> = {}): ScheduledDose => ({
+        recordId, recommendedAt, validUntil, isValid: true, invalidReason: null, repeat: null, obsolete: false, ...extra,
+      });
+
+      if (!record) {
+        previousDate = maxDate(standardDate, earliest)!;
+        continue;
+      }
+
+      // A dose e, se ela foi inválida, as repetições encadeadas
+      let attempt: ScheduleRecord | undefined = record;
+      let attemptDate = maxDate(standardDate, earliest)!;
+      let repeatNumber = 0;
+
+      while (attempt) {
+        if (attempt.status === VaccineStatus.SKIPPED) {
+          scheduled.push(dose(attempt.id, attempt.recommendedAt));
+          break;
+        }
+
+        // Aplicada sem data informada: não há como validar, a série segue da data recomendada
+        if (attempt.status === VaccineStatus.APPLIED && !attempt.appliedAt) {
+          scheduled.push(dose(attempt.id, attempt.recommendedAt));
+          previousDate = attempt.recommendedAt;
+          break;
+        }
+
+        if (attempt.status !== VaccineStatus.APPLIED) {
+          scheduled.push(dose(attempt.id, attemptDate));
+          previousDate = attemptDate;
+          break;
+        }
+
+        const appliedAt = startOfDay(new Date(attempt.appliedAt!));
+        let invalidReason: string | null = null;
+
+        if (repeatNumber > 0) {
+          if (isBefore(appliedAt, attemptDate)) {
+            invalidReason = `Aplicada antes do intervalo mínimo de ${repeatIntervalDays} dias desde a dose inválida`;
+          }
+        } else if (minAgeDate && isBefore(appliedAt, minAgeDate)) {
+          invalidReason = `Aplicada antes da idade mínima de ${def.minAgeDays} dias`;
+        } else if (intervalDate && isBefore(appliedAt, intervalDate)) {
+          invalidReason = `Aplicada antes do intervalo mínimo de ${def.minIntervalDays} dias desde a dose anterior`;
+        }
+
+        if (!invalidReason) {
+          scheduled.push(dose(attempt.id, attempt.recommendedAt));
+          previousDate = appliedAt;
+          break;
+        }
+
+        // Dose inválida: a repetição respeita o intervalo desde ela e a data mínima da dose
+        const repeatAt = maxDate(earliest, startOfDay(addDays(appliedAt, repeatIntervalDays)))!;
+        const next = repeatsByRecordId.get(attempt.id);
+        scheduled.push(dose(attempt.id, attemptDate, {
+          isValid: false,
+          invalidReason,
+          repeat: next ? null : { doseLabel: repeatDoseLabel(def.doseLabel, repeatNumber + 1), recommendedAt: repeatAt },
+        }));
+        previousDate = repeatAt;
+
+        attempt = next;
+        attemptDate = repeatAt;
+        repeatNumber++;
+      }
+
+      // Repetições pendentes depois de uma tentativa válida (ex.: data corrigida) sobram
+      let leftover = attempt ? repeatsByRecordId.get(attempt.id) : undefined;
+      while (leftover) {
+        if (leftover.status === VaccineStatus.PENDING) {
+          scheduled.push(dose(leftover.id, leftover.recommendedAt, { obsolete: true }));
+        }
+        leftover = repeatsByRecordId.get(leftover.id);
+      }
+    }
+  }
+
+  return scheduled;
+}
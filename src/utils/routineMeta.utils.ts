@@ -2,7 +2,7 @@
 // Sanitização e validação dos campos meta por tipo de rotina
 
 import { RoutineType } from '@prisma/client';
-import { RoutineMeta } from '../types';
+import { RoutineMeta, CustomMetaFieldDefinition } from '../types';
 
 /**
  * Whitelist de campos meta permitidos por tipo de rotina
@@ -46,23 +46,29 @@ export const ALLOWED_META_FIELDS: Record<RoutineType, string[]> = {
     'quantityMl',       // number
     'extractionMl',     // alias para quantityMl
   ],
+  // Campos definidos por bebê em CustomRoutineType.metaFields
+  CUSTOM: [],
 };
 
 /**
  * Sanitiza o objeto meta removendo campos não permitidos para o tipo de rotina
  * @param routineType Tipo da rotina
  * @param meta Objeto meta a ser sanitizado
+ * @param customFields Campos do tipo personalizado (apenas para CUSTOM)
  * @returns Meta sanitizado apenas com campos permitidos
  */
 export function sanitizeRoutineMeta(
   routineType: RoutineType,
-  meta: RoutineMeta | Record<string, unknown> | null | undefined
+  meta: RoutineMeta | Record<string, unknown> | null | undefined,
+  customFields?: CustomMetaFieldDefinition[]
 ): Record<string, unknown> {
   if (!meta || typeof meta !== 'object') {
     return {};
   }
 
-  const allowedFields = ALLOWED_META_FIELDS[routineType] || [];
+  const allowedFields = routineType === 'CUSTOM'
+    ? (customFields || []).map(field => field.key)
+    : ALLOWED_META_FIELDS[routineType] || [];
   const sanitized: Record<string, unknown> = {};
 
   for (const [key, value] of Object.entries(meta)) {
@@ -127,16 +133,62 @@ export function normalizeDiaperMeta(meta: Record<string, unknown>): Record<strin
   return result;
 }
 
+/**
+ * Normaliza o meta de rotinas CUSTOM conforme a definição dos campos
+ * Converte valores enviados como texto (ex: formulários) para o tipo declarado.
+ * Valores que não puderem ser convertidos são mantidos para que a validação os aponte.
+ */
+export function normalizeCustomMeta(
+  meta: Record<string, unknown>,
+  customFields: CustomMetaFieldDefinition[]
+): Record<string, unknown> {
+  const result = { ...meta };
+
+  for (const field of customFields) {
+    const value = result[field.key];
+    if (value === undefined) continue;
+
+    switch (field.type) {
+      case 'number': {
+        if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+          result[field.key] = Number(value);
+        }
+        break;
+      }
+      case 'boolean': {
+        if (value === 'true' || value === 'yes') result[field.key] = true;
+        if (value === 'false' || value === 'no') result[field.key] = false;
+        break;
+      }
+      case 'text': {
+        if (typeof value === 'number') result[field.key] = String(value);
+        if (typeof result[field.key] === 'string') result[field.key] = (result[field.key] as string).trim();
+        break;
+      }
+      case 'datetime': {
+        if (typeof value === 'string' && !isNaN(Date.parse(value))) {
+          result[field.key] = new Date(value).toISOString();
+        }
+        break;
+      }
+      // enum: mantido como enviado, validado contra options
+    }
+  }
+
+  return result;
+}
+
 /**
  * Normaliza e sanitiza o meta completo baseado no tipo de rotina
  * Aplica whitelist + regras de negócio específicas
  */
 export function normalizeAndSanitizeMeta(
   routineType: RoutineType,
-  meta: RoutineMeta | Record<string, unknown> | null | undefined
+  meta: RoutineMeta | Record<string, unknown> | null | undefined,
+  customFields?: CustomMetaFieldDefinition[]
 ): Record<string, unknown> {
   // Primeiro sanitiza (remove campos não permitidos)
-  let sanitized = sanitizeRoutineMeta(routineType, meta);
+  let sanitized = sanitizeRoutineMeta(routineType, meta, customFields);
 
   // Depois aplica regras de negócio específicas
   switch (routineType) {
@@ -146,6 +198,9 @@ export function normalizeAndSanitizeMeta(
     case 'DIAPER':
       sanitized = normalizeDiaperMeta(sanitized);
       break;
+    case 'CUSTOM':
+      sanitized = normalizeCustomMeta(sanitized, customFields || []);
+      break;
     // Outros tipos não precisam de normalização adicional por enquanto
   }
 
@@ -158,7 +213,8 @@ export function normalizeAndSanitizeMeta(
  */
 export function validateRoutineMeta(
   routineType: RoutineType,
-  meta: Record<string, unknown>
+  meta: Record<string, unknown>,
+  customFields?: CustomMetaFieldDefinition[]
 ): string[] {
   const errors: string[] = [];
 
@@ -195,12 +251,77 @@ export function validateRoutineMeta(
       break;
     }
     
+    case 'CUSTOM': {
+      errors.push(...validateCustomMeta(meta, customFields || []));
+      break;
+    }
+    
     // SLEEP e BATH não têm campos obrigatórios no meta
   }
 
   return errors;
 }
 
+/**
+ * Valida o meta de uma rotina CUSTOM contra a definição dos campos
+ */
+function validateCustomMeta(
+  meta: Record<string, unknown>,
+  customFields: CustomMetaFieldDefinition[]
+): string[] {
+  const errors: string[] = [];
+
+  for (const field of customFields) {
+    const value = meta[field.key];
+
+    if (value === undefined) {
+      if (field.required) {
+        errors.push(`${field.label} é obrigatório`);
+      }
+      continue;
+    }
+
+    switch (field.type) {
+      case 'number': {
+        if (typeof value !== 'number' || !isFinite(value)) {
+          errors.push(`${field.label} deve ser um número`);
+        } else if (field.min !== undefined && value < field.min) {
+          errors.push(`${field.label} deve ser no mínimo ${field.min}${field.unit ? ` ${field.unit}` : ''}`);
+        } else if (field.max !== undefined && value > field.max) {
+          errors.push(`${field.label} deve ser no máximo ${field.max}${field.unit ? ` ${field.unit}` : ''}`);
+        }
+        break;
+      }
+      case 'boolean': {
+        if (typeof value !== 'boolean') {
+          errors.push(`${field.label} deve ser sim ou não`);
+        }
+        break;
+      }
+      case 'text': {
+        if (typeof value !== 'string') {
+          errors.push(`${field.label} deve ser um texto`);
+        }
+        break;
+      }
+      case 'enum': {
+        if (!(field.options || []).includes(value as string)) {
+          errors.push(`${field.label} deve ser um dos valores: ${(field.options || []).join(', ')}`);
+        }
+        break;
+      }
+      case 'datetime': {
+        if (typeof value !== 'string' || isNaN(Date.parse(value))) {
+          errors.push(`${field.label} deve ser uma data válida`);
+        }
+        break;
+      }
+    }
+  }
+
+  return errors;
+}
+
 /**
  * Merge do meta existente com novos valores
  * Usado para atualização parcial do meta
@@ -208,13 +329,14 @@ export function validateRoutineMeta(
 export function mergeRoutineMeta(
   routineType: RoutineType,
   existingMeta: Record<string, unknown> | null | undefined,
-  newMeta: Record<string, unknown> | null | undefined
+  newMeta: Record<string, unknown> | null | undefined,
+  customFields?: CustomMetaFieldDefinition[]
 ): Record<string, unknown> {
   const merged = {
     ...(existingMeta || {}),
     ...(newMeta || {}),
   };
 
-  return normalizeAndSanitizeMeta(routineType, merged);
+  return normalizeAndSanitizeMeta(routineType, merged, customFields);
 }
 
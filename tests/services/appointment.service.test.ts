@@ -0,0 +1,33 @@
+jest.mock('../../src/config/database', () => ({ prisma: {} }));
+
+import { APPOINTMENT_TRANSITIONS, canTransition } from '../../src/services/appointment.service';
+
+describe('APPOINTMENT_TRANSITIONS', () => {
+  it('segue o ciclo solicitado → agendado → confirmado → recepcionado → em atendimento → concluído', () => {
+    expect(canTransition('REQUESTED', 'SCHEDULED')).toBe(true);
+    expect(canTransition('SCHEDULED', 'CONFIRMED')).toBe(true);
+    expect(canTransition('CONFIRMED', 'CHECKED_IN')).toBe(true);
+    expect(canTransition('CHECKED_IN', 'IN_PROGRESS')).toBe(true);
+    expect(canTransition('IN_PROGRESS', 'COMPLETED')).toBe(true);
+  });
+
+  it('não recepciona sem confirmar', () => {
+    expect(canTransition('SCHEDULED', 'CHECKED_IN')).toBe(false);
+    expect(canTransition('REQUESTED', 'CHECKED_IN')).toBe(false);
+  });
+
+  it('falta só antes da recepção', () => {
+    expect(canTransition('SCHEDULED', 'NO_SHOW')).toBe(true);
+    expect(canTransition('CONFIRMED', 'NO_SHOW')).toBe(true);
+    expect(canTransition('CHECKED_IN', 'NO_SHOW')).toBe(false);
+    expect(canTransition('IN_PROGRESS', 'NO_SHOW')).toBe(false);
+  });
+
+  it('cancela até o atendimento começar; status finais não mudam', () => {
+    expect(canTransition('CHECKED_IN', 'CANCELLED')).toBe(true);
+    expect(canTransition('IN_PROGRESS', 'CANCELLED')).toBe(false);
+    expect(APPOINTMENT_TRANSITIONS.COMPLETED).toEqual([]);
+    expect(APPOINTMENT_TRANSITIONS.NO_SHOW).toEqual([]);
+    expect(APPOINTMENT_TRANSITIONS.CANCELLED).toEqual([]);
+  });
+});
@@ -0,0 +1,152 @@
+import { MEDICATION_DOSING_REFERENCES } from '../../src/constants/medication-dosing';
+
+const prisma = {
+  baby: { findUnique: jest.fn() },
+  medicationDose: { findMany: jest.fn(), create: jest.fn() },
+  growth: { findFirst: jest.fn() },
+};
+
+jest.mock('../../src/config/database', () => ({ prisma }));
+jest.mock('../../src/utils/helpers/baby-permission.helper', () => ({
+  requireBabyAccessByCaregiverId: jest.fn().mockResolvedValue(undefined),
+}));
+
+import { MedicationService } from '../../src/services/medication.service';
+
+const HOUR_MS = 60 * 60 * 1000;
+const NOW = new Date('2026-10-19T12:00:00Z');
+const { paracetamol, ibuprofen, dipyrone } = MEDICATION_DOSING_REFERENCES;
+
+function codes(warnings: Array<{ code: string }>): string[] {
+  return warnings.map(w => w.code).sort();
+}
+
+describe('MedicationService.evaluateDose', () => {
+  const weight = { weightKg: 10, measuredAt: new Date('2026-10-10T12:00:00Z') };
+  const base = { weight, administeredAt: NOW, ageMonths: 12, previousDoses24h: [] };
+
+  it('dose dentro dos limites não gera alertas', () => {
+    expect(MedicationService.evaluateDose({ ...base, reference: paracetamol, doseMg: 150 })).toEqual([]);
+  });
+
+  it('alerta peso ausente ou desatualizado', () => {
+    expect(codes(MedicationService.evaluateDose({ ...base, reference: paracetamol, doseMg: 150, weight: null })))
+      .toEqual(['NO_WEIGHT']);
+
+    const oldWeight = { weightKg: 10, measuredAt: new Date('2026-08-01T12:00:00Z') };
+    expect(codes(MedicationService.evaluateDose({ ...base, reference: paracetamol, doseMg: 150, weight: oldWeight })))
+      .toEqual(['WEIGHT_OUTDATED']);
+  });
+
+  it('alerta dose acima do máximo por kg e do máximo absoluto', () => {
+    expect(codes(MedicationService.evaluateDose({ ...base, reference: paracetamol, doseMg: 200 })))
+      .toEqual(['DOSE_ABOVE_MAX_PER_KG']);
+
+    const heavy = { weightKg: 80, measuredAt: weight.measuredAt };
+    expect(codes(MedicationService.evaluateDose({ ...base, reference: paracetamol, doseMg: 1200, weight: heavy })))
+      .toEqual(['DOSE_ABOVE_MAX_ABSOLUTE']);
+  });
+
+  it('soma as doses das últimas 24h no máximo diário e no número de doses', () => {
+    const previousDoses24h = [{ doseMg: 150 }, { doseMg: 150 }, { doseMg: 150 }, { doseMg: 160 }];
+    // 760 mg em 24h > 75 mg/kg/dia para 10 kg; 5 doses ainda é o limite
+    expect(codes(MedicationService.evaluateDose({ ...base, reference: paracetamol, doseMg: 150, previousDoses24h })))
+      .toEqual(['DAILY_MAX_EXCEEDED']);
+
+    const fourDoses = [{ doseMg: 50 }, { doseMg: 50 }, { doseMg: 50 }, { doseMg: 50 }];
+    expect(codes(MedicationService.evaluateDose({ ...base, reference: ibuprofen, doseMg: 50, previousDoses24h: fourDoses })))
+      .toEqual(['MAX_DOSES_PER_DAY_EXCEEDED']);
+  });
+
+  it('alerta idade e peso mínimos do medicamento', () => {
+    const light = { weightKg: 4.5, measuredAt: weight.measuredAt };
+    expect(codes(MedicationService.evaluateDose({ ...base, reference: dipyrone, doseMg: 50, weight: light, ageMonths: 2 })))
+      .toEqual(['BELOW_MIN_AGE', 'BELOW_MIN_WEIGHT']);
+  });
+
+  it('sem dose em mg não confere limites', () => {
+    expect(codes(MedicationService.evaluateDose({ ...base, reference: ibuprofen }))).toEqual(['UNKNOWN_DOSE']);
+  });
+
+  it('medicamento sem referência só confere o peso', () => {
+    expect(MedicationService.evaluateDose({ ...base, reference: null, doseMg: 5000 })).toEqual([]);
+  });
+});
+
+describe('MedicationService.recordDose (intervalo mínimo)', () => {
+  const lastDose = { id: 1, doseMg: 100, administeredAt: new Date(NOW.getTime() - 2 * HOUR_MS) };
+
+  beforeAll(() => {
+    // Doses no futuro são recusadas: o relógio fica fixo em NOW
+    jest.useFakeTimers({ now: NOW, doNotFake: ['nextTick', 'setImmediate'] });
+  });
+  afterAll(() => jest.useRealTimers());
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    prisma.baby.findUnique.mockResolvedValue({ birthDate: new Date('2025-10-19T00:00:00Z') });
+    prisma.medicationDose.findMany.mockResolvedValue([lastDose]);
+    prisma.growth.findFirst.mockResolvedValue({ weightKg: 10, measuredAt: new Date('2026-10-15T00:00:00Z') });
+    prisma.medicationDose.create.mockImplementation(({ data }) => Promise.resolve({ id: 2, ...data }));
+  });
+
+  it('bloqueia dose antes do intervalo da referência', async () => {
+    await expect(
+      MedicationService.recordDose(1, 1, 1, { medicationKey: 'ibuprofen', doseMg: 100, administeredAt: NOW })
+    ).rejects.toMatchObject({ code: 'DOSE_INTERVAL_NOT_REACHED' });
+    expect(prisma.medicationDose.create).not.toHaveBeenCalled();
+  });
+
+  it('intervalo menor enviado pelo cliente não encurta o da referência', async () => {
+    await expect(
+      MedicationService.recordDose(1, 1, 1, {
+        medicationKey: 'ibuprofen',
+        doseMg: 100,
+        administeredAt: NOW,
+        minIntervalHours: 1,
+      })
+    ).rejects.toMatchObject({ code: 'DOSE_INTERVAL_NOT_REACHED', data: { minIntervalHours: 6 } });
+  });
+
+  it('intervalo maior enviado pelo cliente prevalece', async () => {
+    prisma.medicationDose.findMany.mockResolvedValue([
+      { ...lastDose, administeredAt: new Date(NOW.getTime() - 7 * HOUR_MS) },
+    ]);
+    await expect(
+      MedicationService.recordDose(1, 1, 1, {
+        medicationKey: 'ibuprofen',
+        doseMg: 100,
+        administeredAt: NOW,
+        minIntervalHours: 8,
+      })
+    ).rejects.toMatchObject({ code: 'DOSE_INTERVAL_NOT_REACHED', data: { minIntervalHours: 8 } });
+  });
+
+  it('override registra a dose com alerta de perigo', async () => {
+    const result = await MedicationService.recordDose(1, 1, 1, {
+      medicationKey: 'ibuprofen',
+      doseMg: 100,
+      administeredAt: NOW,
+      minIntervalHours: 1,
+      overrideInterval: true,
+    });
+
+    expect(result.warnings).toContainEqual(expect.objectContaining({ code: 'INTERVAL_OVERRIDDEN', severity: 'danger' }));
+    expect(result.dose).toMatchObject({ intervalOverridden: true, minIntervalHours: 6 });
+    expect(result.nextDoseAllowedAt).toEqual(new Date(NOW.getTime() + 6 * HOUR_MS));
+  });
+
+  it('após o intervalo registra sem alerta de intervalo', async () => {
+    prisma.medicationDose.findMany.mockResolvedValue([
+      { ...lastDose, administeredAt: new Date(NOW.getTime() - 6 * HOUR_MS) },
+    ]);
+    const result = await MedicationService.recordDose(1, 1, 1, {
+      medicationKey: 'ibuprofen',
+      doseMg: 100,
+      administeredAt: NOW,
+    });
+
+    expect(codes(result.warnings)).not.toContain('INTERVAL_OVERRIDDEN');
+    expect(result.dose).toMatchObject({ intervalOverridden: false });
+  });
+});
@@ -0,0 +1,277 @@
+import {
+  AvailabilityException,
+  AvailabilityInput,
+  AvailabilitySchedule,
+  computeAvailableSlots,
+  zonedDateTime,
+} from '../../src/utils/helpers/availability.helper';
+
+const NEW_YORK = 'America/New_York';
+const SAO_PAULO = 'America/Sao_Paulo';
+const PAST = new Date('2000-01-01T00:00:00Z');
+
+function schedule(overrides: Partial<AvailabilitySchedule> = {}): AvailabilitySchedule {
+  return {
+    clinicId: 1,
+    dayOfWeek: 1,
+    startTime: '08:00',
+    endTime: '10:00',
+    slotDuration: 30,
+    bufferMinutes: 0,
+    validFrom: null,
+    validUntil: null,
+    ...overrides,
+  };
+}
+
+function exception(overrides: Partial<AvailabilityException> & { exceptionDate: Date }): AvailabilityException {
+  return { clinicId: null, type: 'BLOCKED', startTime: null, endTime: null, ...overrides };
+}
+
+function slots(input: Partial<AvailabilityInput> & Pick<AvailabilityInput, 'from' | 'to'>, timezone = SAO_PAULO) {
+  return computeAvailableSlots({
+    schedules: [schedule()],
+    exceptions: [],
+    appointments: [],
+    timezoneFor: () => timezone,
+    now: PAST,
+    ...input,
+  });
+}
+
+function starts(result: ReturnType<typeof computeAvailableSlots>): string[] {
+  return result.map(slot => slot.start.toISOString());
+}
+
+describe('zonedDateTime', () => {
+  it('converte o horário de parede pelo offset do dia', () => {
+    expect(zonedDateTime('2026-10-19', '08:00', SAO_PAULO).toISOString()).toBe('2026-10-19T11:00:00.000Z');
+    expect(zonedDateTime('2026-07-01', '08:00', NEW_YORK).toISOString()).toBe('2026-07-01T12:00:00.000Z');
+    expect(zonedDateTime('2026-12-01', '08:00', NEW_YORK).toISOString()).toBe('2026-12-01T13:00:00.000Z');
+  });
+
+  it('avança horários que caem no salto do horário de verão', () => {
+    expect(zonedDateTime('2026-03-08', '02:30', NEW_YORK).toISOString()).toBe('2026-03-08T07:30:00.000Z');
+    expect(zonedDateTime('2018-11-04', '00:00', SAO_PAULO).toISOString()).toBe('2018-11-04T03:00:00.000Z');
+  });
+});
+
+describe('computeAvailableSlots', () => {
+  describe('horário de verão', () => {
+    it('Nova York, início: não oferece horários antes da abertura', () => {
+      // 2026-03-08 (domingo): 02:00 EST -> 03:00 EDT; expediente 02:00-05:00
+      const result = slots(
+        { from: '2026-03-08', to: '2026-03-08', schedules: [schedule({ dayOfWeek: 0, startTime: '02:00', endTime: '05:00' })] },
+        NEW_YORK
+      );
+      // Começa às 03:00 EDT (07:00Z) e termina às 05:00 EDT (09:00Z)
+      expect(starts(result)).toEqual([
+        '2026-03-08T07:00:00.000Z',
+        '2026-03-08T07:30:00.000Z',
+        '2026-03-08T08:00:00.000Z',
+        '2026-03-08T08:30:00.000Z',
+      ]);
+    });
+
+    it('Nova York, fim: a hora repetida deixa o expediente 1h mais longo', () => {
+      // 2026-11-01 (domingo): 02:00 EDT -> 01:00 EST; expediente 00:00-03:00
+      const result = slots(
+        { from: '2026-11-01', to: '2026-11-01', schedules: [schedule({ dayOfWeek: 0, startTime: '00:00', endTime: '03:00' })] },
+        NEW_YORK
+      );
+      expect(result).toHaveLength(8);
+      expect(result[0].start.toISOString()).toBe('2026-11-01T04:00:00.000Z');
+      expect(result[result.length - 1].end.toISOString()).toBe('2026-11-01T08:00:00.000Z');
+      expect(result.every(slot => slot.date === '2026-11-01')).toBe(true);
+    });
+
+    it('São Paulo, início (2018): a meia-noite inexistente abre à 01:00', () => {
+      // 2018-11-04 (domingo): 00:00 -03 -> 01:00 -02; expediente 00:00-02:00
+      const result = slots({
+        from: '2018-11-04',
+        to: '2018-11-04',
+        schedules: [schedule({ dayOfWeek: 0, startTime: '00:00', endTime: '02:00' })],
+      });
+      expect(starts(result)).toEqual(['2018-11-04T03:00:00.000Z', '2018-11-04T03:30:00.000Z']);
+    });
+
+    it('São Paulo, fim (2019): cada dia usa o próprio offset', () => {
+      // 2019-02-17 00:00 -02 -> 2019-02-16 23:00 -03
+      const result = slots({
+        from: '2019-02-16',
+        to: '2019-02-17',
+        schedules: [
+          schedule({ dayOfWeek: 6, startTime: '20:00', endTime: '21:00' }),
+          schedule({ dayOfWeek: 0, startTime: '08:00', endTime: '09:00' }),
+        ],
+      });
+      expect(starts(result)).toEqual([
+        '2019-02-16T22:00:00.000Z',
+        '2019-02-16T22:30:00.000Z',
+        '2019-02-17T11:00:00.000Z',
+        '2019-02-17T11:30:00.000Z',
+      ]);
+    });
+
+    it('São Paulo sem horário de verão: offset -03 o ano todo', () => {
+      const result = slots({ from: '2026-10-19', to: '2026-10-19' });
+      expect(starts(result)).toEqual([
+        '2026-10-19T11:00:00.000Z',
+        '2026-10-19T11:30:00.000Z',
+        '2026-10-19T12:00:00.000Z',
+        '2026-10-19T12:30:00.000Z',
+      ]);
+      expect(result[0]).toMatchObject({ date: '2026-10-19', clinicId: 1, timezone: SAO_PAULO });
+    });
+  });
+
+  describe('exceções', () => {
+    const monday = new Date('2026-10-19T00:00:00Z');
+
+    it('feriado fecha o dia em todas as clínicas', () => {
+      const result = slots({
+        from: '2026-10-19',
+        to: '2026-10-26',
+        exceptions: [exception({ exceptionDate: monday, type: 'HOLIDAY' })],
+      });
+      expect(result.map(slot => slot.date)).not.toContain('2026-10-19');
+      expect(result.filter(slot => slot.date === '2026-10-26')).toHaveLength(4);
+    });
+
+    it('feriado de outra clínica não fecha a agenda', () => {
+      const result = slots({
+        from: '2026-10-19',
+        to: '2026-10-19',
+        exceptions: [exception({ exceptionDate: monday, type: 'HOLIDAY', clinicId: 2 })],
+      });
+      expect(result).toHaveLength(4);
+    });
+
+    it('bloqueio sem horário fecha o dia; com horário, só o trecho', () => {
+      expect(
+        slots({ from: '2026-10-19', to: '2026-10-19', exceptions: [exception({ exceptionDate: monday })] })
+      ).toHaveLength(0);
+
+      const partial = slots({
+        from: '2026-10-19',
+        to: '2026-10-19',
+        exceptions: [exception({ exceptionDate: monday, startTime: '08:30', endTime: '09:30' })],
+      });
+      expect(starts(partial)).toEqual(['2026-10-19T11:00:00.000Z', '2026-10-19T12:30:00.000Z']);
+    });
+
+    it('horário reduzido restringe o expediente', () => {
+      const result = slots({
+        from: '2026-10-19',
+        to: '2026-10-19',
+        schedules: [schedule({ startTime: '08:00', endTime: '12:00' })],
+        exceptions: [exception({ exceptionDate: monday, type: 'REDUCED_HOURS', startTime: '10:00', endTime: '11:00' })],
+      });
+      expect(starts(result)).toEqual(['2026-10-19T13:00:00.000Z', '2026-10-19T13:30:00.000Z']);
+    });
+  });
+
+  describe('vigência da agenda', () => {
+    it('inclui os dias de início e fim da vigência e nada fora dela', () => {
+      const result = slots({
+        from: '2026-10-12',
+        to: '2026-11-02',
+        schedules: [
+          schedule({
+            validFrom: new Date('2026-10-19T00:00:00Z'),
+            validUntil: new Date('2026-10-26T00:00:00Z'),
+          }),
+        ],
+      });
+      expect([...new Set(result.map(slot => slot.date))]).toEqual(['2026-10-19', '2026-10-26']);
+    });
+
+    it('troca de agenda no meio do período segue cada vigência', () => {
+      const result = slots({
+        from: '2026-10-19',
+        to: '2026-10-26',
+        schedules: [
+          schedule({ endTime: '09:00', validUntil: new Date('2026-10-25T00:00:00Z') }),
+          schedule({ startTime: '14:00', endTime: '15:00', validFrom: new Date('2026-10-26T00:00:00Z') }),
+        ],
+      });
+      expect(starts(result)).toEqual([
+        '2026-10-19T11:00:00.000Z',
+        '2026-10-19T11:30:00.000Z',
+        '2026-10-26T17:00:00.000Z',
+        '2026-10-26T17:30:00.000Z',
+      ]);
+    });
+  });
+
+  describe('intervalo e duração', () => {
+    const appointment = {
+      startAt: new Date('2026-10-19T12:00:00Z'), // 09:00 local
+      endAt: new Date('2026-10-19T12:30:00Z'),
+    };
+
+    it('sem intervalo, só o horário da consulta marcada sai', () => {
+      const result = slots({ from: '2026-10-19', to: '2026-10-19', appointments: [appointment] });
+      expect(starts(result)).toEqual([
+        '2026-10-19T11:00:00.000Z',
+        '2026-10-19T11:30:00.000Z',
+        '2026-10-19T12:30:00.000Z',
+      ]);
+    });
+
+    it('respeita o intervalo antes e depois das consultas', () => {
+      const result = slots({
+        from: '2026-10-19',
+        to: '2026-10-19',
+        schedules: [schedule({ endTime: '11:00', bufferMinutes: 15 })],
+        appointments: [appointment],
+      });
+      // 08:30 terminaria colado na consulta e 09:30 começaria colado nela
+      expect(starts(result)).toEqual([
+        '2026-10-19T11:00:00.000Z',
+        '2026-10-19T13:00:00.000Z',
+        '2026-10-19T13:30:00.000Z',
+      ]);
+    });
+
+    it('duração do tipo de consulta define o fim, o passo segue a agenda', () => {
+      const result = slots({ from: '2026-10-19', to: '2026-10-19', durationMinutes: 60 });
+      expect(result.map(slot => [slot.start.toISOString(), slot.end.toISOString()])).toEqual([
+        ['2026-10-19T11:00:00.000Z', '2026-10-19T12:00:00.000Z'],
+        ['2026-10-19T11:30:00.000Z', '2026-10-19T12:30:00.000Z'],
+        ['2026-10-19T12:00:00.000Z', '2026-10-19T13:00:00.000Z'],
+      ]);
+    });
+
+    it('consulta longa só entra onde cabe inteira antes da marcada', () => {
+      const result = slots({
+        from: '2026-10-19',
+        to: '2026-10-19',
+        durationMinutes: 60,
+        appointments: [appointment],
+      });
+      expect(starts(result)).toEqual(['2026-10-19T11:00:00.000Z']);
+    });
+  });
+
+  it('não oferece horários que já passaram', () => {
+    const result = slots({ from: '2026-10-19', to: '2026-10-19', now: new Date('2026-10-19T12:00:00Z') });
+    expect(starts(result)).toEqual(['2026-10-19T12:00:00.000Z', '2026-10-19T12:30:00.000Z']);
+  });
+
+  it('usa o fuso de cada clínica', () => {
+    const result = computeAvailableSlots({
+      from: '2026-10-19',
+      to: '2026-10-19',
+      schedules: [schedule({ clinicId: 1, endTime: '08:30' }), schedule({ clinicId: 2, endTime: '08:30' })],
+      exceptions: [],
+      appointments: [],
+      timezoneFor: clinicId => (clinicId === 2 ? NEW_YORK : SAO_PAULO),
+      now: PAST,
+    });
+    expect(result.map(slot => [slot.clinicId, slot.start.toISOString()])).toEqual([
+      [1, '2026-10-19T11:00:00.000Z'],
+      [2, '2026-10-19T12:00:00.000Z'],
+    ]);
+  });
+});
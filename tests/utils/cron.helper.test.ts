@@ -0,0 +1,58 @@
+import { getNextCronOccurrence } from '../../src/utils/helpers/cron.helper';
+import { fromWallClock } from '../../src/utils/helpers/timezone.helper';
+
+const NEW_YORK = 'America/New_York';
+const SAO_PAULO = 'America/Sao_Paulo';
+
+describe('fromWallClock', () => {
+  it('converte horários comuns pelo offset do dia', () => {
+    expect(fromWallClock('2026-03-07T02:30:00', NEW_YORK).toISOString()).toBe('2026-03-07T07:30:00.000Z');
+    expect(fromWallClock('2026-07-01T09:00:00', NEW_YORK).toISOString()).toBe('2026-07-01T13:00:00.000Z');
+    expect(fromWallClock('2026-10-19T09:00:00', SAO_PAULO).toISOString()).toBe('2026-10-19T12:00:00.000Z');
+  });
+
+  it('avança horários no salto do horário de verão', () => {
+    // 2026-03-08: 02:00 EST -> 03:00 EDT
+    expect(fromWallClock('2026-03-08T02:30:00', NEW_YORK).toISOString()).toBe('2026-03-08T07:30:00.000Z');
+    expect(fromWallClock('2026-03-08T02:00:00', NEW_YORK).toISOString()).toBe('2026-03-08T07:00:00.000Z');
+    // 2018-11-04 (último horário de verão em São Paulo): 00:00 -03 -> 01:00 -02
+    expect(fromWallClock('2018-11-04T00:30:00', SAO_PAULO).toISOString()).toBe('2018-11-04T03:30:00.000Z');
+  });
+
+  it('mantém horários logo após o salto', () => {
+    expect(fromWallClock('2026-03-08T03:00:00', NEW_YORK).toISOString()).toBe('2026-03-08T07:00:00.000Z');
+    expect(fromWallClock('2026-03-08T01:59:00', NEW_YORK).toISOString()).toBe('2026-03-08T06:59:00.000Z');
+  });
+});
+
+describe('getNextCronOccurrence', () => {
+  it('agenda no horário local do fuso', () => {
+    const next = getNextCronOccurrence('0 9 * * *', new Date('2026-10-19T10:00:00Z'), SAO_PAULO);
+    expect(next?.toISOString()).toBe('2026-10-19T12:00:00.000Z');
+  });
+
+  it('não dispara antes da hora no dia em que o relógio adianta', () => {
+    const next = getNextCronOccurrence('30 2 * * *', new Date('2026-03-08T05:00:00Z'), NEW_YORK);
+    // 02:30 não existe: roda às 03:30 EDT, e não às 01:30 EST
+    expect(next?.toISOString()).toBe('2026-03-08T07:30:00.000Z');
+  });
+
+  it('volta ao horário normal no dia seguinte ao salto', () => {
+    const next = getNextCronOccurrence('30 2 * * *', new Date('2026-03-08T08:00:00Z'), NEW_YORK);
+    expect(next?.toISOString()).toBe('2026-03-09T06:30:00.000Z');
+  });
+
+  it('roda uma vez só quando a hora se repete no fim do horário de verão', () => {
+    // 2026-11-01: 01:30 acontece em EDT (05:30Z) e de novo em EST (06:30Z)
+    const first = getNextCronOccurrence('30 1 * * *', new Date('2026-11-01T04:00:00Z'), NEW_YORK);
+    expect(first?.toISOString()).toBe('2026-11-01T05:30:00.000Z');
+
+    const second = getNextCronOccurrence('30 1 * * *', first!, NEW_YORK);
+    expect(second?.toISOString()).toBe('2026-11-02T06:30:00.000Z');
+  });
+
+  it('pula o horário inexistente da meia-noite em São Paulo', () => {
+    const next = getNextCronOccurrence('30 0 * * *', new Date('2018-11-03T12:00:00Z'), SAO_PAULO);
+    expect(next?.toISOString()).toBe('2018-11-04T03:30:00.000Z');
+  });
+});
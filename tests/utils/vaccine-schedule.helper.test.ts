@@ -0,0 +1,178 @@
+import {
+  ScheduleDefinition,
+  ScheduleRecord,
+  ScheduledDose,
+  computeCatchUpSchedule,
+} from '../../src/utils/helpers/vaccine-schedule.helper';
+
+const BIRTH = new Date('2026-01-01T00:00:00Z');
+
+function definition(overrides: Partial<ScheduleDefinition> & Pick<ScheduleDefinition, 'doseNumber' | 'doseLabel' | 'ageMonths'>): ScheduleDefinition {
+  return {
+    vaccineKey: 'penta',
+    ageDays: null,
+    ageMaxMonths: null,
+    minAgeDays: null,
+    maxAgeDays: null,
+    minIntervalDays: null,
+    sortOrder: overrides.doseNumber,
+    calendarId: 1,
+    ...overrides,
+  };
+}
+
+// Pentavalente: 2, 4 e 6 meses; 1ª dose a partir de 6 semanas, 30 dias entre doses
+const DEFINITIONS = [
+  definition({ doseNumber: 1, doseLabel: '1ª dose', ageMonths: 2, minAgeDays: 42 }),
+  definition({ doseNumber: 2, doseLabel: '2ª dose', ageMonths: 4, minIntervalDays: 30 }),
+  definition({ doseNumber: 3, doseLabel: '3ª dose', ageMonths: 6, minIntervalDays: 30, ageMaxMonths: 84 }),
+];
+
+function record(id: number, doseLabel: string, overrides: Partial<ScheduleRecord> = {}): ScheduleRecord {
+  return {
+    id,
+    vaccineKey: 'penta',
+    doseLabel,
+    calendarId: 1,
+    status: 'PENDING',
+    appliedAt: null,
+    recommendedAt: BIRTH,
+    repeatOfId: null,
+    ...overrides,
+  };
+}
+
+function applied(id: number, doseLabel: string, appliedAt: string, overrides: Partial<ScheduleRecord> = {}): ScheduleRecord {
+  return record(id, doseLabel, { status: 'APPLIED', appliedAt: new Date(appliedAt), ...overrides });
+}
+
+function schedule(records: ScheduleRecord[]): Map<number, ScheduledDose> {
+  return new Map(computeCatchUpSchedule(BIRTH, DEFINITIONS, records).map(dose => [dose.recordId, dose]));
+}
+
+function date(dose: ScheduledDose | undefined): string | undefined {
+  return dose?.recommendedAt.toISOString().slice(0, 10);
+}
+
+describe('computeCatchUpSchedule', () => {
+  it('sem doses aplicadas segue as idades recomendadas', () => {
+    const result = schedule([record(1, '1ª dose'), record(2, '2ª dose'), record(3, '3ª dose')]);
+
+    expect([1, 2, 3].map(id => date(result.get(id)))).toEqual(['2026-03-01', '2026-05-01', '2026-07-01']);
+    expect([...result.values()].every(dose => dose.isValid && !dose.repeat && !dose.obsolete)).toBe(true);
+    expect(result.get(3)!.validUntil!.toISOString().slice(0, 10)).toBe('2033-01-01');
+  });
+
+  it('dose atrasada empurra as seguintes pelo intervalo mínimo', () => {
+    const result = schedule([
+      applied(1, '1ª dose', '2026-06-10'),
+      record(2, '2ª dose'),
+      record(3, '3ª dose'),
+    ]);
+
+    expect(result.get(1)).toMatchObject({ isValid: true, repeat: null });
+    expect(date(result.get(2))).toBe('2026-07-10');
+    expect(date(result.get(3))).toBe('2026-08-09');
+  });
+
+  describe('dose aplicada cedo demais', () => {
+    it('antes da idade mínima: inválida e pede uma repetição', () => {
+      const result = schedule([applied(1, '1ª dose', '2026-02-01'), record(2, '2ª dose')]);
+
+      expect(result.get(1)).toMatchObject({
+        isValid: false,
+        invalidReason: 'Aplicada antes da idade mínima de 42 dias',
+        repeat: { doseLabel: '1ª dose (repetição)', recommendedAt: new Date('2026-03-01T00:00:00Z') },
+      });
+      expect(date(result.get(2))).toBe('2026-05-01');
+    });
+
+    it('antes do intervalo mínimo: a repetição reprograma o restante da série', () => {
+      const result = schedule([
+        applied(1, '1ª dose', '2026-05-01'),
+        applied(2, '2ª dose', '2026-05-20'),
+        record(3, '3ª dose'),
+      ]);
+
+      expect(result.get(2)).toMatchObject({
+        isValid: false,
+        invalidReason: 'Aplicada antes do intervalo mínimo de 30 dias desde a dose anterior',
+        repeat: { doseLabel: '2ª dose (repetição)', recommendedAt: new Date('2026-06-19T00:00:00Z') },
+      });
+      expect(date(result.get(3))).toBe('2026-07-19');
+    });
+
+    it('repetição já criada fica pendente na data da repetição', () => {
+      const result = schedule([
+        applied(1, '1ª dose', '2026-05-01'),
+        applied(2, '2ª dose', '2026-05-20'),
+        record(20, '2ª dose (repetição)', { repeatOfId: 2 }),
+        record(3, '3ª dose'),
+      ]);
+
+      expect(result.get(2)).toMatchObject({ isValid: false, repeat: null });
+      expect(result.get(20)).toMatchObject({ isValid: true, obsolete: false });
+      expect(date(result.get(20))).toBe('2026-06-19');
+      expect(date(result.get(3))).toBe('2026-07-19');
+    });
+
+    it('repetição aplicada no prazo vale e a série segue dela', () => {
+      const result = schedule([
+        applied(1, '1ª dose', '2026-05-01'),
+        applied(2, '2ª dose', '2026-05-20'),
+        applied(20, '2ª dose (repetição)', '2026-07-01', { repeatOfId: 2 }),
+        record(3, '3ª dose'),
+      ]);
+
+      expect(result.get(20)).toMatchObject({ isValid: true, repeat: null });
+      expect(date(result.get(3))).toBe('2026-07-31');
+    });
+
+    it('repetição também aplicada cedo pede outra repetição', () => {
+      const result = schedule([
+        applied(1, '1ª dose', '2026-05-01'),
+        applied(2, '2ª dose', '2026-05-20'),
+        applied(20, '2ª dose (repetição)', '2026-06-01', { repeatOfId: 2 }),
+      ]);
+
+      expect(result.get(20)).toMatchObject({
+        isValid: false,
+        invalidReason: 'Aplicada antes do intervalo mínimo de 30 dias desde a dose inválida',
+        repeat: { doseLabel: '2ª dose (repetição 2)', recommendedAt: new Date('2026-07-01T00:00:00Z') },
+      });
+    });
+
+    it('repetição pendente sobra quando a dose original passa a ser válida', () => {
+      const result = schedule([
+        applied(1, '1ª dose', '2026-05-01'),
+        applied(2, '2ª dose', '2026-06-15'),
+        record(20, '2ª dose (repetição)', { repeatOfId: 2 }),
+      ]);
+
+      expect(result.get(2)).toMatchObject({ isValid: true, repeat: null });
+      expect(result.get(20)).toMatchObject({ obsolete: true });
+    });
+  });
+
+  it('dose pulada não conta: a próxima segue a idade recomendada', () => {
+    const result = schedule([
+      record(1, '1ª dose', { status: 'SKIPPED', recommendedAt: new Date('2026-03-01T00:00:00Z') }),
+      record(2, '2ª dose'),
+      record(3, '3ª dose'),
+    ]);
+
+    expect(result.get(1)).toMatchObject({ isValid: true, repeat: null, obsolete: false });
+    expect(date(result.get(2))).toBe('2026-05-01');
+    expect(date(result.get(3))).toBe('2026-07-01');
+  });
+
+  it('dose pulada no meio da série: a seguinte conta o intervalo da última aplicada', () => {
+    const result = schedule([
+      applied(1, '1ª dose', '2026-06-20'),
+      record(2, '2ª dose', { status: 'SKIPPED' }),
+      record(3, '3ª dose'),
+    ]);
+
+    expect(date(result.get(3))).toBe('2026-07-20');
+  });
+});